@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "notifications" ADD COLUMN     "email_attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "email_error" TEXT,
+ADD COLUMN     "email_last_attempt_at" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "notification_preferences" ADD COLUMN     "email_frequency" TEXT NOT NULL DEFAULT 'immediate';
+
+-- CreateIndex
+CREATE INDEX "notifications_email_sent_created_at_idx" ON "notifications"("email_sent", "created_at");
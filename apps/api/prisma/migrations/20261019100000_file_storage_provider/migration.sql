@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "task_files" ADD COLUMN     "storage_provider" TEXT NOT NULL DEFAULT 'LOCAL';
+
+-- AlterTable
+ALTER TABLE "uploaded_files" ADD COLUMN     "storage_provider" TEXT NOT NULL DEFAULT 'LOCAL';
@@ -0,0 +1,58 @@
+-- AlterTable
+ALTER TABLE "comments" DROP COLUMN "attachments";
+
+-- AlterTable
+ALTER TABLE "daily_update_attachments" ADD COLUMN     "checksum" TEXT;
+
+-- AlterTable
+ALTER TABLE "task_files" ADD COLUMN     "checksum" TEXT;
+
+-- AlterTable
+ALTER TABLE "task_updates" DROP COLUMN "attachments";
+
+-- AlterTable
+ALTER TABLE "uploaded_files" ADD COLUMN     "checksum" TEXT;
+
+-- CreateTable
+CREATE TABLE "attachments" (
+    "id" TEXT NOT NULL,
+    "comment_id" TEXT,
+    "task_update_id" TEXT,
+    "file_name" TEXT NOT NULL,
+    "file_size" INTEGER NOT NULL,
+    "mime_type" TEXT NOT NULL,
+    "checksum" TEXT NOT NULL,
+    "storage_provider" TEXT NOT NULL DEFAULT 'LOCAL',
+    "storage_path" TEXT NOT NULL,
+    "uploaded_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "attachments_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "attachments_comment_id_idx" ON "attachments"("comment_id");
+
+-- CreateIndex
+CREATE INDEX "attachments_task_update_id_idx" ON "attachments"("task_update_id");
+
+-- CreateIndex
+CREATE INDEX "attachments_checksum_idx" ON "attachments"("checksum");
+
+-- CreateIndex
+CREATE INDEX "daily_update_attachments_checksum_idx" ON "daily_update_attachments"("checksum");
+
+-- CreateIndex
+CREATE INDEX "task_files_checksum_idx" ON "task_files"("checksum");
+
+-- CreateIndex
+CREATE INDEX "uploaded_files_checksum_idx" ON "uploaded_files"("checksum");
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_comment_id_fkey" FOREIGN KEY ("comment_id") REFERENCES "comments"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_task_update_id_fkey" FOREIGN KEY ("task_update_id") REFERENCES "task_updates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "attachments" ADD CONSTRAINT "attachments_uploaded_by_id_fkey" FOREIGN KEY ("uploaded_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
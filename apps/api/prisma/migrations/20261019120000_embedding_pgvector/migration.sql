@@ -0,0 +1,18 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "vector";
+
+-- AlterTable
+ALTER TABLE "embeddings" ADD COLUMN     "embedding" vector(1536);
+
+-- Backfill vectors that were stored in metadata JSON, then drop them from metadata
+UPDATE "embeddings"
+SET "embedding" = ("metadata"->>'embedding')::vector
+WHERE jsonb_typeof("metadata"->'embedding') = 'array'
+  AND jsonb_array_length("metadata"->'embedding') = 1536;
+
+UPDATE "embeddings"
+SET "metadata" = "metadata" - 'embedding'
+WHERE "metadata" ? 'embedding';
+
+-- CreateIndex
+CREATE INDEX "embeddings_embedding_hnsw_idx" ON "embeddings" USING hnsw ("embedding" vector_cosine_ops);
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "embeddings" ADD COLUMN     "content_hash" TEXT;
+
+-- CreateTable
+CREATE TABLE "embedding_jobs" (
+    "id" TEXT NOT NULL,
+    "entity_type" TEXT NOT NULL,
+    "entity_id" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "last_error" TEXT,
+    "last_attempt_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "embedding_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "embedding_jobs_entity_type_entity_id_key" ON "embedding_jobs"("entity_type", "entity_id");
+
+-- CreateIndex
+CREATE INDEX "embedding_jobs_attempts_created_at_idx" ON "embedding_jobs"("attempts", "created_at");
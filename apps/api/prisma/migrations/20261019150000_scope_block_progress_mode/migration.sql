@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "scope_blocks" ADD COLUMN     "progress_mode" TEXT NOT NULL DEFAULT 'auto';
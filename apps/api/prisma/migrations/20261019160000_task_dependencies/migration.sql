@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "start_date" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "task_dependencies" (
+    "id" TEXT NOT NULL,
+    "predecessor_id" TEXT NOT NULL,
+    "successor_id" TEXT NOT NULL,
+    "type" TEXT NOT NULL DEFAULT 'FS',
+    "lag_days" INTEGER NOT NULL DEFAULT 0,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_dependencies_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_dependencies_successor_id_idx" ON "task_dependencies"("successor_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_dependencies_predecessor_id_successor_id_key" ON "task_dependencies"("predecessor_id", "successor_id");
+
+-- AddForeignKey
+ALTER TABLE "task_dependencies" ADD CONSTRAINT "task_dependencies_predecessor_id_fkey" FOREIGN KEY ("predecessor_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_dependencies" ADD CONSTRAINT "task_dependencies_successor_id_fkey" FOREIGN KEY ("successor_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_dependencies" ADD CONSTRAINT "task_dependencies_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "tracks" ADD COLUMN     "task_workflow" JSONB;
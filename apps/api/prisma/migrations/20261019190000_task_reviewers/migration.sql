@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "task_reviewers" (
+    "id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_reviewers_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_reviewers_user_id_idx" ON "task_reviewers"("user_id");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_reviewers_task_id_user_id_key" ON "task_reviewers"("task_id", "user_id");
+
+-- AddForeignKey
+ALTER TABLE "task_reviewers" ADD CONSTRAINT "task_reviewers_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_reviewers" ADD CONSTRAINT "task_reviewers_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
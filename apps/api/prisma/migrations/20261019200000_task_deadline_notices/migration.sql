@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "tracks" ADD COLUMN "deadline_policy" JSONB;
+
+-- CreateTable
+CREATE TABLE "task_deadline_notices" (
+    "id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "stage" TEXT NOT NULL,
+    "due_date" TIMESTAMP(3) NOT NULL,
+    "recipient_ids" TEXT[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "task_deadline_notices_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "task_deadline_notices_task_id_stage_due_date_key" ON "task_deadline_notices"("task_id", "stage", "due_date");
+
+-- AddForeignKey
+ALTER TABLE "task_deadline_notices" ADD CONSTRAINT "task_deadline_notices_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over tasks already notified as overdue so their assignees are not notified again
+INSERT INTO "task_deadline_notices" ("id", "task_id", "stage", "due_date", "recipient_ids", "created_at")
+SELECT gen_random_uuid()::text, "id", 'escalation_assignee', "due_date", ARRAY[]::TEXT[], "last_overdue_notified_at"
+FROM "tasks"
+WHERE "last_overdue_notified_at" IS NOT NULL AND "due_date" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "tasks" DROP COLUMN "last_overdue_notified_at";
@@ -0,0 +1,30 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "occurrence_date" TIMESTAMP(3),
+ADD COLUMN "recurrence_id" TEXT;
+
+-- CreateTable
+CREATE TABLE "task_recurrences" (
+    "id" TEXT NOT NULL,
+    "rrule" TEXT NOT NULL,
+    "starts_at" TIMESTAMP(3) NOT NULL,
+    "next_occurrence_at" TIMESTAMP(3),
+    "template" JSONB NOT NULL,
+    "is_active" BOOLEAN NOT NULL DEFAULT true,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "task_recurrences_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_recurrences_is_active_next_occurrence_at_idx" ON "task_recurrences"("is_active", "next_occurrence_at");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tasks_recurrence_id_occurrence_date_key" ON "tasks"("recurrence_id", "occurrence_date");
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_recurrence_id_fkey" FOREIGN KEY ("recurrence_id") REFERENCES "task_recurrences"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_recurrences" ADD CONSTRAINT "task_recurrences_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
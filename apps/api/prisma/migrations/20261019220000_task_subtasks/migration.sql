@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN "complete_with_subtasks" BOOLEAN NOT NULL DEFAULT true,
+ADD COLUMN "parent_id" TEXT;
+
+-- CreateIndex
+CREATE INDEX "tasks_parent_id_idx" ON "tasks"("parent_id");
+
+-- AddForeignKey
+ALTER TABLE "tasks" ADD CONSTRAINT "tasks_parent_id_fkey" FOREIGN KEY ("parent_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,46 @@
+-- CreateTable
+CREATE TABLE "task_templates" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "name_ar" TEXT NOT NULL,
+    "description" TEXT,
+    "track_id" TEXT,
+    "created_by_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "task_templates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "task_template_items" (
+    "id" TEXT NOT NULL,
+    "template_id" TEXT NOT NULL,
+    "title" TEXT NOT NULL,
+    "title_ar" TEXT NOT NULL,
+    "description" TEXT,
+    "description_ar" TEXT,
+    "priority" "Priority" NOT NULL DEFAULT 'medium',
+    "weight" DOUBLE PRECISION NOT NULL DEFAULT 1,
+    "start_offset_days" INTEGER,
+    "due_offset_days" INTEGER,
+    "checklist" JSONB NOT NULL DEFAULT '[]',
+    "sort_order" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "task_template_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_templates_track_id_idx" ON "task_templates"("track_id");
+
+-- CreateIndex
+CREATE INDEX "task_template_items_template_id_idx" ON "task_template_items"("template_id");
+
+-- AddForeignKey
+ALTER TABLE "task_templates" ADD CONSTRAINT "task_templates_track_id_fkey" FOREIGN KEY ("track_id") REFERENCES "tracks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_templates" ADD CONSTRAINT "task_templates_created_by_id_fkey" FOREIGN KEY ("created_by_id") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_template_items" ADD CONSTRAINT "task_template_items_template_id_fkey" FOREIGN KEY ("template_id") REFERENCES "task_templates"("id") ON DELETE CASCADE ON UPDATE CASCADE;
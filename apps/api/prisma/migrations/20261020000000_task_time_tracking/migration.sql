@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "tasks" ADD COLUMN     "estimated_minutes" INTEGER,
+ADD COLUMN     "logged_minutes" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "task_time_entries" (
+    "id" TEXT NOT NULL,
+    "task_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "started_at" TIMESTAMP(3) NOT NULL,
+    "ended_at" TIMESTAMP(3),
+    "minutes" INTEGER,
+    "note" TEXT,
+    "is_manual" BOOLEAN NOT NULL DEFAULT false,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "task_time_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "timesheets" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "week_start" TIMESTAMP(3) NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'submitted',
+    "total_minutes" INTEGER NOT NULL DEFAULT 0,
+    "track_ids" TEXT[],
+    "submitted_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "reviewed_by_id" TEXT,
+    "reviewed_at" TIMESTAMP(3),
+    "review_comment" TEXT,
+
+    CONSTRAINT "timesheets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_time_entries_task_id_idx" ON "task_time_entries"("task_id");
+
+-- CreateIndex
+CREATE INDEX "task_time_entries_user_id_started_at_idx" ON "task_time_entries"("user_id", "started_at");
+
+-- CreateIndex
+CREATE INDEX "timesheets_status_idx" ON "timesheets"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "timesheets_user_id_week_start_key" ON "timesheets"("user_id", "week_start");
+
+-- AddForeignKey
+ALTER TABLE "task_time_entries" ADD CONSTRAINT "task_time_entries_task_id_fkey" FOREIGN KEY ("task_id") REFERENCES "tasks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_time_entries" ADD CONSTRAINT "task_time_entries_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "timesheets" ADD CONSTRAINT "timesheets_reviewed_by_id_fkey" FOREIGN KEY ("reviewed_by_id") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
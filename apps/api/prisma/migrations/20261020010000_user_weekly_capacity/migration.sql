@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN     "weekly_capacity_minutes" INTEGER NOT NULL DEFAULT 2400;
@@ -0,0 +1,31 @@
+-- CreateTable
+CREATE TABLE "task_views" (
+    "id" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "owner_id" TEXT NOT NULL,
+    "visibility" TEXT NOT NULL DEFAULT 'private',
+    "track_id" TEXT,
+    "filters" JSONB NOT NULL DEFAULT '{}',
+    "sort_by" TEXT NOT NULL DEFAULT 'dueDate',
+    "sort_dir" TEXT NOT NULL DEFAULT 'asc',
+    "group_by" TEXT,
+    "columns" TEXT[],
+    "view_type" TEXT NOT NULL DEFAULT 'list',
+    "default_for_roles" "Role"[],
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "task_views_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "task_views_owner_id_idx" ON "task_views"("owner_id");
+
+-- CreateIndex
+CREATE INDEX "task_views_visibility_track_id_idx" ON "task_views"("visibility", "track_id");
+
+-- AddForeignKey
+ALTER TABLE "task_views" ADD CONSTRAINT "task_views_owner_id_fkey" FOREIGN KEY ("owner_id") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "task_views" ADD CONSTRAINT "task_views_track_id_fkey" FOREIGN KEY ("track_id") REFERENCES "tracks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -119,7 +119,7 @@ ${JSON.stringify(trackData, null, 2)}
       { role: 'user', content: prompt },
     ];
 
-    const analysis = await this.openai.chat(messages, { temperature: 0.3 });
+    const analysis = await this.openai.chat(messages, { feature: 'analysis', temperature: 0.3 });
 
     return {
       analysis,
@@ -204,7 +204,7 @@ ${JSON.stringify(kpiData, null, 2)}
       { role: 'user', content: prompt },
     ];
 
-    const analysis = await this.openai.chat(messages, { temperature: 0.3 });
+    const analysis = await this.openai.chat(messages, { feature: 'analysis', temperature: 0.3 });
 
     return {
       analysis,
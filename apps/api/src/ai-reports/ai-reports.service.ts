@@ -31,7 +31,7 @@ export class AIReportsService {
       { role: 'user', content: prompt },
     ];
 
-    const content = await this.openai.chat(messages, { temperature: 0.3 });
+    const content = await this.openai.chat(messages, { feature: 'reports', temperature: 0.3, userId });
 
     // 4. Generate title and summary
     const typeLabels: Record<string, { title: string; titleAr: string }> = {
@@ -1,6 +1,7 @@
 import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 import { ScheduleModule } from '@nestjs/schedule';
+import { EventEmitterModule } from '@nestjs/event-emitter';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
 import { APP_GUARD } from '@nestjs/core';
 import { PrismaModule } from './common/prisma.module';
@@ -24,6 +25,7 @@ import { AIAnalysisModule } from './ai-analysis/ai-analysis.module';
 import { ScopeBlocksModule } from './scope-blocks/scope-blocks.module';
 import { ProgressModule } from './progress/progress.module';
 import { StorageModule } from './storage/storage.module';
+import { AttachmentsModule } from './attachments/attachments.module';
 import { DailyUpdatesModule } from './daily-updates/daily-updates.module';
 import { ImportsModule } from './imports/imports.module';
 import { SystemExportModule } from './system-export/system-export.module';
@@ -33,6 +35,7 @@ import { HealthController } from './health.controller';
   imports: [
     ConfigModule.forRoot({ isGlobal: true }),
     ScheduleModule.forRoot(),
+    EventEmitterModule.forRoot(),
     ThrottlerModule.forRoot([{ ttl: 60000, limit: 100 }]),
     PrismaModule,
     AuthModule,
@@ -55,6 +58,7 @@ import { HealthController } from './health.controller';
     ScopeBlocksModule,
     ProgressModule,
     StorageModule,
+    AttachmentsModule,
     DailyUpdatesModule,
     ImportsModule,
     SystemExportModule,
@@ -0,0 +1,46 @@
+import { diskStorage } from 'multer';
+import { extname, join } from 'path';
+
+export const ALLOWED_EXTENSIONS = new Set([
+  '.xlsx', '.xls', '.docx', '.doc', '.pptx', '.ppt',
+  '.pdf', '.png', '.jpg', '.jpeg', '.webp',
+  '.txt', '.csv', '.zip',
+]);
+
+export const BLOCKED_EXTENSIONS = new Set([
+  '.exe', '.js', '.sh', '.bat', '.dll', '.apk', '.cmd',
+  '.com', '.msi', '.ps1', '.vbs', '.wsf', '.scr', '.pif',
+]);
+
+export const ALLOWED_MIMES = new Set([
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  'application/vnd.ms-excel',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  'application/msword',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  'application/vnd.ms-powerpoint',
+  'application/pdf',
+  'image/png', 'image/jpeg', 'image/webp',
+  'text/plain', 'text/csv',
+  'application/zip', 'application/x-zip-compressed',
+  'application/octet-stream', // fallback for some browsers
+]);
+
+export const MAX_UPLOAD_BYTES = parseInt(process.env.MAX_UPLOAD_MB || '50', 10) * 1024 * 1024;
+
+export const MAX_FILES_PER_UPLOAD = 10;
+
+/**
+ * Multer options for every upload endpoint: files land in uploads/temp and
+ * AttachmentsService validates, scans and moves them to storage.
+ */
+export const attachmentUploadOptions = {
+  storage: diskStorage({
+    destination: join(process.cwd(), 'uploads', 'temp'),
+    filename: (_req, file, cb) => {
+      const unique = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+      cb(null, `${unique}${extname(file.originalname)}`);
+    },
+  }),
+  limits: { fileSize: MAX_UPLOAD_BYTES },
+};
@@ -0,0 +1,48 @@
+import {
+  Controller, Get, Post, Delete, Param, UseGuards, UseInterceptors, UploadedFiles, Res, BadRequestException,
+} from '@nestjs/common';
+import { FilesInterceptor } from '@nestjs/platform-express';
+import { Response } from 'express';
+import { AttachmentsService, AttachmentOwner } from './attachments.service';
+import { attachmentUploadOptions, MAX_FILES_PER_UPLOAD } from './attachment-rules';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+@Controller('attachments')
+@UseGuards(JwtAuthGuard)
+export class AttachmentsController {
+  constructor(private attachments: AttachmentsService) {}
+
+  /** Single download route for files, task files, daily update, comment and task update attachments. */
+  @Get(':id/download')
+  async download(@Param('id') id: string, @CurrentUser() user: any, @Res() res: Response) {
+    const { url, stream, attachment } = await this.attachments.getDownload(id, user);
+    if (url) return res.redirect(url);
+
+    res.set({
+      'Content-Type': attachment.mimeType || 'application/octet-stream',
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.fileName)}`,
+      'Content-Length': attachment.fileSize.toString(),
+    });
+    stream!.pipe(res);
+  }
+
+  @Post(':owner/:ownerId')
+  @UseInterceptors(FilesInterceptor('files', MAX_FILES_PER_UPLOAD, attachmentUploadOptions))
+  attach(
+    @Param('owner') owner: AttachmentOwner,
+    @Param('ownerId') ownerId: string,
+    @UploadedFiles() files: Express.Multer.File[],
+    @CurrentUser() user: any,
+  ) {
+    if (!files || files.length === 0) {
+      throw new BadRequestException('لم يتم اختيار ملفات');
+    }
+    return this.attachments.attach(owner, ownerId, files, user);
+  }
+
+  @Delete(':id')
+  remove(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.attachments.remove(id, user);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module, Global } from '@nestjs/common';
+import { AttachmentsController } from './attachments.controller';
+import { AttachmentsService } from './attachments.service';
+import { VirusScanService } from './virus-scan.service';
+
+@Global()
+@Module({
+  controllers: [AttachmentsController],
+  providers: [AttachmentsService, VirusScanService],
+  exports: [AttachmentsService],
+})
+export class AttachmentsModule {}
@@ -0,0 +1,64 @@
+import { ForbiddenException } from '@nestjs/common';
+import { AttachmentsService } from './attachments.service';
+
+const employee = { id: 'u-emp', role: 'employee', trackPermissions: [{ trackId: 't1', permissions: ['view'] }] };
+const admin = { id: 'u-admin', role: 'admin', trackPermissions: [] };
+
+/** A comment attachment on `entityType`/`entityId`, with the owning rows given per table. */
+function setup(entityType: string, entityId: string, owners: Record<string, { trackId: string | null } | null> = {}) {
+  const none = { findUnique: jest.fn().mockResolvedValue(null), findFirst: jest.fn().mockResolvedValue(null) };
+  const table = (name: string) => ({
+    findUnique: jest.fn().mockResolvedValue(owners[name] ?? null),
+    findFirst: jest.fn().mockResolvedValue(owners[name] ?? null),
+  });
+  const prisma = {
+    uploadedFile: none,
+    taskFile: none,
+    dailyUpdateAttachment: none,
+    attachment: {
+      findUnique: jest.fn().mockResolvedValue({
+        id: 'att', commentId: 'c1', fileName: 'a.pdf', fileSize: 1, mimeType: 'application/pdf',
+        storagePath: 'attachments/a.pdf', storageProvider: 'local', uploadedById: 'u-other',
+        comment: { entityType, entityId }, taskUpdate: null,
+      }),
+    },
+    dailyUpdate: table('dailyUpdate'),
+    scopeBlock: table('scopeBlock'),
+    kPIEntry: table('kPIEntry'),
+    report: table('report'),
+    deliverable: table('deliverable'),
+  };
+  return new AttachmentsService(prisma as any, {} as any, {} as any);
+}
+
+async function canView(service: AttachmentsService, user: any) {
+  const att = await service.resolve('att');
+  return service.assertCanAccess(user, att, 'view').then(() => true, (err) => {
+    if (err instanceof ForbiddenException) return false;
+    throw err;
+  });
+}
+
+describe('AttachmentsService comment attachment access', () => {
+  it('follows the track of a scope block the comment is on', async () => {
+    expect(await canView(setup('scope_block', 'sb1', { scopeBlock: { trackId: 't1' } }), employee)).toBe(true);
+    expect(await canView(setup('scope_block', 'sb2', { scopeBlock: { trackId: 't2' } }), employee)).toBe(false);
+  });
+
+  it('follows the track of a KPI the comment is on', async () => {
+    expect(await canView(setup('kpi', 'k1', { kPIEntry: { trackId: 't2' } }), employee)).toBe(false);
+  });
+
+  it('keeps files on comments of global daily updates visible', async () => {
+    expect(await canView(setup('daily_update', 'd1', { dailyUpdate: { trackId: null } }), employee)).toBe(true);
+  });
+
+  it('denies files whose owner cannot be found', async () => {
+    expect(await canView(setup('scope_block', 'gone'), employee)).toBe(false);
+    expect(await canView(setup('something_else', 'x1'), employee)).toBe(false);
+  });
+
+  it('still lets admins see files whose owner cannot be found', async () => {
+    expect(await canView(setup('something_else', 'x1'), admin)).toBe(true);
+  });
+});
@@ -0,0 +1,424 @@
+import {
+  Injectable, Logger, NotFoundException, ForbiddenException, BadRequestException, ServiceUnavailableException,
+} from '@nestjs/common';
+import { createHash } from 'crypto';
+import { createReadStream, unlinkSync } from 'fs';
+import { extname } from 'path';
+import { PrismaService } from '../common/prisma.service';
+import { StorageService, StorageFolder } from '../storage/storage.service';
+import { GLOBAL_TRACK_ROLES, TrackScopedUser, hasTrackPermission } from '../common/guards/track-permission.guard';
+import { buildTaskVisibilityFilter } from '../tasks/task-visibility';
+import { VirusScanService } from './virus-scan.service';
+import {
+  ALLOWED_EXTENSIONS, BLOCKED_EXTENSIONS, ALLOWED_MIMES, MAX_UPLOAD_BYTES, MAX_FILES_PER_UPLOAD,
+} from './attachment-rules';
+
+/** Which record a file belongs to; each kind lives in its own table. */
+export type AttachmentKind = 'file' | 'task_file' | 'daily_update' | 'comment' | 'task_update';
+
+/** Owners whose files are kept in the shared `attachments` table. */
+export type AttachmentOwner = 'comment' | 'task_update';
+
+const OWNERS: AttachmentOwner[] = ['comment', 'task_update'];
+
+export type AttachmentUser = TrackScopedUser & { id: string };
+
+export interface StoredAttachment {
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  checksum: string;
+  storagePath: string;
+  storageProvider: string;
+}
+
+export interface ResolvedAttachment {
+  id: string;
+  kind: AttachmentKind;
+  fileName: string;
+  fileSize: number;
+  mimeType: string;
+  storagePath: string;
+  storageProvider: string;
+  uploadedById: string;
+  trackId: string | null;
+  taskId: string | null;
+  // Set when the comment or update the file belongs to cannot be traced to a track or task
+  ownerMissing?: boolean;
+}
+
+/**
+ * One pipeline for every uploaded file, whichever record owns it: shared
+ * type/size validation, virus scan, sha256 dedup against everything already
+ * stored, permission checks and downloads by attachment id.
+ */
+@Injectable()
+export class AttachmentsService {
+  private readonly logger = new Logger(AttachmentsService.name);
+
+  private readonly attachmentSelect = {
+    id: true,
+    fileName: true,
+    fileSize: true,
+    mimeType: true,
+    createdAt: true,
+    uploadedBy: { select: { id: true, name: true, nameAr: true } },
+  };
+
+  constructor(
+    private prisma: PrismaService,
+    private storage: StorageService,
+    private scanner: VirusScanService,
+  ) {}
+
+  // ─── VALIDATION ───
+
+  /** Rejects the whole batch (and drops its temp files) if any file is not allowed. */
+  validate(files: Express.Multer.File[]) {
+    try {
+      for (const file of files) {
+        const ext = extname(file.originalname).toLowerCase();
+        if (BLOCKED_EXTENSIONS.has(ext)) {
+          throw new BadRequestException(`نوع الملف غير مسموح: ${ext}`);
+        }
+        if (!ALLOWED_EXTENSIONS.has(ext)) {
+          throw new BadRequestException(`نوع الملف غير مدعوم: ${ext}. الأنواع المدعومة: ${[...ALLOWED_EXTENSIONS].join(', ')}`);
+        }
+        if (file.mimetype && !ALLOWED_MIMES.has(file.mimetype)) {
+          throw new BadRequestException(`نوع المحتوى غير مدعوم: ${file.mimetype}`);
+        }
+        if (file.size > MAX_UPLOAD_BYTES) {
+          throw new BadRequestException(`حجم الملف ${file.originalname} يتجاوز الحد الأقصى (${MAX_UPLOAD_BYTES / 1024 / 1024} MB)`);
+        }
+      }
+    } catch (err) {
+      this.discard(...files);
+      throw err;
+    }
+  }
+
+  // ─── STORAGE ───
+
+  /** Removes multer temp files of uploads that will not be stored. */
+  discard(...files: Express.Multer.File[]) {
+    for (const file of files) {
+      if (file?.path) {
+        try { unlinkSync(file.path); } catch {}
+      }
+    }
+  }
+
+  /**
+   * Scans and stores one validated multer file. Content already stored under
+   * the same checksum is reused instead of written again.
+   */
+  async store(file: Express.Multer.File, folder: StorageFolder): Promise<StoredAttachment> {
+    let scan;
+    try {
+      scan = await this.scanner.scanFile(file.path);
+    } catch {
+      this.discard(file);
+      throw new ServiceUnavailableException('تعذر فحص الملف، حاول مرة أخرى لاحقاً');
+    }
+    if (!scan.clean) {
+      this.discard(file);
+      this.logger.warn(`Rejected infected upload ${file.originalname}: ${scan.signature}`);
+      throw new BadRequestException(`تم رفض الملف ${file.originalname}: يحتوي على محتوى ضار`);
+    }
+
+    const checksum = await this.checksum(file.path);
+    const meta = { fileName: file.originalname, fileSize: file.size, mimeType: file.mimetype, checksum };
+
+    const existing = await this.findStoredByChecksum(checksum);
+    if (existing) {
+      this.discard(file);
+      return { ...meta, ...existing };
+    }
+
+    const stored = await this.storage.upload(file, folder);
+    return { ...meta, storagePath: stored.storagePath, storageProvider: stored.storageProvider };
+  }
+
+  /** Validates the batch first so nothing is stored when one file is rejected. */
+  async storeAll(files: Express.Multer.File[], folder: StorageFolder): Promise<StoredAttachment[]> {
+    this.validate(files);
+    const stored: StoredAttachment[] = [];
+    for (let i = 0; i < files.length; i++) {
+      try {
+        stored.push(await this.store(files[i], folder));
+      } catch (err) {
+        this.discard(...files.slice(i + 1));
+        await this.release(...stored);
+        throw err;
+      }
+    }
+    return stored;
+  }
+
+  /**
+   * Deletes stored objects once no attachment row points at them anymore.
+   * Call after the owning rows were removed.
+   */
+  async release(...files: Array<{ storagePath: string; storageProvider: string }>) {
+    for (const file of files) {
+      if (!file.storagePath || file.storagePath === 'external') continue;
+      if (await this.countReferences(file.storagePath) > 0) continue;
+      await this.storage.delete(file.storagePath, file.storageProvider);
+    }
+  }
+
+  // ─── ACCESS ───
+
+  /** Finds an attachment of any kind by id; ids are cuids and unique across tables. */
+  async resolve(id: string): Promise<ResolvedAttachment> {
+    const [file, taskFile, dailyUpdate, attachment] = await Promise.all([
+      this.prisma.uploadedFile.findUnique({ where: { id } }),
+      this.prisma.taskFile.findUnique({ where: { id } }),
+      this.prisma.dailyUpdateAttachment.findUnique({
+        where: { id },
+        include: { update: { select: { trackId: true, isDeleted: true } } },
+      }),
+      this.prisma.attachment.findUnique({
+        where: { id },
+        include: {
+          comment: { select: { entityType: true, entityId: true } },
+          taskUpdate: { select: { taskId: true } },
+        },
+      }),
+    ]);
+
+    if (file && file.filePath !== 'external') {
+      return {
+        id, kind: 'file', fileName: file.fileName, fileSize: file.fileSize, mimeType: file.mimeType,
+        storagePath: file.filePath, storageProvider: file.storageProvider, uploadedById: file.uploadedById,
+        trackId: file.trackId, taskId: null,
+      };
+    }
+    if (taskFile) {
+      return {
+        id, kind: 'task_file', fileName: taskFile.fileName, fileSize: taskFile.fileSize, mimeType: taskFile.mimeType,
+        storagePath: taskFile.filePath, storageProvider: taskFile.storageProvider, uploadedById: taskFile.uploadedById,
+        trackId: null, taskId: taskFile.taskId,
+      };
+    }
+    if (dailyUpdate && !dailyUpdate.update.isDeleted) {
+      return {
+        id, kind: 'daily_update', fileName: dailyUpdate.originalName, fileSize: dailyUpdate.sizeBytes, mimeType: dailyUpdate.mimeType,
+        storagePath: dailyUpdate.storagePath, storageProvider: dailyUpdate.storageProvider, uploadedById: dailyUpdate.uploadedById,
+        trackId: dailyUpdate.update.trackId, taskId: null,
+      };
+    }
+    if (attachment) {
+      const owner = attachment.comment
+        ? await this.commentOwner(attachment.comment.entityType, attachment.comment.entityId)
+        : attachment.taskUpdate
+          ? { trackId: null, taskId: attachment.taskUpdate.taskId }
+          : null;
+      return {
+        id,
+        kind: attachment.commentId ? 'comment' : 'task_update',
+        fileName: attachment.fileName,
+        fileSize: attachment.fileSize,
+        mimeType: attachment.mimeType,
+        storagePath: attachment.storagePath,
+        storageProvider: attachment.storageProvider,
+        uploadedById: attachment.uploadedById,
+        trackId: owner?.trackId ?? null,
+        taskId: owner?.taskId ?? null,
+        ...(owner ? {} : { ownerMissing: true }),
+      };
+    }
+    throw new NotFoundException('المرفق غير موجود');
+  }
+
+  /** Track or task owning what a comment is on; null when that cannot be found. */
+  private async commentOwner(entityType: string, entityId: string): Promise<{ trackId: string | null; taskId: string | null } | null> {
+    const where = { id: entityId };
+    const select = { trackId: true };
+    let owner: { trackId: string | null } | null = null;
+    switch (entityType) {
+      case 'track':
+        return { trackId: entityId, taskId: null };
+      case 'task':
+        return { trackId: null, taskId: entityId };
+      case 'daily_update':
+        owner = await this.prisma.dailyUpdate.findFirst({ where: { ...where, isDeleted: false }, select });
+        break;
+      case 'scope_block':
+        owner = await this.prisma.scopeBlock.findUnique({ where, select });
+        break;
+      case 'kpi':
+        owner = await this.prisma.kPIEntry.findUnique({ where, select });
+        break;
+      case 'report':
+        owner = await this.prisma.report.findUnique({ where, select });
+        break;
+      case 'deliverable':
+        owner = await this.prisma.deliverable.findUnique({ where, select });
+        break;
+    }
+    return owner && { trackId: owner.trackId, taskId: null };
+  }
+
+  /**
+   * Viewing follows the owner (track or task), and only admin/PM see files
+   * whose owner is unknown; deleting also needs an elevated role or authorship.
+   */
+  async assertCanAccess(user: AttachmentUser, att: ResolvedAttachment, action: 'view' | 'delete') {
+    const canView = att.ownerMissing
+      ? GLOBAL_TRACK_ROLES.includes(user.role)
+      : att.taskId
+        ? await this.canViewTask(user, att.taskId)
+        : !att.trackId || hasTrackPermission(user, att.trackId, 'view');
+    if (!canView) {
+      throw new ForbiddenException('ليس لديك صلاحية للوصول إلى هذا المرفق');
+    }
+    if (action === 'view') return;
+
+    const isGlobal = GLOBAL_TRACK_ROLES.includes(user.role);
+    const canDelete =
+      att.kind === 'file' || att.kind === 'daily_update' ? isGlobal :
+      att.kind === 'task_file' ? [...GLOBAL_TRACK_ROLES, 'track_lead'].includes(user.role) || att.uploadedById === user.id :
+      isGlobal || att.uploadedById === user.id;
+    if (!canDelete) {
+      throw new ForbiddenException('ليس لديك صلاحية لحذف هذا المرفق');
+    }
+  }
+
+  /** Presigned URL for S3 objects, otherwise a stream of the local file. */
+  async getDownload(id: string, user: AttachmentUser) {
+    const attachment = await this.resolve(id);
+    await this.assertCanAccess(user, attachment, 'view');
+
+    const url = await this.storage.getDownloadUrl(attachment.storagePath, attachment.storageProvider, attachment.fileName);
+    if (url) return { url, attachment };
+    const stream = await this.storage.getStream(attachment.storagePath, attachment.storageProvider);
+    return { stream, attachment };
+  }
+
+  // ─── COMMENT & TASK UPDATE ATTACHMENTS ───
+
+  async attach(owner: AttachmentOwner, ownerId: string, files: Express.Multer.File[], user: AttachmentUser) {
+    if (!OWNERS.includes(owner)) {
+      this.discard(...files);
+      throw new BadRequestException('نوع المحتوى غير مدعوم للمرفقات');
+    }
+    const authorId = await this.findOwnerAuthor(owner, ownerId);
+    if (!authorId) {
+      this.discard(...files);
+      throw new NotFoundException(owner === 'comment' ? 'التعليق غير موجود' : 'التحديث غير موجود');
+    }
+    if (authorId !== user.id && !GLOBAL_TRACK_ROLES.includes(user.role)) {
+      this.discard(...files);
+      throw new ForbiddenException('لا يمكنك إرفاق ملفات بمحتوى مستخدم آخر');
+    }
+
+    const ownerWhere = owner === 'comment' ? { commentId: ownerId } : { taskUpdateId: ownerId };
+    const existingCount = await this.prisma.attachment.count({ where: ownerWhere });
+    if (existingCount + files.length > MAX_FILES_PER_UPLOAD) {
+      this.discard(...files);
+      throw new BadRequestException(`الحد الأقصى ${MAX_FILES_PER_UPLOAD} ملفات. الموجود: ${existingCount}`);
+    }
+
+    const stored = await this.storeAll(files, 'attachments');
+    const attachments: any[] = [];
+    for (const file of stored) {
+      attachments.push(await this.prisma.attachment.create({
+        data: { ...ownerWhere, ...file, uploadedById: user.id },
+        select: this.attachmentSelect,
+      }));
+    }
+    return attachments;
+  }
+
+  /** Deletes an attachment of any kind, subject to the same rules as its owner's routes. */
+  async remove(id: string, user: AttachmentUser) {
+    const att = await this.resolve(id);
+    await this.assertCanAccess(user, att, 'delete');
+
+    switch (att.kind) {
+      case 'file':
+        await this.prisma.uploadedFile.delete({ where: { id } });
+        break;
+      case 'task_file':
+        await this.prisma.taskFile.delete({ where: { id } });
+        break;
+      case 'daily_update':
+        await this.prisma.dailyUpdateAttachment.delete({ where: { id } });
+        break;
+      default:
+        await this.prisma.attachment.delete({ where: { id } });
+    }
+    await this.release(att);
+    return { message: 'تم حذف المرفق', kind: att.kind };
+  }
+
+  /** Stored objects of the given comments / task updates, for release after the owners are deleted. */
+  async findOwnedFiles(owner: AttachmentOwner, ownerIds: string[]) {
+    if (ownerIds.length === 0) return [];
+    return this.prisma.attachment.findMany({
+      where: owner === 'comment' ? { commentId: { in: ownerIds } } : { taskUpdateId: { in: ownerIds } },
+      select: { storagePath: true, storageProvider: true },
+    });
+  }
+
+  // ─── HELPERS ───
+
+  private async canViewTask(user: AttachmentUser, taskId: string) {
+    const task = await this.prisma.task.findFirst({
+      where: {
+        id: taskId,
+        OR: [
+          buildTaskVisibilityFilter(user),
+          { isDeleted: false, assignments: { some: { userId: user.id } } },
+        ],
+      },
+      select: { id: true },
+    });
+    return !!task;
+  }
+
+  private async findOwnerAuthor(owner: AttachmentOwner, ownerId: string) {
+    if (owner === 'comment') {
+      const comment = await this.prisma.comment.findUnique({ where: { id: ownerId }, select: { authorId: true } });
+      return comment?.authorId;
+    }
+    const update = await this.prisma.taskUpdate.findUnique({ where: { id: ownerId }, select: { authorId: true } });
+    return update?.authorId;
+  }
+
+  private async findStoredByChecksum(checksum: string) {
+    const select = { storageProvider: true } as const;
+    const [file, taskFile, dailyUpdate, attachment] = await Promise.all([
+      this.prisma.uploadedFile.findFirst({ where: { checksum }, select: { ...select, filePath: true } }),
+      this.prisma.taskFile.findFirst({ where: { checksum }, select: { ...select, filePath: true } }),
+      this.prisma.dailyUpdateAttachment.findFirst({ where: { checksum }, select: { ...select, storagePath: true } }),
+      this.prisma.attachment.findFirst({ where: { checksum }, select: { ...select, storagePath: true } }),
+    ]);
+    if (file) return { storagePath: file.filePath, storageProvider: file.storageProvider };
+    if (taskFile) return { storagePath: taskFile.filePath, storageProvider: taskFile.storageProvider };
+    if (dailyUpdate) return { storagePath: dailyUpdate.storagePath, storageProvider: dailyUpdate.storageProvider };
+    if (attachment) return { storagePath: attachment.storagePath, storageProvider: attachment.storageProvider };
+    return null;
+  }
+
+  private async countReferences(storagePath: string) {
+    const counts = await Promise.all([
+      this.prisma.uploadedFile.count({ where: { filePath: storagePath } }),
+      this.prisma.taskFile.count({ where: { filePath: storagePath } }),
+      this.prisma.dailyUpdateAttachment.count({ where: { storagePath } }),
+      this.prisma.attachment.count({ where: { storagePath } }),
+    ]);
+    return counts.reduce((sum, n) => sum + n, 0);
+  }
+
+  private checksum(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const hash = createHash('sha256');
+      createReadStream(filePath)
+        .on('data', (chunk) => hash.update(chunk))
+        .on('end', () => resolve(hash.digest('hex')))
+        .on('error', reject);
+    });
+  }
+}
@@ -0,0 +1,83 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { createConnection } from 'net';
+import { createReadStream } from 'fs';
+
+export interface ScanResult {
+  clean: boolean;
+  /** Signature name reported by the scanner when the file is infected. */
+  signature?: string;
+}
+
+/**
+ * Scans uploads with a clamd daemon (INSTREAM over TCP). Without CLAMAV_HOST
+ * the scan is skipped and every file is reported clean, which is what local
+ * development and tests rely on; tests can also override this provider.
+ */
+@Injectable()
+export class VirusScanService {
+  private readonly logger = new Logger(VirusScanService.name);
+  private readonly host?: string;
+  private readonly port: number;
+  private readonly timeoutMs: number;
+
+  constructor(config: ConfigService) {
+    this.host = config.get<string>('CLAMAV_HOST');
+    this.port = parseInt(config.get<string>('CLAMAV_PORT', '3310'), 10);
+    this.timeoutMs = parseInt(config.get<string>('CLAMAV_TIMEOUT_MS', '30000'), 10);
+  }
+
+  get enabled(): boolean {
+    return !!this.host;
+  }
+
+  async scanFile(filePath: string): Promise<ScanResult> {
+    if (!this.host) return { clean: true };
+
+    const reply = await this.instream(filePath);
+    // clamd replies "stream: OK" or "stream: <signature> FOUND"
+    const found = reply.match(/^stream: (.+) FOUND$/);
+    if (found) return { clean: false, signature: found[1] };
+    if (reply.endsWith('OK')) return { clean: true };
+    throw new Error(`Unexpected clamd reply: ${reply}`);
+  }
+
+  private instream(filePath: string): Promise<string> {
+    return new Promise((resolve, reject) => {
+      const socket = createConnection({ host: this.host, port: this.port });
+      const chunks: Buffer[] = [];
+      let settled = false;
+
+      const finish = (err?: Error) => {
+        if (settled) return;
+        settled = true;
+        socket.destroy();
+        if (err) {
+          this.logger.warn(`clamd scan failed for ${filePath}: ${err.message}`);
+          reject(err);
+        } else {
+          resolve(Buffer.concat(chunks).toString('utf8').replace(/\0/g, '').trim());
+        }
+      };
+
+      socket.setTimeout(this.timeoutMs, () => finish(new Error('clamd timed out')));
+      socket.on('error', finish);
+      socket.on('data', (data) => chunks.push(data));
+      socket.on('end', () => finish());
+
+      socket.on('connect', () => {
+        socket.write('zINSTREAM\0');
+        const file = createReadStream(filePath);
+        file.on('data', (chunk: Buffer) => {
+          const size = Buffer.alloc(4);
+          size.writeUInt32BE(chunk.length, 0);
+          socket.write(size);
+          socket.write(chunk);
+        });
+        file.on('error', finish);
+        // A zero-length chunk terminates the stream
+        file.on('end', () => socket.write(Buffer.alloc(4)));
+      });
+    });
+  }
+}
@@ -235,7 +235,7 @@ export class AuthService {
   }
 
   private sanitizeUser(user: any) {
-    const { passwordHash, ...rest } = user;
+    const { passwordHash, calendarFeedToken, ...rest } = user;
     return {
       ...rest,
       trackPermissions: user.trackPermissions?.map((tp: any) => ({
@@ -1,12 +1,18 @@
 import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../common/prisma.service';
 import { AuditService } from '../audit/audit.service';
+import { DomainEvents } from '../common/events/domain-events';
+import { AttachmentsService } from '../attachments/attachments.service';
+import { extractMentions } from './mentions';
 
 @Injectable()
 export class CommentsService {
   constructor(
     private prisma: PrismaService,
     private audit: AuditService,
+    private eventBus: EventEmitter2,
+    private attachments: AttachmentsService,
   ) {}
 
   private readonly authorSelect = {
@@ -17,6 +23,14 @@ export class CommentsService {
     role: true,
   };
 
+  private readonly attachmentSelect = {
+    id: true,
+    fileName: true,
+    fileSize: true,
+    mimeType: true,
+    createdAt: true,
+  };
+
   async findByEntity(entityType: string, entityId: string, params: { page?: number; pageSize?: number }) {
     const { page = 1, pageSize = 25 } = params;
     const where = { entityType, entityId, parentId: null };
@@ -26,9 +40,11 @@ export class CommentsService {
         where,
         include: {
           author: { select: this.authorSelect },
+          attachments: { select: this.attachmentSelect },
           replies: {
             include: {
               author: { select: this.authorSelect },
+              attachments: { select: this.attachmentSelect },
             },
             orderBy: { createdAt: 'asc' },
           },
@@ -55,9 +71,7 @@ export class CommentsService {
     body: string;
     mentions?: string[];
   }) {
-    // Extract @mentions from body text
-    const mentionMatches = data.body.match(/@(\w+)/g);
-    const mentions = data.mentions ?? (mentionMatches ? mentionMatches.map((m) => m.slice(1)) : []);
+    const mentions = data.mentions ?? extractMentions(data.body);
 
     const comment = await this.prisma.comment.create({
       data: {
@@ -81,6 +95,16 @@ export class CommentsService {
       afterData: comment as any,
     });
 
+    this.eventBus.emit(DomainEvents.COMMENT_CREATED, {
+      commentId: comment.id,
+      entityType: comment.entityType,
+      entityId: comment.entityId,
+      parentId: comment.parentId,
+      authorId: comment.authorId,
+      mentions,
+    });
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'comment', entityIds: [comment.id] });
+
     return comment;
   }
 
@@ -89,13 +113,16 @@ export class CommentsService {
     if (!comment) throw new NotFoundException('التعليق غير موجود');
     if (comment.authorId !== userId) throw new ForbiddenException('لا يمكنك تعديل تعليق مستخدم آخر');
 
-    return this.prisma.comment.update({
+    const updated = await this.prisma.comment.update({
       where: { id },
       data: { body, isEdited: true },
       include: {
         author: { select: this.authorSelect },
       },
     });
+
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'comment', entityIds: [id] });
+    return updated;
   }
 
   async delete(id: string, userId: string, role: string) {
@@ -105,7 +132,17 @@ export class CommentsService {
       throw new ForbiddenException('لا يمكنك حذف تعليق مستخدم آخر');
     }
 
+    // Replies (at any depth) cascade with the comment, and so do their attachments
+    const threadIds = [id];
+    for (let level = [id]; level.length > 0;) {
+      const replies = await this.prisma.comment.findMany({ where: { parentId: { in: level } }, select: { id: true } });
+      level = replies.map((r) => r.id);
+      threadIds.push(...level);
+    }
+    const files = await this.attachments.findOwnedFiles('comment', threadIds);
     await this.prisma.comment.delete({ where: { id } });
+    await this.attachments.release(...files);
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'comment', entityIds: threadIds });
 
     await this.audit.log({
       actorId: userId,
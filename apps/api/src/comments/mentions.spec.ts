@@ -0,0 +1,27 @@
+import { extractMentions } from './mentions';
+
+describe('extractMentions', () => {
+  it('reads plain handles', () => {
+    expect(extractMentions('@ahmed please review')).toEqual(['ahmed']);
+  });
+
+  it('keeps dots, hyphens and plus signs of email local parts', () => {
+    expect(extractMentions('cc @first.last and @al-harbi, @ops+hajj')).toEqual(['first.last', 'al-harbi', 'ops+hajj']);
+  });
+
+  it('drops trailing punctuation', () => {
+    expect(extractMentions('thanks @first.last. See @sara-')).toEqual(['first.last', 'sara']);
+  });
+
+  it('ignores the @ of an email address in the text', () => {
+    expect(extractMentions('write to ops@example.com')).toEqual([]);
+  });
+
+  it('lists each handle once', () => {
+    expect(extractMentions('@sara @sara')).toEqual(['sara']);
+  });
+
+  it('reads handles next to Arabic text', () => {
+    expect(extractMentions('شكراً @first.last على المراجعة')).toEqual(['first.last']);
+  });
+});
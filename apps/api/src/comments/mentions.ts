@@ -0,0 +1,14 @@
+/**
+ * `@handle` mentions in comment text. A handle is a user id or the local part
+ * of the user's email, so it may hold the dots, hyphens and plus signs email
+ * local parts use (`@first.last`). An `@` inside a word, as in a pasted email
+ * address, does not start a mention, and trailing punctuation is not part of it.
+ */
+const MENTION_PATTERN = /(?<![\w.+-])@([\w.+-]+)/g;
+
+export function extractMentions(body: string): string[] {
+  const handles = [...body.matchAll(MENTION_PATTERN)]
+    .map((m) => m[1].replace(/[.+-]+$/, ''))
+    .filter((handle) => handle.length > 0);
+  return [...new Set(handles)];
+}
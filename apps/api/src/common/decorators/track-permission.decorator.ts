@@ -0,0 +1,49 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const TRACK_PERMISSION_KEY = 'trackPermission';
+
+/** Mirrors the shared Permission enum stored in TrackPermission.permissions. */
+export type TrackPermissionFlag = 'view' | 'edit' | 'create' | 'delete' | 'export';
+
+/** Track-scoped records whose owning track can be looked up by id. */
+export type TrackScopedEntity =
+  | 'track'
+  | 'deliverable'
+  | 'scope'
+  | 'trackKpi'
+  | 'penalty'
+  | 'scopeBlock'
+  | 'kpiEntry'
+  | 'report'
+  | 'uploadedFile'
+  | 'dailyUpdate'
+  | 'dailyUpdateAttachment'
+  | 'aiReport'
+  | 'taskTemplate';
+
+export interface TrackPermissionRequirement {
+  permission: TrackPermissionFlag;
+  /** When set, `key` holds the id(s) of this entity instead of a track id. */
+  entity?: TrackScopedEntity;
+  /** Request part to read from; when omitted params, body and query are tried in turn. */
+  from?: 'params' | 'body' | 'query';
+  key: string;
+}
+
+/**
+ * Requires the given TrackPermission flag on the track the request targets.
+ *
+ *   @RequireTrackPermission('create')                          // trackId in params/body/query
+ *   @RequireTrackPermission('edit', { entity: 'deliverable' }) // :id is a deliverable
+ *   @RequireTrackPermission('edit', { entity: 'scopeBlock', from: 'body', key: 'blocks' })
+ */
+export const RequireTrackPermission = (
+  permission: TrackPermissionFlag,
+  options: { entity?: TrackScopedEntity; from?: 'params' | 'body' | 'query'; key?: string } = {},
+) =>
+  SetMetadata<string, TrackPermissionRequirement>(TRACK_PERMISSION_KEY, {
+    permission,
+    entity: options.entity,
+    from: options.from ?? (options.entity ? 'params' : undefined),
+    key: options.key ?? (options.entity ? 'id' : 'trackId'),
+  });
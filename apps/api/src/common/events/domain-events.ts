@@ -0,0 +1,70 @@
+// ─── Domain event names ───
+// Published by domain services through EventEmitter2 and consumed by
+// subscribers (notifications, indexing, ...). Payloads carry ids only so
+// subscribers always read fresh state.
+export const DomainEvents = {
+  TASK_CREATED: 'task.created',
+  TASK_ASSIGNED: 'task.assigned',
+  TASK_STATUS_CHANGED: 'task.status_changed',
+  TASK_REVIEWED: 'task.reviewed',
+  COMMENT_CREATED: 'comment.created',
+  DAILY_UPDATE_CREATED: 'daily_update.created',
+  USER_ACCESS_CHANGED: 'user.access_changed',
+  ENTITY_CHANGED: 'entity.changed',
+} as const;
+
+export interface TaskCreatedEvent {
+  taskId: string;
+  actorId: string;
+}
+
+export interface TaskAssignedEvent {
+  taskId: string;
+  userIds: string[];
+  actorId: string;
+}
+
+export interface TaskStatusChangedEvent {
+  taskId: string;
+  fromStatus: string;
+  toStatus: string;
+  actorId: string;
+  /** Set when a review decision moved the task; TASK_REVIEWED follows. */
+  viaReview?: boolean;
+}
+
+export interface TaskReviewedEvent {
+  taskId: string;
+  decision: 'approve' | 'request_changes';
+  comment?: string;
+  actorId: string;
+}
+
+export interface CommentCreatedEvent {
+  commentId: string;
+  entityType: string;
+  entityId: string;
+  parentId?: string | null;
+  authorId: string;
+  mentions: string[];
+}
+
+export interface DailyUpdateCreatedEvent {
+  updateId: string;
+  trackId?: string | null;
+  authorId: string;
+}
+
+/** Role, activation or track permissions of a user changed. */
+export interface UserAccessChangedEvent {
+  userId: string;
+}
+
+/**
+ * Searchable content of an entity was created, edited or (soft) deleted.
+ * entityType uses the embedding index names (task, scope, daily_update, ...).
+ */
+export interface EntityChangedEvent {
+  entityType: string;
+  entityIds: string[];
+}
@@ -0,0 +1,206 @@
+import { BadRequestException, Controller, ExecutionContext, ForbiddenException, Post } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { TrackPermissionGuard } from './track-permission.guard';
+import { RequireTrackPermission } from '../decorators/track-permission.decorator';
+import { DailyUpdatesController } from '../../daily-updates/daily-updates.controller';
+import { DailyUpdatesService } from '../../daily-updates/daily-updates.service';
+import { FilesController } from '../../files/files.controller';
+import { FilesService } from '../../files/files.service';
+import { KPIController } from '../../kpi-management/kpi.controller';
+import { KPIService } from '../../kpi-management/kpi.service';
+import { ReportsController } from '../../reports/reports.controller';
+import { ReportsService } from '../../reports/reports.service';
+import { TracksController } from '../../tracks/tracks.controller';
+import { TracksService } from '../../tracks/tracks.service';
+import { TasksController } from '../../tasks/tasks.controller';
+
+const admin = { id: 'u-admin', role: 'admin', trackPermissions: [] };
+const lead = {
+  id: 'u-lead',
+  role: 'track_lead',
+  trackPermissions: [
+    { trackId: 't1', permissions: ['view', 'edit'] },
+    { trackId: 't2', permissions: ['edit'] },
+  ],
+};
+const hr = { id: 'u-hr', role: 'hr', trackPermissions: [] };
+
+/** Prisma stand-in: every model's reads resolve empty and record their arguments. */
+function mockPrisma() {
+  const models: Record<string, Record<string, jest.Mock>> = {};
+  return new Proxy(models, {
+    get: (target, model: string) =>
+      (target[model] ||= {
+        findMany: jest.fn().mockResolvedValue([]),
+        count: jest.fn().mockResolvedValue(0),
+        groupBy: jest.fn().mockResolvedValue([]),
+      }),
+  }) as any;
+}
+
+function contextFor(instance: object, handler: string, req: any) {
+  return {
+    getHandler: () => (instance as any)[handler],
+    getClass: () => instance.constructor,
+    switchToHttp: () => ({ getRequest: () => req }),
+  } as unknown as ExecutionContext;
+}
+
+interface Endpoint {
+  name: string;
+  model: string;
+  create: (prisma: any) => object;
+  handler: string;
+  call: (controller: any, user: any, trackId?: string) => Promise<unknown>;
+  // The where condition a track lead with view on t1 gets without a trackId
+  scoped: object;
+}
+
+const endpoints: Endpoint[] = [
+  {
+    name: 'GET /daily-updates',
+    model: 'dailyUpdate',
+    create: (prisma) => new DailyUpdatesController(new DailyUpdatesService(prisma, {} as any, {} as any), {} as any),
+    handler: 'findAll',
+    call: (c, user, trackId) => c.findAll(undefined, undefined, undefined, trackId, undefined, undefined, undefined, user),
+    scoped: { AND: [{ OR: [{ trackId: { in: ['t1'] } }, { trackId: null }] }] },
+  },
+  {
+    name: 'GET /files',
+    model: 'uploadedFile',
+    create: (prisma) => new FilesController(new FilesService(prisma, {} as any, {} as any), {} as any),
+    handler: 'findAll',
+    call: (c, user, trackId) => c.findAll(user, undefined, undefined, trackId),
+    scoped: { OR: [{ trackId: { in: ['t1'] } }, { trackId: null }] },
+  },
+  {
+    name: 'GET /kpis',
+    model: 'kPIEntry',
+    create: (prisma) => new KPIController(new KPIService(prisma), {} as any),
+    handler: 'findAll',
+    call: (c, user, trackId) => c.findAll(user, undefined, undefined, trackId),
+    scoped: { trackId: { in: ['t1'] } },
+  },
+  {
+    name: 'GET /kpis/stats',
+    model: 'kPIEntry',
+    create: (prisma) => new KPIController(new KPIService(prisma), {} as any),
+    handler: 'getStats',
+    call: (c, user, trackId) => c.getStats(user, trackId),
+    scoped: { trackId: { in: ['t1'] } },
+  },
+  {
+    name: 'GET /reports',
+    model: 'report',
+    create: (prisma) => new ReportsController(new ReportsService(prisma, {} as any), {} as any),
+    handler: 'findAll',
+    call: (c, user, trackId) => c.findAll(user, undefined, undefined, trackId),
+    scoped: { trackId: { in: ['t1'] } },
+  },
+  {
+    name: 'GET /tracks/employees',
+    model: 'employee',
+    create: (prisma) => new TracksController(new TracksService(prisma, {} as any), {} as any, prisma),
+    handler: 'getEmployees',
+    call: (c, user, trackId) => c.getEmployees(user, trackId),
+    scoped: { trackId: { in: ['t1'] } },
+  },
+  {
+    name: 'GET /tracks/penalties',
+    model: 'penalty',
+    create: (prisma) => new TracksController(new TracksService(prisma, {} as any), {} as any, prisma),
+    handler: 'getPenalties',
+    call: (c, user, trackId) => c.getPenalties(user, trackId),
+    scoped: { trackId: { in: ['t1'] } },
+  },
+];
+
+describe('track-scoped list endpoints', () => {
+  describe.each(endpoints)('$name', (endpoint) => {
+    let prisma: any;
+    let controller: object;
+    let guard: TrackPermissionGuard;
+
+    beforeEach(() => {
+      prisma = mockPrisma();
+      controller = endpoint.create(prisma);
+      guard = new TrackPermissionGuard(new Reflector(), prisma);
+    });
+
+    /** Runs the guard and then the handler, as Nest would for a GET. */
+    async function request(user: any, query: Record<string, string> = {}, body: Record<string, string> = {}) {
+      await guard.canActivate(contextFor(controller, endpoint.handler, { user, query, body, params: {} }));
+      await endpoint.call(controller, user, query.trackId);
+      return prisma[endpoint.model].findMany.mock.calls[0][0].where;
+    }
+
+    it('limits a track lead to the tracks they can view when no trackId is sent', async () => {
+      expect(await request(lead)).toMatchObject(endpoint.scoped);
+    });
+
+    it('filters on a trackId the user can view', async () => {
+      expect(await request(lead, { trackId: 't1' })).toMatchObject({ trackId: 't1' });
+    });
+
+    it('rejects a trackId the user cannot view', async () => {
+      await expect(request(lead, { trackId: 't2' })).rejects.toThrow(ForbiddenException);
+    });
+
+    it('checks the query trackId the service filters on, not one in the body', async () => {
+      await expect(request(lead, { trackId: 't2' }, { trackId: 't1' })).rejects.toThrow(ForbiddenException);
+    });
+
+    it('leaves admin and pm unrestricted', async () => {
+      const where = await request(admin);
+      expect(where.trackId).toBeUndefined();
+      expect(JSON.stringify(where)).not.toContain('"in"');
+    });
+  });
+
+  it('lets HR list employees of every track', async () => {
+    const prisma = mockPrisma();
+    const controller = new TracksController(new TracksService(prisma, {} as any), {} as any, prisma);
+    await controller.getEmployees(hr);
+    expect(prisma.employee.findMany.mock.calls[0][0].where.trackId).toBeUndefined();
+  });
+});
+
+@Controller('probe')
+class ProbeController {
+  @Post()
+  @RequireTrackPermission('create')
+  create() {
+    return true;
+  }
+}
+
+describe('TrackPermissionGuard', () => {
+  const guard = new TrackPermissionGuard(new Reflector(), mockPrisma());
+  const probe = new ProbeController();
+  const run = (user: any, req: { params?: any; body?: any; query?: any }) =>
+    guard.canActivate(contextFor(probe, 'create', { user, params: {}, body: {}, query: {}, ...req }));
+
+  it('checks the trackId from whichever request part carries it', async () => {
+    const creator = { role: 'track_lead', trackPermissions: [{ trackId: 't1', permissions: ['create'] }] };
+    await expect(run(creator, { body: { trackId: 't1' } })).resolves.toBe(true);
+    await expect(run(creator, { query: { trackId: 't2' } })).rejects.toThrow(ForbiddenException);
+  });
+
+  it('fails when request parts name different tracks', async () => {
+    const creator = { role: 'track_lead', trackPermissions: [{ trackId: 't1', permissions: ['create'] }] };
+    await expect(run(creator, { body: { trackId: 't1' }, query: { trackId: 't2' } })).rejects.toThrow(BadRequestException);
+    await expect(run(creator, { body: { trackId: 't1' }, query: { trackId: 't1' } })).resolves.toBe(true);
+  });
+});
+
+describe('GET /tasks/track/:trackId/critical-path', () => {
+  const guard = new TrackPermissionGuard(new Reflector(), mockPrisma());
+  const controller = new TasksController({} as any, {} as any);
+  const run = (user: any, trackId: string) =>
+    guard.canActivate(contextFor(controller, 'getCriticalPath', { user, params: { trackId }, body: {}, query: {} }));
+
+  it('requires view on the track', async () => {
+    await expect(run(lead, 't1')).resolves.toBe(true);
+    await expect(run(lead, 't2')).rejects.toThrow(ForbiddenException);
+  });
+});
@@ -0,0 +1,174 @@
+import { Injectable, CanActivate, ExecutionContext, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { PrismaService } from '../prisma.service';
+import {
+  TRACK_PERMISSION_KEY,
+  TrackPermissionFlag,
+  TrackPermissionRequirement,
+  TrackScopedEntity,
+} from '../decorators/track-permission.decorator';
+
+/** Roles that work across every track and are not bound by TrackPermission rows. */
+export const GLOBAL_TRACK_ROLES = ['admin', 'pm'];
+
+export interface TrackScopedUser {
+  role: string;
+  trackPermissions?: Array<{ trackId: string; permissions: string[] }>;
+}
+
+/** True when the user holds `permission` on the track (always for admin/pm). */
+export function hasTrackPermission(user: TrackScopedUser, trackId: string, permission: TrackPermissionFlag) {
+  if (GLOBAL_TRACK_ROLES.includes(user.role)) return true;
+  const tp = (user.trackPermissions || []).find((p) => p.trackId === trackId);
+  return !!tp && tp.permissions.includes(permission);
+}
+
+/** Throws unless the user holds `permission` on the track; no-op for untracked (global) records. */
+export function assertTrackPermission(
+  user: TrackScopedUser,
+  trackId: string | null | undefined,
+  permission: TrackPermissionFlag,
+) {
+  if (trackId && !hasTrackPermission(user, trackId, permission)) {
+    throw new ForbiddenException('ليس لديك صلاحية لهذا الإجراء على هذا المسار');
+  }
+}
+
+/**
+ * Tracks a list or stats query may cover, for endpoints that take an optional
+ * trackId filter. A requested track must be one the user holds `permission`
+ * on, and needs no further restriction (null). Without one, admin/pm see every
+ * track (null) and everyone else only the tracks they hold `permission` on.
+ */
+export function permittedTrackIds(
+  user: TrackScopedUser,
+  trackId: string | undefined,
+  permission: TrackPermissionFlag = 'view',
+): string[] | null {
+  if (trackId) {
+    assertTrackPermission(user, trackId, permission);
+    return null;
+  }
+  if (GLOBAL_TRACK_ROLES.includes(user.role)) return null;
+  return (user.trackPermissions || []).filter((p) => p.permissions.includes(permission)).map((p) => p.trackId);
+}
+
+/**
+ * Enforces @RequireTrackPermission. Relies on request.user.trackPermissions,
+ * which JwtStrategy loads fresh on every request. Records without a track
+ * (global files, reports, updates) and ids that resolve to nothing are let
+ * through: role guards and the handler's own 404s cover those.
+ *
+ * Multipart bodies are parsed by interceptors, which run after guards, so
+ * upload endpoints call assertTrackPermission from the handler instead.
+ */
+@Injectable()
+export class TrackPermissionGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private prisma: PrismaService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requirement = this.reflector.getAllAndOverride<TrackPermissionRequirement>(TRACK_PERMISSION_KEY, [
+      context.getHandler(),
+      context.getClass(),
+    ]);
+    if (!requirement) return true;
+
+    const req = context.switchToHttp().getRequest();
+    const user = req.user;
+    if (!user) throw new ForbiddenException('غير مصرح');
+    if (GLOBAL_TRACK_ROLES.includes(user.role)) return true;
+
+    const ids = this.readIds(req, requirement);
+    if (ids.length === 0) return true;
+
+    const trackIds = requirement.entity
+      ? await this.lookupTrackIds(requirement.entity, ids)
+      : ids;
+
+    for (const trackId of new Set(trackIds)) {
+      assertTrackPermission(user, trackId, requirement.permission);
+    }
+
+    // Update DTOs accept trackId: moving a record also needs create on the target track
+    const targetTrackId = req.body?.trackId;
+    if (requirement.entity && requirement.entity !== 'track' && typeof targetTrackId === 'string') {
+      assertTrackPermission(user, targetTrackId, 'create');
+    }
+    return true;
+  }
+
+  /**
+   * Accepts a single id, an array of ids or an array of `{ id }` objects.
+   * Without `from`, every request part that carries the key must name the
+   * same ids: the guard must check the ids the handler goes on to use.
+   */
+  private readIds(req: any, requirement: TrackPermissionRequirement): string[] {
+    const sources = requirement.from ? [requirement.from] : (['params', 'body', 'query'] as const);
+    let found: string[] | null = null;
+    for (const source of sources) {
+      const value = req[source]?.[requirement.key];
+      if (value === undefined || value === null || value === '') continue;
+
+      const values = Array.isArray(value) ? value : [value];
+      const ids = values
+        .map((v) => (typeof v === 'object' && v !== null ? v.id : v))
+        .filter((v): v is string => typeof v === 'string' && v.length > 0);
+      if (found && !sameIds(found, ids)) {
+        throw new BadRequestException('معرفات المسار في الطلب غير متطابقة');
+      }
+      found = ids;
+    }
+    return found || [];
+  }
+
+  private async lookupTrackIds(entity: TrackScopedEntity, ids: string[]): Promise<Array<string | null>> {
+    const where = { id: { in: ids } };
+    const select = { trackId: true };
+
+    switch (entity) {
+      case 'track':
+        return ids;
+      case 'deliverable':
+        return pluck(await this.prisma.deliverable.findMany({ where, select }));
+      case 'scope':
+        return pluck(await this.prisma.scope.findMany({ where, select }));
+      case 'trackKpi':
+        return pluck(await this.prisma.trackKPI.findMany({ where, select }));
+      case 'penalty':
+        return pluck(await this.prisma.penalty.findMany({ where, select }));
+      case 'scopeBlock':
+        return pluck(await this.prisma.scopeBlock.findMany({ where, select }));
+      case 'kpiEntry':
+        return pluck(await this.prisma.kPIEntry.findMany({ where, select }));
+      case 'report':
+        return pluck(await this.prisma.report.findMany({ where, select }));
+      case 'uploadedFile':
+        return pluck(await this.prisma.uploadedFile.findMany({ where, select }));
+      case 'dailyUpdate':
+        return pluck(await this.prisma.dailyUpdate.findMany({ where, select }));
+      case 'aiReport':
+        return pluck(await this.prisma.aIReport.findMany({ where, select }));
+      case 'taskTemplate':
+        return pluck(await this.prisma.taskTemplate.findMany({ where, select }));
+      case 'dailyUpdateAttachment': {
+        const attachments = await this.prisma.dailyUpdateAttachment.findMany({
+          where,
+          select: { update: { select: { trackId: true } } },
+        });
+        return attachments.map((a) => a.update.trackId);
+      }
+    }
+  }
+}
+
+function sameIds(a: string[], b: string[]) {
+  const set = new Set(a);
+  return set.size === new Set(b).size && b.every((id) => set.has(id));
+}
+
+function pluck(rows: Array<{ trackId: string | null }>) {
+  return rows.map((r) => r.trackId);
+}
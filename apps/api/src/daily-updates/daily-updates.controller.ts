@@ -1,29 +1,20 @@
 import {
   Controller, Get, Post, Patch, Delete, Param, Body, Query,
-  UseGuards, UseInterceptors, UploadedFiles, Req, Res,
+  UseGuards, UseInterceptors, UploadedFiles, Req,
   BadRequestException,
 } from '@nestjs/common';
 import { FilesInterceptor } from '@nestjs/platform-express';
-import { Request, Response } from 'express';
-import { diskStorage } from 'multer';
-import { extname, join } from 'path';
+import { Request } from 'express';
 import { DailyUpdatesService } from './daily-updates.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard, assertTrackPermission, permittedTrackIds } from '../common/guards/track-permission.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { AuditService } from '../audit/audit.service';
 import { CreateDailyUpdateDto, UpdateDailyUpdateDto } from './daily-updates.dto';
-
-const MAX_FILE_SIZE = parseInt(process.env.MAX_UPLOAD_MB || '25', 10) * 1024 * 1024;
-
-const tempStorage = diskStorage({
-  destination: join(process.cwd(), 'uploads', 'temp'),
-  filename: (_req, file, cb) => {
-    const unique = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
-    cb(null, `${unique}${extname(file.originalname)}`);
-  },
-});
+import { attachmentUploadOptions, MAX_FILES_PER_UPLOAD } from '../attachments/attachment-rules';
 
 @Controller('daily-updates')
 @UseGuards(JwtAuthGuard)
@@ -34,6 +25,8 @@ export class DailyUpdatesController {
   ) {}
 
   @Get()
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { from: 'query' })
   findAll(
     @Query('page') page?: number,
     @Query('pageSize') pageSize?: number,
@@ -44,7 +37,17 @@ export class DailyUpdatesController {
     @Query('priority') priority?: string,
     @CurrentUser() user?: any,
   ) {
-    return this.service.findAll({ page, pageSize, type, trackId, search, pinned, priority, userId: user?.id });
+    return this.service.findAll({
+      page,
+      pageSize,
+      type,
+      trackId,
+      trackIds: permittedTrackIds(user, trackId),
+      search,
+      pinned,
+      priority,
+      userId: user?.id,
+    });
   }
 
   @Get('unread-count')
@@ -52,21 +55,9 @@ export class DailyUpdatesController {
     return this.service.getUnreadCount(user.id);
   }
 
-  @Get('attachments/:attachmentId/download')
-  async downloadAttachment(
-    @Param('attachmentId') attachmentId: string,
-    @Res() res: Response,
-  ) {
-    const { stream, attachment } = await this.service.getAttachmentStream(attachmentId);
-    res.set({
-      'Content-Type': attachment.mimeType,
-      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(attachment.originalName)}`,
-      'Content-Length': attachment.sizeBytes.toString(),
-    });
-    stream.pipe(res);
-  }
-
   @Get(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { entity: 'dailyUpdate' })
   findOne(@Param('id') id: string) {
     return this.service.findById(id);
   }
@@ -82,12 +73,10 @@ export class DailyUpdatesController {
   }
 
   @Post(':id/attachments')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
-  @UseInterceptors(FilesInterceptor('files', 10, {
-    storage: tempStorage,
-    limits: { fileSize: MAX_FILE_SIZE },
-  }))
+  @RequireTrackPermission('edit', { entity: 'dailyUpdate' })
+  @UseInterceptors(FilesInterceptor('files', MAX_FILES_PER_UPLOAD, attachmentUploadOptions))
   async addAttachments(
     @Param('id') updateId: string,
     @UploadedFiles() files: Express.Multer.File[],
@@ -102,16 +91,15 @@ export class DailyUpdatesController {
   @Post()
   @UseGuards(RolesGuard)
   @Roles('admin', 'pm')
-  @UseInterceptors(FilesInterceptor('files', 10, {
-    storage: tempStorage,
-    limits: { fileSize: MAX_FILE_SIZE },
-  }))
+  @UseInterceptors(FilesInterceptor('files', MAX_FILES_PER_UPLOAD, attachmentUploadOptions))
   async create(
     @Body() dto: CreateDailyUpdateDto,
     @UploadedFiles() files: Express.Multer.File[],
     @CurrentUser() user: any,
     @Req() req: Request,
   ) {
+    // Multipart body is only parsed by the interceptor, after guards have run
+    assertTrackPermission(user, dto.trackId, 'create');
     const result = await this.service.create(dto, user.id, files);
     await this.audit.log({
       actorId: user.id,
@@ -126,8 +114,9 @@ export class DailyUpdatesController {
   }
 
   @Patch(':id')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('edit', { entity: 'dailyUpdate' })
   async update(@Param('id') id: string, @Body() dto: UpdateDailyUpdateDto, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.service.findById(id);
     const result = await this.service.update(id, dto, user.id, user.role);
@@ -145,15 +134,17 @@ export class DailyUpdatesController {
   }
 
   @Delete('attachments/:attachmentId')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('edit', { entity: 'dailyUpdateAttachment', key: 'attachmentId' })
   async deleteAttachment(@Param('attachmentId') attachmentId: string) {
     return this.service.deleteAttachment(attachmentId);
   }
 
   @Delete(':id')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('delete', { entity: 'dailyUpdate' })
   async delete(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.service.findById(id);
     const result = await this.service.delete(id, user.id, user.role);
@@ -170,8 +161,9 @@ export class DailyUpdatesController {
   }
 
   @Patch(':id/pin')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('edit', { entity: 'dailyUpdate' })
   async togglePin(@Param('id') id: string, @CurrentUser() user: any) {
     return this.service.togglePin(id);
   }
@@ -1,63 +1,19 @@
 import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
-import { ConfigService } from '@nestjs/config';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../common/prisma.service';
-import { StorageService } from '../storage/storage.service';
+import { AttachmentsService, StoredAttachment } from '../attachments/attachments.service';
+import { MAX_FILES_PER_UPLOAD } from '../attachments/attachment-rules';
+import { DomainEvents } from '../common/events/domain-events';
 import { CreateDailyUpdateDto, UpdateDailyUpdateDto } from './daily-updates.dto';
-import { extname } from 'path';
-
-const ALLOWED_EXTENSIONS = new Set([
-  '.xlsx', '.xls', '.docx', '.doc', '.pptx', '.ppt',
-  '.pdf', '.png', '.jpg', '.jpeg', '.webp',
-  '.txt', '.csv', '.zip',
-]);
-
-const BLOCKED_EXTENSIONS = new Set([
-  '.exe', '.js', '.sh', '.bat', '.dll', '.apk', '.cmd',
-  '.com', '.msi', '.ps1', '.vbs', '.wsf', '.scr', '.pif',
-]);
-
-const ALLOWED_MIMES = new Set([
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-  'application/vnd.ms-powerpoint',
-  'application/pdf',
-  'image/png', 'image/jpeg', 'image/webp',
-  'text/plain', 'text/csv',
-  'application/zip', 'application/x-zip-compressed',
-  'application/octet-stream', // fallback for some browsers
-]);
+import { basename } from 'path';
 
 @Injectable()
 export class DailyUpdatesService {
-  private readonly maxFileSize: number;
-  private readonly maxFilesPerUpdate: number;
-
   constructor(
     private prisma: PrismaService,
-    private storage: StorageService,
-    private config: ConfigService,
-  ) {
-    this.maxFileSize = (config.get<number>('MAX_UPLOAD_MB', 25)) * 1024 * 1024;
-    this.maxFilesPerUpdate = 10;
-  }
-
-  // ─── FILE VALIDATION ───
-
-  validateFile(file: Express.Multer.File) {
-    const ext = extname(file.originalname).toLowerCase();
-    if (BLOCKED_EXTENSIONS.has(ext)) {
-      throw new BadRequestException(`نوع الملف غير مسموح: ${ext}`);
-    }
-    if (!ALLOWED_EXTENSIONS.has(ext)) {
-      throw new BadRequestException(`نوع الملف غير مدعوم: ${ext}. الأنواع المدعومة: ${[...ALLOWED_EXTENSIONS].join(', ')}`);
-    }
-    if (file.size > this.maxFileSize) {
-      throw new BadRequestException(`حجم الملف ${file.originalname} يتجاوز الحد الأقصى (${this.maxFileSize / 1024 / 1024} MB)`);
-    }
-  }
+    private attachments: AttachmentsService,
+    private eventBus: EventEmitter2,
+  ) {}
 
   // ─── CRUD ───
 
@@ -66,15 +22,19 @@ export class DailyUpdatesService {
     pageSize?: number;
     type?: string;
     trackId?: string;
+    // Tracks to limit the list to when no trackId is given; null for all
+    trackIds?: string[] | null;
     search?: string;
     pinned?: string;
     priority?: string;
     userId?: string;
   }) {
-    const { page = 1, pageSize = 20, type, trackId, search, pinned, priority, userId } = params;
+    const { page = 1, pageSize = 20, type, trackId, trackIds, search, pinned, priority, userId } = params;
     const where: any = { isDeleted: false };
     if (type) where.type = type;
     if (trackId) where.trackId = trackId;
+    // Updates without a track are for everyone
+    else if (trackIds) where.AND = [{ OR: [{ trackId: { in: trackIds } }, { trackId: null }] }];
     if (pinned === 'true') where.pinned = true;
     if (priority) where.priority = priority;
     if (search) {
@@ -137,17 +97,8 @@ export class DailyUpdatesService {
   }
 
   async create(dto: CreateDailyUpdateDto, authorId: string, files?: Express.Multer.File[]) {
-    // Validate file count
-    if (files && files.length > this.maxFilesPerUpdate) {
-      throw new BadRequestException(`الحد الأقصى ${this.maxFilesPerUpdate} ملفات لكل تحديث`);
-    }
-
-    // Validate each file
-    if (files) {
-      for (const file of files) {
-        this.validateFile(file);
-      }
-    }
+    // Validate and store attachments before creating the update
+    const stored = files && files.length > 0 ? await this.attachments.storeAll(files, 'daily-updates') : [];
 
     // Create the update
     const update = await this.prisma.dailyUpdate.create({
@@ -166,25 +117,19 @@ export class DailyUpdatesService {
       } as any,
     });
 
-    // Upload and store attachments
-    if (files && files.length > 0) {
-      for (const file of files) {
-        const stored = await this.storage.upload(file);
-        await this.prisma.dailyUpdateAttachment.create({
-          data: {
-            updateId: update.id,
-            originalName: file.originalname,
-            storedName: stored.storedName,
-            mimeType: file.mimetype,
-            sizeBytes: file.size,
-            storageProvider: stored.storageProvider,
-            storagePath: stored.storagePath,
-            uploadedById: authorId,
-          },
-        });
-      }
+    for (const file of stored) {
+      await this.prisma.dailyUpdateAttachment.create({
+        data: this.toAttachmentData(update.id, file, authorId),
+      });
     }
 
+    this.eventBus.emit(DomainEvents.DAILY_UPDATE_CREATED, {
+      updateId: update.id,
+      trackId: update.trackId,
+      authorId,
+    });
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'daily_update', entityIds: [update.id] });
+
     // Return full update with relations
     return this.findById(update.id);
   }
@@ -205,7 +150,7 @@ export class DailyUpdatesService {
       previousContent: existing.contentAr || existing.content,
     });
 
-    return this.prisma.dailyUpdate.update({
+    const updated = await this.prisma.dailyUpdate.update({
       where: { id },
       data: {
         ...dto,
@@ -219,6 +164,9 @@ export class DailyUpdatesService {
         },
       },
     });
+
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'daily_update', entityIds: [id] });
+    return updated;
   }
 
   async delete(id: string, userId: string, userRole: string) {
@@ -234,6 +182,7 @@ export class DailyUpdatesService {
       where: { id },
       data: { isDeleted: true },
     });
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'daily_update', entityIds: [id] });
     return { message: 'تم حذف التحديث' };
   }
 
@@ -247,28 +196,15 @@ export class DailyUpdatesService {
     if (!update || update.isDeleted) throw new NotFoundException('التحديث غير موجود');
 
     const existingCount = (update as any).fileAttachments?.length || 0;
-    if (existingCount + files.length > this.maxFilesPerUpdate) {
-      throw new BadRequestException(`الحد الأقصى ${this.maxFilesPerUpdate} ملفات لكل تحديث. الموجود: ${existingCount}`);
-    }
-
-    for (const file of files) {
-      this.validateFile(file);
+    if (existingCount + files.length > MAX_FILES_PER_UPLOAD) {
+      throw new BadRequestException(`الحد الأقصى ${MAX_FILES_PER_UPLOAD} ملفات لكل تحديث. الموجود: ${existingCount}`);
     }
 
+    const stored = await this.attachments.storeAll(files, 'daily-updates');
     const attachments: any[] = [];
-    for (const file of files) {
-      const stored = await this.storage.upload(file);
+    for (const file of stored) {
       const att = await this.prisma.dailyUpdateAttachment.create({
-        data: {
-          updateId,
-          originalName: file.originalname,
-          storedName: stored.storedName,
-          mimeType: file.mimetype,
-          sizeBytes: file.size,
-          storageProvider: stored.storageProvider,
-          storagePath: stored.storagePath,
-          uploadedById: uploaderId,
-        },
+        data: this.toAttachmentData(updateId, file, uploaderId),
         select: { id: true, originalName: true, mimeType: true, sizeBytes: true, createdAt: true },
       });
       attachments.push(att);
@@ -276,30 +212,29 @@ export class DailyUpdatesService {
     return attachments;
   }
 
-  async getAttachment(attachmentId: string) {
-    const att = await this.prisma.dailyUpdateAttachment.findUnique({
-      where: { id: attachmentId },
-      include: { update: { select: { isDeleted: true } } },
-    });
-    if (!att || att.update.isDeleted) throw new NotFoundException('المرفق غير موجود');
-    return att;
-  }
-
-  async getAttachmentStream(attachmentId: string) {
-    const att = await this.getAttachment(attachmentId);
-    const stream = await this.storage.getStream(att.storagePath, att.storageProvider);
-    return { stream, attachment: att };
-  }
-
   async deleteAttachment(attachmentId: string) {
     const att = await this.prisma.dailyUpdateAttachment.findUnique({ where: { id: attachmentId } });
     if (!att) throw new NotFoundException('المرفق غير موجود');
 
-    await this.storage.delete(att.storagePath, att.storageProvider);
     await this.prisma.dailyUpdateAttachment.delete({ where: { id: attachmentId } });
+    await this.attachments.release(att);
     return { message: 'تم حذف المرفق' };
   }
 
+  private toAttachmentData(updateId: string, file: StoredAttachment, uploadedById: string) {
+    return {
+      updateId,
+      originalName: file.fileName,
+      storedName: basename(file.storagePath),
+      mimeType: file.mimeType,
+      sizeBytes: file.fileSize,
+      storageProvider: file.storageProvider,
+      storagePath: file.storagePath,
+      checksum: file.checksum,
+      uploadedById,
+    };
+  }
+
   // ─── READ TRACKING ───
 
   async markAsRead(updateId: string, userId: string) {
@@ -0,0 +1,188 @@
+import { Injectable } from '@nestjs/common';
+import { PrismaService } from '../common/prisma.service';
+
+export const INDEXED_ENTITY_TYPES = [
+  'task',
+  'scope',
+  'kpi',
+  'penalty',
+  'deliverable',
+  'employee',
+  'daily_update',
+  'report',
+  'comment',
+] as const;
+
+export type IndexedEntityType = (typeof INDEXED_ENTITY_TYPES)[number];
+
+export interface EmbeddingDocument {
+  content: string;
+  trackId?: string | null;
+  metadata: Record<string, any>;
+}
+
+/**
+ * Builds the text that gets embedded for each indexed entity type, always
+ * from the current database state. Task visibility fields are copied into
+ * metadata (for tasks and their comments) so search can filter like
+ * buildTaskVisibilityFilter does.
+ */
+@Injectable()
+export class EmbeddingDocumentsService {
+  constructor(private prisma: PrismaService) {}
+
+  isIndexedType(entityType: string): entityType is IndexedEntityType {
+    return (INDEXED_ENTITY_TYPES as readonly string[]).includes(entityType);
+  }
+
+  /** Null when the entity no longer exists or is soft-deleted. */
+  async load(entityType: IndexedEntityType, id: string): Promise<EmbeddingDocument | null> {
+    const track = { select: { nameAr: true } };
+
+    switch (entityType) {
+      case 'task': {
+        const t = await this.prisma.task.findFirst({ where: { id, isDeleted: false }, include: { track } });
+        if (!t) return null;
+        return {
+          content: `مهمة: ${t.titleAr || t.title}. ${t.descriptionAr || t.description || ''}. ${t.notes || ''}. المسار: ${t.track?.nameAr || ''}`,
+          trackId: t.trackId,
+          metadata: { title: t.titleAr || t.title, status: t.status, ...(await this.taskVisibility(t.id)) },
+        };
+      }
+      case 'scope': {
+        const s = await this.prisma.scope.findFirst({ where: { id, isDeleted: false }, include: { track } });
+        if (!s) return null;
+        return {
+          content: `نطاق العمل: ${s.titleAr || s.title}. ${s.description || ''}. المسار: ${s.track?.nameAr || ''}`,
+          trackId: s.trackId,
+          metadata: { title: s.titleAr || s.title },
+        };
+      }
+      case 'kpi': {
+        const k = await this.prisma.trackKPI.findFirst({ where: { id, isDeleted: false }, include: { track } });
+        if (!k) return null;
+        return {
+          content: `مؤشر أداء: ${k.nameAr || k.name}. المسار: ${k.track?.nameAr || ''}`,
+          trackId: k.trackId,
+          metadata: { name: k.nameAr || k.name },
+        };
+      }
+      case 'penalty': {
+        const p = await this.prisma.penalty.findFirst({ where: { id, isDeleted: false }, include: { track } });
+        if (!p) return null;
+        return {
+          content: `مخالفة: ${p.violationAr || p.violation}. الشدة: ${p.severity || 'متوسطة'}. المسار: ${p.track?.nameAr || ''}`,
+          trackId: p.trackId,
+          metadata: { violation: p.violationAr || p.violation, severity: p.severity },
+        };
+      }
+      case 'deliverable': {
+        const d = await this.prisma.deliverable.findFirst({ where: { id, isDeleted: false }, include: { track } });
+        if (!d) return null;
+        return {
+          content: `مخرج: ${d.nameAr || d.name}. ${d.outputs || ''}. مؤشرات التسليم: ${d.deliveryIndicators || ''}. المسار: ${d.track?.nameAr || ''}`,
+          trackId: d.trackId,
+          metadata: { name: d.nameAr || d.name },
+        };
+      }
+      case 'employee': {
+        const e = await this.prisma.employee.findFirst({ where: { id, isDeleted: false }, include: { track } });
+        if (!e) return null;
+        return {
+          content: `موظف: ${e.fullNameAr || e.fullName}. المنصب: ${e.positionAr || e.position || ''}. المسار: ${e.track?.nameAr || ''}. نوع العقد: ${e.contractType || ''}`,
+          trackId: e.trackId,
+          metadata: { name: e.fullNameAr || e.fullName, position: e.positionAr || e.position },
+        };
+      }
+      case 'daily_update': {
+        const u = await this.prisma.dailyUpdate.findFirst({ where: { id, isDeleted: false }, include: { track } });
+        if (!u) return null;
+        return {
+          content: `تحديث يومي: ${u.titleAr || u.title}. ${u.contentAr || u.content}. المسار: ${u.track?.nameAr || ''}`,
+          trackId: u.trackId,
+          metadata: { title: u.titleAr || u.title, status: u.status },
+        };
+      }
+      case 'report': {
+        const r = await this.prisma.report.findUnique({ where: { id }, include: { track } });
+        if (!r) return null;
+        return {
+          content: `تقرير: ${r.title}. الإنجازات: ${r.achievements || ''}. التحديات: ${r.challenges || ''}. الدعم المطلوب: ${r.supportNeeded || ''}. ملاحظات: ${r.notes || ''}. المسار: ${r.track?.nameAr || ''}`,
+          trackId: r.trackId,
+          metadata: { title: r.title, type: r.type },
+        };
+      }
+      case 'comment': {
+        const c = await this.prisma.comment.findUnique({ where: { id } });
+        if (!c) return null;
+        const metadata: Record<string, any> = { parentType: c.entityType, parentId: c.entityId };
+        let trackId: string | null = null;
+        if (c.entityType === 'track') {
+          trackId = c.entityId;
+        } else if (c.entityType === 'task') {
+          const task = await this.prisma.task.findFirst({ where: { id: c.entityId, isDeleted: false }, select: { trackId: true } });
+          if (!task) return null;
+          trackId = task.trackId;
+          Object.assign(metadata, await this.taskVisibility(c.entityId));
+        } else if (c.entityType === 'daily_update') {
+          const update = await this.prisma.dailyUpdate.findFirst({ where: { id: c.entityId, isDeleted: false }, select: { trackId: true } });
+          if (!update) return null;
+          trackId = update.trackId;
+        }
+        return { content: `تعليق: ${c.body}`, trackId, metadata };
+      }
+    }
+  }
+
+  /** Ids of every live entity of a type, for a full re-index. */
+  async liveIds(entityType: IndexedEntityType): Promise<string[]> {
+    const rows: Array<{ id: string }> = await this.delegate(entityType).findMany({
+      where: this.liveWhere(entityType),
+      select: { id: true },
+    });
+    return rows.map((r) => r.id);
+  }
+
+  async countLive(entityType: IndexedEntityType): Promise<number> {
+    return this.delegate(entityType).count({ where: this.liveWhere(entityType) });
+  }
+
+  private async taskVisibility(taskId: string) {
+    const task = await this.prisma.task.findUniqueOrThrow({
+      where: { id: taskId },
+      select: {
+        assigneeType: true,
+        assigneeTrackId: true,
+        assigneeUserId: true,
+        createdById: true,
+        assignments: { select: { userId: true } },
+      },
+    });
+    return {
+      assigneeType: task.assigneeType,
+      assigneeTrackId: task.assigneeTrackId,
+      assigneeUserId: task.assigneeUserId,
+      createdById: task.createdById,
+      assignedUserIds: task.assignments.map((a) => a.userId),
+    };
+  }
+
+  private liveWhere(entityType: IndexedEntityType) {
+    return entityType === 'report' || entityType === 'comment' ? {} : { isDeleted: false };
+  }
+
+  private delegate(entityType: IndexedEntityType): any {
+    const delegates = {
+      task: this.prisma.task,
+      scope: this.prisma.scope,
+      kpi: this.prisma.trackKPI,
+      penalty: this.prisma.penalty,
+      deliverable: this.prisma.deliverable,
+      employee: this.prisma.employee,
+      daily_update: this.prisma.dailyUpdate,
+      report: this.prisma.report,
+      comment: this.prisma.comment,
+    };
+    return delegates[entityType];
+  }
+}
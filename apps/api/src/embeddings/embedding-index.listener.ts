@@ -0,0 +1,21 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { DomainEvents, EntityChangedEvent } from '../common/events/domain-events';
+import { EmbeddingIndexService } from './embedding-index.service';
+
+/** Queues re-indexing for entities whose searchable content changed. */
+@Injectable()
+export class EmbeddingIndexListener {
+  private readonly logger = new Logger(EmbeddingIndexListener.name);
+
+  constructor(private index: EmbeddingIndexService) {}
+
+  @OnEvent(DomainEvents.ENTITY_CHANGED, { async: true })
+  async onEntityChanged(event: EntityChangedEvent) {
+    try {
+      await this.index.enqueue(event.entityType, event.entityIds);
+    } catch (err) {
+      this.logger.error(`Failed to queue ${event.entityType} for indexing: ${err.message}`);
+    }
+  }
+}
@@ -0,0 +1,56 @@
+import { EmbeddingIndexService } from './embedding-index.service';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('EmbeddingIndexService.processPending', () => {
+  const now = new Date('2026-10-20T09:00:00Z').getTime();
+  let findMany: jest.Mock;
+  let service: EmbeddingIndexService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    findMany = jest.fn().mockResolvedValue([]);
+    const prisma = { embeddingJob: { findMany } };
+    service = new EmbeddingIndexService(prisma as any, { isAvailable: true } as any, {} as any, {} as any);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  /** Evaluates the query's backoff conditions against a job, as the database would. */
+  function isSelected(job: { attempts: number; lastAttemptAt: Date | null }) {
+    const { OR } = findMany.mock.calls[0][0].where;
+    return OR.some((c: any) =>
+      (c.attempts === undefined ||
+        (typeof c.attempts === 'number' ? c.attempts === job.attempts : job.attempts < c.attempts.lt)) &&
+      (c.lastAttemptAt === undefined ||
+        (c.lastAttemptAt === null
+          ? job.lastAttemptAt === null
+          : !!job.lastAttemptAt && job.lastAttemptAt <= c.lastAttemptAt.lte)),
+    );
+  }
+
+  it('applies the backoff in the query, before the batch limit', async () => {
+    await service.processPending();
+    const { where, take } = findMany.mock.calls[0][0];
+    expect(take).toBe(20);
+    expect(where.OR).toBeDefined();
+  });
+
+  it('selects jobs never tried', async () => {
+    await service.processPending();
+    expect(isSelected({ attempts: 0, lastAttemptAt: null })).toBe(true);
+  });
+
+  it('waits 2^attempts minutes after a failed attempt', async () => {
+    await service.processPending();
+    expect(isSelected({ attempts: 1, lastAttemptAt: new Date(now - 1 * MINUTE_MS) })).toBe(false);
+    expect(isSelected({ attempts: 1, lastAttemptAt: new Date(now - 2 * MINUTE_MS) })).toBe(true);
+    expect(isSelected({ attempts: 4, lastAttemptAt: new Date(now - 15 * MINUTE_MS) })).toBe(false);
+    expect(isSelected({ attempts: 4, lastAttemptAt: new Date(now - 16 * MINUTE_MS) })).toBe(true);
+  });
+
+  it('gives up after five attempts', async () => {
+    await service.processPending();
+    expect(isSelected({ attempts: 5, lastAttemptAt: new Date(now - 24 * 60 * MINUTE_MS) })).toBe(false);
+  });
+});
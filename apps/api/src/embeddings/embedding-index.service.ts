@@ -0,0 +1,171 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { OpenAIService } from '../openai/openai.service';
+import { EmbeddingsService } from './embeddings.service';
+import { EmbeddingDocumentsService, INDEXED_ENTITY_TYPES, IndexedEntityType } from './embedding-documents.service';
+
+const JOB_BATCH_SIZE = 20;
+const MAX_JOB_ATTEMPTS = 5;
+
+/**
+ * Keeps the embedding index in sync through the embedding_jobs table.
+ * Changes enqueue one job per entity (repeats collapse into the same row) and
+ * a worker drains the queue in small batches, so a burst of edits or a full
+ * re-index never blocks a request. Entities that are gone or soft-deleted
+ * have their embedding removed.
+ */
+@Injectable()
+export class EmbeddingIndexService {
+  private readonly logger = new Logger(EmbeddingIndexService.name);
+  private processing = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private openai: OpenAIService,
+    private embeddings: EmbeddingsService,
+    private documents: EmbeddingDocumentsService,
+  ) {}
+
+  async enqueue(entityType: string, entityIds: string[]) {
+    if (!this.documents.isIndexedType(entityType) || entityIds.length === 0) return;
+
+    await this.prisma.embeddingJob.createMany({
+      data: entityIds.map((entityId) => ({ entityType, entityId })),
+      skipDuplicates: true,
+    });
+    // Touch existing jobs so a change made mid-processing is not dropped, and
+    // give previously failed ones a fresh retry budget
+    await this.prisma.embeddingJob.updateMany({
+      where: { entityType, entityId: { in: entityIds } },
+      data: { attempts: 0, lastError: null, lastAttemptAt: null },
+    });
+  }
+
+  /** Queue every live entity plus every existing embedding (to drop stale ones). */
+  async enqueueAll() {
+    let queued = 0;
+    for (const entityType of INDEXED_ENTITY_TYPES) {
+      const [liveIds, indexed] = await Promise.all([
+        this.documents.liveIds(entityType),
+        this.prisma.embedding.findMany({ where: { entityType }, select: { entityId: true } }),
+      ]);
+      const ids = [...new Set([...liveIds, ...indexed.map((e) => e.entityId)])];
+      for (let i = 0; i < ids.length; i += 500) {
+        await this.enqueue(entityType, ids.slice(i, i + 500));
+      }
+      queued += ids.length;
+    }
+    this.logger.log(`Queued ${queued} entities for indexing`);
+    return { queued };
+  }
+
+  /**
+   * Every 30 seconds: process pending jobs. Failures back off exponentially
+   * (2^attempts minutes) and stop after MAX_JOB_ATTEMPTS.
+   */
+  @Cron('*/30 * * * * *')
+  async processPending() {
+    if (this.processing || !this.openai.isAvailable) return;
+    this.processing = true;
+    try {
+      const due = await this.prisma.embeddingJob.findMany({
+        // Backoff is filtered here, not after `take`, so jobs waiting out a
+        // backoff cannot crowd out the ones that are due
+        where: { OR: this.dueWhere(Date.now()) },
+        orderBy: { createdAt: 'asc' },
+        take: JOB_BATCH_SIZE,
+      });
+
+      for (const job of due) {
+        try {
+          await this.processJob(job.entityType as IndexedEntityType, job.entityId);
+          // Only drop the job if nothing re-enqueued it while it was running
+          await this.prisma.embeddingJob.deleteMany({ where: { id: job.id, updatedAt: job.updatedAt } });
+        } catch (err) {
+          await this.prisma.embeddingJob.update({
+            where: { id: job.id },
+            data: { attempts: { increment: 1 }, lastError: String(err.message || err), lastAttemptAt: new Date() },
+          });
+        }
+      }
+
+      if (due.length > 0) {
+        this.logger.log(`Processed ${due.length} embedding jobs`);
+      }
+    } catch (error) {
+      this.logger.error('Error processing embedding jobs', error);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /** Jobs never tried, or whose last attempt is 2^attempts minutes old. */
+  private dueWhere(now: number): Prisma.EmbeddingJobWhereInput[] {
+    const conditions: Prisma.EmbeddingJobWhereInput[] = [
+      { attempts: 0 },
+      { lastAttemptAt: null, attempts: { lt: MAX_JOB_ATTEMPTS } },
+    ];
+    for (let attempts = 1; attempts < MAX_JOB_ATTEMPTS; attempts++) {
+      conditions.push({ attempts, lastAttemptAt: { lte: new Date(now - 2 ** attempts * 60_000) } });
+    }
+    return conditions;
+  }
+
+  /** Coverage of the index per entity type, with queue backlog and failures. */
+  async getStatus() {
+    const [indexed, jobs] = await Promise.all([
+      this.prisma.$queryRaw<Array<{ entity_type: string; indexed: number }>>`
+        SELECT entity_type, COUNT(*)::int AS indexed
+        FROM embeddings WHERE embedding IS NOT NULL
+        GROUP BY entity_type
+      `,
+      this.prisma.embeddingJob.groupBy({
+        by: ['entityType', 'attempts'],
+        _count: true,
+      }),
+    ]);
+
+    const types = await Promise.all(
+      INDEXED_ENTITY_TYPES.map(async (entityType) => {
+        const entities = await this.documents.countLive(entityType);
+        const indexedCount = indexed.find((r) => r.entity_type === entityType)?.indexed || 0;
+        const typeJobs = jobs.filter((j) => j.entityType === entityType);
+        return {
+          entityType,
+          entities,
+          indexed: indexedCount,
+          pending: typeJobs.filter((j) => j.attempts < MAX_JOB_ATTEMPTS).reduce((sum, j) => sum + j._count, 0),
+          failed: typeJobs.filter((j) => j.attempts >= MAX_JOB_ATTEMPTS).reduce((sum, j) => sum + j._count, 0),
+          coverage: entities > 0 ? Math.min(100, Math.round((indexedCount / entities) * 100)) : 100,
+        };
+      }),
+    );
+
+    return {
+      enabled: this.openai.isAvailable,
+      pending: types.reduce((sum, t) => sum + t.pending, 0),
+      failed: types.reduce((sum, t) => sum + t.failed, 0),
+      types,
+    };
+  }
+
+  private async processJob(entityType: IndexedEntityType, entityId: string) {
+    const doc = await this.documents.load(entityType, entityId);
+    if (doc) {
+      await this.embeddings.indexEntity(entityType, entityId, doc.content, doc.trackId, doc.metadata);
+    } else {
+      await this.embeddings.removeEntities(entityType, [entityId]);
+    }
+
+    // Comments inherit track and visibility from what they are attached to
+    if (entityType === 'task' || entityType === 'daily_update') {
+      const comments = await this.prisma.comment.findMany({
+        where: { entityType, entityId },
+        select: { id: true },
+      });
+      await this.enqueue('comment', comments.map((c) => c.id));
+    }
+  }
+}
@@ -1,5 +1,6 @@
 import { Controller, Get, Post, UseGuards } from '@nestjs/common';
 import { EmbeddingsService } from './embeddings.service';
+import { EmbeddingIndexService } from './embedding-index.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
 import { Roles } from '../common/decorators/roles.decorator';
@@ -8,15 +9,24 @@ import { Roles } from '../common/decorators/roles.decorator';
 @UseGuards(JwtAuthGuard, RolesGuard)
 @Roles('admin')
 export class EmbeddingsController {
-  constructor(private embeddings: EmbeddingsService) {}
+  constructor(
+    private embeddings: EmbeddingsService,
+    private index: EmbeddingIndexService,
+  ) {}
 
+  /** Queues a full re-index; unchanged content is not re-embedded. */
   @Post('index-all')
   async indexAll() {
-    return this.embeddings.indexAllEntities();
+    return this.index.enqueueAll();
   }
 
   @Get('stats')
   async getStats() {
     return this.embeddings.getStats();
   }
+
+  @Get('status')
+  async getStatus() {
+    return this.index.getStatus();
+  }
 }
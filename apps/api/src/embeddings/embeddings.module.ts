@@ -2,11 +2,14 @@ import { Module } from '@nestjs/common';
 import { OpenAIModule } from '../openai/openai.module';
 import { EmbeddingsService } from './embeddings.service';
 import { EmbeddingsController } from './embeddings.controller';
+import { EmbeddingDocumentsService } from './embedding-documents.service';
+import { EmbeddingIndexService } from './embedding-index.service';
+import { EmbeddingIndexListener } from './embedding-index.listener';
 
 @Module({
   imports: [OpenAIModule],
-  providers: [EmbeddingsService],
+  providers: [EmbeddingsService, EmbeddingDocumentsService, EmbeddingIndexService, EmbeddingIndexListener],
   controllers: [EmbeddingsController],
-  exports: [EmbeddingsService],
+  exports: [EmbeddingsService, EmbeddingIndexService],
 })
 export class EmbeddingsModule {}
@@ -1,6 +1,12 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { createHash } from 'crypto';
 import { PrismaService } from '../common/prisma.service';
-import { OpenAIService } from '../openai/openai.service';
+import { OpenAIService, EMBEDDING_DIMENSIONS } from '../openai/openai.service';
+import { GLOBAL_TRACK_ROLES, TrackScopedUser } from '../common/guards/track-permission.guard';
+
+const DEFAULT_MIN_SIMILARITY = 0.3;
+const MAX_SEARCH_LIMIT = 100;
 
 @Injectable()
 export class EmbeddingsService {
@@ -11,17 +17,37 @@ export class EmbeddingsService {
     private openai: OpenAIService,
   ) {}
 
+  /**
+   * Upserts the embedding of one entity. The embedding call is skipped when
+   * the content hash is unchanged; trackId and metadata are refreshed anyway.
+   */
   async indexEntity(
     entityType: string,
     entityId: string,
     content: string,
-    trackId?: string,
+    trackId?: string | null,
     metadata?: Record<string, any>,
   ) {
     try {
+      const contentHash = createHash('sha256').update(content).digest('hex');
+      const [existing] = await this.prisma.$queryRaw<Array<{ content_hash: string | null; has_vector: boolean }>>`
+        SELECT content_hash, embedding IS NOT NULL AS has_vector
+        FROM embeddings WHERE entity_type = ${entityType} AND entity_id = ${entityId}
+      `;
+      if (existing?.has_vector && existing.content_hash === contentHash) {
+        await this.prisma.embedding.update({
+          where: { entityType_entityId: { entityType, entityId } },
+          data: { trackId: trackId || null, metadata: metadata || {} },
+        });
+        return { entityType, entityId, indexed: false };
+      }
+
       const embedding = await this.openai.generateEmbedding(content);
+      if (embedding.length !== EMBEDDING_DIMENSIONS) {
+        throw new Error(`Embedding has ${embedding.length} dimensions, the column expects ${EMBEDDING_DIMENSIONS}`);
+      }
 
-      await this.prisma.embedding.upsert({
+      const row = await this.prisma.embedding.upsert({
         where: {
           entityType_entityId: { entityType, entityId },
         },
@@ -29,15 +55,22 @@ export class EmbeddingsService {
           entityType,
           entityId,
           content,
+          contentHash,
           trackId: trackId || null,
-          metadata: { ...metadata, embedding },
+          metadata: metadata || {},
         },
         update: {
           content,
+          contentHash,
           trackId: trackId || null,
-          metadata: { ...metadata, embedding },
+          metadata: metadata || {},
         },
+        select: { id: true },
       });
+      // The vector column is Unsupported in Prisma, so it is written separately
+      await this.prisma.$executeRaw`
+        UPDATE embeddings SET embedding = ${this.toVectorLiteral(embedding)}::vector WHERE id = ${row.id}
+      `;
 
       return { entityType, entityId, indexed: true };
     } catch (error) {
@@ -46,156 +79,72 @@ export class EmbeddingsService {
     }
   }
 
-  async indexAllEntities(): Promise<{ indexed: number }> {
-    let count = 0;
-
-    // 1. Index Scopes
-    const scopes = await this.prisma.scope.findMany({
-      include: { track: { select: { nameAr: true } } },
-    });
-    for (let i = 0; i < scopes.length; i += 20) {
-      const batch = scopes.slice(i, i + 20);
-      await Promise.all(
-        batch.map((s) =>
-          this.indexEntity(
-            'scope',
-            s.id,
-            `نطاق العمل: ${s.titleAr || s.title}. ${s.description || ''}. المسار: ${s.track?.nameAr || ''}`,
-            s.trackId,
-            { title: s.titleAr || s.title },
-          ),
-        ),
-      );
-      count += batch.length;
-      if (i + 20 < scopes.length) await this.delay(200);
-    }
-
-    // 2. Index TrackKPIs
-    const kpis = await this.prisma.trackKPI.findMany({
-      include: { track: { select: { nameAr: true } } },
+  async removeEntities(entityType: string, entityIds: string[]) {
+    const { count } = await this.prisma.embedding.deleteMany({
+      where: { entityType, entityId: { in: entityIds } },
     });
-    for (let i = 0; i < kpis.length; i += 20) {
-      const batch = kpis.slice(i, i + 20);
-      await Promise.all(
-        batch.map((k) =>
-          this.indexEntity(
-            'kpi',
-            k.id,
-            `مؤشر أداء: ${k.nameAr || k.name}. المسار: ${k.track?.nameAr || ''}`,
-            k.trackId,
-            { name: k.nameAr || k.name },
-          ),
-        ),
-      );
-      count += batch.length;
-      if (i + 20 < kpis.length) await this.delay(200);
-    }
-
-    // 3. Index Penalties
-    const penalties = await this.prisma.penalty.findMany({
-      include: { track: { select: { nameAr: true } } },
-    });
-    for (let i = 0; i < penalties.length; i += 20) {
-      const batch = penalties.slice(i, i + 20);
-      await Promise.all(
-        batch.map((p) =>
-          this.indexEntity(
-            'penalty',
-            p.id,
-            `مخالفة: ${p.violationAr || p.violation}. الشدة: ${p.severity || 'متوسطة'}. المسار: ${p.track?.nameAr || ''}`,
-            p.trackId,
-            { violation: p.violationAr || p.violation, severity: p.severity },
-          ),
-        ),
-      );
-      count += batch.length;
-      if (i + 20 < penalties.length) await this.delay(200);
-    }
-
-    // 4. Index Deliverables
-    const deliverables = await this.prisma.deliverable.findMany({
-      include: { track: { select: { nameAr: true } } },
-    });
-    for (let i = 0; i < deliverables.length; i += 20) {
-      const batch = deliverables.slice(i, i + 20);
-      await Promise.all(
-        batch.map((d) =>
-          this.indexEntity(
-            'deliverable',
-            d.id,
-            `مخرج: ${d.nameAr || d.name}. ${d.outputs || ''}. مؤشرات التسليم: ${d.deliveryIndicators || ''}. المسار: ${d.track?.nameAr || ''}`,
-            d.trackId,
-            { name: d.nameAr || d.name },
-          ),
-        ),
-      );
-      count += batch.length;
-      if (i + 20 < deliverables.length) await this.delay(200);
-    }
-
-    // 5. Index Employees
-    const employees = await this.prisma.employee.findMany({
-      include: { track: { select: { nameAr: true } } },
-    });
-    for (let i = 0; i < employees.length; i += 20) {
-      const batch = employees.slice(i, i + 20);
-      await Promise.all(
-        batch.map((e) =>
-          this.indexEntity(
-            'employee',
-            e.id,
-            `موظف: ${e.fullNameAr || e.fullName}. المنصب: ${e.positionAr || e.position || ''}. المسار: ${e.track?.nameAr || ''}. نوع العقد: ${e.contractType || ''}`,
-            e.trackId || undefined,
-            { name: e.fullNameAr || e.fullName, position: e.positionAr || e.position },
-          ),
-        ),
-      );
-      count += batch.length;
-      if (i + 20 < employees.length) await this.delay(200);
-    }
-
-    this.logger.log(`Indexed ${count} entities`);
-    return { indexed: count };
+    return { removed: count };
   }
 
+  /**
+   * Top-k cosine search in Postgres (pgvector HNSW index). Non-global users
+   * only see entities of tracks they hold 'view' on, plus untracked ones;
+   * tasks and task comments follow the task visibility rules instead.
+   */
   async semanticSearch(
     query: string,
-    options: { trackId?: string; types?: string[]; limit?: number },
+    options: {
+      trackId?: string;
+      types?: string[];
+      limit?: number;
+      minSimilarity?: number;
+      user?: TrackScopedUser & { id: string };
+    },
   ) {
-    const { trackId, types, limit = 20 } = options;
+    const { trackId, types, user } = options;
+    const limit = Math.min(Math.max(options.limit || 20, 1), MAX_SEARCH_LIMIT);
+    const minSimilarity = options.minSimilarity ?? DEFAULT_MIN_SIMILARITY;
 
-    // Generate query embedding
     const queryEmbedding = await this.openai.generateEmbedding(query);
+    const vector = this.toVectorLiteral(queryEmbedding);
 
-    // Fetch all embeddings (filtered)
-    const where: any = {};
-    if (trackId) where.trackId = trackId;
-    if (types && types.length > 0) where.entityType = { in: types };
-
-    const embeddings = await this.prisma.embedding.findMany({ where });
-
-    // Compute cosine similarity for each embedding
-    const results = embeddings
-      .map((emb) => {
-        const embeddingVector = (emb.metadata as any)?.embedding;
-        if (!embeddingVector || !Array.isArray(embeddingVector)) return null;
-
-        const similarity = this.cosineSimilarity(queryEmbedding, embeddingVector);
-        return {
-          entityType: emb.entityType,
-          entityId: emb.entityId,
-          content: emb.content,
-          trackId: emb.trackId,
-          similarity,
-          metadata: {
-            ...(emb.metadata as any),
-            embedding: undefined, // Don't return the raw embedding vector
-          },
-        };
-      })
-      .filter((r): r is NonNullable<typeof r> => r !== null && r.similarity > 0.3)
-      .sort((a, b) => b.similarity - a.similarity)
-      .slice(0, limit);
+    const conditions: Prisma.Sql[] = [Prisma.sql`embedding IS NOT NULL`];
+    if (trackId) conditions.push(Prisma.sql`track_id = ${trackId}`);
+    if (types && types.length > 0) conditions.push(Prisma.sql`entity_type IN (${Prisma.join(types)})`);
+    if (user && !GLOBAL_TRACK_ROLES.includes(user.role)) {
+      conditions.push(this.visibilityFilter(user));
+    }
+    conditions.push(Prisma.sql`1 - (embedding <=> ${vector}::vector) >= ${minSimilarity}`);
+
+    // Filters are applied after the HNSW scan, so widen the candidate list to keep k results
+    const efSearch = Math.min(Math.max(limit * 4, 40), 1000);
+    const [, rows] = await this.prisma.$transaction([
+      this.prisma.$executeRawUnsafe(`SET LOCAL hnsw.ef_search = ${efSearch}`),
+      this.prisma.$queryRaw<Array<{
+        entity_type: string;
+        entity_id: string;
+        content: string;
+        track_id: string | null;
+        metadata: Prisma.JsonValue;
+        similarity: number;
+      }>>`
+        SELECT entity_type, entity_id, content, track_id, metadata,
+               1 - (embedding <=> ${vector}::vector) AS similarity
+        FROM embeddings
+        WHERE ${Prisma.join(conditions, ' AND ')}
+        ORDER BY embedding <=> ${vector}::vector
+        LIMIT ${limit}
+      `,
+    ]);
+
+    const results = rows.map((r) => ({
+      entityType: r.entity_type,
+      entityId: r.entity_id,
+      content: r.content,
+      trackId: r.track_id,
+      similarity: Number(r.similarity),
+      metadata: r.metadata,
+    }));
 
     return {
       results,
@@ -205,15 +154,21 @@ export class EmbeddingsService {
   }
 
   async getStats() {
-    const embeddings = await this.prisma.embedding.groupBy({
-      by: ['entityType'],
-      _count: true,
-    });
+    const [embeddings, [{ missing }]] = await Promise.all([
+      this.prisma.embedding.groupBy({
+        by: ['entityType'],
+        _count: true,
+      }),
+      this.prisma.$queryRaw<Array<{ missing: number }>>`
+        SELECT COUNT(*)::int AS missing FROM embeddings WHERE embedding IS NULL
+      `,
+    ]);
 
     const total = embeddings.reduce((sum, e) => sum + e._count, 0);
 
     return {
       total,
+      missingVectors: missing,
       byType: embeddings.reduce(
         (acc, e) => ({ ...acc, [e.entityType]: e._count }),
         {},
@@ -221,20 +176,34 @@ export class EmbeddingsService {
     };
   }
 
-  private cosineSimilarity(a: number[], b: number[]): number {
-    let dot = 0;
-    let normA = 0;
-    let normB = 0;
-    for (let i = 0; i < a.length; i++) {
-      dot += a[i] * b[i];
-      normA += a[i] * a[i];
-      normB += b[i] * b[i];
+  /** SQL counterpart of buildTaskVisibilityFilter plus track 'view' permissions. */
+  private visibilityFilter(user: TrackScopedUser & { id: string }) {
+    const permissions = user.trackPermissions || [];
+    const viewTrackIds = permissions.filter((tp) => tp.permissions.includes('view')).map((tp) => tp.trackId);
+    const memberTrackIds = permissions.map((tp) => tp.trackId);
+
+    const taskRules: Prisma.Sql[] = [
+      Prisma.sql`metadata->>'assigneeType' = 'GLOBAL'`,
+      Prisma.sql`(metadata->>'assigneeType' = 'USER' AND metadata->>'assigneeUserId' = ${user.id})`,
+      Prisma.sql`metadata->>'createdById' = ${user.id}`,
+      Prisma.sql`metadata->'assignedUserIds' @> jsonb_build_array(${user.id}::text)`,
+    ];
+    if (memberTrackIds.length > 0) {
+      taskRules.push(Prisma.sql`(metadata->>'assigneeType' = 'TRACK' AND metadata->>'assigneeTrackId' IN (${Prisma.join(memberTrackIds)}))`);
     }
-    const denominator = Math.sqrt(normA) * Math.sqrt(normB);
-    return denominator === 0 ? 0 : dot / denominator;
+    if (user.role === 'hr') taskRules.push(Prisma.sql`metadata->>'assigneeType' = 'HR'`);
+
+    const trackRule = viewTrackIds.length > 0
+      ? Prisma.sql`(track_id IS NULL OR track_id IN (${Prisma.join(viewTrackIds)}))`
+      : Prisma.sql`track_id IS NULL`;
+
+    return Prisma.sql`(CASE WHEN metadata->>'assigneeType' IS NOT NULL
+      THEN (${Prisma.join(taskRules, ' OR ')})
+      ELSE ${trackRule} END)`;
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  /** pgvector text format: '[0.1,0.2,...]' */
+  private toVectorLiteral(values: number[]) {
+    return `[${values.join(',')}]`;
   }
 }
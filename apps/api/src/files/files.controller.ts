@@ -1,15 +1,18 @@
-import { Controller, Get, Post, Patch, Delete, Param, Body, Query, UseGuards, UseInterceptors, UploadedFile as UpFile, Req, Res, NotFoundException } from '@nestjs/common';
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query, UseGuards, UseInterceptors, UploadedFile as UpFile, Req } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
 import { diskStorage } from 'multer';
 import { extname, join, resolve as pathResolve } from 'path';
-import { existsSync, createReadStream, realpathSync } from 'fs';
+import { unlinkSync } from 'fs';
 import { FilesService } from './files.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard, assertTrackPermission, permittedTrackIds } from '../common/guards/track-permission.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { AuditService } from '../audit/audit.service';
-import { Request, Response } from 'express';
+import { Request } from 'express';
+import { attachmentUploadOptions } from '../attachments/attachment-rules';
 
 @Controller('files')
 @UseGuards(JwtAuthGuard)
@@ -20,7 +23,10 @@ export class FilesController {
   ) {}
 
   @Get()
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { from: 'query' })
   findAll(
+    @CurrentUser() user: any,
     @Query('page') page?: string,
     @Query('pageSize') pageSize?: string,
     @Query('trackId') trackId?: string,
@@ -31,6 +37,7 @@ export class FilesController {
       page: page ? +page : undefined,
       pageSize: pageSize ? +pageSize : undefined,
       trackId,
+      trackIds: permittedTrackIds(user, trackId),
       category,
       status,
     });
@@ -42,29 +49,24 @@ export class FilesController {
   }
 
   @Post('upload')
-  @UseInterceptors(FileInterceptor('file', {
-    storage: diskStorage({
-      destination: join(process.cwd(), 'uploads'),
-      filename: (req, file, cb) => {
-        const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-        cb(null, uniqueSuffix + extname(file.originalname));
-      },
-    }),
-    limits: { fileSize: 50 * 1024 * 1024 }, // 50MB
-  }))
+  @UseInterceptors(FileInterceptor('file', attachmentUploadOptions))
   async upload(
     @UpFile() file: Express.Multer.File,
     @Body() body: any,
     @CurrentUser() user: any,
     @Req() req: Request,
   ) {
-    const uploaded = await this.files.create({
+    // Multipart body is only parsed by the interceptor, after guards have run
+    try {
+      assertTrackPermission(user, body.trackId, 'create');
+    } catch (err) {
+      unlinkSync(file.path);
+      throw err;
+    }
+
+    const uploaded = await this.files.upload(file, {
       trackId: body.trackId || null,
       uploadedById: user.id,
-      fileName: file.originalname,
-      fileSize: file.size,
-      mimeType: file.mimetype,
-      filePath: file.path,
       category: body.category || 'general',
       notes: body.notes,
     });
@@ -83,6 +85,8 @@ export class FilesController {
   }
 
   @Post('register')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('create')
   async registerFile(@Body() body: any, @CurrentUser() user: any, @Req() req: Request) {
     const uploaded = await this.files.create({
       trackId: body.trackId || null,
@@ -128,6 +132,7 @@ export class FilesController {
       file.originalname,
       file.mimetype,
       body.analysisType || 'extract',
+      user.id,
     );
 
     await this.audit.log({
@@ -142,33 +147,10 @@ export class FilesController {
     return { fileName: file.originalname, fileSize: file.size, analysis: result };
   }
 
-  @Get(':id/download')
-  async download(@Param('id') id: string, @Res() res: Response) {
-    const file = await this.files.findById(id);
-    if (!file) throw new NotFoundException('الملف غير موجود');
-
-    const uploadDir = realpathSync(join(process.cwd(), 'uploads'));
-    const filePath = realpathSync(file.filePath);
-
-    if (!filePath.startsWith(uploadDir)) {
-      throw new NotFoundException('الملف غير موجود');
-    }
-
-    if (!existsSync(filePath)) {
-      throw new NotFoundException('الملف غير موجود على الخادم');
-    }
-
-    res.set({
-      'Content-Type': file.mimeType || 'application/octet-stream',
-      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(file.fileName)}`,
-      'Content-Length': file.fileSize.toString(),
-    });
-    createReadStream(filePath).pipe(res);
-  }
-
   @Patch(':id/status')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('edit', { entity: 'uploadedFile' })
   async updateStatus(@Param('id') id: string, @Body() body: { status: string }, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.files.updateStatus(id, body.status);
     await this.audit.log({
@@ -183,8 +165,9 @@ export class FilesController {
   }
 
   @Delete(':id')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('delete', { entity: 'uploadedFile' })
   async delete(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.files.delete(id);
     await this.audit.log({
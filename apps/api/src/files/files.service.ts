@@ -1,6 +1,7 @@
 import { Injectable, NotFoundException, Logger } from '@nestjs/common';
 import { PrismaService } from '../common/prisma.service';
 import { OpenAIService } from '../openai/openai.service';
+import { AttachmentsService } from '../attachments/attachments.service';
 import { readFileSync } from 'fs';
 
 @Injectable()
@@ -10,18 +11,23 @@ export class FilesService {
   constructor(
     private prisma: PrismaService,
     private openai: OpenAIService,
+    private attachments: AttachmentsService,
   ) {}
 
   async findAll(params: {
     page?: number;
     pageSize?: number;
     trackId?: string;
+    // Tracks to limit the list to when no trackId is given; null for all
+    trackIds?: string[] | null;
     category?: string;
     status?: string;
   }) {
-    const { page = 1, pageSize = 25, trackId, category, status } = params;
+    const { page = 1, pageSize = 25, trackId, trackIds, category, status } = params;
     const where: any = {};
     if (trackId) where.trackId = trackId;
+    // Files without a track are global
+    else if (trackIds) where.OR = [{ trackId: { in: trackIds } }, { trackId: null }];
     if (category) where.category = category;
     if (status) where.status = status;
 
@@ -53,6 +59,8 @@ export class FilesService {
     fileSize: number;
     mimeType: string;
     filePath: string;
+    storageProvider?: string;
+    checksum?: string;
     category?: string;
     notes?: string;
   }) {
@@ -65,6 +73,23 @@ export class FilesService {
     });
   }
 
+  /** Validates and stores a multer upload, then records it. */
+  async upload(
+    file: Express.Multer.File,
+    meta: { trackId?: string; uploadedById: string; category?: string; notes?: string },
+  ) {
+    const [stored] = await this.attachments.storeAll([file], 'files');
+    return this.create({
+      ...meta,
+      fileName: stored.fileName,
+      fileSize: stored.fileSize,
+      mimeType: stored.mimeType,
+      filePath: stored.storagePath,
+      storageProvider: stored.storageProvider,
+      checksum: stored.checksum,
+    });
+  }
+
   async updateStatus(id: string, status: string) {
     const file = await this.prisma.uploadedFile.findUnique({ where: { id } });
     if (!file) throw new NotFoundException('الملف غير موجود');
@@ -78,6 +103,7 @@ export class FilesService {
     const file = await this.prisma.uploadedFile.findUnique({ where: { id } });
     if (!file) throw new NotFoundException('الملف غير موجود');
     await this.prisma.uploadedFile.delete({ where: { id } });
+    await this.attachments.release({ storagePath: file.filePath, storageProvider: file.storageProvider });
     return { message: 'تم حذف الملف' };
   }
 
@@ -96,7 +122,7 @@ export class FilesService {
   }
 
   // ─── AI File Analysis ───────────────────────────────
-  async analyzeFile(filePath: string, fileName: string, mimeType: string, analysisType: string) {
+  async analyzeFile(filePath: string, fileName: string, mimeType: string, analysisType: string, userId?: string) {
     let fileContent = '';
 
     try {
@@ -196,7 +222,7 @@ ${fileContent}`,
     const response = await this.openai.chat([
       { role: 'system', content: 'أنت مساعد ذكي متخصص في تحليل واستخراج البيانات. أجب دائماً بصيغة JSON صالحة فقط.' },
       { role: 'user', content: prompt },
-    ], { temperature: 0.2, maxTokens: 4096 });
+    ], { feature: 'file_analysis', temperature: 0.2, maxTokens: 4096, userId });
 
     // Try to parse JSON from response
     try {
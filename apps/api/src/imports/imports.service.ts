@@ -1,5 +1,7 @@
 import { Injectable, BadRequestException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../common/prisma.service';
+import { DomainEvents } from '../common/events/domain-events';
 import * as ExcelJS from 'exceljs';
 import { ImportDataDto } from './imports.dto';
 
@@ -43,7 +45,10 @@ const ENTITY_FIELDS: Record<string, Array<{ field: string; label: string; labelA
 
 @Injectable()
 export class ImportsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private eventBus: EventEmitter2,
+  ) {}
 
   getEntityFields(entityType: string) {
     const fields = ENTITY_FIELDS[entityType];
@@ -123,6 +128,7 @@ export class ImportsService {
     let inserted = 0;
     let skipped = 0;
     const errors: any[] = [];
+    const createdIds: string[] = [];
 
     for (let i = 0; i < rows.length; i++) {
       try {
@@ -149,23 +155,23 @@ export class ImportsService {
         switch (entityType) {
           case 'employee':
             if (!record.fullNameAr || !record.fullName) { skipped++; continue; }
-            await this.prisma.employee.create({ data: record as any });
+            createdIds.push((await this.prisma.employee.create({ data: record as any })).id);
             break;
           case 'deliverable':
             if (!record.nameAr || !record.name || !record.trackId) { skipped++; continue; }
-            await this.prisma.deliverable.create({ data: record as any });
+            createdIds.push((await this.prisma.deliverable.create({ data: record as any })).id);
             break;
           case 'penalty':
             if (!record.violationAr || !record.violation || !record.trackId) { skipped++; continue; }
-            await this.prisma.penalty.create({ data: record as any });
+            createdIds.push((await this.prisma.penalty.create({ data: record as any })).id);
             break;
           case 'scope':
             if (!record.titleAr || !record.title || !record.trackId) { skipped++; continue; }
-            await this.prisma.scope.create({ data: record as any });
+            createdIds.push((await this.prisma.scope.create({ data: record as any })).id);
             break;
           case 'track_kpi':
             if (!record.nameAr || !record.name || !record.trackId) { skipped++; continue; }
-            await this.prisma.trackKPI.create({ data: record as any });
+            createdIds.push((await this.prisma.trackKPI.create({ data: record as any })).id);
             break;
         }
         inserted++;
@@ -175,6 +181,13 @@ export class ImportsService {
       }
     }
 
+    if (createdIds.length > 0) {
+      this.eventBus.emit(DomainEvents.ENTITY_CHANGED, {
+        entityType: entityType === 'track_kpi' ? 'kpi' : entityType,
+        entityIds: createdIds,
+      });
+    }
+
     // Log import history
     await this.prisma.importHistory.create({
       data: {
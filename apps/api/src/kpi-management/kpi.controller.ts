@@ -2,7 +2,9 @@ import { Controller, Get, Post, Patch, Delete, Param, Body, Query, UseGuards, Re
 import { KPIService } from './kpi.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard, permittedTrackIds } from '../common/guards/track-permission.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { AuditService } from '../audit/audit.service';
 import { Request } from 'express';
@@ -16,7 +18,10 @@ export class KPIController {
   ) {}
 
   @Get()
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { from: 'query' })
   findAll(
+    @CurrentUser() user: any,
     @Query('page') page?: string,
     @Query('pageSize') pageSize?: string,
     @Query('trackId') trackId?: string,
@@ -27,22 +32,29 @@ export class KPIController {
       page: page ? +page : undefined,
       pageSize: pageSize ? +pageSize : undefined,
       trackId,
+      trackIds: permittedTrackIds(user, trackId),
       status,
       category,
     });
   }
 
   @Get('stats')
-  getStats(@Query('trackId') trackId?: string) {
-    return this.kpis.getStats(trackId);
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { from: 'query' })
+  getStats(@CurrentUser() user: any, @Query('trackId') trackId?: string) {
+    return this.kpis.getStats(trackId, permittedTrackIds(user, trackId));
   }
 
   @Get(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { entity: 'kpiEntry' })
   findOne(@Param('id') id: string) {
     return this.kpis.findById(id);
   }
 
   @Post()
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('create')
   async create(@Body() body: any, @CurrentUser() user: any, @Req() req: Request) {
     const kpi = await this.kpis.create(body);
     await this.audit.log({
@@ -58,6 +70,8 @@ export class KPIController {
   }
 
   @Patch(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('edit', { entity: 'kpiEntry' })
   async update(@Param('id') id: string, @Body() body: any, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.kpis.findById(id);
     const kpi = await this.kpis.update(id, body);
@@ -74,8 +88,9 @@ export class KPIController {
   }
 
   @Delete(':id')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('delete', { entity: 'kpiEntry' })
   async delete(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.kpis.delete(id);
     await this.audit.log({
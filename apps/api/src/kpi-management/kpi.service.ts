@@ -9,12 +9,15 @@ export class KPIService {
     page?: number;
     pageSize?: number;
     trackId?: string;
+    // Tracks to limit the list to when no trackId is given; null for all
+    trackIds?: string[] | null;
     status?: string;
     category?: string;
   }) {
-    const { page = 1, pageSize = 50, trackId, status, category } = params;
+    const { page = 1, pageSize = 50, trackId, trackIds, status, category } = params;
     const where: any = {};
     if (trackId) where.trackId = trackId;
+    else if (trackIds) where.trackId = { in: trackIds };
     if (status) where.status = status;
     if (category) where.category = category;
 
@@ -87,8 +90,8 @@ export class KPIService {
     return { message: 'تم حذف مؤشر الأداء' };
   }
 
-  async getStats(trackId?: string) {
-    const where: any = trackId ? { trackId } : {};
+  async getStats(trackId?: string, trackIds?: string[] | null) {
+    const where: any = trackId ? { trackId } : trackIds ? { trackId: { in: trackIds } } : {};
 
     const [total, byStatus, byCategory, entries] = await Promise.all([
       this.prisma.kPIEntry.count({ where }),
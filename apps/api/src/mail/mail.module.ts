@@ -0,0 +1,28 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, SmtpMailTransport, LogMailTransport } from './mail.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    {
+      provide: MAIL_TRANSPORT,
+      inject: [ConfigService],
+      useFactory: (config: ConfigService) => {
+        const host = config.get<string>('SMTP_HOST');
+        if (!host) return new LogMailTransport();
+        return new SmtpMailTransport({
+          host,
+          port: parseInt(config.get<string>('SMTP_PORT', '587'), 10),
+          secure: config.get<string>('SMTP_SECURE') === 'true',
+          user: config.get<string>('SMTP_USER'),
+          pass: config.get<string>('SMTP_PASS'),
+        });
+      },
+    },
+    MailService,
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
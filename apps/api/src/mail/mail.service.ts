@@ -0,0 +1,19 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT, MailMessage, MailTransport } from './mail.transport';
+
+@Injectable()
+export class MailService {
+  private readonly from: string;
+
+  constructor(
+    @Inject(MAIL_TRANSPORT) private transport: MailTransport,
+    config: ConfigService,
+  ) {
+    this.from = config.get<string>('MAIL_FROM', 'Nusuk <no-reply@nusuk.local>');
+  }
+
+  async send(message: MailMessage) {
+    await this.transport.send({ ...message, from: this.from });
+  }
+}
@@ -0,0 +1,45 @@
+import { Logger } from '@nestjs/common';
+import * as nodemailer from 'nodemailer';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  html: string;
+  text: string;
+}
+
+/**
+ * Delivery backend for outgoing mail. Swap implementations through the
+ * MAIL_TRANSPORT provider — SMTP in deployments (or a local MailHog),
+ * the log transport when no SMTP host is configured.
+ */
+export interface MailTransport {
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const MAIL_TRANSPORT = Symbol('MAIL_TRANSPORT');
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(options: { host: string; port: number; secure: boolean; user?: string; pass?: string }) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user ? { auth: { user: options.user, pass: options.pass } } : {}),
+    });
+  }
+
+  async send(message: MailMessage & { from: string }) {
+    await this.transporter.sendMail(message);
+  }
+}
+
+export class LogMailTransport implements MailTransport {
+  private readonly logger = new Logger(LogMailTransport.name);
+
+  async send(message: MailMessage & { from: string }) {
+    this.logger.log(`[mail] to=${message.to} subject="${message.subject}"`);
+  }
+}
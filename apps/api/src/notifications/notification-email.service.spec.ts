@@ -0,0 +1,51 @@
+import { NotificationEmailService } from './notification-email.service';
+
+const MINUTE_MS = 60 * 1000;
+
+describe('NotificationEmailService.sendImmediate', () => {
+  const now = new Date('2026-10-20T09:00:00Z').getTime();
+  let findMany: jest.Mock;
+  let service: NotificationEmailService;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now });
+    findMany = jest.fn().mockResolvedValue([]);
+    const prisma = { notification: { findMany, updateMany: jest.fn() } };
+    const config = { get: (_key: string, fallback: string) => fallback };
+    service = new NotificationEmailService(prisma as any, { send: jest.fn() } as any, config as any);
+  });
+
+  afterEach(() => jest.useRealTimers());
+
+  /** Evaluates the query's backoff conditions against a row, as the database would. */
+  function isSelected(row: { emailAttempts: number; emailLastAttemptAt: Date | null }) {
+    const { OR } = findMany.mock.calls[0][0].where;
+    return OR.some((c: any) =>
+      (c.emailAttempts === undefined || c.emailAttempts === row.emailAttempts) &&
+      (c.emailLastAttemptAt === undefined ||
+        (c.emailLastAttemptAt === null
+          ? row.emailLastAttemptAt === null
+          : !!row.emailLastAttemptAt && row.emailLastAttemptAt <= c.emailLastAttemptAt.lte)),
+    );
+  }
+
+  it('applies the backoff in the query, before the batch limit', async () => {
+    await service.sendImmediate();
+    const { where, take } = findMany.mock.calls[0][0];
+    expect(take).toBe(100);
+    expect(where.OR).toBeDefined();
+  });
+
+  it('selects rows never tried', async () => {
+    await service.sendImmediate();
+    expect(isSelected({ emailAttempts: 0, emailLastAttemptAt: null })).toBe(true);
+  });
+
+  it('waits 2^attempts minutes after a failed attempt', async () => {
+    await service.sendImmediate();
+    expect(isSelected({ emailAttempts: 1, emailLastAttemptAt: new Date(now - 1 * MINUTE_MS) })).toBe(false);
+    expect(isSelected({ emailAttempts: 1, emailLastAttemptAt: new Date(now - 2 * MINUTE_MS) })).toBe(true);
+    expect(isSelected({ emailAttempts: 3, emailLastAttemptAt: new Date(now - 7 * MINUTE_MS) })).toBe(false);
+    expect(isSelected({ emailAttempts: 3, emailLastAttemptAt: new Date(now - 8 * MINUTE_MS) })).toBe(true);
+  });
+});
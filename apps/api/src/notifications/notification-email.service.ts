@@ -0,0 +1,161 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { MailService } from '../mail/mail.service';
+import { renderNotificationEmail, renderDigestEmail } from './notification-email.templates';
+
+const MAX_EMAIL_ATTEMPTS = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Email channel for notifications. Rows are picked up from the database
+ * rather than hooked into creation, so every creation path (dispatch,
+ * createForUsers, schedulers) is covered and failed sends are retried.
+ */
+@Injectable()
+export class NotificationEmailService {
+  private readonly logger = new Logger(NotificationEmailService.name);
+  private readonly appUrl: string;
+  private sending = false;
+
+  constructor(
+    private prisma: PrismaService,
+    private mail: MailService,
+    config: ConfigService,
+  ) {
+    this.appUrl = config.get<string>('APP_URL', 'http://localhost:3000');
+  }
+
+  /**
+   * Every minute: email unsent notifications to users on immediate delivery.
+   * Failed sends back off exponentially (2^attempts minutes) up to
+   * MAX_EMAIL_ATTEMPTS; only the last 24h are considered.
+   */
+  @Cron('0 * * * * *')
+  async sendImmediate() {
+    if (this.sending) return;
+    this.sending = true;
+    try {
+      const now = Date.now();
+      const pending = await this.prisma.notification.findMany({
+        where: {
+          emailSent: false,
+          emailAttempts: { lt: MAX_EMAIL_ATTEMPTS },
+          createdAt: { gte: new Date(now - DAY_MS) },
+          // Backoff is filtered here, not after `take`, so rows waiting out
+          // a backoff cannot crowd out the ones that are due
+          OR: this.dueWhere(now),
+          user: {
+            isActive: true,
+            OR: [
+              { notificationPreference: { is: null } },
+              { notificationPreference: { is: { emailEnabled: true, emailFrequency: 'immediate' } } },
+            ],
+          },
+        },
+        include: { user: { select: { email: true } } },
+        orderBy: { createdAt: 'asc' },
+        take: 100,
+      });
+
+      for (const notification of pending) {
+        try {
+          await this.mail.send(renderNotificationEmail(notification.user.email, notification, this.appUrl));
+          await this.markSent([notification.id]);
+        } catch (err) {
+          await this.markFailed([notification.id], err);
+        }
+      }
+
+      if (pending.length > 0) {
+        this.logger.log(`Processed ${pending.length} immediate notification emails`);
+      }
+    } catch (error) {
+      this.logger.error('Error sending notification emails', error);
+    } finally {
+      this.sending = false;
+    }
+  }
+
+  /**
+   * Daily at 9:30 AM Riyadh time (6:30 UTC), after the overdue reminders:
+   * one digest per user on daily_digest delivery.
+   */
+  @Cron('0 30 6 * * *')
+  async sendDailyDigests() {
+    try {
+      const now = Date.now();
+      const pending = await this.prisma.notification.findMany({
+        where: {
+          emailSent: false,
+          emailAttempts: { lt: MAX_EMAIL_ATTEMPTS },
+          createdAt: { gte: new Date(now - 2 * DAY_MS) },
+          user: {
+            isActive: true,
+            notificationPreference: { is: { emailEnabled: true, emailFrequency: 'daily_digest' } },
+          },
+        },
+        include: { user: { select: { email: true } } },
+        orderBy: { createdAt: 'desc' },
+      });
+
+      const byUser = new Map<string, typeof pending>();
+      for (const notification of pending) {
+        if (!byUser.has(notification.userId)) byUser.set(notification.userId, []);
+        byUser.get(notification.userId)!.push(notification);
+      }
+
+      for (const notifications of byUser.values()) {
+        const ids = notifications.map((n) => n.id);
+        try {
+          await this.mail.send(renderDigestEmail(notifications[0].user.email, notifications, this.appUrl));
+          await this.markSent(ids);
+        } catch (err) {
+          await this.markFailed(ids, err);
+        }
+      }
+
+      if (byUser.size > 0) {
+        this.logger.log(`Sent daily digests to ${byUser.size} users`);
+      }
+    } catch (error) {
+      this.logger.error('Error sending daily digests', error);
+    }
+  }
+
+  /** Rows never tried, or whose last attempt is 2^attempts minutes old. */
+  private dueWhere(now: number): Prisma.NotificationWhereInput[] {
+    const conditions: Prisma.NotificationWhereInput[] = [{ emailAttempts: 0 }, { emailLastAttemptAt: null }];
+    for (let attempts = 1; attempts < MAX_EMAIL_ATTEMPTS; attempts++) {
+      const backoffMs = Math.pow(2, attempts) * 60 * 1000;
+      conditions.push({ emailAttempts: attempts, emailLastAttemptAt: { lte: new Date(now - backoffMs) } });
+    }
+    return conditions;
+  }
+
+  private async markSent(ids: string[]) {
+    await this.prisma.notification.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        emailSent: true,
+        emailAttempts: { increment: 1 },
+        emailLastAttemptAt: new Date(),
+        emailError: null,
+      },
+    });
+  }
+
+  private async markFailed(ids: string[], err: any) {
+    this.logger.warn(`Failed to email ${ids.length} notification(s): ${err.message}`);
+    await this.prisma.notification.updateMany({
+      where: { id: { in: ids } },
+      data: {
+        emailAttempts: { increment: 1 },
+        emailLastAttemptAt: new Date(),
+        emailError: String(err.message || err).slice(0, 1000),
+      },
+    });
+  }
+}
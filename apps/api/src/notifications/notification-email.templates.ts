@@ -0,0 +1,74 @@
+import { MailMessage } from '../mail/mail.transport';
+
+interface EmailNotification {
+  title: string;
+  titleAr: string;
+  body: string | null;
+  bodyAr: string | null;
+  createdAt: Date;
+}
+
+function escapeHtml(value: string) {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+function layout(arabic: string, english: string, appUrl: string) {
+  return `<!DOCTYPE html>
+<html lang="ar" dir="rtl">
+<head><meta charset="utf-8"></head>
+<body style="margin:0;padding:24px;background:#f3f4f6;font-family:Tahoma,Arial,sans-serif;color:#111827;">
+  <div style="max-width:600px;margin:0 auto;background:#ffffff;border-radius:12px;overflow:hidden;">
+    <div style="background:#10B981;color:#ffffff;padding:16px 24px;font-size:18px;font-weight:bold;">نسك · Nusuk</div>
+    <div dir="rtl" lang="ar" style="padding:24px;text-align:right;">${arabic}</div>
+    <hr style="border:none;border-top:1px solid #e5e7eb;margin:0 24px;">
+    <div dir="ltr" lang="en" style="padding:24px;text-align:left;">${english}</div>
+    <div style="padding:16px 24px;background:#f9fafb;text-align:center;font-size:12px;">
+      <a href="${escapeHtml(appUrl)}" style="color:#10B981;">${escapeHtml(appUrl)}</a>
+    </div>
+  </div>
+</body>
+</html>`;
+}
+
+function item(title: string, body: string | null) {
+  return `<p style="margin:0 0 4px;font-weight:bold;">${escapeHtml(title)}</p>`
+    + (body ? `<p style="margin:0 0 16px;color:#4b5563;">${escapeHtml(body)}</p>` : '<div style="margin-bottom:16px;"></div>');
+}
+
+/** Single-notification email: Arabic (RTL) block first, English (LTR) below. */
+export function renderNotificationEmail(to: string, n: EmailNotification, appUrl: string): MailMessage {
+  const arabic = item(n.titleAr, n.bodyAr || n.body);
+  const english = item(n.title, n.body);
+  return {
+    to,
+    subject: `${n.titleAr} | ${n.title}`,
+    html: layout(arabic, english, appUrl),
+    text: [n.titleAr, n.bodyAr || n.body || '', '', n.title, n.body || '', '', appUrl].join('\n'),
+  };
+}
+
+/** Daily digest: every pending notification for the user, newest first. */
+export function renderDigestEmail(to: string, notifications: EmailNotification[], appUrl: string): MailMessage {
+  const count = notifications.length;
+  const arabic = `<h2 style="margin:0 0 16px;font-size:16px;">ملخص الإشعارات اليومي (${count})</h2>`
+    + notifications.map((n) => item(n.titleAr, n.bodyAr || n.body)).join('');
+  const english = `<h2 style="margin:0 0 16px;font-size:16px;">Daily notification digest (${count})</h2>`
+    + notifications.map((n) => item(n.title, n.body)).join('');
+  return {
+    to,
+    subject: `ملخص الإشعارات اليومي | Daily digest (${count})`,
+    html: layout(arabic, english, appUrl),
+    text: [
+      ...notifications.map((n) => `• ${n.titleAr}${n.bodyAr ? ` — ${n.bodyAr}` : ''}`),
+      '',
+      ...notifications.map((n) => `• ${n.title}${n.body ? ` — ${n.body}` : ''}`),
+      '',
+      appUrl,
+    ].join('\n'),
+  };
+}
@@ -0,0 +1,291 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { OnEvent } from '@nestjs/event-emitter';
+import { PrismaService } from '../common/prisma.service';
+import { NotificationsService } from './notifications.service';
+import {
+  DomainEvents,
+  TaskCreatedEvent,
+  TaskAssignedEvent,
+  TaskStatusChangedEvent,
+  TaskReviewedEvent,
+  CommentCreatedEvent,
+  DailyUpdateCreatedEvent,
+} from '../common/events/domain-events';
+import { TASK_STATUS_LABELS_AR } from '../tasks/task-status';
+
+/**
+ * Turns domain events into notifications: resolves who should hear about
+ * each event and hands the recipient list to NotificationsService.dispatch.
+ * Failures are logged and swallowed so they never break the publisher.
+ */
+@Injectable()
+export class NotificationEventsListener {
+  private readonly logger = new Logger(NotificationEventsListener.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+  ) {}
+
+  @OnEvent(DomainEvents.TASK_CREATED, { async: true })
+  async onTaskCreated(event: TaskCreatedEvent) {
+    try {
+      const task = await this.loadTask(event.taskId);
+      if (!task) return;
+
+      const userIds = task.assignments.map((a) => a.userId);
+      if (task.assigneeUserId) userIds.push(task.assigneeUserId);
+
+      await this.notifications.dispatch(userIds, {
+        type: 'task_assigned',
+        title: 'New Task Assigned',
+        titleAr: 'تم إسناد مهمة جديدة إليك',
+        body: `You have been assigned "${task.title}"`,
+        bodyAr: `تم إسناد المهمة "${task.titleAr}" إليك`,
+        entityType: 'task',
+        entityId: task.id,
+        trackId: task.trackId || undefined,
+        senderId: event.actorId,
+      });
+    } catch (err) {
+      this.logger.error(`Failed to notify for task.created: ${err.message}`);
+    }
+  }
+
+  @OnEvent(DomainEvents.TASK_ASSIGNED, { async: true })
+  async onTaskAssigned(event: TaskAssignedEvent) {
+    try {
+      const task = await this.loadTask(event.taskId);
+      if (!task) return;
+
+      await this.notifications.dispatch(event.userIds, {
+        type: 'task_assigned',
+        title: 'Task Assigned',
+        titleAr: 'تم إسناد مهمة إليك',
+        body: `You have been assigned "${task.title}"`,
+        bodyAr: `تم إسناد المهمة "${task.titleAr}" إليك`,
+        entityType: 'task',
+        entityId: task.id,
+        trackId: task.trackId || undefined,
+        senderId: event.actorId,
+      });
+    } catch (err) {
+      this.logger.error(`Failed to notify for task.assigned: ${err.message}`);
+    }
+  }
+
+  @OnEvent(DomainEvents.TASK_STATUS_CHANGED, { async: true })
+  async onTaskStatusChanged(event: TaskStatusChangedEvent) {
+    // Review decisions get their own notification (onTaskReviewed)
+    if (event.viaReview) return;
+    try {
+      const task = await this.loadTask(event.taskId);
+      if (!task) return;
+
+      const userIds = this.taskParticipants(task);
+      const trackId = task.trackId || task.assigneeTrackId;
+      if (trackId) userIds.push(...(await this.trackLeads(trackId)));
+      // Explicit reviewers need to know there is something to review
+      if (event.toStatus === 'under_review') userIds.push(...task.reviewers.map((r) => r.userId));
+
+      const statusAr = TASK_STATUS_LABELS_AR[event.toStatus] || event.toStatus;
+      await this.notifications.dispatch(userIds, {
+        type: event.toStatus === 'completed' ? 'task_completed' : 'status_change',
+        title: 'Task Status Changed',
+        titleAr: 'تم تغيير حالة مهمة',
+        body: `Task "${task.title}" moved from ${event.fromStatus} to ${event.toStatus}`,
+        bodyAr: `المهمة "${task.titleAr}" أصبحت ${statusAr}`,
+        entityType: 'task',
+        entityId: task.id,
+        trackId: task.trackId || undefined,
+        senderId: event.actorId,
+      });
+    } catch (err) {
+      this.logger.error(`Failed to notify for task.status_changed: ${err.message}`);
+    }
+  }
+
+  @OnEvent(DomainEvents.TASK_REVIEWED, { async: true })
+  async onTaskReviewed(event: TaskReviewedEvent) {
+    try {
+      const task = await this.loadTask(event.taskId);
+      if (!task) return;
+
+      const userIds = task.assignments.map((a) => a.userId);
+      if (task.assigneeUserId) userIds.push(task.assigneeUserId);
+
+      const approved = event.decision === 'approve';
+      await this.notifications.dispatch(userIds, {
+        type: approved ? 'task_completed' : 'task_updated',
+        title: approved ? 'Task Approved' : 'Changes Requested',
+        titleAr: approved ? 'تم اعتماد المهمة' : 'مطلوب تعديلات على المهمة',
+        body: approved
+          ? `"${task.title}" was approved`
+          : `Changes were requested on "${task.title}"${event.comment ? `: ${event.comment}` : ''}`,
+        bodyAr: approved
+          ? `تم اعتماد المهمة "${task.titleAr}" بعد المراجعة`
+          : `طلب المراجع تعديلات على المهمة "${task.titleAr}"${event.comment ? `: ${event.comment}` : ''}`,
+        entityType: 'task',
+        entityId: task.id,
+        trackId: task.trackId || undefined,
+        senderId: event.actorId,
+      });
+    } catch (err) {
+      this.logger.error(`Failed to notify for task.reviewed: ${err.message}`);
+    }
+  }
+
+  @OnEvent(DomainEvents.COMMENT_CREATED, { async: true })
+  async onCommentCreated(event: CommentCreatedEvent) {
+    try {
+      const author = await this.prisma.user.findUnique({
+        where: { id: event.authorId },
+        select: { name: true, nameAr: true },
+      });
+      const authorName = author?.name || '';
+      const authorNameAr = author?.nameAr || authorName;
+
+      // Mentioned users get a dedicated notification instead of the generic one
+      const mentioned = await this.resolveMentions(event.mentions);
+      if (mentioned.length > 0) {
+        await this.notifications.dispatch(mentioned, {
+          type: 'mention',
+          title: 'You were mentioned',
+          titleAr: 'تمت الإشارة إليك',
+          body: `${authorName} mentioned you in a comment`,
+          bodyAr: `أشار إليك ${authorNameAr} في تعليق`,
+          entityType: event.entityType,
+          entityId: event.entityId,
+          senderId: event.authorId,
+        });
+      }
+
+      const participants = await this.threadParticipants(event);
+      const mentionedSet = new Set(mentioned);
+      await this.notifications.dispatch(
+        participants.filter((id) => !mentionedSet.has(id)),
+        {
+          type: 'comment',
+          title: 'New Comment',
+          titleAr: 'تعليق جديد',
+          body: `${authorName} added a comment`,
+          bodyAr: `أضاف ${authorNameAr} تعليقاً`,
+          entityType: event.entityType,
+          entityId: event.entityId,
+          senderId: event.authorId,
+        },
+      );
+    } catch (err) {
+      this.logger.error(`Failed to notify for comment.created: ${err.message}`);
+    }
+  }
+
+  @OnEvent(DomainEvents.DAILY_UPDATE_CREATED, { async: true })
+  async onDailyUpdateCreated(event: DailyUpdateCreatedEvent) {
+    try {
+      const update = await this.prisma.dailyUpdate.findUnique({
+        where: { id: event.updateId },
+        select: { id: true, title: true, titleAr: true, trackId: true },
+      });
+      if (!update) return;
+
+      // Track updates go to the track's members, global updates to everyone
+      const recipients = update.trackId
+        ? await this.prisma.trackPermission.findMany({
+            where: { trackId: update.trackId, user: { isActive: true } },
+            select: { userId: true },
+          })
+        : await this.prisma.user.findMany({
+            where: { isActive: true },
+            select: { id: true },
+          }).then((users) => users.map((u) => ({ userId: u.id })));
+
+      await this.notifications.dispatch(recipients.map((r) => r.userId), {
+        type: 'record_created',
+        title: 'New Update',
+        titleAr: 'تحديث جديد',
+        body: update.title,
+        bodyAr: update.titleAr,
+        entityType: 'daily_update',
+        entityId: update.id,
+        trackId: update.trackId || undefined,
+        senderId: event.authorId,
+      });
+    } catch (err) {
+      this.logger.error(`Failed to notify for daily_update.created: ${err.message}`);
+    }
+  }
+
+  // ─── RECIPIENT RESOLUTION ───
+
+  private loadTask(taskId: string) {
+    return this.prisma.task.findUnique({
+      where: { id: taskId },
+      include: { assignments: { select: { userId: true } }, reviewers: { select: { userId: true } } },
+    });
+  }
+
+  /** Direct assignee, TaskAssignment users and the creator. */
+  private taskParticipants(task: {
+    assigneeUserId: string | null;
+    createdById: string;
+    assignments: Array<{ userId: string }>;
+  }) {
+    const userIds = task.assignments.map((a) => a.userId);
+    if (task.assigneeUserId) userIds.push(task.assigneeUserId);
+    userIds.push(task.createdById);
+    return userIds;
+  }
+
+  private async trackLeads(trackId: string) {
+    const permissions = await this.prisma.trackPermission.findMany({
+      where: { trackId, user: { role: 'track_lead', isActive: true } },
+      select: { userId: true },
+    });
+    return permissions.map((p) => p.userId);
+  }
+
+  /**
+   * Mentions are the raw `@handle` tokens from the comment body; a handle
+   * matches a user id or the local part of the user's email.
+   */
+  private async resolveMentions(mentions: string[]) {
+    if (mentions.length === 0) return [];
+    const users = await this.prisma.user.findMany({
+      where: {
+        isActive: true,
+        OR: [
+          { id: { in: mentions } },
+          ...mentions.map((m) => ({ email: { startsWith: `${m}@`, mode: 'insensitive' as const } })),
+        ],
+      },
+      select: { id: true },
+    });
+    return users.map((u) => u.id);
+  }
+
+  /**
+   * Everyone who has taken part in the thread: the parent comment's author
+   * and other repliers, or for top-level comments the earlier commenters on
+   * the entity. Task comments also reach the task's participants.
+   */
+  private async threadParticipants(event: CommentCreatedEvent) {
+    const userIds: string[] = [];
+
+    const threadComments = await this.prisma.comment.findMany({
+      where: event.parentId
+        ? { OR: [{ id: event.parentId }, { parentId: event.parentId }] }
+        : { entityType: event.entityType, entityId: event.entityId, parentId: null },
+      select: { authorId: true },
+      distinct: ['authorId'],
+    });
+    userIds.push(...threadComments.map((c) => c.authorId));
+
+    if (event.entityType === 'task') {
+      const task = await this.loadTask(event.entityId);
+      if (task) userIds.push(...this.taskParticipants(task));
+    }
+
+    return userIds;
+  }
+}
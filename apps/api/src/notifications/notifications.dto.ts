@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsBoolean, IsEnum, MinLength } from 'class-validator';
+import { IsString, IsOptional, IsBoolean, IsEnum, IsIn, MinLength } from 'class-validator';
 
 export class CreateNotificationDto {
   @IsString()
@@ -55,6 +55,10 @@ export class UpdatePreferencesDto {
   @IsBoolean()
   emailEnabled?: boolean;
 
+  @IsOptional()
+  @IsIn(['immediate', 'daily_digest'])
+  emailFrequency?: string;
+
   @IsOptional()
   @IsBoolean()
   assignmentAlert?: boolean;
@@ -1,12 +1,16 @@
 import { Module } from '@nestjs/common';
 import { PrismaModule } from '../common/prisma.module';
+import { WebsocketModule } from '../websocket/websocket.module';
+import { MailModule } from '../mail/mail.module';
 import { NotificationsService } from './notifications.service';
 import { NotificationsController } from './notifications.controller';
+import { NotificationEventsListener } from './notification-events.listener';
+import { NotificationEmailService } from './notification-email.service';
 
 @Module({
-  imports: [PrismaModule],
+  imports: [PrismaModule, WebsocketModule, MailModule],
   controllers: [NotificationsController],
-  providers: [NotificationsService],
+  providers: [NotificationsService, NotificationEventsListener, NotificationEmailService],
   exports: [NotificationsService],
 })
 export class NotificationsModule {}
@@ -1,11 +1,37 @@
 import { Injectable, NotFoundException, Logger } from '@nestjs/common';
 import { PrismaService } from '../common/prisma.service';
+import { EventsGateway } from '../websocket/events.gateway';
+
+type PreferenceKey =
+  | 'assignmentAlert'
+  | 'commentAlert'
+  | 'mentionAlert'
+  | 'deadlineAlert'
+  | 'statusChangeAlert';
+
+// Which NotificationPreference flag gates each notification type.
+// Types not listed here (record_*, system) are always delivered.
+const PREFERENCE_BY_TYPE: Record<string, PreferenceKey> = {
+  assignment: 'assignmentAlert',
+  task_assigned: 'assignmentAlert',
+  comment: 'commentAlert',
+  mention: 'mentionAlert',
+  deadline_approaching: 'deadlineAlert',
+  deadline_overdue: 'deadlineAlert',
+  task_overdue: 'deadlineAlert',
+  status_change: 'statusChangeAlert',
+  task_updated: 'statusChangeAlert',
+  task_completed: 'statusChangeAlert',
+};
 
 @Injectable()
 export class NotificationsService {
   private readonly logger = new Logger(NotificationsService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private events: EventsGateway,
+  ) {}
 
   async create(data: {
     userId: string;
@@ -19,6 +45,9 @@ export class NotificationsService {
     trackId?: string;
     senderId?: string;
   }) {
+    const [recipient] = await this.filterByPreferences([data.userId], data.type);
+    if (!recipient) return null;
+
     try {
       const notification = await this.prisma.notification.create({
         data: {
@@ -58,8 +87,9 @@ export class NotificationsService {
       senderId?: string;
     },
   ) {
+    const recipients = await this.filterByPreferences(userIds, data.type);
     const notifications = await this.prisma.notification.createMany({
-      data: userIds.map((userId) => ({
+      data: recipients.map((userId) => ({
         userId,
         type: data.type as any,
         title: data.title,
@@ -75,6 +105,78 @@ export class NotificationsService {
     return notifications;
   }
 
+  /**
+   * Persist one notification per recipient and push each to the recipient's
+   * open sockets. Duplicates, the sender themselves and recipients who muted
+   * this type are dropped.
+   */
+  async dispatch(
+    userIds: string[],
+    data: {
+      type: string;
+      title: string;
+      titleAr: string;
+      body?: string;
+      bodyAr?: string;
+      entityType?: string;
+      entityId?: string;
+      trackId?: string;
+      senderId?: string;
+    },
+  ) {
+    const recipients = await this.filterByPreferences(
+      [...new Set(userIds)].filter((id) => id && id !== data.senderId),
+      data.type,
+    );
+    if (recipients.length === 0) return [];
+
+    const notifications = await this.prisma.$transaction(
+      recipients.map((userId) =>
+        this.prisma.notification.create({
+          data: {
+            userId,
+            type: data.type as any,
+            title: data.title,
+            titleAr: data.titleAr,
+            body: data.body,
+            bodyAr: data.bodyAr,
+            entityType: data.entityType,
+            entityId: data.entityId,
+            trackId: data.trackId,
+            senderId: data.senderId,
+          },
+          include: {
+            sender: { select: { id: true, name: true, nameAr: true } },
+          },
+        }),
+      ),
+    );
+
+    notifications.forEach((notification) => {
+      this.events.emitToUser(notification.userId, 'notification.new', notification);
+    });
+
+    return notifications;
+  }
+
+  /**
+   * Drop recipients who muted this notification type. Users without a
+   * preference row keep the schema defaults (everything on).
+   */
+  async filterByPreferences(userIds: string[], type: string) {
+    const key = PREFERENCE_BY_TYPE[type];
+    if (!key || userIds.length === 0) return userIds;
+
+    const muted = await this.prisma.notificationPreference.findMany({
+      where: { userId: { in: userIds }, [key]: false },
+      select: { userId: true },
+    });
+    if (muted.length === 0) return userIds;
+
+    const mutedIds = new Set(muted.map((p) => p.userId));
+    return userIds.filter((id) => !mutedIds.has(id));
+  }
+
   async findByUser(
     userId: string,
     params: { page?: number; pageSize?: number; unreadOnly?: boolean },
@@ -156,6 +258,7 @@ export class NotificationsService {
     userId: string,
     data: {
       emailEnabled?: boolean;
+      emailFrequency?: string;
       assignmentAlert?: boolean;
       commentAlert?: boolean;
       mentionAlert?: boolean;
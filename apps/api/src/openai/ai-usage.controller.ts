@@ -0,0 +1,20 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { OpenAIService } from './openai.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+
+@Controller('ai/usage')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin')
+export class AIUsageController {
+  constructor(private openai: OpenAIService) {}
+
+  @Get()
+  async getUsage(@Query('from') from?: string, @Query('to') to?: string) {
+    return {
+      provider: this.openai.providerName,
+      ...(await this.openai.getUsage({ from, to })),
+    };
+  }
+}
@@ -0,0 +1,42 @@
+/** Width of the `embeddings.embedding` pgvector column; every stored vector must match it. */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+export type ChatRole = 'system' | 'user' | 'assistant';
+
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ChatRequest {
+  model: string;
+  messages: ChatMessage[];
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface EmbeddingRequest {
+  model: string;
+  input: string[];
+  /** Requested vector width; only sent to models that support shortening. */
+  dimensions?: number;
+}
+
+/**
+ * A chat/embedding backend. Implementations only translate requests; model
+ * routing, retries of the caller and usage accounting live in OpenAIService.
+ */
+export interface LLMProvider {
+  readonly name: string;
+  chat(request: ChatRequest): Promise<{ content: string; usage?: TokenUsage }>;
+  embed(request: EmbeddingRequest): Promise<{ embeddings: number[][]; usage?: TokenUsage }>;
+}
+
+/** Features that can be routed to their own model (LLM_MODEL_<FEATURE>). */
+export type LLMFeature = 'reports' | 'analysis' | 'file_analysis' | 'embeddings' | 'general';
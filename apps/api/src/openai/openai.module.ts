@@ -1,8 +1,10 @@
 import { Module } from '@nestjs/common';
 import { OpenAIService } from './openai.service';
+import { AIUsageController } from './ai-usage.controller';
 
 @Module({
   providers: [OpenAIService],
+  controllers: [AIUsageController],
   exports: [OpenAIService],
 })
 export class OpenAIModule {}
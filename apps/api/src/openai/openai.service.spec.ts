@@ -0,0 +1,37 @@
+import { ConfigService } from '@nestjs/config';
+import { OpenAIService, EMBEDDING_DIMENSIONS } from './openai.service';
+
+function serviceWith(embed: jest.Mock) {
+  const prisma = { aIUsage: { create: jest.fn().mockResolvedValue({}) } } as any;
+  const service = new OpenAIService(new ConfigService({ LLM_PROVIDER: 'fake' }), prisma);
+  (service as any).provider = { name: 'local', embed };
+  return service;
+}
+
+const vectors = (size: number) => jest.fn().mockResolvedValue({ embeddings: [new Array(size).fill(0)] });
+
+describe('OpenAIService embedding dimensions', () => {
+  it('starts when the model fills the embeddings column', async () => {
+    await expect(serviceWith(vectors(EMBEDDING_DIMENSIONS)).onApplicationBootstrap()).resolves.toBeUndefined();
+  });
+
+  it('fails startup when the model returns vectors of another size', async () => {
+    await expect(serviceWith(vectors(768)).onApplicationBootstrap()).rejects.toThrow(
+      /returns 768-dimensional vectors.*holds 1536/,
+    );
+  });
+
+  it('does not fail startup when the provider is unreachable', async () => {
+    const service = serviceWith(jest.fn().mockRejectedValue(new Error('ECONNREFUSED')));
+    await expect(service.onApplicationBootstrap()).resolves.toBeUndefined();
+  });
+
+  it('rejects wrongly sized vectors on every embedding call', async () => {
+    await expect(serviceWith(vectors(768)).generateEmbeddings(['text'])).rejects.toThrow(/768-dimensional/);
+  });
+
+  it('accepts the fake provider', async () => {
+    const service = new OpenAIService(new ConfigService({ LLM_PROVIDER: 'fake' }), {} as any);
+    await expect(service.onApplicationBootstrap()).resolves.toBeUndefined();
+  });
+});
@@ -1,81 +1,219 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnApplicationBootstrap } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import OpenAI from 'openai';
+import OpenAI, { AzureOpenAI } from 'openai';
+import { PrismaService } from '../common/prisma.service';
+import { ChatMessage, LLMFeature, LLMProvider, TokenUsage, EMBEDDING_DIMENSIONS } from './llm-provider';
+import { OpenAIClientProvider } from './providers/openai-client.provider';
+import { FakeLLMProvider } from './providers/fake.provider';
 
+export { EMBEDDING_DIMENSIONS } from './llm-provider';
+
+/**
+ * Entry point for every LLM call. The backend is chosen by LLM_PROVIDER
+ * (openai, azure, local, fake); without it OpenAI is used when
+ * OPENAI_API_KEY is set. Models are routed per feature through
+ * LLM_MODEL_<FEATURE> and every call's token usage is recorded in ai_usage.
+ */
 @Injectable()
-export class OpenAIService {
-  private client: OpenAI | null = null;
+export class OpenAIService implements OnApplicationBootstrap {
+  private provider: LLMProvider | null = null;
   private logger = new Logger('OpenAIService');
 
-  constructor(private config: ConfigService) {
-    const apiKey = config.get<string>('OPENAI_API_KEY');
-    if (apiKey) {
-      this.client = new OpenAI({ apiKey });
-      this.logger.log('OpenAI client initialized');
+  constructor(
+    private config: ConfigService,
+    private prisma: PrismaService,
+  ) {
+    this.provider = this.createProvider();
+    if (this.provider) {
+      this.logger.log(`LLM provider initialized: ${this.provider.name}`);
     } else {
       this.logger.warn(
-        'OPENAI_API_KEY not set — AI features will be disabled',
+        'No LLM provider configured (LLM_PROVIDER / OPENAI_API_KEY) — AI features will be disabled',
       );
     }
   }
 
+  /**
+   * Fails startup when the embedding model's vectors do not fit the
+   * vector(EMBEDDING_DIMENSIONS) column, rather than on the first insert. An
+   * unreachable provider only logs: every embedding call checks again.
+   */
+  async onApplicationBootstrap() {
+    if (!this.provider) return;
+    const { model, dimensions } = this.embeddingModel();
+    let embeddings: number[][];
+    try {
+      ({ embeddings } = await this.provider.embed({ model, dimensions, input: ['dimension check'] }));
+    } catch (error) {
+      this.logger.warn(`Could not check embedding dimensions of ${model}: ${error.message}`);
+      return;
+    }
+    this.assertDimensions(model, embeddings);
+  }
+
   get isAvailable(): boolean {
-    return this.client !== null;
+    return this.provider !== null;
+  }
+
+  get providerName(): string | null {
+    return this.provider?.name ?? null;
   }
 
-  private ensureClient(): OpenAI {
-    if (!this.client) {
+  private createProvider(): LLMProvider | null {
+    const apiKey = this.config.get<string>('OPENAI_API_KEY');
+    const kind = this.config.get<string>('LLM_PROVIDER', apiKey ? 'openai' : '').toLowerCase();
+
+    switch (kind) {
+      case '':
+        return null;
+      case 'openai':
+        if (!apiKey) throw new Error('LLM_PROVIDER=openai requires OPENAI_API_KEY');
+        return new OpenAIClientProvider('openai', new OpenAI({ apiKey }));
+      case 'azure':
+        return new OpenAIClientProvider(
+          'azure',
+          new AzureOpenAI({
+            endpoint: this.config.getOrThrow<string>('AZURE_OPENAI_ENDPOINT'),
+            apiKey: this.config.getOrThrow<string>('AZURE_OPENAI_API_KEY'),
+            apiVersion: this.config.get<string>('AZURE_OPENAI_API_VERSION', '2024-10-21'),
+          }),
+        );
+      case 'local':
+        // Local servers usually ignore the key, but the SDK requires one
+        return new OpenAIClientProvider(
+          'local',
+          new OpenAI({
+            baseURL: this.config.get<string>('LLM_BASE_URL', 'http://localhost:11434/v1'),
+            apiKey: this.config.get<string>('LLM_API_KEY', 'local'),
+          }),
+        );
+      case 'fake':
+        return new FakeLLMProvider();
+      default:
+        throw new Error(`Unknown LLM_PROVIDER "${kind}" (expected openai, azure, local or fake)`);
+    }
+  }
+
+  private ensureProvider(): LLMProvider {
+    if (!this.provider) {
       throw new Error(
-        'OpenAI is not configured. Set the OPENAI_API_KEY environment variable to enable AI features.',
+        'AI is not configured. Set LLM_PROVIDER or the OPENAI_API_KEY environment variable to enable AI features.',
       );
     }
-    return this.client;
+    return this.provider;
+  }
+
+  /** LLM_MODEL_<FEATURE>, then LLM_MODEL (or the older OPENAI_MODEL), then gpt-4o. */
+  private chatModel(feature: LLMFeature) {
+    return (
+      this.config.get<string>(`LLM_MODEL_${feature.toUpperCase()}`) ||
+      this.config.get<string>('LLM_MODEL') ||
+      this.config.get<string>('OPENAI_MODEL', 'gpt-4o')
+    );
+  }
+
+  private embeddingModel() {
+    const model =
+      this.config.get<string>('LLM_MODEL_EMBEDDINGS') ||
+      this.config.get<string>('OPENAI_EMBEDDING_MODEL', 'text-embedding-3-small');
+    // text-embedding-3 models can be shortened to the column width; older models are fixed at 1536
+    return model.startsWith('text-embedding-3') ? { model, dimensions: EMBEDDING_DIMENSIONS } : { model };
+  }
+
+  private assertDimensions(model: string, embeddings: number[][]) {
+    const size = embeddings.find((e) => e.length !== EMBEDDING_DIMENSIONS)?.length;
+    if (size === undefined) return;
+    throw new Error(
+      `Embedding model "${model}" returns ${size}-dimensional vectors, but the embeddings column holds ` +
+        `${EMBEDDING_DIMENSIONS}. Set LLM_MODEL_EMBEDDINGS to a ${EMBEDDING_DIMENSIONS}-dimension model.`,
+    );
   }
 
   async chat(
-    messages: Array<{ role: 'system' | 'user' | 'assistant'; content: string }>,
-    options?: { model?: string; temperature?: number; maxTokens?: number },
+    messages: ChatMessage[],
+    options?: { feature?: LLMFeature; model?: string; temperature?: number; maxTokens?: number; userId?: string },
   ): Promise<string> {
+    const feature = options?.feature || 'general';
     try {
-      const client = this.ensureClient();
-      const response = await client.chat.completions.create({
-        model: options?.model || this.config.get('OPENAI_MODEL', 'gpt-4o'),
+      const provider = this.ensureProvider();
+      const model = options?.model || this.chatModel(feature);
+      const { content, usage } = await provider.chat({
+        model,
         messages,
         temperature: options?.temperature ?? 0.3,
-        max_tokens: options?.maxTokens || 4096,
+        maxTokens: options?.maxTokens || 4096,
       });
-      return response.choices[0]?.message?.content || '';
+      this.recordUsage(feature, model, usage, options?.userId);
+      return content;
     } catch (error) {
-      this.logger.error('OpenAI chat error', error);
+      this.logger.error(`LLM chat error (${feature})`, error);
       throw error;
     }
   }
 
   async generateEmbedding(text: string): Promise<number[]> {
-    try {
-      const client = this.ensureClient();
-      const response = await client.embeddings.create({
-        model: this.config.get('OPENAI_EMBEDDING_MODEL', 'text-embedding-3-small'),
-        input: text,
-      });
-      return response.data[0].embedding;
-    } catch (error) {
-      this.logger.error('OpenAI embedding error', error);
-      throw error;
-    }
+    const [embedding] = await this.generateEmbeddings([text]);
+    return embedding;
   }
 
   async generateEmbeddings(texts: string[]): Promise<number[][]> {
     try {
-      const client = this.ensureClient();
-      const response = await client.embeddings.create({
-        model: this.config.get('OPENAI_EMBEDDING_MODEL', 'text-embedding-3-small'),
-        input: texts,
-      });
-      return response.data.map((d) => d.embedding);
+      const provider = this.ensureProvider();
+      const { model, dimensions } = this.embeddingModel();
+      const { embeddings, usage } = await provider.embed({ model, dimensions, input: texts });
+      this.recordUsage('embeddings', model, usage);
+      this.assertDimensions(model, embeddings);
+      return embeddings;
     } catch (error) {
-      this.logger.error('OpenAI batch embedding error', error);
+      this.logger.error('LLM embedding error', error);
       throw error;
     }
   }
+
+  /** Token totals grouped by feature, provider and model. */
+  async getUsage(params: { from?: string; to?: string }) {
+    const createdAt: { gte?: Date; lte?: Date } = {};
+    if (params.from) createdAt.gte = new Date(params.from);
+    if (params.to) createdAt.lte = new Date(params.to);
+
+    const rows = await this.prisma.aIUsage.groupBy({
+      by: ['feature', 'provider', 'model'],
+      where: params.from || params.to ? { createdAt } : {},
+      _count: true,
+      _sum: { promptTokens: true, completionTokens: true, totalTokens: true },
+    });
+
+    const data = rows.map((r) => ({
+      feature: r.feature,
+      provider: r.provider,
+      model: r.model,
+      calls: r._count,
+      promptTokens: r._sum.promptTokens || 0,
+      completionTokens: r._sum.completionTokens || 0,
+      totalTokens: r._sum.totalTokens || 0,
+    }));
+
+    return {
+      data,
+      totalTokens: data.reduce((sum, r) => sum + r.totalTokens, 0),
+      calls: data.reduce((sum, r) => sum + r.calls, 0),
+    };
+  }
+
+  /** Fire-and-forget: accounting must never fail the AI call itself. */
+  private recordUsage(feature: LLMFeature, model: string, usage: TokenUsage | undefined, userId?: string) {
+    this.prisma.aIUsage
+      .create({
+        data: {
+          feature,
+          provider: this.provider!.name,
+          model,
+          promptTokens: usage?.promptTokens ?? 0,
+          completionTokens: usage?.completionTokens ?? 0,
+          totalTokens: usage?.totalTokens ?? 0,
+          userId: userId || null,
+        },
+      })
+      .catch((err) => this.logger.warn(`Failed to record AI usage: ${err.message}`));
+  }
 }
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { ChatRequest, EmbeddingRequest, LLMProvider, EMBEDDING_DIMENSIONS } from '../llm-provider';
+
+/**
+ * Offline provider for tests and local development (LLM_PROVIDER=fake).
+ * Output depends only on the input: chat echoes the last user message and
+ * embeddings are unit vectors seeded from a hash of the text, so identical
+ * texts always get similarity 1.
+ */
+export class FakeLLMProvider implements LLMProvider {
+  readonly name = 'fake';
+
+  async chat(request: ChatRequest) {
+    const lastUser = [...request.messages].reverse().find((m) => m.role === 'user');
+    const content = `[${request.model}] ${(lastUser?.content || '').slice(0, 200)}`;
+    const promptTokens = this.countTokens(request.messages.map((m) => m.content).join(' '));
+    const completionTokens = this.countTokens(content);
+    return {
+      content,
+      usage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    };
+  }
+
+  async embed(request: EmbeddingRequest) {
+    const dimensions = request.dimensions || EMBEDDING_DIMENSIONS;
+    const promptTokens = request.input.reduce((sum, text) => sum + this.countTokens(text), 0);
+    return {
+      embeddings: request.input.map((text) => this.vector(text, dimensions)),
+      usage: { promptTokens, completionTokens: 0, totalTokens: promptTokens },
+    };
+  }
+
+  private vector(text: string, dimensions: number) {
+    const values: number[] = [];
+    for (let block = 0; values.length < dimensions; block++) {
+      const digest = createHash('sha256').update(`${block}:${text}`).digest();
+      for (let i = 0; i < digest.length && values.length < dimensions; i++) {
+        values.push(digest[i] / 127.5 - 1);
+      }
+    }
+    const norm = Math.sqrt(values.reduce((sum, v) => sum + v * v, 0)) || 1;
+    return values.map((v) => v / norm);
+  }
+
+  /** Rough whitespace count; good enough for accounting in tests. */
+  private countTokens(text: string) {
+    return text.split(/\s+/).filter(Boolean).length;
+  }
+}
@@ -0,0 +1,43 @@
+import OpenAI from 'openai';
+import { ChatRequest, EmbeddingRequest, LLMProvider, TokenUsage } from '../llm-provider';
+
+/**
+ * Any backend spoken to through the OpenAI SDK: api.openai.com, Azure OpenAI
+ * (an AzureOpenAI client, where model names are deployment names) and
+ * OpenAI-compatible local servers such as Ollama or llama.cpp (baseURL).
+ */
+export class OpenAIClientProvider implements LLMProvider {
+  constructor(
+    readonly name: string,
+    private client: OpenAI,
+  ) {}
+
+  async chat(request: ChatRequest) {
+    const response = await this.client.chat.completions.create({
+      model: request.model,
+      messages: request.messages,
+      temperature: request.temperature,
+      max_tokens: request.maxTokens,
+    });
+    return {
+      content: response.choices[0]?.message?.content || '',
+      usage: response.usage && this.toUsage(response.usage.prompt_tokens, response.usage.completion_tokens),
+    };
+  }
+
+  async embed(request: EmbeddingRequest) {
+    const response = await this.client.embeddings.create({
+      model: request.model,
+      input: request.input,
+      ...(request.dimensions ? { dimensions: request.dimensions } : {}),
+    });
+    return {
+      embeddings: response.data.map((d) => d.embedding),
+      usage: response.usage && this.toUsage(response.usage.prompt_tokens, 0),
+    };
+  }
+
+  private toUsage(promptTokens: number, completionTokens: number): TokenUsage {
+    return { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens };
+  }
+}
@@ -2,7 +2,9 @@ import { Controller, Get, Post, Patch, Delete, Param, Body, Query, UseGuards, Re
 import { ReportsService } from './reports.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard, permittedTrackIds } from '../common/guards/track-permission.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { AuditService } from '../audit/audit.service';
 import { Request } from 'express';
@@ -16,7 +18,10 @@ export class ReportsController {
   ) {}
 
   @Get()
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { from: 'query' })
   findAll(
+    @CurrentUser() user: any,
     @Query('page') page?: string,
     @Query('pageSize') pageSize?: string,
     @Query('trackId') trackId?: string,
@@ -27,6 +32,7 @@ export class ReportsController {
       page: page ? +page : undefined,
       pageSize: pageSize ? +pageSize : undefined,
       trackId,
+      trackIds: permittedTrackIds(user, trackId),
       type,
       authorId,
     });
@@ -38,11 +44,15 @@ export class ReportsController {
   }
 
   @Get(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { entity: 'report' })
   findOne(@Param('id') id: string) {
     return this.reports.findById(id);
   }
 
   @Post()
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('create')
   async create(@Body() body: any, @CurrentUser() user: any, @Req() req: Request) {
     const report = await this.reports.create({ ...body, authorId: user.id });
     await this.audit.log({
@@ -58,6 +68,8 @@ export class ReportsController {
   }
 
   @Patch(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('edit', { entity: 'report' })
   async update(@Param('id') id: string, @Body() body: any, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.reports.findById(id);
     const report = await this.reports.update(id, body);
@@ -74,8 +86,9 @@ export class ReportsController {
   }
 
   @Delete(':id')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('delete', { entity: 'report' })
   async delete(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.reports.findById(id);
     const result = await this.reports.delete(id);
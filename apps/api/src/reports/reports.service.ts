@@ -1,20 +1,28 @@
 import { Injectable, NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import { PrismaService } from '../common/prisma.service';
+import { DomainEvents } from '../common/events/domain-events';
 
 @Injectable()
 export class ReportsService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private eventBus: EventEmitter2,
+  ) {}
 
   async findAll(params: {
     page?: number;
     pageSize?: number;
     trackId?: string;
+    // Tracks to limit the list to when no trackId is given; null for all
+    trackIds?: string[] | null;
     type?: string;
     authorId?: string;
   }) {
-    const { page = 1, pageSize = 25, trackId, type, authorId } = params;
+    const { page = 1, pageSize = 25, trackId, trackIds, type, authorId } = params;
     const where: any = {};
     if (trackId) where.trackId = trackId;
+    else if (trackIds) where.trackId = { in: trackIds };
     if (type) where.type = type;
     if (authorId) where.authorId = authorId;
 
@@ -62,7 +70,7 @@ export class ReportsService {
     // Generate AI summary
     const aiSummary = this.generateAISummary(data);
 
-    return this.prisma.report.create({
+    const report = await this.prisma.report.create({
       data: {
         ...data,
         reportDate: data.reportDate ? new Date(data.reportDate) : new Date(),
@@ -73,20 +81,27 @@ export class ReportsService {
         track: { select: { id: true, nameAr: true, color: true } },
       },
     });
+
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'report', entityIds: [report.id] });
+    return report;
   }
 
   async update(id: string, data: any) {
     await this.findById(id);
     const aiSummary = this.generateAISummary(data);
-    return this.prisma.report.update({
+    const report = await this.prisma.report.update({
       where: { id },
       data: { ...data, aiSummary },
     });
+
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'report', entityIds: [id] });
+    return report;
   }
 
   async delete(id: string) {
     await this.findById(id);
     await this.prisma.report.delete({ where: { id } });
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'report', entityIds: [id] });
     return { message: 'تم حذف التقرير' };
   }
 
@@ -15,7 +15,9 @@ import { AuditService } from '../audit/audit.service';
 import { EventsGateway } from '../websocket/events.gateway';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard } from '../common/guards/track-permission.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import {
   CreateScopeBlockDto,
@@ -35,23 +37,30 @@ export class ScopeBlocksController {
   ) {}
 
   @Get('track/:trackId')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view')
   findByTrack(@Param('trackId') trackId: string) {
     return this.scopeBlocks.findByTrack(trackId);
   }
 
   @Get('track/:trackId/stats')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view')
   getStats(@Param('trackId') trackId: string) {
     return this.scopeBlocks.getStats(trackId);
   }
 
   @Get(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { entity: 'scopeBlock' })
   findById(@Param('id') id: string) {
     return this.scopeBlocks.findById(id);
   }
 
   @Post()
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('create')
   async create(@Body() dto: CreateScopeBlockDto, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.scopeBlocks.create(dto);
     await this.audit.log({
@@ -67,8 +76,9 @@ export class ScopeBlocksController {
   }
 
   @Patch('reorder')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('edit', { entity: 'scopeBlock', from: 'body', key: 'blocks' })
   async reorder(@Body() dto: ReorderBlocksDto, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.scopeBlocks.reorderBlocks(dto.blocks);
     await this.audit.log({
@@ -82,8 +92,9 @@ export class ScopeBlocksController {
   }
 
   @Patch(':id/progress')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('edit', { entity: 'scopeBlock' })
   async updateProgress(
     @Param('id') id: string,
     @Body() dto: UpdateScopeBlockProgressDto,
@@ -107,8 +118,9 @@ export class ScopeBlocksController {
   }
 
   @Patch(':id')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('edit', { entity: 'scopeBlock' })
   async update(
     @Param('id') id: string,
     @Body() dto: UpdateScopeBlockDto,
@@ -132,8 +144,9 @@ export class ScopeBlocksController {
   }
 
   @Delete(':id')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('delete', { entity: 'scopeBlock' })
   async delete(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.scopeBlocks.findById(id);
     const result = await this.scopeBlocks.delete(id);
@@ -150,8 +163,9 @@ export class ScopeBlocksController {
   }
 
   @Post('import')
-  @UseGuards(RolesGuard)
+  @UseGuards(RolesGuard, TrackPermissionGuard)
   @Roles('admin', 'pm')
+  @RequireTrackPermission('create')
   async importFromText(@Body() dto: ImportScopeTextDto, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.scopeBlocks.importFromText(dto.trackId, dto.text);
     await this.audit.log({
@@ -1,4 +1,4 @@
-import { IsString, IsOptional, IsNumber, Min, Max, IsArray, ValidateNested } from 'class-validator';
+import { IsString, IsOptional, IsNumber, IsIn, Min, Max, IsArray, ValidateNested } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class CreateScopeBlockDto {
@@ -29,6 +29,10 @@ export class CreateScopeBlockDto {
   @Max(100)
   progress?: number;
 
+  @IsOptional()
+  @IsIn(['auto', 'manual'])
+  progressMode?: 'auto' | 'manual';
+
   @IsOptional()
   @IsString()
   status?: string;
@@ -61,6 +65,10 @@ export class UpdateScopeBlockDto {
   @Max(100)
   progress?: number;
 
+  @IsOptional()
+  @IsIn(['auto', 'manual'])
+  progressMode?: 'auto' | 'manual';
+
   @IsOptional()
   @IsString()
   status?: string;
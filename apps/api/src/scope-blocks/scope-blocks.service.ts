@@ -1,20 +1,32 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, NotFoundException, BadRequestException } from '@nestjs/common';
 import { PrismaService } from '../common/prisma.service';
+import { EventsGateway } from '../websocket/events.gateway';
 import { CreateScopeBlockDto, UpdateScopeBlockDto, UpdateScopeBlockProgressDto } from './scope-blocks.dto';
 
+// Live tasks count toward a block's rollup; cancelled ones are out of scope and
+// subtasks count through their parent's rolled-up progress
+const ROLLUP_TASK_WHERE = { isDeleted: false, status: { not: 'cancelled' as const }, parentId: null };
+
 @Injectable()
 export class ScopeBlocksService {
   private readonly logger = new Logger(ScopeBlocksService.name);
 
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private ws: EventsGateway,
+  ) {}
+
+  private readonly taskCount = { _count: { select: { tasks: { where: ROLLUP_TASK_WHERE } } } };
 
   async findByTrack(trackId: string) {
     return this.prisma.scopeBlock.findMany({
       where: { trackId, parentId: null },
       include: {
+        ...this.taskCount,
         children: {
           include: {
-            children: true,
+            ...this.taskCount,
+            children: { include: this.taskCount },
           },
           orderBy: { orderIndex: 'asc' },
         },
@@ -27,9 +39,11 @@ export class ScopeBlocksService {
     return this.prisma.scopeBlock.findUnique({
       where: { id },
       include: {
+        ...this.taskCount,
         children: {
           include: {
-            children: true,
+            ...this.taskCount,
+            children: { include: this.taskCount },
           },
           orderBy: { orderIndex: 'asc' },
         },
@@ -38,7 +52,7 @@ export class ScopeBlocksService {
   }
 
   async create(data: CreateScopeBlockDto) {
-    return this.prisma.scopeBlock.create({
+    const block = await this.prisma.scopeBlock.create({
       data: {
         trackId: data.trackId,
         code: data.code,
@@ -47,19 +61,35 @@ export class ScopeBlocksService {
         parentId: data.parentId,
         orderIndex: data.orderIndex ?? 0,
         progress: data.progress ?? 0,
+        progressMode: data.progressMode ?? 'auto',
         status: data.status ?? 'pending',
       },
     });
+    if (block.parentId) await this.recalculateTrack(block.trackId);
+    return block;
   }
 
   async update(id: string, data: UpdateScopeBlockDto) {
-    return this.prisma.scopeBlock.update({
+    const block = await this.prisma.scopeBlock.update({
       where: { id },
       data,
     });
+    // Mode, parent or progress may have changed; re-derive and return fresh values
+    await this.recalculateTrack(block.trackId);
+    return this.prisma.scopeBlock.findUniqueOrThrow({ where: { id } });
   }
 
   async updateProgress(id: string, data: UpdateScopeBlockProgressDto) {
+    const block = await this.prisma.scopeBlock.findUnique({
+      where: { id },
+      include: { _count: { select: { children: true, tasks: { where: ROLLUP_TASK_WHERE } } } },
+    });
+    if (!block) throw new NotFoundException('البند غير موجود');
+    // An auto block with nothing to roll up keeps whatever is set by hand
+    if (block.progressMode === 'auto' && (block._count.children > 0 || block._count.tasks > 0)) {
+      throw new BadRequestException('تقدم هذا البند يُحسب تلقائياً من المهام والبنود الفرعية، حوّله إلى الوضع اليدوي أولاً');
+    }
+
     const updateData: any = { progress: data.progress };
     if (data.status) updateData.status = data.status;
 
@@ -68,39 +98,125 @@ export class ScopeBlocksService {
       data: updateData,
     });
 
-    // Propagate progress to parent
+    // Propagate progress to ancestors
     if (updated.parentId) {
-      await this.recalculateParentProgress(updated.parentId);
+      await this.recalculateTrack(updated.trackId);
     }
 
     return updated;
   }
 
-  private async recalculateParentProgress(parentId: string) {
-    const children = await this.prisma.scopeBlock.findMany({
-      where: { parentId },
-      select: { progress: true },
+  /** Recalculates the tracks of the given blocks (e.g. a task's old and new block). */
+  async recalculateForBlocks(blockIds: Array<string | null | undefined>) {
+    const ids = [...new Set(blockIds.filter((id): id is string => !!id))];
+    if (ids.length === 0) return;
+
+    const blocks = await this.prisma.scopeBlock.findMany({
+      where: { id: { in: ids } },
+      select: { trackId: true },
     });
+    for (const trackId of new Set(blocks.map((b) => b.trackId))) {
+      await this.recalculateTrack(trackId);
+    }
+  }
 
-    if (children.length === 0) return;
+  /**
+   * Re-derives progress of every auto block in a track, bottom-up. A block's
+   * progress is the weighted average of its linked tasks (Task.weight) and
+   * its child blocks, where a child weighs as much as the task weight beneath
+   * it (1 when it has none). Manual blocks and auto blocks with nothing to
+   * roll up keep their stored progress but still feed their parent.
+   */
+  async recalculateTrack(trackId: string) {
+    const [blocks, tasks] = await Promise.all([
+      this.prisma.scopeBlock.findMany({
+        where: { trackId },
+        select: { id: true, parentId: true, progress: true, progressMode: true, status: true },
+      }),
+      this.prisma.task.findMany({
+        where: { ...ROLLUP_TASK_WHERE, scopeBlock: { trackId } },
+        select: { scopeBlockId: true, progress: true, weight: true },
+      }),
+    ]);
 
-    const avgProgress = children.reduce((sum, c) => sum + c.progress, 0) / children.length;
+    const childrenOf = new Map<string, typeof blocks>();
+    for (const block of blocks) {
+      if (!block.parentId) continue;
+      if (!childrenOf.has(block.parentId)) childrenOf.set(block.parentId, []);
+      childrenOf.get(block.parentId)!.push(block);
+    }
+    const tasksOf = new Map<string, typeof tasks>();
+    for (const task of tasks) {
+      if (!tasksOf.has(task.scopeBlockId!)) tasksOf.set(task.scopeBlockId!, []);
+      tasksOf.get(task.scopeBlockId!)!.push(task);
+    }
 
-    const parent = await this.prisma.scopeBlock.update({
-      where: { id: parentId },
-      data: { progress: Math.round(avgProgress * 100) / 100 },
-    });
+    const rolled = new Map<string, { progress: number; weight: number }>();
+    const visiting = new Set<string>();
+    const rollUp = (block: (typeof blocks)[number]): { progress: number; weight: number } => {
+      const cached = rolled.get(block.id);
+      if (cached) return cached;
+      // A parent cycle must not recurse forever; treat the repeat as a leaf
+      if (visiting.has(block.id)) return { progress: block.progress, weight: 0 };
+      visiting.add(block.id);
+
+      const items = (tasksOf.get(block.id) || [])
+        .filter((t) => t.weight > 0)
+        .map((t) => ({ progress: t.progress, weight: t.weight }));
+      let subtreeWeight = items.reduce((sum, i) => sum + i.weight, 0);
+      for (const child of childrenOf.get(block.id) || []) {
+        const result = rollUp(child);
+        items.push({ progress: result.progress, weight: result.weight || 1 });
+        subtreeWeight += result.weight;
+      }
 
-    // Recursively propagate up
-    if (parent.parentId) {
-      await this.recalculateParentProgress(parent.parentId);
+      const totalWeight = items.reduce((sum, i) => sum + i.weight, 0);
+      const progress = block.progressMode === 'auto' && totalWeight > 0
+        ? Math.round((items.reduce((sum, i) => sum + i.progress * i.weight, 0) / totalWeight) * 100) / 100
+        : block.progress;
+
+      const result = { progress, weight: subtreeWeight };
+      rolled.set(block.id, result);
+      return result;
+    };
+
+    const changes = blocks
+      .filter((b) => b.progressMode === 'auto')
+      .map((b) => {
+        const progress = rollUp(b).progress;
+        return { id: b.id, progress, status: this.derivedStatus(b.status, progress), before: b };
+      })
+      .filter((c) => c.progress !== c.before.progress || c.status !== c.before.status);
+
+    if (changes.length === 0) return { updated: 0 };
+
+    const updated = await this.prisma.$transaction(
+      changes.map((c) => this.prisma.scopeBlock.update({
+        where: { id: c.id },
+        data: { progress: c.progress, status: c.status },
+      })),
+    );
+    for (const block of updated) {
+      this.ws.emitToTrack(trackId, 'scopeBlock.progress', block);
     }
+
+    return { updated: updated.length };
+  }
+
+  /** Completed at 100%; otherwise keep the status unless it contradicts the progress. */
+  private derivedStatus(status: string, progress: number) {
+    if (progress >= 100) return 'completed';
+    if (status === 'completed') return progress > 0 ? 'in_progress' : 'pending';
+    if (status === 'pending' && progress > 0) return 'in_progress';
+    return status;
   }
 
   async delete(id: string) {
-    return this.prisma.scopeBlock.delete({
+    const block = await this.prisma.scopeBlock.delete({
       where: { id },
     });
+    await this.recalculateTrack(block.trackId);
+    return block;
   }
 
   async importFromText(trackId: string, text: string) {
@@ -0,0 +1,37 @@
+import { BadRequestException } from '@nestjs/common';
+import { SearchController } from './search.controller';
+
+describe('SearchController.semanticSearch', () => {
+  let semanticSearch: jest.Mock;
+  let controller: SearchController;
+
+  beforeEach(() => {
+    semanticSearch = jest.fn().mockResolvedValue({ results: [], total: 0 });
+    controller = new SearchController({} as any, { semanticSearch } as any);
+  });
+
+  const search = (minSimilarity?: string) =>
+    controller.semanticSearch('water supply', undefined, undefined, undefined, minSimilarity, { id: 'u1' });
+  const passed = () => semanticSearch.mock.calls[0][1].minSimilarity;
+
+  it('passes a valid threshold on', async () => {
+    await search('0.42');
+    expect(passed()).toBe(0.42);
+  });
+
+  it('uses the default when none is given', async () => {
+    await search();
+    expect(passed()).toBeUndefined();
+  });
+
+  it('clamps the threshold to [0, 1]', async () => {
+    await search('1.5');
+    await search('-0.2');
+    expect(semanticSearch.mock.calls.map((c) => c[1].minSimilarity)).toEqual([1, 0]);
+  });
+
+  it('rejects a threshold that is not a number', async () => {
+    await expect(search('abc')).rejects.toThrow(BadRequestException);
+    expect(semanticSearch).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,4 @@
-import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { BadRequestException, Controller, Get, Query, UseGuards } from '@nestjs/common';
 import { SearchService } from './search.service';
 import { EmbeddingsService } from '../embeddings/embeddings.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
@@ -38,8 +38,10 @@ export class SearchController {
     @Query('trackId') trackId?: string,
     @Query('types') types?: string,
     @Query('limit') limit?: string,
+    @Query('minSimilarity') minSimilarity?: string,
     @CurrentUser() user?: any,
   ) {
+    const parsedSimilarity = parseSimilarity(minSimilarity);
     if (!q || q.trim().length < 2) {
       return { results: [], total: 0 };
     }
@@ -50,6 +52,18 @@ export class SearchController {
       trackId,
       types: parsedTypes,
       limit: limit ? +limit : 20,
+      minSimilarity: parsedSimilarity,
+      user,
     });
   }
 }
+
+/** A cosine similarity threshold, clamped to [0, 1]; undefined when not given. */
+function parseSimilarity(value?: string) {
+  if (value === undefined || value.trim() === '') return undefined;
+  const similarity = Number(value);
+  if (!Number.isFinite(similarity)) {
+    throw new BadRequestException('قيمة الحد الأدنى للتشابه يجب أن تكون رقماً');
+  }
+  return Math.min(1, Math.max(0, similarity));
+}
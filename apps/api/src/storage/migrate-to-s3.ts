@@ -0,0 +1,167 @@
+/**
+ * Copies every locally stored upload into the configured S3 bucket and points
+ * the records at the new object keys.
+ *
+ *   npm run storage:migrate-s3 -- [--dry-run] [--delete-local]
+ *
+ * Requires S3_BUCKET and credentials; STORAGE_PROVIDER itself may still be
+ * LOCAL while migrating. Covers daily update attachments, task files,
+ * uploaded files and comment/task update attachments. Rows are updated one by
+ * one, so the command can be re-run after a partial failure.
+ */
+import { Module, Logger } from '@nestjs/common';
+import { NestFactory } from '@nestjs/core';
+import { ConfigModule } from '@nestjs/config';
+import { existsSync, unlinkSync } from 'fs';
+import { PrismaModule } from '../common/prisma.module';
+import { PrismaService } from '../common/prisma.service';
+import { StorageModule } from './storage.module';
+import { StorageService, StorageFolder } from './storage.service';
+
+@Module({
+  imports: [ConfigModule.forRoot({ isGlobal: true }), PrismaModule, StorageModule],
+})
+class StorageMigrationModule {}
+
+interface LocalRecord {
+  label: string;
+  folder: StorageFolder;
+  id: string;
+  path: string;
+  mimeType: string;
+  save: (storagePath: string) => Promise<unknown>;
+}
+
+async function bootstrap() {
+  const dryRun = process.argv.includes('--dry-run');
+  const deleteLocal = process.argv.includes('--delete-local');
+  const logger = new Logger('StorageMigration');
+
+  const app = await NestFactory.createApplicationContext(StorageMigrationModule, { logger: ['log', 'warn', 'error'] });
+  const prisma = app.get(PrismaService);
+  const storage = app.get(StorageService);
+
+  if (!storage.s3Configured) {
+    logger.error('S3_BUCKET is not configured');
+    await app.close();
+    process.exit(1);
+  }
+
+  const [dailyUpdateAttachments, taskFiles, uploadedFiles, attachments] = await Promise.all([
+    prisma.dailyUpdateAttachment.findMany({
+      where: { storageProvider: 'LOCAL' },
+      select: { id: true, storagePath: true, mimeType: true },
+    }),
+    prisma.taskFile.findMany({
+      where: { storageProvider: 'LOCAL' },
+      select: { id: true, filePath: true, mimeType: true },
+    }),
+    prisma.uploadedFile.findMany({
+      where: { storageProvider: 'LOCAL' },
+      select: { id: true, filePath: true, mimeType: true },
+    }),
+    prisma.attachment.findMany({
+      where: { storageProvider: 'LOCAL' },
+      select: { id: true, storagePath: true, mimeType: true },
+    }),
+  ]);
+
+  const records: LocalRecord[] = [
+    ...dailyUpdateAttachments.map((a) => ({
+      label: 'Daily update attachment',
+      folder: 'daily-updates' as const,
+      id: a.id,
+      path: a.storagePath,
+      mimeType: a.mimeType,
+      save: (storagePath: string) =>
+        prisma.dailyUpdateAttachment.update({ where: { id: a.id }, data: { storagePath, storageProvider: 'S3' } }),
+    })),
+    ...taskFiles.map((f) => ({
+      label: 'Task file',
+      folder: 'tasks' as const,
+      id: f.id,
+      path: f.filePath,
+      mimeType: f.mimeType,
+      save: (filePath: string) => prisma.taskFile.update({ where: { id: f.id }, data: { filePath, storageProvider: 'S3' } }),
+    })),
+    ...uploadedFiles.map((f) => ({
+      label: 'Uploaded file',
+      folder: 'files' as const,
+      id: f.id,
+      path: f.filePath,
+      mimeType: f.mimeType,
+      save: (filePath: string) =>
+        prisma.uploadedFile.update({ where: { id: f.id }, data: { filePath, storageProvider: 'S3' } }),
+    })),
+    ...attachments.map((a) => ({
+      label: 'Attachment',
+      folder: 'attachments' as const,
+      id: a.id,
+      path: a.storagePath,
+      mimeType: a.mimeType,
+      save: (storagePath: string) =>
+        prisma.attachment.update({ where: { id: a.id }, data: { storagePath, storageProvider: 'S3' } }),
+    })),
+  ];
+
+  // Uploads are deduplicated by checksum, so rows of any table can share a
+  // file: copy each file once, repoint every row using it, then unlink it
+  const byPath = new Map<string, LocalRecord[]>();
+  for (const record of records) {
+    if (!byPath.has(record.path)) byPath.set(record.path, []);
+    byPath.get(record.path)!.push(record);
+  }
+
+  let migrated = 0;
+  let skipped = 0;
+  let failed = 0;
+
+  for (const [path, rows] of byPath) {
+    // Registered files only carry metadata; nothing to copy
+    if (!path || path === 'external' || !existsSync(path)) {
+      skipped += rows.length;
+      continue;
+    }
+    if (dryRun) {
+      migrated += rows.length;
+      continue;
+    }
+
+    let stored: { storagePath: string };
+    try {
+      stored = await storage.copyLocalToS3(path, rows[0].folder, rows[0].mimeType);
+    } catch (err) {
+      failed += rows.length;
+      logger.warn(`${path}: ${err.message}`);
+      continue;
+    }
+
+    let allSaved = true;
+    for (const row of rows) {
+      try {
+        await row.save(stored.storagePath);
+        migrated++;
+      } catch (err) {
+        allSaved = false;
+        failed++;
+        logger.warn(`${row.label} ${row.id}: ${err.message}`);
+      }
+    }
+    // A row left LOCAL still needs the file; a re-run copies it again
+    if (deleteLocal && allSaved) {
+      try { unlinkSync(path); } catch {}
+    }
+  }
+
+  logger.log(
+    `${records.length} records in ${byPath.size} files: ${migrated} ${dryRun ? 'to migrate' : 'migrated'}, ` +
+      `${skipped} skipped, ${failed} failed`,
+  );
+
+  await app.close();
+}
+
+bootstrap().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
@@ -1,52 +1,104 @@
-import { Injectable, Logger } from '@nestjs/common';
+import { Injectable, Logger, OnModuleInit, NotFoundException } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { join, extname } from 'path';
+import {
+  S3Client,
+  PutObjectCommand,
+  GetObjectCommand,
+  DeleteObjectCommand,
+  HeadBucketCommand,
+  CreateBucketCommand,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { join, extname, resolve as pathResolve, sep } from 'path';
 import { randomUUID } from 'crypto';
+import { Readable } from 'stream';
 import * as fs from 'fs';
 
+export type StorageProvider = 'LOCAL' | 'S3';
+
+/** Top-level folder (local sub-directory / S3 key prefix) per kind of upload. */
+export type StorageFolder = 'daily-updates' | 'tasks' | 'files' | 'attachments';
+
 export interface StoredFile {
   storedName: string;
   storagePath: string;
-  storageProvider: 'LOCAL' | 'S3';
+  storageProvider: StorageProvider;
 }
 
+/**
+ * Single storage abstraction for every upload (daily update attachments,
+ * task files, track files). LOCAL stores under UPLOAD_ROOT, S3 talks to any
+ * S3-compatible endpoint (AWS, MinIO, R2). Records keep the provider they
+ * were written with, so reads keep working after STORAGE_PROVIDER changes.
+ */
 @Injectable()
-export class StorageService {
+export class StorageService implements OnModuleInit {
   private readonly logger = new Logger(StorageService.name);
-  private readonly provider: 'LOCAL' | 'S3';
-  private readonly uploadDir: string;
-  private readonly s3Endpoint?: string;
+  private readonly provider: StorageProvider;
+  private readonly uploadRoot: string;
+  private readonly s3?: S3Client;
+  private readonly s3Presigner?: S3Client;
   private readonly s3Bucket?: string;
-  private readonly s3AccessKey?: string;
-  private readonly s3SecretKey?: string;
-  private readonly s3Region?: string;
+  private readonly presignExpiresSeconds: number;
 
   constructor(private config: ConfigService) {
-    this.provider = (config.get<string>('STORAGE_PROVIDER', 'LOCAL') as 'LOCAL' | 'S3');
-    this.uploadDir = config.get<string>('UPLOAD_DIR', join(process.cwd(), 'uploads', 'daily-updates'));
+    this.provider = (config.get<string>('STORAGE_PROVIDER', 'LOCAL') as StorageProvider);
+    this.uploadRoot = pathResolve(config.get<string>('UPLOAD_ROOT', join(process.cwd(), 'uploads')));
+    this.presignExpiresSeconds = parseInt(config.get<string>('S3_PRESIGN_EXPIRES', '300'), 10);
+
+    this.s3Bucket = config.get<string>('S3_BUCKET');
+    if (this.s3Bucket) {
+      const endpoint = config.get<string>('S3_ENDPOINT');
+      const clientConfig = {
+        region: config.get<string>('S3_REGION', 'us-east-1'),
+        credentials: {
+          accessKeyId: config.get<string>('S3_ACCESS_KEY', ''),
+          secretAccessKey: config.get<string>('S3_SECRET_KEY', ''),
+        },
+        // MinIO and most self-hosted endpoints only support path-style URLs
+        forcePathStyle: config.get<string>('S3_FORCE_PATH_STYLE', endpoint ? 'true' : 'false') === 'true',
+      };
+      this.s3 = new S3Client({ ...clientConfig, endpoint });
+      // Presigned URLs are opened by browsers, which may reach the endpoint under another host
+      const publicEndpoint = config.get<string>('S3_PUBLIC_ENDPOINT');
+      this.s3Presigner = publicEndpoint ? new S3Client({ ...clientConfig, endpoint: publicEndpoint }) : this.s3;
+    }
 
-    if (this.provider === 'S3') {
-      this.s3Endpoint = config.get<string>('S3_ENDPOINT');
-      this.s3Bucket = config.get<string>('S3_BUCKET');
-      this.s3AccessKey = config.get<string>('S3_ACCESS_KEY');
-      this.s3SecretKey = config.get<string>('S3_SECRET_KEY');
-      this.s3Region = config.get<string>('S3_REGION', 'auto');
+    if (this.provider === 'S3' && !this.s3) {
+      throw new Error('STORAGE_PROVIDER=S3 requires S3_BUCKET (and S3_ACCESS_KEY / S3_SECRET_KEY)');
     }
 
-    // Ensure local upload directory exists
-    if (this.provider === 'LOCAL') {
-      fs.mkdirSync(this.uploadDir, { recursive: true });
+    fs.mkdirSync(this.uploadRoot, { recursive: true });
+  }
+
+  async onModuleInit() {
+    if (this.provider === 'S3') {
+      await this.ensureBucket();
     }
   }
 
-  async upload(file: Express.Multer.File): Promise<StoredFile> {
+  get defaultProvider(): StorageProvider {
+    return this.provider;
+  }
+
+  get s3Configured(): boolean {
+    return !!this.s3;
+  }
+
+  async upload(file: Express.Multer.File, folder: StorageFolder = 'daily-updates'): Promise<StoredFile> {
     const ext = extname(file.originalname).toLowerCase();
     const storedName = `${randomUUID()}${ext}`;
 
     if (this.provider === 'S3') {
-      return this.uploadToS3(file, storedName);
+      const body = file.path ? fs.createReadStream(file.path) : file.buffer;
+      const stored = await this.uploadToS3(body, `${folder}/${storedName}`, file.mimetype, file.size, storedName);
+      // Clean up multer temp file
+      if (file.path) {
+        try { fs.unlinkSync(file.path); } catch {}
+      }
+      return stored;
     }
-    return this.uploadToLocal(file, storedName);
+    return this.uploadToLocal(file, folder, storedName);
   }
 
   async delete(storagePath: string, provider: string): Promise<void> {
@@ -56,17 +108,44 @@ export class StorageService {
     return this.deleteFromLocal(storagePath);
   }
 
-  async getStream(storagePath: string, provider: string): Promise<fs.ReadStream> {
+  async getStream(storagePath: string, provider: string): Promise<Readable> {
     if (provider === 'S3') {
       return this.getStreamFromS3(storagePath);
     }
     return this.getStreamFromLocal(storagePath);
   }
 
+  /**
+   * Short-lived presigned GET URL for S3 objects; null for local files,
+   * which callers stream themselves.
+   */
+  async getDownloadUrl(storagePath: string, provider: string, fileName: string): Promise<string | null> {
+    if (provider !== 'S3') return null;
+    return getSignedUrl(
+      this.requireS3(this.s3Presigner),
+      new GetObjectCommand({
+        Bucket: this.s3Bucket,
+        Key: storagePath,
+        ResponseContentDisposition: `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`,
+      }),
+      { expiresIn: this.presignExpiresSeconds },
+    );
+  }
+
+  /** Copies a local file into S3 under `folder`; the local file is left in place. */
+  async copyLocalToS3(localPath: string, folder: StorageFolder, mimeType: string): Promise<StoredFile> {
+    const resolvedPath = this.resolveLocalPath(localPath);
+    const storedName = `${randomUUID()}${extname(resolvedPath).toLowerCase()}`;
+    const { size } = fs.statSync(resolvedPath);
+    return this.uploadToS3(fs.createReadStream(resolvedPath), `${folder}/${storedName}`, mimeType, size, storedName);
+  }
+
   // ─── LOCAL STORAGE ───
 
-  private async uploadToLocal(file: Express.Multer.File, storedName: string): Promise<StoredFile> {
-    const storagePath = join(this.uploadDir, storedName);
+  private async uploadToLocal(file: Express.Multer.File, folder: StorageFolder, storedName: string): Promise<StoredFile> {
+    const dir = join(this.uploadRoot, folder);
+    fs.mkdirSync(dir, { recursive: true });
+    const storagePath = join(dir, storedName);
 
     // file.path exists if multer used diskStorage, otherwise use buffer
     if (file.path) {
@@ -83,43 +162,85 @@ export class StorageService {
   private async deleteFromLocal(storagePath: string): Promise<void> {
     try {
       if (fs.existsSync(storagePath)) {
-        fs.unlinkSync(storagePath);
+        fs.unlinkSync(this.resolveLocalPath(storagePath));
       }
     } catch (err) {
       this.logger.warn(`Failed to delete local file: ${storagePath}`, err);
     }
   }
 
-  private async getStreamFromLocal(storagePath: string): Promise<fs.ReadStream> {
+  private async getStreamFromLocal(storagePath: string): Promise<Readable> {
     if (!fs.existsSync(storagePath)) {
-      throw new Error(`File not found: ${storagePath}`);
+      throw new NotFoundException('الملف غير موجود على الخادم');
     }
-    // Prevent path traversal
+    return fs.createReadStream(this.resolveLocalPath(storagePath));
+  }
+
+  /** Resolves symlinks and rejects anything outside UPLOAD_ROOT (path traversal). */
+  private resolveLocalPath(storagePath: string) {
     const resolvedPath = fs.realpathSync(storagePath);
-    const resolvedUploadDir = fs.realpathSync(this.uploadDir);
-    if (!resolvedPath.startsWith(resolvedUploadDir)) {
-      throw new Error('Access denied');
+    const resolvedRoot = fs.realpathSync(this.uploadRoot);
+    if (!resolvedPath.startsWith(resolvedRoot + sep)) {
+      throw new NotFoundException('الملف غير موجود');
     }
-    return fs.createReadStream(resolvedPath);
+    return resolvedPath;
   }
 
-  // ─── S3 STORAGE (placeholder — activate when S3 creds are available) ───
+  // ─── S3 STORAGE ───
+
+  private async uploadToS3(
+    body: Readable | Buffer,
+    key: string,
+    mimeType: string,
+    size: number,
+    storedName: string,
+  ): Promise<StoredFile> {
+    await this.requireS3(this.s3).send(new PutObjectCommand({
+      Bucket: this.s3Bucket,
+      Key: key,
+      Body: body,
+      ContentType: mimeType || 'application/octet-stream',
+      ContentLength: size,
+    }));
+    return { storedName, storagePath: key, storageProvider: 'S3' };
+  }
 
-  private async uploadToS3(file: Express.Multer.File, storedName: string): Promise<StoredFile> {
-    // When S3 is configured, use @aws-sdk/client-s3
-    // For now, fall back to local with S3 flag
-    this.logger.warn('S3 not fully configured — falling back to local storage');
-    const result = await this.uploadToLocal(file, storedName);
-    return { ...result, storageProvider: 'LOCAL' };
+  private async deleteFromS3(key: string): Promise<void> {
+    try {
+      await this.requireS3(this.s3).send(new DeleteObjectCommand({ Bucket: this.s3Bucket, Key: key }));
+    } catch (err) {
+      this.logger.warn(`Failed to delete S3 object: ${key}`, err);
+    }
   }
 
-  private async deleteFromS3(storagePath: string): Promise<void> {
-    this.logger.warn('S3 delete not implemented — falling back to local');
-    return this.deleteFromLocal(storagePath);
+  private async getStreamFromS3(key: string): Promise<Readable> {
+    try {
+      const result = await this.requireS3(this.s3).send(new GetObjectCommand({ Bucket: this.s3Bucket, Key: key }));
+      return result.Body as Readable;
+    } catch (err) {
+      if (err?.name === 'NoSuchKey') throw new NotFoundException('الملف غير موجود على الخادم');
+      throw err;
+    }
   }
 
-  private async getStreamFromS3(storagePath: string): Promise<fs.ReadStream> {
-    this.logger.warn('S3 stream not implemented — falling back to local');
-    return this.getStreamFromLocal(storagePath);
+  private async ensureBucket() {
+    const s3 = this.requireS3(this.s3);
+    try {
+      await s3.send(new HeadBucketCommand({ Bucket: this.s3Bucket }));
+    } catch (err) {
+      if (err?.$metadata?.httpStatusCode !== 404) {
+        this.logger.warn(`Could not verify S3 bucket ${this.s3Bucket}: ${err.message}`);
+        return;
+      }
+      await s3.send(new CreateBucketCommand({ Bucket: this.s3Bucket }));
+      this.logger.log(`Created S3 bucket ${this.s3Bucket}`);
+    }
+  }
+
+  private requireS3(client?: S3Client): S3Client {
+    if (!client) {
+      throw new Error('S3 storage is not configured (S3_BUCKET is missing)');
+    }
+    return client;
   }
 }
@@ -1,8 +1,11 @@
-import { Controller, Get, Query, Res, UseGuards, Logger, StreamableFile } from '@nestjs/common';
+import { Controller, Get, Query, Res, UseGuards, Logger, StreamableFile, ForbiddenException } from '@nestjs/common';
 import { Response } from 'express';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard, GLOBAL_TRACK_ROLES } from '../common/guards/track-permission.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { SystemExportService } from './system-export.service';
 
 @Controller('admin')
@@ -45,9 +48,16 @@ export class SystemExportController {
   /**
    * GET /api/admin/tracks-deep?trackId=optional
    * Deep export of tracks with all nested relationships.
+   * Track leads may export a single track they hold the export permission on.
    */
   @Get('tracks-deep')
-  async getTracksDeep(@Query('trackId') trackId?: string) {
+  @UseGuards(TrackPermissionGuard)
+  @Roles('admin', 'track_lead')
+  @RequireTrackPermission('export', { from: 'query' })
+  async getTracksDeep(@Query('trackId') trackId: string | undefined, @CurrentUser() user: any) {
+    if (!trackId && !GLOBAL_TRACK_ROLES.includes(user.role)) {
+      throw new ForbiddenException('يجب تحديد المسار المراد تصديره');
+    }
     return this.exportService.getTrackDeepExport(trackId);
   }
 
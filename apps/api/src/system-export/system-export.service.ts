@@ -285,7 +285,7 @@ export class SystemExportService {
         isDeleted: false,
         dueDate: { lt: new Date() },
         status: { notIn: ['completed', 'cancelled'] },
-        lastOverdueNotifiedAt: null,
+        deadlineNotices: { none: { stage: 'escalation_assignee' } },
       },
     });
     if (overdueNotNotified > 0) {
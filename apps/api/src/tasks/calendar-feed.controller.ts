@@ -0,0 +1,24 @@
+import { Controller, Get, Param, Res } from '@nestjs/common';
+import { Response } from 'express';
+import { CalendarService } from './calendar.service';
+
+/**
+ * Public iCalendar feeds for calendar apps, which cannot send a JWT: the
+ * secret token in the URL identifies the user. Revoking or rotating the
+ * token from the calendar page cuts off the old URL.
+ */
+@Controller('calendar-feed')
+export class CalendarFeedController {
+  constructor(private calendar: CalendarService) {}
+
+  @Get(':token.ics')
+  async getFeed(@Param('token') token: string, @Res() res: Response) {
+    const ics = await this.calendar.renderFeed(token);
+    res.set({
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': 'inline; filename=nusuk.ics',
+      'Cache-Control': 'private, max-age=300',
+    });
+    res.send(ics);
+  }
+}
@@ -0,0 +1,61 @@
+import { Controller, Get, Post, Delete, Query, UseGuards, Req } from '@nestjs/common';
+import { Request } from 'express';
+import { CalendarService } from './calendar.service';
+import { AuditService } from '../audit/audit.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+
+/** The deadlines calendar, and the user's own iCalendar feed URL. */
+@Controller('calendar')
+@UseGuards(JwtAuthGuard)
+export class CalendarController {
+  constructor(
+    private calendar: CalendarService,
+    private audit: AuditService,
+  ) {}
+
+  /** Events between `from` and `to` (ISO dates, at most MAX_CALENDAR_DAYS apart). */
+  @Get()
+  getEvents(
+    @CurrentUser() user: any,
+    @Query('from') from?: string,
+    @Query('to') to?: string,
+    @Query('trackId') trackId?: string,
+    @Query('assigneeId') assigneeId?: string,
+  ) {
+    return this.calendar.getEvents(user, { from, to, trackId, assigneeId });
+  }
+
+  @Get('feed')
+  getFeed(@CurrentUser() user: any) {
+    return this.calendar.getFeedToken(user.id);
+  }
+
+  /** Creates the feed URL, or replaces it so the old one stops working. */
+  @Post('feed')
+  async rotateFeed(@CurrentUser() user: any, @Req() req: Request) {
+    const feed = await this.calendar.rotateFeedToken(user.id);
+    // The token is a credential: the audit trail records the change only
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'rotate_calendar_feed',
+      entityType: 'user',
+      entityId: user.id,
+      ip: req.ip,
+    });
+    return feed;
+  }
+
+  @Delete('feed')
+  async revokeFeed(@CurrentUser() user: any, @Req() req: Request) {
+    const feed = await this.calendar.revokeFeedToken(user.id);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'revoke_calendar_feed',
+      entityType: 'user',
+      entityId: user.id,
+      ip: req.ip,
+    });
+    return feed;
+  }
+}
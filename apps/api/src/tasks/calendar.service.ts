@@ -0,0 +1,280 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { randomBytes } from 'crypto';
+import { PrismaService } from '../common/prisma.service';
+import { GLOBAL_TRACK_ROLES, TrackScopedUser } from '../common/guards/track-permission.guard';
+import { buildTaskVisibilityFilter } from './task-visibility';
+import { hajjSeasons } from './timeline-milestones';
+import { TASK_STATUS_LABELS_AR } from './task-status';
+import { DAY_MS } from './critical-path';
+import { buildICalendar, ICalEvent } from './ical';
+
+type CalendarUser = TrackScopedUser & { id: string };
+
+export const MAX_CALENDAR_DAYS = 62;
+// How far back the feed keeps past deadlines, so calendars keep recent history
+const FEED_HISTORY_DAYS = 90;
+// Progress items that carry dates of their own, shown as milestones
+const MILESTONE_ENTITY_TYPES = ['track', 'scope_block'];
+
+const trackSelect = { id: true, nameAr: true, color: true };
+
+export interface CalendarEvent {
+  id: string;
+  kind: 'task' | 'kpi' | 'milestone' | 'hajj';
+  // The task, KPI entry or progress item the event comes from
+  sourceId: string;
+  title: string;
+  start: Date;
+  // Last day of the event, inclusive
+  end: Date;
+  status: string | null;
+  priority: string | null;
+  track: { id: string; nameAr: string; color: string } | null;
+}
+
+/**
+ * Deadlines on a calendar: task due dates, KPI due dates, dated progress
+ * items of tracks and scope blocks, and Hajj seasons. Each user can also
+ * publish their own assignments as an iCalendar feed behind a secret URL.
+ */
+@Injectable()
+export class CalendarService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Events between `from` and `to` (inclusive), optionally for one track or assignee. */
+  async getEvents(user: CalendarUser, params: { from?: string; to?: string; trackId?: string; assigneeId?: string }) {
+    const { from, to } = this.parseRange(params.from, params.to);
+
+    const taskWhere: any = {
+      ...buildTaskVisibilityFilter(user),
+      dueDate: { gte: from, lte: to },
+    };
+    const and: any[] = [];
+    if (params.trackId) {
+      and.push({ OR: [{ trackId: params.trackId }, { assigneeType: 'TRACK', assigneeTrackId: params.trackId }] });
+    }
+    if (params.assigneeId) and.push(this.assignedTo(params.assigneeId));
+    if (and.length > 0) taskWhere.AND = and;
+
+    // KPIs follow the KPI pages: tracks the user may view
+    const kpiWhere: any = { dueDate: { gte: from, lte: to } };
+    const viewableTrackIds = this.viewableTrackIds(user);
+    if (viewableTrackIds) kpiWhere.trackId = { in: viewableTrackIds };
+    if (params.trackId) kpiWhere.AND = [{ trackId: params.trackId }];
+    if (params.assigneeId) kpiWhere.assignedTo = params.assigneeId;
+
+    const [tasks, kpis, milestones] = await Promise.all([
+      this.prisma.task.findMany({
+        where: taskWhere,
+        select: {
+          id: true,
+          title: true,
+          titleAr: true,
+          status: true,
+          priority: true,
+          dueDate: true,
+          track: { select: trackSelect },
+        },
+        orderBy: { dueDate: 'asc' },
+      }),
+      this.prisma.kPIEntry.findMany({
+        where: kpiWhere,
+        select: { id: true, nameAr: true, status: true, dueDate: true, track: { select: trackSelect } },
+        orderBy: { dueDate: 'asc' },
+      }),
+      // Milestones have no assignee, so they stay when filtering by one
+      this.milestones(from, to, params.trackId ? [params.trackId] : viewableTrackIds),
+    ]);
+
+    const events: CalendarEvent[] = [
+      ...tasks.map((t) => ({
+        id: `task:${t.id}`,
+        kind: 'task' as const,
+        sourceId: t.id,
+        title: t.titleAr || t.title,
+        start: t.dueDate!,
+        end: t.dueDate!,
+        status: t.status,
+        priority: t.priority,
+        track: t.track,
+      })),
+      ...kpis.map((k) => ({
+        id: `kpi:${k.id}`,
+        kind: 'kpi' as const,
+        sourceId: k.id,
+        title: k.nameAr,
+        start: k.dueDate!,
+        end: k.dueDate!,
+        status: k.status,
+        priority: null,
+        track: k.track,
+      })),
+      ...milestones,
+      ...hajjSeasons(from, to).map((s) => ({
+        id: `hajj:${s.key}`,
+        kind: 'hajj' as const,
+        sourceId: s.key,
+        title: s.labelAr,
+        start: s.startDate,
+        end: s.endDate,
+        status: null,
+        priority: null,
+        track: null,
+      })),
+    ];
+
+    return { from, to, events: events.sort((a, b) => a.start.getTime() - b.start.getTime()) };
+  }
+
+  // ─── iCalendar feed ───
+
+  async getFeedToken(userId: string) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: { calendarFeedToken: true } });
+    if (!user) throw new NotFoundException('المستخدم غير موجود');
+    return { token: user.calendarFeedToken };
+  }
+
+  /** Publishes the feed under a new secret; the previous URL stops working. */
+  async rotateFeedToken(userId: string) {
+    const token = randomBytes(24).toString('hex');
+    await this.prisma.user.update({ where: { id: userId }, data: { calendarFeedToken: token } });
+    return { token };
+  }
+
+  async revokeFeedToken(userId: string) {
+    await this.prisma.user.update({ where: { id: userId }, data: { calendarFeedToken: null } });
+    return { token: null };
+  }
+
+  /**
+   * The feed behind a token: the user's own task deadlines and the KPIs
+   * assigned to them, from FEED_HISTORY_DAYS ago onwards.
+   */
+  async renderFeed(token: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { calendarFeedToken: token },
+      select: { id: true, email: true, nameAr: true, isActive: true },
+    });
+    if (!user || !user.isActive) throw new NotFoundException('رابط التقويم غير صالح');
+
+    const since = new Date(Date.now() - FEED_HISTORY_DAYS * DAY_MS);
+    const [tasks, kpis] = await Promise.all([
+      this.prisma.task.findMany({
+        where: { isDeleted: false, dueDate: { gte: since }, ...this.assignedTo(user.id) },
+        select: {
+          id: true,
+          title: true,
+          titleAr: true,
+          status: true,
+          dueDate: true,
+          updatedAt: true,
+          track: { select: { nameAr: true } },
+        },
+        orderBy: { dueDate: 'asc' },
+      }),
+      // KPIEntry.assignedTo is free text: the user's id or email
+      this.prisma.kPIEntry.findMany({
+        where: { assignedTo: { in: [user.id, user.email] }, dueDate: { gte: since } },
+        select: { id: true, nameAr: true, status: true, dueDate: true, updatedAt: true, track: { select: { nameAr: true } } },
+        orderBy: { dueDate: 'asc' },
+      }),
+    ]);
+
+    const events: ICalEvent[] = [
+      ...tasks.map((t) => ({
+        uid: `task-${t.id}@nusuk`,
+        title: `${t.status === 'completed' ? '✓ ' : ''}${t.titleAr || t.title}`,
+        description: [
+          `الحالة: ${TASK_STATUS_LABELS_AR[t.status] || t.status}`,
+          t.track ? `المسار: ${t.track.nameAr}` : null,
+        ].filter(Boolean).join('\n'),
+        start: t.dueDate!,
+        updatedAt: t.updatedAt,
+        cancelled: t.status === 'cancelled',
+      })),
+      ...kpis.map((k) => ({
+        uid: `kpi-${k.id}@nusuk`,
+        title: `مؤشر أداء: ${k.nameAr}`,
+        description: `المسار: ${k.track.nameAr}`,
+        start: k.dueDate!,
+        updatedAt: k.updatedAt,
+      })),
+    ];
+
+    return buildICalendar(`مواعيد ${user.nameAr}`, events);
+  }
+
+  // ─── Helpers ───
+
+  /** Tasks assigned to the user, directly or through TaskAssignment. */
+  private assignedTo(userId: string): Prisma.TaskWhereInput {
+    return { OR: [{ assigneeType: 'USER', assigneeUserId: userId }, { assignments: { some: { userId } } }] };
+  }
+
+  /** Tracks whose KPIs and milestones the user sees; null for every track. */
+  private viewableTrackIds(user: CalendarUser) {
+    if (GLOBAL_TRACK_ROLES.includes(user.role)) return null;
+    return (user.trackPermissions || []).filter((tp) => tp.permissions.includes('view')).map((tp) => tp.trackId);
+  }
+
+  private parseRange(fromValue?: string, toValue?: string) {
+    const today = new Date();
+    const from = fromValue ? new Date(fromValue) : today;
+    const to = toValue ? new Date(toValue) : new Date(from.getTime() + 31 * DAY_MS);
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || to < from) {
+      throw new BadRequestException('نطاق التواريخ غير صالح');
+    }
+    if (to.getTime() - from.getTime() > MAX_CALENDAR_DAYS * DAY_MS) {
+      throw new BadRequestException(`لا يمكن أن يتجاوز نطاق التقويم ${MAX_CALENDAR_DAYS} يوماً`);
+    }
+    return { from, to };
+  }
+
+  /** Dated progress items of tracks and scope blocks overlapping [from, to]. */
+  private async milestones(from: Date, to: Date, trackIds: string[] | null): Promise<CalendarEvent[]> {
+    const items = await this.prisma.progressItem.findMany({
+      where: {
+        entityType: { in: MILESTONE_ENTITY_TYPES },
+        OR: [
+          { startDate: { gte: from, lte: to } },
+          { endDate: { gte: from, lte: to } },
+          { startDate: { lt: from }, endDate: { gt: to } },
+        ],
+      },
+      select: { id: true, entityType: true, entityId: true, status: true, startDate: true, endDate: true },
+    });
+    if (items.length === 0) return [];
+
+    const idsOf = (type: string) => items.filter((i) => i.entityType === type).map((i) => i.entityId);
+    const [tracks, blocks] = await Promise.all([
+      this.prisma.track.findMany({ where: { id: { in: idsOf('track') } }, select: trackSelect }),
+      this.prisma.scopeBlock.findMany({
+        where: { id: { in: idsOf('scope_block') } },
+        select: { id: true, code: true, title: true, track: { select: trackSelect } },
+      }),
+    ]);
+    const sources = new Map<string, { title: string; track: CalendarEvent['track'] }>([
+      ...tracks.map((t) => [`track:${t.id}`, { title: t.nameAr, track: t }] as const),
+      ...blocks.map((b) => [`scope_block:${b.id}`, { title: `${b.code} ${b.title}`, track: b.track }] as const),
+    ]);
+
+    return items.flatMap((item) => {
+      const source = sources.get(`${item.entityType}:${item.entityId}`);
+      // Items of deleted entities, or of tracks the user does not see
+      if (!source || (trackIds && !trackIds.includes(source.track!.id))) return [];
+      const start = item.startDate || item.endDate!;
+      return [{
+        id: `milestone:${item.id}`,
+        kind: 'milestone' as const,
+        sourceId: item.id,
+        title: source.title,
+        start,
+        end: item.endDate && item.endDate > start ? item.endDate : start,
+        status: item.status,
+        priority: null,
+        track: source.track,
+      }];
+    });
+  }
+}
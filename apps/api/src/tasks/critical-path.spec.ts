@@ -0,0 +1,140 @@
+import { computeSchedule, requiredStart, ScheduleEdge, ScheduleNode, slipDays, DAY_MS } from './critical-path';
+
+const day = (d: number) => new Date(Date.UTC(2026, 1, d)); // d February 2026
+const NOW = new Date(Date.UTC(2026, 0, 1));
+
+function node(id: string, start: number | null, due: number | null, extra: Partial<ScheduleNode> = {}): ScheduleNode {
+  return {
+    id,
+    status: 'in_progress',
+    startDate: start === null ? null : day(start),
+    dueDate: due === null ? null : day(due),
+    completionDate: null,
+    ...extra,
+  };
+}
+
+const fs = (predecessorId: string, successorId: string, lagDays = 0): ScheduleEdge => ({ predecessorId, successorId, type: 'FS', lagDays });
+
+describe('computeSchedule', () => {
+  it('marks the longest chain critical and gives the rest slack', () => {
+    const result = computeSchedule([node('a', 1, 5), node('b', 5, 10), node('c', 1, 3)], [fs('a', 'b')], NOW);
+
+    expect(result.criticalPath).toEqual(['a', 'b']);
+    expect(result.tasks.get('c')).toMatchObject({ critical: false, slackDays: 7 });
+    expect(result.plannedEnd).toEqual(day(10));
+    expect(result.forecastEnd).toEqual(day(10));
+    expect(result.slipDays).toBe(0);
+  });
+
+  it('pushes successors past a late predecessor and reports the slip', () => {
+    const result = computeSchedule([node('a', 1, 8), node('b', 5, 10)], [fs('a', 'b', 1)], NOW);
+
+    expect(result.tasks.get('b')).toMatchObject({ earlyStart: day(9), earlyFinish: day(14), plannedFinish: day(10) });
+    expect(result.slipDays).toBe(4);
+  });
+
+  it('anchors start-to-start links on the predecessor start', () => {
+    const result = computeSchedule(
+      [node('a', 1, 10), node('b', 0, 3)],
+      [{ predecessorId: 'a', successorId: 'b', type: 'SS', lagDays: 1 }],
+      NOW,
+    );
+
+    expect(result.tasks.get('b')).toMatchObject({ earlyStart: day(2), earlyFinish: day(5) });
+    expect(result.criticalPath).toEqual(['a']);
+  });
+
+  it('forecasts open work past its due date to finish now', () => {
+    const now = day(20);
+    const result = computeSchedule([node('a', 1, 5), node('b', 5, 10)], [fs('a', 'b')], now);
+
+    expect(result.tasks.get('a')!.earlyFinish).toEqual(now);
+    expect(result.tasks.get('b')!.earlyFinish).toEqual(new Date(now.getTime() + 5 * DAY_MS));
+    expect(result.slipDays).toBe(15);
+  });
+
+  it('schedules completed tasks on their completion date and leaves them off the path', () => {
+    const result = computeSchedule(
+      [node('a', 1, 5, { status: 'completed', completionDate: day(7) }), node('b', 5, 10)],
+      [fs('a', 'b')],
+      NOW,
+    );
+
+    expect(result.tasks.get('a')!.earlyFinish).toEqual(day(7));
+    expect(result.tasks.get('b')!.earlyFinish).toEqual(day(12));
+    expect(result.criticalPath).toEqual(['b']);
+  });
+
+  it('leaves out cancelled and undated tasks and their links', () => {
+    const result = computeSchedule(
+      [node('a', 1, 5, { status: 'cancelled' }), node('b', null, null), node('c', 5, 10)],
+      [fs('a', 'c'), fs('b', 'c')],
+      NOW,
+    );
+
+    expect([...result.tasks.keys()]).toEqual(['c']);
+    expect(result.tasks.get('c')!.earlyStart).toEqual(day(5));
+  });
+
+  it('cuts a cycle at its first task and schedules the rest from there', () => {
+    const result = computeSchedule(
+      [node('a', 1, 5), node('b', 3, 8), node('c', 8, 12)],
+      [fs('a', 'b'), fs('b', 'a'), fs('b', 'c')],
+      NOW,
+    );
+
+    // a ignores its link from b, which is not scheduled yet; b and c still follow a
+    expect(result.tasks.get('a')).toMatchObject({ earlyStart: day(1), earlyFinish: day(5) });
+    expect(result.tasks.get('b')).toMatchObject({ earlyStart: day(5), earlyFinish: day(10) });
+    expect(result.tasks.get('c')).toMatchObject({ earlyStart: day(10), earlyFinish: day(14) });
+    expect(result.criticalPath).toEqual(['a', 'b', 'c']);
+    expect(result.slipDays).toBe(2);
+  });
+
+  it('keeps tasks off a cycle scheduled as usual', () => {
+    const result = computeSchedule(
+      [node('a', 1, 5), node('b', 1, 5), node('x', 1, 3), node('y', 3, 6)],
+      [fs('a', 'b'), fs('b', 'a'), fs('x', 'y')],
+      NOW,
+    );
+
+    expect(result.tasks.get('y')).toMatchObject({ earlyStart: day(3), earlyFinish: day(6) });
+    expect(result.tasks.size).toBe(4);
+  });
+
+  it('returns an empty schedule when nothing is dated', () => {
+    expect(computeSchedule([node('a', null, null)], [], NOW)).toEqual({
+      tasks: new Map(),
+      criticalPath: [],
+      plannedEnd: null,
+      forecastEnd: null,
+      slipDays: 0,
+    });
+  });
+});
+
+describe('slipDays', () => {
+  it('rounds part days up and never goes negative', () => {
+    expect(slipDays(day(3).getTime() + 1, day(3).getTime())).toBe(1);
+    expect(slipDays(day(1).getTime(), day(3).getTime())).toBe(0);
+  });
+});
+
+describe('requiredStart', () => {
+  const predecessor = { startDate: day(1), dueDate: day(5), completionDate: day(7), status: 'in_progress' };
+
+  it('anchors on the due date, or the completion date once completed', () => {
+    expect(requiredStart(predecessor, { type: 'FS', lagDays: 2 })).toEqual(day(7));
+    expect(requiredStart({ ...predecessor, status: 'completed' }, { type: 'FS', lagDays: 0 })).toEqual(day(7));
+  });
+
+  it('anchors start-to-start links on the start date', () => {
+    expect(requiredStart(predecessor, { type: 'SS', lagDays: 1 })).toEqual(day(2));
+    expect(requiredStart({ ...predecessor, startDate: null }, { type: 'SS', lagDays: 0 })).toEqual(day(5));
+  });
+
+  it('sets no bound for an undated predecessor', () => {
+    expect(requiredStart({ startDate: null, dueDate: null, completionDate: null, status: 'todo' }, { type: 'FS', lagDays: 0 })).toBeNull();
+  });
+});
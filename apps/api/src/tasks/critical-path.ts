@@ -0,0 +1,174 @@
+/**
+ * Critical-path (CPM) scheduling over the task dependency graph.
+ *
+ * Every dated task is a node whose planned window is [startDate ?? dueDate, dueDate].
+ * The forward pass pushes a task later when its predecessors force it to (or
+ * when it is still open past its due date), which yields the forecast finish;
+ * the backward pass then gives each task its slack. Tasks without a due date
+ * cannot be scheduled and are left out.
+ */
+
+export const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Slack below this (in days) counts as zero — dates are entered per day. */
+const CRITICAL_SLACK_DAYS = 0.5;
+
+export interface ScheduleNode {
+  id: string;
+  status: string;
+  startDate: Date | null;
+  dueDate: Date | null;
+  completionDate: Date | null;
+}
+
+export interface ScheduleEdge {
+  predecessorId: string;
+  successorId: string;
+  type: string; // FS, SS
+  lagDays: number;
+}
+
+export interface ScheduledTask {
+  id: string;
+  plannedFinish: Date;
+  earlyStart: Date;
+  earlyFinish: Date;
+  slackDays: number;
+  critical: boolean;
+}
+
+export interface ScheduleResult {
+  tasks: Map<string, ScheduledTask>;
+  /** Open critical tasks, in the order they are forecast to start. */
+  criticalPath: string[];
+  plannedEnd: Date | null;
+  forecastEnd: Date | null;
+  slipDays: number;
+}
+
+const isClosed = (status: string) => status === 'completed' || status === 'cancelled';
+
+export function computeSchedule(nodes: ScheduleNode[], edges: ScheduleEdge[], now = new Date()): ScheduleResult {
+  const scheduled = nodes.filter((n) => n.dueDate && n.status !== 'cancelled');
+  const byId = new Map(scheduled.map((n) => [n.id, n]));
+  const graphEdges = edges.filter((e) => byId.has(e.predecessorId) && byId.has(e.successorId));
+
+  const incoming = new Map<string, ScheduleEdge[]>();
+  const outgoing = new Map<string, ScheduleEdge[]>();
+  for (const e of graphEdges) {
+    incoming.set(e.successorId, [...(incoming.get(e.successorId) || []), e]);
+    outgoing.set(e.predecessorId, [...(outgoing.get(e.predecessorId) || []), e]);
+  }
+
+  // Kahn's algorithm; tasks on or behind a cycle follow in input order, and
+  // links from tasks not scheduled yet are ignored, so a cycle is cut once
+  const order: string[] = [];
+  const indegree = new Map(scheduled.map((n) => [n.id, incoming.get(n.id)?.length || 0]));
+  const queue = scheduled.filter((n) => indegree.get(n.id) === 0).map((n) => n.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    order.push(id);
+    for (const e of outgoing.get(id) || []) {
+      const left = indegree.get(e.successorId)! - 1;
+      indegree.set(e.successorId, left);
+      if (left === 0) queue.push(e.successorId);
+    }
+  }
+  const ordered = new Set(order);
+  for (const n of scheduled) if (!ordered.has(n.id)) order.push(n.id);
+
+  // ─── Forward pass (ms timestamps) ───
+  const duration = new Map<string, number>();
+  const es = new Map<string, number>();
+  const ef = new Map<string, number>();
+  for (const id of order) {
+    const n = byId.get(id)!;
+    const due = n.dueDate!.getTime();
+    const plannedStart = Math.min(n.startDate?.getTime() ?? due, due);
+    const length = due - plannedStart;
+    duration.set(id, length);
+
+    if (n.status === 'completed') {
+      const finished = n.completionDate?.getTime() ?? due;
+      es.set(id, Math.min(plannedStart, finished));
+      ef.set(id, finished);
+      continue;
+    }
+
+    let start = plannedStart;
+    for (const e of incoming.get(id) || []) {
+      if (!es.has(e.predecessorId)) continue;
+      const anchor = e.type === 'SS' ? es.get(e.predecessorId)! : ef.get(e.predecessorId)!;
+      start = Math.max(start, anchor + e.lagDays * DAY_MS);
+    }
+    // Open work cannot finish in the past
+    const finish = Math.max(start + length, now.getTime());
+    es.set(id, finish - length);
+    ef.set(id, finish);
+  }
+
+  if (order.length === 0) {
+    return { tasks: new Map(), criticalPath: [], plannedEnd: null, forecastEnd: null, slipDays: 0 };
+  }
+
+  const projectEnd = Math.max(...order.map((id) => ef.get(id)!));
+  const plannedEnd = Math.max(...order.map((id) => byId.get(id)!.dueDate!.getTime()));
+
+  // ─── Backward pass ───
+  const lf = new Map<string, number>();
+  for (const id of [...order].reverse()) {
+    let latest = projectEnd;
+    for (const e of outgoing.get(id) || []) {
+      if (!lf.has(e.successorId)) continue;
+      const succLs = lf.get(e.successorId)! - duration.get(e.successorId)!;
+      const bound = e.type === 'SS'
+        ? succLs - e.lagDays * DAY_MS + duration.get(id)!
+        : succLs - e.lagDays * DAY_MS;
+      latest = Math.min(latest, bound);
+    }
+    lf.set(id, latest);
+  }
+
+  const tasks = new Map<string, ScheduledTask>();
+  for (const id of order) {
+    const slackDays = Math.max(0, (lf.get(id)! - ef.get(id)!) / DAY_MS);
+    tasks.set(id, {
+      id,
+      plannedFinish: byId.get(id)!.dueDate!,
+      earlyStart: new Date(es.get(id)!),
+      earlyFinish: new Date(ef.get(id)!),
+      slackDays: Math.round(slackDays * 10) / 10,
+      critical: slackDays < CRITICAL_SLACK_DAYS,
+    });
+  }
+
+  const criticalPath = order
+    .filter((id) => tasks.get(id)!.critical && !isClosed(byId.get(id)!.status))
+    .sort((a, b) => es.get(a)! - es.get(b)!);
+
+  return {
+    tasks,
+    criticalPath,
+    plannedEnd: new Date(plannedEnd),
+    forecastEnd: new Date(projectEnd),
+    slipDays: slipDays(projectEnd, plannedEnd),
+  };
+}
+
+/** Whole days the forecast runs past the plan (never negative). */
+export function slipDays(forecastEnd: number, plannedEnd: number) {
+  return Math.max(0, Math.ceil((forecastEnd - plannedEnd) / DAY_MS));
+}
+
+/** Earliest date the successor may start given one predecessor, or null if it sets no bound. */
+export function requiredStart(
+  predecessor: { startDate: Date | null; dueDate: Date | null; completionDate: Date | null; status: string },
+  edge: Pick<ScheduleEdge, 'type' | 'lagDays'>,
+): Date | null {
+  const anchor = edge.type === 'SS'
+    ? predecessor.startDate ?? predecessor.dueDate
+    : predecessor.status === 'completed'
+      ? predecessor.completionDate ?? predecessor.dueDate
+      : predecessor.dueDate;
+  return anchor ? new Date(anchor.getTime() + edge.lagDays * DAY_MS) : null;
+}
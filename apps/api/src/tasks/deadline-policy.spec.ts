@@ -0,0 +1,56 @@
+import { DEADLINE_STAGES, DEFAULT_DEADLINE_POLICY, DeadlinePolicy, resolveDeadlinePolicy, ruleForPriority } from './deadline-policy';
+
+const trackPolicy: DeadlinePolicy = {
+  default: { reminderDays: [2], trackLeadAfterDays: 1, managementAfterDays: 4 },
+  priorities: { critical: { reminderDays: [7, 1], trackLeadAfterDays: 0, managementAfterDays: 0 } },
+};
+
+describe('resolveDeadlinePolicy', () => {
+  it('falls back to the default policy for tracks without their own', () => {
+    expect(resolveDeadlinePolicy(null)).toBe(DEFAULT_DEADLINE_POLICY);
+    expect(resolveDeadlinePolicy(undefined)).toBe(DEFAULT_DEADLINE_POLICY);
+  });
+
+  it('falls back to the default policy when the stored value has no default rule', () => {
+    expect(resolveDeadlinePolicy({ priorities: trackPolicy.priorities })).toBe(DEFAULT_DEADLINE_POLICY);
+  });
+
+  it("uses the track's policy as stored", () => {
+    expect(resolveDeadlinePolicy(trackPolicy)).toEqual(trackPolicy);
+  });
+
+  it('treats missing priority overrides as none', () => {
+    expect(resolveDeadlinePolicy({ default: trackPolicy.default })).toEqual({ default: trackPolicy.default, priorities: {} });
+  });
+});
+
+describe('ruleForPriority', () => {
+  it("uses the priority's own rule", () => {
+    expect(ruleForPriority(trackPolicy, 'critical')).toBe(trackPolicy.priorities.critical);
+  });
+
+  it('falls back to the default rule for priorities without one', () => {
+    expect(ruleForPriority(trackPolicy, 'high')).toBe(trackPolicy.default);
+    expect(ruleForPriority(trackPolicy, 'unknown')).toBe(trackPolicy.default);
+  });
+
+  it('does not inherit the default priority overrides into a track policy', () => {
+    expect(ruleForPriority(resolveDeadlinePolicy({ default: trackPolicy.default }), 'critical')).toBe(trackPolicy.default);
+  });
+});
+
+describe('DEFAULT_DEADLINE_POLICY', () => {
+  it('never escalates to management before track leads', () => {
+    for (const rule of [DEFAULT_DEADLINE_POLICY.default, ...Object.values(DEFAULT_DEADLINE_POLICY.priorities)]) {
+      expect(rule!.managementAfterDays).toBeGreaterThanOrEqual(rule!.trackLeadAfterDays);
+    }
+  });
+});
+
+describe('DEADLINE_STAGES', () => {
+  it('gives each reminder and overdue day its own stage', () => {
+    expect(DEADLINE_STAGES.reminder(3)).toBe('reminder_3d');
+    expect(DEADLINE_STAGES.reminder(1)).not.toBe(DEADLINE_STAGES.reminder(3));
+    expect(DEADLINE_STAGES.overdueDay(7)).toBe('overdue_day_7');
+  });
+});
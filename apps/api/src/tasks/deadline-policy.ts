@@ -0,0 +1,51 @@
+/**
+ * Per-track deadline policy: when assignees are reminded of an approaching due
+ * date and how an overdue task climbs the escalation ladder — assignees on the
+ * due date, track leads after `trackLeadAfterDays`, PMs and admins after
+ * `managementAfterDays`. A track may override the rule per task priority.
+ * Tracks without their own policy (tracks.deadline_policy = null) and tasks
+ * without a track use DEFAULT_DEADLINE_POLICY.
+ */
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+/** Upper bounds accepted by the policy editor. */
+export const MAX_REMINDER_DAYS = 30;
+export const MAX_ESCALATION_DAYS = 90;
+
+export interface DeadlineRule {
+  reminderDays: number[]; // days before the due date, e.g. [3, 1]
+  trackLeadAfterDays: number;
+  managementAfterDays: number;
+}
+
+export interface DeadlinePolicy {
+  default: DeadlineRule;
+  priorities: Partial<Record<string, DeadlineRule>>;
+}
+
+export const DEFAULT_DEADLINE_POLICY: DeadlinePolicy = {
+  default: { reminderDays: [3, 1], trackLeadAfterDays: 2, managementAfterDays: 5 },
+  priorities: {
+    high: { reminderDays: [3, 1], trackLeadAfterDays: 1, managementAfterDays: 3 },
+    critical: { reminderDays: [5, 3, 1], trackLeadAfterDays: 0, managementAfterDays: 1 },
+  },
+};
+
+/** Notice stages, in the order a task reaches them. */
+export const DEADLINE_STAGES = {
+  reminder: (days: number) => `reminder_${days}d`,
+  assignee: 'escalation_assignee',
+  trackLead: 'escalation_track_lead',
+  management: 'escalation_management',
+  overdueDay: (days: number) => `overdue_day_${days}`,
+};
+
+export function resolveDeadlinePolicy(stored: unknown): DeadlinePolicy {
+  const policy = stored as DeadlinePolicy | null;
+  return policy?.default ? { default: policy.default, priorities: policy.priorities || {} } : DEFAULT_DEADLINE_POLICY;
+}
+
+export function ruleForPriority(policy: DeadlinePolicy, priority: string): DeadlineRule {
+  return policy.priorities[priority] || policy.default;
+}
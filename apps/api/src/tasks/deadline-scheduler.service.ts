@@ -0,0 +1,235 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { DAY_MS } from './critical-path';
+import {
+  DeadlinePolicy,
+  DEADLINE_STAGES,
+  DEFAULT_DEADLINE_POLICY,
+  MAX_REMINDER_DAYS,
+  resolveDeadlinePolicy,
+  ruleForPriority,
+} from './deadline-policy';
+
+const BATCH_SIZE = 200;
+
+const deadlineTaskInclude = {
+  assignments: { select: { userId: true } },
+  deadlineNotices: { select: { stage: true, dueDate: true } },
+} satisfies Prisma.TaskInclude;
+
+type DeadlineTask = Prisma.TaskGetPayload<{ include: typeof deadlineTaskInclude }>;
+
+interface NoticeMessage {
+  type: string;
+  title: string;
+  titleAr: string;
+  body: string;
+  bodyAr: string;
+}
+
+@Injectable()
+export class DeadlineSchedulerService {
+  private readonly logger = new Logger(DeadlineSchedulerService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+  ) {}
+
+  /**
+   * Every 15 minutes: remind assignees of approaching due dates and walk
+   * overdue tasks up their track's escalation ladder. Each stage is recorded
+   * in task_deadline_notices before it is sent, so it goes out once per due date.
+   */
+  @Cron('0 */15 * * * *')
+  async processDeadlines() {
+    try {
+      const now = new Date();
+      const policies = await this.trackPolicies();
+      let management: string[] | null = null;
+      let sent = 0;
+
+      await this.forEachOpenTask({ lt: new Date(now.getTime() + MAX_REMINDER_DAYS * DAY_MS) }, async (task) => {
+        const policy = policies.get(task.trackId || task.assigneeTrackId || '') || DEFAULT_DEADLINE_POLICY;
+        const rule = ruleForPriority(policy, task.priority);
+        const msLeft = task.dueDate!.getTime() - now.getTime();
+
+        if (msLeft > 0) {
+          // Only the nearest reminder reached is sent; earlier ones whose window was missed are skipped
+          const reached = rule.reminderDays.filter((days) => msLeft <= days * DAY_MS);
+          if (reached.length === 0) return;
+          const daysLeft = Math.ceil(msLeft / DAY_MS);
+          const notified = await this.notify(task, DEADLINE_STAGES.reminder(Math.min(...reached)), () => this.assignees(task), {
+            type: 'deadline_approaching',
+            title: 'Deadline Approaching',
+            titleAr: 'اقتراب موعد التسليم',
+            body: `Task "${task.title}" is due in ${daysLeft} day(s)`,
+            bodyAr: `المهمة "${task.titleAr}" يحين موعد تسليمها خلال ${daysLeft} يوم`,
+          });
+          if (notified) sent++;
+          return;
+        }
+
+        const daysOverdue = Math.floor(-msLeft / DAY_MS);
+        const ladder = [
+          {
+            stage: DEADLINE_STAGES.assignee,
+            afterDays: 0,
+            recipients: async () => [...(await this.assignees(task)), task.createdById],
+            message: {
+              type: 'task_overdue',
+              title: 'Task Overdue',
+              titleAr: 'مهمة متأخرة',
+              body: `Task "${task.title}" is overdue`,
+              bodyAr: `المهمة "${task.titleAr}" تجاوزت الموعد المحدد`,
+            },
+          },
+          {
+            stage: DEADLINE_STAGES.trackLead,
+            afterDays: rule.trackLeadAfterDays,
+            recipients: () => this.trackLeads(task),
+            message: {
+              type: 'deadline_overdue',
+              title: 'Overdue Task Escalated',
+              titleAr: 'تصعيد مهمة متأخرة',
+              body: `Task "${task.title}" in your track is ${daysOverdue} day(s) overdue`,
+              bodyAr: `المهمة "${task.titleAr}" في مسارك متأخرة منذ ${daysOverdue} يوم`,
+            },
+          },
+          {
+            stage: DEADLINE_STAGES.management,
+            afterDays: rule.managementAfterDays,
+            recipients: async () => (management ??= await this.management()),
+            message: {
+              type: 'deadline_overdue',
+              title: 'Overdue Task Escalated',
+              titleAr: 'تصعيد مهمة متأخرة',
+              body: `Task "${task.title}" is ${daysOverdue} day(s) overdue and has been escalated to management`,
+              bodyAr: `المهمة "${task.titleAr}" متأخرة منذ ${daysOverdue} يوم وتم تصعيدها إلى الإدارة`,
+            },
+          },
+        ];
+        for (const step of ladder) {
+          if (daysOverdue >= step.afterDays && (await this.notify(task, step.stage, step.recipients, step.message))) sent++;
+        }
+      });
+
+      if (sent > 0) this.logger.log(`Sent ${sent} deadline reminders and escalations`);
+    } catch (error) {
+      this.logger.error('Error in deadline processing', error);
+    }
+  }
+
+  /**
+   * Daily at 9:00 AM Riyadh time (UTC+3 → 6:00 AM UTC): send reminder
+   * for all still-overdue tasks.
+   */
+  @Cron('0 6 * * *') // 6:00 UTC = 9:00 Riyadh
+  async sendDailyOverdueReminders() {
+    try {
+      const now = new Date();
+      let sent = 0;
+
+      await this.forEachOpenTask({ lte: new Date(now.getTime() - DAY_MS) }, async (task) => {
+        const daysOverdue = Math.floor((now.getTime() - task.dueDate!.getTime()) / DAY_MS);
+        const notified = await this.notify(task, DEADLINE_STAGES.overdueDay(daysOverdue), () => this.assignees(task), {
+          type: 'task_overdue',
+          title: 'Overdue Reminder',
+          titleAr: 'تذكير بمهمة متأخرة',
+          body: `Task "${task.title}" is ${daysOverdue} days overdue`,
+          bodyAr: `المهمة "${task.titleAr}" متأخرة منذ ${daysOverdue} يوم`,
+        });
+        if (notified) sent++;
+      });
+
+      if (sent > 0) this.logger.log(`Sent daily reminders for ${sent} overdue tasks`);
+    } catch (error) {
+      this.logger.error('Error sending daily overdue reminders', error);
+    }
+  }
+
+  /** Open tasks with a due date in `dueDate`, in batches. */
+  private async forEachOpenTask(dueDate: Prisma.DateTimeFilter, handle: (task: DeadlineTask) => Promise<void>) {
+    let cursor: string | undefined;
+    for (;;) {
+      const tasks = await this.prisma.task.findMany({
+        where: {
+          isDeleted: false,
+          status: { notIn: ['completed', 'cancelled'] },
+          dueDate,
+        },
+        include: deadlineTaskInclude,
+        orderBy: { id: 'asc' },
+        take: BATCH_SIZE,
+        ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+      });
+      for (const task of tasks) await handle(task);
+      if (tasks.length < BATCH_SIZE) return;
+      cursor = tasks[tasks.length - 1].id;
+    }
+  }
+
+  /**
+   * Record the stage for the task's current due date and notify its recipients.
+   * Returns false when the stage was already recorded (here or by a concurrent run).
+   */
+  private async notify(task: DeadlineTask, stage: string, recipients: () => Promise<string[]>, message: NoticeMessage) {
+    const dueTime = task.dueDate!.getTime();
+    if (task.deadlineNotices.some((n) => n.stage === stage && n.dueDate.getTime() === dueTime)) return false;
+
+    const recipientIds = [...new Set(await recipients())];
+    const { count } = await this.prisma.taskDeadlineNotice.createMany({
+      data: [{ taskId: task.id, stage, dueDate: task.dueDate!, recipientIds }],
+      skipDuplicates: true,
+    });
+    if (count === 0) return false;
+
+    if (recipientIds.length > 0) {
+      await this.notifications.dispatch(recipientIds, {
+        ...message,
+        entityType: 'task',
+        entityId: task.id,
+        trackId: task.trackId || undefined,
+      });
+    }
+    return true;
+  }
+
+  /** Tracks with their own deadline policy, keyed by track id. */
+  private async trackPolicies() {
+    const tracks = await this.prisma.track.findMany({
+      where: { deadlinePolicy: { not: Prisma.DbNull } },
+      select: { id: true, deadlinePolicy: true },
+    });
+    return new Map<string, DeadlinePolicy>(tracks.map((t) => [t.id, resolveDeadlinePolicy(t.deadlinePolicy)]));
+  }
+
+  /** Assigned users; track leads when the task is assigned to a track as a whole. */
+  private async assignees(task: DeadlineTask) {
+    const userIds = task.assignments.map((a) => a.userId);
+    if (task.assigneeUserId) userIds.push(task.assigneeUserId);
+    if (userIds.length === 0 && task.assigneeType === 'TRACK') return this.trackLeads(task);
+    return userIds;
+  }
+
+  private async trackLeads(task: DeadlineTask) {
+    const trackId = task.trackId || task.assigneeTrackId;
+    if (!trackId) return [];
+    const permissions = await this.prisma.trackPermission.findMany({
+      where: { trackId, user: { role: 'track_lead', isActive: true } },
+      select: { userId: true },
+    });
+    return permissions.map((p) => p.userId);
+  }
+
+  private async management() {
+    const users = await this.prisma.user.findMany({
+      where: { role: { in: ['pm', 'admin'] }, isActive: true },
+      select: { id: true },
+    });
+    return users.map((u) => u.id);
+  }
+}
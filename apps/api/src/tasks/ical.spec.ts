@@ -0,0 +1,82 @@
+import { buildICalendar, ICalEvent } from './ical';
+
+const NOW = new Date('2026-03-01T08:30:00Z');
+
+function event(overrides: Partial<ICalEvent> = {}): ICalEvent {
+  return {
+    uid: 'task-1@nusuk',
+    title: 'Deadline',
+    start: new Date('2026-03-10T09:00:00Z'),
+    updatedAt: new Date('2026-02-20T10:15:30.123Z'),
+    ...overrides,
+  };
+}
+
+/** Content lines with folding undone. */
+const unfold = (ics: string) => ics.replace(/\r\n /g, '').split('\r\n');
+
+const property = (ics: string, name: string) => unfold(ics).find((line) => line.startsWith(`${name}:`) || line.startsWith(`${name};`));
+
+describe('buildICalendar', () => {
+  it('ends every line with CRLF', () => {
+    const ics = buildICalendar('Deadlines', [event()], NOW);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('writes an all-day event with an exclusive DTEND', () => {
+    const ics = buildICalendar('Deadlines', [event()], NOW);
+    expect(property(ics, 'DTSTART')).toBe('DTSTART;VALUE=DATE:20260310');
+    expect(property(ics, 'DTEND')).toBe('DTEND;VALUE=DATE:20260311');
+    expect(property(ics, 'DTSTAMP')).toBe('DTSTAMP:20260301T083000Z');
+    expect(property(ics, 'LAST-MODIFIED')).toBe('LAST-MODIFIED:20260220T101530Z');
+  });
+
+  it('spans multi-day events up to the day after the last', () => {
+    const ics = buildICalendar('Deadlines', [event({ end: new Date('2026-03-12T09:00:00Z') })], NOW);
+    expect(property(ics, 'DTEND')).toBe('DTEND;VALUE=DATE:20260313');
+  });
+
+  it('dates events by the Riyadh calendar day', () => {
+    // 22:00 UTC on 9 March is 01:00 on 10 March in Riyadh
+    const ics = buildICalendar('Deadlines', [event({ start: new Date('2026-03-09T22:00:00Z') })], NOW);
+    expect(property(ics, 'DTSTART')).toBe('DTSTART;VALUE=DATE:20260310');
+  });
+
+  it('escapes backslashes, separators and line breaks in text', () => {
+    const ics = buildICalendar('A, B; C', [event({ title: 'path\\to;x,y', description: 'one\ntwo\r\nthree' })], NOW);
+    expect(property(ics, 'X-WR-CALNAME')).toBe('X-WR-CALNAME:A\\, B\\; C');
+    expect(property(ics, 'SUMMARY')).toBe('SUMMARY:path\\\\to\\;x\\,y');
+    expect(property(ics, 'DESCRIPTION')).toBe('DESCRIPTION:one\\ntwo\\nthree');
+  });
+
+  it('folds long lines at 75 octets without splitting UTF-8 characters', () => {
+    const title = 'موعد تسليم تقرير المسار الأسبوعي للمشاعر المقدسة '.repeat(4);
+    const ics = buildICalendar('Deadlines', [event({ title })], NOW);
+    const bytes = Buffer.from(ics);
+    const lines: Buffer[] = [];
+    for (let from = 0, at = bytes.indexOf('\r\n'); at >= 0; from = at + 2, at = bytes.indexOf('\r\n', from)) {
+      lines.push(bytes.subarray(from, at));
+    }
+
+    const decoder = new TextDecoder('utf-8', { fatal: true });
+    for (const line of lines) {
+      expect(line.length).toBeLessThanOrEqual(75);
+      // Each physical line decodes on its own, so no character was cut in two
+      expect(() => decoder.decode(line)).not.toThrow();
+    }
+    expect(lines.filter((line) => line[0] === 0x20).length).toBeGreaterThan(1);
+    expect(property(ics, 'SUMMARY')).toBe(`SUMMARY:${title}`);
+  });
+
+  it('leaves lines within the limit unfolded', () => {
+    const ics = buildICalendar('Deadlines', [event({ title: 'x'.repeat(75 - 'SUMMARY:'.length) })], NOW);
+    expect(ics).not.toContain('\r\n ');
+  });
+
+  it('marks cancelled events and omits empty descriptions', () => {
+    const ics = buildICalendar('Deadlines', [event({ cancelled: true })], NOW);
+    expect(property(ics, 'STATUS')).toBe('STATUS:CANCELLED');
+    expect(property(ics, 'DESCRIPTION')).toBeUndefined();
+  });
+});
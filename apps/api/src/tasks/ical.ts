@@ -0,0 +1,95 @@
+/**
+ * Minimal RFC 5545 (iCalendar) writer for the deadline feeds calendar apps
+ * subscribe to. Events are all-day, dated in Riyadh time so a deadline lands
+ * on the same day as in the web app.
+ */
+import { DAY_MS } from './critical-path';
+import { RIYADH_OFFSET_MS } from './recurrence-rule';
+
+export interface ICalEvent {
+  uid: string;
+  title: string;
+  description?: string;
+  start: Date;
+  // Last day of the event, inclusive; same as start when omitted
+  end?: Date;
+  updatedAt: Date;
+  cancelled?: boolean;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+/** Escapes TEXT values: backslashes, separators and line breaks. */
+function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/** Folds a content line at 75 octets without splitting a UTF-8 character. */
+function fold(line: string) {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their length
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+/** Riyadh calendar date as an iCalendar DATE (YYYYMMDD). */
+function riyadhDate(date: Date) {
+  return new Date(date.getTime() + RIYADH_OFFSET_MS).toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/** UTC timestamp as an iCalendar DATE-TIME. */
+function utcDateTime(date: Date) {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+export function buildICalendar(name: string, events: ICalEvent[], now = new Date()) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Nusuk//Deadlines//AR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+    'X-WR-TIMEZONE:Asia/Riyadh',
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ];
+
+  for (const event of events) {
+    const end = event.end && event.end > event.start ? event.end : event.start;
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${utcDateTime(now)}`,
+      `LAST-MODIFIED:${utcDateTime(event.updatedAt)}`,
+      `DTSTART;VALUE=DATE:${riyadhDate(event.start)}`,
+      // DTEND of an all-day event is exclusive
+      `DTEND;VALUE=DATE:${riyadhDate(new Date(end.getTime() + DAY_MS))}`,
+      `SUMMARY:${escapeText(event.title)}`,
+      'TRANSP:TRANSPARENT',
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.cancelled) lines.push('STATUS:CANCELLED');
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,130 @@
+import { formatRRule, lastOccurrence, nextOccurrence, occurrences, parseRRule, RecurrenceRule, untilFromDate } from './recurrence-rule';
+
+/** The first `n` occurrences as ISO strings. */
+function first(rule: string, start: string, n = 10) {
+  const dates: string[] = [];
+  for (const date of occurrences(parseRRule(rule)!, new Date(start))) {
+    dates.push(date.toISOString());
+    if (dates.length === n) break;
+  }
+  return dates;
+}
+
+describe('parseRRule', () => {
+  it('parses the supported parts', () => {
+    expect(parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,WE;COUNT=4')).toEqual<RecurrenceRule>({
+      freq: 'WEEKLY',
+      interval: 2,
+      byDay: [0, 3],
+      byMonthDay: [],
+      until: null,
+      count: 4,
+    });
+  });
+
+  it.each([
+    'FREQ=YEARLY',
+    'INTERVAL=2',
+    'FREQ=DAILY;INTERVAL=0',
+    'FREQ=WEEKLY;BYDAY=1MO',
+    'FREQ=MONTHLY;BYMONTHDAY=-2',
+    'FREQ=DAILY;COUNT=0',
+    'FREQ=DAILY;UNTIL=2026-01-01',
+    'FREQ=DAILY;BYSETPOS=1',
+  ])('rejects %s', (value) => {
+    expect(parseRRule(value)).toBeNull();
+  });
+
+  it.each(['FREQ=DAILY;BYMONTHDAY=1', 'FREQ=WEEKLY;BYMONTHDAY=15', 'FREQ=MONTHLY;BYDAY=MO'])(
+    'rejects %s, which occurrences would ignore',
+    (value) => {
+      expect(parseRRule(value)).toBeNull();
+    },
+  );
+
+  it('formats back to an equivalent rule', () => {
+    const value = 'FREQ=MONTHLY;INTERVAL=3;BYMONTHDAY=1,-1;UNTIL=20261231T205959Z;COUNT=5';
+    expect(formatRRule(parseRRule(value)!)).toBe(value);
+  });
+});
+
+describe('occurrences', () => {
+  it('lands BYMONTHDAY=-1 on the last day of every month', () => {
+    expect(first('FREQ=MONTHLY;BYMONTHDAY=-1', '2026-01-31T06:00:00Z', 4)).toEqual([
+      '2026-01-31T06:00:00.000Z',
+      '2026-02-28T06:00:00.000Z',
+      '2026-03-31T06:00:00.000Z',
+      '2026-04-30T06:00:00.000Z',
+    ]);
+  });
+
+  it('skips months without the requested day', () => {
+    expect(first('FREQ=MONTHLY;BYMONTHDAY=31', '2026-01-31T06:00:00Z', 3)).toEqual([
+      '2026-01-31T06:00:00.000Z',
+      '2026-03-31T06:00:00.000Z',
+      '2026-05-31T06:00:00.000Z',
+    ]);
+  });
+
+  it('stops after COUNT occurrences', () => {
+    expect(first('FREQ=DAILY;INTERVAL=2;COUNT=3', '2026-01-01T06:00:00Z')).toEqual([
+      '2026-01-01T06:00:00.000Z',
+      '2026-01-03T06:00:00.000Z',
+      '2026-01-05T06:00:00.000Z',
+    ]);
+  });
+
+  it('includes the whole Riyadh day of a date-only UNTIL', () => {
+    expect(first('FREQ=DAILY;UNTIL=20260103', '2026-01-01T20:00:00Z')).toEqual([
+      '2026-01-01T20:00:00.000Z',
+      '2026-01-02T20:00:00.000Z',
+      '2026-01-03T20:00:00.000Z',
+    ]);
+    // 21:00 UTC is midnight in Riyadh, so the third one falls on 4 January
+    expect(first('FREQ=DAILY;UNTIL=20260103', '2026-01-01T21:00:00Z')).toEqual([
+      '2026-01-01T21:00:00.000Z',
+      '2026-01-02T21:00:00.000Z',
+    ]);
+  });
+
+  it('repeats BYDAY weekdays every INTERVAL weeks', () => {
+    // 2026-01-04 is a Sunday
+    expect(first('FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,WE', '2026-01-04T06:00:00Z', 5)).toEqual([
+      '2026-01-04T06:00:00.000Z',
+      '2026-01-07T06:00:00.000Z',
+      '2026-01-18T06:00:00.000Z',
+      '2026-01-21T06:00:00.000Z',
+      '2026-02-01T06:00:00.000Z',
+    ]);
+  });
+
+  it('takes the weekday of a weekly series from the Riyadh date', () => {
+    // 22:00 UTC on Thursday is already Friday in Riyadh
+    expect(first('FREQ=WEEKLY', '2026-01-01T22:00:00Z', 2)).toEqual([
+      '2026-01-01T22:00:00.000Z',
+      '2026-01-08T22:00:00.000Z',
+    ]);
+  });
+});
+
+describe('nextOccurrence and lastOccurrence', () => {
+  const rule = parseRRule('FREQ=WEEKLY;COUNT=3')!;
+  const start = new Date('2026-01-04T06:00:00Z');
+
+  it('finds the occurrences around a moment', () => {
+    expect(nextOccurrence(rule, start, new Date('2026-01-05T00:00:00Z'))).toEqual(new Date('2026-01-11T06:00:00Z'));
+    expect(lastOccurrence(rule, start, new Date('2026-01-12T00:00:00Z'))).toEqual(new Date('2026-01-11T06:00:00Z'));
+  });
+
+  it('returns null outside the series', () => {
+    expect(nextOccurrence(rule, start, new Date('2026-01-18T06:00:00Z'))).toBeNull();
+    expect(lastOccurrence(rule, start, new Date('2026-01-01T00:00:00Z'))).toBeNull();
+  });
+});
+
+describe('untilFromDate', () => {
+  it('ends a date-only value at the end of that Riyadh day', () => {
+    expect(untilFromDate('2026-01-03')).toEqual(new Date('2026-01-03T20:59:59Z'));
+    expect(untilFromDate('2026-01-03T12:00:00Z')).toEqual(new Date('2026-01-03T12:00:00Z'));
+  });
+});
@@ -0,0 +1,162 @@
+/**
+ * Recurrence rules for recurring tasks, stored as a subset of RFC 5545 RRULE:
+ * FREQ=DAILY|WEEKLY|MONTHLY with INTERVAL, BYDAY (plain weekdays; daily and
+ * weekly only), BYMONTHDAY (1..31 or -1 for the last day; monthly only), UNTIL
+ * and COUNT. Occurrences are computed in Riyadh time (UTC+3, no DST) so
+ * weekdays and month days match the local calendar, and keep the time of day
+ * of the series' first occurrence.
+ */
+import { DAY_MS } from './critical-path';
+
+export const RECURRENCE_FREQUENCIES = ['daily', 'weekly', 'monthly', 'custom'] as const;
+
+/** RRULE weekday codes, indexed like Date#getUTCDay (Sunday first). */
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'] as const;
+
+export const RIYADH_OFFSET_MS = 3 * 60 * 60 * 1000;
+const MAX_ITERATIONS = 20000;
+
+export interface RecurrenceRule {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byDay: number[]; // weekday indexes
+  byMonthDay: number[];
+  until: Date | null;
+  count: number | null;
+}
+
+/** Parses a rule string; null when it is malformed or uses parts this subset does not support. */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const rule: RecurrenceRule = { freq: 'DAILY', interval: 1, byDay: [], byMonthDay: [], until: null, count: null };
+  let freq: string | null = null;
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, raw] = part.split('=');
+    if (!key || raw === undefined) return null;
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        freq = raw.toUpperCase();
+        break;
+      case 'INTERVAL':
+        rule.interval = Number(raw);
+        if (!Number.isInteger(rule.interval) || rule.interval < 1) return null;
+        break;
+      case 'BYDAY':
+        for (const day of raw.toUpperCase().split(',')) {
+          const index = RRULE_WEEKDAYS.indexOf(day as (typeof RRULE_WEEKDAYS)[number]);
+          if (index < 0) return null;
+          rule.byDay.push(index);
+        }
+        break;
+      case 'BYMONTHDAY':
+        for (const day of raw.split(',').map(Number)) {
+          if (!Number.isInteger(day) || day === 0 || day < -1 || day > 31) return null;
+          rule.byMonthDay.push(day);
+        }
+        break;
+      case 'UNTIL':
+        rule.until = parseUntil(raw);
+        if (!rule.until) return null;
+        break;
+      case 'COUNT':
+        rule.count = Number(raw);
+        if (!Number.isInteger(rule.count) || rule.count < 1) return null;
+        break;
+      default:
+        return null;
+    }
+  }
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') return null;
+  // occurrences() would silently ignore these combinations
+  if (freq === 'MONTHLY' ? rule.byDay.length > 0 : rule.byMonthDay.length > 0) return null;
+  rule.freq = freq;
+  return rule;
+}
+
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${[...new Set(rule.byDay)].sort().map((d) => RRULE_WEEKDAYS[d]).join(',')}`);
+  if (rule.byMonthDay.length > 0) parts.push(`BYMONTHDAY=${[...new Set(rule.byMonthDay)].join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+function parseUntil(raw: string): Date | null {
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss] = match;
+  // A date-only UNTIL includes the whole (Riyadh) day
+  const date = hh
+    ? new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss))
+    : new Date(Date.UTC(+y, +m - 1, +d, 23, 59, 59) - RIYADH_OFFSET_MS);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/** UNTIL for an end date from the API: a date-only value includes that whole (Riyadh) day. */
+export function untilFromDate(value: string): Date {
+  return value.length === 10 ? parseUntil(value.replace(/-/g, ''))! : new Date(value);
+}
+
+/** Occurrence start times in order, beginning with `start` itself when it matches the rule. */
+export function* occurrences(rule: RecurrenceRule, start: Date): Generator<Date> {
+  const local = new Date(start.getTime() + RIYADH_OFFSET_MS);
+  const timeOfDay = local.getTime() % DAY_MS;
+  const firstDay = local.getTime() - timeOfDay;
+  let emitted = 0;
+
+  const emit = (localDay: number) => new Date(localDay + timeOfDay - RIYADH_OFFSET_MS);
+  const done = (date: Date) => (rule.until && date > rule.until) || (rule.count !== null && emitted >= rule.count);
+
+  if (rule.freq === 'MONTHLY') {
+    const monthDays = rule.byMonthDay.length > 0 ? rule.byMonthDay : [local.getUTCDate()];
+    for (let k = 0; k < MAX_ITERATIONS; k++) {
+      const month = local.getUTCMonth() + k * rule.interval;
+      const lastDay = new Date(Date.UTC(local.getUTCFullYear(), month + 1, 0)).getUTCDate();
+      const days = [...new Set(monthDays.map((d) => (d === -1 ? lastDay : d)))]
+        .filter((d) => d <= lastDay)
+        .sort((a, b) => a - b);
+      for (const day of days) {
+        const localDay = Date.UTC(local.getUTCFullYear(), month, day);
+        if (localDay < firstDay) continue;
+        const date = emit(localDay);
+        if (done(date)) return;
+        emitted++;
+        yield date;
+      }
+    }
+    return;
+  }
+
+  const weekdays = rule.byDay.length > 0 ? rule.byDay : rule.freq === 'WEEKLY' ? [local.getUTCDay()] : [];
+  const weekStart = firstDay - local.getUTCDay() * DAY_MS;
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const localDay = firstDay + i * DAY_MS;
+    const inPeriod = rule.freq === 'DAILY'
+      ? i % rule.interval === 0
+      : Math.floor((localDay - weekStart) / (7 * DAY_MS)) % rule.interval === 0;
+    if (!inPeriod || (weekdays.length > 0 && !weekdays.includes(new Date(localDay).getUTCDay()))) continue;
+    const date = emit(localDay);
+    if (done(date)) return;
+    emitted++;
+    yield date;
+  }
+}
+
+/** First occurrence strictly after `after`, or null once the series has ended. */
+export function nextOccurrence(rule: RecurrenceRule, start: Date, after: Date): Date | null {
+  for (const date of occurrences(rule, start)) {
+    if (date > after) return date;
+  }
+  return null;
+}
+
+/** Last occurrence at or before `at`, or null when the series has not started yet. */
+export function lastOccurrence(rule: RecurrenceRule, start: Date, at: Date): Date | null {
+  let last: Date | null = null;
+  for (const date of occurrences(rule, start)) {
+    if (date > at) break;
+    last = date;
+  }
+  return last;
+}
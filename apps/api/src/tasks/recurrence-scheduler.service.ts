@@ -0,0 +1,38 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron } from '@nestjs/schedule';
+import { TasksService } from './tasks.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+
+@Injectable()
+export class RecurrenceSchedulerService {
+  private readonly logger = new Logger(RecurrenceSchedulerService.name);
+
+  constructor(
+    private tasks: TasksService,
+    private recurrences: TaskRecurrenceService,
+  ) {}
+
+  /**
+   * Every 15 minutes: create the due occurrence of each recurring series,
+   * with the series' assignees, reviewers and checklist.
+   */
+  @Cron('0 */15 * * * *')
+  async materializeOccurrences() {
+    try {
+      const claimed = await this.recurrences.claimDue(new Date());
+      if (claimed.length === 0) return;
+
+      for (const { series, occurrenceDate } of claimed) {
+        try {
+          await this.tasks.createOccurrence(series, occurrenceDate);
+        } catch (error) {
+          this.logger.error(`Failed to create occurrence of recurring series ${series.id}`, error);
+        }
+      }
+
+      this.logger.log(`Created ${claimed.length} recurring task occurrences`);
+    } catch (error) {
+      this.logger.error('Error materializing recurring tasks', error);
+    }
+  }
+}
@@ -0,0 +1,299 @@
+import { Injectable, NotFoundException, BadRequestException, ConflictException } from '@nestjs/common';
+import { PrismaService } from '../common/prisma.service';
+import { computeSchedule, requiredStart, slipDays, DAY_MS, ScheduleEdge, ScheduleNode, ScheduleResult } from './critical-path';
+
+const taskSummary = {
+  id: true,
+  titleAr: true,
+  status: true,
+  trackId: true,
+  startDate: true,
+  dueDate: true,
+  completionDate: true,
+  track: { select: { id: true, nameAr: true, color: true } },
+};
+
+const scheduleSelect = {
+  id: true,
+  trackId: true,
+  assigneeTrackId: true,
+  status: true,
+  startDate: true,
+  dueDate: true,
+  completionDate: true,
+};
+
+type ScheduleTask = ScheduleNode & { trackId: string | null; assigneeTrackId: string | null };
+
+export interface TrackSchedule {
+  plannedEnd: Date | null;
+  forecastEnd: Date | null;
+  slipDays: number;
+  criticalTaskCount: number;
+}
+
+export interface DateShift {
+  taskId: string;
+  before: { startDate: Date | null; dueDate: Date | null };
+  after: { startDate: Date | null; dueDate: Date | null };
+}
+
+/**
+ * Task-to-task dependencies: graph integrity (no cycles), blocking checks,
+ * date-slip propagation and critical-path figures. Audit and real-time
+ * broadcasting stay in TasksService, which calls in here.
+ */
+@Injectable()
+export class TaskDependenciesService {
+  constructor(private prisma: PrismaService) {}
+
+  async list(taskId: string) {
+    const [predecessors, successors] = await Promise.all([
+      this.prisma.taskDependency.findMany({
+        where: { successorId: taskId, predecessor: { isDeleted: false } },
+        include: { predecessor: { select: taskSummary } },
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.taskDependency.findMany({
+        where: { predecessorId: taskId, successor: { isDeleted: false } },
+        include: { successor: { select: taskSummary } },
+        orderBy: { createdAt: 'asc' },
+      }),
+    ]);
+    const blockers = predecessors.filter((d) => this.isBlocking(d.type, d.predecessor.status)).map((d) => d.predecessor);
+    return { predecessors, successors, blockers };
+  }
+
+  async add(successorId: string, predecessorId: string, type: string, lagDays: number, userId: string) {
+    if (successorId === predecessorId) {
+      throw new BadRequestException('لا يمكن أن تعتمد المهمة على نفسها');
+    }
+    const predecessor = await this.prisma.task.findUnique({ where: { id: predecessorId } });
+    if (!predecessor || predecessor.isDeleted) throw new NotFoundException('المهمة السابقة غير موجودة');
+
+    const existing = await this.prisma.taskDependency.findUnique({
+      where: { predecessorId_successorId: { predecessorId, successorId } },
+    });
+    if (existing) throw new ConflictException('هذه التبعية موجودة بالفعل');
+
+    if (await this.reaches(successorId, predecessorId)) {
+      throw new BadRequestException('لا يمكن إضافة التبعية لأنها تُنشئ حلقة بين المهام');
+    }
+
+    return this.prisma.taskDependency.create({
+      data: { predecessorId, successorId, type, lagDays, createdById: userId },
+      include: { predecessor: { select: taskSummary } },
+    });
+  }
+
+  async remove(taskId: string, dependencyId: string) {
+    const dependency = await this.prisma.taskDependency.findFirst({
+      where: { id: dependencyId, OR: [{ successorId: taskId }, { predecessorId: taskId }] },
+    });
+    if (!dependency) throw new NotFoundException('التبعية غير موجودة');
+    await this.prisma.taskDependency.delete({ where: { id: dependencyId } });
+    return dependency;
+  }
+
+  /**
+   * Predecessors holding a task back: FS predecessors that are not completed
+   * and SS predecessors that have not started. Cancelled tasks never block.
+   */
+  async getBlockers(taskId: string) {
+    const dependencies = await this.prisma.taskDependency.findMany({
+      where: { successorId: taskId, predecessor: { isDeleted: false } },
+      include: { predecessor: { select: taskSummary } },
+    });
+    return dependencies
+      .filter((d) => this.isBlocking(d.type, d.predecessor.status))
+      .map((d) => ({ ...d.predecessor, dependencyType: d.type }));
+  }
+
+  private isBlocking(type: string, predecessorStatus: string) {
+    if (predecessorStatus === 'cancelled') return false;
+    return type === 'SS'
+      ? predecessorStatus === 'pending' || predecessorStatus === 'delayed'
+      : predecessorStatus !== 'completed';
+  }
+
+  /** Depth-first walk along successor edges: does `from` lead to `to`? */
+  private async reaches(from: string, to: string) {
+    const seen = new Set<string>([from]);
+    let frontier = [from];
+    while (frontier.length > 0) {
+      const edges = await this.prisma.taskDependency.findMany({
+        where: { predecessorId: { in: frontier } },
+        select: { successorId: true },
+      });
+      frontier = [];
+      for (const { successorId } of edges) {
+        if (successorId === to) return true;
+        if (!seen.has(successorId)) {
+          seen.add(successorId);
+          frontier.push(successorId);
+        }
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Pushes open successors later when a task's dates no longer leave room for
+   * them, walking the graph until nothing moves. Dates only ever move later;
+   * both start and due date shift so the planned duration is kept.
+   */
+  async propagateSlip(taskId: string): Promise<DateShift[]> {
+    const shifts: DateShift[] = [];
+    const current = new Map<string, ScheduleTask>();
+    let frontier = [taskId];
+
+    while (frontier.length > 0) {
+      const edges = await this.prisma.taskDependency.findMany({
+        where: { predecessorId: { in: frontier } },
+        include: {
+          predecessor: { select: scheduleSelect },
+          successor: { select: { ...scheduleSelect, isDeleted: true } },
+        },
+      });
+      const next = new Set<string>();
+
+      for (const edge of edges) {
+        const pred = current.get(edge.predecessorId) || edge.predecessor;
+        const succ = current.get(edge.successorId) || edge.successor;
+        if (edge.successor.isDeleted || succ.status === 'completed' || succ.status === 'cancelled') continue;
+
+        const required = requiredStart(pred, edge);
+        const plannedStart = succ.startDate ?? succ.dueDate;
+        if (!required || !plannedStart || plannedStart >= required) continue;
+
+        const delta = Math.ceil((required.getTime() - plannedStart.getTime()) / DAY_MS) * DAY_MS;
+        const moved = {
+          ...succ,
+          startDate: succ.startDate && new Date(succ.startDate.getTime() + delta),
+          dueDate: succ.dueDate && new Date(succ.dueDate.getTime() + delta),
+        };
+        const previous = shifts.find((s) => s.taskId === succ.id);
+        if (previous) {
+          previous.after = { startDate: moved.startDate, dueDate: moved.dueDate };
+        } else {
+          shifts.push({
+            taskId: succ.id,
+            before: { startDate: succ.startDate, dueDate: succ.dueDate },
+            after: { startDate: moved.startDate, dueDate: moved.dueDate },
+          });
+        }
+        current.set(succ.id, moved);
+        next.add(succ.id);
+      }
+      frontier = [...next];
+    }
+
+    if (shifts.length > 0) {
+      await this.prisma.$transaction(
+        shifts.map((s) => this.prisma.task.update({ where: { id: s.taskId }, data: s.after })),
+      );
+    }
+    return shifts;
+  }
+
+  // ─── CRITICAL PATH ───
+
+  /**
+   * Schedule of a track's tasks. Predecessors in other tracks are pulled in
+   * (transitively) because they can delay this track, but only the track's
+   * own tasks count towards its planned and forecast end.
+   */
+  async getCriticalPath(trackId: string) {
+    const own = await this.prisma.task.findMany({
+      where: {
+        isDeleted: false,
+        OR: [{ trackId }, { assigneeType: 'TRACK', assigneeTrackId: trackId }],
+      },
+      select: scheduleSelect,
+    });
+
+    const tasks = new Map<string, ScheduleTask>(own.map((t) => [t.id, t]));
+    const edges: ScheduleEdge[] = [];
+    const seenEdges = new Set<string>();
+    let frontier = own.map((t) => t.id);
+    while (frontier.length > 0) {
+      const incoming = await this.prisma.taskDependency.findMany({
+        where: { successorId: { in: frontier }, predecessor: { isDeleted: false } },
+        include: { predecessor: { select: scheduleSelect } },
+      });
+      frontier = [];
+      for (const e of incoming) {
+        if (seenEdges.has(e.id)) continue;
+        seenEdges.add(e.id);
+        edges.push(e);
+        if (!tasks.has(e.predecessorId)) {
+          tasks.set(e.predecessorId, e.predecessor);
+          frontier.push(e.predecessorId);
+        }
+      }
+    }
+
+    const ownIds = new Set(own.map((t) => t.id));
+    const schedule = computeSchedule([...tasks.values()], edges);
+    const summary = this.summarize(schedule, [...ownIds]);
+
+    const criticalTasks = schedule.criticalPath.map((id) => {
+      const task = tasks.get(id)!;
+      const entry = schedule.tasks.get(id)!;
+      return {
+        ...task,
+        external: !ownIds.has(id),
+        forecastStart: entry.earlyStart,
+        forecastFinish: entry.earlyFinish,
+        slackDays: entry.slackDays,
+      };
+    });
+    const titles = await this.prisma.task.findMany({
+      where: { id: { in: criticalTasks.map((t) => t.id) } },
+      select: { id: true, titleAr: true, track: { select: { id: true, nameAr: true, color: true } } },
+    });
+    const titleMap = new Map(titles.map((t) => [t.id, t]));
+
+    return {
+      trackId,
+      ...summary,
+      unscheduledTasks: own.filter((t) => !t.dueDate).length,
+      criticalPath: criticalTasks.map((t) => ({ ...t, ...titleMap.get(t.id) })),
+    };
+  }
+
+  /** Planned vs forecast end for every track, from one pass over the whole graph. */
+  async getTrackSchedules(trackIds: string[]) {
+    if (trackIds.length === 0) return new Map<string, TrackSchedule>();
+    const [tasks, edges] = await Promise.all([
+      this.prisma.task.findMany({ where: { isDeleted: false }, select: scheduleSelect }),
+      this.prisma.taskDependency.findMany(),
+    ]);
+    const schedule = computeSchedule(tasks, edges);
+
+    return new Map(
+      trackIds.map((trackId) => {
+        const ids = tasks
+          .filter((t) => t.trackId === trackId || t.assigneeTrackId === trackId)
+          .map((t) => t.id);
+        return [trackId, this.summarize(schedule, ids)] as const;
+      }),
+    );
+  }
+
+  private summarize(schedule: ScheduleResult, taskIds: string[]): TrackSchedule {
+    const entries = taskIds.map((id) => schedule.tasks.get(id)).filter((e) => !!e);
+    if (entries.length === 0) {
+      return { plannedEnd: null, forecastEnd: null, slipDays: 0, criticalTaskCount: 0 };
+    }
+    const plannedEnd = Math.max(...entries.map((e) => e.plannedFinish.getTime()));
+    const forecastEnd = Math.max(...entries.map((e) => e.earlyFinish.getTime()));
+    const critical = new Set(schedule.criticalPath);
+    return {
+      plannedEnd: new Date(plannedEnd),
+      forecastEnd: new Date(forecastEnd),
+      slipDays: slipDays(forecastEnd, plannedEnd),
+      criticalTaskCount: entries.filter((e) => critical.has(e.id)).length,
+    };
+  }
+}
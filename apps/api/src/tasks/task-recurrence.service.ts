@@ -0,0 +1,219 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma, TaskRecurrence } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { formatRRule, lastOccurrence, nextOccurrence, parseRRule, RecurrenceRule, RRULE_WEEKDAYS, untilFromDate } from './recurrence-rule';
+import { CreateTaskDto, TaskRecurrenceDto } from './tasks.dto';
+
+/** Fields every occurrence of a series is created with. */
+export interface RecurrenceTemplate {
+  title: string;
+  titleAr: string;
+  description: string | null;
+  descriptionAr: string | null;
+  priority: string;
+  trackId: string | null;
+  scopeBlockId: string | null;
+  notes: string | null;
+  weight: number;
+  assigneeType: string;
+  assigneeTrackId: string | null;
+  assigneeUserId: string | null;
+  assigneeIds: string[];
+  reviewerIds: string[];
+  checklist: Array<{ title: string; titleAr: string | null; sortOrder: number; notes: string | null }>;
+  // The occurrence date is the start date when the task had one (due date =
+  // start + durationMs), otherwise the due date itself
+  hasStartDate: boolean;
+  durationMs: number | null;
+}
+
+interface TemplateSource {
+  title: string;
+  titleAr: string;
+  description: string | null;
+  descriptionAr: string | null;
+  priority: string;
+  trackId: string | null;
+  scopeBlockId: string | null;
+  notes: string | null;
+  weight: number;
+  assigneeType: string;
+  assigneeTrackId: string | null;
+  assigneeUserId: string | null;
+  startDate: Date | null;
+  dueDate: Date | null;
+  assignments: Array<{ userId: string }>;
+  reviewers: Array<{ userId: string }>;
+  checklist: Array<{ title: string; titleAr: string | null; sortOrder: number; notes: string | null }>;
+}
+
+/**
+ * Recurring task series: rule building, template snapshots and deciding
+ * which occurrence is due. Creating the occurrence tasks themselves (with
+ * audit and events) stays in TasksService, which calls in here.
+ */
+@Injectable()
+export class TaskRecurrenceService {
+  constructor(private prisma: PrismaService) {}
+
+  /** The date a task's occurrence is anchored on: its start date, else its due date. */
+  anchorOf(task: { startDate?: Date | string | null; dueDate?: Date | string | null }) {
+    const anchor = task.startDate || task.dueDate;
+    if (!anchor) throw new BadRequestException('حدد تاريخ البدء أو الاستحقاق لجدولة تكرار المهمة');
+    return new Date(anchor);
+  }
+
+  /** Builds the stored rule string for a series whose first occurrence is `start`. */
+  buildRule(dto: TaskRecurrenceDto, start: Date): string {
+    let rule: RecurrenceRule | null;
+    if (dto.frequency === 'custom') {
+      rule = parseRRule(dto.rrule || '');
+      if (!rule) throw new BadRequestException('قاعدة التكرار غير صالحة أو تستخدم خيارات غير مدعومة');
+    } else {
+      rule = {
+        freq: dto.frequency === 'daily' ? 'DAILY' : dto.frequency === 'weekly' ? 'WEEKLY' : 'MONTHLY',
+        interval: dto.interval || 1,
+        byDay: dto.frequency === 'weekly' ? (dto.weekdays || []).map((d) => RRULE_WEEKDAYS.indexOf(d as (typeof RRULE_WEEKDAYS)[number])) : [],
+        byMonthDay: dto.frequency === 'monthly' && dto.monthDay ? [dto.monthDay] : [],
+        until: null,
+        count: null,
+      };
+    }
+    if (dto.endDate) rule.until = untilFromDate(dto.endDate);
+    if (rule.until && rule.until < start) {
+      throw new BadRequestException('تاريخ انتهاء التكرار يجب أن يكون بعد أول موعد للمهمة');
+    }
+    return formatRRule(rule);
+  }
+
+  snapshot(task: TemplateSource): RecurrenceTemplate {
+    return {
+      title: task.title,
+      titleAr: task.titleAr,
+      description: task.description,
+      descriptionAr: task.descriptionAr,
+      priority: task.priority,
+      trackId: task.trackId,
+      scopeBlockId: task.scopeBlockId,
+      notes: task.notes,
+      weight: task.weight,
+      assigneeType: task.assigneeType,
+      assigneeTrackId: task.assigneeTrackId,
+      assigneeUserId: task.assigneeUserId,
+      assigneeIds: task.assignments.map((a) => a.userId),
+      reviewerIds: task.reviewers.map((r) => r.userId),
+      checklist: task.checklist.map(({ title, titleAr, sortOrder, notes }) => ({ title, titleAr, sortOrder, notes })),
+      hasStartDate: !!task.startDate,
+      durationMs: task.startDate && task.dueDate ? task.dueDate.getTime() - task.startDate.getTime() : null,
+    };
+  }
+
+  /** Starts a series with `task` as its first occurrence. */
+  async startSeries(task: TemplateSource & { id: string }, rrule: string, userId: string) {
+    const start = this.anchorOf(task);
+    const recurrence = await this.prisma.taskRecurrence.create({
+      data: {
+        rrule,
+        startsAt: start,
+        nextOccurrenceAt: nextOccurrence(parseRRule(rrule)!, start, start),
+        template: this.snapshot(task) as unknown as Prisma.InputJsonValue,
+        createdById: userId,
+      },
+    });
+    await this.prisma.task.update({
+      where: { id: task.id },
+      data: { recurrenceId: recurrence.id, occurrenceDate: start },
+    });
+    return recurrence;
+  }
+
+  async findSeries(id: string) {
+    const recurrence = await this.prisma.taskRecurrence.findUnique({ where: { id } });
+    if (!recurrence) throw new NotFoundException('سلسلة التكرار غير موجودة');
+    return recurrence;
+  }
+
+  async updateTemplate(id: string, task: TemplateSource) {
+    return this.prisma.taskRecurrence.update({
+      where: { id },
+      data: { template: this.snapshot(task) as unknown as Prisma.InputJsonValue },
+    });
+  }
+
+  /** Replaces the rule; the next occurrence is the first one after now and after every existing occurrence. */
+  async setRule(id: string, rrule: string) {
+    const series = await this.findSeries(id);
+    const latest = await this.prisma.task.findFirst({
+      where: { recurrenceId: id },
+      orderBy: { occurrenceDate: 'desc' },
+      select: { occurrenceDate: true },
+    });
+    const now = new Date();
+    const after = latest?.occurrenceDate && latest.occurrenceDate > now ? latest.occurrenceDate : now;
+    const next = nextOccurrence(parseRRule(rrule)!, series.startsAt, after);
+    return this.prisma.taskRecurrence.update({
+      where: { id },
+      data: { rrule, nextOccurrenceAt: next, isActive: next !== null },
+    });
+  }
+
+  async stop(id: string) {
+    await this.findSeries(id);
+    return this.prisma.taskRecurrence.update({
+      where: { id },
+      data: { isActive: false, nextOccurrenceAt: null },
+    });
+  }
+
+  /**
+   * Claims the occurrence each due series should materialize now and moves the
+   * series on to its next one. Occurrences missed while the scheduler was down
+   * are skipped, only the latest is created. The claim is a conditional update,
+   * so concurrent runs never claim the same occurrence twice.
+   */
+  async claimDue(now: Date) {
+    const due = await this.prisma.taskRecurrence.findMany({
+      where: { isActive: true, nextOccurrenceAt: { lte: now } },
+      take: 100,
+    });
+    const claimed: Array<{ series: TaskRecurrence; occurrenceDate: Date }> = [];
+    for (const series of due) {
+      const rule = parseRRule(series.rrule);
+      const occurrenceDate = rule ? lastOccurrence(rule, series.startsAt, now) : null;
+      const next = rule ? nextOccurrence(rule, series.startsAt, now) : null;
+      const { count } = await this.prisma.taskRecurrence.updateMany({
+        where: { id: series.id, nextOccurrenceAt: series.nextOccurrenceAt },
+        data: { nextOccurrenceAt: next, isActive: next !== null },
+      });
+      if (count === 1 && occurrenceDate && occurrenceDate >= series.nextOccurrenceAt!) {
+        claimed.push({ series, occurrenceDate });
+      }
+    }
+    return claimed;
+  }
+
+  /** The create payload for the occurrence of `template` on `occurrenceDate`. */
+  occurrenceDto(template: RecurrenceTemplate, occurrenceDate: Date): CreateTaskDto {
+    const dueDate = template.hasStartDate
+      ? template.durationMs !== null ? new Date(occurrenceDate.getTime() + template.durationMs) : null
+      : occurrenceDate;
+    return {
+      title: template.title,
+      titleAr: template.titleAr,
+      description: template.description ?? undefined,
+      descriptionAr: template.descriptionAr ?? undefined,
+      priority: template.priority,
+      trackId: template.trackId ?? undefined,
+      scopeBlockId: template.scopeBlockId ?? undefined,
+      notes: template.notes ?? undefined,
+      weight: template.weight,
+      assigneeType: template.assigneeType,
+      assigneeTrackId: template.assigneeTrackId ?? undefined,
+      assigneeUserId: template.assigneeUserId ?? undefined,
+      assigneeIds: template.assigneeIds,
+      reviewerIds: template.reviewerIds,
+      startDate: template.hasStartDate ? occurrenceDate.toISOString() : undefined,
+      dueDate: dueDate?.toISOString(),
+    };
+  }
+}
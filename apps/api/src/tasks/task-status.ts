@@ -0,0 +1,10 @@
+export const TASK_STATUSES = ['pending', 'in_progress', 'under_review', 'completed', 'delayed', 'cancelled'] as const;
+
+export const TASK_STATUS_LABELS_AR: Record<string, string> = {
+  pending: 'قيد الانتظار',
+  in_progress: 'قيد التنفيذ',
+  under_review: 'تحت المراجعة',
+  completed: 'مكتملة',
+  delayed: 'متأخرة',
+  cancelled: 'ملغاة',
+};
@@ -0,0 +1,109 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, Query, UseGuards, Req } from '@nestjs/common';
+import { Request } from 'express';
+import { TaskTemplatesService } from './task-templates.service';
+import { TasksService } from './tasks.service';
+import { AuditService } from '../audit/audit.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard } from '../common/guards/track-permission.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { ApplyTaskTemplateDto, CreateTaskTemplateDto, UpdateTaskTemplateDto } from './task-templates.dto';
+
+/**
+ * Task template library. Admin/PM manage the shared templates (no track);
+ * track leads manage their own tracks' templates and apply templates to them.
+ */
+@Controller('task-templates')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pm', 'track_lead')
+export class TaskTemplatesController {
+  constructor(
+    private templates: TaskTemplatesService,
+    private tasks: TasksService,
+    private audit: AuditService,
+  ) {}
+
+  @Get()
+  findAll(@CurrentUser() user: any, @Query('trackId') trackId?: string) {
+    return this.templates.findAll(user, trackId);
+  }
+
+  @Get(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { entity: 'taskTemplate' })
+  findOne(@Param('id') id: string) {
+    return this.templates.findById(id);
+  }
+
+  @Post()
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('create')
+  async create(@Body() dto: CreateTaskTemplateDto, @CurrentUser() user: any, @Req() req: Request) {
+    const template = await this.templates.create(dto, user);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'create',
+      entityType: 'task_template',
+      entityId: template.id,
+      trackId: template.trackId || undefined,
+      afterData: template as any,
+      ip: req.ip,
+    });
+    return template;
+  }
+
+  @Patch(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('edit', { entity: 'taskTemplate' })
+  async update(@Param('id') id: string, @Body() dto: UpdateTaskTemplateDto, @CurrentUser() user: any, @Req() req: Request) {
+    const { before, after } = await this.templates.update(id, dto, user);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'update',
+      entityType: 'task_template',
+      entityId: id,
+      trackId: after.trackId || undefined,
+      beforeData: before as any,
+      afterData: after as any,
+      ip: req.ip,
+    });
+    return after;
+  }
+
+  @Delete(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('delete', { entity: 'taskTemplate' })
+  async delete(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
+    const template = await this.templates.delete(id, user);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'delete',
+      entityType: 'task_template',
+      entityId: id,
+      trackId: template.trackId || undefined,
+      beforeData: template as any,
+      ip: req.ip,
+    });
+    return { message: 'تم حذف القالب' };
+  }
+
+  /** Creates the template's tasks on the track given in the body. */
+  @Post(':id/apply')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('create', { from: 'body', key: 'trackId' })
+  async apply(@Param('id') id: string, @Body() dto: ApplyTaskTemplateDto, @CurrentUser() user: any, @Req() req: Request) {
+    const result = await this.tasks.applyTemplate(id, dto, user.id);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'apply_template',
+      entityType: 'task_template',
+      entityId: id,
+      trackId: dto.trackId,
+      afterData: { scopeBlockId: dto.scopeBlockId, startDate: dto.startDate, taskIds: result.tasks.map((t) => t.id) } as any,
+      ip: req.ip,
+    });
+    return result;
+  }
+}
@@ -0,0 +1,166 @@
+import { IsString, IsOptional, IsEnum, IsNumber, IsInt, IsArray, IsDateString, Min, Max, MinLength, ArrayMinSize, ArrayMaxSize, ValidateIf, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+
+export const MAX_TEMPLATE_ITEMS = 100;
+export const MAX_TEMPLATE_OFFSET_DAYS = 730;
+
+export class TaskTemplateChecklistItemDto {
+  @IsString()
+  @MinLength(1, { message: 'عنوان البند مطلوب' })
+  title: string;
+
+  @IsOptional()
+  @IsString()
+  titleAr?: string;
+
+  @IsOptional()
+  @IsString()
+  notes?: string;
+}
+
+export class TaskTemplateItemDto {
+  @IsString()
+  @MinLength(2, { message: 'العنوان يجب أن يكون حرفين على الأقل' })
+  title: string;
+
+  @IsString()
+  @MinLength(2, { message: 'العنوان بالعربية مطلوب' })
+  titleAr: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsOptional()
+  @IsString()
+  descriptionAr?: string;
+
+  @IsOptional()
+  @IsEnum(['low', 'medium', 'high', 'critical'])
+  priority?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1, { message: 'الوزن يجب أن يكون أكبر من صفر' })
+  @Max(10, { message: 'الوزن يجب أن لا يتجاوز 10' })
+  weight?: number;
+
+  // Days from the date the template is applied for
+  @IsOptional()
+  @IsInt()
+  @Min(-MAX_TEMPLATE_OFFSET_DAYS)
+  @Max(MAX_TEMPLATE_OFFSET_DAYS)
+  startOffsetDays?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(-MAX_TEMPLATE_OFFSET_DAYS)
+  @Max(MAX_TEMPLATE_OFFSET_DAYS)
+  dueOffsetDays?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TaskTemplateChecklistItemDto)
+  checklist?: TaskTemplateChecklistItemDto[];
+}
+
+export class CreateTaskTemplateDto {
+  @IsString()
+  @MinLength(2, { message: 'اسم القالب يجب أن يكون حرفين على الأقل' })
+  name: string;
+
+  @IsString()
+  @MinLength(2, { message: 'اسم القالب بالعربية مطلوب' })
+  nameAr: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  // Omitted for a shared library template (admin/pm only)
+  @IsOptional()
+  @IsString()
+  trackId?: string;
+
+  @IsArray()
+  @ArrayMinSize(1, { message: 'يجب أن يحتوي القالب على مهمة واحدة على الأقل' })
+  @ArrayMaxSize(MAX_TEMPLATE_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => TaskTemplateItemDto)
+  items: TaskTemplateItemDto[];
+}
+
+export class UpdateTaskTemplateDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2, { message: 'اسم القالب يجب أن يكون حرفين على الأقل' })
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @MinLength(2, { message: 'اسم القالب بالعربية مطلوب' })
+  nameAr?: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  // Replaces all items of the template
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1, { message: 'يجب أن يحتوي القالب على مهمة واحدة على الأقل' })
+  @ArrayMaxSize(MAX_TEMPLATE_ITEMS)
+  @ValidateNested({ each: true })
+  @Type(() => TaskTemplateItemDto)
+  items?: TaskTemplateItemDto[];
+}
+
+export class TemplateItemAssigneesDto {
+  @IsString()
+  itemId: string;
+
+  @IsArray()
+  @IsString({ each: true })
+  assigneeIds: string[];
+}
+
+export class ApplyTaskTemplateDto {
+  @IsString({ message: 'المسار مطلوب' })
+  trackId: string;
+
+  @IsOptional()
+  @IsString()
+  scopeBlockId?: string;
+
+  // Item offsets count from this date
+  @IsDateString({}, { message: 'تاريخ البدء غير صالح' })
+  startDate: string;
+
+  // Only these items; all of them when omitted
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  itemIds?: string[];
+
+  // Assignment of every created task; defaults to the track itself
+  @IsOptional()
+  @IsEnum(['TRACK', 'USER', 'HR', 'GLOBAL'], { message: 'نوع التعيين غير صالح' })
+  assigneeType?: string;
+
+  @ValidateIf((o) => o.assigneeType === 'USER')
+  @IsString({ message: 'معرف المستخدم مطلوب عند التعيين لموظف' })
+  assigneeUserId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  assigneeIds?: string[];
+
+  // Per-item assignees, replacing assigneeIds for that item
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TemplateItemAssigneesDto)
+  itemAssignees?: TemplateItemAssigneesDto[];
+}
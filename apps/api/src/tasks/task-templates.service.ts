@@ -0,0 +1,175 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma, TaskTemplateItem } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { GLOBAL_TRACK_ROLES, TrackScopedUser } from '../common/guards/track-permission.guard';
+import { DAY_MS } from './critical-path';
+import { CreateTaskDto } from './tasks.dto';
+import { ApplyTaskTemplateDto, CreateTaskTemplateDto, TaskTemplateItemDto, UpdateTaskTemplateDto } from './task-templates.dto';
+
+export interface TemplateChecklistItem {
+  title: string;
+  titleAr: string | null;
+  notes: string | null;
+}
+
+/**
+ * Task template library: CRUD for templates and turning their items into
+ * task payloads. Creating the tasks themselves (with checklist, audit and
+ * events) stays in TasksService, which calls in here.
+ */
+@Injectable()
+export class TaskTemplatesService {
+  constructor(private prisma: PrismaService) {}
+
+  private readonly includes = {
+    track: { select: { id: true, nameAr: true, color: true } },
+    createdBy: { select: { id: true, name: true, nameAr: true } },
+    items: { orderBy: { sortOrder: 'asc' as const } },
+  };
+
+  /** Shared library templates plus the templates of the tracks the user works in (or of `trackId`). */
+  async findAll(user: TrackScopedUser & { id: string }, trackId?: string) {
+    const where: Prisma.TaskTemplateWhereInput = {};
+    if (trackId) where.OR = [{ trackId: null }, { trackId }];
+    if (!GLOBAL_TRACK_ROLES.includes(user.role)) {
+      const trackIds = (user.trackPermissions || []).map((tp) => tp.trackId);
+      where.AND = [{ OR: [{ trackId: null }, { trackId: { in: trackIds } }] }];
+    }
+    return this.prisma.taskTemplate.findMany({
+      where,
+      include: this.includes,
+      orderBy: [{ trackId: { sort: 'asc', nulls: 'first' } }, { nameAr: 'asc' }],
+    });
+  }
+
+  async findById(id: string) {
+    const template = await this.prisma.taskTemplate.findUnique({ where: { id }, include: this.includes });
+    if (!template) throw new NotFoundException('القالب غير موجود');
+    return template;
+  }
+
+  async create(dto: CreateTaskTemplateDto, user: TrackScopedUser & { id: string }) {
+    this.assertCanManage(dto.trackId, user);
+    if (dto.trackId) {
+      const track = await this.prisma.track.findUnique({ where: { id: dto.trackId } });
+      if (!track) throw new BadRequestException('المسار المحدد غير موجود');
+    }
+    return this.prisma.taskTemplate.create({
+      data: {
+        name: dto.name,
+        nameAr: dto.nameAr,
+        description: dto.description,
+        trackId: dto.trackId || null,
+        createdById: user.id,
+        items: { create: this.itemData(dto.items) },
+      },
+      include: this.includes,
+    });
+  }
+
+  async update(id: string, dto: UpdateTaskTemplateDto, user: TrackScopedUser) {
+    const existing = await this.findById(id);
+    this.assertCanManage(existing.trackId, user);
+    const { items, ...fields } = dto;
+
+    await this.prisma.$transaction(async (tx) => {
+      await tx.taskTemplate.update({ where: { id }, data: fields });
+      if (items) {
+        await tx.taskTemplateItem.deleteMany({ where: { templateId: id } });
+        await tx.taskTemplateItem.createMany({
+          data: this.itemData(items).map((item) => ({ ...item, templateId: id })),
+        });
+      }
+    });
+    return { before: existing, after: await this.findById(id) };
+  }
+
+  async delete(id: string, user: TrackScopedUser) {
+    const existing = await this.findById(id);
+    this.assertCanManage(existing.trackId, user);
+    await this.prisma.taskTemplate.delete({ where: { id } });
+    return existing;
+  }
+
+  /**
+   * The items of `template` that `dto` applies, checked against the target
+   * track: a track's own templates only apply to that track.
+   */
+  async itemsToApply(template: Awaited<ReturnType<TaskTemplatesService['findById']>>, dto: ApplyTaskTemplateDto) {
+    if (template.trackId && template.trackId !== dto.trackId) {
+      throw new BadRequestException('هذا القالب خاص بمسار آخر');
+    }
+    const track = await this.prisma.track.findUnique({ where: { id: dto.trackId }, select: { id: true } });
+    if (!track) throw new BadRequestException('المسار المحدد غير موجود');
+    if (dto.scopeBlockId) {
+      const block = await this.prisma.scopeBlock.findUnique({ where: { id: dto.scopeBlockId }, select: { trackId: true } });
+      if (!block || block.trackId !== dto.trackId) {
+        throw new BadRequestException('عنصر النطاق المحدد لا يتبع هذا المسار');
+      }
+    }
+
+    const items = dto.itemIds ? template.items.filter((item) => dto.itemIds!.includes(item.id)) : template.items;
+    if (items.length === 0) throw new BadRequestException('لم يتم اختيار أي مهمة من القالب');
+    return items;
+  }
+
+  /** The create payload for one template item applied with `dto`. */
+  taskDto(item: TaskTemplateItem, dto: ApplyTaskTemplateDto): CreateTaskDto {
+    const start = new Date(dto.startDate).getTime();
+    const offset = (days: number | null) => (days !== null ? new Date(start + days * DAY_MS).toISOString() : undefined);
+    const assigneeType = dto.assigneeType || 'TRACK';
+    const itemAssignees = dto.itemAssignees?.find((a) => a.itemId === item.id);
+    return {
+      title: item.title,
+      titleAr: item.titleAr,
+      description: item.description ?? undefined,
+      descriptionAr: item.descriptionAr ?? undefined,
+      priority: item.priority,
+      weight: item.weight,
+      trackId: dto.trackId,
+      scopeBlockId: dto.scopeBlockId,
+      startDate: offset(item.startOffsetDays),
+      dueDate: offset(item.dueOffsetDays),
+      assigneeType,
+      assigneeTrackId: assigneeType === 'TRACK' ? dto.trackId : undefined,
+      assigneeUserId: assigneeType === 'USER' ? dto.assigneeUserId : undefined,
+      assigneeIds: itemAssignees ? itemAssignees.assigneeIds : dto.assigneeIds,
+    };
+  }
+
+  checklistOf(item: TaskTemplateItem): TemplateChecklistItem[] {
+    return (item.checklist as unknown as TemplateChecklistItem[]) || [];
+  }
+
+  /** Library templates are managed by admin/pm; track templates by anyone the guard let through. */
+  private assertCanManage(trackId: string | null | undefined, user: TrackScopedUser) {
+    if (!trackId && !GLOBAL_TRACK_ROLES.includes(user.role)) {
+      throw new ForbiddenException('قوالب المكتبة المشتركة يديرها مدير النظام ومدير المشروع فقط');
+    }
+  }
+
+  private itemData(items: TaskTemplateItemDto[]) {
+    return items.map((item, index) => {
+      if (item.startOffsetDays !== undefined && item.dueOffsetDays !== undefined && item.startOffsetDays > item.dueOffsetDays) {
+        throw new BadRequestException(`موعد بدء المهمة «${item.titleAr}» يجب أن يسبق موعد استحقاقها`);
+      }
+      const checklist: TemplateChecklistItem[] = (item.checklist || []).map((c) => ({
+        title: c.title,
+        titleAr: c.titleAr || null,
+        notes: c.notes || null,
+      }));
+      return {
+        title: item.title,
+        titleAr: item.titleAr,
+        description: item.description,
+        descriptionAr: item.descriptionAr,
+        priority: (item.priority || 'medium') as any,
+        weight: item.weight ?? 1,
+        startOffsetDays: item.startOffsetDays ?? null,
+        dueOffsetDays: item.dueOffsetDays ?? null,
+        checklist: checklist as unknown as Prisma.InputJsonValue,
+        sortOrder: index,
+      };
+    });
+  }
+}
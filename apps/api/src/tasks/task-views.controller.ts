@@ -0,0 +1,79 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, UseGuards, Req } from '@nestjs/common';
+import { Request } from 'express';
+import { TaskViewsService } from './task-views.service';
+import { AuditService } from '../audit/audit.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { CreateTaskViewDto, UpdateTaskViewDto } from './task-views.dto';
+
+/** Saved views of the tasks page: everyone keeps their own and sees the ones shared with them. */
+@Controller('task-views')
+@UseGuards(JwtAuthGuard)
+export class TaskViewsController {
+  constructor(
+    private views: TaskViewsService,
+    private audit: AuditService,
+  ) {}
+
+  @Get()
+  findAll(@CurrentUser() user: any) {
+    return this.views.findAll(user);
+  }
+
+  /** The default view of the user's role, or null */
+  @Get('default')
+  findDefault(@CurrentUser() user: any) {
+    return this.views.findDefault(user);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.views.findById(id, user);
+  }
+
+  @Post()
+  async create(@Body() dto: CreateTaskViewDto, @CurrentUser() user: any, @Req() req: Request) {
+    const view = await this.views.create(dto, user);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'create',
+      entityType: 'task_view',
+      entityId: view.id,
+      trackId: view.trackId || undefined,
+      afterData: view as any,
+      ip: req.ip,
+    });
+    return view;
+  }
+
+  @Patch(':id')
+  async update(@Param('id') id: string, @Body() dto: UpdateTaskViewDto, @CurrentUser() user: any, @Req() req: Request) {
+    const { before, after } = await this.views.update(id, dto, user);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'update',
+      entityType: 'task_view',
+      entityId: id,
+      trackId: after.trackId || undefined,
+      beforeData: before as any,
+      afterData: after as any,
+      ip: req.ip,
+    });
+    return after;
+  }
+
+  @Delete(':id')
+  async delete(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
+    const view = await this.views.delete(id, user);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'delete',
+      entityType: 'task_view',
+      entityId: id,
+      trackId: view.trackId || undefined,
+      beforeData: view as any,
+      ip: req.ip,
+    });
+    return { message: 'تم حذف العرض' };
+  }
+}
@@ -0,0 +1,151 @@
+import { IsString, IsOptional, IsIn, IsBoolean, IsArray, IsDateString, MinLength, MaxLength, ArrayMaxSize, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { TASK_SORT_FIELDS } from './tasks.dto';
+
+export const TASK_VIEW_VISIBILITIES = ['private', 'track', 'global'] as const;
+export const TASK_VIEW_TYPES = ['list', 'table', 'board'] as const;
+export const TASK_VIEW_GROUPS = ['status', 'priority', 'track', 'assignee'] as const;
+export const TASK_VIEW_COLUMNS = ['title', 'status', 'priority', 'track', 'assignee', 'startDate', 'dueDate', 'progress', 'estimate'] as const;
+export const TASK_VIEW_ROLES = ['admin', 'pm', 'track_lead', 'employee', 'hr'] as const;
+
+// The GET /tasks query a view applies; same names and meaning as there
+export class TaskViewFiltersDto {
+  @IsOptional()
+  @IsIn(['my', 'track', 'hr', 'all'])
+  tab?: string;
+
+  @IsOptional()
+  @IsIn(['pending', 'in_progress', 'under_review', 'completed', 'delayed', 'cancelled'])
+  status?: string;
+
+  @IsOptional()
+  @IsIn(['low', 'medium', 'high', 'critical'])
+  priority?: string;
+
+  @IsOptional()
+  @IsString()
+  trackId?: string;
+
+  @IsOptional()
+  @IsIn(['USER', 'TRACK', 'GLOBAL', 'HR'])
+  assigneeType?: string;
+
+  @IsOptional()
+  @IsString()
+  assigneeId?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  search?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  overdue?: boolean;
+
+  @IsOptional()
+  @IsDateString()
+  dueDateFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  dueDateTo?: string;
+}
+
+export class CreateTaskViewDto {
+  @IsString()
+  @MinLength(2, { message: 'اسم العرض يجب أن يكون حرفين على الأقل' })
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsIn([...TASK_VIEW_VISIBILITIES], { message: 'نطاق المشاركة غير صالح' })
+  visibility?: string;
+
+  // Track the view is shared with; required for visibility 'track'
+  @IsOptional()
+  @IsString()
+  trackId?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TaskViewFiltersDto)
+  filters?: TaskViewFiltersDto;
+
+  @IsOptional()
+  @IsIn([...TASK_SORT_FIELDS], { message: 'حقل الترتيب غير صالح' })
+  sortBy?: string;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortDir?: string;
+
+  @IsOptional()
+  @IsIn([...TASK_VIEW_GROUPS], { message: 'حقل التجميع غير صالح' })
+  groupBy?: string;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(TASK_VIEW_COLUMNS.length)
+  @IsIn([...TASK_VIEW_COLUMNS], { each: true, message: 'عمود غير صالح' })
+  columns?: string[];
+
+  @IsOptional()
+  @IsIn([...TASK_VIEW_TYPES], { message: 'نوع العرض غير صالح' })
+  viewType?: string;
+
+  // Roles that open the tasks page on this view; global views only
+  @IsOptional()
+  @IsArray()
+  @IsIn([...TASK_VIEW_ROLES], { each: true, message: 'دور غير صالح' })
+  defaultForRoles?: string[];
+}
+
+export class UpdateTaskViewDto {
+  @IsOptional()
+  @IsString()
+  @MinLength(2, { message: 'اسم العرض يجب أن يكون حرفين على الأقل' })
+  @MaxLength(100)
+  name?: string;
+
+  @IsOptional()
+  @IsIn([...TASK_VIEW_VISIBILITIES], { message: 'نطاق المشاركة غير صالح' })
+  visibility?: string;
+
+  @IsOptional()
+  @IsString()
+  trackId?: string | null;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TaskViewFiltersDto)
+  filters?: TaskViewFiltersDto;
+
+  @IsOptional()
+  @IsIn([...TASK_SORT_FIELDS], { message: 'حقل الترتيب غير صالح' })
+  sortBy?: string;
+
+  @IsOptional()
+  @IsIn(['asc', 'desc'])
+  sortDir?: string;
+
+  // null clears the grouping
+  @IsOptional()
+  @IsIn([...TASK_VIEW_GROUPS], { message: 'حقل التجميع غير صالح' })
+  groupBy?: string | null;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(TASK_VIEW_COLUMNS.length)
+  @IsIn([...TASK_VIEW_COLUMNS], { each: true, message: 'عمود غير صالح' })
+  columns?: string[];
+
+  @IsOptional()
+  @IsIn([...TASK_VIEW_TYPES], { message: 'نوع العرض غير صالح' })
+  viewType?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsIn([...TASK_VIEW_ROLES], { each: true, message: 'دور غير صالح' })
+  defaultForRoles?: string[];
+}
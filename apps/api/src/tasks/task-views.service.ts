@@ -0,0 +1,169 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma, Role } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { GLOBAL_TRACK_ROLES, TrackScopedUser } from '../common/guards/track-permission.guard';
+import { CreateTaskViewDto, UpdateTaskViewDto } from './task-views.dto';
+
+type ViewUser = TrackScopedUser & { id: string };
+
+/**
+ * Saved task views: named filter/sort/grouping/column setups of the tasks
+ * page, private to their owner or shared with a track or everyone. Admin/PM
+ * pick the global view each role opens the tasks page on.
+ */
+@Injectable()
+export class TaskViewsService {
+  constructor(private prisma: PrismaService) {}
+
+  private readonly includes = {
+    owner: { select: { id: true, name: true, nameAr: true } },
+    track: { select: { id: true, nameAr: true, color: true } },
+  };
+
+  /** The user's own views, the views shared with their tracks and the global views. */
+  async findAll(user: ViewUser) {
+    return this.prisma.taskView.findMany({
+      where: this.visibleWhere(user),
+      include: this.includes,
+      orderBy: [{ visibility: 'asc' }, { name: 'asc' }],
+    });
+  }
+
+  /** The view the tasks page opens on for the user's role, if admin/pm set one. */
+  async findDefault(user: ViewUser) {
+    return this.prisma.taskView.findFirst({
+      where: { visibility: 'global', defaultForRoles: { has: user.role as Role } },
+      include: this.includes,
+    });
+  }
+
+  async findById(id: string, user: ViewUser) {
+    const view = await this.prisma.taskView.findFirst({
+      where: { id, ...this.visibleWhere(user) },
+      include: this.includes,
+    });
+    if (!view) throw new NotFoundException('العرض غير موجود');
+    return view;
+  }
+
+  async create(dto: CreateTaskViewDto, user: ViewUser) {
+    const visibility = dto.visibility || 'private';
+    const trackId = visibility === 'track' ? dto.trackId || null : null;
+    const defaultForRoles = (dto.defaultForRoles || []) as Role[];
+    await this.assertCanShare(visibility, trackId, defaultForRoles, user);
+
+    return this.prisma.$transaction(async (tx) => {
+      await this.releaseDefaults(tx, defaultForRoles);
+      return tx.taskView.create({
+        data: {
+          name: dto.name.trim(),
+          ownerId: user.id,
+          visibility,
+          trackId,
+          filters: { ...dto.filters } as Prisma.InputJsonValue,
+          sortBy: dto.sortBy,
+          sortDir: dto.sortDir,
+          groupBy: dto.groupBy || null,
+          columns: dto.columns || [],
+          viewType: dto.viewType,
+          defaultForRoles,
+        },
+        include: this.includes,
+      });
+    });
+  }
+
+  async update(id: string, dto: UpdateTaskViewDto, user: ViewUser) {
+    const existing = await this.findById(id, user);
+    this.assertCanEdit(existing, user);
+
+    const visibility = dto.visibility ?? existing.visibility;
+    const trackId = visibility === 'track' ? (dto.trackId !== undefined ? dto.trackId : existing.trackId) : null;
+    const defaultForRoles = (dto.defaultForRoles ?? (visibility === 'global' ? existing.defaultForRoles : [])) as Role[];
+    const sharingChanged =
+      visibility !== existing.visibility ||
+      trackId !== existing.trackId ||
+      defaultForRoles.some((role) => !existing.defaultForRoles.includes(role));
+    if (sharingChanged) await this.assertCanShare(visibility, trackId, defaultForRoles, user);
+
+    const after = await this.prisma.$transaction(async (tx) => {
+      await this.releaseDefaults(tx, defaultForRoles, id);
+      return tx.taskView.update({
+        where: { id },
+        data: {
+          name: dto.name?.trim(),
+          visibility,
+          trackId,
+          filters: dto.filters ? ({ ...dto.filters } as Prisma.InputJsonValue) : undefined,
+          sortBy: dto.sortBy,
+          sortDir: dto.sortDir,
+          groupBy: dto.groupBy,
+          columns: dto.columns,
+          viewType: dto.viewType,
+          defaultForRoles,
+        },
+        include: this.includes,
+      });
+    });
+    return { before: existing, after };
+  }
+
+  async delete(id: string, user: ViewUser) {
+    const existing = await this.findById(id, user);
+    this.assertCanEdit(existing, user);
+    await this.prisma.taskView.delete({ where: { id } });
+    return existing;
+  }
+
+  private visibleWhere(user: ViewUser): Prisma.TaskViewWhereInput {
+    const trackViews: Prisma.TaskViewWhereInput = GLOBAL_TRACK_ROLES.includes(user.role)
+      ? { visibility: 'track' }
+      : { visibility: 'track', trackId: { in: (user.trackPermissions || []).map((tp) => tp.trackId) } };
+    return { OR: [{ ownerId: user.id }, { visibility: 'global' }, trackViews] };
+  }
+
+  /** A view is edited by its owner; shared views also by admin/pm. */
+  private assertCanEdit(view: { ownerId: string; visibility: string }, user: ViewUser) {
+    if (view.ownerId === user.id) return;
+    if (view.visibility !== 'private' && GLOBAL_TRACK_ROLES.includes(user.role)) return;
+    throw new ForbiddenException('لا يمكنك تعديل عرض أنشأه مستخدم آخر');
+  }
+
+  /**
+   * Track views are shared by admin/pm or the track's lead; global views and
+   * role defaults by admin/pm only.
+   */
+  private async assertCanShare(visibility: string, trackId: string | null, defaultForRoles: Role[], user: ViewUser) {
+    const isGlobalRole = GLOBAL_TRACK_ROLES.includes(user.role);
+    if (defaultForRoles.length > 0 && visibility !== 'global') {
+      throw new BadRequestException('العرض الافتراضي للأدوار يجب أن يكون عاماً');
+    }
+    if (visibility === 'global' && !isGlobalRole) {
+      throw new ForbiddenException('مشاركة العروض مع الجميع متاحة لمدير النظام ومدير المشروع فقط');
+    }
+    if (visibility === 'track') {
+      if (!trackId) throw new BadRequestException('يجب تحديد المسار الذي تتم مشاركة العرض معه');
+      const track = await this.prisma.track.findUnique({ where: { id: trackId }, select: { id: true } });
+      if (!track) throw new BadRequestException('المسار المحدد غير موجود');
+      const leadsTrack = user.role === 'track_lead' && (user.trackPermissions || []).some((tp) => tp.trackId === trackId);
+      if (!isGlobalRole && !leadsTrack) {
+        throw new ForbiddenException('لا يمكنك مشاركة العروض مع هذا المسار');
+      }
+    }
+  }
+
+  /** Each role has at most one default view: taking `roles` removes them from the other views. */
+  private async releaseDefaults(tx: Prisma.TransactionClient, roles: Role[], exceptId?: string) {
+    if (roles.length === 0) return;
+    const holders = await tx.taskView.findMany({
+      where: { defaultForRoles: { hasSome: roles }, ...(exceptId ? { id: { not: exceptId } } : {}) },
+      select: { id: true, defaultForRoles: true },
+    });
+    for (const holder of holders) {
+      await tx.taskView.update({
+        where: { id: holder.id },
+        data: { defaultForRoles: holder.defaultForRoles.filter((role) => !roles.includes(role)) },
+      });
+    }
+  }
+}
@@ -0,0 +1,43 @@
+export interface TaskViewer {
+  id: string;
+  role: string;
+  trackPermissions?: Array<{ trackId: string }>;
+}
+
+/**
+ * Build visibility filter based on user role and track permissions.
+ * - Admin/PM: see all tasks
+ * - HR: GLOBAL + HR + own USER tasks + own track tasks
+ * - Regular users: GLOBAL + own USER tasks + tasks assigned to their tracks
+ */
+export function buildTaskVisibilityFilter(user: TaskViewer) {
+  if (user.role === 'admin' || user.role === 'pm') {
+    return { isDeleted: false };
+  }
+
+  const userTrackIds = (user.trackPermissions || []).map((tp) => tp.trackId);
+
+  const orConditions: any[] = [
+    // GLOBAL tasks visible to everyone
+    { assigneeType: 'GLOBAL' },
+    // Tasks assigned directly to this user
+    { assigneeType: 'USER', assigneeUserId: user.id },
+    // Tasks created by this user
+    { createdById: user.id },
+  ];
+
+  // Tasks assigned to user's tracks
+  if (userTrackIds.length > 0) {
+    orConditions.push({ assigneeType: 'TRACK', assigneeTrackId: { in: userTrackIds } });
+  }
+
+  // HR users can also see HR-assigned tasks
+  if (user.role === 'hr') {
+    orConditions.push({ assigneeType: 'HR' });
+  }
+
+  return {
+    isDeleted: false,
+    OR: orConditions,
+  };
+}
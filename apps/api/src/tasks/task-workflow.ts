@@ -0,0 +1,85 @@
+/**
+ * Per-track task workflow: which status transitions exist, who may perform
+ * them, what must be filled in first and whether they set the task's progress.
+ * Tracks without their own workflow (tracks.task_workflow = null) use
+ * DEFAULT_TASK_WORKFLOW. Admins may perform any transition the workflow has.
+ */
+
+/** Roles a transition can be granted to; admin is implicit. */
+export const WORKFLOW_ROLES = ['pm', 'track_lead', 'employee', 'hr'] as const;
+
+/** `from` value matching every status. */
+export const ANY_STATUS = '*';
+
+export const WORKFLOW_REQUIRED_FIELDS = ['comment', 'notes', 'startDate', 'dueDate', 'attachment'] as const;
+
+export const WORKFLOW_FIELD_LABELS_AR: Record<string, string> = {
+  comment: 'تعليق يوضح سبب التغيير',
+  notes: 'ملاحظات المهمة',
+  startDate: 'تاريخ البدء',
+  dueDate: 'تاريخ الاستحقاق',
+  attachment: 'مرفق واحد على الأقل',
+};
+
+export interface TaskWorkflowTransition {
+  from: string; // a status or ANY_STATUS
+  to: string;
+  roles: string[];
+  requiredFields: string[];
+  progress: number | null; // progress the task is set to, or null to leave it
+}
+
+export interface TaskWorkflow {
+  transitions: TaskWorkflowTransition[];
+}
+
+const WORKERS = ['pm', 'track_lead', 'employee', 'hr'];
+const MANAGERS = ['pm', 'track_lead'];
+
+/** The rules that applied before workflows were configurable. */
+export const DEFAULT_TASK_WORKFLOW: TaskWorkflow = {
+  transitions: [
+    { from: ANY_STATUS, to: 'pending', roles: MANAGERS, requiredFields: [], progress: 0 },
+    { from: ANY_STATUS, to: 'in_progress', roles: WORKERS, requiredFields: [], progress: 50 },
+    { from: ANY_STATUS, to: 'under_review', roles: WORKERS, requiredFields: [], progress: 80 },
+    { from: ANY_STATUS, to: 'completed', roles: WORKERS, requiredFields: [], progress: 100 },
+    { from: ANY_STATUS, to: 'delayed', roles: MANAGERS, requiredFields: [], progress: null },
+    { from: ANY_STATUS, to: 'cancelled', roles: ['track_lead'], requiredFields: [], progress: null },
+  ],
+};
+
+export function resolveTaskWorkflow(stored: unknown): TaskWorkflow {
+  const transitions = (stored as TaskWorkflow | null)?.transitions;
+  return Array.isArray(transitions) ? { transitions } : DEFAULT_TASK_WORKFLOW;
+}
+
+/** The transition from `from` to `to`; one naming `from` exactly wins over a wildcard. */
+export function findTransition(workflow: TaskWorkflow, from: string, to: string) {
+  if (from === to) return null;
+  const candidates = workflow.transitions.filter((t) => t.to === to);
+  return candidates.find((t) => t.from === from) || candidates.find((t) => t.from === ANY_STATUS) || null;
+}
+
+/** Required fields the task (after the change) and the request still lack. */
+export function missingTransitionFields(
+  transition: TaskWorkflowTransition,
+  task: { notes: string | null; startDate: Date | string | null; dueDate: Date | string | null; fileCount: number },
+  comment?: string,
+) {
+  return transition.requiredFields.filter((field) => {
+    switch (field) {
+      case 'comment':
+        return !comment?.trim();
+      case 'notes':
+        return !task.notes?.trim();
+      case 'startDate':
+        return !task.startDate;
+      case 'dueDate':
+        return !task.dueDate;
+      case 'attachment':
+        return task.fileCount === 0;
+      default:
+        return false;
+    }
+  });
+}
@@ -1,23 +1,20 @@
-import { Controller, Get, Post, Patch, Delete, Param, Body, Query, UseGuards, Req, UseInterceptors, UploadedFile as UpFile } from '@nestjs/common';
+import { Controller, Get, Post, Put, Patch, Delete, Param, Body, Query, UseGuards, Req, UseInterceptors, UploadedFile as UpFile } from '@nestjs/common';
 import { FileInterceptor } from '@nestjs/platform-express';
-import { diskStorage } from 'multer';
-import { mkdirSync } from 'fs';
-import { extname, join } from 'path';
 import { Request } from 'express';
-
-const TASK_UPLOADS_DIR = join(process.cwd(), 'uploads', 'tasks');
-try { mkdirSync(TASK_UPLOADS_DIR, { recursive: true }); } catch {}
 import { TasksService } from './tasks.service';
 import { AuditService } from '../audit/audit.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard } from '../common/guards/track-permission.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { attachmentUploadOptions } from '../attachments/attachment-rules';
 import {
-  CreateTaskDto, UpdateTaskDto, UpdateTaskStatusDto, AssignTaskDto,
+  CreateTaskDto, UpdateTaskDto, UpdateTaskStatusDto, AssignTaskDto, CreateTaskDependencyDto,
   CreateChecklistItemDto, UpdateChecklistItemDto,
   CreateAdminNoteDto, UpdateAdminNoteDto,
-  CreateTaskUpdateDto,
+  CreateTaskUpdateDto, ReviewTaskDto, TaskRecurrenceDto, BulkTaskActionDto,
 } from './tasks.dto';
 
 @Controller('tasks')
@@ -31,7 +28,7 @@ export class TasksController {
   /**
    * GET /tasks - Returns tasks visible to the current user.
    * Admin/PM sees all. Others see filtered by assignment rules.
-   * Supports tab query: my, track, hr, all
+   * Supports tab query: my, track, hr, all; sortBy (TASK_SORT_FIELDS) and sortDir asc/desc
    */
   @Get()
   findAll(
@@ -48,6 +45,8 @@ export class TasksController {
     @Query('dueDateFrom') dueDateFrom?: string,
     @Query('dueDateTo') dueDateTo?: string,
     @Query('tab') tab?: string,
+    @Query('sortBy') sortBy?: string,
+    @Query('sortDir') sortDir?: string,
   ) {
     return this.tasks.findVisible(user, {
       page: page ? +page : undefined,
@@ -62,6 +61,8 @@ export class TasksController {
       dueDateFrom,
       dueDateTo,
       tab,
+      sortBy,
+      sortDir,
     });
   }
 
@@ -93,6 +94,21 @@ export class TasksController {
     return this.tasks.getExecutiveStats();
   }
 
+  @Get('board')
+  getBoard(@CurrentUser() user: any, @Query('trackId') trackId?: string) {
+    return this.tasks.getBoard(user, { trackId });
+  }
+
+  @Get('review-queue')
+  getReviewQueue(@CurrentUser() user: any) {
+    return this.tasks.getReviewQueue(user);
+  }
+
+  @Get('timeline')
+  getTimeline(@CurrentUser() user: any, @Query('trackId') trackId?: string) {
+    return this.tasks.getTimeline(user, { trackId });
+  }
+
   @Get('track/:trackId')
   findByTrack(
     @Param('trackId') trackId: string,
@@ -112,6 +128,13 @@ export class TasksController {
     return this.tasks.getTrackProgress(trackId);
   }
 
+  @Get('track/:trackId/critical-path')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { from: 'params' })
+  getCriticalPath(@Param('trackId') trackId: string) {
+    return this.tasks.getCriticalPath(trackId);
+  }
+
   @Get(':id')
   findOne(@Param('id') id: string) {
     return this.tasks.findById(id);
@@ -148,6 +171,28 @@ export class TasksController {
     return task;
   }
 
+  /**
+   * POST /tasks/bulk - One change (status, reassignment, date shift, priority,
+   * scope block, delete) on many tasks, with a result per task.
+   */
+  @Post('bulk')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'pm')
+  async bulkUpdate(@Body() dto: BulkTaskActionDto, @CurrentUser() user: any, @Req() req: Request) {
+    const result = await this.tasks.bulkUpdate(dto, user.id);
+    const appliedIds = result.results.filter((r) => r.ok && !r.unchanged).map((r) => r.taskId);
+    if (appliedIds.length > 0) {
+      await this.audit.log({
+        actorId: user.id,
+        actionType: dto.action === 'delete' ? 'bulk_delete' : 'bulk_update',
+        entityType: 'task',
+        afterData: { action: dto.action, taskIds: appliedIds, failed: result.failed } as any,
+        ip: req.ip,
+      });
+    }
+    return result;
+  }
+
   @Patch(':id')
   @UseGuards(RolesGuard)
   @Roles('admin', 'pm')
@@ -156,13 +201,52 @@ export class TasksController {
     return task;
   }
 
+  @Put(':id/recurrence')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'pm')
+  setRecurrence(@Param('id') id: string, @Body() dto: TaskRecurrenceDto, @CurrentUser() user: any) {
+    return this.tasks.setRecurrence(id, dto, user.id);
+  }
+
+  @Delete(':id/recurrence')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'pm')
+  stopRecurrence(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.tasks.stopRecurrence(id, user.id);
+  }
+
+  @Get(':id/transitions')
+  getTransitions(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.tasks.getTransitions(id, user);
+  }
+
   @Patch(':id/status')
   async updateStatus(
     @Param('id') id: string,
     @Body() dto: UpdateTaskStatusDto,
     @CurrentUser() user: any,
   ) {
-    return this.tasks.updateStatus(id, dto.status, user.id);
+    return this.tasks.updateStatus(id, dto.status, user.id, dto.force, dto.comment);
+  }
+
+  @Get(':id/review')
+  getReview(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.tasks.getReview(id, user);
+  }
+
+  @Post(':id/review')
+  review(@Param('id') id: string, @Body() dto: ReviewTaskDto, @CurrentUser() user: any) {
+    return this.tasks.review(id, dto.decision, dto.comment, user);
+  }
+
+  @Get(':id/subtasks')
+  getSubtasks(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.tasks.getSubtasks(id, user);
+  }
+
+  @Get(':id/deadline-notices')
+  getDeadlineNotices(@Param('id') id: string) {
+    return this.tasks.getDeadlineNotices(id);
   }
 
   @Post(':id/assign')
@@ -192,6 +276,35 @@ export class TasksController {
     return result;
   }
 
+  // ─── Dependency Endpoints ───
+
+  @Get(':id/dependencies')
+  getDependencies(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.tasks.getDependencies(id, user);
+  }
+
+  @Post(':id/dependencies')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'pm')
+  addDependency(
+    @Param('id') id: string,
+    @Body() dto: CreateTaskDependencyDto,
+    @CurrentUser() user: any,
+  ) {
+    return this.tasks.addDependency(id, dto, user.id);
+  }
+
+  @Delete(':id/dependencies/:dependencyId')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'pm')
+  removeDependency(
+    @Param('id') id: string,
+    @Param('dependencyId') dependencyId: string,
+    @CurrentUser() user: any,
+  ) {
+    return this.tasks.removeDependency(id, dependencyId, user.id);
+  }
+
   // ─── Checklist Endpoints ───
 
   @Get(':id/checklist')
@@ -318,28 +431,14 @@ export class TasksController {
   }
 
   @Post(':id/files')
-  @UseInterceptors(FileInterceptor('file', {
-    storage: diskStorage({
-      destination: TASK_UPLOADS_DIR,
-      filename: (req, file, cb) => {
-        const uniqueSuffix = Date.now() + '-' + Math.round(Math.random() * 1e9);
-        cb(null, uniqueSuffix + extname(file.originalname));
-      },
-    }),
-    limits: { fileSize: 50 * 1024 * 1024 },
-  }))
+  @UseInterceptors(FileInterceptor('file', attachmentUploadOptions))
   uploadTaskFile(
     @Param('id') id: string,
     @UpFile() file: Express.Multer.File,
     @Body('notes') notes: string,
     @CurrentUser() user: any,
   ) {
-    return this.tasks.uploadTaskFile(id, {
-      fileName: file.originalname,
-      fileSize: file.size,
-      mimeType: file.mimetype,
-      filePath: file.path,
-    }, user.id, file, notes);
+    return this.tasks.uploadTaskFile(id, file, user.id, notes);
   }
 
   @Delete(':id/files/:fileId')
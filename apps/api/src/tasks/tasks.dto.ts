@@ -1,4 +1,50 @@
-import { IsString, IsOptional, IsEnum, IsNumber, IsArray, IsDateString, Min, Max, MinLength, ValidateIf } from 'class-validator';
+import { IsString, IsOptional, IsEnum, IsNumber, IsInt, IsIn, IsBoolean, IsArray, IsDateString, Min, Max, MinLength, MaxLength, ArrayMinSize, ArrayMaxSize, NotEquals, ValidateIf, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { RECURRENCE_FREQUENCIES, RRULE_WEEKDAYS } from './recurrence-rule';
+
+export const MAX_ESTIMATED_MINUTES = 10000 * 60;
+
+export const MAX_BULK_TASKS = 200;
+export const TASK_BULK_ACTIONS = ['status', 'reassign', 'shift_dates', 'priority', 'scope_block', 'delete'] as const;
+
+// Sort keys of GET /tasks; `title` sorts by the Arabic title
+export const TASK_SORT_FIELDS = ['dueDate', 'priority', 'status', 'progress', 'title', 'createdAt', 'updatedAt'] as const;
+
+// ─── Recurrence DTOs ───
+
+export class TaskRecurrenceDto {
+  @IsIn([...RECURRENCE_FREQUENCIES], { message: 'نوع التكرار غير صالح' })
+  frequency: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(365)
+  interval?: number;
+
+  // Weekly: RRULE weekday codes, e.g. ['SU', 'WE']; defaults to the start date's weekday
+  @IsOptional()
+  @IsArray()
+  @IsIn([...RRULE_WEEKDAYS], { each: true })
+  weekdays?: string[];
+
+  // Monthly: day of the month, -1 for the last day; defaults to the start date's day
+  @IsOptional()
+  @IsInt()
+  @Min(-1)
+  @Max(31)
+  monthDay?: number;
+
+  // Custom: a rule such as FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,WE
+  @ValidateIf((o) => o.frequency === 'custom')
+  @IsString({ message: 'قاعدة التكرار مطلوبة' })
+  @MaxLength(500)
+  rrule?: string;
+
+  @IsOptional()
+  @IsDateString()
+  endDate?: string;
+}
 
 export class CreateTaskDto {
   @IsString()
@@ -33,6 +79,10 @@ export class CreateTaskDto {
   @IsString()
   scopeBlockId?: string;
 
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
   @IsOptional()
   @IsDateString()
   dueDate?: string;
@@ -47,6 +97,13 @@ export class CreateTaskDto {
   @Max(10, { message: 'الوزن يجب أن لا يتجاوز 10' })
   weight?: number;
 
+  // Effort estimate; logged time is compared against it
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_ESTIMATED_MINUTES)
+  estimatedMinutes?: number;
+
   // Polymorphic assignment
   @IsEnum(['TRACK', 'USER', 'HR', 'GLOBAL'], { message: 'نوع التعيين غير صالح' })
   assigneeType: string;
@@ -63,6 +120,28 @@ export class CreateTaskDto {
   @IsArray()
   @IsString({ each: true })
   assigneeIds?: string[];
+
+  // Reviewers for under_review; empty falls back to the track's leads
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  reviewerIds?: string[];
+
+  // Creates the task as a subtask of this task
+  @IsOptional()
+  @IsString()
+  parentId?: string;
+
+  // Complete the task automatically once all its subtasks are completed
+  @IsOptional()
+  @IsBoolean()
+  completeWithSubtasks?: boolean;
+
+  // Makes the task the first occurrence of a recurring series
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => TaskRecurrenceDto)
+  recurrence?: TaskRecurrenceDto;
 }
 
 export class UpdateTaskDto {
@@ -98,6 +177,10 @@ export class UpdateTaskDto {
   @IsString()
   scopeBlockId?: string;
 
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
   @IsOptional()
   @IsDateString()
   dueDate?: string;
@@ -118,6 +201,12 @@ export class UpdateTaskDto {
   @Max(10)
   weight?: number;
 
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_ESTIMATED_MINUTES)
+  estimatedMinutes?: number | null;
+
   // Polymorphic assignment (optional on update)
   @IsOptional()
   @IsEnum(['TRACK', 'USER', 'HR', 'GLOBAL'], { message: 'نوع التعيين غير صالح' })
@@ -135,11 +224,138 @@ export class UpdateTaskDto {
   @IsArray()
   @IsString({ each: true })
   assigneeIds?: string[];
+
+  // Reviewers for under_review; empty falls back to the track's leads
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  reviewerIds?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  completeWithSubtasks?: boolean;
+
+  // Start despite unfinished predecessors (admin/pm only)
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+
+  // For an occurrence of a recurring series: 'future' also applies the change
+  // to the series template and to later occurrences not started yet
+  @IsOptional()
+  @IsIn(['this', 'future'])
+  recurrenceScope?: 'this' | 'future';
 }
 
 export class UpdateTaskStatusDto {
   @IsEnum(['pending', 'in_progress', 'under_review', 'completed', 'delayed', 'cancelled'])
   status: string;
+
+  // Start despite unfinished predecessors (admin/pm only)
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+
+  // Posted as a task comment; some workflow transitions require one
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+// ─── Bulk DTOs ───
+
+// One change applied to many tasks; which fields apply depends on the action
+export class BulkTaskActionDto {
+  @IsArray()
+  @ArrayMinSize(1, { message: 'لم يتم اختيار أي مهمة' })
+  @ArrayMaxSize(MAX_BULK_TASKS, { message: `لا يمكن تعديل أكثر من ${MAX_BULK_TASKS} مهمة في عملية واحدة` })
+  @IsString({ each: true })
+  taskIds: string[];
+
+  @IsIn([...TASK_BULK_ACTIONS], { message: 'نوع العملية غير صالح' })
+  action: string;
+
+  // Apply nothing when any task fails, instead of skipping the failed ones
+  @IsOptional()
+  @IsBoolean()
+  allOrNothing?: boolean;
+
+  // status
+  @ValidateIf((o) => o.action === 'status')
+  @IsEnum(['pending', 'in_progress', 'under_review', 'completed', 'delayed', 'cancelled'], { message: 'الحالة غير صالحة' })
+  status?: string;
+
+  // Override dependency, subtask and WIP limit checks
+  @IsOptional()
+  @IsBoolean()
+  force?: boolean;
+
+  // reassign
+  @ValidateIf((o) => o.action === 'reassign')
+  @IsEnum(['TRACK', 'USER', 'HR', 'GLOBAL'], { message: 'نوع التعيين غير صالح' })
+  assigneeType?: string;
+
+  @IsOptional()
+  @IsString()
+  assigneeTrackId?: string;
+
+  @IsOptional()
+  @IsString()
+  assigneeUserId?: string;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  assigneeIds?: string[];
+
+  // shift_dates: days to move start and due dates by, negative to pull them in
+  @ValidateIf((o) => o.action === 'shift_dates')
+  @IsInt({ message: 'عدد الأيام يجب أن يكون رقماً صحيحاً' })
+  @Min(-365)
+  @Max(365)
+  @NotEquals(0, { message: 'عدد الأيام يجب أن لا يكون صفراً' })
+  days?: number;
+
+  // priority
+  @ValidateIf((o) => o.action === 'priority')
+  @IsEnum(['low', 'medium', 'high', 'critical'], { message: 'الأولوية غير صالحة' })
+  priority?: string;
+
+  // scope_block: null takes the tasks out of their scope block
+  @ValidateIf((o) => o.action === 'scope_block' && o.scopeBlockId !== null)
+  @IsString({ message: 'عنصر النطاق مطلوب' })
+  scopeBlockId?: string | null;
+}
+
+// ─── Review DTOs ───
+
+export class ReviewTaskDto {
+  @IsIn(['approve', 'request_changes'])
+  decision: 'approve' | 'request_changes';
+
+  // Required when requesting changes
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
+
+// ─── TaskDependency DTOs ───
+
+export class CreateTaskDependencyDto {
+  @IsString()
+  predecessorId: string;
+
+  @IsOptional()
+  @IsIn(['FS', 'SS'], { message: 'نوع التبعية غير صالح' })
+  type?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(365)
+  lagDays?: number;
 }
 
 export class AssignTaskDto {
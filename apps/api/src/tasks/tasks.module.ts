@@ -4,12 +4,49 @@ import { TasksController } from './tasks.controller';
 import { AuditModule } from '../audit/audit.module';
 import { WebsocketModule } from '../websocket/websocket.module';
 import { NotificationsModule } from '../notifications/notifications.module';
-import { OverdueSchedulerService } from './overdue-scheduler.service';
+import { ScopeBlocksModule } from '../scope-blocks/scope-blocks.module';
+import { CommentsModule } from '../comments/comments.module';
+import { DeadlineSchedulerService } from './deadline-scheduler.service';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { TaskRecurrenceService } from './task-recurrence.service';
+import { RecurrenceSchedulerService } from './recurrence-scheduler.service';
+import { TaskTemplatesService } from './task-templates.service';
+import { TaskTemplatesController } from './task-templates.controller';
+import { TimeTrackingService } from './time-tracking.service';
+import { TimeEntriesController } from './time-entries.controller';
+import { TimesheetsController } from './timesheets.controller';
+import { WorkloadService } from './workload.service';
+import { WorkloadController } from './workload.controller';
+import { TaskViewsService } from './task-views.service';
+import { TaskViewsController } from './task-views.controller';
+import { CalendarService } from './calendar.service';
+import { CalendarController } from './calendar.controller';
+import { CalendarFeedController } from './calendar-feed.controller';
 
 @Module({
-  imports: [AuditModule, WebsocketModule, NotificationsModule],
-  providers: [TasksService, OverdueSchedulerService],
-  controllers: [TasksController],
+  imports: [AuditModule, WebsocketModule, NotificationsModule, ScopeBlocksModule, CommentsModule],
+  providers: [
+    TasksService,
+    TaskDependenciesService,
+    TaskRecurrenceService,
+    TaskTemplatesService,
+    TimeTrackingService,
+    WorkloadService,
+    TaskViewsService,
+    CalendarService,
+    DeadlineSchedulerService,
+    RecurrenceSchedulerService,
+  ],
+  controllers: [
+    TasksController,
+    TaskTemplatesController,
+    TimeEntriesController,
+    TimesheetsController,
+    WorkloadController,
+    TaskViewsController,
+    CalendarController,
+    CalendarFeedController,
+  ],
   exports: [TasksService],
 })
 export class TasksModule {}
@@ -0,0 +1,179 @@
+import { BadRequestException, ForbiddenException, NotFoundException } from '@nestjs/common';
+import { TasksService } from './tasks.service';
+
+function task(id: string, overrides: Record<string, any> = {}) {
+  return {
+    id,
+    status: 'in_progress',
+    progress: 0,
+    parentId: null,
+    trackId: null,
+    assigneeTrackId: null,
+    assigneeType: 'GLOBAL',
+    assigneeUserId: null,
+    createdById: 'u-admin',
+    scopeBlockId: null,
+    notes: null,
+    startDate: null,
+    dueDate: null,
+    assignments: [] as Array<{ userId: string }>,
+    reviewers: [] as Array<{ userId: string }>,
+    files: [],
+    _count: { subtasks: 0 },
+    ...overrides,
+  };
+}
+
+/**
+ * TasksService over an in-memory task list; open subtasks are read from it as
+ * the database would. `leads` are the track leads of every track.
+ */
+function setup(tasks: ReturnType<typeof task>[], actor: Record<string, any> = { role: 'admin', trackPermissions: [] }, leads: string[] = []) {
+  const tx = {
+    task: { update: jest.fn(), updateMany: jest.fn() },
+    taskAuditLog: { createMany: jest.fn() },
+  };
+  const prisma: any = {
+    user: { findUnique: jest.fn().mockResolvedValue(actor) },
+    trackPermission: { findMany: jest.fn().mockResolvedValue(leads.map((userId) => ({ userId }))) },
+    track: { findUnique: jest.fn().mockResolvedValue(null) },
+    task: {
+      findMany: jest.fn(async ({ where }) => {
+        if (where.parentId) {
+          return tasks.filter((t) => t.parentId === where.parentId && !['completed', 'cancelled'].includes(t.status));
+        }
+        return tasks.filter((t) => where.id.in.includes(t.id));
+      }),
+      // Detail reads only; parent rollups find nothing and stop
+      findUnique: jest.fn(async ({ where, include }) => (include?.reviewers ? tasks.find((t) => t.id === where.id) ?? null : null)),
+      update: jest.fn(),
+      count: jest.fn().mockResolvedValue(1),
+    },
+    taskAuditLog: { create: jest.fn() },
+    $transaction: jest.fn((run) => run(tx)),
+  };
+  const dependencies = { list: jest.fn().mockResolvedValue({ predecessors: [], successors: [] }), getBlockers: jest.fn().mockResolvedValue([]), propagateSlip: jest.fn().mockResolvedValue([]) };
+  const service = new TasksService(
+    prisma,
+    {} as any,
+    { server: { emit: jest.fn() } } as any,
+    { emit: jest.fn() } as any,
+    {} as any,
+    { recalculateForBlocks: jest.fn() } as any,
+    dependencies as any,
+    {} as any,
+    {} as any,
+    {} as any,
+  );
+  return { service, prisma, tx };
+}
+
+const auditActions = (tx: any) => tx.taskAuditLog.createMany.mock.calls[0][0].data.map((row: any) => row.action);
+
+describe('TasksService.bulkUpdate', () => {
+  it('completes a parent together with its open subtasks', async () => {
+    const { service } = setup([task('parent'), task('child', { parentId: 'parent' })]);
+
+    const result = await service.bulkUpdate({ taskIds: ['parent', 'child'], action: 'status', status: 'completed' } as any, 'u-admin');
+
+    expect(result.failed).toBe(0);
+    expect(result.results.map((r) => r.taskId)).toEqual(['parent', 'child']);
+  });
+
+  it('still refuses a parent whose subtask is not in the batch', async () => {
+    const { service } = setup([task('parent'), task('child', { parentId: 'parent' }), task('other')]);
+
+    const result = await service.bulkUpdate({ taskIds: ['parent', 'other'], action: 'status', status: 'completed' } as any, 'u-admin');
+
+    expect(result.results).toEqual([
+      expect.objectContaining({ taskId: 'parent', ok: false, details: { openSubtasks: [expect.objectContaining({ id: 'child' })] } }),
+      { taskId: 'other', ok: true },
+    ]);
+  });
+
+  it('writes forced overrides in the batch transaction', async () => {
+    const { service, prisma, tx } = setup([task('parent'), task('child', { parentId: 'parent' })]);
+
+    await service.bulkUpdate({ taskIds: ['parent'], action: 'status', status: 'completed', force: true } as any, 'u-admin');
+
+    expect(prisma.taskAuditLog.create).not.toHaveBeenCalled();
+    expect(auditActions(tx)).toEqual(['SUBTASKS_OVERRIDDEN', 'STATUS_CHANGED']);
+  });
+
+  it('writes no overrides when allOrNothing cancels the batch', async () => {
+    const { service, prisma } = setup([task('parent'), task('child', { parentId: 'parent' })]);
+
+    await expect(
+      service.bulkUpdate({ taskIds: ['parent', 'missing'], action: 'status', status: 'completed', force: true, allOrNothing: true } as any, 'u-admin'),
+    ).rejects.toThrow(BadRequestException);
+    expect(prisma.taskAuditLog.create).not.toHaveBeenCalled();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
+
+describe('leaving review', () => {
+  const underReview = () => task('t', { status: 'under_review', trackId: 'track', assignments: [{ userId: 'u-emp' }] });
+  const employee = { role: 'employee', trackPermissions: [] };
+  const lead = { role: 'track_lead', trackPermissions: [{ trackId: 'track' }] };
+
+  it('refuses a plain status change by an assignee who is not a reviewer', async () => {
+    const { service, prisma } = setup([underReview()], employee, ['u-lead']);
+
+    await expect(service.updateStatus('t', 'completed', 'u-emp')).rejects.toThrow(
+      new ForbiddenException('لا يخرج المهمة من المراجعة إلا أحد مراجعيها'),
+    );
+    expect(prisma.task.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses the bulk status action the same way', async () => {
+    const { service, tx } = setup([underReview()], employee, ['u-lead']);
+
+    const result = await service.bulkUpdate({ taskIds: ['t'], action: 'status', status: 'completed' } as any, 'u-emp');
+
+    expect(result.results[0]).toMatchObject({ ok: false, error: 'لا يخرج المهمة من المراجعة إلا أحد مراجعيها' });
+    expect(tx.task.update).not.toHaveBeenCalled();
+  });
+
+  it('lets an explicit reviewer move the task on', async () => {
+    const reviewed = underReview();
+    reviewed.reviewers = [{ userId: 'u-emp' }];
+    const { service } = setup([reviewed], employee);
+
+    const result = await service.bulkUpdate({ taskIds: ['t'], action: 'status', status: 'completed' } as any, 'u-emp');
+
+    expect(result.results[0]).toEqual({ taskId: 't', ok: true });
+  });
+
+  it('lets the track leads decide when no reviewers are set', async () => {
+    const { service } = setup([underReview()], lead, ['u-lead']);
+
+    const result = await service.bulkUpdate({ taskIds: ['t'], action: 'status', status: 'completed' } as any, 'u-lead');
+
+    expect(result.results[0]).toEqual({ taskId: 't', ok: true });
+  });
+
+  it('offers no status moves to a non-reviewer', async () => {
+    const { service } = setup([underReview()], employee, ['u-lead']);
+
+    expect(await service.getTransitions('t', { id: 'u-emp', ...employee })).toEqual([]);
+  });
+});
+
+describe('getDependencies', () => {
+  const employee = { id: 'u-emp', role: 'employee', trackPermissions: [] };
+
+  it('checks the task with the task visibility filter', async () => {
+    const { service, prisma } = setup([task('t')]);
+
+    await service.getDependencies('t', employee);
+
+    expect(prisma.task.count.mock.calls[0][0].where).toMatchObject({ id: 't', isDeleted: false, OR: expect.any(Array) });
+  });
+
+  it('hides the dependencies of a task the user cannot see', async () => {
+    const { service, prisma } = setup([task('t')]);
+    prisma.task.count.mockResolvedValue(0);
+
+    await expect(service.getDependencies('t', employee)).rejects.toThrow(NotFoundException);
+  });
+});
@@ -1,36 +1,61 @@
-import { Injectable, NotFoundException, ForbiddenException, BadRequestException } from '@nestjs/common';
+import { Injectable, NotFoundException, ForbiddenException, BadRequestException, HttpException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma, TaskRecurrence } from '@prisma/client';
 import { PrismaService } from '../common/prisma.service';
 import { AuditService } from '../audit/audit.service';
 import { EventsGateway } from '../websocket/events.gateway';
-import { CreateTaskDto, UpdateTaskDto, CreateChecklistItemDto, UpdateChecklistItemDto, CreateAdminNoteDto, UpdateAdminNoteDto, CreateTaskUpdateDto } from './tasks.dto';
-import { extname } from 'path';
-
-const ALLOWED_EXTENSIONS = new Set([
-  '.xlsx', '.xls', '.docx', '.doc', '.pptx', '.ppt',
-  '.pdf', '.png', '.jpg', '.jpeg', '.webp',
-  '.txt', '.csv', '.zip',
-]);
-
-const BLOCKED_EXTENSIONS = new Set([
-  '.exe', '.js', '.sh', '.bat', '.dll', '.apk', '.cmd',
-  '.com', '.msi', '.ps1', '.vbs', '.wsf', '.scr', '.pif',
-]);
-
-const ALLOWED_MIMES = new Set([
-  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-  'application/vnd.ms-excel',
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-  'application/msword',
-  'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-  'application/vnd.ms-powerpoint',
-  'application/pdf',
-  'image/png', 'image/jpeg', 'image/webp',
-  'text/plain', 'text/csv',
-  'application/zip', 'application/x-zip-compressed',
-  'application/octet-stream',
-]);
-
-const MAX_TASK_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+import { AttachmentsService } from '../attachments/attachments.service';
+import { ScopeBlocksService } from '../scope-blocks/scope-blocks.service';
+import { CommentsService } from '../comments/comments.service';
+import { GLOBAL_TRACK_ROLES } from '../common/guards/track-permission.guard';
+import { DomainEvents } from '../common/events/domain-events';
+import { buildTaskVisibilityFilter, TaskViewer } from './task-visibility';
+import { TaskDependenciesService } from './task-dependencies.service';
+import { RecurrenceTemplate, TaskRecurrenceService } from './task-recurrence.service';
+import { TaskTemplatesService } from './task-templates.service';
+import { DAY_MS } from './critical-path';
+import { weekStartOf } from './time-tracking.service';
+import { hajjSeasons } from './timeline-milestones';
+import { TASK_STATUSES, TASK_STATUS_LABELS_AR } from './task-status';
+import { resolveDeadlinePolicy, ruleForPriority } from './deadline-policy';
+import { findTransition, missingTransitionFields, resolveTaskWorkflow, TaskWorkflow, WORKFLOW_FIELD_LABELS_AR } from './task-workflow';
+import { ApplyTaskTemplateDto } from './task-templates.dto';
+import { TASK_SORT_FIELDS, BulkTaskActionDto, CreateTaskDto, UpdateTaskDto, TaskRecurrenceDto, CreateTaskDependencyDto, CreateChecklistItemDto, UpdateChecklistItemDto, CreateAdminNoteDto, UpdateAdminNoteDto, CreateTaskUpdateDto } from './tasks.dto';
+
+/** What a status change is validated against: the task's state, assignment and attachments. */
+type TransitionTask = {
+  id: string;
+  status: string;
+  trackId: string | null;
+  assigneeTrackId: string | null;
+  assigneeType: string;
+  assigneeUserId: string | null;
+  assignments: Array<{ userId: string }>;
+  notes: string | null;
+  startDate: Date | null;
+  dueDate: Date | null;
+  files: unknown[];
+  reviewers: Array<{ userId: string }>;
+};
+
+/** Outcome of a bulk operation for one task; `details` carries blockers and the like. */
+export interface BulkTaskResult {
+  taskId: string;
+  ok: boolean;
+  unchanged?: boolean;
+  error?: string;
+  details?: Record<string, unknown>;
+}
+
+/** An admin/PM override of a dependency, subtask or WIP check, for the task audit log. */
+type TaskOverride = { action: string; after: Record<string, any> };
+
+/** What a bulk action writes for one task; overrides are audited with it. */
+type BulkChange = {
+  data: Prisma.TaskUncheckedUpdateInput;
+  audit: { action: string; before: any; after: any };
+  overrides?: TaskOverride[];
+};
 
 @Injectable()
 export class TasksService {
@@ -38,6 +63,13 @@ export class TasksService {
     private prisma: PrismaService,
     private audit: AuditService,
     private events: EventsGateway,
+    private eventBus: EventEmitter2,
+    private attachments: AttachmentsService,
+    private scopeBlocks: ScopeBlocksService,
+    private dependencies: TaskDependenciesService,
+    private comments: CommentsService,
+    private recurrences: TaskRecurrenceService,
+    private templates: TaskTemplatesService,
   ) {}
 
   private readonly listIncludes = {
@@ -57,6 +89,7 @@ export class TasksService {
         adminNotes: true,
         taskUpdates: true,
         files: true,
+        subtasks: { where: { isDeleted: false } },
       },
     },
   };
@@ -72,6 +105,14 @@ export class TasksService {
         user: { select: { id: true, name: true, nameAr: true } },
       },
     },
+    reviewers: {
+      include: {
+        user: { select: { id: true, name: true, nameAr: true } },
+      },
+    },
+    recurrence: { select: { id: true, rrule: true, startsAt: true, nextOccurrenceAt: true, isActive: true } },
+    parent: { select: { id: true, title: true, titleAr: true, status: true } },
+    _count: { select: { subtasks: { where: { isDeleted: false } } } },
     files: {
       include: {
         uploadedBy: { select: { id: true, name: true, nameAr: true } },
@@ -87,6 +128,7 @@ export class TasksService {
     taskUpdates: {
       include: {
         author: { select: { id: true, name: true, nameAr: true } },
+        attachments: { select: { id: true, fileName: true, fileSize: true, mimeType: true, createdAt: true } },
       },
       orderBy: { createdAt: 'desc' as const },
       take: 50,
@@ -127,55 +169,32 @@ export class TasksService {
     }
   }
 
-  private validateFile(file: Express.Multer.File) {
-    const ext = extname(file.originalname).toLowerCase();
-    if (BLOCKED_EXTENSIONS.has(ext)) {
-      throw new BadRequestException(`نوع الملف غير مسموح: ${ext}`);
-    }
-    if (!ALLOWED_EXTENSIONS.has(ext)) {
-      throw new BadRequestException(`نوع الملف غير مدعوم: ${ext}. الأنواع المدعومة: ${[...ALLOWED_EXTENSIONS].join(', ')}`);
-    }
-    if (file.size > MAX_TASK_FILE_SIZE) {
-      throw new BadRequestException(`حجم الملف ${file.originalname} يتجاوز الحد الأقصى (${MAX_TASK_FILE_SIZE / 1024 / 1024} MB)`);
-    }
-  }
-
   /**
-   * Build visibility filter based on user role and track permissions.
-   * - Admin/PM: see all tasks
-   * - HR: GLOBAL + HR + own USER tasks + own track tasks
-   * - Regular users: GLOBAL + own USER tasks + tasks assigned to their tracks
+   * Emits a task event to the same audience buildTaskVisibilityFilter shows the
+   * task to, plus members of its track. Pass the previous state as well when
+   * the assignment changed so the old audience drops the task.
    */
-  private buildVisibilityFilter(user: { id: string; role: string; trackPermissions?: Array<{ trackId: string }> }) {
-    if (user.role === 'admin' || user.role === 'pm') {
-      return { isDeleted: false };
+  private broadcastTask(event: string, payload: any, ...tasks: Array<{
+    trackId: string | null;
+    assigneeType: string;
+    assigneeTrackId: string | null;
+    assigneeUserId: string | null;
+    createdById: string;
+    assignments?: Array<{ userId: string }>;
+  }>) {
+    if (tasks.some((t) => t.assigneeType === 'GLOBAL')) {
+      this.events.server.emit(event, payload);
+      return;
     }
 
-    const userTrackIds = (user.trackPermissions || []).map((tp) => tp.trackId);
-
-    const orConditions: any[] = [
-      // GLOBAL tasks visible to everyone
-      { assigneeType: 'GLOBAL' },
-      // Tasks assigned directly to this user
-      { assigneeType: 'USER', assigneeUserId: user.id },
-      // Tasks created by this user
-      { createdById: user.id },
-    ];
+    const roles = [...GLOBAL_TRACK_ROLES];
+    if (tasks.some((t) => t.assigneeType === 'HR')) roles.push('hr');
 
-    // Tasks assigned to user's tracks
-    if (userTrackIds.length > 0) {
-      orConditions.push({ assigneeType: 'TRACK', assigneeTrackId: { in: userTrackIds } });
-    }
-
-    // HR users can also see HR-assigned tasks
-    if (user.role === 'hr') {
-      orConditions.push({ assigneeType: 'HR' });
-    }
-
-    return {
-      isDeleted: false,
-      OR: orConditions,
-    };
+    this.events.emitToAudience({
+      roles,
+      trackIds: tasks.flatMap((t) => [t.trackId, t.assigneeTrackId]),
+      userIds: tasks.flatMap((t) => [t.assigneeUserId, t.createdById, ...(t.assignments || []).map((a) => a.userId)]),
+    }, event, payload);
   }
 
   /**
@@ -194,10 +213,12 @@ export class TasksService {
     dueDateFrom?: string;
     dueDateTo?: string;
     tab?: string; // 'my' | 'track' | 'hr' | 'all'
+    sortBy?: string;
+    sortDir?: string;
   }) {
-    const { page = 1, pageSize = 25, status, priority, trackId, assigneeType, assigneeId, search, overdue, dueDateFrom, dueDateTo, tab } = params;
+    const { page = 1, pageSize = 25, status, priority, trackId, assigneeType, assigneeId, search, overdue, dueDateFrom, dueDateTo, tab, sortBy, sortDir } = params;
 
-    const baseWhere = this.buildVisibilityFilter(user);
+    const baseWhere = buildTaskVisibilityFilter(user);
     const where: any = { ...baseWhere };
 
     // Tab-specific filtering
@@ -241,7 +262,8 @@ export class TasksService {
     }
     if (overdue) {
       where.dueDate = { lt: new Date() };
-      where.status = { notIn: ['completed', 'cancelled'] };
+      // An explicit status filter narrows the overdue tasks instead of being replaced
+      if (!status) where.status = { notIn: ['completed', 'cancelled'] };
     }
     if (dueDateFrom || dueDateTo) {
       where.dueDate = {
@@ -254,7 +276,7 @@ export class TasksService {
       this.prisma.task.findMany({
         where,
         include: this.listIncludes,
-        orderBy: [{ dueDate: 'asc' }, { createdAt: 'desc' }],
+        orderBy: this.listOrderBy(sortBy, sortDir),
         skip: (page - 1) * pageSize,
         take: pageSize,
       }),
@@ -264,6 +286,16 @@ export class TasksService {
     return { data, total, page, pageSize, totalPages: Math.ceil(total / pageSize) };
   }
 
+  /** Order of the task list: the requested field first, then due date and newest. */
+  private listOrderBy(sortBy?: string, sortDir?: string): Prisma.TaskOrderByWithRelationInput[] {
+    const dir: Prisma.SortOrder = sortDir === 'desc' ? 'desc' : 'asc';
+    if (!sortBy || sortBy === 'dueDate' || !(TASK_SORT_FIELDS as readonly string[]).includes(sortBy)) {
+      return [{ dueDate: sortBy === 'dueDate' ? { sort: dir, nulls: 'last' } : 'asc' }, { createdAt: 'desc' }];
+    }
+    const field = sortBy === 'title' ? 'titleAr' : sortBy;
+    return [{ [field]: dir }, { dueDate: 'asc' }, { createdAt: 'desc' }];
+  }
+
   /**
    * Legacy: findAll for admin/pm only (backward compat)
    */
@@ -381,11 +413,24 @@ export class TasksService {
     return task;
   }
 
-  async create(dto: CreateTaskDto, userId: string) {
-    const { assigneeIds, assigneeType, assigneeTrackId, assigneeUserId, ...taskData } = dto;
+  /** Not found, as for a missing task, unless the user may see the task. */
+  private async assertVisible(id: string, user: TaskViewer) {
+    const visible = await this.prisma.task.count({ where: { id, ...buildTaskVisibilityFilter(user) } });
+    if (!visible) throw new NotFoundException('المهمة غير موجودة');
+  }
+
+  async create(dto: CreateTaskDto, userId: string, occurrence?: { recurrenceId: string; occurrenceDate: Date }) {
+    const { assigneeIds, reviewerIds, recurrence, assigneeType, assigneeTrackId, assigneeUserId, ...taskData } = dto;
 
     // Validate polymorphic assignment
     this.validateAssignment(assigneeType, assigneeTrackId, assigneeUserId);
+    this.validateDates(dto.startDate, dto.dueDate);
+    const rrule = recurrence ? this.recurrences.buildRule(recurrence, this.recurrences.anchorOf(dto)) : null;
+    if (taskData.parentId) {
+      // A subtask belongs to its parent's track unless given its own
+      const parent = await this.validateParent(taskData.parentId);
+      taskData.trackId ??= parent.trackId ?? undefined;
+    }
 
     // Validate referenced entities exist
     if (assigneeType === 'TRACK' && assigneeTrackId) {
@@ -397,9 +442,10 @@ export class TasksService {
       if (!user) throw new BadRequestException('المستخدم المحدد غير موجود');
     }
 
-    const task = await this.prisma.task.create({
+    let task = await this.prisma.task.create({
       data: {
         ...taskData,
+        ...occurrence,
         status: (dto.status as any) || 'pending',
         priority: (dto.priority as any) || 'medium',
         createdById: userId,
@@ -416,21 +462,30 @@ export class TasksService {
               },
             }
           : {}),
+        ...(reviewerIds && reviewerIds.length > 0
+          ? { reviewers: { create: [...new Set(reviewerIds)].map((uid) => ({ userId: uid })) } }
+          : {}),
       },
       include: this.detailIncludes,
     });
 
+    if (rrule) {
+      await this.recurrences.startSeries(task, rrule, userId);
+      task = await this.findById(task.id);
+    }
+    if (task.parentId) {
+      await this.rollUpSubtasks(task.parentId, userId);
+    }
+
     // Write task audit log
     await this.writeTaskAudit(task.id, 'CREATED', null, task, userId);
 
+    this.eventBus.emit(DomainEvents.TASK_CREATED, { taskId: task.id, actorId: userId });
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'task', entityIds: [task.id] });
+    await this.scopeBlocks.recalculateForBlocks([task.scopeBlockId]);
+
     // Emit real-time event
-    this.events.server.emit('task.created', { task });
-    if (task.trackId) {
-      this.events.emitToTrack(task.trackId, 'task.created', { task });
-    }
-    if (task.assigneeTrackId) {
-      this.events.emitToTrack(task.assigneeTrackId, 'task.created', { task });
-    }
+    this.broadcastTask('task.created', { task }, task);
     // Notify assigned user
     if (task.assigneeUserId) {
       this.events.emitToUser(task.assigneeUserId, 'task.assigned', { task });
@@ -447,7 +502,11 @@ export class TasksService {
 
   async update(id: string, dto: UpdateTaskDto, userId: string) {
     const existing = await this.findById(id);
-    const { assigneeIds, assigneeType, assigneeTrackId, assigneeUserId, ...taskData } = dto;
+    const { assigneeIds, reviewerIds, assigneeType, assigneeTrackId, assigneeUserId, force, recurrenceScope, ...taskData } = dto;
+    this.validateDates(
+      dto.startDate !== undefined ? dto.startDate : existing.startDate,
+      dto.dueDate !== undefined ? dto.dueDate : existing.dueDate,
+    );
 
     // If reassignment is requested, validate it
     if (assigneeType) {
@@ -463,11 +522,26 @@ export class TasksService {
       }
     }
 
+    const hasSubtasks = existing._count.subtasks > 0;
+    if (hasSubtasks && taskData.progress !== undefined && taskData.progress !== existing.progress) {
+      throw new BadRequestException('تقدم المهمة يُحسب من مهامها الفرعية ولا يمكن تعديله يدوياً');
+    }
+
     // Auto-set status to completed if progress reaches 100
     if (taskData.progress === 100 && existing.status !== 'completed') {
       (taskData as any).status = 'completed';
       (taskData as any).completionDate = new Date();
     }
+    if (taskData.status && taskData.status !== existing.status) {
+      const actor = await this.loadActor(userId);
+      const transition = await this.checkTransition(existing, taskData.status, actor, undefined, taskData);
+      if (transition && transition.progress !== null && taskData.progress === undefined && !hasSubtasks) {
+        taskData.progress = transition.progress;
+      }
+      await this.checkDependencies(existing, taskData.status, force, userId);
+      await this.checkSubtasks(existing, taskData.status, force, userId);
+      await this.checkWipLimit(existing, taskData.status, force, actor.role, userId);
+    }
 
     const updateData: any = { ...taskData };
 
@@ -498,7 +572,16 @@ export class TasksService {
       }
     }
 
-    const updated = assigneeIds !== undefined ? await this.findById(id) : task;
+    if (reviewerIds !== undefined) {
+      await this.prisma.taskReviewer.deleteMany({ where: { taskId: id } });
+      if (reviewerIds.length > 0) {
+        await this.prisma.taskReviewer.createMany({
+          data: [...new Set(reviewerIds)].map((uid) => ({ taskId: id, userId: uid })),
+        });
+      }
+    }
+
+    const updated = assigneeIds !== undefined || reviewerIds !== undefined ? await this.findById(id) : task;
 
     // Determine audit action
     const action = assigneeType && assigneeType !== existing.assigneeType ? 'REASSIGNED' : 'UPDATED';
@@ -514,65 +597,195 @@ export class TasksService {
       afterData: updated as any,
     });
 
+    // Publish domain events for newly assigned users and status transitions
+    const previousAssignees = new Set(existing.assignments.map((a) => a.userId));
+    if (existing.assigneeUserId) previousAssignees.add(existing.assigneeUserId);
+    const newAssignees = [
+      ...updated.assignments.map((a) => a.userId),
+      ...(updated.assigneeUserId ? [updated.assigneeUserId] : []),
+    ].filter((uid) => !previousAssignees.has(uid));
+    if (newAssignees.length > 0) {
+      this.eventBus.emit(DomainEvents.TASK_ASSIGNED, { taskId: id, userIds: newAssignees, actorId: userId });
+    }
+    if (updated.status !== existing.status) {
+      this.eventBus.emit(DomainEvents.TASK_STATUS_CHANGED, {
+        taskId: id,
+        fromStatus: existing.status,
+        toStatus: updated.status,
+        actorId: userId,
+      });
+    }
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'task', entityIds: [id] });
+    // Roll progress into both the old and the new scope block
+    await this.scopeBlocks.recalculateForBlocks([existing.scopeBlockId, updated.scopeBlockId]);
+
     // Emit real-time event
-    this.events.server.emit('task.updated', { task: updated });
-    if (updated.trackId) {
-      this.events.emitToTrack(updated.trackId, 'task.updated', { task: updated });
+    this.broadcastTask('task.updated', { task: updated }, existing, updated);
+
+    const datesChanged =
+      existing.startDate?.getTime() !== updated.startDate?.getTime() ||
+      existing.dueDate?.getTime() !== updated.dueDate?.getTime();
+    if (datesChanged || (updated.status === 'completed' && existing.status !== 'completed')) {
+      await this.shiftSuccessors(id, userId);
     }
 
-    return updated;
-  }
+    if (recurrenceScope === 'future' && updated.recurrenceId) {
+      await this.applyToFutureOccurrences(updated, dto, userId);
+    }
 
-  // Auto-progress mapping by status
-  private readonly STATUS_PROGRESS: Record<string, number> = {
-    pending: 0,
-    in_progress: 50,
-    under_review: 80,
-    completed: 100,
-  };
+    if (hasSubtasks && updated.completeWithSubtasks && !existing.completeWithSubtasks) {
+      await this.rollUpSubtasks(id, userId);
+    }
+    const rollupChanged =
+      updated.status !== existing.status || updated.progress !== existing.progress || updated.weight !== existing.weight;
+    if (updated.parentId && rollupChanged) {
+      await this.rollUpSubtasks(updated.parentId, userId);
+    }
 
-  async updateStatus(id: string, status: string, userId: string) {
-    const existing = await this.findById(id);
+    return updated;
+  }
 
-    // ─── Enhanced RBAC ───
+  private async loadActor(userId: string) {
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
       include: { trackPermissions: { select: { trackId: true } } },
     });
-    const role = user?.role || '';
-
-    if (role === 'admin') {
-      // Admin can do everything
-    } else if (role === 'pm') {
-      // PM can do everything except cancel
-      if (status === 'cancelled') {
-        throw new ForbiddenException('مدير المشروع لا يملك صلاحية إلغاء المهام');
-      }
-    } else if (role === 'track_lead') {
+    return { id: userId, role: user?.role || '', trackPermissions: user?.trackPermissions };
+  }
+
+  /** Workflow of the task's track, or the default one. */
+  private async workflowFor(task: { trackId: string | null; assigneeTrackId: string | null }) {
+    const trackId = task.trackId || task.assigneeTrackId;
+    const track = trackId
+      ? await this.prisma.track.findUnique({ where: { id: trackId }, select: { taskWorkflow: true } })
+      : null;
+    return resolveTaskWorkflow(track?.taskWorkflow);
+  }
+
+  /**
+   * Why `user` may not move `task` to `status`, or null when allowed. Shared by
+   * status changes and the board, which greys out columns the user cannot use.
+   */
+  private statusDenial(
+    task: { status: string; trackId: string | null; assigneeTrackId: string | null; assigneeType: string; assigneeUserId: string | null; assignments: Array<{ userId: string }> },
+    status: string,
+    user: TaskViewer,
+    workflow: TaskWorkflow,
+  ): string | null {
+    if (user.role === 'track_lead') {
       // Track lead can only update tasks in their own tracks
-      const userTrackIds = (user?.trackPermissions || []).map((tp) => tp.trackId);
-      const taskTrackId = existing.trackId || existing.assigneeTrackId;
-      if (!taskTrackId || !userTrackIds.includes(taskTrackId)) {
-        throw new ForbiddenException('لا يمكنك تحديث مهام خارج مساراتك');
-      }
-    } else {
-      // Employee: can only set in_progress or completed on tasks assigned to them
-      if (!['in_progress', 'under_review', 'completed'].includes(status)) {
-        throw new ForbiddenException('يمكنك فقط تحديث الحالة إلى قيد التنفيذ أو تحت المراجعة أو مكتملة');
-      }
-      const assignment = await this.prisma.taskAssignment.findFirst({
-        where: { taskId: id, userId },
+      const userTrackIds = (user.trackPermissions || []).map((tp) => tp.trackId);
+      const taskTrackId = task.trackId || task.assigneeTrackId;
+      if (!taskTrackId || !userTrackIds.includes(taskTrackId)) return 'لا يمكنك تحديث مهام خارج مساراتك';
+    } else if (!GLOBAL_TRACK_ROLES.includes(user.role)) {
+      // Everyone else only updates tasks assigned to them
+      const isAssigned = task.assignments.some((a) => a.userId === user.id);
+      const isDirectAssignee = task.assigneeType === 'USER' && task.assigneeUserId === user.id;
+      if (!isAssigned && !isDirectAssignee) return 'ليس لديك صلاحية لتحديث هذه المهمة';
+    }
+
+    const transition = findTransition(workflow, task.status, status);
+    if (!transition) {
+      return `سير العمل لا يسمح بنقل المهمة من «${TASK_STATUS_LABELS_AR[task.status] || task.status}» إلى «${TASK_STATUS_LABELS_AR[status] || status}»`;
+    }
+    // Admin can perform every transition the workflow has
+    if (user.role !== 'admin' && !transition.roles.includes(user.role)) {
+      return `لا تملك صلاحية نقل المهمة إلى «${TASK_STATUS_LABELS_AR[status] || status}»`;
+    }
+    return null;
+  }
+
+  /**
+   * Validates a status change against the track's workflow and returns the
+   * transition (null when the status does not change). `changes` are field
+   * updates made together with the change.
+   */
+  private async checkTransition(
+    task: TransitionTask,
+    toStatus: string,
+    user: TaskViewer,
+    comment?: string,
+    changes: { notes?: string | null; startDate?: string | Date | null; dueDate?: string | Date | null } = {},
+  ) {
+    if (toStatus === task.status) return null;
+    const workflow = await this.workflowFor(task);
+    const denial = this.statusDenial(task, toStatus, user, workflow);
+    if (denial) throw new ForbiddenException(denial);
+    // Only a reviewer's decision takes a task out of review, whichever endpoint moves it
+    if (task.status === 'under_review' && !(await this.mayDecideReview(task, user))) {
+      throw new ForbiddenException('لا يخرج المهمة من المراجعة إلا أحد مراجعيها');
+    }
+
+    const transition = findTransition(workflow, task.status, toStatus)!;
+    const missing = missingTransitionFields(
+      transition,
+      {
+        notes: changes.notes !== undefined ? changes.notes : task.notes,
+        startDate: changes.startDate !== undefined ? changes.startDate : task.startDate,
+        dueDate: changes.dueDate !== undefined ? changes.dueDate : task.dueDate,
+        fileCount: task.files.length,
+      },
+      comment,
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException({
+        message: `يتطلب هذا الانتقال: ${missing.map((f) => WORKFLOW_FIELD_LABELS_AR[f] || f).join('، ')}`,
+        missingFields: missing,
       });
-      const isDirectAssignee = existing.assigneeType === 'USER' && existing.assigneeUserId === userId;
-      if (!assignment && !isDirectAssignee) {
-        throw new ForbiddenException('ليس لديك صلاحية لتحديث هذه المهمة');
-      }
     }
+    return transition;
+  }
+
+  /** Status changes the user may make on a task, for the detail panel's actions. */
+  async getTransitions(id: string, user: TaskViewer) {
+    const task = await this.findById(id);
+    const workflow = await this.workflowFor(task);
+    if (task.status === 'under_review' && !(await this.mayDecideReview(task, user))) return [];
+    return TASK_STATUSES.filter((status) => !this.statusDenial(task, status, user, workflow)).map((status) => {
+      const transition = findTransition(workflow, task.status, status)!;
+      return {
+        to: status,
+        requiredFields: transition.requiredFields,
+        // The comment is given with the change itself, so it is never missing up front
+        missingFields: missingTransitionFields(
+          transition,
+          { notes: task.notes, startDate: task.startDate, dueDate: task.dueDate, fileCount: task.files.length },
+          '-',
+        ),
+        progress: transition.progress,
+      };
+    });
+  }
+
+  async updateStatus(id: string, status: string, userId: string, force?: boolean, comment?: string) {
+    const existing = await this.findById(id);
+
+    const actor = await this.loadActor(userId);
+    const transition = await this.checkTransition(existing, status, actor, comment);
+
+    await this.checkWipLimit(existing, status, force, actor.role, userId);
+    await this.checkDependencies(existing, status, force, userId);
+    await this.checkSubtasks(existing, status, force, userId);
+
+    return this.applyStatusChange(existing, status, userId, { progress: transition?.progress ?? null, comment });
+  }
 
-    // ─── Auto-progress based on status ───
+  /**
+   * Writes an already validated status change: completion date, progress,
+   * audit, optional comment, events, broadcast and successor shifts.
+   */
+  private async applyStatusChange(
+    existing: Awaited<ReturnType<TasksService['findById']>>,
+    status: string,
+    userId: string,
+    options: { progress: number | null; comment?: string; viaReview?: boolean },
+  ) {
+    const { id } = existing;
+    const comment = options.comment?.trim();
     const data: any = { status };
-    if (status in this.STATUS_PROGRESS) {
-      data.progress = this.STATUS_PROGRESS[status];
+    // A parent's progress only ever comes from its subtasks
+    if (options.progress !== null && existing._count.subtasks === 0) {
+      data.progress = options.progress;
     }
     if (status === 'completed') {
       data.completionDate = new Date();
@@ -587,7 +800,16 @@ export class TasksService {
       include: this.detailIncludes,
     });
 
-    await this.writeTaskAudit(id, 'STATUS_CHANGED', { status: existing.status, progress: existing.progress }, { status: task.status, progress: task.progress }, userId);
+    await this.writeTaskAudit(
+      id,
+      'STATUS_CHANGED',
+      { status: existing.status, progress: existing.progress },
+      { status: task.status, progress: task.progress, ...(comment ? { comment } : {}) },
+      userId,
+    );
+    if (comment) {
+      await this.comments.create({ entityType: 'task', entityId: id, authorId: userId, body: comment });
+    }
 
     await this.audit.log({
       actorId: userId,
@@ -599,20 +821,144 @@ export class TasksService {
       afterData: { status: task.status },
     });
 
-    // Emit real-time event
-    this.events.server.emit('task.updated', { task });
-    if (task.trackId) {
-      this.events.emitToTrack(task.trackId, 'task.updated', { task });
+    if (task.status !== existing.status) {
+      this.eventBus.emit(DomainEvents.TASK_STATUS_CHANGED, {
+        taskId: id,
+        fromStatus: existing.status,
+        toStatus: task.status,
+        actorId: userId,
+        ...(options.viaReview ? { viaReview: true } : {}),
+      });
+      this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'task', entityIds: [id] });
     }
+    await this.scopeBlocks.recalculateForBlocks([task.scopeBlockId]);
+
+    // Emit real-time event
+    this.broadcastTask('task.updated', { task }, task);
     if (status === 'completed' && existing.createdById) {
       this.events.emitToUser(existing.createdById, 'task.completed', { task });
     }
+    if (status === 'completed' && existing.status !== 'completed') {
+      await this.shiftSuccessors(id, userId);
+    }
+    if (task.parentId && task.status !== existing.status) {
+      await this.rollUpSubtasks(task.parentId, userId);
+    }
 
     return task;
   }
 
+  // ─── REVIEW ───
+
+  /** Explicit reviewers, or the leads of the task's track when none are set. */
+  private async effectiveReviewers(task: { trackId: string | null; assigneeTrackId: string | null; reviewers: Array<{ userId: string }> }) {
+    if (task.reviewers.length > 0) {
+      return { userIds: task.reviewers.map((r) => r.userId), isDefault: false };
+    }
+    const trackId = task.trackId || task.assigneeTrackId;
+    const leads = trackId
+      ? await this.prisma.trackPermission.findMany({
+          where: { trackId, user: { role: 'track_lead', isActive: true } },
+          select: { userId: true },
+        })
+      : [];
+    return { userIds: leads.map((l) => l.userId), isDefault: true };
+  }
+
+  /** Admin/PM or one of the task's effective reviewers. */
+  private async mayDecideReview(task: Parameters<TasksService['effectiveReviewers']>[0], user: TaskViewer) {
+    if (GLOBAL_TRACK_ROLES.includes(user.role)) return true;
+    const { userIds } = await this.effectiveReviewers(task);
+    return userIds.includes(user.id);
+  }
+
+  /** Reviewers of a task, whether the user may decide, and past decisions. */
+  async getReview(id: string, user: TaskViewer) {
+    const task = await this.findById(id);
+    const { userIds, isDefault } = await this.effectiveReviewers(task);
+    const [reviewers, decisions] = await Promise.all([
+      this.prisma.user.findMany({
+        where: { id: { in: userIds } },
+        select: { id: true, name: true, nameAr: true },
+      }),
+      this.prisma.taskAuditLog.findMany({
+        where: { taskId: id, action: { in: ['REVIEW_APPROVED', 'REVIEW_CHANGES_REQUESTED'] } },
+        include: { actor: { select: { id: true, name: true, nameAr: true } } },
+        orderBy: { createdAt: 'desc' },
+      }),
+    ]);
+    return {
+      reviewers,
+      isDefault,
+      canReview: task.status === 'under_review' && (GLOBAL_TRACK_ROLES.includes(user.role) || userIds.includes(user.id)),
+      decisions,
+    };
+  }
+
+  /**
+   * Records a reviewer's decision on a task under review and moves it on:
+   * approval completes it, a change request sends it back to in_progress.
+   */
+  async review(id: string, decision: 'approve' | 'request_changes', comment: string | undefined, user: TaskViewer) {
+    const existing = await this.findById(id);
+    if (existing.status !== 'under_review') {
+      throw new BadRequestException('المهمة ليست قيد المراجعة');
+    }
+    if (!(await this.mayDecideReview(existing, user))) {
+      throw new ForbiddenException('لست من مراجعي هذه المهمة');
+    }
+    if (decision === 'request_changes' && !comment?.trim()) {
+      throw new BadRequestException('يجب توضيح التعديلات المطلوبة');
+    }
+
+    const approved = decision === 'approve';
+    const toStatus = approved ? 'completed' : 'in_progress';
+    await this.checkSubtasks(existing, toStatus, undefined, user.id);
+    await this.writeTaskAudit(
+      id,
+      approved ? 'REVIEW_APPROVED' : 'REVIEW_CHANGES_REQUESTED',
+      { status: existing.status },
+      { decision, status: toStatus, ...(comment?.trim() ? { comment: comment.trim() } : {}) },
+      user.id,
+    );
+
+    // The track's workflow still decides what progress the move sets
+    const transition = findTransition(await this.workflowFor(existing), existing.status, toStatus);
+    const task = await this.applyStatusChange(existing, toStatus, user.id, {
+      progress: transition ? transition.progress : approved ? 100 : null,
+      comment,
+      viaReview: true,
+    });
+
+    this.eventBus.emit(DomainEvents.TASK_REVIEWED, { taskId: id, decision, comment: comment?.trim(), actorId: user.id });
+    return task;
+  }
+
+  /** Tasks under review waiting on this user, oldest first. */
+  async getReviewQueue(user: TaskViewer) {
+    const leadTrackIds = user.role === 'track_lead' ? (user.trackPermissions || []).map((tp) => tp.trackId) : [];
+    return this.prisma.task.findMany({
+      where: {
+        isDeleted: false,
+        status: 'under_review',
+        OR: [
+          { reviewers: { some: { userId: user.id } } },
+          ...(leadTrackIds.length > 0
+            ? [{
+                reviewers: { none: {} },
+                OR: [{ trackId: { in: leadTrackIds } }, { assigneeType: 'TRACK' as const, assigneeTrackId: { in: leadTrackIds } }],
+              }]
+            : []),
+        ],
+      },
+      include: this.listIncludes,
+      orderBy: { updatedAt: 'asc' },
+    });
+  }
+
   async assign(id: string, userIds: string[], assignedBy: string) {
-    await this.findById(id);
+    const existing = await this.findById(id);
+    const alreadyAssigned = new Set(existing.assignments.map((a) => a.userId));
 
     await this.prisma.taskAssignment.createMany({
       data: userIds.map((userId) => ({
@@ -641,19 +987,29 @@ export class TasksService {
       this.events.emitToUser(uid, 'task.assigned', { task });
     });
 
+    const newlyAssigned = userIds.filter((uid) => !alreadyAssigned.has(uid));
+    if (newlyAssigned.length > 0) {
+      this.eventBus.emit(DomainEvents.TASK_ASSIGNED, { taskId: id, userIds: newlyAssigned, actorId: assignedBy });
+      this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'task', entityIds: [id] });
+    }
+
     return task;
   }
 
   async delete(id: string, userId: string) {
     const existing = await this.findById(id);
+    const descendants = await this.findDescendants(id);
 
-    // Soft delete
-    await this.prisma.task.update({
-      where: { id },
+    // Soft delete, subtasks included
+    await this.prisma.task.updateMany({
+      where: { id: { in: [id, ...descendants.map((t) => t.id)] } },
       data: { isDeleted: true, deletedAt: new Date() },
     });
 
     await this.writeTaskAudit(id, 'DELETED', existing, null, userId);
+    for (const subtask of descendants) {
+      await this.writeTaskAudit(subtask.id, 'DELETED', null, { deletedWithTaskId: id }, userId);
+    }
 
     await this.audit.log({
       actorId: userId,
@@ -664,15 +1020,313 @@ export class TasksService {
       beforeData: existing as any,
     });
 
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'task', entityIds: [id, ...descendants.map((t) => t.id)] });
+    await this.scopeBlocks.recalculateForBlocks([existing.scopeBlockId, ...descendants.map((t) => t.scopeBlockId)]);
+
     // Emit real-time event
-    this.events.server.emit('task.deleted', { taskId: id });
-    if (existing.trackId) {
-      this.events.emitToTrack(existing.trackId, 'task.deleted', { taskId: id });
+    this.broadcastTask('task.deleted', { taskId: id }, existing);
+    descendants.forEach((subtask) => this.broadcastTask('task.deleted', { taskId: subtask.id }, subtask));
+
+    if (existing.parentId) {
+      await this.rollUpSubtasks(existing.parentId, userId);
     }
 
     return { message: 'تم حذف المهمة' };
   }
 
+  // ─── Bulk operations ───
+
+  private readonly bulkIncludes = {
+    assignments: { select: { userId: true } },
+    files: { select: { id: true } },
+    reviewers: { select: { userId: true } },
+    _count: { select: { subtasks: { where: { isDeleted: false } } } },
+  };
+
+  /**
+   * Applies one change to many tasks. Each task is checked as its single edit
+   * would be (workflow, dependencies, subtasks, WIP limits, scope block
+   * track); the ones that pass are written in one transaction with a task
+   * audit entry each and go out as a single `tasks.bulk_updated` broadcast.
+   * Cascades (parent rollups, successor shifts) follow as for single edits.
+   * With allOrNothing one failed task cancels the whole batch.
+   */
+  async bulkUpdate(dto: BulkTaskActionDto, userId: string) {
+    const taskIds = [...new Set(dto.taskIds)];
+    const scopeBlock = await this.validateBulkAction(dto);
+    const actor = await this.loadActor(userId);
+    const tasks = await this.prisma.task.findMany({
+      where: { id: { in: taskIds }, isDeleted: false },
+      include: this.bulkIncludes,
+    });
+    const byId = new Map(tasks.map((t) => [t.id, t]));
+
+    type BulkTask = (typeof tasks)[number];
+    const changes: Array<{ task: BulkTask } & BulkChange> = [];
+    const results: BulkTaskResult[] = [];
+    const enteringWip = new Map<string, number>();
+    // Subtasks completed earlier in this batch no longer hold back their parent
+    const completed = new Set<string>();
+
+    for (const taskId of dto.action === 'status' ? this.subtasksFirst(taskIds, byId) : taskIds) {
+      const task = byId.get(taskId);
+      if (!task) {
+        results.push({ taskId, ok: false, error: 'المهمة غير موجودة' });
+        continue;
+      }
+      try {
+        const change = await this.bulkChangeFor(task, dto, actor, scopeBlock, enteringWip, completed);
+        if (change) changes.push({ task, ...change });
+        if (dto.status === 'completed') completed.add(taskId);
+        results.push({ taskId, ok: true, ...(change ? {} : { unchanged: true }) });
+      } catch (err) {
+        if (!(err instanceof HttpException)) throw err;
+        const response = err.getResponse();
+        const { message, ...details } = typeof response === 'string' ? { message: response } : (response as Record<string, any>);
+        results.push({
+          taskId,
+          ok: false,
+          error: Array.isArray(message) ? message[0] : message,
+          ...(Object.keys(details).length > 0 && !('statusCode' in details) ? { details } : {}),
+        });
+      }
+    }
+
+    const position = new Map(taskIds.map((id, i) => [id, i]));
+    results.sort((a, b) => position.get(a.taskId)! - position.get(b.taskId)!);
+
+    const failed = results.filter((r) => !r.ok).length;
+    if (dto.allOrNothing && failed > 0) {
+      throw new BadRequestException({ message: `تعذر تطبيق العملية على ${failed} من المهام المحددة ولم تُعدَّل أي مهمة`, results });
+    }
+
+    // Deleting a task takes its subtasks along, as a single delete does
+    const changedIds = new Set(changes.map((c) => c.task.id));
+    const deletedSubtasks: Awaited<ReturnType<TasksService['findDescendants']>> = [];
+    if (dto.action === 'delete') {
+      for (const change of changes) {
+        for (const subtask of await this.findDescendants(change.task.id)) {
+          if (changedIds.has(subtask.id) || deletedSubtasks.some((t) => t.id === subtask.id)) continue;
+          deletedSubtasks.push(subtask);
+        }
+      }
+    }
+    const toJson = (value: any) => (value ? JSON.parse(JSON.stringify(value)) : undefined);
+
+    await this.prisma.$transaction(async (tx) => {
+      if (dto.action === 'delete') {
+        await tx.task.updateMany({
+          where: { id: { in: [...changedIds, ...deletedSubtasks.map((t) => t.id)] } },
+          data: { isDeleted: true, deletedAt: new Date() },
+        });
+      } else {
+        for (const change of changes) {
+          await tx.task.update({ where: { id: change.task.id }, data: change.data });
+        }
+        if (dto.action === 'reassign' && dto.assigneeIds !== undefined) {
+          await tx.taskAssignment.deleteMany({ where: { taskId: { in: [...changedIds] } } });
+          await tx.taskAssignment.createMany({
+            data: [...changedIds].flatMap((taskId) => [...new Set(dto.assigneeIds)].map((uid) => ({ taskId, userId: uid, assignedBy: userId }))),
+          });
+        }
+      }
+      await tx.taskAuditLog.createMany({
+        data: [
+          ...changes.flatMap((c) => [
+            ...(c.overrides || []).map((o) => ({
+              taskId: c.task.id,
+              action: o.action,
+              afterJson: toJson({ ...o.after, bulk: true }),
+              actorUserId: userId,
+            })),
+            {
+              taskId: c.task.id,
+              action: c.audit.action,
+              beforeJson: toJson(c.audit.before),
+              afterJson: toJson({ ...c.audit.after, bulk: true }),
+              actorUserId: userId,
+            },
+          ]),
+          ...deletedSubtasks.map((t) => ({
+            taskId: t.id,
+            action: 'DELETED',
+            afterJson: toJson({ deletedWithTaskId: t.parentId, bulk: true }),
+            actorUserId: userId,
+          })),
+        ],
+      });
+    });
+
+    const updated = dto.action === 'delete'
+      ? []
+      : await this.prisma.task.findMany({ where: { id: { in: [...changedIds] } }, include: this.listIncludes });
+    const affectedIds = [...changedIds, ...deletedSubtasks.map((t) => t.id)];
+
+    for (const after of updated) {
+      const before = byId.get(after.id)!;
+      if (after.status !== before.status) {
+        this.eventBus.emit(DomainEvents.TASK_STATUS_CHANGED, { taskId: after.id, fromStatus: before.status, toStatus: after.status, actorId: userId });
+      }
+      if (dto.action === 'reassign') {
+        const previous = new Set([...before.assignments.map((a) => a.userId), before.assigneeUserId]);
+        const added = [...after.assignments.map((a) => a.userId), after.assigneeUserId].filter((uid): uid is string => !!uid && !previous.has(uid));
+        if (added.length > 0) this.eventBus.emit(DomainEvents.TASK_ASSIGNED, { taskId: after.id, userIds: [...new Set(added)], actorId: userId });
+      }
+    }
+    if (affectedIds.length > 0) {
+      this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'task', entityIds: affectedIds });
+      await this.scopeBlocks.recalculateForBlocks([
+        ...changes.map((c) => c.task.scopeBlockId),
+        ...updated.map((t) => t.scopeBlockId),
+        ...deletedSubtasks.map((t) => t.scopeBlockId),
+      ]);
+      this.broadcastTask('tasks.bulk_updated', { action: dto.action, taskIds: affectedIds }, ...changes.map((c) => c.task), ...updated, ...deletedSubtasks);
+    }
+
+    // Cascades of the changed tasks
+    for (const after of updated) {
+      const before = byId.get(after.id)!;
+      if (dto.action === 'shift_dates' || (after.status === 'completed' && before.status !== 'completed')) {
+        await this.shiftSuccessors(after.id, userId);
+      }
+    }
+    if (dto.action === 'status' || dto.action === 'delete') {
+      const parentIds = new Set(changes.map((c) => c.task.parentId).filter((id): id is string => !!id && !(dto.action === 'delete' && changedIds.has(id))));
+      for (const parentId of parentIds) await this.rollUpSubtasks(parentId, userId);
+    }
+
+    return { action: dto.action, applied: changes.length, failed, results };
+  }
+
+  /** Checks the parts of a bulk action that do not depend on the task; returns the target scope block. */
+  private async validateBulkAction(dto: BulkTaskActionDto) {
+    if (dto.action === 'reassign') {
+      this.validateAssignment(dto.assigneeType!, dto.assigneeTrackId, dto.assigneeUserId);
+      if (dto.assigneeType === 'TRACK') {
+        const track = await this.prisma.track.findUnique({ where: { id: dto.assigneeTrackId! } });
+        if (!track) throw new BadRequestException('المسار المحدد غير موجود');
+      }
+      if (dto.assigneeType === 'USER') {
+        const user = await this.prisma.user.findUnique({ where: { id: dto.assigneeUserId! } });
+        if (!user) throw new BadRequestException('المستخدم المحدد غير موجود');
+      }
+    }
+    if (dto.action === 'scope_block' && dto.scopeBlockId) {
+      const block = await this.prisma.scopeBlock.findUnique({ where: { id: dto.scopeBlockId }, select: { id: true, trackId: true } });
+      if (!block) throw new BadRequestException('عنصر النطاق المحدد غير موجود');
+      return block;
+    }
+    return null;
+  }
+
+  /** Batch order for status changes: subtasks before the parents also in the batch. */
+  private subtasksFirst(taskIds: string[], byId: Map<string, { parentId: string | null }>) {
+    const depth = (id: string) => {
+      let levels = 0;
+      for (let parentId = byId.get(id)?.parentId; parentId && byId.has(parentId); parentId = byId.get(parentId)!.parentId) levels++;
+      return levels;
+    };
+    const depths = new Map(taskIds.map((id) => [id, depth(id)]));
+    return [...taskIds].sort((a, b) => depths.get(b)! - depths.get(a)!);
+  }
+
+  /**
+   * The update and task audit entries a bulk action makes on one task, or null
+   * when the task already is as requested. Throws when the task may not change.
+   * Overrides are returned, not written, so they land with the batch or not at all.
+   */
+  private async bulkChangeFor(
+    task: Prisma.TaskGetPayload<{ include: TasksService['bulkIncludes'] }>,
+    dto: BulkTaskActionDto,
+    actor: TaskViewer,
+    scopeBlock: { id: string; trackId: string } | null,
+    enteringWip: Map<string, number>,
+    completed: ReadonlySet<string>,
+  ): Promise<BulkChange | null> {
+    switch (dto.action) {
+      case 'status': {
+        const status = dto.status!;
+        if (status === task.status) return null;
+        const overrides: TaskOverride[] = [];
+        const transition = await this.checkTransition(task, status, actor);
+        await this.checkDependencies(task, status, dto.force, actor.id, overrides);
+        await this.checkSubtasks(task, status, dto.force, actor.id, overrides, completed);
+        const wipKey = `${task.trackId || task.assigneeTrackId}:${status}`;
+        await this.checkWipLimit(task, status, dto.force, actor.role, actor.id, enteringWip.get(wipKey) || 0, overrides);
+        enteringWip.set(wipKey, (enteringWip.get(wipKey) || 0) + 1);
+
+        const data: Prisma.TaskUncheckedUpdateInput = { status: status as any };
+        const progress = transition?.progress ?? null;
+        if (progress !== null && task._count.subtasks === 0) data.progress = progress;
+        if (status === 'completed') data.completionDate = new Date();
+        if (task.status === 'completed') data.completionDate = null;
+        return {
+          data,
+          overrides,
+          audit: {
+            action: 'STATUS_CHANGED',
+            before: { status: task.status, progress: task.progress },
+            after: { status, progress: data.progress ?? task.progress },
+          },
+        };
+      }
+      case 'reassign': {
+        const assignment = {
+          assigneeType: dto.assigneeType as any,
+          assigneeTrackId: dto.assigneeType === 'TRACK' ? dto.assigneeTrackId! : null,
+          assigneeUserId: dto.assigneeType === 'USER' ? dto.assigneeUserId! : null,
+        };
+        return {
+          data: assignment,
+          audit: {
+            action: 'REASSIGNED',
+            before: {
+              assigneeType: task.assigneeType,
+              assigneeTrackId: task.assigneeTrackId,
+              assigneeUserId: task.assigneeUserId,
+              assigneeIds: task.assignments.map((a) => a.userId),
+            },
+            after: { ...assignment, ...(dto.assigneeIds !== undefined ? { assigneeIds: dto.assigneeIds } : {}) },
+          },
+        };
+      }
+      case 'shift_dates': {
+        if (!task.startDate && !task.dueDate) throw new BadRequestException('المهمة بلا تاريخ بدء أو استحقاق لإزاحته');
+        const shift = (date: Date | null) => (date ? new Date(date.getTime() + dto.days! * DAY_MS) : null);
+        const dates = { startDate: shift(task.startDate), dueDate: shift(task.dueDate) };
+        return {
+          data: dates,
+          audit: { action: 'DATES_SHIFTED', before: { startDate: task.startDate, dueDate: task.dueDate }, after: { ...dates, days: dto.days } },
+        };
+      }
+      case 'priority': {
+        if (dto.priority === task.priority) return null;
+        return {
+          data: { priority: dto.priority as any },
+          audit: { action: 'UPDATED', before: { priority: task.priority }, after: { priority: dto.priority } },
+        };
+      }
+      case 'scope_block': {
+        const scopeBlockId = scopeBlock?.id ?? null;
+        if (scopeBlockId === task.scopeBlockId) return null;
+        if (scopeBlock && scopeBlock.trackId !== task.trackId) {
+          throw new BadRequestException('عنصر النطاق المحدد لا يتبع مسار هذه المهمة');
+        }
+        return {
+          data: { scopeBlockId },
+          audit: { action: 'UPDATED', before: { scopeBlockId: task.scopeBlockId }, after: { scopeBlockId } },
+        };
+      }
+      case 'delete':
+        return {
+          data: {},
+          audit: { action: 'DELETED', before: { title: task.title, titleAr: task.titleAr, status: task.status }, after: null },
+        };
+      default:
+        throw new BadRequestException('نوع العملية غير صالح');
+    }
+  }
+
   async getStats(trackId?: string) {
     const where: any = { isDeleted: false };
     if (trackId) where.trackId = trackId;
@@ -729,6 +1383,290 @@ export class TasksService {
     return { data, total, page, pageSize, totalPages: Math.ceil(total / pageSize) };
   }
 
+  // ─── RECURRENCE ───
+
+  /**
+   * "This and all future occurrences": the series template is re-snapshotted
+   * from the edited occurrence, and the same change (dates and status aside)
+   * is applied to later occurrences that have not been started yet.
+   */
+  private async applyToFutureOccurrences(task: Awaited<ReturnType<TasksService['findById']>>, dto: UpdateTaskDto, userId: string) {
+    await this.recurrences.updateTemplate(task.recurrenceId!, task);
+    await this.writeTaskAudit(task.id, 'RECURRENCE_UPDATED', null, { recurrenceId: task.recurrenceId }, userId);
+
+    const { startDate, dueDate, status, progress, force, recurrenceScope, ...shared } = dto;
+    const later = await this.prisma.task.findMany({
+      where: { recurrenceId: task.recurrenceId, occurrenceDate: { gt: task.occurrenceDate! }, status: 'pending', isDeleted: false },
+      select: { id: true },
+    });
+    for (const occurrence of later) {
+      await this.update(occurrence.id, shared, userId);
+    }
+  }
+
+  /** Makes the task recurring, or replaces the rule of the series it belongs to. */
+  async setRecurrence(id: string, dto: TaskRecurrenceDto, userId: string) {
+    const task = await this.findById(id);
+    if (task.recurrenceId) {
+      const series = await this.recurrences.findSeries(task.recurrenceId);
+      await this.recurrences.setRule(series.id, this.recurrences.buildRule(dto, series.startsAt));
+    } else {
+      const rrule = this.recurrences.buildRule(dto, this.recurrences.anchorOf(task));
+      await this.recurrences.startSeries(task, rrule, userId);
+    }
+    const updated = await this.findById(id);
+    await this.writeTaskAudit(id, 'RECURRENCE_SET', task.recurrence, updated.recurrence, userId);
+    this.broadcastTask('task.updated', { task: updated }, updated);
+    return updated;
+  }
+
+  /** Ends the series; occurrences already created are kept. */
+  async stopRecurrence(id: string, userId: string) {
+    const task = await this.findById(id);
+    if (!task.recurrenceId) throw new BadRequestException('المهمة ليست متكررة');
+    await this.recurrences.stop(task.recurrenceId);
+    const updated = await this.findById(id);
+    await this.writeTaskAudit(id, 'RECURRENCE_STOPPED', task.recurrence, updated.recurrence, userId);
+    this.broadcastTask('task.updated', { task: updated }, updated);
+    return updated;
+  }
+
+  /** Creates the occurrence of a series claimed by the recurrence scheduler, checklist included. */
+  async createOccurrence(series: TaskRecurrence, occurrenceDate: Date) {
+    const template = series.template as unknown as RecurrenceTemplate;
+    const task = await this.create(this.recurrences.occurrenceDto(template, occurrenceDate), series.createdById, {
+      recurrenceId: series.id,
+      occurrenceDate,
+    });
+    if (template.checklist.length > 0) {
+      await this.prisma.taskChecklist.createMany({
+        data: template.checklist.map((item) => ({ ...item, taskId: task.id, createdById: series.createdById })),
+      });
+    }
+    return task;
+  }
+
+  // ─── SUBTASKS ───
+
+  private static readonly MAX_SUBTASK_DEPTH = 3;
+
+  /** The parent a new subtask goes under; subtasks nest at most MAX_SUBTASK_DEPTH levels deep. */
+  private async validateParent(parentId: string) {
+    const parent = await this.prisma.task.findUnique({ where: { id: parentId } });
+    if (!parent || parent.isDeleted) throw new BadRequestException('المهمة الأم غير موجودة');
+
+    let depth = 1;
+    for (let ancestorId = parent.parentId; ancestorId; depth++) {
+      const ancestor = await this.prisma.task.findUnique({ where: { id: ancestorId }, select: { parentId: true } });
+      ancestorId = ancestor?.parentId ?? null;
+    }
+    if (depth >= TasksService.MAX_SUBTASK_DEPTH) {
+      throw new BadRequestException(`لا يمكن تفريع المهام لأكثر من ${TasksService.MAX_SUBTASK_DEPTH} مستويات`);
+    }
+    return parent;
+  }
+
+  /** Live subtasks at any depth below a task. */
+  private async findDescendants(taskId: string) {
+    const descendants: Array<Prisma.TaskGetPayload<{ include: { assignments: { select: { userId: true } } } }>> = [];
+    let frontier = [taskId];
+    while (frontier.length > 0) {
+      const children = await this.prisma.task.findMany({
+        where: { parentId: { in: frontier }, isDeleted: false },
+        include: { assignments: { select: { userId: true } } },
+      });
+      descendants.push(...children);
+      frontier = children.map((c) => c.id);
+    }
+    return descendants;
+  }
+
+  /**
+   * Refuses to complete a task while any of its subtasks is still open,
+   * returning them so the client can show them. Admin/PM may pass `force`;
+   * the override is recorded in the task audit log. Subtasks in `completed`
+   * count as done though the database does not show it yet.
+   */
+  private async checkSubtasks(
+    task: { id: string; status: string },
+    toStatus: string,
+    force: boolean | undefined,
+    userId: string,
+    deferred?: TaskOverride[],
+    completed?: ReadonlySet<string>,
+  ) {
+    if (toStatus !== 'completed' || task.status === 'completed') return;
+
+    const openSubtasks = (
+      await this.prisma.task.findMany({
+        where: { parentId: task.id, isDeleted: false, status: { notIn: ['completed', 'cancelled'] } },
+        select: { id: true, title: true, titleAr: true, status: true },
+      })
+    ).filter((t) => !completed?.has(t.id));
+    if (openSubtasks.length === 0) return;
+
+    const actor = force
+      ? await this.prisma.user.findUnique({ where: { id: userId }, select: { role: true } })
+      : null;
+    if (!actor || !GLOBAL_TRACK_ROLES.includes(actor.role)) {
+      throw new BadRequestException({
+        message: 'لا يمكن إكمال المهمة قبل اكتمال مهامها الفرعية',
+        openSubtasks,
+      });
+    }
+    await this.recordOverride(task.id, 'SUBTASKS_OVERRIDDEN', {
+      status: toStatus,
+      openSubtaskIds: openSubtasks.map((t) => t.id),
+    }, userId, deferred);
+  }
+
+  /**
+   * Re-derives a parent's progress from its subtasks and walks on up the
+   * hierarchy. Progress is the weighted average of live, non-cancelled
+   * subtasks (Task.weight), a completed subtask counting as 100. With
+   * completeWithSubtasks the parent completes once they all are, and a
+   * completed parent goes back to in_progress when one of them reopens.
+   */
+  private async rollUpSubtasks(parentId: string, userId: string) {
+    for (let id: string | null = parentId; id; ) {
+      const parent: Prisma.TaskGetPayload<{ include: { subtasks: { select: { status: true; progress: true; weight: true } } } }> | null =
+        await this.prisma.task.findUnique({
+          where: { id },
+          include: {
+            subtasks: {
+              where: { isDeleted: false, status: { not: 'cancelled' } },
+              select: { status: true, progress: true, weight: true },
+            },
+          },
+        });
+      if (!parent || parent.isDeleted || parent.subtasks.length === 0) return;
+
+      const { subtasks } = parent;
+      const totalWeight = subtasks.reduce((sum, t) => sum + (t.weight || 1), 0);
+      const progress = Math.round(
+        subtasks.reduce((sum, t) => sum + (t.status === 'completed' ? 100 : t.progress) * (t.weight || 1), 0) / totalWeight * 10,
+      ) / 10;
+      const allCompleted = subtasks.every((t) => t.status === 'completed');
+
+      const data: any = {};
+      if (progress !== parent.progress) data.progress = progress;
+      if (parent.completeWithSubtasks && allCompleted && !['completed', 'cancelled'].includes(parent.status)) {
+        data.status = 'completed';
+        data.completionDate = new Date();
+      } else if (parent.completeWithSubtasks && !allCompleted && parent.status === 'completed') {
+        data.status = 'in_progress';
+        data.completionDate = null;
+      }
+      if (Object.keys(data).length === 0) return;
+
+      const task = await this.prisma.task.update({ where: { id }, data, include: this.detailIncludes });
+      if (data.status) {
+        await this.writeTaskAudit(
+          id,
+          data.status === 'completed' ? 'AUTO_COMPLETED' : 'AUTO_REOPENED',
+          { status: parent.status, progress: parent.progress },
+          { status: task.status, progress: task.progress },
+          userId,
+        );
+        this.eventBus.emit(DomainEvents.TASK_STATUS_CHANGED, {
+          taskId: id,
+          fromStatus: parent.status,
+          toStatus: task.status,
+          actorId: userId,
+        });
+      }
+      this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'task', entityIds: [id] });
+      await this.scopeBlocks.recalculateForBlocks([task.scopeBlockId]);
+      this.broadcastTask('task.updated', { task }, task);
+      if (data.status === 'completed') {
+        await this.shiftSuccessors(id, userId);
+      }
+
+      id = task.parentId;
+    }
+  }
+
+  /**
+   * The subtask tree below a task. Each level only lists the subtasks the
+   * user can see, with hiddenCount telling how many were left out.
+   */
+  async getSubtasks(id: string, user: TaskViewer) {
+    await this.findById(id);
+    return this.subtaskTree(id, buildTaskVisibilityFilter(user));
+  }
+
+  private async subtaskTree(parentId: string, visibility: ReturnType<typeof buildTaskVisibilityFilter>): Promise<{ subtasks: any[]; hiddenCount: number }> {
+    const [children, total] = await Promise.all([
+      this.prisma.task.findMany({
+        where: { ...visibility, parentId },
+        include: this.listIncludes,
+        orderBy: [{ dueDate: 'asc' }, { createdAt: 'asc' }],
+      }),
+      this.prisma.task.count({ where: { parentId, isDeleted: false } }),
+    ]);
+    const subtasks: any[] = [];
+    for (const child of children) {
+      subtasks.push({ ...child, ...(await this.subtaskTree(child.id, visibility)) });
+    }
+    return { subtasks, hiddenCount: total - children.length };
+  }
+
+  // ─── TEMPLATES ───
+
+  /**
+   * Creates one task per template item (or per selected item) on the target
+   * track, each with the item's default checklist, and records in every
+   * task's audit log which template it came from.
+   */
+  async applyTemplate(templateId: string, dto: ApplyTaskTemplateDto, userId: string) {
+    const template = await this.templates.findById(templateId);
+    const items = await this.templates.itemsToApply(template, dto);
+
+    const tasks: Array<Awaited<ReturnType<TasksService['create']>>> = [];
+    for (const item of items) {
+      const task = await this.create(this.templates.taskDto(item, dto), userId);
+      const checklist = this.templates.checklistOf(item);
+      if (checklist.length > 0) {
+        await this.prisma.taskChecklist.createMany({
+          data: checklist.map((entry, index) => ({ ...entry, sortOrder: index, taskId: task.id, createdById: userId })),
+        });
+      }
+      await this.writeTaskAudit(task.id, 'CREATED_FROM_TEMPLATE', null, {
+        templateId: template.id,
+        templateName: template.nameAr,
+        itemId: item.id,
+        checklistCount: checklist.length,
+      }, userId);
+      tasks.push(task);
+    }
+    return { template: { id: template.id, nameAr: template.nameAr }, created: tasks.length, tasks };
+  }
+
+  // ─── DEADLINES ───
+
+  /** The deadline rule that applies to the task and the reminders and escalations sent for it. */
+  async getDeadlineNotices(id: string) {
+    const task = await this.findById(id);
+    const trackId = task.trackId || task.assigneeTrackId;
+    const [track, notices] = await Promise.all([
+      trackId ? this.prisma.track.findUnique({ where: { id: trackId }, select: { deadlinePolicy: true } }) : null,
+      this.prisma.taskDeadlineNotice.findMany({ where: { taskId: id }, orderBy: { createdAt: 'desc' } }),
+    ]);
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: [...new Set(notices.flatMap((n) => n.recipientIds))] } },
+      select: { id: true, name: true, nameAr: true },
+    });
+    const byId = new Map(users.map((u) => [u.id, u]));
+    return {
+      rule: ruleForPriority(resolveDeadlinePolicy(track?.deadlinePolicy), task.priority),
+      isTrackPolicy: !!track?.deadlinePolicy,
+      notices: notices.map(({ recipientIds, ...notice }) => ({
+        ...notice,
+        recipients: recipientIds.map((userId) => byId.get(userId)).filter(Boolean),
+      })),
+    };
+  }
+
   // ─── CHECKLIST METHODS (Track Leader control) ───
 
   async getChecklist(taskId: string) {
@@ -843,7 +1781,10 @@ export class TasksService {
     const [data, total] = await Promise.all([
       this.prisma.taskUpdate.findMany({
         where: { taskId },
-        include: { author: { select: { id: true, name: true, nameAr: true } } },
+        include: {
+          author: { select: { id: true, name: true, nameAr: true } },
+          attachments: { select: { id: true, fileName: true, fileSize: true, mimeType: true, createdAt: true } },
+        },
         orderBy: { createdAt: 'desc' },
         skip: (page - 1) * pageSize,
         take: pageSize,
@@ -866,9 +1807,19 @@ export class TasksService {
     await this.writeTaskAudit(taskId, 'UPDATE_ADDED', null, { updateId: update.id }, userId);
 
     // Emit real-time event
-    const task = await this.prisma.task.findUnique({ where: { id: taskId }, select: { trackId: true } });
-    if (task?.trackId) {
-      this.events.emitToTrack(task.trackId, 'task.update_added', { taskId, update });
+    const task = await this.prisma.task.findUnique({
+      where: { id: taskId },
+      select: {
+        trackId: true,
+        assigneeType: true,
+        assigneeTrackId: true,
+        assigneeUserId: true,
+        createdById: true,
+        assignments: { select: { userId: true } },
+      },
+    });
+    if (task) {
+      this.broadcastTask('task.update_added', { taskId, update }, task);
     }
 
     return update;
@@ -877,10 +1828,254 @@ export class TasksService {
   async deleteTaskUpdate(taskId: string, updateId: string, userId: string) {
     const existing = await this.prisma.taskUpdate.findFirst({ where: { id: updateId, taskId } });
     if (!existing) throw new NotFoundException('التحديث غير موجود');
+    const files = await this.attachments.findOwnedFiles('task_update', [updateId]);
     await this.prisma.taskUpdate.delete({ where: { id: updateId } });
+    await this.attachments.release(...files);
     return { message: 'تم حذف التحديث' };
   }
 
+  // ─── DEPENDENCIES ───
+
+  private static readonly STARTED_STATUSES = ['in_progress', 'under_review', 'completed'];
+
+  private validateDates(startDate?: string | Date | null, dueDate?: string | Date | null) {
+    if (startDate && dueDate && new Date(startDate) > new Date(dueDate)) {
+      throw new BadRequestException('تاريخ البدء يجب أن يسبق تاريخ الاستحقاق');
+    }
+  }
+
+  /**
+   * Refuses to move a task into work while its predecessors are unfinished,
+   * returning the blockers so the client can show them. Admin/PM may pass
+   * `force` to start anyway; the override is recorded in the task audit log.
+   */
+  private async checkDependencies(
+    task: { id: string; status: string },
+    toStatus: string,
+    force: boolean | undefined,
+    userId: string,
+    deferred?: TaskOverride[],
+  ) {
+    const started = TasksService.STARTED_STATUSES;
+    if (!started.includes(toStatus) || started.includes(task.status)) return;
+
+    const blockers = await this.dependencies.getBlockers(task.id);
+    if (blockers.length === 0) return;
+
+    const actor = force
+      ? await this.prisma.user.findUnique({ where: { id: userId }, select: { role: true } })
+      : null;
+    if (!actor || !GLOBAL_TRACK_ROLES.includes(actor.role)) {
+      throw new BadRequestException({
+        message: 'لا يمكن بدء المهمة قبل اكتمال المهام السابقة',
+        blockers,
+      });
+    }
+    await this.recordOverride(task.id, 'DEPENDENCY_OVERRIDDEN', {
+      status: toStatus,
+      blockerIds: blockers.map((b) => b.id),
+    }, userId, deferred);
+  }
+
+  /** Applies slip propagation from a task and publishes every task that moved. */
+  private async shiftSuccessors(taskId: string, userId: string) {
+    const shifts = await this.dependencies.propagateSlip(taskId);
+    if (shifts.length === 0) return;
+
+    for (const shift of shifts) {
+      await this.writeTaskAudit(shift.taskId, 'DATES_SHIFTED', shift.before, { ...shift.after, causedByTaskId: taskId }, userId);
+    }
+    const ids = shifts.map((s) => s.taskId);
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType: 'task', entityIds: ids });
+
+    const shifted = await this.prisma.task.findMany({ where: { id: { in: ids } }, include: this.listIncludes });
+    shifted.forEach((task) => this.broadcastTask('task.updated', { task }, task));
+  }
+
+  async getDependencies(taskId: string, user: TaskViewer) {
+    await this.assertVisible(taskId, user);
+    return this.dependencies.list(taskId);
+  }
+
+  async addDependency(taskId: string, dto: CreateTaskDependencyDto, userId: string) {
+    await this.findById(taskId);
+    const dependency = await this.dependencies.add(taskId, dto.predecessorId, dto.type || 'FS', dto.lagDays ?? 0, userId);
+
+    await this.writeTaskAudit(taskId, 'DEPENDENCY_ADDED', null, {
+      dependencyId: dependency.id,
+      predecessorId: dependency.predecessorId,
+      type: dependency.type,
+      lagDays: dependency.lagDays,
+    }, userId);
+    // The new constraint may already push this task (and its successors) later
+    await this.shiftSuccessors(dependency.predecessorId, userId);
+
+    return dependency;
+  }
+
+  async removeDependency(taskId: string, dependencyId: string, userId: string) {
+    const dependency = await this.dependencies.remove(taskId, dependencyId);
+    await this.writeTaskAudit(dependency.successorId, 'DEPENDENCY_REMOVED', {
+      dependencyId,
+      predecessorId: dependency.predecessorId,
+      type: dependency.type,
+    }, null, userId);
+    return { message: 'تم حذف التبعية' };
+  }
+
+  getCriticalPath(trackId: string) {
+    return this.dependencies.getCriticalPath(trackId);
+  }
+
+  // ─── BOARD ───
+
+  private static readonly BOARD_CLOSED_DAYS = 30;
+
+  /**
+   * Refuses a move that would push a track's board column past its WIP limit
+   * (tracks.wipLimits). Admin/PM may pass `force`; the override is audited.
+   * `entering` counts tasks already moving into the column in the same batch.
+   */
+  private async checkWipLimit(
+    task: { id: string; status: string; trackId: string | null; assigneeTrackId: string | null },
+    toStatus: string,
+    force: boolean | undefined,
+    role: string,
+    userId: string,
+    entering = 0,
+    deferred?: TaskOverride[],
+  ) {
+    const trackId = task.trackId || task.assigneeTrackId;
+    if (!trackId || task.status === toStatus) return;
+
+    const track = await this.prisma.track.findUnique({ where: { id: trackId }, select: { wipLimits: true } });
+    const limit = (track?.wipLimits as Record<string, number> | null)?.[toStatus];
+    if (!limit) return;
+
+    const count = await this.prisma.task.count({
+      where: {
+        isDeleted: false,
+        status: toStatus as any,
+        id: { not: task.id },
+        OR: [{ trackId }, { assigneeType: 'TRACK', assigneeTrackId: trackId }],
+      },
+    });
+    if (count + entering < limit) return;
+
+    if (!force || !GLOBAL_TRACK_ROLES.includes(role)) {
+      throw new BadRequestException({
+        message: `تم بلوغ الحد الأقصى (${limit}) لمهام «${TASK_STATUS_LABELS_AR[toStatus] || toStatus}» في هذا المسار`,
+        wipLimit: { status: toStatus, limit, count: count + entering },
+      });
+    }
+    await this.recordOverride(task.id, 'WIP_LIMIT_OVERRIDDEN', { status: toStatus, limit, count: count + entering }, userId, deferred);
+  }
+
+  /**
+   * Tasks for the board view, each with the statuses the current user may move
+   * it to, plus the WIP limits of the tracks involved. Completed and cancelled
+   * tasks are limited to the last BOARD_CLOSED_DAYS so those columns stay short.
+   */
+  async getBoard(user: TaskViewer, params: { trackId?: string }) {
+    const closedSince = new Date(Date.now() - TasksService.BOARD_CLOSED_DAYS * DAY_MS);
+    const where: any = {
+      ...buildTaskVisibilityFilter(user),
+      AND: [
+        { OR: [{ status: { notIn: ['completed', 'cancelled'] } }, { updatedAt: { gte: closedSince } }] },
+        ...(params.trackId
+          ? [{ OR: [{ trackId: params.trackId }, { assigneeType: 'TRACK', assigneeTrackId: params.trackId }] }]
+          : []),
+      ],
+    };
+
+    const tasks = await this.prisma.task.findMany({
+      where,
+      include: { ...this.listIncludes, reviewers: { select: { userId: true } } },
+      orderBy: [{ priority: 'desc' }, { dueDate: 'asc' }, { createdAt: 'desc' }],
+    });
+    // Tasks in review only move by their reviewers' decision
+    const reviewLocked = new Set<string>();
+    for (const task of tasks) {
+      if (task.status === 'under_review' && !(await this.mayDecideReview(task, user))) reviewLocked.add(task.id);
+    }
+
+    const trackIds = [...new Set(tasks.map((t) => t.trackId || t.assigneeTrackId).filter(Boolean))] as string[];
+    if (params.trackId && !trackIds.includes(params.trackId)) trackIds.push(params.trackId);
+    const tracks = await this.prisma.track.findMany({
+      where: { id: { in: trackIds } },
+      select: { id: true, wipLimits: true, taskWorkflow: true },
+    });
+    const workflows = new Map(tracks.map((t) => [t.id, resolveTaskWorkflow(t.taskWorkflow)]));
+
+    return {
+      tasks: tasks.map((task) => {
+        const workflow = workflows.get(task.trackId || task.assigneeTrackId || '') || resolveTaskWorkflow(null);
+        return {
+          ...task,
+          allowedStatuses: reviewLocked.has(task.id) ? [] : TASK_STATUSES.filter((s) => !this.statusDenial(task, s, user, workflow)),
+        };
+      }),
+      wipLimits: Object.fromEntries(tracks.filter((t) => t.wipLimits).map((t) => [t.id, t.wipLimits])),
+    };
+  }
+
+  // ─── TIMELINE ───
+
+  /**
+   * Everything a Gantt view needs in one call: the visible tasks (of one track,
+   * or across tracks), the dependencies between them, their scope blocks and
+   * the Hajj seasons from the earliest task until a year after the latest.
+   */
+  async getTimeline(user: TaskViewer, params: { trackId?: string }) {
+    const where: any = { ...buildTaskVisibilityFilter(user) };
+    if (params.trackId) {
+      where.AND = [{ OR: [{ trackId: params.trackId }, { assigneeType: 'TRACK', assigneeTrackId: params.trackId }] }];
+    }
+
+    const tasks = await this.prisma.task.findMany({
+      where,
+      select: {
+        id: true,
+        title: true,
+        titleAr: true,
+        status: true,
+        priority: true,
+        progress: true,
+        trackId: true,
+        scopeBlockId: true,
+        startDate: true,
+        dueDate: true,
+        completionDate: true,
+        createdAt: true,
+        track: { select: { id: true, nameAr: true, color: true } },
+      },
+      orderBy: [{ startDate: 'asc' }, { dueDate: 'asc' }],
+    });
+
+    const taskIds = tasks.map((t) => t.id);
+    const trackIds = [...new Set(tasks.map((t) => t.trackId).filter(Boolean))] as string[];
+    if (params.trackId && !trackIds.includes(params.trackId)) trackIds.push(params.trackId);
+
+    const [dependencies, scopeBlocks] = await Promise.all([
+      this.prisma.taskDependency.findMany({
+        where: { predecessorId: { in: taskIds }, successorId: { in: taskIds } },
+        select: { id: true, predecessorId: true, successorId: true, type: true, lagDays: true },
+      }),
+      this.prisma.scopeBlock.findMany({
+        where: { trackId: { in: trackIds } },
+        select: { id: true, trackId: true, code: true, title: true, parentId: true, orderIndex: true, progress: true },
+        orderBy: [{ orderIndex: 'asc' }, { code: 'asc' }],
+      }),
+    ]);
+
+    const now = Date.now();
+    const times = tasks.flatMap((t) => [t.startDate, t.dueDate].filter(Boolean).map((d) => d!.getTime()));
+    const from = new Date(Math.min(now, ...times));
+    const to = new Date(Math.max(now, ...times) + 365 * DAY_MS);
+
+    return { tasks, dependencies, scopeBlocks, milestones: hajjSeasons(from, to) };
+  }
+
   // ─── EXECUTIVE DASHBOARD STATS ───
 
   async getExecutiveStats() {
@@ -908,6 +2103,7 @@ export class TasksService {
         where: { ...where, trackId: { not: null } },
         _count: true,
         _avg: { progress: true },
+        _sum: { estimatedMinutes: true, loggedMinutes: true },
       }),
       this.prisma.taskUpdate.findMany({
         include: {
@@ -934,6 +2130,8 @@ export class TasksService {
       track: trackMap[t.trackId!] || null,
       count: t._count,
       avgProgress: t._avg?.progress || 0,
+      estimatedMinutes: t._sum?.estimatedMinutes || 0,
+      loggedMinutes: t._sum?.loggedMinutes || 0,
     }));
 
     // Completion rate per track
@@ -944,10 +2142,14 @@ export class TasksService {
     });
     const completedMap = Object.fromEntries(completedByTrack.map((c) => [c.trackId, c._count]));
 
+    // Forecast end and slip from the dependency graph
+    const schedules = await this.dependencies.getTrackSchedules(trackIds);
+
     const trackStats = byTrackEnriched.map((t) => ({
       ...t,
       completed: completedMap[t.trackId!] || 0,
       completionRate: t.count > 0 ? Math.round(((completedMap[t.trackId!] || 0) / t.count) * 100) : 0,
+      schedule: schedules.get(t.trackId!) || null,
     }));
 
     return {
@@ -957,10 +2159,48 @@ export class TasksService {
       overdue,
       completionRate: total > 0 ? Math.round(((byStatus.find((s) => s.status === 'completed')?._count || 0) / total) * 100) : 0,
       trackStats,
+      effort: await this.getEffortStats(),
       recentUpdates,
     };
   }
 
+  /**
+   * Estimated vs. logged effort across all tasks, plus this week's logged
+   * time and the timesheets waiting for approval. Over-estimate tasks are
+   * those whose logged time exceeds a set estimate.
+   */
+  private async getEffortStats() {
+    const where = { isDeleted: false };
+    const weekStart = weekStartOf(new Date());
+    const [totals, estimatedTotals, overEstimate, thisWeek, pendingTimesheets] = await Promise.all([
+      this.prisma.task.aggregate({ where, _sum: { estimatedMinutes: true, loggedMinutes: true } }),
+      this.prisma.task.aggregate({
+        where: { ...where, estimatedMinutes: { not: null } },
+        _sum: { loggedMinutes: true },
+        _count: true,
+      }),
+      this.prisma.task.count({
+        where: { ...where, estimatedMinutes: { not: null }, loggedMinutes: { gt: this.prisma.task.fields.estimatedMinutes } },
+      }),
+      this.prisma.taskTimeEntry.aggregate({
+        where: { startedAt: { gte: weekStart }, endedAt: { not: null } },
+        _sum: { minutes: true },
+      }),
+      this.prisma.timesheet.count({ where: { status: 'submitted' } }),
+    ]);
+
+    return {
+      estimatedMinutes: totals._sum.estimatedMinutes || 0,
+      loggedMinutes: totals._sum.loggedMinutes || 0,
+      // Logged time on estimated tasks only, comparable with estimatedMinutes
+      loggedOnEstimatedMinutes: estimatedTotals._sum.loggedMinutes || 0,
+      estimatedTasks: estimatedTotals._count,
+      overEstimateTasks: overEstimate,
+      thisWeekMinutes: thisWeek._sum.minutes || 0,
+      pendingTimesheets,
+    };
+  }
+
   // ─── TASK FILES ───
 
   async getTaskFiles(taskId: string) {
@@ -972,30 +2212,29 @@ export class TasksService {
     });
   }
 
-  async uploadTaskFile(
-    taskId: string,
-    fileData: { fileName: string; fileSize: number; mimeType: string; filePath: string },
-    userId: string,
-    rawFile: Express.Multer.File,
-    notes?: string,
-  ) {
-    await this.findById(taskId);
-    this.validateFile(rawFile);
+  async uploadTaskFile(taskId: string, file: Express.Multer.File, userId: string, notes?: string) {
+    await this.findById(taskId).catch((err) => {
+      this.attachments.discard(file);
+      throw err;
+    });
 
+    const [stored] = await this.attachments.storeAll([file], 'tasks');
     const taskFile = await this.prisma.taskFile.create({
       data: {
         taskId,
-        fileName: fileData.fileName,
-        fileSize: fileData.fileSize,
-        mimeType: fileData.mimeType,
-        filePath: fileData.filePath,
+        fileName: stored.fileName,
+        fileSize: stored.fileSize,
+        mimeType: stored.mimeType,
+        filePath: stored.storagePath,
+        storageProvider: stored.storageProvider,
+        checksum: stored.checksum,
         uploadedById: userId,
         notes: notes || null,
       },
       include: { uploadedBy: { select: { id: true, name: true, nameAr: true } } },
     });
 
-    await this.writeTaskAudit(taskId, 'FILE_UPLOADED', null, { fileId: taskFile.id, fileName: fileData.fileName }, userId);
+    await this.writeTaskAudit(taskId, 'FILE_UPLOADED', null, { fileId: taskFile.id, fileName: stored.fileName }, userId);
     return taskFile;
   }
 
@@ -1011,6 +2250,7 @@ export class TasksService {
     }
 
     await this.prisma.taskFile.delete({ where: { id: fileId } });
+    await this.attachments.release({ storagePath: file.filePath, storageProvider: file.storageProvider });
     await this.writeTaskAudit(taskId, 'FILE_DELETED', { fileId, fileName: file.fileName }, null, userId);
     return { message: 'تم حذف الملف' };
   }
@@ -1018,8 +2258,10 @@ export class TasksService {
   // ─── TRACK PROGRESS ───
 
   async getTrackProgress(trackId: string) {
+    // Subtasks count through their parent's rolled-up progress
     const where = {
       isDeleted: false,
+      parentId: null,
       OR: [
         { trackId },
         { assigneeType: 'TRACK' as const, assigneeTrackId: trackId },
@@ -1050,6 +2292,7 @@ export class TasksService {
     ).length;
 
     const completedCount = byStatus['completed'] || 0;
+    const { plannedEnd, forecastEnd, slipDays, criticalPath } = await this.dependencies.getCriticalPath(trackId);
 
     return {
       totalTasks: total,
@@ -1058,9 +2301,16 @@ export class TasksService {
       overdue,
       completedCount,
       completionRate: Math.round((completedCount / total) * 100),
+      schedule: { plannedEnd, forecastEnd, slipDays, criticalTaskCount: criticalPath.length },
     };
   }
 
+  /** Writes an override to the task audit log, or collects it for a caller that writes in a transaction. */
+  private async recordOverride(taskId: string, action: string, after: Record<string, any>, userId: string, deferred?: TaskOverride[]) {
+    if (deferred) deferred.push({ action, after });
+    else await this.writeTaskAudit(taskId, action, null, after, userId);
+  }
+
   private async writeTaskAudit(taskId: string, action: string, before: any, after: any, actorUserId: string) {
     try {
       await this.prisma.taskAuditLog.create({
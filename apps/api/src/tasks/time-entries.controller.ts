@@ -0,0 +1,47 @@
+import { Controller, Get, Post, Patch, Delete, Param, Body, UseGuards } from '@nestjs/common';
+import { TimeTrackingService } from './time-tracking.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { LogTimeDto, StartTimerDto, UpdateTimeEntryDto } from './time-tracking.dto';
+
+/** Time entries on tasks: everyone logs their own time on the tasks they can see. */
+@Controller('time-entries')
+@UseGuards(JwtAuthGuard)
+export class TimeEntriesController {
+  constructor(private timeTracking: TimeTrackingService) {}
+
+  @Get('running')
+  getRunning(@CurrentUser() user: any) {
+    return this.timeTracking.getRunning(user.id);
+  }
+
+  @Get('task/:taskId')
+  getTaskEntries(@Param('taskId') taskId: string, @CurrentUser() user: any) {
+    return this.timeTracking.getTaskEntries(taskId, user);
+  }
+
+  @Post('start')
+  start(@Body() dto: StartTimerDto, @CurrentUser() user: any) {
+    return this.timeTracking.start(dto, user);
+  }
+
+  @Post('stop')
+  stop(@CurrentUser() user: any) {
+    return this.timeTracking.stop(user.id);
+  }
+
+  @Post()
+  log(@Body() dto: LogTimeDto, @CurrentUser() user: any) {
+    return this.timeTracking.log(dto, user);
+  }
+
+  @Patch(':id')
+  update(@Param('id') id: string, @Body() dto: UpdateTimeEntryDto, @CurrentUser() user: any) {
+    return this.timeTracking.update(id, dto, user.id);
+  }
+
+  @Delete(':id')
+  delete(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.timeTracking.delete(id, user.id);
+  }
+}
@@ -0,0 +1,64 @@
+import { IsString, IsOptional, IsIn, IsInt, Matches, Min, Max, MaxLength } from 'class-validator';
+
+export const MAX_ENTRY_MINUTES = 24 * 60;
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+export class StartTimerDto {
+  @IsString({ message: 'المهمة مطلوبة' })
+  taskId: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class LogTimeDto {
+  @IsString({ message: 'المهمة مطلوبة' })
+  taskId: string;
+
+  // The day worked, in Riyadh time
+  @Matches(DATE_ONLY, { message: 'التاريخ يجب أن يكون بصيغة YYYY-MM-DD' })
+  date: string;
+
+  @IsInt({ message: 'عدد الدقائق يجب أن يكون رقماً صحيحاً' })
+  @Min(1, { message: 'عدد الدقائق يجب أن يكون دقيقة واحدة على الأقل' })
+  @Max(MAX_ENTRY_MINUTES, { message: 'لا يمكن تسجيل أكثر من 24 ساعة في قيد واحد' })
+  minutes: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class UpdateTimeEntryDto {
+  @IsOptional()
+  @IsInt({ message: 'عدد الدقائق يجب أن يكون رقماً صحيحاً' })
+  @Min(1, { message: 'عدد الدقائق يجب أن يكون دقيقة واحدة على الأقل' })
+  @Max(MAX_ENTRY_MINUTES, { message: 'لا يمكن تسجيل أكثر من 24 ساعة في قيد واحد' })
+  minutes?: number;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+export class TimesheetWeekDto {
+  // Any day of the week; defaults to the current week
+  @IsOptional()
+  @Matches(DATE_ONLY, { message: 'التاريخ يجب أن يكون بصيغة YYYY-MM-DD' })
+  week?: string;
+}
+
+export class ReviewTimesheetDto {
+  @IsIn(['approve', 'reject'], { message: 'قرار المراجعة غير صالح' })
+  decision: 'approve' | 'reject';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  comment?: string;
+}
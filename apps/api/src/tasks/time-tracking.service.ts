@@ -0,0 +1,519 @@
+import { Injectable, NotFoundException, BadRequestException, ForbiddenException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import * as ExcelJS from 'exceljs';
+import { PrismaService } from '../common/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { GLOBAL_TRACK_ROLES } from '../common/guards/track-permission.guard';
+import { buildTaskVisibilityFilter, TaskViewer } from './task-visibility';
+import { DAY_MS } from './critical-path';
+import { RIYADH_OFFSET_MS } from './recurrence-rule';
+import { LogTimeDto, MAX_ENTRY_MINUTES, ReviewTimesheetDto, StartTimerDto, UpdateTimeEntryDto } from './time-tracking.dto';
+
+const WEEK_MS = 7 * DAY_MS;
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/** Timesheets in these states lock the time entries of their week. */
+const LOCKED_TIMESHEET_STATUSES = ['submitted', 'approved'];
+
+export const TIMESHEET_STATUS_LABELS: Record<string, string> = {
+  draft: 'مسودة',
+  submitted: 'بانتظار الاعتماد',
+  approved: 'معتمد',
+  rejected: 'مرفوض',
+};
+
+/** Midnight (Riyadh time) of the Sunday starting the week that contains `date`. */
+export function weekStartOf(date: Date) {
+  const local = date.getTime() + RIYADH_OFFSET_MS;
+  const localDay = Math.floor(local / DAY_MS) * DAY_MS;
+  return new Date(localDay - new Date(localDay).getUTCDay() * DAY_MS - RIYADH_OFFSET_MS);
+}
+
+/** Midnight (Riyadh time) of a YYYY-MM-DD day. */
+function dayStart(date: string) {
+  const [y, m, d] = date.split('-').map(Number);
+  return new Date(Date.UTC(y, m - 1, d) - RIYADH_OFFSET_MS);
+}
+
+/** Start of the week containing `week` (YYYY-MM-DD), or of the current week. */
+function weekOf(week?: string) {
+  if (week && !DATE_ONLY.test(week)) {
+    throw new BadRequestException('التاريخ يجب أن يكون بصيغة YYYY-MM-DD');
+  }
+  return weekStartOf(week ? dayStart(week) : new Date());
+}
+
+const entryMinutes = (startedAt: Date, endedAt: Date) =>
+  Math.min(MAX_ENTRY_MINUTES, Math.max(1, Math.round((endedAt.getTime() - startedAt.getTime()) / 60000)));
+
+type TimeUser = TaskViewer & { trackPermissions?: Array<{ trackId: string }> };
+
+/**
+ * Time tracking on tasks: timers, manual entries, and the weekly timesheets
+ * users submit for approval. Task.loggedMinutes caches the sum of a task's
+ * finished entries. Reviewers are the track leads of the tracks whose tasks
+ * the week was spent on, and admin/pm.
+ */
+@Injectable()
+export class TimeTrackingService {
+  constructor(
+    private prisma: PrismaService,
+    private notifications: NotificationsService,
+  ) {}
+
+  private readonly entryIncludes = {
+    user: { select: { id: true, name: true, nameAr: true } },
+    task: { select: { id: true, title: true, titleAr: true, trackId: true, track: { select: { id: true, nameAr: true, color: true } } } },
+  };
+
+  private readonly timesheetIncludes = {
+    user: { select: { id: true, name: true, nameAr: true, email: true } },
+    reviewedBy: { select: { id: true, name: true, nameAr: true } },
+  };
+
+  // ─── ENTRIES ───
+
+  /** A task's entries with its estimate, logged total and the minutes per user. */
+  async getTaskEntries(taskId: string, user: TimeUser) {
+    const task = await this.visibleTask(taskId, user);
+    const entries = await this.prisma.taskTimeEntry.findMany({
+      where: { taskId },
+      include: this.entryIncludes,
+      orderBy: { startedAt: 'desc' },
+    });
+
+    const byUser = new Map<string, { user: (typeof entries)[number]['user']; minutes: number }>();
+    for (const entry of entries) {
+      const row = byUser.get(entry.userId) || { user: entry.user, minutes: 0 };
+      row.minutes += entry.minutes || 0;
+      byUser.set(entry.userId, row);
+    }
+
+    return {
+      estimatedMinutes: task.estimatedMinutes,
+      loggedMinutes: task.loggedMinutes,
+      byUser: [...byUser.values()].sort((a, b) => b.minutes - a.minutes),
+      entries,
+    };
+  }
+
+  /** The user's running timer, or null. */
+  async getRunning(userId: string) {
+    return this.prisma.taskTimeEntry.findFirst({
+      where: { userId, endedAt: null },
+      include: this.entryIncludes,
+    });
+  }
+
+  /** Starts a timer on a task. A timer already running on another task is stopped first. */
+  async start(dto: StartTimerDto, user: TimeUser) {
+    await this.visibleTask(dto.taskId, user);
+    const now = new Date();
+    await this.assertWeekOpen(user.id, now);
+
+    const running = await this.getRunning(user.id);
+    if (running?.taskId === dto.taskId) {
+      throw new BadRequestException('المؤقت يعمل بالفعل على هذه المهمة');
+    }
+    const stopped = running ? await this.finish(running, now) : null;
+
+    const entry = await this.prisma.taskTimeEntry.create({
+      data: { taskId: dto.taskId, userId: user.id, startedAt: now, note: dto.note },
+      include: this.entryIncludes,
+    });
+    return { entry, stopped };
+  }
+
+  async stop(userId: string) {
+    const running = await this.getRunning(userId);
+    if (!running) throw new BadRequestException('لا يوجد مؤقت قيد التشغيل');
+    return this.finish(running, new Date());
+  }
+
+  /** Logs time worked on a past or current day without a timer. */
+  async log(dto: LogTimeDto, user: TimeUser) {
+    await this.visibleTask(dto.taskId, user);
+    const startedAt = dayStart(dto.date);
+    if (startedAt.getTime() > Date.now()) {
+      throw new BadRequestException('لا يمكن تسجيل وقت في تاريخ مستقبلي');
+    }
+    await this.assertWeekOpen(user.id, startedAt);
+
+    const entry = await this.prisma.taskTimeEntry.create({
+      data: {
+        taskId: dto.taskId,
+        userId: user.id,
+        startedAt,
+        endedAt: new Date(startedAt.getTime() + dto.minutes * 60000),
+        minutes: dto.minutes,
+        note: dto.note,
+        isManual: true,
+      },
+      include: this.entryIncludes,
+    });
+    await this.refreshLoggedMinutes(dto.taskId);
+    return entry;
+  }
+
+  async update(id: string, dto: UpdateTimeEntryDto, userId: string) {
+    const entry = await this.ownEntry(id, userId);
+    if (dto.minutes !== undefined && !entry.endedAt) {
+      throw new BadRequestException('أوقف المؤقت قبل تعديل مدته');
+    }
+    await this.assertWeekOpen(userId, entry.startedAt);
+
+    const updated = await this.prisma.taskTimeEntry.update({
+      where: { id },
+      data: {
+        note: dto.note,
+        ...(dto.minutes !== undefined
+          ? { minutes: dto.minutes, endedAt: new Date(entry.startedAt.getTime() + dto.minutes * 60000) }
+          : {}),
+      },
+      include: this.entryIncludes,
+    });
+    if (dto.minutes !== undefined) await this.refreshLoggedMinutes(entry.taskId);
+    return updated;
+  }
+
+  async delete(id: string, userId: string) {
+    const entry = await this.ownEntry(id, userId);
+    await this.assertWeekOpen(userId, entry.startedAt);
+    await this.prisma.taskTimeEntry.delete({ where: { id } });
+    await this.refreshLoggedMinutes(entry.taskId);
+    return { message: 'تم حذف قيد الوقت' };
+  }
+
+  /** Task.loggedMinutes from the task's finished entries. */
+  private async refreshLoggedMinutes(taskId: string) {
+    const { _sum } = await this.prisma.taskTimeEntry.aggregate({
+      where: { taskId, endedAt: { not: null } },
+      _sum: { minutes: true },
+    });
+    await this.prisma.task.update({ where: { id: taskId }, data: { loggedMinutes: _sum.minutes || 0 } });
+  }
+
+  /** Stops a running entry; a timer left running for over a day is capped at MAX_ENTRY_MINUTES. */
+  private async finish(entry: { id: string; taskId: string; startedAt: Date }, at: Date) {
+    const minutes = entryMinutes(entry.startedAt, at);
+    const stopped = await this.prisma.taskTimeEntry.update({
+      where: { id: entry.id },
+      data: { minutes, endedAt: new Date(entry.startedAt.getTime() + minutes * 60000) },
+      include: this.entryIncludes,
+    });
+    await this.refreshLoggedMinutes(entry.taskId);
+    return stopped;
+  }
+
+  private async visibleTask(taskId: string, user: TimeUser) {
+    const task = await this.prisma.task.findFirst({
+      where: { id: taskId, ...buildTaskVisibilityFilter(user) },
+      select: { id: true, estimatedMinutes: true, loggedMinutes: true },
+    });
+    if (!task) throw new NotFoundException('المهمة غير موجودة');
+    return task;
+  }
+
+  private async ownEntry(id: string, userId: string) {
+    const entry = await this.prisma.taskTimeEntry.findUnique({ where: { id } });
+    if (!entry) throw new NotFoundException('قيد الوقت غير موجود');
+    if (entry.userId !== userId) throw new ForbiddenException('يمكنك تعديل قيود وقتك فقط');
+    return entry;
+  }
+
+  private async assertWeekOpen(userId: string, at: Date) {
+    const timesheet = await this.prisma.timesheet.findUnique({
+      where: { userId_weekStart: { userId, weekStart: weekStartOf(at) } },
+      select: { status: true },
+    });
+    if (timesheet && LOCKED_TIMESHEET_STATUSES.includes(timesheet.status)) {
+      throw new BadRequestException('الجدول الزمني لهذا الأسبوع مُقدَّم ولا يمكن تعديل قيوده');
+    }
+  }
+
+  // ─── TIMESHEETS ───
+
+  /**
+   * A user's week: the entries, minutes per task and day (Sunday first), and
+   * the timesheet when the week was submitted.
+   */
+  async getWeek(userId: string, week?: string) {
+    const weekStart = weekOf(week);
+    const [entries, timesheet] = await Promise.all([
+      this.weekEntries({ userId }, weekStart),
+      this.prisma.timesheet.findUnique({
+        where: { userId_weekStart: { userId, weekStart } },
+        include: this.timesheetIncludes,
+      }),
+    ]);
+
+    const rows = new Map<string, { task: (typeof entries)[number]['task']; days: number[]; total: number }>();
+    const days = [0, 0, 0, 0, 0, 0, 0];
+    for (const entry of entries) {
+      if (!entry.minutes) continue;
+      const day = Math.floor((entry.startedAt.getTime() - weekStart.getTime()) / DAY_MS);
+      const row = rows.get(entry.taskId) || { task: entry.task, days: [0, 0, 0, 0, 0, 0, 0], total: 0 };
+      row.days[day] += entry.minutes;
+      row.total += entry.minutes;
+      days[day] += entry.minutes;
+      rows.set(entry.taskId, row);
+    }
+
+    return {
+      weekStart,
+      status: timesheet?.status || 'draft',
+      timesheet,
+      totalMinutes: days.reduce((sum, m) => sum + m, 0),
+      days,
+      rows: [...rows.values()],
+      entries,
+    };
+  }
+
+  /** The user's submitted timesheets, most recent week first. */
+  async getHistory(userId: string) {
+    return this.prisma.timesheet.findMany({
+      where: { userId },
+      include: this.timesheetIncludes,
+      orderBy: { weekStart: 'desc' },
+      take: 12,
+    });
+  }
+
+  /** A submitted timesheet with its week, for its owner and its reviewers. */
+  async getTimesheet(id: string, user: TimeUser) {
+    const timesheet = await this.findTimesheet(id);
+    if (timesheet.userId !== user.id) this.assertCanReview(timesheet, user);
+    return { ...(await this.getWeek(timesheet.userId, this.dateOf(timesheet.weekStart))), user: timesheet.user };
+  }
+
+  /** Submits a week for approval, which locks its entries until a reviewer rejects it. */
+  async submit(userId: string, week?: string) {
+    const weekStart = weekOf(week);
+    if (weekStart.getTime() > weekStartOf(new Date()).getTime()) {
+      throw new BadRequestException('لا يمكن تقديم جدول زمني لأسبوع لم يبدأ بعد');
+    }
+    const existing = await this.prisma.timesheet.findUnique({
+      where: { userId_weekStart: { userId, weekStart } },
+    });
+    if (existing && LOCKED_TIMESHEET_STATUSES.includes(existing.status)) {
+      throw new BadRequestException('تم تقديم الجدول الزمني لهذا الأسبوع مسبقاً');
+    }
+
+    const entries = await this.weekEntries({ userId }, weekStart);
+    if (entries.some((e) => !e.endedAt)) {
+      throw new BadRequestException('أوقف المؤقت قبل تقديم الجدول الزمني');
+    }
+    if (entries.length === 0) {
+      throw new BadRequestException('لا يوجد وقت مسجل في هذا الأسبوع');
+    }
+
+    const data = {
+      status: 'submitted',
+      totalMinutes: entries.reduce((sum, e) => sum + (e.minutes || 0), 0),
+      trackIds: [...new Set(entries.map((e) => e.task.trackId).filter(Boolean) as string[])],
+      submittedAt: new Date(),
+      reviewedById: null,
+      reviewedAt: null,
+      reviewComment: null,
+    };
+    const timesheet = await this.prisma.timesheet.upsert({
+      where: { userId_weekStart: { userId, weekStart } },
+      create: { userId, weekStart, ...data },
+      update: data,
+      include: this.timesheetIncludes,
+    });
+
+    const reviewers = await this.reviewersOf(timesheet.trackIds);
+    const name = timesheet.user.nameAr || timesheet.user.name;
+    await this.notifications.dispatch(reviewers, {
+      type: 'system',
+      title: 'Timesheet submitted',
+      titleAr: 'جدول زمني بانتظار الاعتماد',
+      body: `${timesheet.user.name} submitted the timesheet for the week of ${this.dateOf(weekStart)}`,
+      bodyAr: `قدّم ${name} الجدول الزمني لأسبوع ${this.dateOf(weekStart)}`,
+      entityType: 'timesheet',
+      entityId: timesheet.id,
+      senderId: userId,
+    });
+    return timesheet;
+  }
+
+  /** Submitted timesheets the user may review, oldest first. */
+  async getReviewQueue(user: TimeUser) {
+    const where: Prisma.TimesheetWhereInput = { status: 'submitted', userId: { not: user.id } };
+    if (!GLOBAL_TRACK_ROLES.includes(user.role)) {
+      where.trackIds = { hasSome: this.ledTrackIds(user) };
+    }
+    return this.prisma.timesheet.findMany({
+      where,
+      include: this.timesheetIncludes,
+      orderBy: { weekStart: 'asc' },
+    });
+  }
+
+  async review(id: string, dto: ReviewTimesheetDto, user: TimeUser) {
+    const before = await this.findTimesheet(id);
+    this.assertCanReview(before, user);
+    if (before.status !== 'submitted') {
+      throw new BadRequestException('تمت مراجعة هذا الجدول الزمني مسبقاً');
+    }
+    const comment = dto.comment?.trim() || null;
+    if (dto.decision === 'reject' && !comment) {
+      throw new BadRequestException('يجب ذكر سبب رفض الجدول الزمني');
+    }
+
+    const after = await this.prisma.timesheet.update({
+      where: { id },
+      data: {
+        status: dto.decision === 'approve' ? 'approved' : 'rejected',
+        reviewedById: user.id,
+        reviewedAt: new Date(),
+        reviewComment: comment,
+      },
+      include: this.timesheetIncludes,
+    });
+
+    const week = this.dateOf(after.weekStart);
+    await this.notifications.dispatch([after.userId], {
+      type: 'system',
+      title: dto.decision === 'approve' ? 'Timesheet approved' : 'Timesheet rejected',
+      titleAr: dto.decision === 'approve' ? 'تم اعتماد الجدول الزمني' : 'تم رفض الجدول الزمني',
+      body: `Week of ${week}${comment ? `: ${comment}` : ''}`,
+      bodyAr: `أسبوع ${week}${comment ? `: ${comment}` : ''}`,
+      entityType: 'timesheet',
+      entityId: id,
+      senderId: user.id,
+    });
+    return { before, after };
+  }
+
+  /**
+   * Excel timesheet of a week: one row per user and task with the minutes of
+   * each day in hours. Admin/pm export everyone, track leads the time spent on
+   * their tracks' tasks, and everyone else their own time.
+   */
+  async exportWeek(user: TimeUser, week?: string, trackId?: string): Promise<Buffer> {
+    const weekStart = weekOf(week);
+    const where: Prisma.TaskTimeEntryWhereInput = {};
+    if (trackId) where.task = { trackId };
+    if (!GLOBAL_TRACK_ROLES.includes(user.role)) {
+      const ledTrackIds = this.ledTrackIds(user);
+      where.OR = [{ userId: user.id }];
+      if (ledTrackIds.length > 0) where.OR.push({ task: { trackId: { in: ledTrackIds } } });
+    }
+    const entries = await this.weekEntries(where, weekStart);
+    const timesheets = await this.prisma.timesheet.findMany({
+      where: { weekStart, userId: { in: [...new Set(entries.map((e) => e.userId))] } },
+      select: { userId: true, status: true },
+    });
+    const statusOf = new Map(timesheets.map((t) => [t.userId, t.status]));
+
+    const rows = new Map<string, { entry: (typeof entries)[number]; days: number[]; total: number }>();
+    for (const entry of entries) {
+      if (!entry.minutes) continue;
+      const key = `${entry.userId}:${entry.taskId}`;
+      const row = rows.get(key) || { entry, days: [0, 0, 0, 0, 0, 0, 0], total: 0 };
+      row.days[Math.floor((entry.startedAt.getTime() - weekStart.getTime()) / DAY_MS)] += entry.minutes;
+      row.total += entry.minutes;
+      rows.set(key, row);
+    }
+
+    const workbook = new ExcelJS.Workbook();
+    workbook.creator = 'Nusuk Platform';
+    workbook.created = new Date();
+
+    const worksheet = workbook.addWorksheet('الجدول الزمني', {
+      views: [{ rightToLeft: true }],
+    });
+
+    const dayNames = ['الأحد', 'الاثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
+    const dayHeaders = dayNames.map((name, i) => `${name} ${this.dateOf(new Date(weekStart.getTime() + i * DAY_MS))}`);
+    worksheet.addRow(['الجدول الزمني لأسبوع', this.dateOf(weekStart)]);
+    worksheet.getRow(1).font = { bold: true, size: 14 };
+    worksheet.addRow([]);
+    worksheet.addRow(['الموظف', 'المسار', 'المهمة', ...dayHeaders, 'المجموع (ساعة)', 'حالة الجدول']);
+    const header = worksheet.getRow(3);
+    header.font = { bold: true, size: 12 };
+    header.eachCell((cell) => {
+      cell.fill = { type: 'pattern', pattern: 'solid', fgColor: { argb: 'FFE8F5E9' } };
+    });
+
+    const hours = (minutes: number) => Math.round((minutes / 60) * 100) / 100;
+    const sorted = [...rows.values()].sort((a, b) =>
+      (a.entry.user.nameAr || a.entry.user.name).localeCompare(b.entry.user.nameAr || b.entry.user.name, 'ar'));
+    for (const { entry, days, total } of sorted) {
+      worksheet.addRow([
+        entry.user.nameAr || entry.user.name,
+        entry.task.track?.nameAr || '',
+        entry.task.titleAr || entry.task.title,
+        ...days.map(hours),
+        hours(total),
+        TIMESHEET_STATUS_LABELS[statusOf.get(entry.userId) || 'draft'],
+      ]);
+    }
+
+    const totals = [0, 0, 0, 0, 0, 0, 0];
+    for (const { days } of rows.values()) days.forEach((m, i) => (totals[i] += m));
+    worksheet.addRow(['المجموع', '', '', ...totals.map(hours), hours(totals.reduce((sum, m) => sum + m, 0)), '']);
+    worksheet.getRow(worksheet.rowCount).font = { bold: true };
+
+    worksheet.columns.forEach((column, i) => {
+      column.width = i < 3 ? 30 : 16;
+    });
+
+    const buffer = await workbook.xlsx.writeBuffer();
+    return Buffer.from(buffer);
+  }
+
+  private weekEntries(where: Prisma.TaskTimeEntryWhereInput, weekStart: Date) {
+    return this.prisma.taskTimeEntry.findMany({
+      where: { ...where, startedAt: { gte: weekStart, lt: new Date(weekStart.getTime() + WEEK_MS) } },
+      include: this.entryIncludes,
+      orderBy: { startedAt: 'asc' },
+    });
+  }
+
+  private async findTimesheet(id: string) {
+    const timesheet = await this.prisma.timesheet.findUnique({ where: { id }, include: this.timesheetIncludes });
+    if (!timesheet) throw new NotFoundException('الجدول الزمني غير موجود');
+    return timesheet;
+  }
+
+  private assertCanReview(timesheet: { userId: string; trackIds: string[] }, user: TimeUser) {
+    if (timesheet.userId === user.id) {
+      throw new ForbiddenException('لا يمكنك اعتماد جدولك الزمني');
+    }
+    if (GLOBAL_TRACK_ROLES.includes(user.role)) return;
+    const ledTrackIds = this.ledTrackIds(user);
+    if (!timesheet.trackIds.some((id) => ledTrackIds.includes(id))) {
+      throw new ForbiddenException('يعتمد الجدول الزمني قائد أحد مسارات مهامه');
+    }
+  }
+
+  /** Tracks the user leads; only track leads review timesheets of their tracks. */
+  private ledTrackIds(user: TimeUser) {
+    return user.role === 'track_lead' ? (user.trackPermissions || []).map((tp) => tp.trackId) : [];
+  }
+
+  /** Leads of the week's tracks; admin/pm when it was spent on no track or the tracks have no lead. */
+  private async reviewersOf(trackIds: string[]) {
+    const leads = trackIds.length > 0
+      ? await this.prisma.trackPermission.findMany({
+          where: { trackId: { in: trackIds }, user: { role: 'track_lead', isActive: true } },
+          select: { userId: true },
+        })
+      : [];
+    if (leads.length > 0) return leads.map((l) => l.userId);
+    const management = await this.prisma.user.findMany({
+      where: { role: { in: ['pm', 'admin'] }, isActive: true },
+      select: { id: true },
+    });
+    return management.map((u) => u.id);
+  }
+
+  /** YYYY-MM-DD of an instant in Riyadh time. */
+  private dateOf(date: Date) {
+    return new Date(date.getTime() + RIYADH_OFFSET_MS).toISOString().slice(0, 10);
+  }
+}
@@ -0,0 +1,53 @@
+import { DAY_MS } from './critical-path';
+
+// Hajj runs from 8 to 13 Dhu al-Hijjah (month 12)
+const DHU_AL_HIJJAH = 12;
+const HAJJ_FIRST_DAY = 8;
+const HAJJ_LAST_DAY = 13;
+
+export interface TimelineMilestone {
+  key: string;
+  labelAr: string;
+  startDate: Date;
+  endDate: Date;
+}
+
+const hijriFormat = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura', {
+  day: 'numeric',
+  month: 'numeric',
+  year: 'numeric',
+  timeZone: 'Asia/Riyadh',
+});
+
+function toHijri(date: Date) {
+  const parts = hijriFormat.formatToParts(date);
+  const value = (type: string) => parseInt(parts.find((p) => p.type === type)?.value || '0', 10);
+  return { year: value('year'), month: value('month'), day: value('day') };
+}
+
+/**
+ * Hajj seasons overlapping [from, to], dated with the Umm al-Qura calendar
+ * used in Saudi Arabia.
+ */
+export function hajjSeasons(from: Date, to: Date): TimelineMilestone[] {
+  const seasons = new Map<number, TimelineMilestone>();
+  // Start a few days early so a season already under way at `from` is found
+  for (let t = from.getTime() - HAJJ_LAST_DAY * DAY_MS; t <= to.getTime(); t += DAY_MS) {
+    const day = new Date(t);
+    const hijri = toHijri(day);
+    if (hijri.month !== DHU_AL_HIJJAH || hijri.day < HAJJ_FIRST_DAY || hijri.day > HAJJ_LAST_DAY) continue;
+
+    const season = seasons.get(hijri.year);
+    if (season) {
+      season.endDate = day;
+    } else {
+      seasons.set(hijri.year, {
+        key: `hajj-${hijri.year}`,
+        labelAr: `موسم حج ${hijri.year}هـ`,
+        startDate: day,
+        endDate: day,
+      });
+    }
+  }
+  return [...seasons.values()].filter((s) => s.endDate >= from);
+}
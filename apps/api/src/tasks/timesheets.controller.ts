@@ -0,0 +1,92 @@
+import { Controller, Get, Post, Param, Body, Query, UseGuards, Req, Res } from '@nestjs/common';
+import { Request, Response } from 'express';
+import { TimeTrackingService } from './time-tracking.service';
+import { AuditService } from '../audit/audit.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { ReviewTimesheetDto, TimesheetWeekDto } from './time-tracking.dto';
+
+/**
+ * Weekly timesheets. Users submit their own weeks; track leads of the
+ * week's tracks (and admin/pm) approve or reject them.
+ */
+@Controller('timesheets')
+@UseGuards(JwtAuthGuard)
+export class TimesheetsController {
+  constructor(
+    private timeTracking: TimeTrackingService,
+    private audit: AuditService,
+  ) {}
+
+  @Get('me')
+  getMyWeek(@Query('week') week: string | undefined, @CurrentUser() user: any) {
+    return this.timeTracking.getWeek(user.id, week);
+  }
+
+  @Get('me/history')
+  getMyHistory(@CurrentUser() user: any) {
+    return this.timeTracking.getHistory(user.id);
+  }
+
+  @Get('review-queue')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  getReviewQueue(@CurrentUser() user: any) {
+    return this.timeTracking.getReviewQueue(user);
+  }
+
+  /** Excel timesheet of a week (YYYY-MM-DD, any day of it), optionally for one track. */
+  @Get('export')
+  async export(
+    @Query('week') week: string | undefined,
+    @Query('trackId') trackId: string | undefined,
+    @CurrentUser() user: any,
+    @Res() res: Response,
+  ) {
+    const buffer = await this.timeTracking.exportWeek(user, week, trackId);
+    res.set({
+      'Content-Type': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      'Content-Disposition': `attachment; filename=timesheet-${week || 'current'}.xlsx`,
+      'Content-Length': buffer.length,
+    });
+    res.end(buffer);
+  }
+
+  @Post('submit')
+  async submit(@Body() dto: TimesheetWeekDto, @CurrentUser() user: any, @Req() req: Request) {
+    const timesheet = await this.timeTracking.submit(user.id, dto.week);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'submit',
+      entityType: 'timesheet',
+      entityId: timesheet.id,
+      afterData: timesheet as any,
+      ip: req.ip,
+    });
+    return timesheet;
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string, @CurrentUser() user: any) {
+    return this.timeTracking.getTimesheet(id, user);
+  }
+
+  @Post(':id/review')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  async review(@Param('id') id: string, @Body() dto: ReviewTimesheetDto, @CurrentUser() user: any, @Req() req: Request) {
+    const { before, after } = await this.timeTracking.review(id, dto, user);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: dto.decision,
+      entityType: 'timesheet',
+      entityId: id,
+      beforeData: before as any,
+      afterData: after as any,
+      ip: req.ip,
+    });
+    return after;
+  }
+}
@@ -0,0 +1,58 @@
+import { Controller, Get, Post, Patch, Param, Body, Query, UseGuards, Req } from '@nestjs/common';
+import { Request } from 'express';
+import { WorkloadService } from './workload.service';
+import { AuditService } from '../audit/audit.service';
+import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
+import { RolesGuard } from '../common/guards/roles.guard';
+import { Roles } from '../common/decorators/roles.decorator';
+import { CurrentUser } from '../common/decorators/current-user.decorator';
+import { UpdateCapacityDto, WorkloadCheckDto } from './workload.dto';
+
+/** Workload and capacity planning for the people tasks are assigned to. */
+@Controller('workload')
+@UseGuards(JwtAuthGuard, RolesGuard)
+@Roles('admin', 'pm', 'track_lead')
+export class WorkloadController {
+  constructor(
+    private workload: WorkloadService,
+    private audit: AuditService,
+  ) {}
+
+  /** Per-user, per-week load from the week containing `from` (default: this week). */
+  @Get()
+  getWorkload(
+    @CurrentUser() user: any,
+    @Query('from') from?: string,
+    @Query('weeks') weeks?: string,
+    @Query('trackId') trackId?: string,
+  ) {
+    return this.workload.getWorkload(user, { from, weeks: weeks ? +weeks : undefined, trackId });
+  }
+
+  /** Over-allocation of the given assignees if a task with these dates and estimate were theirs. */
+  @Post('check')
+  check(@Body() dto: WorkloadCheckDto) {
+    return this.workload.check(dto);
+  }
+
+  @Patch('users/:userId/capacity')
+  @Roles('admin', 'pm')
+  async updateCapacity(
+    @Param('userId') userId: string,
+    @Body() dto: UpdateCapacityDto,
+    @CurrentUser() user: any,
+    @Req() req: Request,
+  ) {
+    const { before, after } = await this.workload.updateCapacity(userId, dto.weeklyCapacityMinutes);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'update',
+      entityType: 'user',
+      entityId: userId,
+      beforeData: { weeklyCapacityMinutes: before.weeklyCapacityMinutes },
+      afterData: { weeklyCapacityMinutes: after.weeklyCapacityMinutes },
+      ip: req.ip,
+    });
+    return after;
+  }
+}
@@ -0,0 +1,42 @@
+import { IsString, IsOptional, IsInt, IsNumber, IsArray, IsDateString, ArrayMinSize, Min, Max } from 'class-validator';
+import { MAX_ESTIMATED_MINUTES } from './tasks.dto';
+
+export class WorkloadCheckDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @IsString({ each: true })
+  userIds: string[];
+
+  // The task being edited, whose current load is left out
+  @IsOptional()
+  @IsString()
+  taskId?: string;
+
+  @IsOptional()
+  @IsDateString()
+  startDate?: string;
+
+  @IsOptional()
+  @IsDateString()
+  dueDate?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(MAX_ESTIMATED_MINUTES)
+  estimatedMinutes?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0.1)
+  @Max(10)
+  weight?: number;
+}
+
+export class UpdateCapacityDto {
+  // 0 marks someone unavailable (e.g. on leave); at most a full week
+  @IsInt({ message: 'السعة يجب أن تكون رقماً صحيحاً بالدقائق' })
+  @Min(0)
+  @Max(7 * 24 * 60)
+  weeklyCapacityMinutes: number;
+}
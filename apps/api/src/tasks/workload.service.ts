@@ -0,0 +1,351 @@
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../common/prisma.service';
+import { GLOBAL_TRACK_ROLES, TrackScopedUser } from '../common/guards/track-permission.guard';
+import { DAY_MS } from './critical-path';
+import { weekStartOf } from './time-tracking.service';
+import { WorkloadCheckDto } from './workload.dto';
+
+const WEEK_MS = 7 * DAY_MS;
+export const DEFAULT_WORKLOAD_WEEKS = 8;
+export const MAX_WORKLOAD_WEEKS = 26;
+const MAX_SUGGESTIONS = 20;
+
+/** Load assumed for a task without an estimate, per unit of Task.weight. */
+export const ASSUMED_MINUTES_PER_WEIGHT = 8 * 60;
+
+const loadTaskSelect = {
+  id: true,
+  title: true,
+  titleAr: true,
+  status: true,
+  trackId: true,
+  startDate: true,
+  dueDate: true,
+  weight: true,
+  estimatedMinutes: true,
+  loggedMinutes: true,
+  assigneeType: true,
+  assigneeUserId: true,
+  assignments: { select: { userId: true } },
+} satisfies Prisma.TaskSelect;
+
+type LoadTask = Prisma.TaskGetPayload<{ select: typeof loadTaskSelect }>;
+
+interface WeekCell {
+  minutes: number;
+  weight: number;
+  taskCount: number;
+}
+
+interface UserLoad {
+  weeks: WeekCell[];
+  unscheduled: WeekCell;
+  // Per task: its share of the user's load in each week
+  tasks: Map<string, { task: LoadTask; minutes: number; byWeek: number[]; estimated: boolean }>;
+}
+
+const userSelect = { id: true, name: true, nameAr: true, role: true, weeklyCapacityMinutes: true };
+
+/** Users assigned a task, directly or through TaskAssignment. */
+function assigneesOf(task: Pick<LoadTask, 'assigneeType' | 'assigneeUserId' | 'assignments'>) {
+  const ids = task.assignments.map((a) => a.userId);
+  if (task.assigneeType === 'USER' && task.assigneeUserId) ids.push(task.assigneeUserId);
+  return [...new Set(ids)];
+}
+
+/**
+ * Work left on a task in minutes: the estimate minus the time logged, or
+ * ASSUMED_MINUTES_PER_WEIGHT per unit of weight when it has no estimate.
+ */
+function remainingMinutes(task: Pick<LoadTask, 'estimatedMinutes' | 'loggedMinutes' | 'weight'>) {
+  if (task.estimatedMinutes !== null) return Math.max(0, task.estimatedMinutes - task.loggedMinutes);
+  return (task.weight || 1) * ASSUMED_MINUTES_PER_WEIGHT;
+}
+
+/**
+ * Fraction of a task's remaining work falling in each week: spread evenly
+ * from its start (or now, if later) to its due date. Overdue work lands in
+ * the current week; null when the task has no due date to plan against.
+ */
+function spreadOverWeeks(task: Pick<LoadTask, 'startDate' | 'dueDate'>, weeks: Date[], now: Date) {
+  if (!task.dueDate) return null;
+  const shares = weeks.map(() => 0);
+  const start = Math.max(task.startDate?.getTime() ?? now.getTime(), now.getTime());
+  const end = task.dueDate.getTime();
+
+  if (end <= start) {
+    const current = weeks.findIndex((w) => w.getTime() === weekStartOf(now).getTime());
+    if (current >= 0) shares[current] = 1;
+    return shares;
+  }
+  weeks.forEach((week, i) => {
+    const overlap = Math.min(end, week.getTime() + WEEK_MS) - Math.max(start, week.getTime());
+    if (overlap > 0) shares[i] = overlap / (end - start);
+  });
+  return shares;
+}
+
+/**
+ * Workload planning: the open work assigned to each user per week against
+ * their weekly capacity, the over-allocation check behind the assign dialog,
+ * and suggestions for moving not-yet-started tasks off overloaded people.
+ * Parent tasks are left out; their work is counted through their subtasks.
+ */
+@Injectable()
+export class WorkloadService {
+  constructor(private prisma: PrismaService) {}
+
+  /** Heatmap of `weeks` weeks from the week containing `from`, with rebalancing suggestions. */
+  async getWorkload(
+    user: TrackScopedUser & { id: string },
+    query: { from?: string; weeks?: number; trackId?: string },
+  ) {
+    const weekCount = Math.min(Math.max(query.weeks || DEFAULT_WORKLOAD_WEEKS, 1), MAX_WORKLOAD_WEEKS);
+    const from = query.from ? new Date(query.from) : new Date();
+    if (isNaN(from.getTime())) throw new BadRequestException('تاريخ البداية غير صالح');
+    const weeks = this.weeksFrom(weekStartOf(from), weekCount);
+
+    const users = await this.prisma.user.findMany({
+      where: { isActive: true, role: { not: 'admin' }, ...this.userScope(user, query.trackId) },
+      select: userSelect,
+      orderBy: { nameAr: 'asc' },
+    });
+    const loads = await this.computeLoads(users.map((u) => u.id), weeks);
+
+    const rows = users.map((u) => {
+      const load = loads.get(u.id)!;
+      return {
+        user: u,
+        capacityMinutes: u.weeklyCapacityMinutes,
+        weeks: load.weeks.map((cell) => ({
+          ...cell,
+          minutes: Math.round(cell.minutes),
+          weight: Math.round(cell.weight * 10) / 10,
+          utilization: u.weeklyCapacityMinutes > 0 ? Math.round((cell.minutes / u.weeklyCapacityMinutes) * 100) : null,
+          overAllocated: cell.minutes > u.weeklyCapacityMinutes,
+        })),
+        unscheduled: { ...load.unscheduled, minutes: Math.round(load.unscheduled.minutes) },
+        tasks: [...load.tasks.values()].map((t) => ({
+          id: t.task.id,
+          title: t.task.title,
+          titleAr: t.task.titleAr,
+          status: t.task.status,
+          dueDate: t.task.dueDate,
+          minutes: Math.round(t.minutes),
+          estimated: t.estimated,
+        })),
+      };
+    });
+
+    return {
+      weeks,
+      assumedMinutesPerWeight: ASSUMED_MINUTES_PER_WEIGHT,
+      users: rows,
+      suggestions: await this.suggestRebalancing(users, loads, weeks),
+    };
+  }
+
+  /**
+   * The load of `userIds` in the weeks a task spans, with the task's share
+   * added: what the assign dialog warns about before saving.
+   */
+  async check(dto: WorkloadCheckDto) {
+    const now = new Date();
+    const existing = dto.taskId
+      ? await this.prisma.task.findUnique({ where: { id: dto.taskId }, select: loadTaskSelect })
+      : null;
+    if (dto.taskId && !existing) throw new NotFoundException('المهمة غير موجودة');
+
+    const task = {
+      startDate: dto.startDate ? new Date(dto.startDate) : existing?.startDate ?? null,
+      dueDate: dto.dueDate ? new Date(dto.dueDate) : existing?.dueDate ?? null,
+      estimatedMinutes: dto.estimatedMinutes ?? existing?.estimatedMinutes ?? null,
+      loggedMinutes: existing?.loggedMinutes ?? 0,
+      weight: dto.weight ?? existing?.weight ?? 1,
+    };
+    const first = weekStartOf(now);
+    const last = task.dueDate && task.dueDate > now ? weekStartOf(task.dueDate) : first;
+    const weekCount = Math.min(Math.round((last.getTime() - first.getTime()) / WEEK_MS) + 1, MAX_WORKLOAD_WEEKS);
+    const weeks = this.weeksFrom(first, weekCount);
+
+    const users = await this.prisma.user.findMany({ where: { id: { in: dto.userIds } }, select: userSelect });
+    const loads = await this.computeLoads(users.map((u) => u.id), weeks, dto.taskId);
+    const shares = spreadOverWeeks(task, weeks, now);
+    const added = remainingMinutes(task) / users.length;
+
+    return {
+      weeks,
+      unscheduled: !shares,
+      users: users.map((u) => {
+        const cells = loads.get(u.id)!.weeks.map((cell, i) => {
+          const addedMinutes = Math.round((shares?.[i] || 0) * added);
+          return {
+            weekStart: weeks[i],
+            minutes: Math.round(cell.minutes),
+            addedMinutes,
+            overAllocated: cell.minutes + addedMinutes > u.weeklyCapacityMinutes,
+          };
+        });
+        return {
+          user: u,
+          capacityMinutes: u.weeklyCapacityMinutes,
+          weeks: cells,
+          overAllocated: cells.some((c) => c.overAllocated),
+        };
+      }),
+    };
+  }
+
+  async updateCapacity(userId: string, weeklyCapacityMinutes: number) {
+    const user = await this.prisma.user.findUnique({ where: { id: userId }, select: userSelect });
+    if (!user) throw new NotFoundException('المستخدم غير موجود');
+    const updated = await this.prisma.user.update({
+      where: { id: userId },
+      data: { weeklyCapacityMinutes },
+      select: userSelect,
+    });
+    return { before: user, after: updated };
+  }
+
+  /** Every open, leaf task assigned to `userIds`, spread over `weeks` per assignee. */
+  private async computeLoads(userIds: string[], weeks: Date[], excludeTaskId?: string) {
+    const now = new Date();
+    const loads = new Map<string, UserLoad>(
+      userIds.map((id) => [id, {
+        weeks: weeks.map(() => ({ minutes: 0, weight: 0, taskCount: 0 })),
+        unscheduled: { minutes: 0, weight: 0, taskCount: 0 },
+        tasks: new Map(),
+      }]),
+    );
+    if (userIds.length === 0) return loads;
+
+    const tasks = await this.prisma.task.findMany({
+      where: {
+        isDeleted: false,
+        status: { notIn: ['completed', 'cancelled'] },
+        subtasks: { none: { isDeleted: false } },
+        ...(excludeTaskId ? { id: { not: excludeTaskId } } : {}),
+        OR: [
+          { assigneeType: 'USER', assigneeUserId: { in: userIds } },
+          { assignments: { some: { userId: { in: userIds } } } },
+        ],
+      },
+      select: loadTaskSelect,
+    });
+
+    for (const task of tasks) {
+      const assignees = assigneesOf(task);
+      const minutes = remainingMinutes(task) / assignees.length;
+      const weight = (task.weight || 1) / assignees.length;
+      const shares = spreadOverWeeks(task, weeks, now);
+
+      for (const userId of assignees) {
+        const load = loads.get(userId);
+        if (!load) continue;
+        const entry = { task, minutes, byWeek: weeks.map(() => 0), estimated: task.estimatedMinutes !== null };
+        if (!shares) {
+          load.unscheduled.minutes += minutes;
+          load.unscheduled.weight += weight;
+          load.unscheduled.taskCount++;
+        } else {
+          shares.forEach((share, i) => {
+            if (share <= 0) return;
+            entry.byWeek[i] = share * minutes;
+            load.weeks[i].minutes += share * minutes;
+            load.weeks[i].weight += share * weight;
+            load.weeks[i].taskCount++;
+          });
+        }
+        load.tasks.set(task.id, entry);
+      }
+    }
+    return loads;
+  }
+
+  /**
+   * Greedy rebalancing: for each over-allocated user, the pending tasks they
+   * alone hold (largest share of the overload first) are offered to a member
+   * of the task's track who stays within capacity in every week the task
+   * spans. Suggestions are applied to the in-memory loads as they are made.
+   */
+  private async suggestRebalancing(
+    users: Array<{ id: string; name: string; nameAr: string; weeklyCapacityMinutes: number }>,
+    loads: Map<string, UserLoad>,
+    weeks: Date[],
+  ) {
+    const capacity = new Map(users.map((u) => [u.id, u.weeklyCapacityMinutes]));
+    const byId = new Map(users.map((u) => [u.id, u]));
+    const over = (userId: string) =>
+      loads.get(userId)!.weeks.reduce((sum, cell) => sum + Math.max(0, cell.minutes - capacity.get(userId)!), 0);
+
+    const candidates = users
+      .filter((u) => over(u.id) > 0)
+      .flatMap((u) =>
+        [...loads.get(u.id)!.tasks.values()]
+          .filter((t) => t.task.status === 'pending' && t.task.trackId && assigneesOf(t.task).length === 1)
+          .map((t) => ({ from: u, ...t })),
+      )
+      .sort((a, b) => b.minutes - a.minutes);
+    if (candidates.length === 0) return [];
+
+    const trackIds = [...new Set(candidates.map((c) => c.task.trackId!))];
+    const members = await this.prisma.trackPermission.findMany({
+      where: { trackId: { in: trackIds }, userId: { in: users.map((u) => u.id) } },
+      select: { trackId: true, userId: true },
+    });
+
+    const suggestions: any[] = [];
+    for (const candidate of candidates) {
+      if (suggestions.length >= MAX_SUGGESTIONS) break;
+      const fromLoad = loads.get(candidate.from.id)!;
+      // Only worth moving if it lands in a week the user is over capacity
+      const relieves = candidate.byWeek.some((m, i) => m > 0 && fromLoad.weeks[i].minutes > capacity.get(candidate.from.id)!);
+      if (!relieves) continue;
+
+      const target = members
+        .filter((m) => m.trackId === candidate.task.trackId && m.userId !== candidate.from.id)
+        .map((m) => m.userId)
+        .filter((userId) => candidate.byWeek.every((m, i) => loads.get(userId)!.weeks[i].minutes + m <= capacity.get(userId)!))
+        .sort((a, b) => this.totalMinutes(loads.get(a)!) / (capacity.get(a)! || 1) - this.totalMinutes(loads.get(b)!) / (capacity.get(b)! || 1))[0];
+      if (!target) continue;
+
+      candidate.byWeek.forEach((m, i) => {
+        fromLoad.weeks[i].minutes -= m;
+        loads.get(target)!.weeks[i].minutes += m;
+      });
+      fromLoad.tasks.delete(candidate.task.id);
+
+      const toUser = byId.get(target)!;
+      suggestions.push({
+        task: { id: candidate.task.id, title: candidate.task.title, titleAr: candidate.task.titleAr, dueDate: candidate.task.dueDate },
+        from: { id: candidate.from.id, name: candidate.from.name, nameAr: candidate.from.nameAr },
+        to: { id: toUser.id, name: toUser.name, nameAr: toUser.nameAr },
+        minutes: Math.round(candidate.minutes),
+        // PATCH /tasks/:id payload that moves the task
+        update: candidate.task.assigneeType === 'USER' && candidate.task.assigneeUserId === candidate.from.id
+          ? { assigneeType: 'USER', assigneeUserId: target }
+          : { assigneeIds: [target] },
+      });
+    }
+    return suggestions;
+  }
+
+  private totalMinutes(load: UserLoad) {
+    return load.weeks.reduce((sum, cell) => sum + cell.minutes, 0);
+  }
+
+  /** Track leads plan the people of their own tracks; admin/pm everyone, or one track's people. */
+  private userScope(user: TrackScopedUser, trackId?: string): Prisma.UserWhereInput {
+    if (GLOBAL_TRACK_ROLES.includes(user.role)) {
+      return trackId ? { trackPermissions: { some: { trackId } } } : {};
+    }
+    const ownTrackIds = (user.trackPermissions || []).map((tp) => tp.trackId);
+    const trackIds = trackId ? ownTrackIds.filter((id) => id === trackId) : ownTrackIds;
+    return { trackPermissions: { some: { trackId: { in: trackIds } } } };
+  }
+
+  private weeksFrom(first: Date, count: number) {
+    return Array.from({ length: count }, (_, i) => new Date(first.getTime() + i * WEEK_MS));
+  }
+}
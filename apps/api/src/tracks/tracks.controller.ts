@@ -1,15 +1,19 @@
-import { Controller, Get, Post, Patch, Delete, Param, Body, Query, UseGuards, Req } from '@nestjs/common';
+import { Controller, Get, Post, Put, Patch, Delete, Param, Body, Query, UseGuards, Req } from '@nestjs/common';
 import { Request } from 'express';
 import { TracksService } from './tracks.service';
 import { PrismaService } from '../common/prisma.service';
 import { JwtAuthGuard } from '../common/guards/jwt-auth.guard';
 import { RolesGuard } from '../common/guards/roles.guard';
+import { TrackPermissionGuard, permittedTrackIds } from '../common/guards/track-permission.guard';
 import { Roles } from '../common/decorators/roles.decorator';
+import { RequireTrackPermission } from '../common/decorators/track-permission.decorator';
 import { CurrentUser } from '../common/decorators/current-user.decorator';
 import { AuditService } from '../audit/audit.service';
 import {
   CreateTrackDto,
   UpdateTrackDto,
+  UpdateTaskWorkflowDto,
+  UpdateDeadlinePolicyDto,
   CreateEmployeeDto,
   UpdateEmployeeDto,
   CreateDeliverableDto,
@@ -37,22 +41,30 @@ export class TracksController {
   }
 
   @Get('employees')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { from: 'query' })
   getEmployees(
+    @CurrentUser() user: any,
     @Query('trackId') trackId?: string,
     @Query('search') search?: string,
     @Query('status') status?: string,
   ) {
-    return this.tracks.getEmployees({ trackId, search, status });
+    // HR manage employees across every track
+    const trackIds = user.role === 'hr' ? null : permittedTrackIds(user, trackId);
+    return this.tracks.getEmployees({ trackId, trackIds, search, status });
   }
 
   @Get('penalties')
-  getPenalties(@Query('trackId') trackId?: string, @Query('resolved') resolved?: string) {
-    return this.tracks.getPenalties({ trackId, resolved });
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { from: 'query' })
+  getPenalties(@CurrentUser() user: any, @Query('trackId') trackId?: string, @Query('resolved') resolved?: string) {
+    return this.tracks.getPenalties({ trackId, trackIds: permittedTrackIds(user, trackId), resolved });
   }
 
   @Patch('penalties/:id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('edit', { entity: 'penalty' })
   updatePenalty(@Param('id') id: string, @Body() body: any) {
     return this.tracks.updatePenalty(id, body);
   }
@@ -146,8 +158,9 @@ export class TracksController {
   // ─── DELIVERABLE CRUD ───
 
   @Post('deliverables')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('create')
   async createDeliverable(@Body() dto: CreateDeliverableDto, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.tracks.createDeliverable(dto);
     await this.audit.log({
@@ -163,8 +176,9 @@ export class TracksController {
   }
 
   @Patch('deliverables/:id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('edit', { entity: 'deliverable' })
   async updateDeliverable(@Param('id') id: string, @Body() dto: UpdateDeliverableDto, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.prisma.deliverable.findUnique({ where: { id } });
     const result = await this.tracks.updateDeliverable(id, dto);
@@ -182,8 +196,9 @@ export class TracksController {
   }
 
   @Delete('deliverables/:id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('delete', { entity: 'deliverable' })
   async deleteDeliverable(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.prisma.deliverable.findUnique({ where: { id } });
     const result = await this.tracks.deleteDeliverable(id);
@@ -200,8 +215,9 @@ export class TracksController {
   }
 
   @Patch('deliverables/:id/restore')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('delete', { entity: 'deliverable' })
   async restoreDeliverable(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.tracks.restoreDeliverable(id);
     await this.audit.log({ actorId: user.id, actionType: 'restore', entityType: 'deliverable', entityId: id, ip: req.ip });
@@ -211,8 +227,9 @@ export class TracksController {
   // ─── SCOPE CRUD ───
 
   @Post('scopes')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('create')
   async createScope(@Body() dto: CreateScopeDto, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.tracks.createScope(dto);
     await this.audit.log({
@@ -228,8 +245,9 @@ export class TracksController {
   }
 
   @Patch('scopes/:id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('edit', { entity: 'scope' })
   async updateScope(@Param('id') id: string, @Body() dto: UpdateScopeDto, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.prisma.scope.findUnique({ where: { id } });
     const result = await this.tracks.updateScope(id, dto);
@@ -247,8 +265,9 @@ export class TracksController {
   }
 
   @Delete('scopes/:id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('delete', { entity: 'scope' })
   async deleteScope(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.prisma.scope.findUnique({ where: { id } });
     const result = await this.tracks.deleteScope(id);
@@ -265,8 +284,9 @@ export class TracksController {
   }
 
   @Patch('scopes/:id/restore')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('delete', { entity: 'scope' })
   async restoreScope(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.tracks.restoreScope(id);
     await this.audit.log({ actorId: user.id, actionType: 'restore', entityType: 'scope', entityId: id, ip: req.ip });
@@ -276,8 +296,9 @@ export class TracksController {
   // ─── TRACK KPI CRUD ───
 
   @Post('track-kpis')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('create')
   async createTrackKPI(@Body() dto: CreateTrackKPIDto, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.tracks.createTrackKPI(dto);
     await this.audit.log({
@@ -293,8 +314,9 @@ export class TracksController {
   }
 
   @Patch('track-kpis/:id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('edit', { entity: 'trackKpi' })
   async updateTrackKPI(@Param('id') id: string, @Body() dto: UpdateTrackKPIDto, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.prisma.trackKPI.findUnique({ where: { id } });
     const result = await this.tracks.updateTrackKPI(id, dto);
@@ -312,8 +334,9 @@ export class TracksController {
   }
 
   @Delete('track-kpis/:id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('delete', { entity: 'trackKpi' })
   async deleteTrackKPI(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.prisma.trackKPI.findUnique({ where: { id } });
     const result = await this.tracks.deleteTrackKPI(id);
@@ -330,8 +353,9 @@ export class TracksController {
   }
 
   @Patch('track-kpis/:id/restore')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('delete', { entity: 'trackKpi' })
   async restoreTrackKPI(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.tracks.restoreTrackKPI(id);
     await this.audit.log({ actorId: user.id, actionType: 'restore', entityType: 'track_kpi', entityId: id, ip: req.ip });
@@ -341,8 +365,9 @@ export class TracksController {
   // ─── PENALTY CREATE & DELETE ───
 
   @Post('penalties')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('create')
   async createPenalty(@Body() dto: CreatePenaltyDto, @CurrentUser() user: any, @Req() req: Request) {
     const result = await this.tracks.createPenalty(dto);
     await this.audit.log({
@@ -358,8 +383,9 @@ export class TracksController {
   }
 
   @Delete('penalties/:id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('delete', { entity: 'penalty' })
   async deletePenalty(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.prisma.penalty.findUnique({ where: { id } });
     const result = await this.tracks.deletePenalty(id);
@@ -376,6 +402,8 @@ export class TracksController {
   }
 
   @Get(':id')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { entity: 'track' })
   findOne(@Param('id') id: string) {
     return this.tracks.findById(id);
   }
@@ -397,8 +425,9 @@ export class TracksController {
   }
 
   @Patch(':id')
-  @UseGuards(RolesGuard)
-  @Roles('admin', 'pm')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin', 'pm', 'track_lead')
+  @RequireTrackPermission('edit', { entity: 'track' })
   async update(@Param('id') id: string, @Body() dto: UpdateTrackDto, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.tracks.findById(id);
     const track = await this.tracks.update(id, dto);
@@ -415,9 +444,62 @@ export class TracksController {
     return track;
   }
 
-  @Delete(':id')
+  @Get(':id/task-workflow')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { entity: 'track' })
+  getTaskWorkflow(@Param('id') id: string) {
+    return this.tracks.getTaskWorkflow(id);
+  }
+
+  @Put(':id/task-workflow')
   @UseGuards(RolesGuard)
   @Roles('admin')
+  async setTaskWorkflow(@Param('id') id: string, @Body() dto: UpdateTaskWorkflowDto, @CurrentUser() user: any, @Req() req: Request) {
+    const before = await this.tracks.getTaskWorkflow(id);
+    const result = await this.tracks.setTaskWorkflow(id, dto);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'update',
+      entityType: 'track',
+      entityId: id,
+      trackId: id,
+      beforeData: { taskWorkflow: before.isDefault ? null : before.workflow } as any,
+      afterData: { taskWorkflow: result.isDefault ? null : result.workflow } as any,
+      ip: req.ip,
+    });
+    return result;
+  }
+
+  @Get(':id/deadline-policy')
+  @UseGuards(TrackPermissionGuard)
+  @RequireTrackPermission('view', { entity: 'track' })
+  getDeadlinePolicy(@Param('id') id: string) {
+    return this.tracks.getDeadlinePolicy(id);
+  }
+
+  @Put(':id/deadline-policy')
+  @UseGuards(RolesGuard)
+  @Roles('admin', 'pm')
+  async setDeadlinePolicy(@Param('id') id: string, @Body() dto: UpdateDeadlinePolicyDto, @CurrentUser() user: any, @Req() req: Request) {
+    const before = await this.tracks.getDeadlinePolicy(id);
+    const result = await this.tracks.setDeadlinePolicy(id, dto);
+    await this.audit.log({
+      actorId: user.id,
+      actionType: 'update',
+      entityType: 'track',
+      entityId: id,
+      trackId: id,
+      beforeData: { deadlinePolicy: before.isDefault ? null : before.policy } as any,
+      afterData: { deadlinePolicy: result.isDefault ? null : result.policy } as any,
+      ip: req.ip,
+    });
+    return result;
+  }
+
+  @Delete(':id')
+  @UseGuards(RolesGuard, TrackPermissionGuard)
+  @Roles('admin')
+  @RequireTrackPermission('delete', { entity: 'track' })
   async delete(@Param('id') id: string, @CurrentUser() user: any, @Req() req: Request) {
     const before = await this.tracks.findById(id);
     const result = await this.tracks.delete(id);
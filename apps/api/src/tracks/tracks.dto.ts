@@ -1,4 +1,8 @@
-import { IsString, IsOptional, IsBoolean, IsInt, IsObject, IsNumber, MinLength } from 'class-validator';
+import { IsString, IsOptional, IsBoolean, IsInt, IsObject, IsNumber, IsIn, IsArray, ArrayMaxSize, Min, Max, MinLength, ValidateNested } from 'class-validator';
+import { Type } from 'class-transformer';
+import { TASK_STATUSES } from '../tasks/task-status';
+import { ANY_STATUS, WORKFLOW_REQUIRED_FIELDS, WORKFLOW_ROLES } from '../tasks/task-workflow';
+import { MAX_ESCALATION_DAYS, MAX_REMINDER_DAYS } from '../tasks/deadline-policy';
 
 export class CreateTrackDto {
   @IsString()
@@ -58,6 +62,105 @@ export class UpdateTrackDto {
   @IsOptional()
   @IsObject()
   fieldSchema?: any;
+
+  // Board column limits, e.g. { in_progress: 5 }; null clears them
+  @IsOptional()
+  @IsObject()
+  wipLimits?: Record<string, number> | null;
+}
+
+// ─── TASK WORKFLOW DTOs ───
+
+export class TaskWorkflowTransitionDto {
+  @IsIn([ANY_STATUS, ...TASK_STATUSES])
+  from: string;
+
+  @IsIn([...TASK_STATUSES])
+  to: string;
+
+  @IsArray()
+  @IsIn([...WORKFLOW_ROLES], { each: true })
+  roles: string[];
+
+  @IsOptional()
+  @IsArray()
+  @IsIn([...WORKFLOW_REQUIRED_FIELDS], { each: true })
+  requiredFields?: string[];
+
+  // Progress set by the transition; omit or null to leave progress alone
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  progress?: number | null;
+}
+
+export class UpdateTaskWorkflowDto {
+  // null resets the track to the default workflow
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TaskWorkflowTransitionDto)
+  transitions: TaskWorkflowTransitionDto[] | null;
+}
+
+// ─── DEADLINE POLICY DTOs ───
+
+export class DeadlineRuleDto {
+  // Days before the due date on which assignees are reminded
+  @IsArray()
+  @ArrayMaxSize(5)
+  @IsInt({ each: true })
+  @Min(1, { each: true })
+  @Max(MAX_REMINDER_DAYS, { each: true })
+  reminderDays: number[];
+
+  // Days past the due date before track leads, then PMs and admins, are notified
+  @IsInt()
+  @Min(0)
+  @Max(MAX_ESCALATION_DAYS)
+  trackLeadAfterDays: number;
+
+  @IsInt()
+  @Min(0)
+  @Max(MAX_ESCALATION_DAYS)
+  managementAfterDays: number;
+}
+
+export class DeadlinePriorityRulesDto {
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeadlineRuleDto)
+  low?: DeadlineRuleDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeadlineRuleDto)
+  medium?: DeadlineRuleDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeadlineRuleDto)
+  high?: DeadlineRuleDto;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeadlineRuleDto)
+  critical?: DeadlineRuleDto;
+}
+
+export class UpdateDeadlinePolicyDto {
+  // null resets the track to the default policy
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeadlineRuleDto)
+  default: DeadlineRuleDto | null;
+
+  // Overrides of the track's rule for tasks of a given priority
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => DeadlinePriorityRulesDto)
+  priorities?: DeadlinePriorityRulesDto;
 }
 
 // ─── EMPLOYEE DTOs ───
@@ -1,8 +1,18 @@
-import { Injectable, NotFoundException, ForbiddenException } from '@nestjs/common';
+import { Injectable, NotFoundException, BadRequestException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../common/prisma.service';
+import { DomainEvents } from '../common/events/domain-events';
+import { TASK_STATUSES } from '../tasks/task-status';
+import { DEFAULT_TASK_WORKFLOW, TaskWorkflow } from '../tasks/task-workflow';
+import { DeadlinePolicy, DeadlineRule, DEFAULT_DEADLINE_POLICY, TASK_PRIORITIES } from '../tasks/deadline-policy';
 import {
   CreateTrackDto,
   UpdateTrackDto,
+  UpdateTaskWorkflowDto,
+  TaskWorkflowTransitionDto,
+  UpdateDeadlinePolicyDto,
+  DeadlineRuleDto,
   CreateEmployeeDto,
   UpdateEmployeeDto,
   CreateDeliverableDto,
@@ -17,7 +27,10 @@ import {
 
 @Injectable()
 export class TracksService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private eventBus: EventEmitter2,
+  ) {}
 
   async findAll(userId: string, role: string) {
     // Admin and PM can see all tracks
@@ -92,34 +105,133 @@ export class TracksService {
 
   async update(id: string, dto: UpdateTrackDto) {
     await this.findById(id);
+    const data: any = { ...dto };
+    if (dto.wipLimits !== undefined) {
+      data.wipLimits = this.normalizeWipLimits(dto.wipLimits) ?? Prisma.DbNull;
+    }
     return this.prisma.track.update({
       where: { id },
-      data: dto as any,
+      data,
     });
   }
 
-  async delete(id: string) {
+  /** Keeps known statuses with a positive whole limit; an empty result clears the limits. */
+  private normalizeWipLimits(limits: Record<string, number> | null) {
+    if (!limits) return null;
+    const result: Record<string, number> = {};
+    for (const [status, limit] of Object.entries(limits)) {
+      if (!(TASK_STATUSES as readonly string[]).includes(status)) {
+        throw new BadRequestException(`حالة غير معروفة في حدود الأعمال الجارية: ${status}`);
+      }
+      if (limit === null || limit === 0) continue;
+      if (!Number.isInteger(limit) || limit < 0) {
+        throw new BadRequestException('حد الأعمال الجارية يجب أن يكون عدداً صحيحاً موجباً');
+      }
+      result[status] = limit;
+    }
+    return Object.keys(result).length > 0 ? result : null;
+  }
+
+  // ─── TASK WORKFLOW ───
+
+  async getTaskWorkflow(id: string) {
+    const track = await this.prisma.track.findUnique({ where: { id }, select: { taskWorkflow: true } });
+    if (!track) throw new NotFoundException('المسار غير موجود');
+    const stored = track.taskWorkflow as unknown as TaskWorkflow | null;
+    return {
+      isDefault: !stored,
+      workflow: stored || DEFAULT_TASK_WORKFLOW,
+      defaultWorkflow: DEFAULT_TASK_WORKFLOW,
+    };
+  }
+
+  async setTaskWorkflow(id: string, dto: UpdateTaskWorkflowDto) {
     await this.findById(id);
-    await this.prisma.track.delete({ where: { id } });
-    return { message: 'تم حذف المسار' };
+    const workflow = dto.transitions ? this.normalizeTaskWorkflow(dto.transitions) : null;
+    await this.prisma.track.update({
+      where: { id },
+      data: { taskWorkflow: workflow ? (workflow as unknown as Prisma.InputJsonValue) : Prisma.DbNull },
+    });
+    return this.getTaskWorkflow(id);
+  }
+
+  /** One transition per from/to pair, no self-transitions, defaults filled in. */
+  private normalizeTaskWorkflow(transitions: TaskWorkflowTransitionDto[]): TaskWorkflow {
+    const seen = new Set<string>();
+    const result = transitions.map((t) => {
+      if (t.from === t.to) {
+        throw new BadRequestException('لا يمكن أن يكون الانتقال من حالة إلى نفسها');
+      }
+      const key = `${t.from}>${t.to}`;
+      if (seen.has(key)) {
+        throw new BadRequestException('يوجد انتقال مكرر بين الحالتين نفسيهما');
+      }
+      seen.add(key);
+      return {
+        from: t.from,
+        to: t.to,
+        roles: [...new Set(t.roles)],
+        requiredFields: [...new Set(t.requiredFields || [])],
+        progress: t.progress ?? null,
+      };
+    });
+    return { transitions: result };
   }
 
-  async checkPermission(userId: string, trackId: string, permission: string, role: string) {
-    if (role === 'admin') return true;
+  // ─── DEADLINE POLICY ───
+
+  async getDeadlinePolicy(id: string) {
+    const track = await this.prisma.track.findUnique({ where: { id }, select: { deadlinePolicy: true } });
+    if (!track) throw new NotFoundException('المسار غير موجود');
+    const stored = track.deadlinePolicy as unknown as DeadlinePolicy | null;
+    return {
+      isDefault: !stored,
+      policy: stored || DEFAULT_DEADLINE_POLICY,
+      defaultPolicy: DEFAULT_DEADLINE_POLICY,
+    };
+  }
 
-    const tp = await this.prisma.trackPermission.findUnique({
-      where: { userId_trackId: { userId, trackId } },
+  async setDeadlinePolicy(id: string, dto: UpdateDeadlinePolicyDto) {
+    await this.findById(id);
+    let policy: DeadlinePolicy | null = null;
+    if (dto.default) {
+      const priorities: DeadlinePolicy['priorities'] = {};
+      for (const priority of TASK_PRIORITIES) {
+        const rule = dto.priorities?.[priority];
+        if (rule) priorities[priority] = this.normalizeDeadlineRule(rule);
+      }
+      policy = { default: this.normalizeDeadlineRule(dto.default), priorities };
+    }
+    await this.prisma.track.update({
+      where: { id },
+      data: { deadlinePolicy: policy ? (policy as unknown as Prisma.InputJsonValue) : Prisma.DbNull },
     });
+    return this.getDeadlinePolicy(id);
+  }
 
-    if (!tp || !tp.permissions.includes(permission)) {
-      throw new ForbiddenException('ليس لديك صلاحية لهذا الإجراء');
+  /** Distinct reminder days, furthest first; management is never escalated to before track leads. */
+  private normalizeDeadlineRule(rule: DeadlineRuleDto): DeadlineRule {
+    if (rule.managementAfterDays < rule.trackLeadAfterDays) {
+      throw new BadRequestException('لا يمكن التصعيد إلى الإدارة قبل التصعيد إلى قائد المسار');
     }
-    return true;
+    return {
+      reminderDays: [...new Set(rule.reminderDays)].sort((a, b) => b - a),
+      trackLeadAfterDays: rule.trackLeadAfterDays,
+      managementAfterDays: rule.managementAfterDays,
+    };
   }
 
-  async getEmployees(params: { trackId?: string; search?: string; status?: string }) {
+  async delete(id: string) {
+    await this.findById(id);
+    await this.prisma.track.delete({ where: { id } });
+    return { message: 'تم حذف المسار' };
+  }
+
+  /** `trackIds` limits the list when no trackId is given; null for all tracks. */
+  async getEmployees(params: { trackId?: string; trackIds?: string[] | null; search?: string; status?: string }) {
     const where: any = { isDeleted: false };
     if (params.trackId) where.trackId = params.trackId;
+    else if (params.trackIds) where.trackId = { in: params.trackIds };
     if (params.status) where.status = params.status;
     if (params.search) {
       where.OR = [
@@ -138,9 +250,10 @@ export class TracksService {
     });
   }
 
-  async getPenalties(params: { trackId?: string; resolved?: string }) {
+  async getPenalties(params: { trackId?: string; trackIds?: string[] | null; resolved?: string }) {
     const where: any = { isDeleted: false };
     if (params.trackId) where.trackId = params.trackId;
+    else if (params.trackIds) where.trackId = { in: params.trackIds };
     if (params.resolved === 'true') where.isResolved = true;
     if (params.resolved === 'false') where.isResolved = false;
     return this.prisma.penalty.findMany({
@@ -151,32 +264,39 @@ export class TracksService {
   }
 
   async updatePenalty(id: string, data: any) {
-    return this.prisma.penalty.update({ where: { id }, data });
+    const penalty = await this.prisma.penalty.update({ where: { id }, data });
+    this.contentChanged('penalty', [id]);
+    return penalty;
   }
 
   // ─── EMPLOYEE CRUD ───
 
   async createEmployee(dto: CreateEmployeeDto) {
-    return this.prisma.employee.create({
+    const employee = await this.prisma.employee.create({
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('employee', [employee.id]);
+    return employee;
   }
 
   async updateEmployee(id: string, dto: UpdateEmployeeDto) {
     const existing = await this.prisma.employee.findUnique({ where: { id } });
     if (!existing || existing.isDeleted) throw new NotFoundException('الموظف غير موجود');
-    return this.prisma.employee.update({
+    const employee = await this.prisma.employee.update({
       where: { id },
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('employee', [id]);
+    return employee;
   }
 
   async deleteEmployee(id: string) {
     const existing = await this.prisma.employee.findUnique({ where: { id } });
     if (!existing) throw new NotFoundException('الموظف غير موجود');
     await this.prisma.employee.update({ where: { id }, data: { isDeleted: true } });
+    this.contentChanged('employee', [id]);
     return { message: 'تم حذف الموظف' };
   }
 
@@ -184,6 +304,7 @@ export class TracksService {
     const existing = await this.prisma.employee.findUnique({ where: { id } });
     if (!existing) throw new NotFoundException('الموظف غير موجود');
     await this.prisma.employee.update({ where: { id }, data: { isDeleted: false } });
+    this.contentChanged('employee', [id]);
     return { message: 'تم استعادة الموظف' };
   }
 
@@ -192,37 +313,44 @@ export class TracksService {
       where: { id: { in: ids } },
       data: { isDeleted: true },
     });
+    this.contentChanged('employee', ids);
     return { message: `تم حذف ${result.count} موظف`, count: result.count };
   }
 
   // ─── DELIVERABLE CRUD ───
 
   async createDeliverable(dto: CreateDeliverableDto) {
-    return this.prisma.deliverable.create({
+    const deliverable = await this.prisma.deliverable.create({
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('deliverable', [deliverable.id]);
+    return deliverable;
   }
 
   async updateDeliverable(id: string, dto: UpdateDeliverableDto) {
     const existing = await this.prisma.deliverable.findUnique({ where: { id } });
     if (!existing || existing.isDeleted) throw new NotFoundException('المخرج غير موجود');
-    return this.prisma.deliverable.update({
+    const deliverable = await this.prisma.deliverable.update({
       where: { id },
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('deliverable', [id]);
+    return deliverable;
   }
 
   async deleteDeliverable(id: string) {
     const existing = await this.prisma.deliverable.findUnique({ where: { id } });
     if (!existing) throw new NotFoundException('المخرج غير موجود');
     await this.prisma.deliverable.update({ where: { id }, data: { isDeleted: true } });
+    this.contentChanged('deliverable', [id]);
     return { message: 'تم حذف المخرج' };
   }
 
   async restoreDeliverable(id: string) {
     await this.prisma.deliverable.update({ where: { id }, data: { isDeleted: false } });
+    this.contentChanged('deliverable', [id]);
     return { message: 'تم استعادة المخرج' };
   }
 
@@ -231,89 +359,111 @@ export class TracksService {
       where: { id: { in: ids } },
       data: { isDeleted: true },
     });
+    this.contentChanged('deliverable', ids);
     return { message: `تم حذف ${result.count} مخرج`, count: result.count };
   }
 
   // ─── SCOPE CRUD ───
 
   async createScope(dto: CreateScopeDto) {
-    return this.prisma.scope.create({
+    const scope = await this.prisma.scope.create({
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('scope', [scope.id]);
+    return scope;
   }
 
   async updateScope(id: string, dto: UpdateScopeDto) {
     const existing = await this.prisma.scope.findUnique({ where: { id } });
     if (!existing || existing.isDeleted) throw new NotFoundException('نطاق العمل غير موجود');
-    return this.prisma.scope.update({
+    const scope = await this.prisma.scope.update({
       where: { id },
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('scope', [id]);
+    return scope;
   }
 
   async deleteScope(id: string) {
     const existing = await this.prisma.scope.findUnique({ where: { id } });
     if (!existing) throw new NotFoundException('نطاق العمل غير موجود');
     await this.prisma.scope.update({ where: { id }, data: { isDeleted: true } });
+    this.contentChanged('scope', [id]);
     return { message: 'تم حذف نطاق العمل' };
   }
 
   async restoreScope(id: string) {
     await this.prisma.scope.update({ where: { id }, data: { isDeleted: false } });
+    this.contentChanged('scope', [id]);
     return { message: 'تم استعادة نطاق العمل' };
   }
 
   // ─── TRACK KPI CRUD ───
 
   async createTrackKPI(dto: CreateTrackKPIDto) {
-    return this.prisma.trackKPI.create({
+    const kpi = await this.prisma.trackKPI.create({
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('kpi', [kpi.id]);
+    return kpi;
   }
 
   async updateTrackKPI(id: string, dto: UpdateTrackKPIDto) {
     const existing = await this.prisma.trackKPI.findUnique({ where: { id } });
     if (!existing || existing.isDeleted) throw new NotFoundException('مؤشر الأداء غير موجود');
-    return this.prisma.trackKPI.update({
+    const kpi = await this.prisma.trackKPI.update({
       where: { id },
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('kpi', [id]);
+    return kpi;
   }
 
   async deleteTrackKPI(id: string) {
     const existing = await this.prisma.trackKPI.findUnique({ where: { id } });
     if (!existing) throw new NotFoundException('مؤشر الأداء غير موجود');
     await this.prisma.trackKPI.update({ where: { id }, data: { isDeleted: true } });
+    this.contentChanged('kpi', [id]);
     return { message: 'تم حذف مؤشر الأداء' };
   }
 
   async restoreTrackKPI(id: string) {
     await this.prisma.trackKPI.update({ where: { id }, data: { isDeleted: false } });
+    this.contentChanged('kpi', [id]);
     return { message: 'تم استعادة مؤشر الأداء' };
   }
 
   // ─── PENALTY CREATE & DELETE ───
 
   async createPenalty(dto: CreatePenaltyDto) {
-    return this.prisma.penalty.create({
+    const penalty = await this.prisma.penalty.create({
       data: dto as any,
       include: { track: true },
     });
+    this.contentChanged('penalty', [penalty.id]);
+    return penalty;
   }
 
   async deletePenalty(id: string) {
     const existing = await this.prisma.penalty.findUnique({ where: { id } });
     if (!existing) throw new NotFoundException('الغرامة غير موجودة');
     await this.prisma.penalty.update({ where: { id }, data: { isDeleted: true } });
+    this.contentChanged('penalty', [id]);
     return { message: 'تم حذف الغرامة' };
   }
 
   async restorePenalty(id: string) {
     await this.prisma.penalty.update({ where: { id }, data: { isDeleted: false } });
+    this.contentChanged('penalty', [id]);
     return { message: 'تم استعادة الغرامة' };
   }
+
+  /** Searchable fields changed; the embedding index picks this up. */
+  private contentChanged(entityType: string, entityIds: string[]) {
+    this.eventBus.emit(DomainEvents.ENTITY_CHANGED, { entityType, entityIds });
+  }
 }
@@ -1,6 +1,8 @@
 import { Injectable, ConflictException, NotFoundException } from '@nestjs/common';
+import { EventEmitter2 } from '@nestjs/event-emitter';
 import * as bcrypt from 'bcrypt';
 import { PrismaService } from '../common/prisma.service';
+import { DomainEvents } from '../common/events/domain-events';
 import { CreateUserDto, UpdateUserDto } from './users.dto';
 
 const USER_SELECT = {
@@ -18,7 +20,10 @@ const USER_SELECT = {
 
 @Injectable()
 export class UsersService {
-  constructor(private prisma: PrismaService) {}
+  constructor(
+    private prisma: PrismaService,
+    private eventBus: EventEmitter2,
+  ) {}
 
   async findAll(page = 1, pageSize = 25, search?: string) {
     const where: any = {};
@@ -68,11 +73,15 @@ export class UsersService {
 
   async update(id: string, dto: UpdateUserDto) {
     await this.findById(id);
-    return this.prisma.user.update({
+    const user = await this.prisma.user.update({
       where: { id },
       data: dto as any,
       select: USER_SELECT,
     });
+    if (dto.role !== undefined || dto.isActive !== undefined) {
+      this.eventBus.emit(DomainEvents.USER_ACCESS_CHANGED, { userId: id });
+    }
+    return user;
   }
 
   async resetPassword(id: string, password: string) {
@@ -100,16 +109,19 @@ export class UsersService {
 
   async setPermissions(userId: string, trackId: string, permissions: string[]) {
     await this.findById(userId);
-    return this.prisma.trackPermission.upsert({
+    const result = await this.prisma.trackPermission.upsert({
       where: { userId_trackId: { userId, trackId } },
       create: { userId, trackId, permissions },
       update: { permissions },
     });
+    this.eventBus.emit(DomainEvents.USER_ACCESS_CHANGED, { userId });
+    return result;
   }
 
   async delete(id: string) {
     await this.findById(id);
     await this.prisma.user.delete({ where: { id } });
+    this.eventBus.emit(DomainEvents.USER_ACCESS_CHANGED, { userId: id });
     return { message: 'تم حذف المستخدم' };
   }
 }
@@ -0,0 +1,39 @@
+import { EventsGateway } from './events.gateway';
+import { buildTaskVisibilityFilter } from '../tasks/task-visibility';
+
+function socket(data: Record<string, any>) {
+  return { id: 's1', data, rooms: new Set<string>(), join: jest.fn(), leave: jest.fn() } as any;
+}
+
+describe('EventsGateway presence access', () => {
+  const member = { userId: 'u1', role: 'employee', trackPermissions: [{ trackId: 't1', permissions: ['edit'] }] };
+  let count: jest.Mock;
+  let gateway: EventsGateway;
+
+  beforeEach(() => {
+    count = jest.fn().mockResolvedValue(1);
+    gateway = new EventsGateway({} as any, { task: { count } } as any);
+    gateway.server = { to: () => ({ emit: jest.fn() }) } as any;
+  });
+
+  it('checks a task with the same filter as the task API', async () => {
+    const result = await gateway.handlePresenceJoin(socket(member), { entityType: 'task', entityId: 'task-1' });
+
+    expect(result.joined).toBe(true);
+    expect(count).toHaveBeenCalledWith({
+      where: { id: 'task-1', ...buildTaskVisibilityFilter({ id: 'u1', role: 'employee', trackPermissions: member.trackPermissions }) },
+    });
+  });
+
+  it('refuses a task the filter hides', async () => {
+    count.mockResolvedValue(0);
+    const result = await gateway.handlePresenceJoin(socket(member), { entityType: 'task', entityId: 'task-1' });
+    expect(result).toEqual({ joined: false, viewers: [] });
+  });
+
+  it('checks tracks by the view permission', async () => {
+    const result = await gateway.handlePresenceJoin(socket(member), { entityType: 'track', entityId: 't1' });
+    expect(result.joined).toBe(false);
+    expect(count).not.toHaveBeenCalled();
+  });
+});
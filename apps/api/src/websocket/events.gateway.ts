@@ -9,8 +9,53 @@ import {
 } from '@nestjs/websockets';
 import { Logger } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
+import { OnEvent } from '@nestjs/event-emitter';
 import { Server, Socket } from 'socket.io';
+import { PrismaService } from '../common/prisma.service';
+import { GLOBAL_TRACK_ROLES, hasTrackPermission } from '../common/guards/track-permission.guard';
+import { DomainEvents, UserAccessChangedEvent } from '../common/events/domain-events';
+import { buildTaskVisibilityFilter } from '../tasks/task-visibility';
 
+export type PresenceEntity = 'track' | 'task';
+
+export interface PresenceViewer {
+  id: string;
+  name: string;
+  nameAr: string;
+}
+
+interface SocketAccess {
+  role: string;
+  name: string;
+  nameAr: string;
+  trackPermissions: Array<{ trackId: string; permissions: string[] }>;
+}
+
+export interface RealtimeAudience {
+  userIds?: Array<string | null | undefined>;
+  trackIds?: Array<string | null | undefined>;
+  roles?: string[];
+}
+
+/** How long a socket may stay connected after its access token expires, to refresh it. */
+const TOKEN_GRACE_MS = 30 * 1000;
+/** setTimeout overflows past ~24.8 days; longer expiries are re-armed. */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const userRoom = (userId: string) => `user:${userId}`;
+const trackRoom = (trackId: string) => `track:${trackId}`;
+const roleRoom = (role: string) => `role:${role}`;
+const presenceRoom = (entityType: PresenceEntity, entityId: string) => `presence:${entityType}:${entityId}`;
+
+/**
+ * Realtime gateway. Every socket is authenticated on connect and joins its
+ * own user room, its role room and the rooms of the tracks it may view, so
+ * services can target events without leaking them to other clients.
+ *
+ * Access tokens are short-lived: when one expires the client receives
+ * `auth.expired` and has TOKEN_GRACE_MS to send `auth.refresh` with a new
+ * token before it is disconnected.
+ */
 @WebSocketGateway({
   cors: {
     origin: process.env.CORS_ORIGINS
@@ -27,8 +72,15 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
 
   private readonly logger = new Logger(EventsGateway.name);
   private onlineUsers = new Map<string, Set<string>>();
+  private expiryTimers = new Map<string, NodeJS.Timeout>();
+  // presence room -> userId -> socket ids of that user viewing it
+  private presence = new Map<string, Map<string, Set<string>>>();
+  private viewers = new Map<string, PresenceViewer>();
 
-  constructor(private jwt: JwtService) {}
+  constructor(
+    private jwt: JwtService,
+    private prisma: PrismaService,
+  ) {}
 
   async handleConnection(client: Socket) {
     try {
@@ -38,16 +90,25 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
         return;
       }
       const payload = this.jwt.verify(token);
+      const access = await this.loadAccess(payload.sub);
+      if (!access) {
+        client.disconnect();
+        return;
+      }
+
       client.data.userId = payload.sub;
-      client.data.role = payload.role;
+      client.join(userRoom(payload.sub));
+      await this.applyAccess(client, access);
+      this.scheduleExpiry(client, payload.exp);
 
       // Track online users
       if (!this.onlineUsers.has(payload.sub)) {
         this.onlineUsers.set(payload.sub, new Set());
       }
       this.onlineUsers.get(payload.sub)!.add(client.id);
+      this.viewers.set(payload.sub, { id: payload.sub, name: access.name, nameAr: access.nameAr });
 
-      this.server.emit('user.online', { userId: payload.sub, count: this.onlineUsers.size });
+      this.emitToRoles(GLOBAL_TRACK_ROLES, 'user.online', { userId: payload.sub, count: this.onlineUsers.size });
       this.logger.log(`Client connected: ${client.id} (user: ${payload.sub})`);
     } catch {
       client.disconnect();
@@ -55,6 +116,9 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
   }
 
   handleDisconnect(client: Socket) {
+    this.clearExpiry(client.id);
+    this.leaveAllPresence(client);
+
     const userId = client.data?.userId;
     if (userId) {
       const sockets = this.onlineUsers.get(userId);
@@ -62,38 +126,254 @@ export class EventsGateway implements OnGatewayConnection, OnGatewayDisconnect {
         sockets.delete(client.id);
         if (sockets.size === 0) {
           this.onlineUsers.delete(userId);
-          this.server.emit('user.offline', { userId, count: this.onlineUsers.size });
+          this.viewers.delete(userId);
+          this.emitToRoles(GLOBAL_TRACK_ROLES, 'user.offline', { userId, count: this.onlineUsers.size });
         }
       }
     }
     this.logger.log(`Client disconnected: ${client.id}`);
   }
 
+  // ─── AUTH ───
+
+  @SubscribeMessage('auth.refresh')
+  async handleAuthRefresh(@ConnectedSocket() client: Socket, @MessageBody() data: { token: string }) {
+    try {
+      const payload = this.jwt.verify(data?.token);
+      if (!client.data.userId || payload.sub !== client.data.userId) return { ok: false };
+
+      const access = await this.loadAccess(payload.sub);
+      if (!access) return { ok: false };
+
+      await this.applyAccess(client, access);
+      this.scheduleExpiry(client, payload.exp);
+      return { ok: true };
+    } catch {
+      return { ok: false };
+    }
+  }
+
+  /** Re-evaluates rooms of a connected user after a role/permission change. */
+  @OnEvent(DomainEvents.USER_ACCESS_CHANGED, { async: true })
+  async onUserAccessChanged(event: UserAccessChangedEvent) {
+    try {
+      const socketIds = this.onlineUsers.get(event.userId);
+      if (!socketIds) return;
+
+      const access = await this.loadAccess(event.userId);
+      for (const socketId of [...socketIds]) {
+        const client = this.server.sockets.sockets.get(socketId);
+        if (!client) continue;
+        if (access) {
+          await this.applyAccess(client, access);
+        } else {
+          client.disconnect(true);
+        }
+      }
+    } catch (err) {
+      this.logger.error(`Failed to refresh socket access for ${event.userId}: ${err.message}`);
+    }
+  }
+
+  // ─── TRACK ROOMS ───
+
   @SubscribeMessage('track.join')
   handleJoinTrack(@ConnectedSocket() client: Socket, @MessageBody() data: { trackId: string }) {
-    client.join(`track:${data.trackId}`);
+    if (!client.data.userId || !data?.trackId || !hasTrackPermission(client.data, data.trackId, 'view')) {
+      return { joined: false };
+    }
+    client.join(trackRoom(data.trackId));
     this.logger.debug(`${client.data.userId} joined track:${data.trackId}`);
+    return { joined: true };
   }
 
   @SubscribeMessage('track.leave')
   handleLeaveTrack(@ConnectedSocket() client: Socket, @MessageBody() data: { trackId: string }) {
-    client.leave(`track:${data.trackId}`);
+    // Rooms of the user's own tracks are managed server-side and kept
+    if (!data?.trackId || this.isMemberTrack(client, data.trackId)) return;
+    client.leave(trackRoom(data.trackId));
+  }
+
+  // ─── PRESENCE ───
+
+  @SubscribeMessage('presence.join')
+  async handlePresenceJoin(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { entityType: PresenceEntity; entityId: string },
+  ) {
+    if (!client.data.userId || !data?.entityId || !(await this.canView(client, data.entityType, data.entityId))) {
+      return { joined: false, viewers: [] };
+    }
+
+    const room = presenceRoom(data.entityType, data.entityId);
+    client.join(room);
+    if (!this.presence.has(room)) this.presence.set(room, new Map());
+    const users = this.presence.get(room)!;
+    if (!users.has(client.data.userId)) users.set(client.data.userId, new Set());
+    users.get(client.data.userId)!.add(client.id);
+
+    this.broadcastPresence(data.entityType, data.entityId);
+    return { joined: true, viewers: this.getViewers(data.entityType, data.entityId) };
+  }
+
+  @SubscribeMessage('presence.leave')
+  handlePresenceLeave(
+    @ConnectedSocket() client: Socket,
+    @MessageBody() data: { entityType: PresenceEntity; entityId: string },
+  ) {
+    if (!data?.entityId) return;
+    this.leavePresence(client, data.entityType, data.entityId);
+  }
+
+  /** Users currently viewing a track or task. */
+  getViewers(entityType: PresenceEntity, entityId: string): PresenceViewer[] {
+    const users = this.presence.get(presenceRoom(entityType, entityId));
+    if (!users) return [];
+    return [...users.keys()]
+      .map((userId) => this.viewers.get(userId))
+      .filter((v): v is PresenceViewer => !!v);
   }
 
+  // ─── EMITTERS ───
+
   emitToTrack(trackId: string, event: string, data: any) {
-    this.server.to(`track:${trackId}`).emit(event, data);
+    this.server.to(trackRoom(trackId)).emit(event, data);
   }
 
   emitToUser(userId: string, event: string, data: any) {
-    const sockets = this.onlineUsers.get(userId);
-    if (sockets) {
-      sockets.forEach((socketId) => {
-        this.server.to(socketId).emit(event, data);
-      });
-    }
+    this.server.to(userRoom(userId)).emit(event, data);
+  }
+
+  emitToRoles(roles: string[], event: string, data: any) {
+    if (roles.length === 0) return;
+    this.server.to(roles.map(roleRoom)).emit(event, data);
+  }
+
+  /** Emits once to every socket in any of the given user, track and role rooms. */
+  emitToAudience(audience: RealtimeAudience, event: string, data: any) {
+    const rooms = [
+      ...(audience.roles || []).map(roleRoom),
+      ...(audience.trackIds || []).filter((id): id is string => !!id).map(trackRoom),
+      ...(audience.userIds || []).filter((id): id is string => !!id).map(userRoom),
+    ];
+    if (rooms.length === 0) return;
+    this.server.to(rooms).emit(event, data);
   }
 
   getOnlineCount() {
     return this.onlineUsers.size;
   }
+
+  // ─── HELPERS ───
+
+  private async loadAccess(userId: string): Promise<SocketAccess | null> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: {
+        isActive: true,
+        role: true,
+        name: true,
+        nameAr: true,
+        trackPermissions: { select: { trackId: true, permissions: true } },
+      },
+    });
+    if (!user || !user.isActive) return null;
+    return { role: user.role, name: user.name, nameAr: user.nameAr, trackPermissions: user.trackPermissions };
+  }
+
+  /** Syncs role and track rooms with the user's current access. */
+  private async applyAccess(client: Socket, access: SocketAccess) {
+    if (client.data.role && client.data.role !== access.role) {
+      client.leave(roleRoom(client.data.role));
+    }
+    client.data.role = access.role;
+    client.data.trackPermissions = access.trackPermissions;
+    client.join(roleRoom(access.role));
+
+    for (const room of client.rooms) {
+      if (room.startsWith('track:') && !hasTrackPermission(client.data, room.slice('track:'.length), 'view')) {
+        client.leave(room);
+      }
+    }
+    for (const tp of access.trackPermissions) {
+      if (tp.permissions.includes('view')) client.join(trackRoom(tp.trackId));
+    }
+
+    for (const room of client.rooms) {
+      if (!room.startsWith('presence:')) continue;
+      const [, entityType, entityId] = room.split(':');
+      if (!(await this.canView(client, entityType as PresenceEntity, entityId))) {
+        this.leavePresence(client, entityType as PresenceEntity, entityId);
+      }
+    }
+  }
+
+  private isMemberTrack(client: Socket, trackId: string) {
+    if (GLOBAL_TRACK_ROLES.includes(client.data.role)) return false;
+    return hasTrackPermission(client.data, trackId, 'view');
+  }
+
+  /** Tracks by the `view` permission; tasks by the same filter as the task API. */
+  private async canView(client: Socket, entityType: PresenceEntity, entityId: string) {
+    if (entityType === 'track') return hasTrackPermission(client.data, entityId, 'view');
+    if (entityType !== 'task') return false;
+
+    const viewer = { id: client.data.userId, role: client.data.role, trackPermissions: client.data.trackPermissions };
+    const visible = await this.prisma.task.count({ where: { id: entityId, ...buildTaskVisibilityFilter(viewer) } });
+    return visible > 0;
+  }
+
+  private leavePresence(client: Socket, entityType: PresenceEntity, entityId: string) {
+    const room = presenceRoom(entityType, entityId);
+    client.leave(room);
+
+    const users = this.presence.get(room);
+    const sockets = users?.get(client.data.userId);
+    if (!users || !sockets) return;
+
+    sockets.delete(client.id);
+    if (sockets.size > 0) return;
+    users.delete(client.data.userId);
+    if (users.size === 0) this.presence.delete(room);
+    this.broadcastPresence(entityType, entityId);
+  }
+
+  private leaveAllPresence(client: Socket) {
+    for (const [room, users] of this.presence) {
+      if (!users.get(client.data?.userId)?.has(client.id)) continue;
+      const [, entityType, entityId] = room.split(':');
+      this.leavePresence(client, entityType as PresenceEntity, entityId);
+    }
+  }
+
+  private broadcastPresence(entityType: PresenceEntity, entityId: string) {
+    this.server.to(presenceRoom(entityType, entityId)).emit('presence.updated', {
+      entityType,
+      entityId,
+      viewers: this.getViewers(entityType, entityId),
+    });
+  }
+
+  private scheduleExpiry(client: Socket, exp?: number) {
+    this.clearExpiry(client.id);
+    if (!exp) return;
+
+    const delay = exp * 1000 - Date.now();
+    if (delay > MAX_TIMER_MS) {
+      this.expiryTimers.set(client.id, setTimeout(() => this.scheduleExpiry(client, exp), MAX_TIMER_MS));
+      return;
+    }
+
+    const timer = setTimeout(() => {
+      client.emit('auth.expired');
+      this.expiryTimers.set(client.id, setTimeout(() => client.disconnect(true), TOKEN_GRACE_MS));
+    }, Math.max(delay, 0));
+    this.expiryTimers.set(client.id, timer);
+  }
+
+  private clearExpiry(socketId: string) {
+    const timer = this.expiryTimers.get(socketId);
+    if (timer) clearTimeout(timer);
+    this.expiryTimers.delete(socketId);
+  }
 }
@@ -0,0 +1,242 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ChevronLeft, ChevronRight, Rss } from 'lucide-react';
+import { calendarApi, tasksApi, tracksApi, usersApi } from '@/lib/api';
+import { useAuth } from '@/stores/auth';
+import { Task } from '@/stores/tasks';
+import { cn, TASK_STATUS_LABELS, WEEKDAY_LABELS } from '@/lib/utils';
+import TaskDetailPanel from '@/components/tasks/task-detail-panel';
+import CalendarFeedPanel from '@/components/calendar/calendar-feed-panel';
+
+type EventKind = 'task' | 'kpi' | 'milestone' | 'hajj';
+
+interface CalendarEvent {
+  id: string;
+  kind: EventKind;
+  sourceId: string;
+  title: string;
+  start: string;
+  end: string;
+  status: string | null;
+  priority: string | null;
+  track: { id: string; nameAr: string; color: string } | null;
+}
+
+const KIND_LABELS: Record<EventKind, string> = {
+  task: 'المهام',
+  kpi: 'مؤشرات الأداء',
+  milestone: 'المعالم',
+  hajj: 'موسم الحج',
+};
+
+const KIND_COLORS: Record<EventKind, string> = {
+  task: 'bg-white/5 text-gray-200',
+  kpi: 'bg-purple-500/15 text-purple-200',
+  milestone: 'bg-sky-500/15 text-sky-200',
+  hajj: 'bg-amber-500/20 text-amber-200',
+};
+
+const MONTH_CELL_LIMIT = 3;
+
+// The grid is Gregorian, so its headings are too (ar-SA defaults to the Hijri calendar)
+const monthFormat = new Intl.DateTimeFormat('ar-SA-u-ca-gregory', { month: 'long', year: 'numeric' });
+const dayFormat = new Intl.DateTimeFormat('ar-SA-u-ca-gregory', { day: 'numeric', month: 'short' });
+
+/** Local calendar day as YYYY-MM-DD. */
+const dayKey = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+const addDays = (date: Date, days: number) => new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+/** Days shown: six Sunday-first weeks around the month, or the anchor's week. */
+function visibleDays(anchor: Date, mode: 'month' | 'week') {
+  const first = mode === 'month' ? new Date(anchor.getFullYear(), anchor.getMonth(), 1) : startOfDay(anchor);
+  const start = addDays(first, -first.getDay());
+  return Array.from({ length: mode === 'month' ? 42 : 7 }, (_, i) => addDays(start, i));
+}
+
+export default function CalendarPage() {
+  const { user } = useAuth();
+  const isAdmin = user?.role === 'admin';
+
+  const [mode, setMode] = useState<'month' | 'week'>('month');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [trackFilter, setTrackFilter] = useState('');
+  const [assigneeFilter, setAssigneeFilter] = useState('');
+  const [hiddenKinds, setHiddenKinds] = useState<EventKind[]>([]);
+  const [events, setEvents] = useState<CalendarEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [tracks, setTracks] = useState<{ id: string; nameAr: string }[]>([]);
+  const [users, setUsers] = useState<{ id: string; name: string; nameAr: string }[]>([]);
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
+  const [showFeed, setShowFeed] = useState(false);
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+
+  const days = useMemo(() => visibleDays(anchor, mode), [anchor, mode]);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await calendarApi.events({
+        from: days[0].toISOString(),
+        to: new Date(addDays(days[days.length - 1], 1).getTime() - 1).toISOString(),
+        trackId: trackFilter || undefined,
+        assigneeId: assigneeFilter || undefined,
+      });
+      setEvents(data.events);
+    } catch {
+      toast.error('فشل تحميل التقويم');
+    } finally {
+      setLoading(false);
+    }
+  }, [days, trackFilter, assigneeFilter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    tracksApi.list().then(({ data }) => setTracks(data?.data || data || [])).catch(() => {});
+    // Only admins can list users; everyone else filters by themselves
+    if (isAdmin) usersApi.list().then(({ data }) => setUsers(data?.data || data || [])).catch(() => {});
+  }, [isAdmin]);
+
+  // Each event on every visible day it spans
+  const eventsByDay = useMemo(() => {
+    const map = new Map<string, CalendarEvent[]>();
+    for (const event of events) {
+      if (hiddenKinds.includes(event.kind)) continue;
+      const last = startOfDay(new Date(event.end));
+      for (let day = startOfDay(new Date(event.start)); day <= last; day = addDays(day, 1)) {
+        const key = dayKey(day);
+        map.set(key, [...(map.get(key) || []), event]);
+      }
+    }
+    return map;
+  }, [events, hiddenKinds]);
+
+  const shift = (direction: number) => {
+    setExpandedDay(null);
+    setAnchor((a) => mode === 'month'
+      ? new Date(a.getFullYear(), a.getMonth() + direction, 1)
+      : addDays(a, 7 * direction));
+  };
+
+  const toggleKind = (kind: EventKind) =>
+    setHiddenKinds((kinds) => kinds.includes(kind) ? kinds.filter((k) => k !== kind) : [...kinds, kind]);
+
+  const openEvent = (event: CalendarEvent) => {
+    if (event.kind !== 'task') return;
+    tasksApi.get(event.sourceId).then(({ data }) => setSelectedTask(data)).catch(() => toast.error('تعذر تحميل المهمة'));
+  };
+
+  const today = dayKey(new Date());
+  const title = mode === 'month'
+    ? monthFormat.format(anchor)
+    : `${dayFormat.format(days[0])} – ${dayFormat.format(days[6])}`;
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">التقويم</h1>
+          <p className="text-gray-400 mt-1">مواعيد استحقاق المهام ومؤشرات الأداء والمعالم ومواسم الحج</p>
+        </div>
+        <div className="flex items-center gap-2 flex-wrap">
+          <select value={trackFilter} onChange={(e) => setTrackFilter(e.target.value)} className="input-field w-auto">
+            <option value="">كل المسارات</option>
+            {tracks.map((t) => <option key={t.id} value={t.id}>{t.nameAr}</option>)}
+          </select>
+          <select value={assigneeFilter} onChange={(e) => setAssigneeFilter(e.target.value)} className="input-field w-auto">
+            <option value="">كل المسؤولين</option>
+            {user && <option value={user.id}>مواعيدي</option>}
+            {users.filter((u) => u.id !== user?.id).map((u) => <option key={u.id} value={u.id}>{u.nameAr || u.name}</option>)}
+          </select>
+          <button onClick={() => setShowFeed((v) => !v)} className={cn('btn-secondary flex items-center gap-1.5 text-sm', showFeed && 'bg-brand-500/20 text-brand-300')}>
+            <Rss className="w-4 h-4" />اشتراك
+          </button>
+        </div>
+      </div>
+
+      {showFeed && <CalendarFeedPanel />}
+
+      <div className="glass p-4 space-y-4">
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <div className="flex items-center gap-2">
+            <button onClick={() => shift(-1)} className="btn-secondary p-2" title="السابق"><ChevronRight className="w-4 h-4" /></button>
+            <button onClick={() => { setAnchor(startOfDay(new Date())); setExpandedDay(null); }} className="btn-secondary text-sm">اليوم</button>
+            <button onClick={() => shift(1)} className="btn-secondary p-2" title="التالي"><ChevronLeft className="w-4 h-4" /></button>
+            <h2 className="text-lg font-semibold mr-2">{title}</h2>
+          </div>
+          <div className="flex items-center gap-2 flex-wrap">
+            {(Object.keys(KIND_LABELS) as EventKind[]).map((kind) => (
+              <button key={kind} onClick={() => toggleKind(kind)}
+                className={cn('rounded-lg px-2.5 py-1 text-xs transition-colors', KIND_COLORS[kind], hiddenKinds.includes(kind) && 'opacity-40 line-through')}>
+                {KIND_LABELS[kind]}
+              </button>
+            ))}
+            <div className="flex rounded-xl bg-white/5 p-1 mr-2">
+              {(['month', 'week'] as const).map((m) => (
+                <button key={m} onClick={() => { setMode(m); setExpandedDay(null); }}
+                  className={cn('rounded-lg px-3 py-1 text-xs transition-colors', mode === m ? 'bg-brand-500/20 text-brand-300' : 'text-gray-400 hover:text-white')}>
+                  {m === 'month' ? 'شهر' : 'أسبوع'}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className={cn('grid grid-cols-7 gap-px rounded-xl overflow-hidden bg-white/5', loading && 'opacity-60')}>
+          {Object.values(WEEKDAY_LABELS).map((label) => (
+            <div key={label} className="bg-gray-900/60 py-2 text-center text-xs text-gray-400">{label}</div>
+          ))}
+          {days.map((day) => {
+            const key = dayKey(day);
+            const dayEvents = eventsByDay.get(key) || [];
+            const expanded = mode === 'week' || expandedDay === key;
+            const shown = expanded ? dayEvents : dayEvents.slice(0, MONTH_CELL_LIMIT);
+            const outside = mode === 'month' && day.getMonth() !== anchor.getMonth();
+            return (
+              <div key={key} className={cn('bg-gray-900/40 p-1.5 space-y-1', mode === 'month' ? 'min-h-[7rem]' : 'min-h-[20rem]', outside && 'opacity-40')}>
+                <div className={cn('text-xs w-6 h-6 flex items-center justify-center rounded-full',
+                  key === today ? 'bg-brand-500 text-white' : 'text-gray-400')}>
+                  {day.getDate()}
+                </div>
+                {shown.map((event) => (
+                  <button key={event.id} onClick={() => openEvent(event)}
+                    title={[event.title, event.track?.nameAr, event.kind === 'task' && event.status ? TASK_STATUS_LABELS[event.status] : null].filter(Boolean).join(' · ')}
+                    className={cn('w-full flex items-center gap-1.5 rounded-md px-1.5 py-0.5 text-[11px] text-right truncate',
+                      KIND_COLORS[event.kind], event.kind === 'task' ? 'hover:bg-white/10 cursor-pointer' : 'cursor-default',
+                      event.status === 'completed' && 'line-through opacity-60')}>
+                    {event.track && <span className="w-1.5 h-1.5 rounded-full shrink-0" style={{ backgroundColor: event.track.color }} />}
+                    <span className="truncate">{event.title}</span>
+                  </button>
+                ))}
+                {!expanded && dayEvents.length > MONTH_CELL_LIMIT && (
+                  <button onClick={() => setExpandedDay(key)} className="text-[11px] text-brand-300 hover:underline px-1.5">
+                    +{dayEvents.length - MONTH_CELL_LIMIT} أخرى
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {selectedTask && (
+        <TaskDetailPanel
+          key={selectedTask.id}
+          task={selectedTask}
+          onClose={() => setSelectedTask(null)}
+          onOpenTask={setSelectedTask}
+          onUpdate={load}
+        />
+      )}
+    </div>
+  );
+}
@@ -3,11 +3,11 @@
 import { useEffect, useState, useRef, useCallback } from 'react';
 import {
   ListChecks, Clock, CheckCircle, AlertTriangle, BarChart3,
-  TrendingUp, Loader2, RefreshCw, Users, Eye,
+  TrendingUp, Loader2, RefreshCw, Users, Eye, Timer,
 } from 'lucide-react';
 import { tasksApi } from '@/lib/api';
 import { useAuth } from '@/stores/auth';
-import { cn, formatNumber, formatPercent } from '@/lib/utils';
+import { cn, formatMinutes, formatNumber, formatPercent } from '@/lib/utils';
 import { BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 
 interface TrackStat {
@@ -17,6 +17,9 @@ interface TrackStat {
   completed: number;
   completionRate: number;
   avgProgress: number;
+  estimatedMinutes: number;
+  loggedMinutes: number;
+  schedule: { plannedEnd: string | null; forecastEnd: string | null; slipDays: number; criticalTaskCount: number } | null;
 }
 
 interface ExecStats {
@@ -26,6 +29,15 @@ interface ExecStats {
   overdue: number;
   completionRate: number;
   trackStats: TrackStat[];
+  effort: {
+    estimatedMinutes: number;
+    loggedMinutes: number;
+    loggedOnEstimatedMinutes: number;
+    estimatedTasks: number;
+    overEstimateTasks: number;
+    thisWeekMinutes: number;
+    pendingTimesheets: number;
+  };
   recentUpdates: any[];
 }
 
@@ -204,6 +216,9 @@ export default function ExecutiveDashboardPage() {
                     <div className="flex items-center gap-3 text-[10px] text-gray-400">
                       <span>{formatNumber(ts.count)} مهمة</span>
                       <span>{formatNumber(ts.completed)} مكتملة</span>
+                      {ts.schedule && ts.schedule.slipDays > 0 && (
+                        <span className="text-red-400">تأخير متوقع {formatNumber(ts.schedule.slipDays)} يوم</span>
+                      )}
                       <span className={cn('font-medium', ts.completionRate >= 70 ? 'text-emerald-400' : ts.completionRate >= 40 ? 'text-amber-400' : 'text-red-400')}>
                         {formatPercent(ts.completionRate)}
                       </span>
@@ -222,6 +237,48 @@ export default function ExecutiveDashboardPage() {
         </div>
       </div>
 
+      {/* Effort */}
+      {stats.effort && (
+        <div className="glass p-5">
+          <h2 className="text-sm font-semibold mb-4 flex items-center gap-2 text-gray-300">
+            <Timer className="w-4 h-4 text-brand-400" />
+            الجهد المسجل
+          </h2>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+            {[
+              { label: 'إجمالي الساعات المسجلة', value: formatMinutes(stats.effort.loggedMinutes) },
+              { label: 'هذا الأسبوع', value: formatMinutes(stats.effort.thisWeekMinutes) },
+              {
+                label: `المسجل مقابل التقدير (${formatNumber(stats.effort.estimatedTasks)} مهمة)`,
+                value: `${formatMinutes(stats.effort.loggedOnEstimatedMinutes)} / ${formatMinutes(stats.effort.estimatedMinutes)}`,
+              },
+              { label: 'مهام تجاوزت التقدير', value: formatNumber(stats.effort.overEstimateTasks), alert: stats.effort.overEstimateTasks > 0 },
+            ].map((card) => (
+              <div key={card.label} className="bg-white/5 rounded-xl p-3">
+                <p className={cn('text-lg font-bold truncate', card.alert && 'text-red-400')}>{card.value}</p>
+                <p className="text-xs text-gray-400">{card.label}</p>
+              </div>
+            ))}
+          </div>
+          {stats.effort.pendingTimesheets > 0 && (
+            <p className="text-xs text-amber-300 mb-3">{formatNumber(stats.effort.pendingTimesheets)} جدول زمني بانتظار الاعتماد</p>
+          )}
+          <div className="space-y-2">
+            {stats.trackStats.filter((ts) => ts.loggedMinutes > 0 || ts.estimatedMinutes > 0).map((ts) => (
+              <div key={ts.trackId} className="flex items-center justify-between gap-3 text-xs">
+                <span className="flex items-center gap-2 text-gray-300">
+                  <span className="w-2.5 h-2.5 rounded-full shrink-0" style={{ backgroundColor: ts.track?.color || '#6366f1' }} />
+                  {ts.track?.nameAr || 'غير معروف'}
+                </span>
+                <span className={cn(ts.estimatedMinutes > 0 && ts.loggedMinutes > ts.estimatedMinutes ? 'text-red-400' : 'text-gray-400')}>
+                  {formatMinutes(ts.loggedMinutes)} / {ts.estimatedMinutes > 0 ? formatMinutes(ts.estimatedMinutes) : '—'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Priority Distribution + Status Distribution */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         <div className="glass p-5">
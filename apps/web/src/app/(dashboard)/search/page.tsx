@@ -23,6 +23,9 @@ import {
   Sparkles,
   RefreshCw,
   Database,
+  ListTodo,
+  Newspaper,
+  MessageSquare,
 } from 'lucide-react';
 
 // ─── Types ─────────────────────────────────────────
@@ -59,12 +62,27 @@ const ENTITY_TYPE_CONFIG: Record<string, { label: string; icon: typeof FileText;
   kpi:         { label: 'مؤشرات الأداء', icon: Target,        color: 'text-orange-400 bg-orange-500/20' },
   penalty:     { label: 'المخالفات',    icon: AlertTriangle,  color: 'text-red-400 bg-red-500/20' },
   deliverable: { label: 'المخرجات',     icon: BookOpen,       color: 'text-teal-400 bg-teal-500/20' },
+  task:        { label: 'المهام',       icon: ListTodo,       color: 'text-sky-400 bg-sky-500/20' },
+  daily_update: { label: 'التحديثات',   icon: Newspaper,      color: 'text-lime-400 bg-lime-500/20' },
+  comment:     { label: 'التعليقات',    icon: MessageSquare,  color: 'text-gray-300 bg-white/10' },
 };
 
-const SEMANTIC_ENTITY_TYPES = ['scope', 'kpi', 'penalty', 'deliverable', 'employee'];
+const SEMANTIC_ENTITY_TYPES = ['task', 'scope', 'kpi', 'penalty', 'deliverable', 'employee', 'daily_update', 'report', 'comment'];
 
-function getResultRoute(type: string, id: string, trackId?: string): string {
+interface IndexStatus {
+  enabled: boolean;
+  pending: number;
+  failed: number;
+  types: Array<{ entityType: string; entities: number; indexed: number; pending: number; failed: number; coverage: number }>;
+}
+
+function getResultRoute(type: string, id: string, trackId?: string, metadata?: Record<string, any>): string {
   switch (type) {
+    case 'task':         return '/tasks';
+    case 'daily_update': return '/updates';
+    case 'comment':
+      if (metadata?.parentType === 'track') return `/tracks/${metadata.parentId}`;
+      return getResultRoute(metadata?.parentType || '', metadata?.parentId || '', trackId);
     case 'record':      return `/tracks/${trackId}`;
     case 'track':       return `/tracks/${id}`;
     case 'employee':    return '/employees';
@@ -92,7 +110,7 @@ export default function SearchPage() {
   const [tracks, setTracks] = useState<Array<{ id: string; nameAr: string }>>([]);
   const [showFilters, setShowFilters] = useState(false);
   const [indexing, setIndexing] = useState(false);
-  const [indexStats, setIndexStats] = useState<{ total: number; byType: Record<string, number> } | null>(null);
+  const [indexStatus, setIndexStatus] = useState<IndexStatus | null>(null);
   const [searched, setSearched] = useState(false);
 
   const debouncedQuery = useDebounce(query, 400);
@@ -151,18 +169,18 @@ export default function SearchPage() {
     setIndexing(true);
     try {
       await aiApi.indexAll();
-      const { data } = await aiApi.embeddingStats();
-      setIndexStats(data);
+      const { data } = await aiApi.embeddingStatus();
+      setIndexStatus(data);
     } catch {
       // Silently handle
     }
     setIndexing(false);
   }, []);
 
-  // Load embedding stats on mount
+  // Load index status on mount
   useEffect(() => {
-    aiApi.embeddingStats()
-      .then(({ data }) => setIndexStats(data))
+    aiApi.embeddingStatus()
+      .then(({ data }) => setIndexStatus(data))
       .catch(() => {});
   }, []);
 
@@ -433,13 +451,13 @@ export default function SearchPage() {
                     {items.map((result) => (
                       <button
                         key={`${result.entityType}-${result.entityId}`}
-                        onClick={() => router.push(getResultRoute(result.entityType, result.entityId, result.trackId || undefined))}
+                        onClick={() => router.push(getResultRoute(result.entityType, result.entityId, result.trackId || undefined, result.metadata))}
                         className="flex items-center gap-3 w-full px-4 py-3.5 text-right hover:bg-white/5 transition-colors"
                       >
                         <div className="flex-1 min-w-0">
                           <p className="text-sm text-white leading-relaxed">{result.content}</p>
-                          {result.metadata?.name && (
-                            <p className="text-xs text-gray-400 mt-1">{result.metadata.name}</p>
+                          {(result.metadata?.name || result.metadata?.title) && (
+                            <p className="text-xs text-gray-400 mt-1">{result.metadata.name || result.metadata.title}</p>
                           )}
                         </div>
                         {/* Similarity Score */}
@@ -478,26 +496,32 @@ export default function SearchPage() {
             className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-brand-500/20 text-brand-300 text-xs hover:bg-brand-500/30 transition-colors disabled:opacity-50"
           >
             <RefreshCw className={`w-3.5 h-3.5 ${indexing ? 'animate-spin' : ''}`} />
-            {indexing ? 'جاري الفهرسة...' : 'إعادة الفهرسة'}
+            {indexing ? 'جاري الإضافة للطابور...' : 'إعادة الفهرسة'}
           </button>
         </div>
 
-        {indexStats ? (
-          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-6 gap-3">
-            <div className="rounded-xl bg-white/5 border border-white/10 p-3 text-center">
-              <p className="text-lg font-bold text-white">{indexStats.total}</p>
-              <p className="text-[11px] text-gray-400">إجمالي</p>
+        {indexStatus ? (
+          <>
+            {(indexStatus.pending > 0 || indexStatus.failed > 0 || !indexStatus.enabled) && (
+              <p className="text-xs text-gray-400 mb-3">
+                {!indexStatus.enabled && <span className="text-amber-400 ml-3">الذكاء الاصطناعي غير مفعّل</span>}
+                {indexStatus.pending > 0 && <span className="ml-3">{indexStatus.pending} بانتظار الفهرسة</span>}
+                {indexStatus.failed > 0 && <span className="text-red-400">{indexStatus.failed} فشلت فهرستها</span>}
+              </p>
+            )}
+            <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-5 gap-3">
+              {indexStatus.types.map((t) => {
+                const config = ENTITY_TYPE_CONFIG[t.entityType];
+                return (
+                  <div key={t.entityType} className="rounded-xl bg-white/5 border border-white/10 p-3 text-center">
+                    <p className="text-lg font-bold text-white">{t.coverage}%</p>
+                    <p className="text-[11px] text-gray-400">{config?.label || t.entityType}</p>
+                    <p className="text-[10px] text-gray-500 mt-0.5">{t.indexed} / {t.entities}</p>
+                  </div>
+                );
+              })}
             </div>
-            {Object.entries(indexStats.byType || {}).map(([type, count]) => {
-              const config = ENTITY_TYPE_CONFIG[type];
-              return (
-                <div key={type} className="rounded-xl bg-white/5 border border-white/10 p-3 text-center">
-                  <p className="text-lg font-bold text-white">{count as number}</p>
-                  <p className="text-[11px] text-gray-400">{config?.label || type}</p>
-                </div>
-              );
-            })}
-          </div>
+          </>
         ) : (
           <p className="text-xs text-gray-500">لم يتم فهرسة البيانات بعد. اضغط على &ldquo;إعادة الفهرسة&rdquo; للبدء.</p>
         )}
@@ -1,6 +1,7 @@
 'use client';
 
-import { useEffect, useState, useMemo, useCallback } from 'react';
+import { Suspense, useEffect, useState, useMemo, useCallback } from 'react';
+import { useRouter, useSearchParams } from 'next/navigation';
 import {
   Plus,
   Search,
@@ -13,11 +14,18 @@ import {
   User,
   Building2,
   Globe,
+  LayoutGrid,
+  Columns3,
+  Table2,
+  ArrowUp,
+  ArrowDown,
+  SlidersHorizontal,
+  CheckSquare,
 } from 'lucide-react';
 import { Task } from '@/stores/tasks';
 import { useTasks } from '@/stores/tasks';
 import { useAuth } from '@/stores/auth';
-import { tracksApi, usersApi, tasksApi } from '@/lib/api';
+import { tracksApi, usersApi, tasksApi, taskViewsApi } from '@/lib/api';
 import {
   cn,
   formatNumber,
@@ -25,10 +33,15 @@ import {
   PRIORITY_LABELS,
   ASSIGNEE_TYPE_LABELS,
 } from '@/lib/utils';
+import toast from 'react-hot-toast';
 import { useDebounce } from '@/hooks/use-debounce';
 import TaskCard from '@/components/tasks/task-card';
 import TaskModal from '@/components/tasks/task-modal';
 import TaskDetailPanel from '@/components/tasks/task-detail-panel';
+import KanbanBoard from '@/components/tasks/kanban-board';
+import TaskTable, { assigneeLabel, DEFAULT_TASK_COLUMNS, TASK_COLUMN_LABELS } from '@/components/tasks/task-table';
+import BulkActionsBar from '@/components/tasks/bulk-actions-bar';
+import SavedViewsMenu, { SavedTaskView, stateFromQuery, stateOfView, stateToQuery, TaskViewState } from '@/components/tasks/saved-views-menu';
 
 interface Track {
   id: string;
@@ -51,7 +64,66 @@ const TAB_CONFIG: { key: TabKey; label: string; icon: typeof ListChecks; roles?:
   { key: 'all', label: 'الكل', icon: Globe, roles: ['admin', 'pm'] },
 ];
 
+const SORT_LABELS: Record<string, string> = {
+  dueDate: 'تاريخ الاستحقاق',
+  priority: 'الأولوية',
+  status: 'الحالة',
+  progress: 'نسبة الإنجاز',
+  title: 'العنوان',
+  createdAt: 'تاريخ الإنشاء',
+  updatedAt: 'آخر تحديث',
+};
+
+const GROUP_LABELS: Record<string, string> = {
+  status: 'الحالة',
+  priority: 'الأولوية',
+  track: 'المسار',
+  assignee: 'المسؤول',
+};
+
+const DEFAULT_STATE: TaskViewState = {
+  tab: 'my',
+  status: '',
+  priority: '',
+  trackId: '',
+  assigneeType: '',
+  search: '',
+  overdue: false,
+  sortBy: 'dueDate',
+  sortDir: 'asc',
+  groupBy: '',
+  columns: DEFAULT_TASK_COLUMNS,
+  viewType: 'list',
+};
+
+/** The group a task falls in on a grouped list, as [key, label]. */
+const groupOf = (task: Task, groupBy: string): [string, string] => {
+  switch (groupBy) {
+    case 'status':
+      return [task.status, TASK_STATUS_LABELS[task.status] || task.status];
+    case 'priority':
+      return [task.priority, PRIORITY_LABELS[task.priority] || task.priority];
+    case 'track':
+      return [task.track?.id || '', task.track?.nameAr || 'بدون مسار'];
+    default: {
+      const label = assigneeLabel(task);
+      return [label, label];
+    }
+  }
+};
+
+// useSearchParams needs a suspense boundary for the page to prerender
 export default function TasksPage() {
+  return (
+    <Suspense fallback={null}>
+      <TasksPageContent />
+    </Suspense>
+  );
+}
+
+function TasksPageContent() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
   const { user } = useAuth();
   const { stats, statsLoading, fetchStats } = useTasks();
 
@@ -62,13 +134,27 @@ export default function TasksPage() {
 
   // Filters
   const [activeTab, setActiveTab] = useState<TabKey>('my');
+  const [view, setView] = useState<TaskViewState['viewType']>('list');
   const [statusFilter, setStatusFilter] = useState('');
   const [priorityFilter, setPriorityFilter] = useState('');
   const [assigneeTypeFilter, setAssigneeTypeFilter] = useState('');
   const [trackFilter, setTrackFilter] = useState('');
+  const [overdueOnly, setOverdueOnly] = useState(false);
   const [search, setSearch] = useState('');
   const debouncedSearch = useDebounce(search, 300);
 
+  // Presentation
+  const [sortBy, setSortBy] = useState('dueDate');
+  const [sortDir, setSortDir] = useState<'asc' | 'desc'>('asc');
+  const [groupBy, setGroupBy] = useState('');
+  const [columns, setColumns] = useState<string[]>(DEFAULT_TASK_COLUMNS);
+  const [columnsOpen, setColumnsOpen] = useState(false);
+
+  // Saved views; nothing loads until the link, saved or default view is applied
+  const [views, setViews] = useState<SavedTaskView[]>([]);
+  const [activeView, setActiveView] = useState<SavedTaskView | null>(null);
+  const [initialized, setInitialized] = useState(false);
+
   // Lookup data
   const [tracks, setTracks] = useState<Track[]>([]);
   const [users, setUsers] = useState<UserItem[]>([]);
@@ -80,6 +166,10 @@ export default function TasksPage() {
   // Detail panel state
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
 
+  // Multi-select for bulk operations (admin/pm)
+  const [selecting, setSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
   const isAdminOrPm = user?.role === 'admin' || user?.role === 'pm';
 
   // Determine visible tabs based on role
@@ -90,8 +180,71 @@ export default function TasksPage() {
     });
   }, [user?.role]);
 
+  const viewState: TaskViewState = useMemo(() => ({
+    tab: activeTab,
+    status: statusFilter,
+    priority: priorityFilter,
+    assigneeType: assigneeTypeFilter,
+    trackId: trackFilter,
+    search: debouncedSearch,
+    overdue: overdueOnly,
+    sortBy,
+    sortDir,
+    groupBy,
+    columns,
+    viewType: view,
+  }), [activeTab, statusFilter, priorityFilter, assigneeTypeFilter, trackFilter, debouncedSearch, overdueOnly, sortBy, sortDir, groupBy, columns, view]);
+
+  const applyState = (state: TaskViewState) => {
+    setActiveTab(state.tab as TabKey);
+    setStatusFilter(state.status);
+    setPriorityFilter(state.priority);
+    setAssigneeTypeFilter(state.assigneeType);
+    setTrackFilter(state.trackId);
+    setSearch(state.search);
+    setOverdueOnly(state.overdue);
+    setSortBy(state.sortBy);
+    setSortDir(state.sortDir);
+    setGroupBy(state.groupBy);
+    setColumns(state.columns.length > 0 ? state.columns : DEFAULT_TASK_COLUMNS);
+    setView(state.viewType);
+  };
+
+  // Opening state: the link's filters, else the linked view, else the role's default view
+  useEffect(() => {
+    if (!user || initialized) return;
+    const init = async () => {
+      const list: SavedTaskView[] = await taskViewsApi.list().then(({ data }) => data).catch(() => []);
+      setViews(list);
+      const linkedView = list.find((v) => v.id === searchParams.get('view')) || null;
+      const linkedState = stateFromQuery(searchParams, DEFAULT_STATE);
+      if (linkedState) {
+        applyState(linkedState);
+        setActiveView(linkedView);
+      } else if (linkedView) {
+        applyState(stateOfView(linkedView, DEFAULT_STATE.tab));
+        setActiveView(linkedView);
+      } else {
+        const defaultView: SavedTaskView | null = await taskViewsApi.getDefault().then(({ data }) => data || null).catch(() => null);
+        if (defaultView) {
+          applyState(stateOfView(defaultView, DEFAULT_STATE.tab));
+          setActiveView(defaultView);
+        }
+      }
+      setInitialized(true);
+    };
+    init();
+  }, [user, initialized, searchParams]);
+
+  // Keep the address bar on the current view so it can be bookmarked or sent
+  useEffect(() => {
+    if (!initialized) return;
+    router.replace(`/tasks?${stateToQuery(viewState, activeView?.id)}`, { scroll: false });
+  }, [initialized, viewState, activeView?.id, router]);
+
   // Load tasks for current tab with filters
   const loadTasks = useCallback(async () => {
+    if (!initialized) return;
     setLoading(true);
     try {
       const params: any = { tab: activeTab };
@@ -100,6 +253,11 @@ export default function TasksPage() {
       if (assigneeTypeFilter) params.assigneeType = assigneeTypeFilter;
       if (trackFilter) params.trackId = trackFilter;
       if (debouncedSearch) params.search = debouncedSearch;
+      if (overdueOnly) params.overdue = true;
+      if (sortBy !== 'dueDate' || sortDir !== 'asc') {
+        params.sortBy = sortBy;
+        params.sortDir = sortDir;
+      }
 
       const { data } = await tasksApi.list(params);
       setTasks(data.data || []);
@@ -110,7 +268,7 @@ export default function TasksPage() {
     } finally {
       setLoading(false);
     }
-  }, [activeTab, statusFilter, priorityFilter, assigneeTypeFilter, trackFilter, debouncedSearch]);
+  }, [initialized, activeTab, statusFilter, priorityFilter, assigneeTypeFilter, trackFilter, debouncedSearch, overdueOnly, sortBy, sortDir]);
 
   // Load on mount and when filters change
   useEffect(() => {
@@ -146,6 +304,10 @@ export default function TasksPage() {
     setSelectedTask(task);
   };
 
+  const openTask = (taskId: string) => {
+    tasksApi.get(taskId).then(({ data }) => setSelectedTask(data)).catch(() => toast.error('تعذر تحميل المهمة'));
+  };
+
   const handleModalSuccess = () => {
     loadTasks();
     if (isAdminOrPm) fetchStats();
@@ -156,6 +318,60 @@ export default function TasksPage() {
     if (isAdminOrPm) fetchStats();
   };
 
+  const toggleSelected = (task: Task) =>
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(task.id)) next.delete(task.id);
+      else next.add(task.id);
+      return next;
+    });
+
+  const stopSelecting = () => {
+    setSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  const handleBulkDone = (failedIds: string[]) => {
+    setSelectedIds(new Set(failedIds));
+    loadTasks();
+    if (isAdminOrPm) fetchStats();
+  };
+
+  const selectedTasks = tasks.filter((t) => selectedIds.has(t.id));
+
+  const handleSelectView = (selected: SavedTaskView | null) => {
+    setActiveView(selected);
+    applyState(selected ? stateOfView(selected, activeTab) : { ...DEFAULT_STATE, tab: activeTab });
+  };
+
+  const handleViewSaved = (saved: SavedTaskView) => {
+    setViews((prev) => [...prev.filter((v) => v.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name, 'ar')));
+    setActiveView(saved);
+  };
+
+  const handleViewDeleted = (id: string) => {
+    setViews((prev) => prev.filter((v) => v.id !== id));
+    setActiveView(null);
+  };
+
+  // Columns stay in their table order whichever way they were picked
+  const toggleColumn = (column: string) =>
+    setColumns((prev) => Object.keys(TASK_COLUMN_LABELS).filter((c) => (c === column ? !prev.includes(c) : prev.includes(c))));
+
+  // Loaded tasks split by the view's grouping; status and priority groups keep their natural order
+  const taskGroups = useMemo(() => {
+    if (!groupBy) return [{ key: '', label: '', tasks }];
+    const groups = new Map<string, { key: string; label: string; tasks: Task[] }>();
+    for (const task of tasks) {
+      const [key, label] = groupOf(task, groupBy);
+      if (!groups.has(key)) groups.set(key, { key, label, tasks: [] });
+      groups.get(key)!.tasks.push(task);
+    }
+    const order = groupBy === 'status' ? Object.keys(TASK_STATUS_LABELS) : groupBy === 'priority' ? Object.keys(PRIORITY_LABELS).reverse() : null;
+    const list = Array.from(groups.values());
+    return order ? list.sort((a, b) => order.indexOf(a.key) - order.indexOf(b.key)) : list;
+  }, [tasks, groupBy]);
+
   // Stats values
   const safeStats = stats || { total: 0, byStatus: {}, overdue: 0 };
 
@@ -191,22 +407,50 @@ export default function TasksPage() {
   ];
 
   return (
-    <div className="space-y-6">
+    <div className={cn('space-y-6', selecting && selectedTasks.length > 0 && 'pb-24')}>
       {/* Header */}
       <div className="flex items-center justify-between flex-wrap gap-4">
         <div>
           <h1 className="text-2xl font-bold">المهام</h1>
           <p className="text-gray-400 mt-1">إدارة ومتابعة المهام والتكليفات</p>
         </div>
-        {isAdminOrPm && (
-          <button
-            onClick={handleCreate}
-            className="rounded-xl bg-brand-500/20 px-4 py-2.5 text-sm font-medium text-brand-300 hover:bg-brand-500/30 transition-colors flex items-center gap-2"
-          >
-            <Plus className="h-4 w-4" />
-            إضافة مهمة
-          </button>
-        )}
+        <div className="flex items-center gap-3">
+          <div className="flex items-center gap-1 bg-white/5 rounded-xl p-1">
+            {([
+              { key: 'list', label: 'قائمة', icon: LayoutGrid },
+              { key: 'table', label: 'جدول', icon: Table2 },
+              { key: 'board', label: 'لوحة', icon: Columns3 },
+            ] as const).map((v) => (
+              <button key={v.key} onClick={() => setView(v.key)}
+                className={cn('flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors',
+                  view === v.key ? 'bg-brand-500/20 text-brand-300' : 'text-gray-400 hover:bg-white/10')}
+              >
+                <v.icon className="h-3.5 w-3.5" />{v.label}
+              </button>
+            ))}
+          </div>
+          {isAdminOrPm && view !== 'board' && (
+            <button
+              onClick={() => (selecting ? stopSelecting() : setSelecting(true))}
+              className={cn(
+                'rounded-xl px-4 py-2.5 text-sm font-medium transition-colors flex items-center gap-2',
+                selecting ? 'bg-brand-500/20 text-brand-300' : 'bg-white/5 text-gray-300 hover:bg-white/10',
+              )}
+            >
+              <CheckSquare className="h-4 w-4" />
+              {selecting ? 'إنهاء التحديد' : 'تحديد متعدد'}
+            </button>
+          )}
+          {isAdminOrPm && (
+            <button
+              onClick={handleCreate}
+              className="rounded-xl bg-brand-500/20 px-4 py-2.5 text-sm font-medium text-brand-300 hover:bg-brand-500/30 transition-colors flex items-center gap-2"
+            >
+              <Plus className="h-4 w-4" />
+              إضافة مهمة
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Stats Cards (admin/pm only) */}
@@ -232,124 +476,261 @@ export default function TasksPage() {
         </div>
       )}
 
-      {/* Tabs */}
-      <div className="flex items-center gap-2 overflow-x-auto pb-1">
-        {visibleTabs.map((tab) => (
-          <button
-            key={tab.key}
-            onClick={() => setActiveTab(tab.key)}
-            className={cn(
-              'flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium transition-colors whitespace-nowrap',
-              activeTab === tab.key
-                ? 'bg-brand-500/20 text-brand-300'
-                : 'bg-white/5 text-gray-400 hover:bg-white/10',
-            )}
-          >
-            <tab.icon className="h-4 w-4" />
-            {tab.label}
-          </button>
-        ))}
-      </div>
-
-      {/* Filter Bar */}
-      <div className="flex flex-wrap gap-3">
-        {/* Search */}
-        <div className="relative flex-1 min-w-[200px]">
-          <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
-          <input
-            type="text"
-            placeholder="بحث في المهام..."
-            value={search}
-            onChange={(e) => setSearch(e.target.value)}
-            className="input-field pr-10"
-          />
-        </div>
+      {/* Saved views */}
+      <SavedViewsMenu
+        views={views}
+        activeView={activeView}
+        state={viewState}
+        tracks={tracks}
+        onSelect={handleSelectView}
+        onSaved={handleViewSaved}
+        onDeleted={handleViewDeleted}
+      />
 
-        {/* Status filter */}
-        <select
-          value={statusFilter}
-          onChange={(e) => setStatusFilter(e.target.value)}
-          className="input-field w-auto"
-        >
-          <option value="">كل الحالات</option>
-          {Object.entries(TASK_STATUS_LABELS).map(([key, label]) => (
-            <option key={key} value={key}>
-              {label}
-            </option>
-          ))}
-        </select>
-
-        {/* Priority filter */}
-        <select
-          value={priorityFilter}
-          onChange={(e) => setPriorityFilter(e.target.value)}
-          className="input-field w-auto"
-        >
-          <option value="">كل الأولويات</option>
-          {Object.entries(PRIORITY_LABELS).map(([key, label]) => (
-            <option key={key} value={key}>
-              {label}
-            </option>
-          ))}
-        </select>
-
-        {/* Track filter */}
-        <select
-          value={trackFilter}
-          onChange={(e) => setTrackFilter(e.target.value)}
-          className="input-field w-auto"
-        >
-          <option value="">كل المسارات</option>
-          {tracks.map((t) => (
-            <option key={t.id} value={t.id}>
-              {t.nameAr}
-            </option>
+      {/* Tabs */}
+      {view !== 'board' && (
+        <div className="flex items-center gap-2 overflow-x-auto pb-1">
+          {visibleTabs.map((tab) => (
+            <button
+              key={tab.key}
+              onClick={() => setActiveTab(tab.key)}
+              className={cn(
+                'flex items-center gap-2 px-4 py-2.5 rounded-xl text-sm font-medium transition-colors whitespace-nowrap',
+                activeTab === tab.key
+                  ? 'bg-brand-500/20 text-brand-300'
+                  : 'bg-white/5 text-gray-400 hover:bg-white/10',
+              )}
+            >
+              <tab.icon className="h-4 w-4" />
+              {tab.label}
+            </button>
           ))}
-        </select>
+        </div>
+      )}
 
-        {/* Assignee type filter (only on 'all' tab) */}
-        {activeTab === 'all' && (
+      {view === 'board' ? (
+        <div className="space-y-4">
           <select
-            value={assigneeTypeFilter}
-            onChange={(e) => setAssigneeTypeFilter(e.target.value)}
+            value={trackFilter}
+            onChange={(e) => setTrackFilter(e.target.value)}
             className="input-field w-auto"
           >
-            <option value="">كل التعيينات</option>
-            {Object.entries(ASSIGNEE_TYPE_LABELS).map(([key, label]) => (
-              <option key={key} value={key}>
-                {label}
+            <option value="">كل المسارات</option>
+            {tracks.map((t) => (
+              <option key={t.id} value={t.id}>
+                {t.nameAr}
               </option>
             ))}
           </select>
-        )}
-      </div>
-
-      {/* Summary */}
-      <div className="glass p-3">
-        <div className="flex items-center gap-2">
-          <Clock className="w-4 h-4 text-gray-400" />
-          <span className="text-sm text-gray-400">
-            عرض {formatNumber(tasks.length)} من {formatNumber(total)} مهمة
-          </span>
-        </div>
-      </div>
-
-      {/* Task Cards Grid */}
-      {loading ? (
-        <div className="flex items-center justify-center h-64">
-          <div className="w-8 h-8 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
-        </div>
-      ) : tasks.length === 0 ? (
-        <div className="flex flex-col items-center justify-center gap-3 py-20 text-gray-400">
-          <ListChecks className="h-12 w-12" />
-          <p className="text-sm">لا توجد مهام</p>
+          <KanbanBoard key={trackFilter} trackId={trackFilter || undefined} onTaskClick={openTask} />
         </div>
       ) : (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {tasks.map((task) => (
-            <TaskCard key={task.id} task={task} onClick={handleCardClick} onStatusChange={loadTasks} />
-          ))}
-        </div>
+        <>
+          {/* Filter Bar */}
+          <div className="flex flex-wrap gap-3">
+            {/* Search */}
+            <div className="relative flex-1 min-w-[200px]">
+              <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+              <input
+                type="text"
+                placeholder="بحث في المهام..."
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="input-field pr-10"
+              />
+            </div>
+
+            {/* Status filter */}
+            <select
+              value={statusFilter}
+              onChange={(e) => setStatusFilter(e.target.value)}
+              className="input-field w-auto"
+            >
+              <option value="">كل الحالات</option>
+              {Object.entries(TASK_STATUS_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+
+            {/* Priority filter */}
+            <select
+              value={priorityFilter}
+              onChange={(e) => setPriorityFilter(e.target.value)}
+              className="input-field w-auto"
+            >
+              <option value="">كل الأولويات</option>
+              {Object.entries(PRIORITY_LABELS).map(([key, label]) => (
+                <option key={key} value={key}>
+                  {label}
+                </option>
+              ))}
+            </select>
+
+            {/* Track filter */}
+            <select
+              value={trackFilter}
+              onChange={(e) => setTrackFilter(e.target.value)}
+              className="input-field w-auto"
+            >
+              <option value="">كل المسارات</option>
+              {tracks.map((t) => (
+                <option key={t.id} value={t.id}>
+                  {t.nameAr}
+                </option>
+              ))}
+            </select>
+
+            {/* Overdue only */}
+            <button
+              onClick={() => setOverdueOnly(!overdueOnly)}
+              className={cn(
+                'flex items-center gap-1.5 rounded-xl px-3 text-sm font-medium transition-colors',
+                overdueOnly ? 'bg-red-500/20 text-red-300' : 'bg-white/5 text-gray-400 hover:bg-white/10',
+              )}
+            >
+              <AlertTriangle className="h-4 w-4" />
+              المتأخرة فقط
+            </button>
+
+            {/* Assignee type filter (only on 'all' tab) */}
+            {activeTab === 'all' && (
+              <select
+                value={assigneeTypeFilter}
+                onChange={(e) => setAssigneeTypeFilter(e.target.value)}
+                className="input-field w-auto"
+              >
+                <option value="">كل التعيينات</option>
+                {Object.entries(ASSIGNEE_TYPE_LABELS).map(([key, label]) => (
+                  <option key={key} value={key}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+
+          {/* Summary, sort and grouping */}
+          <div className="glass p-3">
+            <div className="flex items-center justify-between gap-3 flex-wrap">
+              <div className="flex items-center gap-2">
+                <Clock className="w-4 h-4 text-gray-400" />
+                <span className="text-sm text-gray-400">
+                  عرض {formatNumber(tasks.length)} من {formatNumber(total)} مهمة
+                </span>
+                {selecting && tasks.length > 0 && (
+                  <button
+                    onClick={() => setSelectedIds(selectedTasks.length === tasks.length ? new Set() : new Set(tasks.map((t) => t.id)))}
+                    className="text-xs text-brand-300 hover:underline mr-2"
+                  >
+                    {selectedTasks.length === tasks.length ? 'إلغاء تحديد الكل' : 'تحديد الكل'}
+                  </button>
+                )}
+              </div>
+              <div className="flex items-center gap-2 text-xs">
+                <span className="text-gray-500">ترتيب</span>
+                <select value={sortBy} onChange={(e) => setSortBy(e.target.value)} className="input-field w-auto py-1.5 text-xs">
+                  {Object.entries(SORT_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                <button
+                  onClick={() => setSortDir(sortDir === 'asc' ? 'desc' : 'asc')}
+                  className="p-1.5 rounded-lg bg-white/5 text-gray-400 hover:bg-white/10 transition-colors"
+                  title={sortDir === 'asc' ? 'تصاعدي' : 'تنازلي'}
+                >
+                  {sortDir === 'asc' ? <ArrowUp className="h-3.5 w-3.5" /> : <ArrowDown className="h-3.5 w-3.5" />}
+                </button>
+                <span className="text-gray-500 mr-2">تجميع</span>
+                <select value={groupBy} onChange={(e) => setGroupBy(e.target.value)} className="input-field w-auto py-1.5 text-xs">
+                  <option value="">بدون</option>
+                  {Object.entries(GROUP_LABELS).map(([key, label]) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                </select>
+                {view === 'table' && (
+                  <div className="relative">
+                    <button
+                      onClick={() => setColumnsOpen(!columnsOpen)}
+                      className="flex items-center gap-1.5 rounded-lg bg-white/5 px-2.5 py-1.5 text-gray-400 hover:bg-white/10 transition-colors"
+                    >
+                      <SlidersHorizontal className="h-3.5 w-3.5" />
+                      الأعمدة
+                    </button>
+                    {columnsOpen && (
+                      <div className="absolute left-0 top-full mt-1 z-20 w-44 rounded-xl border border-white/10 bg-gray-900 p-2 space-y-1 shadow-xl">
+                        {Object.entries(TASK_COLUMN_LABELS).map(([key, label]) => (
+                          <label key={key} className="flex items-center gap-2 rounded-lg px-2 py-1 text-gray-300 hover:bg-white/5 cursor-pointer">
+                            <input type="checkbox" checked={columns.includes(key)} disabled={key === 'title'} onChange={() => toggleColumn(key)} />
+                            {label}
+                          </label>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          {/* Tasks */}
+          {loading || !initialized ? (
+            <div className="flex items-center justify-center h-64">
+              <div className="w-8 h-8 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
+            </div>
+          ) : tasks.length === 0 ? (
+            <div className="flex flex-col items-center justify-center gap-3 py-20 text-gray-400">
+              <ListChecks className="h-12 w-12" />
+              <p className="text-sm">لا توجد مهام</p>
+            </div>
+          ) : (
+            <div className="space-y-5">
+              {taskGroups.map((group) => (
+                <div key={group.key} className="space-y-3">
+                  {groupBy && (
+                    <h3 className="text-sm font-semibold text-gray-300">
+                      {group.label} <span className="text-gray-500 font-normal">({formatNumber(group.tasks.length)})</span>
+                    </h3>
+                  )}
+                  {view === 'table' ? (
+                    <TaskTable
+                      tasks={group.tasks}
+                      columns={columns}
+                      onTaskClick={handleCardClick}
+                      selectedIds={selectedIds}
+                      onSelect={selecting ? toggleSelected : undefined}
+                    />
+                  ) : (
+                    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                      {group.tasks.map((task) => (
+                        <TaskCard
+                          key={task.id}
+                          task={task}
+                          onClick={handleCardClick}
+                          onStatusChange={loadTasks}
+                          selected={selectedIds.has(task.id)}
+                          onSelect={selecting ? toggleSelected : undefined}
+                        />
+                      ))}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+
+      {/* Bulk actions on the selected tasks */}
+      {selecting && view !== 'board' && selectedTasks.length > 0 && (
+        <BulkActionsBar
+          tasks={selectedTasks}
+          tracks={tracks}
+          users={users}
+          onClear={() => setSelectedIds(new Set())}
+          onDone={handleBulkDone}
+        />
       )}
 
       {/* Task Modal */}
@@ -365,8 +746,10 @@ export default function TasksPage() {
       {/* Task Detail Panel */}
       {selectedTask && (
         <TaskDetailPanel
+          key={selectedTask.id}
           task={selectedTask}
           onClose={() => setSelectedTask(null)}
+          onOpenTask={setSelectedTask}
           onUpdate={handleDetailUpdate}
         />
       )}
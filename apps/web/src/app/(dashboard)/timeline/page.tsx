@@ -0,0 +1,98 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { tasksApi, tracksApi } from '@/lib/api';
+import { useAuth } from '@/stores/auth';
+import { Task } from '@/stores/tasks';
+import GanttChart, { TimelineData } from '@/components/tasks/gantt-chart';
+import TaskDetailPanel from '@/components/tasks/task-detail-panel';
+
+export default function TimelinePage() {
+  const { user } = useAuth();
+  const [timeline, setTimeline] = useState<TimelineData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [tracks, setTracks] = useState<{ id: string; nameAr: string }[]>([]);
+  const [trackFilter, setTrackFilter] = useState('');
+  const [groupBy, setGroupBy] = useState<'track' | 'scopeBlock'>('track');
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+
+  const isAdminOrPm = user?.role === 'admin' || user?.role === 'pm';
+
+  const loadTimeline = useCallback(async () => {
+    try {
+      const { data } = await tasksApi.timeline(trackFilter ? { trackId: trackFilter } : undefined);
+      setTimeline(data);
+    } catch {
+      toast.error('فشل تحميل المخطط الزمني');
+    } finally {
+      setLoading(false);
+    }
+  }, [trackFilter]);
+
+  useEffect(() => {
+    loadTimeline();
+  }, [loadTimeline]);
+
+  useEffect(() => {
+    tracksApi.list().then(({ data }) => setTracks(data?.data || data || [])).catch(() => {});
+  }, []);
+
+  const handleReschedule = async (taskId: string, dates: { startDate: string; dueDate: string }) => {
+    try {
+      await tasksApi.update(taskId, dates);
+      toast.success('تم تحديث مواعيد المهمة');
+      loadTimeline();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل تحديث المواعيد');
+    }
+  };
+
+  const openTask = (taskId: string) => {
+    tasksApi.get(taskId).then(({ data }) => setSelectedTask(data)).catch(() => toast.error('تعذر تحميل المهمة'));
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">الجدول الزمني للبرنامج</h1>
+          <p className="text-gray-400 mt-1">مواعيد المهام عبر المسارات والتبعيات بينها حتى موسم الحج</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <select value={trackFilter} onChange={(e) => { setTrackFilter(e.target.value); setGroupBy(e.target.value ? 'scopeBlock' : 'track'); }}
+            className="input-field w-auto">
+            <option value="">كل المسارات</option>
+            {tracks.map((t) => <option key={t.id} value={t.id}>{t.nameAr}</option>)}
+          </select>
+          <select value={groupBy} onChange={(e) => setGroupBy(e.target.value as 'track' | 'scopeBlock')} className="input-field w-auto">
+            <option value="track">تجميع حسب المسار</option>
+            <option value="scopeBlock">تجميع حسب بند النطاق</option>
+          </select>
+        </div>
+      </div>
+
+      <div className="glass p-4">
+        {loading || !timeline ? (
+          <div className="flex items-center justify-center h-40">
+            <div className="w-8 h-8 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : (
+          <GanttChart data={timeline} groupBy={groupBy} canEdit={isAdminOrPm}
+            onReschedule={handleReschedule} onTaskClick={openTask} />
+        )}
+      </div>
+
+      {selectedTask && (
+        <TaskDetailPanel
+          key={selectedTask.id}
+          task={selectedTask}
+          onClose={() => setSelectedTask(null)}
+          onOpenTask={setSelectedTask}
+          onUpdate={loadTimeline}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,400 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { CheckCircle2, ChevronLeft, ChevronRight, Download, Loader2, Plus, Send, Timer, Trash2, XCircle } from 'lucide-react';
+import { timeEntriesApi, timesheetsApi, tasksApi } from '@/lib/api';
+import { useAuth } from '@/stores/auth';
+import { Task } from '@/stores/tasks';
+import { cn, formatDate, formatDateTime, formatMinutes, TIMESHEET_STATUS_LABELS, TIMESHEET_STATUS_COLORS } from '@/lib/utils';
+import { ElapsedTime, TimeEntry, todayInRiyadh } from '@/components/tasks/time-tracker';
+
+interface TimesheetRecord {
+  id: string;
+  userId: string;
+  weekStart: string;
+  status: string;
+  totalMinutes: number;
+  submittedAt: string;
+  reviewedAt: string | null;
+  reviewComment: string | null;
+  user: { id: string; name: string; nameAr: string; email?: string };
+  reviewedBy: { id: string; name: string; nameAr: string } | null;
+}
+
+interface TimesheetWeek {
+  weekStart: string;
+  status: string;
+  timesheet: TimesheetRecord | null;
+  totalMinutes: number;
+  days: number[];
+  rows: Array<{ task: TimeEntry['task']; days: number[]; total: number }>;
+  entries: TimeEntry[];
+  user?: TimesheetRecord['user'];
+}
+
+const DAY_NAMES = ['الأحد', 'الاثنين', 'الثلاثاء', 'الأربعاء', 'الخميس', 'الجمعة', 'السبت'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** YYYY-MM-DD of a week's day in Riyadh time. */
+const weekDay = (weekStart: string, offset: number) =>
+  new Date(new Date(weekStart).getTime() + offset * DAY_MS + 3 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const errorMessage = (err: any, fallback: string) => {
+  const message = err?.response?.data?.message;
+  return Array.isArray(message) ? message[0] : message || fallback;
+};
+
+function WeekGrid({ week }: { week: TimesheetWeek }) {
+  if (week.rows.length === 0) {
+    return <p className="text-center text-sm text-gray-500 py-8">لا يوجد وقت مسجل في هذا الأسبوع</p>;
+  }
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-400 border-b border-white/10">
+            <th className="text-right font-medium py-2 px-2">المهمة</th>
+            {DAY_NAMES.map((name, i) => (
+              <th key={name} className="font-medium py-2 px-2 text-center whitespace-nowrap">
+                {name}
+                <span className="block text-[10px] text-gray-500">{formatDate(weekDay(week.weekStart, i))}</span>
+              </th>
+            ))}
+            <th className="font-medium py-2 px-2 text-center">المجموع</th>
+          </tr>
+        </thead>
+        <tbody>
+          {week.rows.map((row) => (
+            <tr key={row.task.id} className="border-b border-white/5">
+              <td className="py-2 px-2">
+                <span className="text-white">{row.task.titleAr || row.task.title}</span>
+                {row.task.track && (
+                  <span className="flex items-center gap-1 text-[11px] text-gray-500">
+                    <span className="w-2 h-2 rounded-full" style={{ backgroundColor: row.task.track.color }} />
+                    {row.task.track.nameAr}
+                  </span>
+                )}
+              </td>
+              {row.days.map((m, i) => (
+                <td key={i} className={cn('py-2 px-2 text-center', m ? 'text-gray-200' : 'text-gray-600')}>{m ? formatMinutes(m) : '—'}</td>
+              ))}
+              <td className="py-2 px-2 text-center font-medium text-white">{formatMinutes(row.total)}</td>
+            </tr>
+          ))}
+          <tr className="text-xs font-medium">
+            <td className="py-2 px-2 text-gray-400">المجموع</td>
+            {week.days.map((m, i) => <td key={i} className="py-2 px-2 text-center text-gray-300">{m ? formatMinutes(m) : '—'}</td>)}
+            <td className="py-2 px-2 text-center text-brand-300">{formatMinutes(week.totalMinutes)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default function TimesheetsPage() {
+  const { user } = useAuth();
+  const canReview = user?.role === 'admin' || user?.role === 'pm' || user?.role === 'track_lead';
+
+  const [weekDate, setWeekDate] = useState(todayInRiyadh());
+  const [week, setWeek] = useState<TimesheetWeek | null>(null);
+  const [running, setRunning] = useState<TimeEntry | null>(null);
+  const [history, setHistory] = useState<TimesheetRecord[]>([]);
+  const [queue, setQueue] = useState<TimesheetRecord[]>([]);
+  const [myTasks, setMyTasks] = useState<Task[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  // Manual entry form
+  const [taskId, setTaskId] = useState('');
+  const [date, setDate] = useState(todayInRiyadh());
+  const [hours, setHours] = useState('');
+  const [note, setNote] = useState('');
+
+  // Review
+  const [openReview, setOpenReview] = useState<TimesheetWeek | null>(null);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+
+  const loadWeek = useCallback(() =>
+    Promise.all([timesheetsApi.myWeek(weekDate), timeEntriesApi.running()])
+      .then(([sheet, timer]) => { setWeek(sheet.data); setRunning(timer.data || null); })
+      .catch(() => toast.error('فشل تحميل الجدول الزمني')), [weekDate]);
+
+  const loadLists = useCallback(() => {
+    timesheetsApi.history().then(({ data }) => setHistory(data || [])).catch(() => setHistory([]));
+    if (canReview) timesheetsApi.reviewQueue().then(({ data }) => setQueue(data || [])).catch(() => setQueue([]));
+  }, [canReview]);
+
+  useEffect(() => {
+    loadWeek();
+  }, [loadWeek]);
+
+  useEffect(() => {
+    loadLists();
+    tasksApi.myTasks({ pageSize: 200 }).then(({ data }) => setMyTasks(data?.data || [])).catch(() => setMyTasks([]));
+  }, [loadLists]);
+
+  const shiftWeek = (weeks: number) => {
+    const base = week ? weekDay(week.weekStart, 0) : weekDate;
+    setWeekDate(new Date(new Date(base).getTime() + weeks * 7 * DAY_MS).toISOString().slice(0, 10));
+  };
+
+  const run = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await loadWeek();
+      loadLists();
+    } catch (err: any) {
+      toast.error(errorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLog = () => {
+    const minutes = Math.round((Number(hours) || 0) * 60);
+    if (!taskId || minutes <= 0) return;
+    run(async () => {
+      await timeEntriesApi.log({ taskId, date, minutes, note: note.trim() || undefined });
+      setHours('');
+      setNote('');
+    }, 'تم تسجيل الوقت', 'فشل تسجيل الوقت');
+  };
+
+  const handleSubmit = () => {
+    if (!week) return;
+    run(() => timesheetsApi.submit(weekDay(week.weekStart, 0)), 'تم تقديم الجدول الزمني للاعتماد', 'فشل تقديم الجدول الزمني');
+  };
+
+  const handleExport = async () => {
+    try {
+      const weekParam = week ? weekDay(week.weekStart, 0) : weekDate;
+      const { data } = await timesheetsApi.exportExcel({ week: weekParam });
+      const blob = new Blob([data], {
+        type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+      });
+      const url = window.URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `timesheet-${weekParam}.xlsx`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      window.URL.revokeObjectURL(url);
+      toast.success('تم تحميل الملف');
+    } catch {
+      toast.error('فشل تحميل الملف');
+    }
+  };
+
+  const handleOpenReview = (id: string) => {
+    setReviewComment('');
+    timesheetsApi.get(id).then(({ data }) => setOpenReview(data))
+      .catch(() => toast.error('فشل تحميل الجدول الزمني'));
+  };
+
+  const handleReview = async (decision: 'approve' | 'reject') => {
+    const id = openReview?.timesheet?.id;
+    if (!id) return;
+    if (decision === 'reject' && !reviewComment.trim()) {
+      toast.error('يجب ذكر سبب الرفض');
+      return;
+    }
+    setReviewingId(id);
+    try {
+      await timesheetsApi.review(id, decision, reviewComment.trim() || undefined);
+      toast.success(decision === 'approve' ? 'تم اعتماد الجدول الزمني' : 'تم رفض الجدول الزمني');
+      setOpenReview(null);
+      loadLists();
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'فشل حفظ قرار المراجعة'));
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  const isLocked = week?.status === 'submitted' || week?.status === 'approved';
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">سجل الساعات</h1>
+          <p className="text-gray-400 mt-1">الوقت المسجل على المهام والجداول الزمنية الأسبوعية</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <button onClick={() => shiftWeek(-1)} className="btn-secondary p-2" title="الأسبوع السابق"><ChevronRight className="w-4 h-4" /></button>
+          <span className="text-sm text-gray-300 min-w-[9rem] text-center">
+            {week ? `أسبوع ${formatDate(weekDay(week.weekStart, 0))}` : '...'}
+          </span>
+          <button onClick={() => shiftWeek(1)} className="btn-secondary p-2" title="الأسبوع التالي"><ChevronLeft className="w-4 h-4" /></button>
+          <button onClick={() => setWeekDate(todayInRiyadh())} className="btn-secondary text-sm">هذا الأسبوع</button>
+          <button onClick={handleExport} className="btn-secondary text-sm flex items-center gap-1.5">
+            <Download className="w-4 h-4" />تصدير Excel
+          </button>
+        </div>
+      </div>
+
+      {/* Running timer */}
+      {running && (
+        <div className="glass rounded-2xl border border-brand-500/30 p-4 flex items-center justify-between gap-3">
+          <span className="flex items-center gap-2 text-sm text-gray-300">
+            <Timer className="w-4 h-4 text-brand-400" />
+            المؤقت يعمل على «{running.task.titleAr || running.task.title}»
+            <ElapsedTime startedAt={running.startedAt} className="text-brand-300" />
+          </span>
+          <button onClick={() => run(() => timeEntriesApi.stop(), 'تم إيقاف المؤقت وتسجيل الوقت', 'فشل إيقاف المؤقت')} disabled={busy}
+            className="rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-300 hover:bg-red-500/30 transition-colors disabled:opacity-50">
+            إيقاف
+          </button>
+        </div>
+      )}
+
+      {/* My week */}
+      <div className="glass rounded-2xl border border-white/10 p-6 space-y-4">
+        <div className="flex items-center justify-between flex-wrap gap-3">
+          <div className="flex items-center gap-3">
+            <h2 className="text-lg font-semibold">جدولي الزمني</h2>
+            {week && (
+              <span className={cn('text-xs px-2.5 py-0.5 rounded-full', TIMESHEET_STATUS_COLORS[week.status])}>
+                {TIMESHEET_STATUS_LABELS[week.status] || week.status}
+              </span>
+            )}
+          </div>
+          {week && !isLocked && (
+            <button onClick={handleSubmit} disabled={busy || week.totalMinutes === 0} className="btn-primary text-sm flex items-center gap-1.5 disabled:opacity-50">
+              <Send className="w-4 h-4" />تقديم للاعتماد
+            </button>
+          )}
+        </div>
+
+        {week?.timesheet?.status === 'rejected' && week.timesheet.reviewComment && (
+          <div className="rounded-xl bg-red-500/10 border border-red-500/20 p-3 text-sm text-red-300">
+            رفضه {week.timesheet.reviewedBy?.nameAr || week.timesheet.reviewedBy?.name}: {week.timesheet.reviewComment}
+          </div>
+        )}
+        {week?.timesheet?.status === 'approved' && (
+          <p className="text-xs text-emerald-300">
+            اعتمده {week.timesheet.reviewedBy?.nameAr || week.timesheet.reviewedBy?.name}
+            {week.timesheet.reviewedAt && ` في ${formatDateTime(week.timesheet.reviewedAt)}`}
+          </p>
+        )}
+
+        {!week ? (
+          <div className="flex items-center justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-gray-500" /></div>
+        ) : (
+          <WeekGrid week={week} />
+        )}
+
+        {/* Manual entry */}
+        {week && !isLocked && (
+          <div className="bg-white/5 rounded-xl p-3 flex flex-wrap gap-2">
+            <select value={taskId} onChange={(e) => setTaskId(e.target.value)} className="input-field flex-1 min-w-[12rem] text-sm">
+              <option value="">اختر المهمة...</option>
+              {myTasks.map((t) => <option key={t.id} value={t.id}>{t.titleAr || t.title}</option>)}
+            </select>
+            <input type="date" value={date} max={todayInRiyadh()} onChange={(e) => setDate(e.target.value)} className="input-field w-40 text-sm" />
+            <input type="number" min={0} max={24} step={0.25} value={hours} onChange={(e) => setHours(e.target.value)} placeholder="ساعات" className="input-field w-24 text-sm" />
+            <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="ملاحظة (اختياري)..." className="input-field flex-1 min-w-[10rem] text-sm" />
+            <button onClick={handleLog} disabled={busy || !taskId || !Number(hours)}
+              className="rounded-xl bg-brand-500/20 px-3 py-2 text-brand-300 hover:bg-brand-500/30 disabled:opacity-50 transition-colors">
+              <Plus className="h-4 w-4" />
+            </button>
+          </div>
+        )}
+
+        {/* Entries */}
+        {week && week.entries.length > 0 && (
+          <div className="space-y-1.5">
+            {week.entries.map((entry) => (
+              <div key={entry.id} className="bg-white/5 rounded-xl px-3 py-2 flex items-center justify-between gap-2 text-sm">
+                <div className="min-w-0 flex items-center gap-2">
+                  <span className="text-white shrink-0">
+                    {entry.minutes !== null ? formatMinutes(entry.minutes) : <ElapsedTime startedAt={entry.startedAt} className="text-brand-300" />}
+                  </span>
+                  <span className="text-gray-300 truncate">{entry.task.titleAr || entry.task.title}</span>
+                  <span className="text-[11px] text-gray-500 shrink-0">{formatDate(entry.startedAt)}{entry.isManual ? ' · يدوي' : ''}</span>
+                  {entry.note && <span className="text-xs text-gray-500 truncate">— {entry.note}</span>}
+                </div>
+                {!isLocked && entry.endedAt && (
+                  <button onClick={() => run(() => timeEntriesApi.delete(entry.id), 'تم حذف القيد', 'فشل حذف القيد')} disabled={busy}
+                    className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50" title="حذف">
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Review queue */}
+      {canReview && (
+        <div className="glass rounded-2xl border border-white/10 p-6 space-y-3">
+          <h2 className="text-lg font-semibold">بانتظار اعتمادي</h2>
+          {queue.length === 0 ? (
+            <p className="text-center text-sm text-gray-500 py-6">لا توجد جداول زمنية بانتظار الاعتماد</p>
+          ) : (
+            queue.map((sheet) => (
+              <button key={sheet.id} onClick={() => handleOpenReview(sheet.id)}
+                className="w-full bg-white/5 rounded-xl p-3 flex items-center justify-between gap-3 text-right hover:bg-white/10 transition-colors">
+                <span className="text-sm text-white">{sheet.user.nameAr || sheet.user.name}</span>
+                <span className="text-xs text-gray-400">أسبوع {formatDate(weekDay(sheet.weekStart, 0))}</span>
+                <span className="text-sm text-brand-300">{formatMinutes(sheet.totalMinutes)}</span>
+              </button>
+            ))
+          )}
+        </div>
+      )}
+
+      {/* History */}
+      {history.length > 0 && (
+        <div className="glass rounded-2xl border border-white/10 p-6 space-y-2">
+          <h2 className="text-lg font-semibold mb-2">جداولي السابقة</h2>
+          {history.map((sheet) => (
+            <button key={sheet.id} onClick={() => setWeekDate(weekDay(sheet.weekStart, 0))}
+              className="w-full bg-white/5 rounded-xl px-3 py-2 flex items-center justify-between gap-3 text-sm text-right hover:bg-white/10 transition-colors">
+              <span className="text-gray-300">أسبوع {formatDate(weekDay(sheet.weekStart, 0))}</span>
+              <span className="text-gray-400">{formatMinutes(sheet.totalMinutes)}</span>
+              <span className={cn('text-xs px-2.5 py-0.5 rounded-full', TIMESHEET_STATUS_COLORS[sheet.status])}>
+                {TIMESHEET_STATUS_LABELS[sheet.status] || sheet.status}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Review modal */}
+      {openReview && (
+        <div className="fixed inset-0 z-[60] flex items-center justify-center p-4">
+          <div className="absolute inset-0 bg-black/50" onClick={() => setOpenReview(null)} />
+          <div className="relative glass border border-white/10 rounded-2xl p-6 w-full max-w-4xl max-h-[90vh] overflow-auto space-y-4">
+            <div className="flex items-center justify-between">
+              <h3 className="text-lg font-semibold">
+                {openReview.user?.nameAr || openReview.user?.name} — أسبوع {formatDate(weekDay(openReview.weekStart, 0))}
+              </h3>
+              <button onClick={() => setOpenReview(null)} className="text-gray-400 hover:text-white"><XCircle className="w-5 h-5" /></button>
+            </div>
+            <WeekGrid week={openReview} />
+            <textarea value={reviewComment} onChange={(e) => setReviewComment(e.target.value)} rows={2}
+              placeholder="ملاحظات المراجعة (مطلوبة عند الرفض)..." className="input-field resize-none text-sm" />
+            <div className="flex items-center gap-2">
+              <button onClick={() => handleReview('approve')} disabled={!!reviewingId}
+                className="flex-1 flex items-center justify-center gap-1.5 rounded-lg bg-emerald-500/20 px-3 py-2 text-sm font-medium text-emerald-300 hover:bg-emerald-500/30 transition-colors disabled:opacity-50">
+                <CheckCircle2 className="w-4 h-4" />اعتماد
+              </button>
+              <button onClick={() => handleReview('reject')} disabled={!!reviewingId}
+                className="flex-1 flex items-center justify-center gap-1.5 rounded-lg bg-red-500/20 px-3 py-2 text-sm font-medium text-red-300 hover:bg-red-500/30 transition-colors disabled:opacity-50">
+                <XCircle className="w-4 h-4" />رفض
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
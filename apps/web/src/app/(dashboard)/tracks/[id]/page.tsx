@@ -2,7 +2,7 @@
 
 import { useEffect, useState, useCallback } from 'react';
 import { useParams } from 'next/navigation';
-import { tracksApi, employeesApi, deliverablesApi, scopesApi, penaltiesApi, trackKpisApi, dailyUpdatesApi, filesApi, tasksApi, usersApi, commentsApi } from '@/lib/api';
+import { tracksApi, employeesApi, deliverablesApi, scopesApi, penaltiesApi, trackKpisApi, dailyUpdatesApi, filesApi, tasksApi, usersApi, commentsApi, downloadAttachment } from '@/lib/api';
 import { useAuth } from '@/stores/auth';
 import { getSocket, joinTrack, leaveTrack } from '@/lib/socket';
 import { CONTRACT_TYPE_LABELS, formatDate, formatNumber, TASK_STATUS_LABELS, TASK_STATUS_COLORS, cn } from '@/lib/utils';
@@ -10,7 +10,7 @@ import {
   Plus, Search, Trash2, X, Edit3,
   Users, Package, Target, AlertTriangle, ClipboardList, ChevronDown,
   BarChart3, FileText, TrendingUp, Upload, Paperclip, Clock, CheckCircle2, AlertCircle, XCircle, Send,
-  Download, MessageCircle,
+  Download, MessageCircle, GitBranch, LayoutGrid, GanttChart as GanttIcon, Columns3, Workflow, BellRing, Copy,
 } from 'lucide-react';
 import ScopeBlocksPanel from '@/components/scope-blocks-panel';
 import InlineEdit from '@/components/inline-edit';
@@ -19,8 +19,14 @@ import { ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, Cell } from
 import TaskCard from '@/components/tasks/task-card';
 import TaskModal from '@/components/tasks/task-modal';
 import TaskDetailPanel from '@/components/tasks/task-detail-panel';
+import GanttChart, { TimelineData } from '@/components/tasks/gantt-chart';
+import KanbanBoard from '@/components/tasks/kanban-board';
+import WorkflowEditor from '@/components/tasks/workflow-editor';
+import DeadlinePolicyEditor from '@/components/tasks/deadline-policy-editor';
+import TaskTemplatesModal from '@/components/tasks/task-templates-modal';
 import { Task } from '@/stores/tasks';
 import CommentThread from '@/components/comments/comment-thread';
+import PresenceAvatars from '@/components/presence-avatars';
 
 interface Track {
   id: string;
@@ -63,13 +69,17 @@ export default function TrackDetailPage() {
   const [taskStatusFilter, setTaskStatusFilter] = useState('');
   const [taskSearch, setTaskSearch] = useState('');
   const [taskModalOpen, setTaskModalOpen] = useState(false);
+  const [templatesOpen, setTemplatesOpen] = useState(false);
   const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+  const [taskView, setTaskView] = useState<'cards' | 'board' | 'gantt'>('cards');
+  const [timeline, setTimeline] = useState<TimelineData | null>(null);
   const [allUsers, setAllUsers] = useState<{ id: string; name: string; nameAr: string }[]>([]);
   const [allTracks, setAllTracks] = useState<{ id: string; nameAr: string; color?: string }[]>([]);
 
   // Track progress state
   const [trackProgress, setTrackProgress] = useState<any>(null);
   const [trackProgressLoading, setTrackProgressLoading] = useState(false);
+  const [criticalPath, setCriticalPath] = useState<any>(null);
 
   // Track attachments state
   const [trackFiles, setTrackFiles] = useState<any[]>([]);
@@ -82,6 +92,7 @@ export default function TrackDetailPage() {
   const canCreate = hasPermission(id, 'create');
   const canDelete = hasPermission(id, 'delete');
   const isAdmin = user?.role === 'admin' || user?.role === 'pm';
+  const canUseTemplates = isAdmin || (user?.role === 'track_lead' && canCreate);
   const loadTrack = useCallback(async () => {
     try {
       const res = await tracksApi.get(id);
@@ -145,9 +156,33 @@ export default function TrackDetailPage() {
       // Load track progress
       setTrackProgressLoading(true);
       tasksApi.trackProgress(id).then(({ data }) => setTrackProgress(data)).catch(() => {}).finally(() => setTrackProgressLoading(false));
+      tasksApi.criticalPath(id).then(({ data }) => setCriticalPath(data)).catch(() => {});
     }
   }, [activeTab, loadTrackTasks]);
 
+  const loadTimeline = useCallback(() => {
+    tasksApi.timeline({ trackId: id }).then(({ data }) => setTimeline(data)).catch(() => setTimeline(null));
+  }, [id]);
+
+  useEffect(() => {
+    if (activeTab === 'tasks' && taskView === 'gantt') loadTimeline();
+  }, [activeTab, taskView, loadTimeline]);
+
+  const handleReschedule = async (taskId: string, dates: { startDate: string; dueDate: string }) => {
+    try {
+      await tasksApi.update(taskId, dates);
+      toast.success('تم تحديث مواعيد المهمة');
+      loadTimeline();
+      loadTrackTasks();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل تحديث المواعيد');
+    }
+  };
+
+  const openTask = (taskId: string) => {
+    tasksApi.get(taskId).then(({ data }) => setSelectedTask(data)).catch(() => toast.error('تعذر تحميل المهمة'));
+  };
+
   // Load users + tracks for task modal
   useEffect(() => {
     if (activeTab === 'tasks' && allUsers.length === 0) {
@@ -204,13 +239,7 @@ export default function TrackDetailPage() {
 
   const handleDownloadFile = async (fileRecord: any) => {
     try {
-      const { data } = await filesApi.download(fileRecord.id);
-      const url = window.URL.createObjectURL(data);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = fileRecord.fileName;
-      a.click();
-      window.URL.revokeObjectURL(url);
+      await downloadAttachment(fileRecord.id, fileRecord.fileName);
     } catch {
       toast.error('فشل تحميل الملف');
     }
@@ -357,6 +386,7 @@ export default function TrackDetailPage() {
             <p className="text-gray-400 text-sm">{track?.name}</p>
           </div>
         </div>
+        <PresenceAvatars entityType="track" entityId={id} />
       </div>
 
       {/* Tabs */}
@@ -384,18 +414,45 @@ export default function TrackDetailPage() {
         <div className="space-y-4">
           {/* Header + Add button */}
           <div className="flex items-center justify-between">
-            <p className="text-sm text-gray-400">
-              {trackTasksTotal > 0 ? `${trackTasksTotal} مهمة` : 'لا توجد مهام'}
-            </p>
-            {isAdmin && (
-              <button
-                onClick={() => setTaskModalOpen(true)}
-                className="rounded-xl bg-brand-500/20 px-4 py-2.5 text-sm font-medium text-brand-300 hover:bg-brand-500/30 transition-colors flex items-center gap-2"
-              >
-                <Plus className="h-4 w-4" />
-                إضافة مهمة
-              </button>
-            )}
+            <div className="flex items-center gap-3">
+              <p className="text-sm text-gray-400">
+                {trackTasksTotal > 0 ? `${trackTasksTotal} مهمة` : 'لا توجد مهام'}
+              </p>
+              <div className="flex items-center gap-1 bg-white/5 rounded-xl p-1">
+                {([
+                  { key: 'cards', label: 'بطاقات', icon: LayoutGrid },
+                  { key: 'board', label: 'لوحة', icon: Columns3 },
+                  { key: 'gantt', label: 'مخطط زمني', icon: GanttIcon },
+                ] as const).map((v) => (
+                  <button key={v.key} onClick={() => setTaskView(v.key)}
+                    className={cn('flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-xs font-medium transition-colors',
+                      taskView === v.key ? 'bg-brand-500/20 text-brand-300' : 'text-gray-400 hover:bg-white/10')}
+                  >
+                    <v.icon className="h-3.5 w-3.5" />{v.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              {canUseTemplates && (
+                <button
+                  onClick={() => setTemplatesOpen(true)}
+                  className="rounded-xl bg-white/5 px-4 py-2.5 text-sm font-medium text-gray-300 hover:bg-white/10 transition-colors flex items-center gap-2"
+                >
+                  <Copy className="h-4 w-4" />
+                  من قالب
+                </button>
+              )}
+              {isAdmin && (
+                <button
+                  onClick={() => setTaskModalOpen(true)}
+                  className="rounded-xl bg-brand-500/20 px-4 py-2.5 text-sm font-medium text-brand-300 hover:bg-brand-500/30 transition-colors flex items-center gap-2"
+                >
+                  <Plus className="h-4 w-4" />
+                  إضافة مهمة
+                </button>
+              )}
+            </div>
           </div>
 
           {/* Track Progress Dashboard */}
@@ -462,6 +519,41 @@ export default function TrackDetailPage() {
                   )}
                 </div>
               </div>
+
+              {/* Critical Path */}
+              {criticalPath?.forecastEnd && (
+                <div className="bg-white/5 rounded-xl p-3">
+                  <div className="flex items-center justify-between mb-2 flex-wrap gap-2">
+                    <span className="text-sm text-gray-400 flex items-center gap-2"><GitBranch className="w-4 h-4" />المسار الحرج</span>
+                    <div className="flex items-center gap-3 text-xs">
+                      <span className="text-gray-400">النهاية المخططة: <span className="text-white">{formatDate(criticalPath.plannedEnd)}</span></span>
+                      <span className="text-gray-400">النهاية المتوقعة: <span className={criticalPath.slipDays > 0 ? 'text-red-400' : 'text-emerald-400'}>{formatDate(criticalPath.forecastEnd)}</span></span>
+                      {criticalPath.slipDays > 0 && (
+                        <span className="px-2 py-0.5 rounded-lg bg-red-500/20 text-red-300">تأخير {criticalPath.slipDays} يوم</span>
+                      )}
+                    </div>
+                  </div>
+                  {criticalPath.criticalPath.length === 0 ? (
+                    <p className="text-xs text-gray-500">لا توجد مهام مفتوحة على المسار الحرج</p>
+                  ) : (
+                    <div className="flex items-center gap-1.5 flex-wrap">
+                      {criticalPath.criticalPath.map((t: any, i: number) => (
+                        <span key={t.id} className="flex items-center gap-1.5">
+                          {i > 0 && <span className="text-gray-600">←</span>}
+                          <span className={cn('px-2 py-1 rounded-lg text-[11px]', TASK_STATUS_COLORS[t.status] || 'bg-gray-500/20 text-gray-300')}
+                            title={`${formatDate(t.forecastStart)} - ${formatDate(t.forecastFinish)}`}>
+                            {t.titleAr}
+                            {t.external && t.track && <span className="opacity-70"> ({t.track.nameAr})</span>}
+                          </span>
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {criticalPath.unscheduledTasks > 0 && (
+                    <p className="text-[10px] text-gray-500 mt-2">{criticalPath.unscheduledTasks} مهمة بدون تاريخ استحقاق غير مشمولة بالحساب</p>
+                  )}
+                </div>
+              )}
             </div>
           )}
 
@@ -502,31 +594,44 @@ export default function TrackDetailPage() {
           )}
 
           {/* Filters */}
-          <div className="flex flex-wrap gap-3">
-            <div className="relative flex-1 min-w-[200px]">
-              <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
-              <input
-                type="text"
-                placeholder="بحث في المهام..."
-                value={taskSearch}
-                onChange={(e) => setTaskSearch(e.target.value)}
-                className="input-field pr-10"
-              />
+          {taskView === 'cards' && (
+            <div className="flex flex-wrap gap-3">
+              <div className="relative flex-1 min-w-[200px]">
+                <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+                <input
+                  type="text"
+                  placeholder="بحث في المهام..."
+                  value={taskSearch}
+                  onChange={(e) => setTaskSearch(e.target.value)}
+                  className="input-field pr-10"
+                />
+              </div>
+              <select
+                value={taskStatusFilter}
+                onChange={(e) => setTaskStatusFilter(e.target.value)}
+                className="input-field w-auto"
+              >
+                <option value="">كل الحالات</option>
+                {Object.entries(TASK_STATUS_LABELS).map(([k, v]) => (
+                  <option key={k} value={k}>{v}</option>
+                ))}
+              </select>
             </div>
-            <select
-              value={taskStatusFilter}
-              onChange={(e) => setTaskStatusFilter(e.target.value)}
-              className="input-field w-auto"
-            >
-              <option value="">كل الحالات</option>
-              {Object.entries(TASK_STATUS_LABELS).map(([k, v]) => (
-                <option key={k} value={k}>{v}</option>
-              ))}
-            </select>
-          </div>
+          )}
 
-          {/* Task Cards */}
-          {trackTasksLoading ? (
+          {/* Gantt */}
+          {taskView === 'board' ? (
+            <KanbanBoard trackId={id} onTaskClick={openTask} />
+          ) : taskView === 'gantt' ? (
+            timeline ? (
+              <GanttChart data={timeline} groupBy="scopeBlock" canEdit={isAdmin}
+                onReschedule={handleReschedule} onTaskClick={openTask} />
+            ) : (
+              <div className="flex items-center justify-center h-40">
+                <div className="w-8 h-8 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
+              </div>
+            )
+          ) : trackTasksLoading ? (
             <div className="flex items-center justify-center h-40">
               <div className="w-8 h-8 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
             </div>
@@ -549,16 +654,28 @@ export default function TrackDetailPage() {
             onClose={() => setTaskModalOpen(false)}
             tracks={allTracks.length > 0 ? allTracks : track ? [{ id: track.id, nameAr: track.nameAr, color: track.color }] : []}
             users={allUsers}
-            onSuccess={loadTrackTasks}
+            onSuccess={() => { loadTrackTasks(); if (taskView === 'gantt') loadTimeline(); }}
             defaultTrackId={id}
           />
 
+          {templatesOpen && (
+            <TaskTemplatesModal
+              trackId={id}
+              users={allUsers}
+              canManageLibrary={isAdmin}
+              onClose={() => setTemplatesOpen(false)}
+              onApplied={() => { loadTrackTasks(); if (taskView === 'gantt') loadTimeline(); }}
+            />
+          )}
+
           {/* Task Detail Panel */}
           {selectedTask && (
             <TaskDetailPanel
+              key={selectedTask.id}
               task={selectedTask}
               onClose={() => setSelectedTask(null)}
-              onUpdate={loadTrackTasks}
+              onOpenTask={setSelectedTask}
+              onUpdate={() => { loadTrackTasks(); if (taskView === 'gantt') loadTimeline(); }}
             />
           )}
         </div>
@@ -753,16 +870,14 @@ export default function TrackDetailPage() {
                     {attachments.length > 0 && (
                       <div className="mt-3 flex flex-wrap gap-2">
                         {attachments.map((att: any, i: number) => (
-                          <a
+                          <button
                             key={i}
-                            href={att.filePath ? `/api/files/download/${att.id}` : '#'}
-                            target="_blank"
-                            rel="noopener noreferrer"
+                            onClick={() => handleDownloadFile(att)}
                             className="flex items-center gap-1.5 bg-white/5 hover:bg-white/10 rounded-lg px-3 py-1.5 text-xs text-gray-300 transition-colors"
                           >
                             <Paperclip className="w-3 h-3 text-gray-500" />
                             {att.fileName}
-                          </a>
+                          </button>
                         ))}
                       </div>
                     )}
@@ -1167,6 +1282,26 @@ export default function TrackDetailPage() {
               <p className="text-sm text-gray-500 text-center py-4">لا يوجد نطاق عمل</p>
             )}
           </DetailSection>
+
+          {/* سير عمل المهام */}
+          <DetailSection
+            title="سير عمل المهام"
+            icon={<Workflow className="w-4 h-4 text-cyan-400" />}
+            isOpen={expandedSection === 'workflow'}
+            onToggle={() => setExpandedSection(expandedSection === 'workflow' ? null : 'workflow')}
+          >
+            <WorkflowEditor trackId={id} canEdit={user?.role === 'admin'} />
+          </DetailSection>
+
+          {/* التذكيرات والتصعيد */}
+          <DetailSection
+            title="التذكيرات والتصعيد"
+            icon={<BellRing className="w-4 h-4 text-amber-400" />}
+            isOpen={expandedSection === 'deadlines'}
+            onToggle={() => setExpandedSection(expandedSection === 'deadlines' ? null : 'deadlines')}
+          >
+            <DeadlinePolicyEditor trackId={id} canEdit={user?.role === 'admin' || user?.role === 'pm'} />
+          </DetailSection>
         </div>
       )}
 
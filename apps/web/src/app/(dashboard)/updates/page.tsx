@@ -1,7 +1,7 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
-import { auditApi, dailyUpdatesApi, tracksApi } from '@/lib/api';
+import { auditApi, dailyUpdatesApi, tracksApi, downloadAttachment } from '@/lib/api';
 import { useAuth } from '@/stores/auth';
 import { formatDate } from '@/lib/utils';
 import {
@@ -94,8 +94,6 @@ const formatFileSize = (bytes: number) => {
   return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
 };
 
-const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
-
 // ─── Main Page ───
 
 export default function UpdatesPage() {
@@ -371,12 +369,12 @@ function DailyUpdatesTab({ isAdmin, userId }: { isAdmin: boolean; userId: string
                       {update.fileAttachments.map((att: any) => {
                         const FileIcon = getFileIcon(att.mimeType);
                         return (
-                          <a
+                          <button
                             key={att.id}
-                            href={`${API_URL}/api/daily-updates/attachments/${att.id}/download`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            onClick={(e) => e.stopPropagation()}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              downloadAttachment(att.id, att.originalName).catch(() => toast.error('فشل تحميل الملف'));
+                            }}
                             className="flex items-center gap-2 bg-white/5 hover:bg-white/10 rounded-lg px-3 py-2 text-xs transition-colors group"
                           >
                             <FileIcon className="w-4 h-4 text-gray-500 group-hover:text-brand-400" />
@@ -385,7 +383,7 @@ function DailyUpdatesTab({ isAdmin, userId }: { isAdmin: boolean; userId: string
                               <span className="text-gray-600 text-[10px]">{formatFileSize(att.sizeBytes)}</span>
                             </div>
                             <Download className="w-3 h-3 text-gray-600 group-hover:text-brand-400" />
-                          </a>
+                          </button>
                         );
                       })}
                     </div>
@@ -0,0 +1,252 @@
+'use client';
+
+import { Fragment, useCallback, useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { AlertTriangle, ArrowLeft, ChevronLeft, ChevronRight, Loader2, Scale } from 'lucide-react';
+import { tasksApi, tracksApi, workloadApi } from '@/lib/api';
+import { useAuth } from '@/stores/auth';
+import { cn, formatDate, formatMinutes, ROLE_LABELS } from '@/lib/utils';
+
+interface WorkloadCell {
+  minutes: number;
+  weight: number;
+  taskCount: number;
+  utilization: number | null;
+  overAllocated: boolean;
+}
+
+interface WorkloadRow {
+  user: { id: string; name: string; nameAr: string; role: string; weeklyCapacityMinutes: number };
+  capacityMinutes: number;
+  weeks: WorkloadCell[];
+  unscheduled: { minutes: number; weight: number; taskCount: number };
+  tasks: Array<{ id: string; title: string; titleAr: string; status: string; dueDate: string | null; minutes: number; estimated: boolean }>;
+}
+
+interface Suggestion {
+  task: { id: string; title: string; titleAr: string; dueDate: string | null };
+  from: { id: string; name: string; nameAr: string };
+  to: { id: string; name: string; nameAr: string };
+  minutes: number;
+  update: Record<string, unknown>;
+}
+
+interface Workload {
+  weeks: string[];
+  assumedMinutesPerWeight: number;
+  users: WorkloadRow[];
+  suggestions: Suggestion[];
+}
+
+const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+
+const cellColor = (cell: WorkloadCell) => {
+  if (cell.minutes === 0) return 'bg-white/[0.03] text-gray-600';
+  if (cell.utilization === null || cell.overAllocated) return 'bg-red-500/30 text-red-200';
+  if (cell.utilization >= 80) return 'bg-amber-500/25 text-amber-200';
+  if (cell.utilization >= 40) return 'bg-emerald-500/25 text-emerald-200';
+  return 'bg-emerald-500/10 text-emerald-300';
+};
+
+export default function WorkloadPage() {
+  const { user } = useAuth();
+  const isAdminOrPm = user?.role === 'admin' || user?.role === 'pm';
+
+  const [workload, setWorkload] = useState<Workload | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [from, setFrom] = useState(() => new Date().toISOString().slice(0, 10));
+  const [trackFilter, setTrackFilter] = useState('');
+  const [tracks, setTracks] = useState<{ id: string; nameAr: string }[]>([]);
+  const [expandedUserId, setExpandedUserId] = useState<string | null>(null);
+  const [applyingTaskId, setApplyingTaskId] = useState<string | null>(null);
+
+  const load = useCallback(async () => {
+    setLoading(true);
+    try {
+      const { data } = await workloadApi.get({ from, trackId: trackFilter || undefined });
+      setWorkload(data);
+    } catch {
+      toast.error('فشل تحميل عبء العمل');
+    } finally {
+      setLoading(false);
+    }
+  }, [from, trackFilter]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  useEffect(() => {
+    tracksApi.list().then(({ data }) => setTracks(data?.data || data || [])).catch(() => {});
+  }, []);
+
+  const shiftWeeks = (weeks: number) =>
+    setFrom(new Date(new Date(from).getTime() + weeks * WEEK_MS).toISOString().slice(0, 10));
+
+  const handleCapacity = async (row: WorkloadRow, hours: string) => {
+    const minutes = Math.round((parseFloat(hours) || 0) * 60);
+    if (minutes === row.capacityMinutes) return;
+    try {
+      await workloadApi.updateCapacity(row.user.id, minutes);
+      toast.success('تم تحديث السعة');
+      load();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل تحديث السعة');
+    }
+  };
+
+  const handleApply = async (suggestion: Suggestion) => {
+    setApplyingTaskId(suggestion.task.id);
+    try {
+      await tasksApi.update(suggestion.task.id, suggestion.update);
+      toast.success(`تم نقل المهمة إلى ${suggestion.to.nameAr || suggestion.to.name}`);
+      load();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل نقل المهمة');
+    } finally {
+      setApplyingTaskId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between flex-wrap gap-4">
+        <div>
+          <h1 className="text-2xl font-bold">عبء العمل والسعة</h1>
+          <p className="text-gray-400 mt-1">الأعمال المفتوحة لكل موظف في كل أسبوع مقارنة بسعته، عبر جميع المسارات</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <select value={trackFilter} onChange={(e) => setTrackFilter(e.target.value)} className="input-field w-auto">
+            <option value="">كل المسارات</option>
+            {tracks.map((t) => <option key={t.id} value={t.id}>{t.nameAr}</option>)}
+          </select>
+          <button onClick={() => shiftWeeks(-4)} className="btn-secondary p-2" title="الأسابيع السابقة"><ChevronRight className="w-4 h-4" /></button>
+          <button onClick={() => setFrom(new Date().toISOString().slice(0, 10))} className="btn-secondary text-sm">هذا الأسبوع</button>
+          <button onClick={() => shiftWeeks(4)} className="btn-secondary p-2" title="الأسابيع التالية"><ChevronLeft className="w-4 h-4" /></button>
+        </div>
+      </div>
+
+      <div className="glass p-4 overflow-x-auto">
+        {loading || !workload ? (
+          <div className="flex items-center justify-center h-40">
+            <div className="w-8 h-8 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
+          </div>
+        ) : workload.users.length === 0 ? (
+          <p className="text-center text-sm text-gray-500 py-10">لا يوجد موظفون في هذا النطاق</p>
+        ) : (
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-gray-400">
+                <th className="text-right font-medium py-2 px-2">الموظف</th>
+                <th className="font-medium py-2 px-2 whitespace-nowrap">السعة (ساعة/أسبوع)</th>
+                {workload.weeks.map((week) => (
+                  <th key={week} className="font-medium py-2 px-1 whitespace-nowrap">{formatDate(week)}</th>
+                ))}
+                <th className="font-medium py-2 px-2 whitespace-nowrap">بدون موعد</th>
+              </tr>
+            </thead>
+            <tbody>
+              {workload.users.map((row) => (
+                <Fragment key={row.user.id}>
+                  <tr className="border-t border-white/5">
+                    <td className="py-1.5 px-2">
+                      <button onClick={() => setExpandedUserId(expandedUserId === row.user.id ? null : row.user.id)}
+                        className="text-right hover:text-brand-300 transition-colors">
+                        <span className="block text-sm text-white">{row.user.nameAr || row.user.name}</span>
+                        <span className="text-[10px] text-gray-500">{ROLE_LABELS[row.user.role] || row.user.role} · {row.tasks.length} مهمة</span>
+                      </button>
+                    </td>
+                    <td className="py-1.5 px-2 text-center">
+                      {isAdminOrPm ? (
+                        <input type="number" min={0} max={168} step={1} defaultValue={row.capacityMinutes / 60}
+                          key={`${row.user.id}-${row.capacityMinutes}`}
+                          onBlur={(e) => handleCapacity(row, e.target.value)}
+                          className="input-field w-16 text-center text-xs py-1" />
+                      ) : (
+                        <span className="text-gray-300">{row.capacityMinutes / 60}</span>
+                      )}
+                    </td>
+                    {row.weeks.map((cell, i) => (
+                      <td key={i} className="py-1.5 px-1">
+                        <div className={cn('rounded-lg px-1.5 py-2 text-center', cellColor(cell))}
+                          title={`${formatMinutes(cell.minutes)} من ${formatMinutes(row.capacityMinutes)} · ${cell.taskCount} مهمة · الوزن ${cell.weight}`}>
+                          {cell.minutes > 0 ? (cell.utilization !== null ? `${cell.utilization}%` : formatMinutes(cell.minutes)) : '—'}
+                        </div>
+                      </td>
+                    ))}
+                    <td className="py-1.5 px-2 text-center text-gray-400">
+                      {row.unscheduled.taskCount > 0 ? `${row.unscheduled.taskCount} · ${formatMinutes(row.unscheduled.minutes)}` : '—'}
+                    </td>
+                  </tr>
+                  {expandedUserId === row.user.id && (
+                    <tr>
+                      <td colSpan={workload.weeks.length + 3} className="pb-3 px-2">
+                        <div className="bg-white/5 rounded-xl p-3 space-y-1">
+                          {row.tasks.length === 0 ? (
+                            <p className="text-gray-500">لا توجد مهام مفتوحة</p>
+                          ) : row.tasks.map((t) => (
+                            <div key={t.id} className="flex items-center justify-between gap-3">
+                              <span className="text-gray-200 truncate">{t.titleAr || t.title}</span>
+                              <span className="text-gray-500 shrink-0">
+                                {t.dueDate ? formatDate(t.dueDate) : 'بدون موعد'} · {formatMinutes(t.minutes)}{!t.estimated && ' (مفترض)'}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))}
+            </tbody>
+          </table>
+        )}
+        {workload && (
+          <p className="mt-3 text-[11px] text-gray-500">
+            يُحسب العبء من الوقت المتبقي في تقدير كل مهمة موزعاً على الأسابيع حتى موعد استحقاقها؛ المهام بلا تقدير تُحتسب
+            {' '}{formatMinutes(workload.assumedMinutesPerWeight)} لكل وحدة وزن، وتُقسم المهمة بالتساوي بين المسؤولين عنها.
+          </p>
+        )}
+      </div>
+
+      {/* Rebalancing suggestions */}
+      {workload && (
+        <div className="glass p-5 space-y-3">
+          <h2 className="text-sm font-semibold flex items-center gap-2 text-gray-300">
+            <Scale className="w-4 h-4 text-brand-400" />
+            اقتراحات إعادة التوزيع
+          </h2>
+          {workload.suggestions.length === 0 ? (
+            <p className="text-sm text-gray-500 text-center py-4">
+              {workload.users.some((u) => u.weeks.some((c) => c.overAllocated))
+                ? 'لا توجد مهام لم تبدأ يمكن نقلها إلى زملاء في المسار نفسه لديهم سعة كافية'
+                : 'لا يوجد موظف تجاوز سعته في هذه الفترة'}
+            </p>
+          ) : (
+            workload.suggestions.map((s) => (
+              <div key={s.task.id} className="bg-white/5 rounded-xl p-3 flex items-center justify-between gap-3 text-sm">
+                <div className="min-w-0">
+                  <p className="text-white truncate">{s.task.titleAr || s.task.title}</p>
+                  <p className="flex items-center gap-1.5 text-xs text-gray-400">
+                    <AlertTriangle className="w-3 h-3 text-amber-400" />
+                    {s.from.nameAr || s.from.name}
+                    <ArrowLeft className="w-3 h-3" />
+                    {s.to.nameAr || s.to.name}
+                    <span className="text-gray-500">· {formatMinutes(s.minutes)}{s.task.dueDate && ` · ${formatDate(s.task.dueDate)}`}</span>
+                  </p>
+                </div>
+                {isAdminOrPm && (
+                  <button onClick={() => handleApply(s)} disabled={!!applyingTaskId}
+                    className="rounded-lg bg-brand-500/20 px-3 py-1.5 text-xs font-medium text-brand-300 hover:bg-brand-500/30 transition-colors disabled:opacity-50 shrink-0">
+                    {applyingTaskId === s.task.id ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : 'نقل المهمة'}
+                  </button>
+                )}
+              </div>
+            ))
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+
+import { Paperclip, Download } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { downloadAttachment } from '@/lib/api';
+
+export interface AttachmentChip {
+  id: string;
+  fileName: string;
+  fileSize?: number;
+}
+
+/** Downloadable list of attachments on a comment or task update. */
+export default function AttachmentChips({ attachments }: { attachments?: AttachmentChip[] }) {
+  if (!attachments || attachments.length === 0) return null;
+
+  const handleDownload = async (att: AttachmentChip) => {
+    try {
+      await downloadAttachment(att.id, att.fileName);
+    } catch {
+      toast.error('فشل تحميل الملف');
+    }
+  };
+
+  return (
+    <div className="mt-2 flex flex-wrap gap-2">
+      {attachments.map((att) => (
+        <button
+          key={att.id}
+          type="button"
+          onClick={() => handleDownload(att)}
+          className="group flex items-center gap-1.5 rounded-lg bg-white/5 px-2.5 py-1 text-xs text-gray-300 transition-colors hover:bg-white/10"
+        >
+          <Paperclip className="h-3 w-3 text-gray-500" />
+          <span className="max-w-[160px] truncate">{att.fileName}</span>
+          <Download className="h-3 w-3 text-gray-600 group-hover:text-brand-400" />
+        </button>
+      ))}
+    </div>
+  );
+}
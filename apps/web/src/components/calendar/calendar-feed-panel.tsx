@@ -0,0 +1,87 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Copy, Link2Off, Loader2, RefreshCw, Rss } from 'lucide-react';
+import { calendarApi, calendarFeedUrl } from '@/lib/api';
+
+/** The user's iCalendar feed URL, with copy, regenerate and revoke. */
+export default function CalendarFeedPanel() {
+  const [token, setToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    calendarApi.getFeed()
+      .then(({ data }) => setToken(data.token))
+      .catch(() => toast.error('فشل تحميل رابط التقويم'))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const run = async (request: () => Promise<{ data: { token: string | null } }>, message: string) => {
+    setBusy(true);
+    try {
+      const { data } = await request();
+      setToken(data.token);
+      toast.success(message);
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل تحديث رابط التقويم');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRotate = () => {
+    if (token && !confirm('سيتوقف الرابط الحالي عن العمل في كل التطبيقات المشتركة به. متابعة؟')) return;
+    run(calendarApi.rotateFeed, token ? 'تم إنشاء رابط جديد' : 'تم إنشاء رابط التقويم');
+  };
+
+  const handleRevoke = () => {
+    if (!confirm('إلغاء رابط التقويم؟ ستتوقف التطبيقات المشتركة به عن التحديث.')) return;
+    run(calendarApi.revokeFeed, 'تم إلغاء رابط التقويم');
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(calendarFeedUrl(token!)).then(
+      () => toast.success('تم نسخ الرابط'),
+      () => toast.error('تعذر نسخ الرابط'),
+    );
+  };
+
+  return (
+    <div className="glass p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Rss className="w-4 h-4 text-brand-400" />
+        <h2 className="text-sm font-semibold">الاشتراك في مواعيدي</h2>
+      </div>
+      <p className="text-xs text-gray-400">
+        أضف هذا الرابط في Outlook أو Google Calendar (الاشتراك عبر رابط) لتظهر مواعيد استحقاق مهامك ومؤشرات الأداء المسندة إليك.
+        الرابط سري: من يملكه يرى مواعيدك، ويمكنك تغييره أو إلغاؤه في أي وقت.
+      </p>
+
+      {loading ? (
+        <Loader2 className="w-4 h-4 animate-spin text-gray-400" />
+      ) : token ? (
+        <div className="flex items-center gap-2 flex-wrap">
+          <input readOnly value={calendarFeedUrl(token)} dir="ltr" onFocus={(e) => e.target.select()}
+            className="input-field flex-1 min-w-[16rem] text-xs font-mono" />
+          <button onClick={handleCopy} className="btn-secondary flex items-center gap-1.5 text-sm">
+            <Copy className="w-4 h-4" />نسخ
+          </button>
+          <button onClick={handleRotate} disabled={busy} className="btn-secondary flex items-center gap-1.5 text-sm disabled:opacity-50">
+            <RefreshCw className="w-4 h-4" />رابط جديد
+          </button>
+          <button onClick={handleRevoke} disabled={busy}
+            className="flex items-center gap-1.5 rounded-xl px-3 py-2 text-sm text-red-300 bg-red-500/10 hover:bg-red-500/20 transition-colors disabled:opacity-50">
+            <Link2Off className="w-4 h-4" />إلغاء
+          </button>
+        </div>
+      ) : (
+        <button onClick={handleRotate} disabled={busy} className="btn-primary flex items-center gap-1.5 text-sm disabled:opacity-50">
+          {busy && <Loader2 className="w-4 h-4 animate-spin" />}
+          إنشاء رابط التقويم
+        </button>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,16 @@
 'use client';
 
 import { useState, useRef, useEffect } from 'react';
-import { Send, Loader2 } from 'lucide-react';
+import { Send, Loader2, Paperclip, X } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface Props {
-  onSubmit: (body: string) => Promise<void>;
+  onSubmit: (body: string, files: File[]) => Promise<void>;
   placeholder?: string;
   initialValue?: string;
   onCancel?: () => void;
   autoFocus?: boolean;
+  allowAttachments?: boolean;
 }
 
 export default function CommentForm({
@@ -18,10 +19,13 @@ export default function CommentForm({
   initialValue = '',
   onCancel,
   autoFocus = false,
+  allowAttachments = false,
 }: Props) {
   const [body, setBody] = useState(initialValue);
+  const [files, setFiles] = useState<File[]>([]);
   const [submitting, setSubmitting] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const isUpdate = !!initialValue;
 
@@ -38,9 +42,10 @@ export default function CommentForm({
 
     setSubmitting(true);
     try {
-      await onSubmit(trimmed);
+      await onSubmit(trimmed, files);
       if (!isUpdate) {
         setBody('');
+        setFiles([]);
       }
     } finally {
       setSubmitting(false);
@@ -67,6 +72,19 @@ export default function CommentForm({
         rows={2}
       />
 
+      {files.length > 0 && (
+        <div className="flex flex-wrap gap-2">
+          {files.map((f, i) => (
+            <span key={i} className="flex items-center gap-1 rounded-lg bg-white/5 px-2 py-1 text-xs text-gray-300">
+              <span className="max-w-[140px] truncate">{f.name}</span>
+              <button type="button" onClick={() => setFiles((prev) => prev.filter((_, j) => j !== i))} className="text-gray-500 hover:text-red-300">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
       <div className="flex items-center gap-2 justify-start">
         <button
           type="submit"
@@ -84,6 +102,31 @@ export default function CommentForm({
           {isUpdate ? 'تحديث' : 'إرسال'}
         </button>
 
+        {allowAttachments && (
+          <>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={(e) => {
+                const picked = Array.from(e.target.files || []);
+                setFiles((prev) => [...prev, ...picked].slice(0, 10));
+                e.target.value = '';
+              }}
+            />
+            <button
+              type="button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={submitting}
+              className="btn-secondary flex items-center gap-1.5 px-3 py-1.5 text-sm"
+              title="إرفاق ملفات"
+            >
+              <Paperclip className="h-3.5 w-3.5" />
+            </button>
+          </>
+        )}
+
         {onCancel && (
           <button
             type="button"
@@ -4,6 +4,7 @@ import { useState } from 'react';
 import { Reply, Pencil, Trash2 } from 'lucide-react';
 import { cn, formatDateTime } from '@/lib/utils';
 import CommentForm from './comment-form';
+import AttachmentChips from '@/components/attachment-chips';
 
 interface Props {
   comment: any;
@@ -12,7 +13,7 @@ interface Props {
   onEdit: (id: string, body: string) => void;
   onDelete: (id: string) => void;
   onReply: (id: string) => void;
-  onReplySubmit: (parentId: string, body: string) => Promise<void>;
+  onReplySubmit: (parentId: string, body: string, files: File[]) => Promise<void>;
   onReplyCancel: () => void;
   replyingTo: string | null;
   depth?: number;
@@ -107,9 +108,12 @@ export default function CommentItem({
             />
           </div>
         ) : (
-          <p className="mt-2 text-sm leading-relaxed text-gray-300 whitespace-pre-wrap">
-            {comment.body}
-          </p>
+          <>
+            <p className="mt-2 text-sm leading-relaxed text-gray-300 whitespace-pre-wrap">
+              {comment.body}
+            </p>
+            <AttachmentChips attachments={comment.attachments} />
+          </>
         )}
 
         {/* Actions */}
@@ -150,8 +154,9 @@ export default function CommentItem({
       {replyingTo === comment.id && (
         <div className="mr-6 mt-2">
           <CommentForm
-            onSubmit={(body) => onReplySubmit(comment.id, body)}
+            onSubmit={(body, files) => onReplySubmit(comment.id, body, files)}
             placeholder="اكتب ردّك..."
+            allowAttachments
             onCancel={onReplyCancel}
             autoFocus
           />
@@ -3,7 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import { MessageCircle } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { commentsApi } from '@/lib/api';
+import { commentsApi, attachmentsApi } from '@/lib/api';
 import { useAuth } from '@/stores/auth';
 import CommentItem from './comment-item';
 import CommentForm from './comment-form';
@@ -40,9 +40,20 @@ export default function CommentThread({ entityType, entityId }: Props) {
     fetchComments();
   }, [fetchComments]);
 
-  const handleCreate = async (body: string) => {
+  const createWithFiles = async (data: { body: string; parentId?: string }, files: File[]) => {
+    const { data: comment } = await commentsApi.create({ entityType, entityId, ...data });
+    if (files.length > 0) {
+      try {
+        await attachmentsApi.upload('comment', comment.id, files);
+      } catch (err: any) {
+        toast.error(err?.response?.data?.message || 'فشل رفع المرفقات');
+      }
+    }
+  };
+
+  const handleCreate = async (body: string, files: File[]) => {
     try {
-      await commentsApi.create({ entityType, entityId, body });
+      await createWithFiles({ body }, files);
       toast.success('تم إضافة التعليق');
       await fetchComments();
     } catch {
@@ -50,9 +61,9 @@ export default function CommentThread({ entityType, entityId }: Props) {
     }
   };
 
-  const handleReply = async (parentId: string, body: string) => {
+  const handleReply = async (parentId: string, body: string, files: File[]) => {
     try {
-      await commentsApi.create({ entityType, entityId, body, parentId });
+      await createWithFiles({ body, parentId }, files);
       toast.success('تم إضافة الردّ');
       setReplyingTo(null);
       await fetchComments();
@@ -98,7 +109,7 @@ export default function CommentThread({ entityType, entityId }: Props) {
 
       {/* New comment form */}
       <div className="mb-6">
-        <CommentForm onSubmit={handleCreate} placeholder="اكتب تعليقك..." />
+        <CommentForm onSubmit={handleCreate} placeholder="اكتب تعليقك..." allowAttachments />
       </div>
 
       {/* Comments list */}
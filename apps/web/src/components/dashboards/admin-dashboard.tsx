@@ -98,6 +98,7 @@ export default function AdminDashboard() {
     socket.on('task.updated', refreshTasks);
     socket.on('task.deleted', refreshTasks);
     socket.on('task.completed', refreshTasks);
+    socket.on('tasks.bulk_updated', refreshTasks);
 
     return () => {
       socket.off('user.online');
@@ -106,6 +107,7 @@ export default function AdminDashboard() {
       socket.off('task.updated');
       socket.off('task.deleted');
       socket.off('task.completed');
+      socket.off('tasks.bulk_updated');
     };
   }, []);
 
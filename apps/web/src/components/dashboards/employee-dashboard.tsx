@@ -1,11 +1,17 @@
 'use client';
 
 import { useEffect, useState, useCallback } from 'react';
+import Link from 'next/link';
+import toast from 'react-hot-toast';
 import { useAuth } from '@/stores/auth';
 import { useTasks, Task } from '@/stores/tasks';
-import { tasksApi } from '@/lib/api';
+import { tasksApi, timeEntriesApi, timesheetsApi } from '@/lib/api';
 import { getSocket } from '@/lib/socket';
-import { cn, formatDate, formatNumber, TASK_STATUS_LABELS, TASK_STATUS_COLORS, PRIORITY_LABELS, PRIORITY_COLORS } from '@/lib/utils';
+import {
+  cn, formatDate, formatMinutes, formatNumber, TASK_STATUS_LABELS, TASK_STATUS_COLORS, PRIORITY_LABELS, PRIORITY_COLORS,
+  TIMESHEET_STATUS_LABELS, TIMESHEET_STATUS_COLORS,
+} from '@/lib/utils';
+import { ElapsedTime, TimeEntry } from '@/components/tasks/time-tracker';
 import {
   CheckSquare,
   Clock,
@@ -14,6 +20,9 @@ import {
   Loader2,
   ChevronLeft,
   ArrowLeftRight,
+  Timer,
+  Play,
+  Square,
 } from 'lucide-react';
 
 const NEXT_STATUS: Record<string, string> = {
@@ -25,10 +34,19 @@ export default function EmployeeDashboard() {
   const { user } = useAuth();
   const { myTasks, loading, fetchMyTasks, updateTaskStatus } = useTasks();
   const [updatingId, setUpdatingId] = useState<string | null>(null);
+  const [week, setWeek] = useState<{ totalMinutes: number; status: string } | null>(null);
+  const [running, setRunning] = useState<TimeEntry | null>(null);
+  const [timerBusy, setTimerBusy] = useState(false);
+
+  const loadTime = useCallback(() => {
+    timesheetsApi.myWeek().then(({ data }) => setWeek(data)).catch(() => setWeek(null));
+    timeEntriesApi.running().then(({ data }) => setRunning(data || null)).catch(() => setRunning(null));
+  }, []);
 
   useEffect(() => {
     fetchMyTasks();
-  }, [fetchMyTasks]);
+    loadTime();
+  }, [fetchMyTasks, loadTime]);
 
   // Real-time task updates via WebSocket
   useEffect(() => {
@@ -56,6 +74,19 @@ export default function EmployeeDashboard() {
     setUpdatingId(null);
   };
 
+  const handleTimer = async (taskId?: string) => {
+    setTimerBusy(true);
+    try {
+      if (taskId) await timeEntriesApi.start(taskId);
+      else await timeEntriesApi.stop();
+      loadTime();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل تحديث المؤقت');
+    } finally {
+      setTimerBusy(false);
+    }
+  };
+
   // Personal stats
   const totalTasks = myTasks.length;
   const completedTasks = myTasks.filter((t) => t.status === 'completed').length;
@@ -106,6 +137,39 @@ export default function EmployeeDashboard() {
         ))}
       </div>
 
+      {/* My Time */}
+      <div className="glass rounded-2xl border border-white/10 p-4 flex items-center justify-between gap-4 flex-wrap">
+        <div className="flex items-center gap-3">
+          <div className="p-2.5 rounded-xl bg-brand-500/20">
+            <Timer className="w-5 h-5 text-brand-400" />
+          </div>
+          <div>
+            <p className="text-xl font-bold">{formatMinutes(week?.totalMinutes || 0)}</p>
+            <p className="text-xs text-gray-400">ساعاتي هذا الأسبوع</p>
+          </div>
+          {week && (
+            <span className={cn('text-xs px-2.5 py-1 rounded-full', TIMESHEET_STATUS_COLORS[week.status])}>
+              {TIMESHEET_STATUS_LABELS[week.status] || week.status}
+            </span>
+          )}
+        </div>
+        <div className="flex items-center gap-3">
+          {running && (
+            <span className="flex items-center gap-2 text-sm text-gray-300">
+              {running.task.titleAr || running.task.title}
+              <ElapsedTime startedAt={running.startedAt} className="text-brand-300" />
+              <button onClick={() => handleTimer()} disabled={timerBusy}
+                className="p-1.5 rounded-lg bg-red-500/20 text-red-300 hover:bg-red-500/30 transition-colors disabled:opacity-50" title="إيقاف المؤقت">
+                <Square className="w-4 h-4" />
+              </button>
+            </span>
+          )}
+          <Link href="/timesheets" className="text-xs text-brand-300 hover:text-brand-200 flex items-center gap-1">
+            جدولي الزمني <ChevronLeft className="w-3 h-3" />
+          </Link>
+        </div>
+      </div>
+
       {/* My Tasks List */}
       <div className="glass rounded-2xl border border-white/10 p-6">
         <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -176,6 +240,16 @@ export default function EmployeeDashboard() {
                     </div>
 
                     <div className="flex items-center gap-2 shrink-0">
+                      {task.status !== 'completed' && task.status !== 'cancelled' && running?.taskId !== task.id && (
+                        <button
+                          onClick={() => handleTimer(task.id)}
+                          disabled={timerBusy}
+                          className="p-1.5 rounded-lg bg-emerald-500/20 text-emerald-300 hover:bg-emerald-500/30 transition-colors disabled:opacity-50"
+                          title="بدء المؤقت"
+                        >
+                          <Play className="w-4 h-4" />
+                        </button>
+                      )}
                       <span className={cn('text-xs px-2.5 py-1 rounded-full', TASK_STATUS_COLORS[task.status] || 'bg-gray-500/20 text-gray-300')}>
                         {TASK_STATUS_LABELS[task.status] || task.status}
                       </span>
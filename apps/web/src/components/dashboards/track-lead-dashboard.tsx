@@ -1,6 +1,6 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import { useAuth } from '@/stores/auth';
 import { tracksApi, tasksApi, kpisApi } from '@/lib/api';
 import { cn, formatDate, formatNumber, TASK_STATUS_LABELS, TASK_STATUS_COLORS } from '@/lib/utils';
@@ -14,8 +14,13 @@ import {
   TrendingUp,
   Activity,
   BarChart3,
+  ClipboardCheck,
 } from 'lucide-react';
 import Link from 'next/link';
+import toast from 'react-hot-toast';
+import { getSocket } from '@/lib/socket';
+import { Task } from '@/stores/tasks';
+import TaskDetailPanel from '@/components/tasks/task-detail-panel';
 
 interface Track {
   id: string;
@@ -41,6 +46,25 @@ export default function TrackLeadDashboard() {
   const [trackTasks, setTrackTasks] = useState<Record<string, any[]>>({});
   const [kpiStats, setKpiStats] = useState<KPIStat[]>([]);
   const [loading, setLoading] = useState(true);
+  const [reviewQueue, setReviewQueue] = useState<Task[]>([]);
+  const [selectedTask, setSelectedTask] = useState<Task | null>(null);
+
+  const loadReviewQueue = useCallback(() => {
+    tasksApi.reviewQueue().then(({ data }) => setReviewQueue(data || [])).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    loadReviewQueue();
+    const socket = getSocket();
+    socket.on('task.updated', loadReviewQueue);
+    return () => {
+      socket.off('task.updated', loadReviewQueue);
+    };
+  }, [loadReviewQueue]);
+
+  const openTask = (taskId: string) => {
+    tasksApi.get(taskId).then(({ data }) => setSelectedTask(data)).catch(() => toast.error('تعذر تحميل المهمة'));
+  };
 
   useEffect(() => {
     const loadData = async () => {
@@ -178,6 +202,47 @@ export default function TrackLeadDashboard() {
         )}
       </div>
 
+      {/* Waiting for my review */}
+      <div className="glass rounded-2xl border border-white/10 p-6">
+        <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
+          <ClipboardCheck className="w-5 h-5 text-orange-400" />
+          بانتظار مراجعتي
+          {reviewQueue.length > 0 && (
+            <span className="text-xs px-2 py-0.5 rounded-full bg-orange-500/20 text-orange-300">{formatNumber(reviewQueue.length)}</span>
+          )}
+        </h2>
+        {reviewQueue.length > 0 ? (
+          <div className="space-y-2">
+            {reviewQueue.map((task) => (
+              <button
+                key={task.id}
+                onClick={() => openTask(task.id)}
+                className="w-full flex items-center justify-between gap-3 bg-white/5 rounded-xl p-3 text-right hover:bg-white/[0.07] transition-colors"
+              >
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium truncate">{task.titleAr || task.title}</p>
+                  <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                    {task.track && (
+                      <span className="flex items-center gap-1">
+                        <span className="w-1.5 h-1.5 rounded-full" style={{ backgroundColor: task.track.color }} />
+                        {task.track.nameAr}
+                      </span>
+                    )}
+                    {task.assignments?.[0]?.user && <span>{task.assignments[0].user.nameAr}</span>}
+                  </div>
+                </div>
+                <span className="flex items-center gap-1 text-xs text-gray-500 shrink-0">
+                  <Clock className="w-3 h-3" />
+                  منذ {formatDate(task.updatedAt)}
+                </span>
+              </button>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-gray-500 text-center py-4">لا توجد مهام بانتظار مراجعتك</p>
+        )}
+      </div>
+
       {/* Team Tasks Summary */}
       <div className="glass rounded-2xl border border-white/10 p-6">
         <h2 className="text-lg font-semibold mb-4 flex items-center gap-2">
@@ -277,6 +342,14 @@ export default function TrackLeadDashboard() {
           </div>
         )}
       </div>
+
+      {selectedTask && (
+        <TaskDetailPanel
+          task={selectedTask}
+          onClose={() => setSelectedTask(null)}
+          onUpdate={loadReviewQueue}
+        />
+      )}
     </div>
   );
 }
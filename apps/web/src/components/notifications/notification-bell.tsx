@@ -4,9 +4,11 @@ import { useState, useEffect, useRef } from 'react';
 import { Bell } from 'lucide-react';
 import { useNotifications } from '@/stores/notifications';
 import NotificationDropdown from './notification-dropdown';
+import NotificationSettings from './notification-settings';
 
 export default function NotificationBell() {
   const [isOpen, setIsOpen] = useState(false);
+  const [settingsOpen, setSettingsOpen] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const { unreadCount, fetchUnreadCount, initSocket } = useNotifications();
 
@@ -45,7 +47,14 @@ export default function NotificationBell() {
         )}
       </button>
 
-      {isOpen && <NotificationDropdown onClose={() => setIsOpen(false)} />}
+      {isOpen && (
+        <NotificationDropdown
+          onClose={() => setIsOpen(false)}
+          onOpenSettings={() => setSettingsOpen(true)}
+        />
+      )}
+
+      <NotificationSettings isOpen={settingsOpen} onClose={() => setSettingsOpen(false)} />
     </div>
   );
 }
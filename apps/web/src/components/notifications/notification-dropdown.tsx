@@ -1,15 +1,16 @@
 'use client';
 
 import { useEffect } from 'react';
-import { Bell, X } from 'lucide-react';
+import { Bell, Settings, X } from 'lucide-react';
 import { useNotifications } from '@/stores/notifications';
 import { cn, formatDateTime } from '@/lib/utils';
 
 interface NotificationDropdownProps {
   onClose: () => void;
+  onOpenSettings: () => void;
 }
 
-export default function NotificationDropdown({ onClose }: NotificationDropdownProps) {
+export default function NotificationDropdown({ onClose, onOpenSettings }: NotificationDropdownProps) {
   const {
     notifications,
     loading,
@@ -28,12 +29,24 @@ export default function NotificationDropdown({ onClose }: NotificationDropdownPr
       {/* Header */}
       <div className="flex items-center justify-between border-b border-white/10 px-4 py-3">
         <h3 className="text-sm font-semibold text-white">الإشعارات</h3>
-        <button
-          onClick={() => markAllAsRead()}
-          className="text-xs text-brand-300 transition-colors hover:text-white"
-        >
-          تحديد الكل كمقروء
-        </button>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => markAllAsRead()}
+            className="text-xs text-brand-300 transition-colors hover:text-white"
+          >
+            تحديد الكل كمقروء
+          </button>
+          <button
+            onClick={() => {
+              onClose();
+              onOpenSettings();
+            }}
+            title="إعدادات الإشعارات"
+            className="rounded p-1 text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+          >
+            <Settings className="h-3.5 w-3.5" />
+          </button>
+        </div>
       </div>
 
       {/* Content */}
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Settings, X } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { notificationsApi } from '@/lib/api';
+import { cn } from '@/lib/utils';
+
+interface NotificationSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PREFERENCE_FIELDS = [
+  { key: 'assignmentAlert', label: 'إسناد المهام', description: 'عند إسناد مهمة جديدة إليك' },
+  { key: 'mentionAlert', label: 'الإشارات', description: 'عندما يشير إليك أحد في تعليق' },
+  { key: 'commentAlert', label: 'التعليقات', description: 'تعليقات جديدة على المهام والنقاشات التي تشارك فيها' },
+  { key: 'statusChangeAlert', label: 'تغيير الحالة', description: 'عند تغيير حالة مهمة تتابعها' },
+  { key: 'deadlineAlert', label: 'المواعيد والتأخير', description: 'تذكيرات المواعيد النهائية والمهام المتأخرة' },
+  { key: 'emailEnabled', label: 'البريد الإلكتروني', description: 'إرسال نسخة من الإشعارات إلى بريدك' },
+] as const;
+
+const EMAIL_FREQUENCIES = [
+  { value: 'immediate', label: 'فوري' },
+  { value: 'daily_digest', label: 'ملخص يومي' },
+];
+
+export default function NotificationSettings({ isOpen, onClose }: NotificationSettingsProps) {
+  const [preferences, setPreferences] = useState<Record<string, any>>({});
+  const [loading, setLoading] = useState(false);
+  const [saving, setSaving] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setLoading(true);
+    notificationsApi
+      .getPreferences()
+      .then(({ data }) => setPreferences(data))
+      .catch(() => toast.error('فشل تحميل إعدادات الإشعارات'))
+      .finally(() => setLoading(false));
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const save = async (key: string, value: any) => {
+    const previous = preferences[key];
+    setSaving(key);
+    setPreferences((prev) => ({ ...prev, [key]: value }));
+    try {
+      const { data } = await notificationsApi.updatePreferences({ [key]: value });
+      setPreferences(data);
+    } catch {
+      setPreferences((prev) => ({ ...prev, [key]: previous }));
+      toast.error('فشل حفظ الإعداد');
+    } finally {
+      setSaving(null);
+    }
+  };
+
+  // Portal to <body>: the sidebar's backdrop blur would otherwise become the
+  // containing block of this fixed overlay and clip it to the sidebar.
+  return createPortal(
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+      <div className="glass relative w-full max-w-md rounded-2xl border border-white/10">
+        {/* Header */}
+        <div className="flex items-center justify-between border-b border-white/10 px-6 py-4">
+          <div className="flex items-center gap-2">
+            <Settings className="h-5 w-5 text-brand-300" />
+            <h3 className="text-lg font-semibold text-white">إعدادات الإشعارات</h3>
+          </div>
+          <button
+            onClick={onClose}
+            className="rounded-lg p-1 text-gray-400 transition-colors hover:bg-white/10 hover:text-white"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-4">
+          {loading ? (
+            <div className="flex items-center justify-center py-12">
+              <div className="h-6 w-6 animate-spin rounded-full border-2 border-brand-500 border-t-transparent" />
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {PREFERENCE_FIELDS.map((field) => {
+                const enabled = preferences[field.key] ?? true;
+                return (
+                  <button
+                    key={field.key}
+                    onClick={() => save(field.key, !enabled)}
+                    disabled={saving === field.key}
+                    className="flex w-full items-center justify-between gap-4 rounded-xl px-3 py-3 text-right transition-colors hover:bg-white/5 disabled:opacity-60"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-white">{field.label}</p>
+                      <p className="mt-0.5 text-xs text-gray-400">{field.description}</p>
+                    </div>
+                    <span
+                      className={cn(
+                        'relative h-5 w-9 shrink-0 rounded-full transition-colors',
+                        enabled ? 'bg-brand-500' : 'bg-white/10',
+                      )}
+                    >
+                      <span
+                        className={cn(
+                          'absolute top-0.5 h-4 w-4 rounded-full bg-white transition-all',
+                          enabled ? 'left-0.5' : 'left-[18px]',
+                        )}
+                      />
+                    </span>
+                  </button>
+                );
+              })}
+
+              {(preferences.emailEnabled ?? true) && (
+                <div className="flex items-center justify-between gap-4 px-3 py-3">
+                  <p className="text-sm text-gray-300">طريقة إرسال البريد</p>
+                  <div className="flex gap-1 rounded-lg bg-white/5 p-1">
+                    {EMAIL_FREQUENCIES.map((option) => (
+                      <button
+                        key={option.value}
+                        onClick={() => save('emailFrequency', option.value)}
+                        disabled={saving === 'emailFrequency'}
+                        className={cn(
+                          'rounded-md px-3 py-1 text-xs transition-colors',
+                          (preferences.emailFrequency || 'immediate') === option.value
+                            ? 'bg-brand-500/30 text-brand-200'
+                            : 'text-gray-400 hover:text-white',
+                        )}
+                      >
+                        {option.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body,
+  );
+}
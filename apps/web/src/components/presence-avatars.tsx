@@ -0,0 +1,42 @@
+'use client';
+
+import { Eye } from 'lucide-react';
+import { useAuth } from '@/stores/auth';
+import { usePresence } from '@/hooks/use-presence';
+import { PresenceEntity } from '@/lib/socket';
+
+interface PresenceAvatarsProps {
+  entityType: PresenceEntity;
+  entityId: string;
+  max?: number;
+}
+
+/** Avatars of the other users currently viewing a track or task. */
+export default function PresenceAvatars({ entityType, entityId, max = 4 }: PresenceAvatarsProps) {
+  const { user } = useAuth();
+  const viewers = usePresence(entityType, entityId).filter((v) => v.id !== user?.id);
+
+  if (viewers.length === 0) return null;
+
+  return (
+    <div className="flex items-center gap-2" title={viewers.map((v) => v.nameAr || v.name).join('، ')}>
+      <Eye className="h-4 w-4 text-gray-500" />
+      <div className="flex items-center -space-x-2 rtl:space-x-reverse">
+        {viewers.slice(0, max).map((v) => (
+          <div
+            key={v.id}
+            className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-gray-900 bg-brand-500/30 text-[10px] font-bold text-brand-200"
+            title={v.nameAr || v.name}
+          >
+            {v.nameAr?.charAt(0) || v.name?.charAt(0) || '?'}
+          </div>
+        ))}
+        {viewers.length > max && (
+          <div className="flex h-7 w-7 items-center justify-center rounded-full border-2 border-gray-900 bg-white/10 text-[10px] font-medium text-gray-400">
+            +{viewers.length - max}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
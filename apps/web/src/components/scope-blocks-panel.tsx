@@ -13,6 +13,8 @@ import {
   Upload,
   Search,
   BarChart3,
+  Zap,
+  Hand,
 } from 'lucide-react';
 
 interface ScopeBlock {
@@ -24,8 +26,10 @@ interface ScopeBlock {
   parentId?: string;
   orderIndex: number;
   progress: number;
+  progressMode: 'auto' | 'manual';
   status: string;
   children?: ScopeBlock[];
+  _count?: { tasks: number };
 }
 
 interface ScopeBlocksPanelProps {
@@ -34,7 +38,7 @@ interface ScopeBlocksPanelProps {
 }
 
 export default function ScopeBlocksPanel({ trackId, trackColor }: ScopeBlocksPanelProps) {
-  const { user } = useAuth();
+  const { user, hasPermission } = useAuth();
   const [blocks, setBlocks] = useState<ScopeBlock[]>([]);
   const [stats, setStats] = useState<any>(null);
   const [loading, setLoading] = useState(true);
@@ -44,7 +48,8 @@ export default function ScopeBlocksPanel({ trackId, trackColor }: ScopeBlocksPan
   const [showImport, setShowImport] = useState(false);
   const [importing, setImporting] = useState(false);
 
-  const canEdit = user?.role === 'admin' || user?.role === 'pm' || user?.role === 'track_lead';
+  const canEdit =
+    (user?.role === 'admin' || user?.role === 'pm' || user?.role === 'track_lead') && hasPermission(trackId, 'edit');
 
   const fetchData = async () => {
     try {
@@ -90,6 +95,11 @@ export default function ScopeBlocksPanel({ trackId, trackColor }: ScopeBlocksPan
     await fetchData();
   };
 
+  const handleModeToggle = async (block: ScopeBlock) => {
+    await scopeBlocksApi.update(block.id, { progressMode: block.progressMode === 'auto' ? 'manual' : 'auto' });
+    await fetchData();
+  };
+
   const handleTitleUpdate = async (blockId: string, title: string) => {
     await scopeBlocksApi.update(blockId, { title });
     await fetchData();
@@ -125,6 +135,8 @@ export default function ScopeBlocksPanel({ trackId, trackColor }: ScopeBlocksPan
   const renderBlock = (block: ScopeBlock, depth: number = 0) => {
     const isExpanded = expandedIds.has(block.id);
     const hasChildren = block.children && block.children.length > 0;
+    // Auto blocks follow their tasks and children; with neither they can still be set by hand
+    const isDerived = block.progressMode === 'auto' && (hasChildren || (block._count?.tasks || 0) > 0);
     const progressColor = block.progress >= 100 ? '#10b981' : block.progress > 50 ? trackColor : block.progress > 0 ? '#f59e0b' : '#6b7280';
 
     return (
@@ -172,6 +184,11 @@ export default function ScopeBlocksPanel({ trackId, trackColor }: ScopeBlocksPan
                 <div className="h-full rounded-full transition-all duration-300" style={{ width: `${block.progress}%`, backgroundColor: progressColor }} />
               </div>
               <span className="text-xs font-mono text-gray-400 w-10 text-left">{Math.round(block.progress)}%</span>
+              {isDerived && (
+                <span title="يُحسب تلقائياً من المهام والبنود الفرعية">
+                  <Zap className="w-3.5 h-3.5 text-brand-400" />
+                </span>
+              )}
             </div>
           </div>
 
@@ -182,6 +199,22 @@ export default function ScopeBlocksPanel({ trackId, trackColor }: ScopeBlocksPan
                 <p className="text-sm text-gray-400 leading-relaxed">{block.content}</p>
               )}
               {canEdit && (
+                <div className="flex items-center gap-2 text-xs">
+                  <span className="text-gray-500">طريقة احتساب التقدم:</span>
+                  <button
+                    onClick={() => handleModeToggle(block)}
+                    className="flex items-center gap-1 rounded-lg bg-white/5 px-2 py-1 text-gray-300 hover:bg-white/10 transition-colors"
+                  >
+                    {block.progressMode === 'auto'
+                      ? <><Zap className="w-3 h-3 text-brand-400" /> تلقائي من المهام</>
+                      : <><Hand className="w-3 h-3 text-amber-400" /> يدوي</>}
+                  </button>
+                  {block._count && block._count.tasks > 0 && (
+                    <span className="text-gray-500">{block._count.tasks} مهمة مرتبطة</span>
+                  )}
+                </div>
+              )}
+              {canEdit && !isDerived && (
                 <div className="flex items-center gap-3">
                   <span className="text-xs text-gray-500">التقدم:</span>
                   <input
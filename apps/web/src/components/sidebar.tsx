@@ -26,6 +26,10 @@ import {
   Sparkles,
   BarChart3,
   Database,
+  GanttChart,
+  Timer,
+  Scale,
+  CalendarDays,
 } from 'lucide-react';
 import NotificationBell from '@/components/notifications/notification-bell';
 
@@ -35,6 +39,10 @@ const NAV_ITEMS = [
   { href: '/tracks', label: 'المسارات', icon: GitBranch, roles: ['admin', 'pm', 'track_lead', 'employee'] },
   { href: '/kpis', label: 'مؤشرات الأداء', icon: Target, roles: ['admin', 'pm', 'track_lead'] },
   { href: '/tasks', label: 'المهام', icon: CheckSquare, roles: ['admin', 'pm', 'track_lead', 'employee'] },
+  { href: '/timeline', label: 'الجدول الزمني', icon: GanttChart, roles: ['admin', 'pm', 'track_lead'] },
+  { href: '/calendar', label: 'التقويم', icon: CalendarDays, roles: ['admin', 'pm', 'track_lead', 'employee', 'hr'] },
+  { href: '/timesheets', label: 'سجل الساعات', icon: Timer, roles: ['admin', 'pm', 'track_lead', 'employee'] },
+  { href: '/workload', label: 'عبء العمل', icon: Scale, roles: ['admin', 'pm', 'track_lead'] },
   { href: '/achievements-progress', label: 'التقدم والإنجازات', icon: TrendingUp, roles: ['admin', 'pm', 'track_lead', 'employee'] },
   { href: '/reports', label: 'التقارير', icon: FileText, roles: ['admin', 'pm', 'track_lead'] },
   { href: '/ai-reports', label: 'التقارير الذكية', icon: Brain, roles: ['admin', 'pm'] },
@@ -0,0 +1,220 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { AlertTriangle, Loader2, X } from 'lucide-react';
+import { cn, ASSIGNEE_TYPE_LABELS, PRIORITY_LABELS, TASK_STATUS_LABELS } from '@/lib/utils';
+import { scopeBlocksApi, tasksApi } from '@/lib/api';
+import { Task } from '@/stores/tasks';
+
+type BulkAction = 'status' | 'reassign' | 'shift_dates' | 'priority' | 'scope_block' | 'delete';
+
+const ACTION_LABELS: Record<BulkAction, string> = {
+  status: 'تغيير الحالة',
+  reassign: 'إعادة التعيين',
+  shift_dates: 'إزاحة التواريخ',
+  priority: 'تغيير الأولوية',
+  scope_block: 'نقل إلى عنصر نطاق',
+  delete: 'حذف',
+};
+
+interface BulkResult {
+  taskId: string;
+  ok: boolean;
+  unchanged?: boolean;
+  error?: string;
+}
+
+interface Props {
+  tasks: Task[];
+  tracks: Array<{ id: string; nameAr: string }>;
+  users: Array<{ id: string; name: string; nameAr: string }>;
+  onClear: () => void;
+  // Called after a run with the tasks it failed on, which stay selected
+  onDone: (failedIds: string[]) => void;
+}
+
+const flattenBlocks = (blocks: any[], depth = 0): Array<{ id: string; label: string }> =>
+  blocks.flatMap((b) => [
+    { id: b.id, label: `${'— '.repeat(depth)}${b.code} ${b.title}` },
+    ...flattenBlocks(b.children || [], depth + 1),
+  ]);
+
+const errorMessage = (err: any, fallback: string) => {
+  const message = err?.response?.data?.message;
+  return Array.isArray(message) ? message[0] : message || fallback;
+};
+
+/** Toolbar for the selected tasks: one change applied to all of them, with the tasks it failed on. */
+export default function BulkActionsBar({ tasks, tracks, users, onClear, onDone }: Props) {
+  const [action, setAction] = useState<BulkAction>('status');
+  const [status, setStatus] = useState('in_progress');
+  const [priority, setPriority] = useState('high');
+  const [days, setDays] = useState('7');
+  const [assigneeType, setAssigneeType] = useState('USER');
+  const [assigneeTrackId, setAssigneeTrackId] = useState('');
+  const [assigneeUserId, setAssigneeUserId] = useState('');
+  const [scopeBlockId, setScopeBlockId] = useState('');
+  const [blocks, setBlocks] = useState<Array<{ id: string; label: string }>>([]);
+  const [force, setForce] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [failures, setFailures] = useState<Array<BulkResult & { title: string }>>([]);
+
+  // Scope blocks only make sense when all selected tasks are in one track
+  const sharedTrackId = useMemo(() => {
+    const trackIds = new Set(tasks.map((t) => t.trackId || ''));
+    return trackIds.size === 1 ? [...trackIds][0] : '';
+  }, [tasks]);
+
+  useEffect(() => {
+    setScopeBlockId('');
+    if (action !== 'scope_block' || !sharedTrackId) return setBlocks([]);
+    scopeBlocksApi.byTrack(sharedTrackId)
+      .then(({ data }) => setBlocks(flattenBlocks(data || [])))
+      .catch(() => setBlocks([]));
+  }, [action, sharedTrackId]);
+
+  const payload = () => {
+    const base = { taskIds: tasks.map((t) => t.id), action };
+    switch (action) {
+      case 'status':
+        return { ...base, status, force: force || undefined };
+      case 'priority':
+        return { ...base, priority };
+      case 'shift_dates':
+        return { ...base, days: Number(days) };
+      case 'scope_block':
+        return { ...base, scopeBlockId: scopeBlockId || null };
+      case 'reassign':
+        return {
+          ...base,
+          assigneeType,
+          assigneeTrackId: assigneeType === 'TRACK' ? assigneeTrackId : undefined,
+          assigneeUserId: assigneeType === 'USER' ? assigneeUserId : undefined,
+          // A direct user assignment replaces the assignee list too
+          assigneeIds: assigneeType === 'USER' ? [] : undefined,
+        };
+      default:
+        return base;
+    }
+  };
+
+  const canApply =
+    tasks.length > 0 &&
+    (action !== 'shift_dates' || (Number.isInteger(Number(days)) && Number(days) !== 0)) &&
+    (action !== 'reassign' || (assigneeType === 'TRACK' ? !!assigneeTrackId : assigneeType === 'USER' ? !!assigneeUserId : true)) &&
+    (action !== 'scope_block' || !!sharedTrackId);
+
+  const handleApply = async () => {
+    if (action === 'delete' && !confirm(`حذف ${tasks.length} مهمة مع مهامها الفرعية؟`)) return;
+    setBusy(true);
+    try {
+      const { data } = await tasksApi.bulk(payload());
+      const failed: BulkResult[] = data.results.filter((r: BulkResult) => !r.ok);
+      const titles = new Map(tasks.map((t) => [t.id, t.titleAr || t.title]));
+      setFailures(failed.map((r) => ({ ...r, title: titles.get(r.taskId) || r.taskId })));
+      if (data.applied > 0) toast.success(`تم تطبيق «${ACTION_LABELS[action]}» على ${data.applied} مهمة`);
+      else if (failed.length === 0) toast('المهام المحددة مطابقة بالفعل');
+      if (failed.length > 0) toast.error(`تعذر التطبيق على ${failed.length} مهمة`);
+      onDone(failed.map((r) => r.taskId));
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'فشل تنفيذ العملية'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="fixed bottom-4 inset-x-4 z-40 mx-auto max-w-5xl">
+      {failures.length > 0 && (
+        <div className="glass mb-2 max-h-40 overflow-y-auto p-3 space-y-1 text-xs">
+          <div className="flex items-center justify-between text-red-300">
+            <span className="flex items-center gap-1.5"><AlertTriangle className="h-3.5 w-3.5" />لم تُطبق العملية على هذه المهام</span>
+            <button onClick={() => setFailures([])} className="p-1 rounded-lg text-gray-400 hover:bg-white/10"><X className="h-3.5 w-3.5" /></button>
+          </div>
+          {failures.map((f) => (
+            <p key={f.taskId} className="text-gray-300">
+              <span className="text-white">{f.title}</span>: {f.error}
+            </p>
+          ))}
+        </div>
+      )}
+
+      <div className="glass flex items-center gap-2 flex-wrap p-3 shadow-2xl border border-brand-500/30">
+        <span className="text-sm font-medium text-brand-300 whitespace-nowrap">تم تحديد {tasks.length} مهمة</span>
+
+        <select value={action} onChange={(e) => setAction(e.target.value as BulkAction)} className="input-field w-auto text-sm py-1.5">
+          {Object.entries(ACTION_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+        </select>
+
+        {action === 'status' && (
+          <>
+            <select value={status} onChange={(e) => setStatus(e.target.value)} className="input-field w-auto text-sm py-1.5">
+              {Object.entries(TASK_STATUS_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+            </select>
+            <label className="flex items-center gap-1.5 text-xs text-gray-400" title="تجاوز المهام السابقة والفرعية وحدود العمل الجاري">
+              <input type="checkbox" checked={force} onChange={(e) => setForce(e.target.checked)} />
+              تجاوز القيود
+            </label>
+          </>
+        )}
+
+        {action === 'priority' && (
+          <select value={priority} onChange={(e) => setPriority(e.target.value)} className="input-field w-auto text-sm py-1.5">
+            {Object.entries(PRIORITY_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+          </select>
+        )}
+
+        {action === 'shift_dates' && (
+          <label className="flex items-center gap-2 text-xs text-gray-400">
+            <input type="number" min={-365} max={365} value={days} onChange={(e) => setDays(e.target.value)} className="input-field w-20 text-sm py-1.5" />
+            يوم (سالب للتقديم)
+          </label>
+        )}
+
+        {action === 'reassign' && (
+          <>
+            <select value={assigneeType} onChange={(e) => setAssigneeType(e.target.value)} className="input-field w-auto text-sm py-1.5">
+              {Object.entries(ASSIGNEE_TYPE_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+            </select>
+            {assigneeType === 'TRACK' && (
+              <select value={assigneeTrackId} onChange={(e) => setAssigneeTrackId(e.target.value)} className="input-field w-auto text-sm py-1.5">
+                <option value="">اختر المسار</option>
+                {tracks.map((t) => <option key={t.id} value={t.id}>{t.nameAr}</option>)}
+              </select>
+            )}
+            {assigneeType === 'USER' && (
+              <select value={assigneeUserId} onChange={(e) => setAssigneeUserId(e.target.value)} className="input-field w-auto text-sm py-1.5">
+                <option value="">اختر الموظف</option>
+                {users.map((u) => <option key={u.id} value={u.id}>{u.nameAr || u.name}</option>)}
+              </select>
+            )}
+          </>
+        )}
+
+        {action === 'scope_block' && (
+          sharedTrackId ? (
+            <select value={scopeBlockId} onChange={(e) => setScopeBlockId(e.target.value)} className="input-field w-auto max-w-xs text-sm py-1.5">
+              <option value="">بدون عنصر نطاق</option>
+              {blocks.map((b) => <option key={b.id} value={b.id}>{b.label}</option>)}
+            </select>
+          ) : (
+            <span className="text-xs text-amber-300">اختر مهاماً من مسار واحد</span>
+          )
+        )}
+
+        <div className="flex items-center gap-2 mr-auto">
+          <button onClick={handleApply} disabled={busy || !canApply}
+            className={cn('flex items-center gap-1.5 rounded-xl px-4 py-2 text-sm font-medium transition-colors disabled:opacity-50',
+              action === 'delete' ? 'bg-red-500/20 text-red-300 hover:bg-red-500/30' : 'bg-brand-500/20 text-brand-300 hover:bg-brand-500/30')}>
+            {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+            تطبيق
+          </button>
+          <button onClick={onClear} className="p-2 rounded-xl text-gray-400 hover:bg-white/10 transition-colors" title="إلغاء التحديد">
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
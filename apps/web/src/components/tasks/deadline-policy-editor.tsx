@@ -0,0 +1,159 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { RotateCcw } from 'lucide-react';
+import { tracksApi } from '@/lib/api';
+import { PRIORITY_LABELS } from '@/lib/utils';
+
+interface Rule {
+  reminderDays: number[];
+  trackLeadAfterDays: number;
+  managementAfterDays: number;
+}
+
+// Editable copy of a rule; reminder days are typed as a comma-separated list
+interface RuleDraft {
+  reminderDays: string;
+  trackLeadAfterDays: number;
+  managementAfterDays: number;
+}
+
+interface Props {
+  trackId: string;
+  canEdit: boolean;
+}
+
+const toDraft = (rule: Rule): RuleDraft => ({ ...rule, reminderDays: rule.reminderDays.join('، ') });
+
+const toRule = (draft: RuleDraft): Rule => ({
+  reminderDays: draft.reminderDays.split(/[,،\s]+/).map((d) => parseInt(d, 10)).filter((d) => d > 0),
+  trackLeadAfterDays: draft.trackLeadAfterDays,
+  managementAfterDays: draft.managementAfterDays,
+});
+
+/** Per-track deadline reminders and overdue escalation ladder, optionally overridden per priority. */
+export default function DeadlinePolicyEditor({ trackId, canEdit }: Props) {
+  const [rule, setRule] = useState<RuleDraft | null>(null);
+  const [priorities, setPriorities] = useState<Record<string, RuleDraft>>({});
+  const [isDefault, setIsDefault] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = () =>
+    tracksApi.getDeadlinePolicy(trackId)
+      .then(({ data }) => {
+        setRule(toDraft(data.policy.default));
+        setPriorities(Object.fromEntries(
+          Object.entries(data.policy.priorities || {}).map(([priority, r]) => [priority, toDraft(r as Rule)]),
+        ));
+        setIsDefault(data.isDefault);
+        setDirty(false);
+      })
+      .catch(() => toast.error('فشل تحميل سياسة المواعيد'))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    load();
+  }, [trackId]);
+
+  const togglePriority = (priority: string) => {
+    setPriorities((current) => {
+      const next = { ...current };
+      if (next[priority]) delete next[priority];
+      else if (rule) next[priority] = { ...rule };
+      return next;
+    });
+    setDirty(true);
+  };
+
+  const save = async (reset = false) => {
+    if (!rule) return;
+    if (reset && !window.confirm('إعادة سياسة المواعيد الافتراضية لهذا المسار؟')) return;
+    setSaving(true);
+    try {
+      await tracksApi.setDeadlinePolicy(trackId, reset ? { default: null } : {
+        default: toRule(rule),
+        priorities: Object.fromEntries(Object.entries(priorities).map(([priority, draft]) => [priority, toRule(draft)])),
+      });
+      toast.success(reset ? 'تمت إعادة السياسة الافتراضية' : 'تم حفظ سياسة المواعيد');
+      load();
+    } catch (err: any) {
+      const message = err?.response?.data?.message;
+      toast.error(Array.isArray(message) ? message[0] : message || 'فشل حفظ سياسة المواعيد');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading || !rule) {
+    return <div className="h-16 flex items-center justify-center text-sm text-gray-500">جاري التحميل...</div>;
+  }
+
+  const ruleFields = (draft: RuleDraft, onChange: (patch: Partial<RuleDraft>) => void) => (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+      <label className="text-xs text-gray-400 space-y-1">
+        <span>التذكير قبل الموعد (أيام)</span>
+        <input value={draft.reminderDays} disabled={!canEdit} placeholder="3، 1"
+          onChange={(e) => onChange({ reminderDays: e.target.value })} className="input-field py-1.5 text-xs" />
+      </label>
+      <label className="text-xs text-gray-400 space-y-1">
+        <span>التصعيد لقائد المسار بعد (أيام تأخر)</span>
+        <input type="number" min={0} value={draft.trackLeadAfterDays} disabled={!canEdit}
+          onChange={(e) => onChange({ trackLeadAfterDays: Math.max(0, Number(e.target.value)) })} className="input-field py-1.5 text-xs" />
+      </label>
+      <label className="text-xs text-gray-400 space-y-1">
+        <span>التصعيد للإدارة بعد (أيام تأخر)</span>
+        <input type="number" min={0} value={draft.managementAfterDays} disabled={!canEdit}
+          onChange={(e) => onChange({ managementAfterDays: Math.max(0, Number(e.target.value)) })} className="input-field py-1.5 text-xs" />
+      </label>
+    </div>
+  );
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        {isDefault ? 'يستخدم هذا المسار سياسة المواعيد الافتراضية.' : 'سياسة مواعيد مخصصة لهذا المسار.'}
+        {' '}يُشعَر المسؤولون عن المهمة فور تأخرها، ثم قائد المسار، ثم مدير المشروع ومدير النظام.
+      </p>
+
+      <div className="rounded-xl border border-white/10 bg-white/[0.03] p-3 space-y-2">
+        <p className="text-xs font-medium text-gray-300">القاعدة العامة</p>
+        {ruleFields(rule, (patch) => { setRule({ ...rule, ...patch }); setDirty(true); })}
+      </div>
+
+      {Object.entries(PRIORITY_LABELS).map(([priority, label]) => {
+        const draft = priorities[priority];
+        if (!draft && !canEdit) return null;
+        return (
+          <div key={priority} className="rounded-xl border border-white/10 bg-white/[0.03] p-3 space-y-2">
+            <label className="flex items-center gap-2 text-xs text-gray-300">
+              <input type="checkbox" checked={!!draft} disabled={!canEdit}
+                onChange={() => togglePriority(priority)} className="accent-brand-500" />
+              قاعدة خاصة بالأولوية «{label}»
+            </label>
+            {draft && ruleFields(draft, (patch) => {
+              setPriorities((current) => ({ ...current, [priority]: { ...draft, ...patch } }));
+              setDirty(true);
+            })}
+          </div>
+        );
+      })}
+
+      {canEdit && (
+        <div className="flex items-center gap-2 flex-wrap">
+          {!isDefault && (
+            <button onClick={() => save(true)} disabled={saving} className="btn-secondary text-sm flex items-center gap-2 disabled:opacity-50">
+              <RotateCcw className="w-4 h-4" />
+              استعادة الافتراضي
+            </button>
+          )}
+          <button onClick={() => save()} disabled={saving || !dirty} className="btn-primary text-sm mr-auto disabled:opacity-50">
+            {saving ? 'جاري الحفظ...' : 'حفظ السياسة'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,369 @@
+'use client';
+
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { CalendarRange } from 'lucide-react';
+import { cn, formatDate, TASK_STATUS_LABELS } from '@/lib/utils';
+
+export interface TimelineTask {
+  id: string;
+  title: string;
+  titleAr: string;
+  status: string;
+  priority: string;
+  progress: number;
+  trackId?: string | null;
+  scopeBlockId?: string | null;
+  startDate?: string | null;
+  dueDate?: string | null;
+  completionDate?: string | null;
+  createdAt: string;
+  track?: { id: string; nameAr: string; color: string } | null;
+}
+
+export interface TimelineData {
+  tasks: TimelineTask[];
+  dependencies: Array<{ id: string; predecessorId: string; successorId: string; type: string; lagDays: number }>;
+  scopeBlocks: Array<{ id: string; trackId: string; code: string; title: string; parentId?: string | null; orderIndex: number }>;
+  milestones: Array<{ key: string; labelAr: string; startDate: string; endDate: string }>;
+}
+
+interface Props {
+  data: TimelineData;
+  groupBy: 'scopeBlock' | 'track';
+  canEdit: boolean;
+  onReschedule: (taskId: string, dates: { startDate: string; dueDate: string }) => Promise<void>;
+  onTaskClick?: (taskId: string) => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROW_HEIGHT = 34;
+const HEADER_HEIGHT = 44;
+const LABEL_WIDTH = 224;
+
+const SCALES = {
+  day: { label: 'يوم', dayWidth: 32 },
+  week: { label: 'أسبوع', dayWidth: 12 },
+  month: { label: 'شهر', dayWidth: 4 },
+} as const;
+type ScaleKey = keyof typeof SCALES;
+
+const BAR_COLORS: Record<string, string> = {
+  pending: '#6b7280',
+  in_progress: '#3b82f6',
+  under_review: '#f97316',
+  completed: '#10b981',
+  delayed: '#ef4444',
+  cancelled: '#71717a',
+};
+
+const monthFormat = new Intl.DateTimeFormat('ar-SA-u-ca-gregory', { month: 'short', year: 'numeric' });
+
+/** Midnight UTC of the given date, as a day number since the epoch. */
+const dayNumber = (date: string | Date) => Math.floor(new Date(date).getTime() / DAY_MS);
+const isoDay = (day: number) => new Date(day * DAY_MS).toISOString().substring(0, 10);
+
+interface Row {
+  kind: 'group' | 'task';
+  key: string;
+  label: string;
+  color?: string;
+  task?: TimelineTask;
+  start?: number;
+  end?: number;
+}
+
+interface DragState {
+  taskId: string;
+  mode: 'move' | 'resize';
+  originX: number;
+  delta: number;
+}
+
+/**
+ * Right-to-left Gantt: time runs from right to left to match the page
+ * direction. Bars can be dragged to move a task or stretched from their
+ * end to change the due date; arrows show dependencies (red when violated).
+ */
+export default function GanttChart({ data, groupBy, canEdit, onReschedule, onTaskClick }: Props) {
+  const [scale, setScale] = useState<ScaleKey>('week');
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [saving, setSaving] = useState<string | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const dayWidth = SCALES[scale].dayWidth;
+  const today = dayNumber(new Date());
+
+  // ── Rows, grouped by scope block or track ──
+  const { rows, unscheduled } = useMemo(() => {
+    const scheduled = data.tasks.filter((t) => t.dueDate);
+    const groups = new Map<string, { label: string; color?: string; order: number; tasks: TimelineTask[] }>();
+
+    if (groupBy === 'scopeBlock') {
+      data.scopeBlocks.forEach((b, i) => groups.set(b.id, { label: `${b.code} — ${b.title}`, order: i, tasks: [] }));
+    }
+    for (const task of scheduled) {
+      const key = groupBy === 'scopeBlock' ? task.scopeBlockId || 'none' : task.trackId || 'none';
+      if (!groups.has(key)) {
+        const label = key === 'none'
+          ? (groupBy === 'scopeBlock' ? 'بدون بند نطاق' : 'بدون مسار')
+          : task.track?.nameAr || key;
+        groups.set(key, { label, color: task.track?.color, order: key === 'none' ? Infinity : groups.size, tasks: [] });
+      }
+      groups.get(key)!.tasks.push(task);
+    }
+
+    const result: Row[] = [];
+    [...groups.entries()]
+      .filter(([, g]) => g.tasks.length > 0)
+      .sort(([, a], [, b]) => a.order - b.order)
+      .forEach(([key, g]) => {
+        result.push({ kind: 'group', key: `group-${key}`, label: g.label, color: g.color });
+        g.tasks.forEach((task) => {
+          const end = dayNumber(task.dueDate!);
+          const start = Math.min(dayNumber(task.startDate || task.createdAt), end);
+          result.push({ kind: 'task', key: task.id, label: task.titleAr || task.title, task, start, end });
+        });
+      });
+    return { rows: result, unscheduled: data.tasks.length - scheduled.length };
+  }, [data, groupBy]);
+
+  // ── Visible range: all tasks, today and the next Hajj season, with padding ──
+  const { rangeStart, rangeEnd } = useMemo(() => {
+    const days = rows.flatMap((r) => (r.kind === 'task' ? [r.start!, r.end!] : []));
+    const nextSeason = data.milestones.find((m) => dayNumber(m.endDate) >= today);
+    if (nextSeason) days.push(dayNumber(nextSeason.endDate));
+    return {
+      rangeStart: Math.min(today, ...days) - 7,
+      rangeEnd: Math.max(today, ...days) + 14,
+    };
+  }, [rows, data.milestones, today]);
+
+  const totalDays = rangeEnd - rangeStart + 1;
+  const width = totalDays * dayWidth;
+  const height = rows.length * ROW_HEIGHT;
+  // Distance from the right edge of the chart to the start of a day
+  const offset = (day: number) => (day - rangeStart) * dayWidth;
+
+  // Open on today
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    el.scrollLeft = -Math.max(0, offset(today) - el.clientWidth / 3);
+  }, [scale, rangeStart]);
+
+  const months = useMemo(() => {
+    const result: Array<{ day: number; label: string }> = [];
+    const cursor = new Date(rangeStart * DAY_MS);
+    cursor.setUTCDate(1);
+    while (dayNumber(cursor) <= rangeEnd) {
+      const day = dayNumber(cursor);
+      if (day >= rangeStart) result.push({ day, label: monthFormat.format(cursor) });
+      cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    }
+    return result;
+  }, [rangeStart, rangeEnd]);
+
+  // ── Drag to reschedule ──
+  const previewDates = (row: Row) => {
+    if (!drag || drag.taskId !== row.key) return { start: row.start!, end: row.end! };
+    if (drag.mode === 'move') return { start: row.start! + drag.delta, end: row.end! + drag.delta };
+    return { start: row.start!, end: Math.max(row.start!, row.end! + drag.delta) };
+  };
+
+  useEffect(() => {
+    if (!drag) return;
+    const onMove = (e: PointerEvent) => {
+      // Dragging left moves later in a right-to-left chart
+      const delta = Math.round((drag.originX - e.clientX) / dayWidth);
+      if (delta !== drag.delta) setDrag({ ...drag, delta });
+    };
+    const onUp = async () => {
+      const current = drag;
+      setDrag(null);
+      const row = rows.find((r) => r.key === current.taskId);
+      if (!row) return;
+      if (current.delta === 0) {
+        onTaskClick?.(current.taskId);
+        return;
+      }
+      const { start, end } = previewDates(row);
+      setSaving(current.taskId);
+      try {
+        await onReschedule(current.taskId, { startDate: isoDay(start), dueDate: isoDay(end) });
+      } finally {
+        setSaving(null);
+      }
+    };
+    window.addEventListener('pointermove', onMove);
+    window.addEventListener('pointerup', onUp);
+    return () => {
+      window.removeEventListener('pointermove', onMove);
+      window.removeEventListener('pointerup', onUp);
+    };
+  }, [drag, dayWidth, rows]);
+
+  const startDrag = (e: React.PointerEvent, row: Row, mode: DragState['mode']) => {
+    e.stopPropagation();
+    if (!canEdit || row.task!.status === 'completed' || row.task!.status === 'cancelled') {
+      if (mode === 'move') onTaskClick?.(row.key);
+      return;
+    }
+    e.preventDefault();
+    setDrag({ taskId: row.key, mode, originX: e.clientX, delta: 0 });
+  };
+
+  // ── Dependency arrows (SVG uses left-based coordinates) ──
+  const rowIndex = new Map(rows.map((r, i) => [r.key, i]));
+  const arrows = data.dependencies.flatMap((dep) => {
+    const pi = rowIndex.get(dep.predecessorId);
+    const si = rowIndex.get(dep.successorId);
+    if (pi === undefined || si === undefined) return [];
+    const pred = previewDates(rows[pi]);
+    const succ = previewDates(rows[si]);
+    // Same rule as the API: FS waits for the predecessor's due date, SS for its start
+    const anchor = dep.type === 'SS' ? pred.start : pred.end;
+    const violated = succ.start < anchor + dep.lagDays;
+    const x1 = width - offset(dep.type === 'SS' ? pred.start : pred.end + 1);
+    const x2 = width - offset(succ.start) + 1;
+    const y1 = pi * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const y2 = si * ROW_HEIGHT + ROW_HEIGHT / 2;
+    const bend = x1 - 8;
+    return [{ id: dep.id, violated, d: `M ${x1} ${y1} L ${bend} ${y1} L ${bend} ${y2} L ${x2} ${y2}` }];
+  });
+
+  if (rows.length === 0) {
+    return (
+      <div className="text-center py-10 text-gray-500">
+        <CalendarRange className="w-8 h-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">لا توجد مهام بتاريخ استحقاق لعرضها على المخطط الزمني</p>
+        {unscheduled > 0 && <p className="text-xs mt-1">{unscheduled} مهمة بدون تاريخ استحقاق</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-1.5">
+          {(Object.keys(SCALES) as ScaleKey[]).map((key) => (
+            <button key={key} onClick={() => setScale(key)}
+              className={cn('px-3 py-1.5 rounded-lg text-xs font-medium transition-colors',
+                scale === key ? 'bg-brand-500/20 text-brand-300' : 'bg-white/5 text-gray-400 hover:bg-white/10')}
+            >
+              {SCALES[key].label}
+            </button>
+          ))}
+        </div>
+        <div className="flex items-center gap-3 text-[10px] text-gray-400">
+          <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-red-500" />اليوم</span>
+          <span className="flex items-center gap-1.5"><span className="w-3 h-3 rounded bg-amber-500/20 border border-amber-500/40" />موسم الحج</span>
+          {unscheduled > 0 && <span>{unscheduled} مهمة بدون تاريخ استحقاق</span>}
+        </div>
+      </div>
+
+      <div className="flex rounded-xl border border-white/10 overflow-hidden bg-white/[0.02]">
+        {/* Labels */}
+        <div className="shrink-0 border-l border-white/10" style={{ width: LABEL_WIDTH }}>
+          <div className="border-b border-white/10" style={{ height: HEADER_HEIGHT }} />
+          {rows.map((row) => (
+            <div key={row.key} style={{ height: ROW_HEIGHT }}
+              className={cn('flex items-center gap-2 px-3 border-b border-white/5 truncate',
+                row.kind === 'group' ? 'bg-white/5 text-xs font-medium text-gray-300' : 'text-xs text-white cursor-pointer hover:bg-white/5')}
+              onClick={() => row.kind === 'task' && onTaskClick?.(row.key)}
+            >
+              {row.kind === 'group' && row.color && <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: row.color }} />}
+              <span className="truncate">{row.label}</span>
+            </div>
+          ))}
+        </div>
+
+        {/* Chart */}
+        <div ref={scrollRef} className="flex-1 overflow-x-auto">
+          <div className="relative" style={{ width, height: HEADER_HEIGHT + height }}>
+            {/* Month header */}
+            <div className="absolute top-0 inset-x-0 border-b border-white/10" style={{ height: HEADER_HEIGHT }}>
+              {months.map((m) => (
+                <div key={m.day} className="absolute top-0 h-full border-r border-white/10 px-1.5 pt-1.5 text-[10px] text-gray-400 whitespace-nowrap"
+                  style={{ right: offset(m.day) }}>
+                  {m.label}
+                </div>
+              ))}
+            </div>
+
+            <div className="absolute inset-x-0" style={{ top: HEADER_HEIGHT, height }}>
+              {/* Month grid lines */}
+              {months.map((m) => (
+                <div key={m.day} className="absolute top-0 bottom-0 border-r border-white/5" style={{ right: offset(m.day) }} />
+              ))}
+
+              {/* Hajj seasons */}
+              {data.milestones.map((m) => {
+                const start = dayNumber(m.startDate);
+                const end = dayNumber(m.endDate);
+                if (end < rangeStart || start > rangeEnd) return null;
+                return (
+                  <div key={m.key} title={m.labelAr}
+                    className="absolute top-0 bottom-0 bg-amber-500/10 border-x border-amber-500/30"
+                    style={{ right: offset(start), width: (end - start + 1) * dayWidth }}>
+                    <span className="absolute -top-0 right-1 text-[9px] text-amber-300 whitespace-nowrap">{m.labelAr}</span>
+                  </div>
+                );
+              })}
+
+              {/* Rows */}
+              {rows.map((row, i) => {
+                if (row.kind === 'group') {
+                  return <div key={row.key} className="absolute inset-x-0 bg-white/5" style={{ top: i * ROW_HEIGHT, height: ROW_HEIGHT }} />;
+                }
+                const { start, end } = previewDates(row);
+                const task = row.task!;
+                const color = BAR_COLORS[task.status] || BAR_COLORS.pending;
+                const barWidth = (end - start + 1) * dayWidth;
+                return (
+                  <div key={row.key}
+                    onPointerDown={(e) => startDrag(e, row, 'move')}
+                    title={`${row.label}\n${TASK_STATUS_LABELS[task.status] || task.status} · ${formatDate(isoDay(start))} - ${formatDate(isoDay(end))}`}
+                    className={cn('absolute rounded-md select-none touch-none overflow-hidden',
+                      canEdit ? 'cursor-grab active:cursor-grabbing' : 'cursor-pointer',
+                      saving === row.key && 'opacity-50',
+                      drag?.taskId === row.key && 'ring-2 ring-white/40')}
+                    style={{ top: i * ROW_HEIGHT + 7, height: ROW_HEIGHT - 14, right: offset(start), width: barWidth, backgroundColor: `${color}40` }}
+                  >
+                    <div className="absolute inset-y-0 right-0" style={{ width: `${task.progress || 0}%`, backgroundColor: color }} />
+                    {barWidth > 60 && (
+                      <span className="relative px-1.5 text-[10px] leading-5 text-white whitespace-nowrap">{row.label}</span>
+                    )}
+                    {canEdit && (
+                      <div onPointerDown={(e) => startDrag(e, row, 'resize')}
+                        className="absolute inset-y-0 left-0 w-1.5 cursor-ew-resize bg-white/20 hover:bg-white/40" />
+                    )}
+                  </div>
+                );
+              })}
+
+              {/* Dependencies */}
+              <svg className="absolute inset-0 pointer-events-none" width={width} height={height}>
+                <defs>
+                  <marker id="gantt-arrow" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 z" fill="#9ca3af" />
+                  </marker>
+                  <marker id="gantt-arrow-late" markerWidth="6" markerHeight="6" refX="5" refY="3" orient="auto">
+                    <path d="M0,0 L6,3 L0,6 z" fill="#ef4444" />
+                  </marker>
+                </defs>
+                {arrows.map((a) => (
+                  <path key={a.id} d={a.d} fill="none" strokeWidth={1.25}
+                    stroke={a.violated ? '#ef4444' : '#9ca3af'}
+                    markerEnd={`url(#${a.violated ? 'gantt-arrow-late' : 'gantt-arrow'})`} />
+                ))}
+              </svg>
+
+              {/* Today */}
+              <div className="absolute top-0 bottom-0 w-0.5 bg-red-500/80 pointer-events-none"
+                style={{ right: offset(today) + dayWidth / 2 }} />
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,290 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Calendar, Settings2, Users } from 'lucide-react';
+import { tasksApi, tracksApi } from '@/lib/api';
+import { getSocket } from '@/lib/socket';
+import { useAuth } from '@/stores/auth';
+import { Task } from '@/stores/tasks';
+import { cn, formatDate, TASK_STATUS_LABELS, PRIORITY_LABELS, PRIORITY_COLORS } from '@/lib/utils';
+
+const COLUMNS = Object.keys(TASK_STATUS_LABELS);
+
+type BoardTask = Task & { allowedStatuses: string[] };
+type Swimlane = 'none' | 'track' | 'assignee';
+
+interface Lane {
+  key: string;
+  label: string;
+  color?: string;
+  trackId?: string;
+  tasks: BoardTask[];
+}
+
+interface Props {
+  trackId?: string;
+  onTaskClick: (taskId: string) => void;
+}
+
+const taskTrack = (task: Task) => task.track || task.assigneeTrack;
+
+function assigneeLabel(task: Task) {
+  if (task.assigneeType === 'USER' && task.assigneeUser) return task.assigneeUser.nameAr || task.assigneeUser.name;
+  if (task.assignments && task.assignments.length > 0) {
+    return task.assignments.map((a) => a.user.nameAr || a.user.name).join('، ');
+  }
+  if (task.assigneeType === 'HR') return 'الموارد البشرية';
+  if (task.assigneeType === 'TRACK' && task.assigneeTrack) return task.assigneeTrack.nameAr;
+  return 'غير مسندة';
+}
+
+export default function KanbanBoard({ trackId, onTaskClick }: Props) {
+  const { user } = useAuth();
+  const [tasks, setTasks] = useState<BoardTask[]>([]);
+  const [wipLimits, setWipLimits] = useState<Record<string, Record<string, number>>>({});
+  const [loading, setLoading] = useState(true);
+  const [swimlane, setSwimlane] = useState<Swimlane>(trackId ? 'none' : 'track');
+  const [dragged, setDragged] = useState<BoardTask | null>(null);
+  const [hoverColumn, setHoverColumn] = useState<string | null>(null);
+  const [editingLimits, setEditingLimits] = useState(false);
+  const [limitDraft, setLimitDraft] = useState<Record<string, string>>({});
+
+  const isAdminOrPm = user?.role === 'admin' || user?.role === 'pm';
+  const canEditLimits = !!trackId && (isAdminOrPm || user?.role === 'track_lead');
+
+  const loadBoard = useCallback(async () => {
+    try {
+      const { data } = await tasksApi.board(trackId ? { trackId } : undefined);
+      setTasks(data.tasks || []);
+      setWipLimits(data.wipLimits || {});
+    } catch {
+      toast.error('فشل تحميل اللوحة');
+    } finally {
+      setLoading(false);
+    }
+  }, [trackId]);
+
+  useEffect(() => {
+    loadBoard();
+  }, [loadBoard]);
+
+  useEffect(() => {
+    const socket = getSocket();
+    const reload = () => loadBoard();
+    socket.on('task.created', reload);
+    socket.on('task.updated', reload);
+    socket.on('task.deleted', reload);
+    socket.on('tasks.bulk_updated', reload);
+    return () => {
+      socket.off('task.created', reload);
+      socket.off('task.updated', reload);
+      socket.off('task.deleted', reload);
+      socket.off('tasks.bulk_updated', reload);
+    };
+  }, [loadBoard]);
+
+  const lanes: Lane[] = useMemo(() => {
+    if (swimlane === 'none') return [{ key: 'all', label: '', trackId, tasks }];
+    const map = new Map<string, Lane>();
+    for (const task of tasks) {
+      let key: string;
+      let lane: Omit<Lane, 'tasks'>;
+      if (swimlane === 'track') {
+        const track = taskTrack(task);
+        key = track?.id || 'none';
+        lane = { key, label: track?.nameAr || 'بدون مسار', color: track?.color, trackId: track?.id };
+      } else {
+        key = assigneeLabel(task);
+        lane = { key, label: key, trackId };
+      }
+      if (!map.has(key)) map.set(key, { ...lane, tasks: [] });
+      map.get(key)!.tasks.push(task);
+    }
+    return [...map.values()].sort((a, b) => a.label.localeCompare(b.label, 'ar'));
+  }, [tasks, swimlane, trackId]);
+
+  const columnCount = (laneTrackId: string | undefined, status: string) =>
+    tasks.filter((t) => t.status === status && (!laneTrackId || taskTrack(t)?.id === laneTrackId)).length;
+
+  const moveTask = async (task: BoardTask, status: string, force = false, comment?: string) => {
+    const previous = task.status;
+    setTasks((list) => list.map((t) => (t.id === task.id ? { ...t, status: status as Task['status'] } : t)));
+    try {
+      await tasksApi.updateStatus(task.id, status, force || undefined, comment);
+      toast.success('تم تحديث الحالة');
+      loadBoard();
+    } catch (err: any) {
+      setTasks((list) => list.map((t) => (t.id === task.id ? { ...t, status: previous } : t)));
+      const body = err?.response?.data;
+      const message = body?.message || 'فشل تحديث الحالة';
+      // The workflow wants a reason for this move: ask for it and retry
+      if (!comment && body?.missingFields?.length === 1 && body.missingFields[0] === 'comment') {
+        const reason = window.prompt(`سبب نقل المهمة إلى «${TASK_STATUS_LABELS[status]}»`);
+        if (reason?.trim()) moveTask(task, status, force, reason.trim());
+        return;
+      }
+      if (!force && isAdminOrPm && (body?.blockers || body?.wipLimit)) {
+        if (window.confirm(`${message}\n\nهل تريد تجاوز القيد ونقل المهمة على أي حال؟`)) {
+          moveTask(task, status, true, comment);
+        }
+        return;
+      }
+      toast.error(message);
+    }
+  };
+
+  const handleDrop = (status: string) => {
+    const task = dragged;
+    setDragged(null);
+    setHoverColumn(null);
+    if (!task || task.status === status || !task.allowedStatuses.includes(status)) return;
+    moveTask(task, status);
+  };
+
+  const openLimitsEditor = () => {
+    const current = (trackId && wipLimits[trackId]) || {};
+    setLimitDraft(Object.fromEntries(COLUMNS.map((s) => [s, current[s] ? String(current[s]) : ''])));
+    setEditingLimits(true);
+  };
+
+  const saveLimits = async () => {
+    if (!trackId) return;
+    const limits: Record<string, number> = {};
+    for (const [status, value] of Object.entries(limitDraft)) {
+      const n = parseInt(value, 10);
+      if (n > 0) limits[status] = n;
+    }
+    try {
+      await tracksApi.update(trackId, { wipLimits: Object.keys(limits).length > 0 ? limits : null });
+      toast.success('تم حفظ حدود العمل الجاري');
+      setEditingLimits(false);
+      loadBoard();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل حفظ الحدود');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center h-40">
+        <div className="w-8 h-8 border-2 border-brand-500 border-t-transparent rounded-full animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {/* Toolbar */}
+      <div className="flex items-center justify-between flex-wrap gap-3">
+        <select value={swimlane} onChange={(e) => setSwimlane(e.target.value as Swimlane)} className="input-field w-auto">
+          <option value="none">بدون تقسيم</option>
+          {!trackId && <option value="track">تقسيم حسب المسار</option>}
+          <option value="assignee">تقسيم حسب المسؤول</option>
+        </select>
+        {canEditLimits && (
+          <button onClick={openLimitsEditor} className="btn-secondary flex items-center gap-2 text-sm">
+            <Settings2 className="w-4 h-4" />
+            حدود العمل الجاري
+          </button>
+        )}
+      </div>
+
+      {editingLimits && (
+        <div className="glass p-4 space-y-3">
+          <p className="text-sm text-gray-400">الحد الأقصى لعدد المهام في كل عمود (اتركه فارغاً لإلغاء الحد)</p>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {COLUMNS.map((status) => (
+              <label key={status} className="text-xs text-gray-400 space-y-1">
+                <span>{TASK_STATUS_LABELS[status]}</span>
+                <input type="number" min={0} value={limitDraft[status] || ''}
+                  onChange={(e) => setLimitDraft((d) => ({ ...d, [status]: e.target.value }))}
+                  className="input-field" />
+              </label>
+            ))}
+          </div>
+          <div className="flex gap-2 justify-end">
+            <button onClick={() => setEditingLimits(false)} className="btn-secondary text-sm">إلغاء</button>
+            <button onClick={saveLimits} className="btn-primary text-sm">حفظ</button>
+          </div>
+        </div>
+      )}
+
+      {lanes.length === 0 && <p className="text-center text-gray-500 py-10">لا توجد مهام</p>}
+
+      {lanes.map((lane) => {
+        const limits = (lane.trackId && wipLimits[lane.trackId]) || {};
+        return (
+          <div key={lane.key} className="space-y-2">
+            {lane.label && (
+              <div className="flex items-center gap-2 text-sm font-medium">
+                {swimlane === 'track'
+                  ? <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: lane.color || '#6b7280' }} />
+                  : <Users className="w-4 h-4 text-gray-400" />}
+                {lane.label}
+                <span className="text-xs text-gray-500">({lane.tasks.length})</span>
+              </div>
+            )}
+            <div className="grid grid-flow-col auto-cols-[minmax(220px,1fr)] gap-3 overflow-x-auto pb-2">
+              {COLUMNS.map((status) => {
+                const cards = lane.tasks.filter((t) => t.status === status);
+                const limit = limits[status];
+                // Limits are per track, so count the whole track even when laned by assignee
+                const count = limit ? columnCount(lane.trackId, status) : cards.length;
+                const overLimit = !!limit && count > limit;
+                const droppable = !!dragged && dragged.status !== status && dragged.allowedStatuses.includes(status);
+                return (
+                  <div key={status}
+                    onDragOver={(e) => { if (droppable) { e.preventDefault(); setHoverColumn(`${lane.key}:${status}`); } }}
+                    onDragLeave={() => setHoverColumn(null)}
+                    onDrop={(e) => { e.preventDefault(); handleDrop(status); }}
+                    className={cn(
+                      'rounded-xl bg-white/5 p-2 min-h-[120px] transition-opacity',
+                      dragged && !droppable && dragged.status !== status && 'opacity-40',
+                      hoverColumn === `${lane.key}:${status}` && 'ring-2 ring-brand-500',
+                    )}>
+                    <div className="flex items-center justify-between px-1 pb-2 text-xs">
+                      <span className="font-medium text-gray-300">{TASK_STATUS_LABELS[status]}</span>
+                      <span className={cn('px-1.5 py-0.5 rounded', overLimit ? 'bg-red-500/20 text-red-300' : 'text-gray-500')}>
+                        {limit ? `${count}/${limit}` : count}
+                      </span>
+                    </div>
+                    <div className="space-y-2">
+                      {cards.map((task) => (
+                        <div key={task.id}
+                          draggable={task.allowedStatuses.length > 0}
+                          onDragStart={() => setDragged(task)}
+                          onDragEnd={() => { setDragged(null); setHoverColumn(null); }}
+                          onClick={() => onTaskClick(task.id)}
+                          className={cn(
+                            'rounded-lg bg-gray-900/80 border border-white/5 p-2.5 space-y-2 hover:border-brand-500/40',
+                            task.allowedStatuses.length > 0 ? 'cursor-grab' : 'cursor-pointer',
+                          )}>
+                          <p className="text-sm leading-snug line-clamp-2">{task.titleAr || task.title}</p>
+                          <div className="flex items-center justify-between gap-2 text-[11px] text-gray-500">
+                            <span className={cn('px-1.5 py-0.5 rounded', PRIORITY_COLORS[task.priority])}>
+                              {PRIORITY_LABELS[task.priority] || task.priority}
+                            </span>
+                            {task.dueDate && (
+                              <span className="flex items-center gap-1">
+                                <Calendar className="w-3 h-3" />
+                                {formatDate(task.dueDate)}
+                              </span>
+                            )}
+                          </div>
+                          {swimlane !== 'assignee' && (
+                            <p className="text-[11px] text-gray-500 truncate">{assigneeLabel(task)}</p>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Bookmark, Link2, Loader2, Save, Settings2, Trash2, X } from 'lucide-react';
+import { cn, ROLE_LABELS } from '@/lib/utils';
+import { taskViewsApi } from '@/lib/api';
+import { useAuth } from '@/stores/auth';
+
+/** Everything a saved view restores on the tasks page. */
+export interface TaskViewState {
+  tab: string;
+  status: string;
+  priority: string;
+  trackId: string;
+  assigneeType: string;
+  search: string;
+  overdue: boolean;
+  sortBy: string;
+  sortDir: 'asc' | 'desc';
+  groupBy: string;
+  columns: string[];
+  viewType: 'list' | 'table' | 'board';
+}
+
+export interface SavedTaskView {
+  id: string;
+  name: string;
+  ownerId: string;
+  visibility: 'private' | 'track' | 'global';
+  trackId: string | null;
+  filters: Partial<Record<'tab' | 'status' | 'priority' | 'trackId' | 'assigneeType' | 'search', string>> & { overdue?: boolean };
+  sortBy: string;
+  sortDir: 'asc' | 'desc';
+  groupBy: string | null;
+  columns: string[];
+  viewType: 'list' | 'table' | 'board';
+  defaultForRoles: string[];
+  owner?: { id: string; name: string; nameAr: string };
+  track?: { id: string; nameAr: string; color: string } | null;
+}
+
+export const VISIBILITY_LABELS: Record<string, string> = {
+  private: 'خاص بي',
+  track: 'مشترك مع مسار',
+  global: 'عام للجميع',
+};
+
+export const stateOfView = (view: SavedTaskView, fallbackTab: string): TaskViewState => ({
+  tab: view.filters.tab || fallbackTab,
+  status: view.filters.status || '',
+  priority: view.filters.priority || '',
+  trackId: view.filters.trackId || '',
+  assigneeType: view.filters.assigneeType || '',
+  search: view.filters.search || '',
+  overdue: !!view.filters.overdue,
+  sortBy: view.sortBy,
+  sortDir: view.sortDir,
+  groupBy: view.groupBy || '',
+  columns: view.columns,
+  viewType: view.viewType,
+});
+
+/** The view fields of a state, as POST/PATCH /task-views take them. */
+const viewPayload = (state: TaskViewState) => ({
+  filters: {
+    tab: state.tab,
+    ...(state.status && { status: state.status }),
+    ...(state.priority && { priority: state.priority }),
+    ...(state.trackId && { trackId: state.trackId }),
+    ...(state.assigneeType && { assigneeType: state.assigneeType }),
+    ...(state.search && { search: state.search }),
+    ...(state.overdue && { overdue: true }),
+  },
+  sortBy: state.sortBy,
+  sortDir: state.sortDir,
+  groupBy: state.groupBy || null,
+  columns: state.columns,
+  viewType: state.viewType,
+});
+
+/** Query string of the tasks page for a state, so it can be sent as a link. */
+export const stateToQuery = (state: TaskViewState, viewId?: string) => {
+  const params = new URLSearchParams();
+  if (viewId) params.set('view', viewId);
+  params.set('tab', state.tab);
+  if (state.status) params.set('status', state.status);
+  if (state.priority) params.set('priority', state.priority);
+  if (state.trackId) params.set('trackId', state.trackId);
+  if (state.assigneeType) params.set('assigneeType', state.assigneeType);
+  if (state.search) params.set('search', state.search);
+  if (state.overdue) params.set('overdue', 'true');
+  if (state.sortBy !== 'dueDate' || state.sortDir !== 'asc') {
+    params.set('sortBy', state.sortBy);
+    params.set('sortDir', state.sortDir);
+  }
+  if (state.groupBy) params.set('groupBy', state.groupBy);
+  if (state.viewType !== 'list') params.set('type', state.viewType);
+  if (state.viewType === 'table' && state.columns.length > 0) params.set('columns', state.columns.join(','));
+  return params.toString();
+};
+
+/** The state a tasks page link describes, on top of `base`; null when the link has none. */
+export const stateFromQuery = (params: URLSearchParams, base: TaskViewState): TaskViewState | null => {
+  if (!params.has('tab')) return null;
+  const type = params.get('type');
+  return {
+    ...base,
+    tab: params.get('tab') || base.tab,
+    status: params.get('status') || '',
+    priority: params.get('priority') || '',
+    trackId: params.get('trackId') || '',
+    assigneeType: params.get('assigneeType') || '',
+    search: params.get('search') || '',
+    overdue: params.get('overdue') === 'true',
+    sortBy: params.get('sortBy') || 'dueDate',
+    sortDir: params.get('sortDir') === 'desc' ? 'desc' : 'asc',
+    groupBy: params.get('groupBy') || '',
+    columns: params.get('columns')?.split(',').filter(Boolean) || base.columns,
+    viewType: type === 'table' || type === 'board' ? type : 'list',
+  };
+};
+
+const sameState = (a: TaskViewState, b: TaskViewState) => JSON.stringify(a) === JSON.stringify(b);
+
+interface Props {
+  views: SavedTaskView[];
+  activeView: SavedTaskView | null;
+  state: TaskViewState;
+  tracks: Array<{ id: string; nameAr: string }>;
+  onSelect: (view: SavedTaskView | null) => void;
+  onSaved: (view: SavedTaskView) => void;
+  onDeleted: (id: string) => void;
+}
+
+const errorMessage = (err: any, fallback: string) => {
+  const message = err?.response?.data?.message;
+  return Array.isArray(message) ? message[0] : message || fallback;
+};
+
+/** Saved views picker of the tasks page: switch, save, share, delete and copy a link to the current view. */
+export default function SavedViewsMenu({ views, activeView, state, tracks, onSelect, onSaved, onDeleted }: Props) {
+  const { user } = useAuth();
+  const isAdminOrPm = user?.role === 'admin' || user?.role === 'pm';
+  const [dialog, setDialog] = useState<'create' | 'edit' | null>(null);
+  const [name, setName] = useState('');
+  const [visibility, setVisibility] = useState<SavedTaskView['visibility']>('private');
+  const [shareTrackId, setShareTrackId] = useState('');
+  const [defaultForRoles, setDefaultForRoles] = useState<string[]>([]);
+  const [busy, setBusy] = useState(false);
+
+  // Tracks the user may share with: any for admin/pm, their own for track leads
+  const shareTracks = useMemo(() => {
+    if (isAdminOrPm) return tracks;
+    if (user?.role !== 'track_lead') return [];
+    const own = new Set((user.trackPermissions || []).map((tp) => tp.trackId));
+    return tracks.filter((t) => own.has(t.id));
+  }, [isAdminOrPm, tracks, user]);
+
+  const canEdit = (view: SavedTaskView) => view.ownerId === user?.id || (view.visibility !== 'private' && isAdminOrPm);
+  const dirty = !!activeView && !sameState(stateOfView(activeView, state.tab), state);
+
+  const groups = [
+    { label: 'عروضي', items: views.filter((v) => v.ownerId === user?.id) },
+    { label: 'عروض المسارات', items: views.filter((v) => v.ownerId !== user?.id && v.visibility === 'track') },
+    { label: 'عروض عامة', items: views.filter((v) => v.ownerId !== user?.id && v.visibility === 'global') },
+  ].filter((g) => g.items.length > 0);
+
+  const openDialog = (mode: 'create' | 'edit') => {
+    const source = mode === 'edit' ? activeView : null;
+    setName(source?.name || '');
+    setVisibility(source?.visibility || 'private');
+    setShareTrackId(source?.trackId || state.trackId || shareTracks[0]?.id || '');
+    setDefaultForRoles(source?.defaultForRoles || []);
+    setDialog(mode);
+  };
+
+  const handleSubmit = async () => {
+    if (name.trim().length < 2) return;
+    setBusy(true);
+    const sharing = {
+      name: name.trim(),
+      visibility,
+      trackId: visibility === 'track' ? shareTrackId : undefined,
+      defaultForRoles: visibility === 'global' ? defaultForRoles : [],
+    };
+    try {
+      const { data } = dialog === 'edit' && activeView
+        ? await taskViewsApi.update(activeView.id, sharing)
+        : await taskViewsApi.create({ ...sharing, ...viewPayload(state) });
+      toast.success(dialog === 'edit' ? 'تم تحديث العرض' : 'تم حفظ العرض');
+      setDialog(null);
+      onSaved(data);
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'فشل حفظ العرض'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleUpdate = async () => {
+    if (!activeView) return;
+    setBusy(true);
+    try {
+      const { data } = await taskViewsApi.update(activeView.id, viewPayload(state));
+      toast.success('تم تحديث العرض');
+      onSaved(data);
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'فشل تحديث العرض'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!activeView || !confirm(`حذف العرض «${activeView.name}»؟`)) return;
+    try {
+      await taskViewsApi.delete(activeView.id);
+      toast.success('تم حذف العرض');
+      onDeleted(activeView.id);
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'فشل حذف العرض'));
+    }
+  };
+
+  const handleCopyLink = () => {
+    const link = `${window.location.origin}/tasks?${stateToQuery(state, activeView && !dirty ? activeView.id : undefined)}`;
+    navigator.clipboard.writeText(link).then(
+      () => toast.success('تم نسخ رابط العرض'),
+      () => toast.error('تعذر نسخ الرابط'),
+    );
+  };
+
+  return (
+    <div className="flex items-center gap-2 flex-wrap">
+      <div className="relative">
+        <Bookmark className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500 pointer-events-none" />
+        <select
+          value={activeView?.id || ''}
+          onChange={(e) => onSelect(views.find((v) => v.id === e.target.value) || null)}
+          className="input-field w-auto pr-9"
+        >
+          <option value="">بدون عرض محفوظ</option>
+          {groups.map((group) => (
+            <optgroup key={group.label} label={group.label}>
+              {group.items.map((v) => (
+                <option key={v.id} value={v.id}>
+                  {v.name}{v.track ? ` · ${v.track.nameAr}` : ''}{v.defaultForRoles.includes(user?.role || '') ? ' (افتراضي)' : ''}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      </div>
+
+      {activeView && dirty && canEdit(activeView) && (
+        <button onClick={handleUpdate} disabled={busy}
+          className="flex items-center gap-1.5 rounded-xl bg-brand-500/20 px-3 py-2 text-xs font-medium text-brand-300 hover:bg-brand-500/30 transition-colors disabled:opacity-50">
+          {busy ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : <Save className="h-3.5 w-3.5" />}
+          حفظ التغييرات
+        </button>
+      )}
+      <button onClick={() => openDialog('create')}
+        className="rounded-xl bg-white/5 px-3 py-2 text-xs font-medium text-gray-300 hover:bg-white/10 transition-colors">
+        حفظ كعرض جديد
+      </button>
+      {activeView && canEdit(activeView) && (
+        <>
+          <button onClick={() => openDialog('edit')} className="p-2 rounded-xl bg-white/5 text-gray-400 hover:bg-white/10 transition-colors" title="إعدادات العرض">
+            <Settings2 className="h-4 w-4" />
+          </button>
+          <button onClick={handleDelete} className="p-2 rounded-xl bg-white/5 text-gray-400 hover:text-red-400 hover:bg-red-500/10 transition-colors" title="حذف العرض">
+            <Trash2 className="h-4 w-4" />
+          </button>
+        </>
+      )}
+      <button onClick={handleCopyLink} className="p-2 rounded-xl bg-white/5 text-gray-400 hover:bg-white/10 transition-colors" title="نسخ رابط العرض">
+        <Link2 className="h-4 w-4" />
+      </button>
+
+      {dialog && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm p-4" onClick={() => setDialog(null)}>
+          <div className="glass w-full max-w-md p-6 space-y-4" onClick={(e) => e.stopPropagation()}>
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-bold">{dialog === 'edit' ? 'إعدادات العرض' : 'حفظ العرض الحالي'}</h2>
+              <button onClick={() => setDialog(null)} className="p-1.5 rounded-lg text-gray-400 hover:bg-white/10"><X className="h-4 w-4" /></button>
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-400 mb-1.5">اسم العرض</label>
+              <input value={name} onChange={(e) => setName(e.target.value)} className="input-field" placeholder="مثال: المهام الحرجة المتأخرة" autoFocus />
+            </div>
+
+            <div>
+              <label className="block text-sm text-gray-400 mb-1.5">المشاركة</label>
+              <div className="grid grid-cols-3 gap-2">
+                {(['private', 'track', 'global'] as const).map((v) => {
+                  const allowed = v === 'private' || (v === 'track' ? shareTracks.length > 0 : isAdminOrPm);
+                  return (
+                    <button key={v} type="button" disabled={!allowed} onClick={() => setVisibility(v)}
+                      className={cn('rounded-xl px-2 py-2 text-xs font-medium transition-colors disabled:opacity-30',
+                        visibility === v ? 'bg-brand-500/20 text-brand-300' : 'bg-white/5 text-gray-400 hover:bg-white/10')}>
+                      {VISIBILITY_LABELS[v]}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            {visibility === 'track' && (
+              <select value={shareTrackId} onChange={(e) => setShareTrackId(e.target.value)} className="input-field">
+                {shareTracks.map((t) => <option key={t.id} value={t.id}>{t.nameAr}</option>)}
+              </select>
+            )}
+
+            {visibility === 'global' && isAdminOrPm && (
+              <div>
+                <label className="block text-sm text-gray-400 mb-1.5">العرض الافتراضي لصفحة المهام عند</label>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(ROLE_LABELS).map(([role, label]) => (
+                    <label key={role} className="flex items-center gap-1.5 rounded-lg bg-white/5 px-2.5 py-1.5 text-xs text-gray-300 cursor-pointer">
+                      <input type="checkbox" checked={defaultForRoles.includes(role)}
+                        onChange={(e) => setDefaultForRoles(e.target.checked ? [...defaultForRoles, role] : defaultForRoles.filter((r) => r !== role))} />
+                      {label}
+                    </label>
+                  ))}
+                </div>
+                <p className="mt-1.5 text-[11px] text-gray-500">يحل محل العرض الافتراضي السابق لهذه الأدوار</p>
+              </div>
+            )}
+
+            <div className="flex justify-end gap-2 pt-2">
+              <button onClick={() => setDialog(null)} className="btn-secondary text-sm">إلغاء</button>
+              <button onClick={handleSubmit} disabled={busy || name.trim().length < 2 || (visibility === 'track' && !shareTrackId)}
+                className="btn-primary text-sm flex items-center gap-2 disabled:opacity-50">
+                {busy && <Loader2 className="h-4 w-4 animate-spin" />}
+                حفظ
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Calendar, ChevronLeft, EyeOff, Loader2, Plus, User } from 'lucide-react';
+import { cn, formatDate, TASK_STATUS_LABELS, TASK_STATUS_COLORS } from '@/lib/utils';
+import { tasksApi, usersApi } from '@/lib/api';
+import { Task } from '@/stores/tasks';
+
+type SubtaskNode = Task & { subtasks: SubtaskNode[]; hiddenCount: number };
+
+interface Props {
+  task: Task;
+  canManage: boolean;
+  onChange: () => void;
+  onOpenTask?: (task: Task) => void;
+}
+
+const assigneeName = (task: Task) =>
+  task.assigneeUser?.nameAr || task.assigneeUser?.name
+  || task.assignments?.map((a) => a.user.nameAr || a.user.name).join('، ')
+  || task.assigneeTrack?.nameAr
+  || '';
+
+/** Subtasks of a task as a tree, with the parent's rollup settings and a quick add form. */
+export default function SubtaskTree({ task, canManage, onChange, onOpenTask }: Props) {
+  const [tree, setTree] = useState<{ subtasks: SubtaskNode[]; hiddenCount: number } | null>(null);
+  const [users, setUsers] = useState<Array<{ id: string; name: string; nameAr: string }>>([]);
+  const [title, setTitle] = useState('');
+  const [assigneeUserId, setAssigneeUserId] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [savingRule, setSavingRule] = useState(false);
+
+  const load = () =>
+    tasksApi.subtasks(task.id)
+      .then((res) => setTree(res.data))
+      .catch(() => toast.error('فشل تحميل المهام الفرعية'));
+
+  useEffect(() => {
+    load();
+  }, [task.id]);
+
+  useEffect(() => {
+    if (!canManage) return;
+    usersApi.list({ pageSize: 200 })
+      .then((res) => setUsers(res.data?.data || res.data || []))
+      .catch(() => setUsers([]));
+  }, [canManage]);
+
+  const handleAdd = async () => {
+    if (!title.trim()) return;
+    setAdding(true);
+    try {
+      // Without a chosen assignee the subtask is assigned like its parent
+      await tasksApi.create({
+        title: title.trim(),
+        titleAr: title.trim(),
+        parentId: task.id,
+        priority: task.priority,
+        dueDate: dueDate || undefined,
+        ...(assigneeUserId
+          ? { assigneeType: 'USER', assigneeUserId }
+          : {
+              assigneeType: task.assigneeType,
+              assigneeTrackId: task.assigneeType === 'TRACK' ? task.assigneeTrackId : undefined,
+              assigneeUserId: task.assigneeType === 'USER' ? task.assigneeUserId : undefined,
+            }),
+      });
+      setTitle('');
+      setAssigneeUserId('');
+      setDueDate('');
+      toast.success('تمت إضافة المهمة الفرعية');
+      load();
+      onChange();
+    } catch (err: any) {
+      const message = err?.response?.data?.message;
+      toast.error(Array.isArray(message) ? message[0] : message || 'فشل إضافة المهمة الفرعية');
+    } finally {
+      setAdding(false);
+    }
+  };
+
+  const handleToggleAutoComplete = async () => {
+    setSavingRule(true);
+    try {
+      await tasksApi.update(task.id, { completeWithSubtasks: !(task.completeWithSubtasks ?? true) });
+      onChange();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل حفظ الإعداد');
+    } finally {
+      setSavingRule(false);
+    }
+  };
+
+  const renderLevel = (nodes: SubtaskNode[], hiddenCount: number, depth: number) => (
+    <div className={cn('space-y-1.5', depth > 0 && 'mr-4 border-r border-white/10 pr-3')}>
+      {nodes.map((node) => {
+        const isOverdue = node.dueDate && new Date(node.dueDate) < new Date() && node.status !== 'completed' && node.status !== 'cancelled';
+        const assignee = assigneeName(node);
+        return (
+          <div key={node.id} className="space-y-1.5">
+            <button onClick={() => onOpenTask?.(node)} disabled={!onOpenTask}
+              className="w-full bg-white/5 rounded-xl p-3 text-right hover:bg-white/10 transition-colors disabled:cursor-default">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-sm text-white truncate">{node.titleAr || node.title}</span>
+                <span className={cn('px-2 py-0.5 rounded-lg text-[10px] font-medium shrink-0', TASK_STATUS_COLORS[node.status] || 'bg-gray-500/20 text-gray-300')}>
+                  {TASK_STATUS_LABELS[node.status] || node.status}
+                </span>
+              </div>
+              <div className="mt-2 h-1.5 rounded-full bg-white/10 overflow-hidden">
+                <div className="h-full bg-brand-500" style={{ width: `${node.progress ?? 0}%` }} />
+              </div>
+              <div className="mt-2 flex items-center gap-3 text-[11px] text-gray-400 flex-wrap">
+                <span>{node.progress ?? 0}%</span>
+                {assignee && <span className="flex items-center gap-1"><User className="h-3 w-3" />{assignee}</span>}
+                {node.dueDate && (
+                  <span className={cn('flex items-center gap-1', isOverdue && 'text-red-400')}>
+                    <Calendar className="h-3 w-3" />{formatDate(node.dueDate)}
+                  </span>
+                )}
+                {node.subtasks.length > 0 && <span className="flex items-center gap-1"><ChevronLeft className="h-3 w-3" />{node.subtasks.length} فرعية</span>}
+              </div>
+            </button>
+            {(node.subtasks.length > 0 || node.hiddenCount > 0) && renderLevel(node.subtasks, node.hiddenCount, depth + 1)}
+          </div>
+        );
+      })}
+      {hiddenCount > 0 && (
+        <p className="flex items-center gap-1.5 text-[11px] text-gray-500">
+          <EyeOff className="h-3 w-3" />
+          {hiddenCount} من المهام الفرعية غير متاحة لك
+        </p>
+      )}
+    </div>
+  );
+
+  if (!tree) {
+    return <div className="flex items-center justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-gray-500" /></div>;
+  }
+
+  const hasSubtasks = tree.subtasks.length > 0 || tree.hiddenCount > 0;
+
+  return (
+    <div className="space-y-3">
+      {hasSubtasks && (
+        <div className="bg-white/5 rounded-xl p-3 space-y-2">
+          <p className="text-xs text-gray-400">
+            يُحسب تقدم المهمة من تقدم مهامها الفرعية حسب أوزانها، ولا تُحتسب المهام الملغاة.
+          </p>
+          <label className="flex items-center gap-2 text-xs text-gray-300">
+            <input type="checkbox" checked={task.completeWithSubtasks ?? true} disabled={!canManage || savingRule}
+              onChange={handleToggleAutoComplete} className="accent-brand-500" />
+            إكمال المهمة تلقائياً عند اكتمال جميع مهامها الفرعية
+          </label>
+        </div>
+      )}
+
+      {canManage && (
+        <div className="bg-white/5 rounded-xl p-3 space-y-2">
+          <input type="text" value={title} onChange={(e) => setTitle(e.target.value)}
+            placeholder="عنوان المهمة الفرعية..." className="input-field text-sm"
+            onKeyDown={(e) => e.key === 'Enter' && handleAdd()} />
+          <div className="flex gap-2">
+            <select value={assigneeUserId} onChange={(e) => setAssigneeUserId(e.target.value)} className="input-field flex-1 text-sm">
+              <option value="">نفس تعيين المهمة الأم</option>
+              {users.map((u) => <option key={u.id} value={u.id}>{u.nameAr || u.name}</option>)}
+            </select>
+            <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} className="input-field w-40 text-sm" />
+            <button onClick={handleAdd} disabled={adding || !title.trim()}
+              className="rounded-xl bg-brand-500/20 px-3 py-2 text-brand-300 hover:bg-brand-500/30 disabled:opacity-50 transition-colors">
+              {adding ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {hasSubtasks
+        ? renderLevel(tree.subtasks, tree.hiddenCount, 0)
+        : <p className="text-center text-sm text-gray-500 py-6">لا توجد مهام فرعية</p>}
+    </div>
+  );
+}
@@ -2,7 +2,7 @@
 
 import { useState } from 'react';
 import { cn, formatDate, TASK_STATUS_LABELS, TASK_STATUS_COLORS, PRIORITY_LABELS, PRIORITY_COLORS, ASSIGNEE_TYPE_LABELS, ASSIGNEE_TYPE_COLORS } from '@/lib/utils';
-import { Calendar, Users, User, Building2, Globe, Hash, CheckSquare, RefreshCw, Paperclip, ChevronDown, Loader2 } from 'lucide-react';
+import { Calendar, Users, User, Building2, Globe, Hash, CheckSquare, Square, RefreshCw, Paperclip, ChevronDown, Loader2 } from 'lucide-react';
 import { Task } from '@/stores/tasks';
 import { tasksApi } from '@/lib/api';
 import toast from 'react-hot-toast';
@@ -20,6 +20,9 @@ interface Props {
   task: Task;
   onClick: (task: Task) => void;
   onStatusChange?: () => void;
+  // Selection mode: clicking the card toggles it instead of opening it
+  selected?: boolean;
+  onSelect?: (task: Task) => void;
 }
 
 const ASSIGNEE_TYPE_ICONS: Record<string, typeof Users> = {
@@ -29,7 +32,7 @@ const ASSIGNEE_TYPE_ICONS: Record<string, typeof Users> = {
   GLOBAL: Globe,
 };
 
-export default function TaskCard({ task, onClick, onStatusChange }: Props) {
+export default function TaskCard({ task, onClick, onStatusChange, selected, onSelect }: Props) {
   const [statusOpen, setStatusOpen] = useState(false);
   const [updating, setUpdating] = useState(false);
   const [optimisticStatus, setOptimisticStatus] = useState<string | null>(null);
@@ -80,16 +83,20 @@ export default function TaskCard({ task, onClick, onStatusChange }: Props) {
 
   return (
     <button
-      onClick={() => onClick(task)}
+      onClick={() => (onSelect ? onSelect(task) : onClick(task))}
       className={cn(
         'glass rounded-2xl border border-white/10 p-6 text-right transition-all duration-200 hover:bg-white/10 w-full',
         isOverdue && 'border-red-500/50 shadow-[0_0_15px_rgba(239,68,68,0.15)]',
+        selected && 'border-brand-500/70 bg-brand-500/10',
       )}
     >
       {/* Header: Title + Badges */}
       <div className="mb-4">
-        <h3 className="text-sm font-semibold text-white truncate mb-3">
-          {task.titleAr || task.title}
+        <h3 className="text-sm font-semibold text-white truncate mb-3 flex items-center gap-2">
+          {onSelect && (selected
+            ? <CheckSquare className="h-4 w-4 shrink-0 text-brand-400" />
+            : <Square className="h-4 w-4 shrink-0 text-gray-500" />)}
+          <span className="truncate">{task.titleAr || task.title}</span>
         </h3>
         <div className="flex items-center gap-2 flex-wrap">
           {/* Inline status dropdown */}
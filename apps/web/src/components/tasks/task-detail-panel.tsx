@@ -4,36 +4,45 @@ import { useState, useEffect } from 'react';
 import {
   X, Calendar, Flag, Activity, Users, User, Clock, FileText, ChevronLeft,
   Building2, Globe, History, CheckSquare, MessageSquare, StickyNote, RefreshCw,
-  Plus, Trash2, Loader2, Send, Hash, Paperclip, Upload, Download,
+  Plus, Trash2, Loader2, Send, Hash, Paperclip, Upload, Download, GitBranch, AlertTriangle, BellRing, Repeat, ListTree, Timer,
 } from 'lucide-react';
 import toast from 'react-hot-toast';
 import {
   cn, formatDate, formatDateTime,
   TASK_STATUS_LABELS, TASK_STATUS_COLORS, PRIORITY_LABELS, PRIORITY_COLORS,
   ASSIGNEE_TYPE_LABELS, ASSIGNEE_TYPE_COLORS,
-  CHECKLIST_STATUS_LABELS, CHECKLIST_STATUS_COLORS,
+  CHECKLIST_STATUS_LABELS, CHECKLIST_STATUS_COLORS, WORKFLOW_FIELD_LABELS, describeRecurrence, formatMinutes,
 } from '@/lib/utils';
-import { tasksApi } from '@/lib/api';
+import { tasksApi, attachmentsApi, downloadAttachment } from '@/lib/api';
 import { useAuth } from '@/stores/auth';
 import { Task } from '@/stores/tasks';
 import CommentThread from '@/components/comments/comment-thread';
+import PresenceAvatars from '@/components/presence-avatars';
+import AttachmentChips from '@/components/attachment-chips';
+import SubtaskTree from '@/components/tasks/subtask-tree';
+import TimeTracker from '@/components/tasks/time-tracker';
 
 interface Props {
   task: Task;
   onClose: () => void;
   onUpdate: () => void;
+  // Opens another task (a subtask or the parent) in place of this one
+  onOpenTask?: (task: Task) => void;
 }
 
-const STATUS_FLOW: Record<string, string[]> = {
-  pending: ['in_progress'],
-  in_progress: ['under_review', 'completed', 'delayed'],
-  under_review: ['completed', 'in_progress'],
-  delayed: ['in_progress', 'completed'],
-  completed: [],
-  cancelled: [],
-};
+interface StatusTransition {
+  to: string;
+  requiredFields: string[];
+  missingFields: string[];
+  progress: number | null;
+}
 
-type TabKey = 'details' | 'checklist' | 'updates' | 'files' | 'notes' | 'comments' | 'audit';
+type TabKey = 'details' | 'checklist' | 'subtasks' | 'time' | 'updates' | 'files' | 'dependencies' | 'notes' | 'comments' | 'audit';
+
+const DEPENDENCY_TYPE_LABELS: Record<string, string> = {
+  FS: 'تنتهي ثم تبدأ',
+  SS: 'تبدأ ثم تبدأ',
+};
 
 const AUDIT_ACTION_LABELS: Record<string, string> = {
   CREATED: 'إنشاء', UPDATED: 'تحديث', STATUS_CHANGED: 'تغيير الحالة',
@@ -43,18 +52,56 @@ const AUDIT_ACTION_LABELS: Record<string, string> = {
   ADMIN_NOTE_ADDED: 'ملاحظة إدارية', ADMIN_NOTE_UPDATED: 'تحديث ملاحظة',
   ADMIN_NOTE_DELETED: 'حذف ملاحظة', UPDATE_ADDED: 'تحديث يومي',
   FILE_UPLOADED: 'رفع ملف', FILE_DELETED: 'حذف ملف',
+  DEPENDENCY_ADDED: 'إضافة تبعية', DEPENDENCY_REMOVED: 'حذف تبعية',
+  DEPENDENCY_OVERRIDDEN: 'بدء رغم التبعيات', DATES_SHIFTED: 'ترحيل التواريخ',
+  WIP_LIMIT_OVERRIDDEN: 'تجاوز حد العمل الجاري',
+  REVIEW_APPROVED: 'اعتماد المراجعة', REVIEW_CHANGES_REQUESTED: 'طلب تعديلات',
+  RECURRENCE_SET: 'جدولة التكرار', RECURRENCE_STOPPED: 'إيقاف التكرار',
+  RECURRENCE_UPDATED: 'تحديث المهام القادمة',
+  SUBTASKS_OVERRIDDEN: 'إكمال رغم المهام الفرعية', AUTO_COMPLETED: 'إكمال تلقائي',
+  AUTO_REOPENED: 'إعادة فتح تلقائية', CREATED_FROM_TEMPLATE: 'إنشاء من قالب',
 };
 
+interface ReviewInfo {
+  reviewers: Array<{ id: string; name: string; nameAr: string }>;
+  isDefault: boolean;
+  canReview: boolean;
+  decisions: Array<{ id: string; action: string; afterJson: any; createdAt: string; actor: { nameAr: string; name: string } }>;
+}
+
+interface DeadlineInfo {
+  rule: { reminderDays: number[]; trackLeadAfterDays: number; managementAfterDays: number };
+  isTrackPolicy: boolean;
+  notices: Array<{ id: string; stage: string; dueDate: string; createdAt: string; recipients: Array<{ id: string; name: string; nameAr: string }> }>;
+}
+
+function deadlineStageLabel(stage: string) {
+  if (stage === 'escalation_assignee') return 'إشعار التأخر للمسؤولين';
+  if (stage === 'escalation_track_lead') return 'تصعيد إلى قائد المسار';
+  if (stage === 'escalation_management') return 'تصعيد إلى الإدارة';
+  const reminder = stage.match(/^reminder_(\d+)d$/);
+  if (reminder) return `تذكير قبل الموعد بـ ${reminder[1]} يوم`;
+  const overdueDay = stage.match(/^overdue_day_(\d+)$/);
+  if (overdueDay) return `تذكير يومي (متأخرة ${overdueDay[1]} يوم)`;
+  return stage;
+}
+
 const ASSIGNEE_TYPE_ICONS: Record<string, typeof Users> = {
   TRACK: Users, USER: User, HR: Building2, GLOBAL: Globe,
 };
 
-export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }: Props) {
+export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate, onOpenTask }: Props) {
   const { user } = useAuth();
   const [task, setTask] = useState(initialTask);
   const [detailLoading, setDetailLoading] = useState(true);
   const [activeTab, setActiveTab] = useState<TabKey>('details');
   const [updatingStatus, setUpdatingStatus] = useState(false);
+  const [transitions, setTransitions] = useState<StatusTransition[]>([]);
+  const [commentFor, setCommentFor] = useState<string | null>(null);
+  const [statusComment, setStatusComment] = useState('');
+  const [review, setReview] = useState<ReviewInfo | null>(null);
+  const [reviewComment, setReviewComment] = useState('');
+  const [submittingReview, setSubmittingReview] = useState(false);
   const [progress, setProgress] = useState(initialTask.progress ?? 0);
   const [savingProgress, setSavingProgress] = useState(false);
 
@@ -69,10 +116,14 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
   const [newNote, setNewNote] = useState('');
   const [addingNote, setAddingNote] = useState(false);
 
+  // Deadline reminders and escalations, loaded with the audit tab
+  const [deadlines, setDeadlines] = useState<DeadlineInfo | null>(null);
+
   // Task Updates state
   const [taskUpdates, setTaskUpdates] = useState(initialTask.taskUpdates || []);
   const [newUpdate, setNewUpdate] = useState('');
   const [addingUpdate, setAddingUpdate] = useState(false);
+  const [updateFiles, setUpdateFiles] = useState<File[]>([]);
 
   // Files state
   const [taskFiles, setTaskFiles] = useState(initialTask.files || []);
@@ -80,6 +131,16 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
   const [fileNotes, setFileNotes] = useState('');
   const [deletingFileId, setDeletingFileId] = useState<string | null>(null);
 
+  // Dependencies state
+  const [dependencies, setDependencies] = useState<{ predecessors: any[]; successors: any[]; blockers: any[] }>({
+    predecessors: [], successors: [], blockers: [],
+  });
+  const [depSearch, setDepSearch] = useState('');
+  const [depResults, setDepResults] = useState<any[]>([]);
+  const [depType, setDepType] = useState('FS');
+  const [depLag, setDepLag] = useState(0);
+  const [addingDep, setAddingDep] = useState(false);
+
   // Load full task details on mount
   useEffect(() => {
     const loadDetail = async () => {
@@ -97,8 +158,44 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
       }
     };
     loadDetail();
+    loadDependencies();
+    loadTransitions();
+    loadReview();
   }, [initialTask.id]);
 
+  // Re-reads the task after changes elsewhere roll into it (e.g. subtasks)
+  const refreshTask = () =>
+    tasksApi.get(initialTask.id)
+      .then(({ data }) => { setTask(data); setProgress(data.progress ?? 0); })
+      .catch(() => {});
+
+  const loadReview = () =>
+    tasksApi.getReview(initialTask.id)
+      .then((res) => setReview(res.data))
+      .catch(() => setReview(null));
+
+  // Only the transitions the track's workflow grants this user are offered
+  const loadTransitions = () =>
+    tasksApi.transitions(initialTask.id)
+      .then((res) => setTransitions(res.data || []))
+      .catch(() => setTransitions([]));
+
+  const loadDependencies = () =>
+    tasksApi.getDependencies(initialTask.id)
+      .then((res) => setDependencies(res.data))
+      .catch(() => {});
+
+  // Search candidate predecessors while typing
+  useEffect(() => {
+    if (depSearch.trim().length < 2) { setDepResults([]); return; }
+    const timer = setTimeout(() => {
+      tasksApi.list({ search: depSearch.trim(), pageSize: 8, tab: 'all' })
+        .then((res) => setDepResults((res.data.data || []).filter((t: any) => t.id !== initialTask.id)))
+        .catch(() => setDepResults([]));
+    }, 300);
+    return () => clearTimeout(timer);
+  }, [depSearch, initialTask.id]);
+
   const statusLabel = TASK_STATUS_LABELS[task.status] || task.status;
   const statusColor = TASK_STATUS_COLORS[task.status] || 'bg-gray-500/20 text-gray-300';
   const priorityLabel = PRIORITY_LABELS[task.priority] || task.priority;
@@ -113,8 +210,9 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
   const isAdminOrPm = user?.role === 'admin' || user?.role === 'pm';
   const isTrackLead = user?.role === 'track_lead';
   const canChangeStatus = isAssigned || isDirectAssignee || isAdminOrPm;
+  const blockedTransitions = transitions.filter((t) => t.missingFields.length > 0);
   const canManageChecklist = isAdminOrPm || isTrackLead;
-  const nextStatuses = STATUS_FLOW[task.status] || [];
+  const hasSubtasks = (task._count?.subtasks ?? 0) > 0;
 
   // Load admin notes when tab activates (admin/pm only)
   useEffect(() => {
@@ -125,16 +223,76 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
     }
   }, [activeTab, isAdminOrPm, notesLoaded, task.id]);
 
-  const handleStatusChange = async (newStatus: string) => {
+  useEffect(() => {
+    if (activeTab === 'audit' && !deadlines) {
+      tasksApi.deadlineNotices(task.id)
+        .then((res) => setDeadlines(res.data))
+        .catch(() => {});
+    }
+  }, [activeTab, deadlines, task.id]);
+
+  const handleStatusChange = async (newStatus: string, force = false) => {
+    const transition = transitions.find((t) => t.to === newStatus);
+    if (transition?.requiredFields.includes('comment') && !statusComment.trim()) {
+      setCommentFor(newStatus);
+      return;
+    }
     setUpdatingStatus(true);
     try {
-      await tasksApi.updateStatus(task.id, newStatus);
+      const { data } = await tasksApi.updateStatus(task.id, newStatus, force, statusComment.trim() || undefined);
       toast.success('تم تحديث حالة المهمة');
+      setTask((prev) => ({ ...prev, status: data.status, progress: data.progress }));
+      setProgress(data.progress ?? 0);
+      setCommentFor(null);
+      setStatusComment('');
+      loadTransitions();
+      loadReview();
       onUpdate();
-    } catch { toast.error('فشل تحديث الحالة'); }
+    } catch (err: any) {
+      const body = err?.response?.data;
+      if (body?.blockers?.length && isAdminOrPm && !force) {
+        const names = body.blockers.map((b: any) => `• ${b.titleAr}`).join('\n');
+        if (window.confirm(`المهام السابقة التالية لم تكتمل:\n${names}\n\nهل تريد المتابعة على أي حال؟`)) {
+          return handleStatusChange(newStatus, true);
+        }
+      } else if (body?.openSubtasks?.length && isAdminOrPm && !force) {
+        const names = body.openSubtasks.map((t: any) => `• ${t.titleAr}`).join('\n');
+        if (window.confirm(`المهام الفرعية التالية لم تكتمل:\n${names}\n\nهل تريد إكمال المهمة على أي حال؟`)) {
+          return handleStatusChange(newStatus, true);
+        }
+      } else if (body?.wipLimit && isAdminOrPm && !force) {
+        if (window.confirm(`${body.message}\n\nهل تريد المتابعة على أي حال؟`)) {
+          return handleStatusChange(newStatus, true);
+        }
+      } else {
+        toast.error(err?.response?.data?.message || 'فشل تحديث الحالة');
+      }
+    }
     finally { setUpdatingStatus(false); }
   };
 
+  const handleReview = async (decision: 'approve' | 'request_changes') => {
+    if (decision === 'request_changes' && !reviewComment.trim()) {
+      toast.error('اكتب التعديلات المطلوبة أولاً');
+      return;
+    }
+    setSubmittingReview(true);
+    try {
+      const { data } = await tasksApi.review(task.id, { decision, comment: reviewComment.trim() || undefined });
+      toast.success(decision === 'approve' ? 'تم اعتماد المهمة' : 'تمت إعادة المهمة للتعديل');
+      setTask((prev) => ({ ...prev, status: data.status, progress: data.progress }));
+      setProgress(data.progress ?? 0);
+      setReviewComment('');
+      loadTransitions();
+      loadReview();
+      onUpdate();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل حفظ قرار المراجعة');
+    } finally {
+      setSubmittingReview(false);
+    }
+  };
+
   const handleProgressSave = async () => {
     setSavingProgress(true);
     try {
@@ -145,6 +303,16 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
     finally { setSavingProgress(false); }
   };
 
+  const handleStopRecurrence = async () => {
+    if (!window.confirm('إيقاف تكرار هذه المهمة؟ لن تُنشأ مهام جديدة من السلسلة، وتبقى المهام الحالية كما هي.')) return;
+    try {
+      const { data } = await tasksApi.stopRecurrence(task.id);
+      setTask(data);
+      toast.success('تم إيقاف التكرار');
+      onUpdate();
+    } catch { toast.error('فشل إيقاف التكرار'); }
+  };
+
   // ── Checklist handlers ──
   const handleAddChecklist = async () => {
     if (!newChecklistTitle.trim()) return;
@@ -201,8 +369,17 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
     setAddingUpdate(true);
     try {
       const { data } = await tasksApi.createTaskUpdate(task.id, { content: newUpdate });
+      if (updateFiles.length > 0) {
+        try {
+          const { data: attachments } = await attachmentsApi.upload('task_update', data.id, updateFiles);
+          data.attachments = attachments;
+        } catch (err: any) {
+          toast.error(err?.response?.data?.message || 'فشل رفع المرفقات');
+        }
+      }
       setTaskUpdates((prev) => [data, ...prev]);
       setNewUpdate('');
+      setUpdateFiles([]);
       toast.success('تم إضافة التحديث');
     } catch { toast.error('فشل إضافة التحديث'); }
     finally { setAddingUpdate(false); }
@@ -226,6 +403,14 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
     }
   };
 
+  const handleDownloadFile = async (file: any) => {
+    try {
+      await downloadAttachment(file.id, file.fileName);
+    } catch {
+      toast.error('فشل تحميل الملف');
+    }
+  };
+
   const handleDeleteFile = async (fileId: string) => {
     setDeletingFileId(fileId);
     try {
@@ -239,6 +424,31 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
     }
   };
 
+  // ── Dependency handlers ──
+  const handleAddDependency = async (predecessorId: string) => {
+    setAddingDep(true);
+    try {
+      await tasksApi.addDependency(task.id, { predecessorId, type: depType, lagDays: depLag });
+      setDepSearch('');
+      setDepResults([]);
+      await loadDependencies();
+      toast.success('تمت إضافة التبعية');
+      onUpdate();
+    } catch (err: any) {
+      toast.error(err?.response?.data?.message || 'فشل إضافة التبعية');
+    } finally {
+      setAddingDep(false);
+    }
+  };
+
+  const handleRemoveDependency = async (dependencyId: string) => {
+    try {
+      await tasksApi.removeDependency(task.id, dependencyId);
+      await loadDependencies();
+      toast.success('تم حذف التبعية');
+    } catch { toast.error('فشل الحذف'); }
+  };
+
   const formatFileSize = (bytes: number) => {
     if (bytes < 1024) return `${bytes} B`;
     if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
@@ -256,8 +466,11 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
   const tabs: { key: TabKey; label: string; icon: typeof Activity; count?: number }[] = [
     { key: 'details', label: 'التفاصيل', icon: Activity },
     { key: 'checklist', label: 'القائمة', icon: CheckSquare, count: checklistItems.length },
+    { key: 'subtasks', label: 'المهام الفرعية', icon: ListTree, count: task._count?.subtasks },
+    { key: 'time', label: 'الوقت', icon: Timer },
     { key: 'updates', label: 'التحديثات', icon: RefreshCw, count: taskUpdates.length },
     { key: 'files', label: 'المرفقات', icon: Paperclip, count: taskFiles.length },
+    { key: 'dependencies', label: 'التبعيات', icon: GitBranch, count: dependencies.predecessors.length + dependencies.successors.length },
     ...(isAdminOrPm ? [{ key: 'notes' as TabKey, label: 'ملاحظات', icon: StickyNote, count: task._count?.adminNotes }] : []),
     { key: 'comments', label: 'التعليقات', icon: MessageSquare },
     { key: 'audit', label: 'السجل', icon: History },
@@ -271,6 +484,13 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
         <div className="p-5 border-b border-white/10">
           <div className="flex items-start justify-between gap-3">
             <div className="flex-1 min-w-0">
+              {task.parent && (
+                <button onClick={() => onOpenTask?.(task.parent as Task)} disabled={!onOpenTask}
+                  className="flex items-center gap-1 mb-1 text-xs text-gray-400 hover:text-brand-300 transition-colors disabled:hover:text-gray-400 max-w-full">
+                  <ListTree className="w-3.5 h-3.5 shrink-0" />
+                  <span className="truncate">مهمة فرعية من: {task.parent.titleAr || task.parent.title}</span>
+                </button>
+              )}
               <h2 className="text-lg font-semibold text-white truncate">{task.titleAr || task.title}</h2>
               {task.scopeBlock && (
                 <div className="flex items-center gap-1.5 mt-1">
@@ -288,9 +508,12 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
                 {isOverdue && <span className="px-2.5 py-0.5 rounded-lg text-xs font-medium bg-red-500/20 text-red-300">متأخرة</span>}
               </div>
             </div>
-            <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-white/10 transition-colors">
-              <X className="w-5 h-5 text-gray-400" />
-            </button>
+            <div className="flex items-center gap-2">
+              <PresenceAvatars entityType="task" entityId={task.id} max={3} />
+              <button onClick={onClose} className="p-1.5 rounded-lg hover:bg-white/10 transition-colors">
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
           </div>
         </div>
 
@@ -316,18 +539,93 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
           {/* ── Details Tab ── */}
           {activeTab === 'details' && (
             <div className="space-y-3">
-              {canChangeStatus && nextStatuses.length > 0 && (
+              {dependencies.blockers.length > 0 && (task.status === 'pending' || task.status === 'delayed') && (
+                <button onClick={() => setActiveTab('dependencies')}
+                  className="w-full flex items-start gap-2 rounded-xl bg-amber-500/10 border border-amber-500/20 p-3 text-right">
+                  <AlertTriangle className="h-4 w-4 text-amber-400 shrink-0 mt-0.5" />
+                  <span className="text-xs text-amber-200">
+                    بانتظار اكتمال {dependencies.blockers.length} من المهام السابقة: {dependencies.blockers.map((b) => b.titleAr).join('، ')}
+                  </span>
+                </button>
+              )}
+
+              {transitions.length > 0 && (
                 <div className="bg-white/5 rounded-xl p-3">
                   <p className="text-xs text-gray-400 mb-2">تغيير الحالة</p>
                   <div className="flex items-center gap-2 flex-wrap">
-                    {nextStatuses.map((s) => (
-                      <button key={s} onClick={() => handleStatusChange(s)} disabled={updatingStatus}
-                        className={cn('rounded-xl px-4 py-2 text-xs font-medium transition-colors disabled:opacity-50 hover:opacity-80', TASK_STATUS_COLORS[s] || 'bg-gray-500/20 text-gray-300')}
+                    {transitions.map((t) => (
+                      <button key={t.to} onClick={() => handleStatusChange(t.to)}
+                        disabled={updatingStatus || t.missingFields.length > 0}
+                        className={cn('rounded-xl px-4 py-2 text-xs font-medium transition-colors disabled:opacity-50 hover:opacity-80',
+                          TASK_STATUS_COLORS[t.to] || 'bg-gray-500/20 text-gray-300',
+                          commentFor === t.to && 'ring-2 ring-brand-500/50')}
                       >
-                        <span className="flex items-center gap-1.5"><ChevronLeft className="h-3 w-3" />{TASK_STATUS_LABELS[s] || s}</span>
+                        <span className="flex items-center gap-1.5"><ChevronLeft className="h-3 w-3" />{TASK_STATUS_LABELS[t.to] || t.to}</span>
                       </button>
                     ))}
                   </div>
+                  {blockedTransitions.map((t) => (
+                    <p key={t.to} className="mt-2 text-[11px] text-amber-300/80">
+                      «{TASK_STATUS_LABELS[t.to] || t.to}» يتطلب: {t.missingFields.map((f) => WORKFLOW_FIELD_LABELS[f] || f).join('، ')}
+                    </p>
+                  ))}
+                  {commentFor && (
+                    <div className="mt-3 space-y-2">
+                      <textarea value={statusComment} onChange={(e) => setStatusComment(e.target.value)} rows={2} autoFocus
+                        placeholder={`سبب النقل إلى «${TASK_STATUS_LABELS[commentFor] || commentFor}»...`}
+                        className="input-field resize-none text-sm" />
+                      <div className="flex items-center gap-2 justify-end">
+                        <button onClick={() => { setCommentFor(null); setStatusComment(''); }}
+                          className="rounded-lg px-3 py-1.5 text-xs text-gray-400 hover:bg-white/10 transition-colors">
+                          إلغاء
+                        </button>
+                        <button onClick={() => handleStatusChange(commentFor)} disabled={updatingStatus || !statusComment.trim()}
+                          className="rounded-lg bg-brand-500/20 px-3 py-1.5 text-xs font-medium text-brand-300 hover:bg-brand-500/30 transition-colors disabled:opacity-50">
+                          تأكيد تغيير الحالة
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {review && (task.status === 'under_review' || review.decisions.length > 0) && (
+                <div className="bg-white/5 rounded-xl p-3 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-xs text-gray-400">المراجعة</span>
+                    <span className="text-xs text-gray-300 truncate">
+                      {review.reviewers.length > 0 ? review.reviewers.map((r) => r.nameAr || r.name).join('، ') : 'لم يحدد مراجع'}
+                      {review.isDefault && review.reviewers.length > 0 && <span className="text-gray-500"> (قائد المسار)</span>}
+                    </span>
+                  </div>
+                  {review.canReview && (
+                    <div className="space-y-2">
+                      <textarea value={reviewComment} onChange={(e) => setReviewComment(e.target.value)} rows={2}
+                        placeholder="ملاحظات المراجعة (مطلوبة عند طلب التعديل)..."
+                        className="input-field resize-none text-sm" />
+                      <div className="flex items-center gap-2">
+                        <button onClick={() => handleReview('approve')} disabled={submittingReview}
+                          className="flex-1 rounded-lg bg-emerald-500/20 px-3 py-2 text-xs font-medium text-emerald-300 hover:bg-emerald-500/30 transition-colors disabled:opacity-50">
+                          اعتماد
+                        </button>
+                        <button onClick={() => handleReview('request_changes')} disabled={submittingReview}
+                          className="flex-1 rounded-lg bg-amber-500/20 px-3 py-2 text-xs font-medium text-amber-300 hover:bg-amber-500/30 transition-colors disabled:opacity-50">
+                          طلب تعديلات
+                        </button>
+                      </div>
+                    </div>
+                  )}
+                  {review.decisions.slice(0, 3).map((d) => (
+                    <div key={d.id} className="border-t border-white/5 pt-2 text-xs">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className={d.action === 'REVIEW_APPROVED' ? 'text-emerald-300' : 'text-amber-300'}>
+                          {AUDIT_ACTION_LABELS[d.action]} — {d.actor?.nameAr || d.actor?.name}
+                        </span>
+                        <span className="text-gray-500">{formatDateTime(d.createdAt)}</span>
+                      </div>
+                      {d.afterJson?.comment && <p className="mt-1 text-gray-400 whitespace-pre-line">{d.afterJson.comment}</p>}
+                    </div>
+                  ))}
                 </div>
               )}
 
@@ -338,8 +636,13 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
                   <span className="text-sm text-white font-medium">{progress}%</span>
                 </div>
                 <input type="range" min={0} max={100} step={5} value={progress} onChange={(e) => setProgress(Number(e.target.value))}
-                  disabled={!canChangeStatus} className="w-full h-2 rounded-full appearance-none bg-white/10 accent-brand-500 cursor-pointer disabled:cursor-default disabled:opacity-60" />
-                {canChangeStatus && progress !== (task.progress ?? 0) && (
+                  disabled={!canChangeStatus || hasSubtasks} className="w-full h-2 rounded-full appearance-none bg-white/10 accent-brand-500 cursor-pointer disabled:cursor-default disabled:opacity-60" />
+                {hasSubtasks && (
+                  <button onClick={() => setActiveTab('subtasks')} className="mt-2 text-[11px] text-gray-500 hover:text-brand-300 transition-colors">
+                    يُحسب التقدم تلقائياً من {task._count?.subtasks} مهام فرعية
+                  </button>
+                )}
+                {canChangeStatus && !hasSubtasks && progress !== (task.progress ?? 0) && (
                   <button onClick={handleProgressSave} disabled={savingProgress}
                     className="mt-2 rounded-lg bg-brand-500/20 px-3 py-1.5 text-xs font-medium text-brand-300 hover:bg-brand-500/30 transition-colors disabled:opacity-50">
                     {savingProgress ? 'جاري الحفظ...' : 'حفظ التقدم'}
@@ -347,6 +650,17 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
                 )}
               </div>
 
+              {/* Effort */}
+              {(!!task.estimatedMinutes || !!task.loggedMinutes) && (
+                <button onClick={() => setActiveTab('time')}
+                  className="w-full bg-white/5 rounded-xl p-3 flex items-center justify-between text-right hover:bg-white/10 transition-colors">
+                  <span className="text-sm text-gray-400 flex items-center gap-2"><Timer className="w-4 h-4" />الوقت المسجل / التقدير</span>
+                  <span className={cn('text-sm font-medium', task.estimatedMinutes && (task.loggedMinutes ?? 0) > task.estimatedMinutes ? 'text-red-400' : 'text-white')}>
+                    {formatMinutes(task.loggedMinutes ?? 0)} / {task.estimatedMinutes ? formatMinutes(task.estimatedMinutes) : '—'}
+                  </span>
+                </button>
+              )}
+
               {/* Assignee */}
               <div className="bg-white/5 rounded-xl p-3">
                 <span className="text-sm text-gray-400 flex items-center gap-2 mb-2"><AssigneeIcon className="w-4 h-4" />معين إلى</span>
@@ -366,11 +680,38 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
                 </div>
               )}
 
+              {task.startDate && (
+                <div className="flex items-center justify-between bg-white/5 rounded-xl p-3">
+                  <span className="text-sm text-gray-400 flex items-center gap-2"><Calendar className="w-4 h-4" />تاريخ البدء</span>
+                  <span className="text-sm text-white">{formatDate(task.startDate)}</span>
+                </div>
+              )}
+
               <div className="flex items-center justify-between bg-white/5 rounded-xl p-3">
                 <span className="text-sm text-gray-400 flex items-center gap-2"><Calendar className="w-4 h-4" />تاريخ الاستحقاق</span>
                 <span className={cn('text-sm', isOverdue ? 'text-red-400' : 'text-white')}>{task.dueDate ? formatDate(task.dueDate) : '---'}</span>
               </div>
 
+              {task.recurrence && (
+                <div className="bg-white/5 rounded-xl p-3 space-y-1.5">
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm text-gray-400 flex items-center gap-2"><Repeat className="w-4 h-4" />التكرار</span>
+                    <span className="text-sm text-white">
+                      {task.recurrence.isActive ? describeRecurrence(task.recurrence.rrule) : 'متوقف'}
+                    </span>
+                  </div>
+                  {task.recurrence.isActive && task.recurrence.nextOccurrenceAt && (
+                    <p className="text-xs text-gray-500">المهمة القادمة: {formatDate(task.recurrence.nextOccurrenceAt)}</p>
+                  )}
+                  {isAdminOrPm && task.recurrence.isActive && (
+                    <button onClick={handleStopRecurrence}
+                      className="rounded-lg bg-red-500/10 px-3 py-1.5 text-xs font-medium text-red-300 hover:bg-red-500/20 transition-colors">
+                      إيقاف التكرار
+                    </button>
+                  )}
+                </div>
+              )}
+
               <div className="flex items-center justify-between bg-white/5 rounded-xl p-3">
                 <span className="text-sm text-gray-400 flex items-center gap-2"><User className="w-4 h-4" />أنشئ بواسطة</span>
                 <span className="text-sm text-white">{task.createdBy?.nameAr || task.createdBy?.name || '---'}</span>
@@ -390,6 +731,17 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
             </div>
           )}
 
+          {/* ── Subtasks Tab ── */}
+          {activeTab === 'subtasks' && (
+            <SubtaskTree task={task} canManage={isAdminOrPm} onOpenTask={onOpenTask}
+              onChange={() => { refreshTask(); onUpdate(); }} />
+          )}
+
+          {/* ── Time Tab ── */}
+          {activeTab === 'time' && (
+            <TimeTracker task={task} onChange={() => { refreshTask(); onUpdate(); }} />
+          )}
+
           {/* ── Checklist Tab ── */}
           {activeTab === 'checklist' && (
             <div className="space-y-3">
@@ -445,12 +797,23 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
               <div className="flex gap-2">
                 <textarea value={newUpdate} onChange={(e) => setNewUpdate(e.target.value)}
                   placeholder="أضف تحديث يومي..." rows={2} className="input-field flex-1 text-sm resize-none" />
+                <label className="rounded-xl bg-white/5 px-3 text-gray-400 hover:bg-white/10 hover:text-white transition-colors self-end py-2 cursor-pointer" title="إرفاق ملفات">
+                  <Paperclip className="h-4 w-4" />
+                  <input type="file" multiple className="hidden"
+                    onChange={(e) => { setUpdateFiles(Array.from(e.target.files || []).slice(0, 10)); e.target.value = ''; }} />
+                </label>
                 <button onClick={handleAddUpdate} disabled={addingUpdate || !newUpdate.trim()}
                   className="rounded-xl bg-brand-500/20 px-3 text-brand-300 hover:bg-brand-500/30 disabled:opacity-50 transition-colors self-end py-2">
                   {addingUpdate ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
                 </button>
               </div>
 
+              {updateFiles.length > 0 && (
+                <p className="text-[10px] text-gray-400">
+                  {updateFiles.length} ملف مرفق: {updateFiles.map((f) => f.name).join('، ')}
+                </p>
+              )}
+
               {taskUpdates.length === 0 ? (
                 <div className="text-center py-8 text-gray-500">
                   <RefreshCw className="w-8 h-8 mx-auto mb-2 opacity-50" />
@@ -469,6 +832,7 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
                       <span className="text-[10px] text-gray-500" dir="ltr">{formatDateTime(upd.createdAt)}</span>
                     </div>
                     <p className="text-sm text-gray-300 whitespace-pre-wrap">{upd.content}</p>
+                    <AttachmentChips attachments={upd.attachments} />
                   </div>
                 ))
               )}
@@ -521,6 +885,10 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
                         )}
                       </div>
                       <div className="flex items-center gap-1">
+                        <button onClick={() => handleDownloadFile(file)}
+                          className="p-1.5 rounded-lg hover:bg-white/10 text-gray-400 hover:text-white transition-colors">
+                          <Download className="h-3.5 w-3.5" />
+                        </button>
                         {canDeleteFile(file) && (
                           <button onClick={() => handleDeleteFile(file.id)} disabled={deletingFileId === file.id}
                             className="p-1.5 rounded-lg hover:bg-red-500/20 text-gray-400 hover:text-red-300 transition-colors disabled:opacity-50">
@@ -576,12 +944,113 @@ export default function TaskDetailPanel({ task: initialTask, onClose, onUpdate }
             </div>
           )}
 
+          {/* ── Dependencies Tab ── */}
+          {activeTab === 'dependencies' && (
+            <div className="space-y-4">
+              {isAdminOrPm && (
+                <div className="bg-white/5 rounded-xl p-3 space-y-2">
+                  <p className="text-xs text-gray-400">تعتمد هذه المهمة على...</p>
+                  <div className="flex gap-2">
+                    <select value={depType} onChange={(e) => setDepType(e.target.value)}
+                      className="bg-white/5 border border-white/10 rounded-lg text-xs text-gray-300 px-2">
+                      {Object.entries(DEPENDENCY_TYPE_LABELS).map(([k, v]) => <option key={k} value={k}>{v}</option>)}
+                    </select>
+                    <input type="number" min={0} max={365} value={depLag} onChange={(e) => setDepLag(Number(e.target.value) || 0)}
+                      title="أيام الفاصل" className="input-field w-20 text-sm" />
+                    <input type="text" value={depSearch} onChange={(e) => setDepSearch(e.target.value)}
+                      placeholder="ابحث عن مهمة سابقة..." className="input-field flex-1 text-sm" />
+                  </div>
+                  {depResults.length > 0 && (
+                    <div className="rounded-xl border border-white/10 divide-y divide-white/5">
+                      {depResults.map((t) => (
+                        <button key={t.id} onClick={() => handleAddDependency(t.id)} disabled={addingDep}
+                          className="w-full flex items-center justify-between gap-2 px-3 py-2 text-right hover:bg-white/5 disabled:opacity-50">
+                          <span className="text-sm text-white truncate">{t.titleAr || t.title}</span>
+                          {t.track && <span className="text-[10px] shrink-0" style={{ color: t.track.color }}>{t.track.nameAr}</span>}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {[
+                { title: 'المهام السابقة', items: dependencies.predecessors, key: 'predecessor' as const },
+                { title: 'المهام اللاحقة', items: dependencies.successors, key: 'successor' as const },
+              ].map((group) => (
+                <div key={group.key} className="space-y-2">
+                  <p className="text-xs text-gray-400">{group.title}</p>
+                  {group.items.length === 0 ? (
+                    <p className="text-xs text-gray-500 bg-white/5 rounded-xl p-3">لا توجد</p>
+                  ) : (
+                    group.items.map((dep) => {
+                      const other = dep[group.key];
+                      return (
+                        <div key={dep.id} className="bg-white/5 rounded-xl p-3 flex items-start justify-between gap-2">
+                          <div className="flex-1 min-w-0">
+                            <p className="text-sm text-white truncate">{other.titleAr}</p>
+                            <div className="flex items-center gap-2 mt-1.5 flex-wrap">
+                              <span className={cn('px-2 py-0.5 rounded-lg text-[10px] font-medium', TASK_STATUS_COLORS[other.status] || 'bg-gray-500/20 text-gray-300')}>
+                                {TASK_STATUS_LABELS[other.status] || other.status}
+                              </span>
+                              <span className="text-[10px] text-gray-400">
+                                {DEPENDENCY_TYPE_LABELS[dep.type] || dep.type}{dep.lagDays > 0 && ` + ${dep.lagDays} يوم`}
+                              </span>
+                              {other.track && other.track.id !== task.trackId && (
+                                <span className="text-[10px]" style={{ color: other.track.color }}>{other.track.nameAr}</span>
+                              )}
+                              {other.dueDate && <span className="text-[10px] text-gray-500">{formatDate(other.dueDate)}</span>}
+                            </div>
+                          </div>
+                          {isAdminOrPm && (
+                            <button onClick={() => handleRemoveDependency(dep.id)} className="p-1 rounded-lg hover:bg-red-500/20 text-gray-400 hover:text-red-300 transition-colors">
+                              <Trash2 className="h-3.5 w-3.5" />
+                            </button>
+                          )}
+                        </div>
+                      );
+                    })
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+
           {/* ── Comments Tab ── */}
           {activeTab === 'comments' && <CommentThread entityType="task" entityId={task.id} />}
 
           {/* ── Audit Tab ── */}
           {activeTab === 'audit' && (
             <div className="space-y-3">
+              {deadlines && (
+                <div className="bg-white/5 rounded-xl p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <BellRing className="w-3.5 h-3.5 text-amber-400" />
+                    <span className="text-xs font-medium text-amber-300">التذكيرات والتصعيد</span>
+                  </div>
+                  <p className="text-[11px] text-gray-500">
+                    {deadlines.rule.reminderDays.length > 0
+                      ? `تذكير قبل الموعد بـ ${deadlines.rule.reminderDays.join(' و ')} يوم، `
+                      : 'بدون تذكير قبل الموعد، '}
+                    التصعيد إلى قائد المسار بعد {deadlines.rule.trackLeadAfterDays} يوم وإلى الإدارة بعد {deadlines.rule.managementAfterDays} يوم من التأخر
+                    {deadlines.isTrackPolicy ? ' (سياسة المسار)' : ' (السياسة الافتراضية)'}
+                  </p>
+                  {deadlines.notices.map((notice) => (
+                    <div key={notice.id} className="border-t border-white/5 pt-2">
+                      <div className="flex items-center justify-between">
+                        <span className="text-xs text-gray-300">{deadlineStageLabel(notice.stage)}</span>
+                        <span className="text-[10px] text-gray-500" dir="ltr">{formatDateTime(notice.createdAt)}</span>
+                      </div>
+                      <p className="text-[11px] text-gray-500">
+                        {notice.recipients.length > 0
+                          ? `إلى ${notice.recipients.map((r) => r.nameAr || r.name).join('، ')}`
+                          : 'لا يوجد مستلمون'}
+                        {' · '}موعد التسليم {formatDate(notice.dueDate)}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              )}
               {task.auditLogs && task.auditLogs.length > 0 ? (
                 task.auditLogs.map((log) => (
                   <div key={log.id} className="bg-white/5 rounded-xl p-3">
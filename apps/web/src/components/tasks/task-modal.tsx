@@ -1,10 +1,10 @@
 'use client';
 
 import { useState, useEffect, useMemo, useRef } from 'react';
-import { X, Search, Check, Plus, Trash2, Upload, FileText, Loader2, CheckSquare } from 'lucide-react';
+import { X, Search, Check, Plus, Trash2, Upload, FileText, Loader2, CheckSquare, Repeat, AlertTriangle } from 'lucide-react';
 import toast from 'react-hot-toast';
-import { tasksApi } from '@/lib/api';
-import { PRIORITY_LABELS, cn } from '@/lib/utils';
+import { tasksApi, workloadApi } from '@/lib/api';
+import { PRIORITY_LABELS, WEEKDAY_LABELS, cn, formatDate, formatMinutes } from '@/lib/utils';
 import { Task } from '@/stores/tasks';
 
 interface Track {
@@ -29,6 +29,13 @@ interface Props {
   defaultTrackId?: string;
 }
 
+interface WorkloadWarning {
+  user: { id: string; name: string; nameAr: string };
+  capacityMinutes: number;
+  weeks: Array<{ weekStart: string; minutes: number; addedMinutes: number; overAllocated: boolean }>;
+  overAllocated: boolean;
+}
+
 interface ChecklistDraft {
   id: string;
   title: string;
@@ -50,20 +57,38 @@ const EMPTY_FORM = {
   descriptionAr: '',
   priority: 'medium',
   trackId: '',
+  startDate: '',
   dueDate: '',
   weight: '',
+  estimatedHours: '',
   assigneeIds: [] as string[],
+  reviewerIds: [] as string[],
+};
+
+// frequency '' = not recurring; an existing series is edited as its raw rule ('custom')
+const EMPTY_RECURRENCE = {
+  frequency: '',
+  interval: '1',
+  weekdays: [] as string[],
+  monthDay: '',
+  rrule: '',
+  endDate: '',
 };
 
 export default function TaskModal({ isOpen, onClose, task, tracks, users, onSuccess, defaultTrackId }: Props) {
   const [form, setForm] = useState(EMPTY_FORM);
   const [submitting, setSubmitting] = useState(false);
   const [userSearch, setUserSearch] = useState('');
+  const [recurrence, setRecurrence] = useState(EMPTY_RECURRENCE);
+  const [recurrenceScope, setRecurrenceScope] = useState<'this' | 'future'>('this');
 
   // Checklist
   const [checklistItems, setChecklistItems] = useState<ChecklistDraft[]>([]);
   const [newChecklistTitle, setNewChecklistTitle] = useState('');
 
+  // Over-allocation of the chosen assignees
+  const [workloadWarnings, setWorkloadWarnings] = useState<WorkloadWarning[]>([]);
+
   // Files
   const [files, setFiles] = useState<FileDraft[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
@@ -79,9 +104,12 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
           descriptionAr: task.descriptionAr || '',
           priority: task.priority || 'medium',
           trackId: task.trackId || '',
+          startDate: task.startDate ? task.startDate.substring(0, 10) : '',
           dueDate: task.dueDate ? task.dueDate.substring(0, 10) : '',
           weight: task.weight ? String(task.weight) : '',
+          estimatedHours: task.estimatedMinutes ? String(Math.round((task.estimatedMinutes / 60) * 100) / 100) : '',
           assigneeIds: task.assignments?.map((a) => a.userId || a.user?.id).filter(Boolean) as string[] || [],
+          reviewerIds: task.reviewers?.map((r) => r.userId) || [],
         });
         // Load existing checklist
         setChecklistItems(
@@ -91,11 +119,14 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
         setFiles(
           (task.files || []).map((f: any) => ({ id: f.id, fileName: f.fileName, fileSize: f.fileSize, isNew: false, isExisting: true }))
         );
+        setRecurrence(task.recurrence?.isActive ? { ...EMPTY_RECURRENCE, frequency: 'custom', rrule: task.recurrence.rrule } : EMPTY_RECURRENCE);
       } else {
         setForm({ ...EMPTY_FORM, trackId: defaultTrackId || '' });
         setChecklistItems([]);
         setFiles([]);
+        setRecurrence(EMPTY_RECURRENCE);
       }
+      setRecurrenceScope('this');
       setUserSearch('');
       setNewChecklistTitle('');
     }
@@ -129,6 +160,27 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
     setForm((prev) => ({ ...prev, [name]: value }));
   };
 
+  // Re-check the assignees' load when they, the dates or the estimate change
+  useEffect(() => {
+    if (!isOpen || form.assigneeIds.length === 0) {
+      setWorkloadWarnings([]);
+      return;
+    }
+    const timer = setTimeout(() => {
+      workloadApi.check({
+        userIds: form.assigneeIds,
+        taskId: task?.id,
+        startDate: form.startDate || undefined,
+        dueDate: form.dueDate || undefined,
+        estimatedMinutes: form.estimatedHours ? Math.round(parseFloat(form.estimatedHours) * 60) : undefined,
+        weight: form.weight ? parseFloat(form.weight) : undefined,
+      })
+        .then(({ data }) => setWorkloadWarnings((data.users || []).filter((u: WorkloadWarning) => u.overAllocated)))
+        .catch(() => setWorkloadWarnings([]));
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [isOpen, task?.id, form.assigneeIds, form.startDate, form.dueDate, form.estimatedHours, form.weight]);
+
   const toggleUser = (userId: string) => {
     setForm((prev) => ({
       ...prev,
@@ -138,6 +190,37 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
     }));
   };
 
+  const toggleReviewer = (userId: string) => {
+    setForm((prev) => ({
+      ...prev,
+      reviewerIds: prev.reviewerIds.includes(userId)
+        ? prev.reviewerIds.filter((id) => id !== userId)
+        : [...prev.reviewerIds, userId],
+    }));
+  };
+
+  const updateRecurrence = (name: string, value: any) => {
+    setRecurrence((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const toggleWeekday = (day: string) => {
+    setRecurrence((prev) => ({
+      ...prev,
+      weekdays: prev.weekdays.includes(day) ? prev.weekdays.filter((d) => d !== day) : [...prev.weekdays, day],
+    }));
+  };
+
+  const recurrencePayload = () => {
+    const { frequency, interval, weekdays, monthDay, rrule, endDate } = recurrence;
+    return {
+      frequency,
+      ...(frequency === 'custom' ? { rrule: rrule.trim() } : { interval: parseInt(interval, 10) || 1 }),
+      ...(frequency === 'weekly' && weekdays.length > 0 ? { weekdays } : {}),
+      ...(frequency === 'monthly' && monthDay ? { monthDay: parseInt(monthDay, 10) } : {}),
+      endDate: endDate || undefined,
+    };
+  };
+
   // Checklist handlers
   const addChecklistItem = () => {
     if (!newChecklistTitle.trim()) return;
@@ -188,20 +271,25 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
         title: form.title || form.titleAr,
         descriptionAr: form.descriptionAr,
         priority: form.priority,
+        startDate: form.startDate || undefined,
         dueDate: form.dueDate || undefined,
         trackId: form.trackId || undefined,
         weight: form.weight ? parseFloat(form.weight) : undefined,
+        // Clearing the estimate on edit removes it
+        estimatedMinutes: form.estimatedHours ? Math.round(parseFloat(form.estimatedHours) * 60) : isEdit ? null : undefined,
         assigneeType: 'GLOBAL',
         assigneeIds: form.assigneeIds.length > 0 ? form.assigneeIds : undefined,
+        // An empty list on edit clears the reviewers (back to the track leads)
+        reviewerIds: isEdit || form.reviewerIds.length > 0 ? form.reviewerIds : undefined,
       };
 
       let taskId: string;
+      const newChecklist = checklistItems.filter((c) => c.isNew);
 
       if (isEdit && task) {
-        await tasksApi.update(task.id, payload);
         taskId = task.id;
 
-        // Delete removed checklist items
+        // Checklist changes go first, so "all future occurrences" copies the final checklist
         const existingIds = checklistItems.filter((c) => !c.isNew).map((c) => c.id);
         const originalIds = (task.checklist || []).map((c: any) => c.id);
         for (const id of originalIds) {
@@ -209,6 +297,19 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
             await tasksApi.deleteChecklistItem(taskId, id).catch(() => {});
           }
         }
+        for (const item of newChecklist) {
+          await tasksApi.createChecklistItem(taskId, { title: item.title, titleAr: item.title }).catch(() => {});
+        }
+
+        await tasksApi.update(task.id, { ...payload, recurrenceScope: task.recurrenceId ? recurrenceScope : undefined });
+
+        const originalRule = task.recurrence?.isActive ? task.recurrence.rrule : '';
+        if (!recurrence.frequency && originalRule) {
+          await tasksApi.stopRecurrence(taskId);
+        } else if (recurrence.frequency && !(recurrence.frequency === 'custom' && recurrence.rrule === originalRule && !recurrence.endDate)) {
+          await tasksApi.setRecurrence(taskId, recurrencePayload())
+            .catch((err) => toast.error(err?.response?.data?.message || 'فشل تحديث تكرار المهمة'));
+        }
 
         // Delete removed files
         const existingFileIds = files.filter((f) => f.isExisting).map((f) => f.id);
@@ -223,15 +324,17 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
       } else {
         const res = await tasksApi.create(payload);
         taskId = res.data.id;
+        for (const item of newChecklist) {
+          await tasksApi.createChecklistItem(taskId, { title: item.title, titleAr: item.title }).catch(() => {});
+        }
+        // The series is started once the checklist exists, so every occurrence gets a copy
+        if (recurrence.frequency) {
+          await tasksApi.setRecurrence(taskId, recurrencePayload())
+            .catch((err) => toast.error(err?.response?.data?.message || 'فشل جدولة تكرار المهمة'));
+        }
         toast.success('تم إنشاء المهمة');
       }
 
-      // Create new checklist items
-      const newChecklist = checklistItems.filter((c) => c.isNew);
-      for (const item of newChecklist) {
-        await tasksApi.createChecklistItem(taskId, { title: item.title, titleAr: item.title }).catch(() => {});
-      }
-
       // Upload new files
       const newFiles = files.filter((f) => f.isNew && f.file);
       for (const f of newFiles) {
@@ -248,6 +351,7 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
   };
 
   const selectedUsers = users.filter((u) => form.assigneeIds.includes(u.id));
+  const selectedReviewers = users.filter((u) => form.reviewerIds.includes(u.id));
 
   return (
     <div className="fixed inset-0 z-[60] flex items-center justify-center">
@@ -333,6 +437,17 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
             </select>
           </div>
 
+          {/* تاريخ البدء */}
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-gray-300">تاريخ البدء (اختياري)</label>
+            <input
+              type="date"
+              value={form.startDate}
+              onChange={(e) => updateField('startDate', e.target.value)}
+              className="input-field"
+            />
+          </div>
+
           {/* تاريخ الاستحقاق */}
           <div>
             <label className="mb-1.5 block text-sm font-medium text-gray-300">تاريخ الاستحقاق</label>
@@ -344,6 +459,107 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
             />
           </div>
 
+          {/* التكرار */}
+          <div>
+            <label className="mb-1.5 flex items-center gap-2 text-sm font-medium text-gray-300">
+              <Repeat className="h-4 w-4" />
+              التكرار
+            </label>
+            <select
+              value={recurrence.frequency}
+              onChange={(e) => updateRecurrence('frequency', e.target.value)}
+              className="input-field"
+            >
+              <option value="">بدون تكرار</option>
+              <option value="daily">يومي</option>
+              <option value="weekly">أسبوعي</option>
+              <option value="monthly">شهري</option>
+              <option value="custom">قاعدة مخصصة (RRULE)</option>
+            </select>
+
+            {recurrence.frequency && (
+              <div className="mt-2 space-y-2 rounded-xl border border-white/10 bg-white/5 p-3">
+                {recurrence.frequency === 'custom' ? (
+                  <input
+                    type="text"
+                    value={recurrence.rrule}
+                    onChange={(e) => updateRecurrence('rrule', e.target.value)}
+                    placeholder="FREQ=WEEKLY;INTERVAL=2;BYDAY=SU,WE"
+                    dir="ltr"
+                    className="input-field text-left text-sm"
+                  />
+                ) : (
+                  <div className="flex items-center gap-2 text-xs text-gray-400">
+                    <span>كل</span>
+                    <input
+                      type="number"
+                      min="1"
+                      max="365"
+                      value={recurrence.interval}
+                      onChange={(e) => updateRecurrence('interval', e.target.value)}
+                      className="input-field w-20 py-1.5 text-sm"
+                    />
+                    <span>{recurrence.frequency === 'daily' ? 'يوم' : recurrence.frequency === 'weekly' ? 'أسبوع' : 'شهر'}</span>
+                  </div>
+                )}
+                {recurrence.frequency === 'weekly' && (
+                  <div className="flex flex-wrap gap-1.5">
+                    {Object.entries(WEEKDAY_LABELS).map(([code, label]) => (
+                      <button
+                        key={code}
+                        type="button"
+                        onClick={() => toggleWeekday(code)}
+                        className={cn(
+                          'rounded-lg px-2.5 py-1 text-xs transition-colors',
+                          recurrence.weekdays.includes(code) ? 'bg-brand-500/20 text-brand-300' : 'bg-white/5 text-gray-400 hover:bg-white/10',
+                        )}
+                      >
+                        {label}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {recurrence.frequency === 'monthly' && (
+                  <select
+                    value={recurrence.monthDay}
+                    onChange={(e) => updateRecurrence('monthDay', e.target.value)}
+                    className="input-field text-sm"
+                  >
+                    <option value="">نفس يوم تاريخ البدء</option>
+                    {Array.from({ length: 31 }, (_, i) => (
+                      <option key={i + 1} value={i + 1}>يوم {i + 1}</option>
+                    ))}
+                    <option value="-1">آخر يوم من الشهر</option>
+                  </select>
+                )}
+                <div className="flex items-center gap-2 text-xs text-gray-400">
+                  <span className="shrink-0">ينتهي في</span>
+                  <input
+                    type="date"
+                    value={recurrence.endDate}
+                    onChange={(e) => updateRecurrence('endDate', e.target.value)}
+                    className="input-field py-1.5 text-sm"
+                  />
+                </div>
+                <p className="text-[10px] text-gray-500">تُنشأ كل مهمة في موعدها بنفس المسؤولين والمراجعين وقائمة المهام</p>
+              </div>
+            )}
+
+            {isEdit && task?.recurrenceId && (
+              <div className="mt-2 space-y-1.5 text-xs text-gray-300">
+                <p className="text-gray-500">تطبيق التعديلات على:</p>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={recurrenceScope === 'this'} onChange={() => setRecurrenceScope('this')} className="accent-brand-500" />
+                  هذه المهمة فقط
+                </label>
+                <label className="flex items-center gap-2">
+                  <input type="radio" checked={recurrenceScope === 'future'} onChange={() => setRecurrenceScope('future')} className="accent-brand-500" />
+                  هذه المهمة وكل المهام القادمة في السلسلة
+                </label>
+              </div>
+            )}
+          </div>
+
           {/* الوزن */}
           <div>
             <label className="mb-1.5 block text-sm font-medium text-gray-300">الوزن (اختياري)</label>
@@ -360,6 +576,21 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
             <p className="mt-1 text-[10px] text-gray-500">يؤثر على حساب تقدم المسار (0.1 - 10، الافتراضي: 1)</p>
           </div>
 
+          {/* الوقت المقدر */}
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-gray-300">الوقت المقدر بالساعات (اختياري)</label>
+            <input
+              type="number"
+              value={form.estimatedHours}
+              onChange={(e) => updateField('estimatedHours', e.target.value)}
+              placeholder="مثال: 8"
+              min="0"
+              step="0.5"
+              className="input-field"
+            />
+            <p className="mt-1 text-[10px] text-gray-500">يُقارن بالوقت الذي يسجله الفريق على المهمة</p>
+          </div>
+
           {/* المسؤولون */}
           <div>
             <label className="mb-1.5 block text-sm font-medium text-gray-300">المسؤولون</label>
@@ -384,6 +615,24 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
               </div>
             )}
 
+            {workloadWarnings.length > 0 && (
+              <div className="mb-2 rounded-xl border border-amber-500/20 bg-amber-500/10 p-3 space-y-1 text-xs text-amber-300">
+                {workloadWarnings.map((w) => {
+                  const worst = w.weeks.filter((c) => c.overAllocated)
+                    .sort((a, b) => (b.minutes + b.addedMinutes) - (a.minutes + a.addedMinutes))[0];
+                  return (
+                    <p key={w.user.id} className="flex items-start gap-1.5">
+                      <AlertTriangle className="h-3.5 w-3.5 shrink-0 mt-0.5" />
+                      <span>
+                        {w.user.nameAr || w.user.name} يتجاوز سعته الأسبوعية
+                        {worst && ` في أسبوع ${formatDate(worst.weekStart)}: ${formatMinutes(worst.minutes + worst.addedMinutes)} من ${formatMinutes(w.capacityMinutes)}`}
+                      </span>
+                    </p>
+                  );
+                })}
+              </div>
+            )}
+
             <div className="rounded-xl border border-white/10 bg-white/5 p-3">
               <div className="relative mb-2">
                 <Search className="absolute right-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-gray-500" />
@@ -424,6 +673,41 @@ export default function TaskModal({ isOpen, onClose, task, tracks, users, onSucc
             </div>
           </div>
 
+          {/* المراجعون */}
+          <div>
+            <label className="mb-1.5 block text-sm font-medium text-gray-300">المراجعون</label>
+            {selectedReviewers.length > 0 && (
+              <div className="flex flex-wrap gap-2 mb-2">
+                {selectedReviewers.map((u) => (
+                  <span
+                    key={u.id}
+                    className="inline-flex items-center gap-1.5 rounded-lg bg-orange-500/20 px-2.5 py-1 text-xs font-medium text-orange-300"
+                  >
+                    {u.nameAr || u.name}
+                    <button
+                      type="button"
+                      onClick={() => toggleReviewer(u.id)}
+                      className="text-orange-400 hover:text-white transition-colors"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <select
+              value=""
+              onChange={(e) => e.target.value && toggleReviewer(e.target.value)}
+              className="input-field text-sm"
+            >
+              <option value="">إضافة مراجع...</option>
+              {users.filter((u) => !form.reviewerIds.includes(u.id)).map((u) => (
+                <option key={u.id} value={u.id}>{u.nameAr || u.name}</option>
+              ))}
+            </select>
+            <p className="mt-1 text-[10px] text-gray-500">عند عدم التحديد يراجع المهمة قائد المسار</p>
+          </div>
+
           {/* قائمة المهام (Checklist) */}
           <div>
             <label className="mb-1.5 flex items-center gap-2 text-sm font-medium text-gray-300">
@@ -0,0 +1,127 @@
+'use client';
+
+import { cn, formatDate, formatMinutes, TASK_STATUS_LABELS, TASK_STATUS_COLORS, PRIORITY_LABELS, PRIORITY_COLORS, ASSIGNEE_TYPE_LABELS } from '@/lib/utils';
+import { Task } from '@/stores/tasks';
+
+export const TASK_COLUMN_LABELS: Record<string, string> = {
+  title: 'المهمة',
+  status: 'الحالة',
+  priority: 'الأولوية',
+  track: 'المسار',
+  assignee: 'المسؤول',
+  startDate: 'البداية',
+  dueDate: 'الاستحقاق',
+  progress: 'الإنجاز',
+  estimate: 'التقدير / المسجل',
+};
+
+export const DEFAULT_TASK_COLUMNS = ['title', 'status', 'priority', 'track', 'assignee', 'dueDate', 'progress'];
+
+/** Who a task is on, as shown in lists: its users, else its track or assignee type. */
+export const assigneeLabel = (task: Task) => {
+  const users = task.assignments?.length
+    ? task.assignments.map((a) => a.user.nameAr || a.user.name)
+    : task.assigneeUser ? [task.assigneeUser.nameAr || task.assigneeUser.name] : [];
+  if (users.length > 0) return users.join('، ');
+  if (task.assigneeTrack) return task.assigneeTrack.nameAr;
+  return ASSIGNEE_TYPE_LABELS[task.assigneeType] || task.assigneeType;
+};
+
+const isOverdue = (task: Task) =>
+  !!task.dueDate && new Date(task.dueDate) < new Date() && !['completed', 'cancelled'].includes(task.status);
+
+function Cell({ task, column }: { task: Task; column: string }) {
+  switch (column) {
+    case 'title':
+      return <span className="text-white font-medium">{task.titleAr || task.title}</span>;
+    case 'status':
+      return (
+        <span className={cn('rounded-lg px-2 py-0.5 text-[11px]', TASK_STATUS_COLORS[task.status])}>
+          {TASK_STATUS_LABELS[task.status] || task.status}
+        </span>
+      );
+    case 'priority':
+      return (
+        <span className={cn('rounded-lg px-2 py-0.5 text-[11px]', PRIORITY_COLORS[task.priority])}>
+          {PRIORITY_LABELS[task.priority] || task.priority}
+        </span>
+      );
+    case 'track':
+      return task.track ? (
+        <span className="flex items-center gap-1.5">
+          <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: task.track.color }} />
+          {task.track.nameAr}
+        </span>
+      ) : <span className="text-gray-600">—</span>;
+    case 'assignee':
+      return <span>{assigneeLabel(task)}</span>;
+    case 'startDate':
+      return <span>{task.startDate ? formatDate(task.startDate) : '—'}</span>;
+    case 'dueDate':
+      return <span className={cn(isOverdue(task) && 'text-red-400')}>{task.dueDate ? formatDate(task.dueDate) : '—'}</span>;
+    case 'progress':
+      return (
+        <span className="flex items-center gap-2">
+          <span className="h-1.5 w-16 rounded-full bg-white/10 overflow-hidden">
+            <span className="block h-full bg-brand-500" style={{ width: `${Math.round(task.progress)}%` }} />
+          </span>
+          {Math.round(task.progress)}%
+        </span>
+      );
+    case 'estimate':
+      return (
+        <span>
+          {task.estimatedMinutes ? formatMinutes(task.estimatedMinutes) : '—'}
+          <span className="text-gray-500"> / {formatMinutes(task.loggedMinutes || 0)}</span>
+        </span>
+      );
+    default:
+      return null;
+  }
+}
+
+interface Props {
+  tasks: Task[];
+  columns: string[];
+  onTaskClick: (task: Task) => void;
+  // Selection mode: a checkbox column, and clicking a row toggles it
+  selectedIds?: Set<string>;
+  onSelect?: (task: Task) => void;
+}
+
+/** Tasks as table rows with the columns a view picked. */
+export default function TaskTable({ tasks, columns, onTaskClick, selectedIds, onSelect }: Props) {
+  const shown = columns.length > 0 ? columns : DEFAULT_TASK_COLUMNS;
+  return (
+    <div className="glass overflow-x-auto">
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-400 border-b border-white/5">
+            {onSelect && <th className="w-8" />}
+            {shown.map((column) => (
+              <th key={column} className="text-right font-medium py-2.5 px-3 whitespace-nowrap">{TASK_COLUMN_LABELS[column] || column}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {tasks.map((task) => (
+            <tr key={task.id} onClick={() => (onSelect ? onSelect(task) : onTaskClick(task))}
+              className={cn('border-b border-white/5 last:border-0 text-gray-300 hover:bg-white/5 cursor-pointer transition-colors',
+                selectedIds?.has(task.id) && 'bg-brand-500/10')}>
+              {onSelect && (
+                <td className="py-2.5 pr-3">
+                  <input type="checkbox" checked={!!selectedIds?.has(task.id)} readOnly className="pointer-events-none" />
+                </td>
+              )}
+              {shown.map((column) => (
+                <td key={column} className="py-2.5 px-3 whitespace-nowrap">
+                  <Cell task={task} column={column} />
+                </td>
+              ))}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,385 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowRight, Copy, Edit3, Library, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { cn, formatDate, PRIORITY_LABELS } from '@/lib/utils';
+import { scopeBlocksApi, taskTemplatesApi } from '@/lib/api';
+
+interface TemplateItem {
+  id: string;
+  title: string;
+  titleAr: string;
+  description?: string | null;
+  priority: string;
+  weight: number;
+  startOffsetDays: number | null;
+  dueOffsetDays: number | null;
+  checklist: Array<{ title: string; titleAr: string | null; notes: string | null }>;
+}
+
+interface Template {
+  id: string;
+  name: string;
+  nameAr: string;
+  description?: string | null;
+  trackId: string | null;
+  track?: { id: string; nameAr: string; color: string } | null;
+  items: TemplateItem[];
+}
+
+// Editable copy of an item; the checklist is typed one item per line
+interface ItemDraft {
+  titleAr: string;
+  priority: string;
+  weight: number;
+  startOffsetDays: string;
+  dueOffsetDays: string;
+  checklist: string;
+}
+
+interface Props {
+  trackId: string;
+  users: Array<{ id: string; name: string; nameAr: string }>;
+  canManageLibrary: boolean;
+  onClose: () => void;
+  onApplied: () => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const emptyItem = (): ItemDraft => ({ titleAr: '', priority: 'medium', weight: 1, startOffsetDays: '', dueOffsetDays: '', checklist: '' });
+
+const toDraft = (item: TemplateItem): ItemDraft => ({
+  titleAr: item.titleAr,
+  priority: item.priority,
+  weight: item.weight,
+  startOffsetDays: item.startOffsetDays?.toString() ?? '',
+  dueOffsetDays: item.dueOffsetDays?.toString() ?? '',
+  checklist: item.checklist.map((c) => c.titleAr || c.title).join('\n'),
+});
+
+const toItem = (draft: ItemDraft) => ({
+  title: draft.titleAr.trim(),
+  titleAr: draft.titleAr.trim(),
+  priority: draft.priority,
+  weight: draft.weight,
+  startOffsetDays: draft.startOffsetDays === '' ? undefined : Number(draft.startOffsetDays),
+  dueOffsetDays: draft.dueOffsetDays === '' ? undefined : Number(draft.dueOffsetDays),
+  checklist: draft.checklist.split('\n').map((line) => line.trim()).filter(Boolean).map((line) => ({ title: line, titleAr: line })),
+});
+
+const flattenBlocks = (blocks: any[], depth = 0): Array<{ id: string; label: string }> =>
+  blocks.flatMap((b) => [
+    { id: b.id, label: `${'— '.repeat(depth)}${b.code} ${b.title}` },
+    ...flattenBlocks(b.children || [], depth + 1),
+  ]);
+
+const errorMessage = (err: any, fallback: string) => {
+  const message = err?.response?.data?.message;
+  return Array.isArray(message) ? message[0] : message || fallback;
+};
+
+/** Template library for a track: pick a template, edit it, or apply it to create its tasks in one go. */
+export default function TaskTemplatesModal({ trackId, users, canManageLibrary, onClose, onApplied }: Props) {
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [view, setView] = useState<'list' | 'edit' | 'apply'>('list');
+  const [saving, setSaving] = useState(false);
+
+  // Editor
+  const [editing, setEditing] = useState<Template | null>(null);
+  const [nameAr, setNameAr] = useState('');
+  const [description, setDescription] = useState('');
+  const [isLibrary, setIsLibrary] = useState(false);
+  const [items, setItems] = useState<ItemDraft[]>([emptyItem()]);
+
+  // Apply
+  const [applying, setApplying] = useState<Template | null>(null);
+  const [startDate, setStartDate] = useState(new Date().toISOString().slice(0, 10));
+  const [scopeBlockId, setScopeBlockId] = useState('');
+  const [blocks, setBlocks] = useState<Array<{ id: string; label: string }>>([]);
+  const [assigneeUserId, setAssigneeUserId] = useState('');
+  const [selectedItems, setSelectedItems] = useState<Record<string, boolean>>({});
+  const [itemAssignees, setItemAssignees] = useState<Record<string, string>>({});
+
+  const load = () =>
+    taskTemplatesApi.list({ trackId })
+      .then(({ data }) => setTemplates(data || []))
+      .catch(() => toast.error('فشل تحميل القوالب'))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    load();
+    scopeBlocksApi.byTrack(trackId)
+      .then(({ data }) => setBlocks(flattenBlocks(data || [])))
+      .catch(() => setBlocks([]));
+  }, [trackId]);
+
+  const canManage = (template: Template) => !!template.trackId || canManageLibrary;
+
+  const openEditor = (template: Template | null) => {
+    setEditing(template);
+    setNameAr(template?.nameAr || '');
+    setDescription(template?.description || '');
+    setIsLibrary(template ? !template.trackId : false);
+    setItems(template ? template.items.map(toDraft) : [emptyItem()]);
+    setView('edit');
+  };
+
+  const openApply = (template: Template) => {
+    setApplying(template);
+    setSelectedItems(Object.fromEntries(template.items.map((item) => [item.id, true])));
+    setItemAssignees({});
+    setView('apply');
+  };
+
+  const updateItem = (index: number, patch: Partial<ItemDraft>) =>
+    setItems((current) => current.map((item, i) => (i === index ? { ...item, ...patch } : item)));
+
+  const handleSave = async () => {
+    if (nameAr.trim().length < 2) { toast.error('اسم القالب مطلوب'); return; }
+    if (items.some((item) => item.titleAr.trim().length < 2)) { toast.error('أدخل عنوان كل مهمة في القالب'); return; }
+    setSaving(true);
+    const payload = { name: nameAr.trim(), nameAr: nameAr.trim(), description: description.trim() || undefined, items: items.map(toItem) };
+    try {
+      if (editing) await taskTemplatesApi.update(editing.id, payload);
+      else await taskTemplatesApi.create({ ...payload, trackId: isLibrary ? undefined : trackId });
+      toast.success('تم حفظ القالب');
+      setView('list');
+      load();
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'فشل حفظ القالب'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (template: Template) => {
+    if (!window.confirm(`حذف القالب «${template.nameAr}»؟ لن تتأثر المهام التي أُنشئت منه.`)) return;
+    try {
+      await taskTemplatesApi.delete(template.id);
+      toast.success('تم حذف القالب');
+      load();
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'فشل حذف القالب'));
+    }
+  };
+
+  const handleApply = async () => {
+    if (!applying) return;
+    const itemIds = applying.items.filter((item) => selectedItems[item.id]).map((item) => item.id);
+    if (itemIds.length === 0) { toast.error('اختر مهمة واحدة على الأقل'); return; }
+    setSaving(true);
+    try {
+      const { data } = await taskTemplatesApi.apply(applying.id, {
+        trackId,
+        scopeBlockId: scopeBlockId || undefined,
+        startDate,
+        itemIds,
+        ...(assigneeUserId ? { assigneeType: 'USER', assigneeUserId } : { assigneeType: 'TRACK' }),
+        itemAssignees: Object.entries(itemAssignees)
+          .filter(([itemId, userId]) => userId && itemIds.includes(itemId))
+          .map(([itemId, userId]) => ({ itemId, assigneeIds: [userId] })),
+      });
+      toast.success(`تم إنشاء ${data.created} مهمة من القالب`);
+      onApplied();
+      onClose();
+    } catch (err: any) {
+      toast.error(errorMessage(err, 'فشل تطبيق القالب'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const offsetDate = (days: number | null) =>
+    days === null ? '---' : formatDate(new Date(new Date(startDate).getTime() + days * DAY_MS).toISOString());
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center">
+      <div className="absolute inset-0 bg-black/60 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="glass relative w-full max-w-2xl max-h-[85vh] overflow-hidden rounded-2xl border border-white/10">
+        <div className="flex items-center justify-between border-b border-white/10 px-6 py-4">
+          <div className="flex items-center gap-2">
+            {view !== 'list' && (
+              <button onClick={() => setView('list')} className="rounded-lg p-1 text-gray-400 transition-colors hover:bg-white/10 hover:text-white">
+                <ArrowRight className="h-4 w-4" />
+              </button>
+            )}
+            <h3 className="text-lg font-semibold text-white">
+              {view === 'list' ? 'قوالب المهام' : view === 'edit' ? (editing ? 'تعديل القالب' : 'قالب جديد') : `تطبيق «${applying?.nameAr}»`}
+            </h3>
+          </div>
+          <button onClick={onClose} className="rounded-lg p-1 text-gray-400 transition-colors hover:bg-white/10 hover:text-white">
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto max-h-[65vh] p-6 space-y-4">
+          {view === 'list' && (
+            loading ? (
+              <div className="flex items-center justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-gray-500" /></div>
+            ) : (
+              <>
+                <button onClick={() => openEditor(null)} className="btn-secondary text-sm flex items-center gap-2">
+                  <Plus className="w-4 h-4" />
+                  قالب جديد
+                </button>
+                {templates.length === 0 && <p className="text-center text-sm text-gray-500 py-6">لا توجد قوالب بعد</p>}
+                {templates.map((template) => (
+                  <div key={template.id} className="rounded-xl border border-white/10 bg-white/[0.03] p-3 space-y-2">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium text-white truncate">{template.nameAr}</p>
+                        {template.description && <p className="text-xs text-gray-400 mt-0.5">{template.description}</p>}
+                      </div>
+                      <span className="badge shrink-0 flex items-center gap-1 bg-white/5 text-gray-300">
+                        {template.trackId ? template.track?.nameAr : <><Library className="h-3 w-3" />المكتبة المشتركة</>}
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-500">
+                      {template.items.length} مهام · {template.items.reduce((sum, item) => sum + item.checklist.length, 0)} بنود
+                    </p>
+                    <div className="flex items-center gap-2">
+                      <button onClick={() => openApply(template)}
+                        className="rounded-lg bg-brand-500/20 px-3 py-1.5 text-xs font-medium text-brand-300 hover:bg-brand-500/30 transition-colors flex items-center gap-1">
+                        <Copy className="h-3 w-3" />تطبيق
+                      </button>
+                      {canManage(template) && (
+                        <>
+                          <button onClick={() => openEditor(template)}
+                            className="rounded-lg bg-white/5 px-3 py-1.5 text-xs text-gray-300 hover:bg-white/10 transition-colors flex items-center gap-1">
+                            <Edit3 className="h-3 w-3" />تعديل
+                          </button>
+                          <button onClick={() => handleDelete(template)}
+                            className="rounded-lg px-2 py-1.5 text-xs text-red-300 hover:bg-red-500/10 transition-colors">
+                            <Trash2 className="h-3.5 w-3.5" />
+                          </button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                ))}
+              </>
+            )
+          )}
+
+          {view === 'edit' && (
+            <>
+              <input value={nameAr} onChange={(e) => setNameAr(e.target.value)} placeholder="اسم القالب" className="input-field text-sm" />
+              <textarea value={description} onChange={(e) => setDescription(e.target.value)} rows={2}
+                placeholder="وصف القالب (اختياري)" className="input-field resize-none text-sm" />
+              {!editing && canManageLibrary && (
+                <label className="flex items-center gap-2 text-xs text-gray-300">
+                  <input type="checkbox" checked={isLibrary} onChange={(e) => setIsLibrary(e.target.checked)} className="accent-brand-500" />
+                  إضافة إلى المكتبة المشتركة (متاح لجميع المسارات)
+                </label>
+              )}
+              <p className="text-xs text-gray-500">مواعيد البدء والاستحقاق بالأيام من تاريخ تطبيق القالب.</p>
+              {items.map((item, index) => (
+                <div key={index} className="rounded-xl border border-white/10 bg-white/[0.03] p-3 space-y-2">
+                  <div className="flex items-center gap-2">
+                    <input value={item.titleAr} onChange={(e) => updateItem(index, { titleAr: e.target.value })}
+                      placeholder={`المهمة ${index + 1}`} className="input-field flex-1 text-sm" />
+                    {items.length > 1 && (
+                      <button onClick={() => setItems((current) => current.filter((_, i) => i !== index))}
+                        className="rounded-lg p-2 text-red-300 hover:bg-red-500/10 transition-colors">
+                        <Trash2 className="h-3.5 w-3.5" />
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+                    <label className="text-xs text-gray-400 space-y-1">
+                      <span>الأولوية</span>
+                      <select value={item.priority} onChange={(e) => updateItem(index, { priority: e.target.value })} className="input-field py-1.5 text-xs">
+                        {Object.entries(PRIORITY_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                      </select>
+                    </label>
+                    <label className="text-xs text-gray-400 space-y-1">
+                      <span>الوزن</span>
+                      <input type="number" min={0.1} max={10} step={0.1} value={item.weight}
+                        onChange={(e) => updateItem(index, { weight: Number(e.target.value) })} className="input-field py-1.5 text-xs" />
+                    </label>
+                    <label className="text-xs text-gray-400 space-y-1">
+                      <span>البدء بعد (يوم)</span>
+                      <input type="number" value={item.startOffsetDays}
+                        onChange={(e) => updateItem(index, { startOffsetDays: e.target.value })} className="input-field py-1.5 text-xs" />
+                    </label>
+                    <label className="text-xs text-gray-400 space-y-1">
+                      <span>الاستحقاق بعد (يوم)</span>
+                      <input type="number" value={item.dueOffsetDays}
+                        onChange={(e) => updateItem(index, { dueOffsetDays: e.target.value })} className="input-field py-1.5 text-xs" />
+                    </label>
+                  </div>
+                  <textarea value={item.checklist} onChange={(e) => updateItem(index, { checklist: e.target.value })} rows={2}
+                    placeholder="بنود القائمة، بند في كل سطر" className="input-field resize-none text-xs" />
+                </div>
+              ))}
+              <div className="flex items-center gap-2">
+                <button onClick={() => setItems((current) => [...current, emptyItem()])} className="btn-secondary text-sm flex items-center gap-2">
+                  <Plus className="w-4 h-4" />
+                  إضافة مهمة
+                </button>
+                <button onClick={handleSave} disabled={saving} className="btn-primary text-sm mr-auto disabled:opacity-50">
+                  {saving ? 'جاري الحفظ...' : 'حفظ القالب'}
+                </button>
+              </div>
+            </>
+          )}
+
+          {view === 'apply' && applying && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>تاريخ البدء</span>
+                  <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="input-field py-1.5 text-sm" />
+                </label>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>عنصر النطاق</span>
+                  <select value={scopeBlockId} onChange={(e) => setScopeBlockId(e.target.value)} className="input-field py-1.5 text-sm">
+                    <option value="">بدون</option>
+                    {blocks.map((b) => <option key={b.id} value={b.id}>{b.label}</option>)}
+                  </select>
+                </label>
+                <label className="text-xs text-gray-400 space-y-1">
+                  <span>التعيين</span>
+                  <select value={assigneeUserId} onChange={(e) => setAssigneeUserId(e.target.value)} className="input-field py-1.5 text-sm">
+                    <option value="">المسار</option>
+                    {users.map((u) => <option key={u.id} value={u.id}>{u.nameAr || u.name}</option>)}
+                  </select>
+                </label>
+              </div>
+              <div className="space-y-2">
+                {applying.items.map((item) => (
+                  <div key={item.id} className={cn('rounded-xl border border-white/10 p-3 space-y-2', selectedItems[item.id] ? 'bg-white/[0.03]' : 'opacity-50')}>
+                    <label className="flex items-center gap-2 text-sm text-white">
+                      <input type="checkbox" checked={!!selectedItems[item.id]} className="accent-brand-500"
+                        onChange={(e) => setSelectedItems((current) => ({ ...current, [item.id]: e.target.checked }))} />
+                      {item.titleAr}
+                      <span className="text-xs text-gray-500 mr-auto">{PRIORITY_LABELS[item.priority]}</span>
+                    </label>
+                    <div className="flex items-center gap-3 text-xs text-gray-400 flex-wrap">
+                      <span>البدء: {offsetDate(item.startOffsetDays)}</span>
+                      <span>الاستحقاق: {offsetDate(item.dueOffsetDays)}</span>
+                      {item.checklist.length > 0 && <span>{item.checklist.length} بنود</span>}
+                      <select value={itemAssignees[item.id] || ''} disabled={!selectedItems[item.id]}
+                        onChange={(e) => setItemAssignees((current) => ({ ...current, [item.id]: e.target.value }))}
+                        className="input-field py-1 text-xs w-40 mr-auto">
+                        <option value="">بدون مسؤول إضافي</option>
+                        {users.map((u) => <option key={u.id} value={u.id}>{u.nameAr || u.name}</option>)}
+                      </select>
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <button onClick={handleApply} disabled={saving} className="btn-primary text-sm w-full disabled:opacity-50">
+                {saving ? 'جاري الإنشاء...' : `إنشاء ${applying.items.filter((item) => selectedItems[item.id]).length} مهمة`}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
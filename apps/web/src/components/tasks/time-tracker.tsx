@@ -0,0 +1,219 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { Loader2, Play, Plus, Square, Trash2 } from 'lucide-react';
+import { cn, formatDate, formatMinutes } from '@/lib/utils';
+import { timeEntriesApi } from '@/lib/api';
+import { useAuth } from '@/stores/auth';
+import { Task } from '@/stores/tasks';
+
+export interface TimeEntry {
+  id: string;
+  taskId: string;
+  userId: string;
+  startedAt: string;
+  endedAt: string | null;
+  minutes: number | null;
+  note: string | null;
+  isManual: boolean;
+  user: { id: string; name: string; nameAr: string };
+  task: { id: string; title: string; titleAr: string; trackId: string | null; track: { id: string; nameAr: string; color: string } | null };
+}
+
+interface TaskTime {
+  estimatedMinutes: number | null;
+  loggedMinutes: number;
+  byUser: Array<{ user: { id: string; name: string; nameAr: string }; minutes: number }>;
+  entries: TimeEntry[];
+}
+
+interface Props {
+  task: Task;
+  onChange: () => void;
+}
+
+/** Today in Riyadh time as YYYY-MM-DD, the day a manual entry defaults to. */
+export const todayInRiyadh = () => new Date(Date.now() + 3 * 60 * 60 * 1000).toISOString().slice(0, 10);
+
+const errorMessage = (err: any, fallback: string) => {
+  const message = err?.response?.data?.message;
+  return Array.isArray(message) ? message[0] : message || fallback;
+};
+
+/** Live hh:mm:ss since `startedAt`. */
+export function ElapsedTime({ startedAt, className }: { startedAt: string; className?: string }) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const seconds = Math.max(0, Math.floor((now - new Date(startedAt).getTime()) / 1000));
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return (
+    <span className={cn('font-mono tabular-nums', className)} dir="ltr">
+      {pad(Math.floor(seconds / 3600))}:{pad(Math.floor((seconds % 3600) / 60))}:{pad(seconds % 60)}
+    </span>
+  );
+}
+
+/** Estimate vs. logged time of a task, the user's timer on it, manual logging and the entries. */
+export default function TimeTracker({ task, onChange }: Props) {
+  const { user } = useAuth();
+  const [data, setData] = useState<TaskTime | null>(null);
+  const [running, setRunning] = useState<TimeEntry | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [date, setDate] = useState(todayInRiyadh());
+  const [hours, setHours] = useState('');
+  const [minutes, setMinutes] = useState('');
+  const [note, setNote] = useState('');
+
+  const load = () =>
+    Promise.all([timeEntriesApi.forTask(task.id), timeEntriesApi.running()])
+      .then(([entries, timer]) => { setData(entries.data); setRunning(timer.data || null); })
+      .catch(() => toast.error('فشل تحميل سجل الوقت'));
+
+  useEffect(() => {
+    load();
+  }, [task.id]);
+
+  const run = async (action: () => Promise<unknown>, success: string, fallback: string) => {
+    setBusy(true);
+    try {
+      await action();
+      toast.success(success);
+      await load();
+      onChange();
+    } catch (err: any) {
+      toast.error(errorMessage(err, fallback));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleStart = () => run(() => timeEntriesApi.start(task.id), 'بدأ المؤقت', 'فشل تشغيل المؤقت');
+  const handleStop = () => run(() => timeEntriesApi.stop(), 'تم إيقاف المؤقت وتسجيل الوقت', 'فشل إيقاف المؤقت');
+  const handleDelete = (id: string) => run(() => timeEntriesApi.delete(id), 'تم حذف القيد', 'فشل حذف القيد');
+
+  const handleLog = () => {
+    const total = (Number(hours) || 0) * 60 + (Number(minutes) || 0);
+    if (total <= 0) return;
+    run(
+      async () => {
+        await timeEntriesApi.log({ taskId: task.id, date, minutes: Math.round(total), note: note.trim() || undefined });
+        setHours('');
+        setMinutes('');
+        setNote('');
+      },
+      'تم تسجيل الوقت',
+      'فشل تسجيل الوقت',
+    );
+  };
+
+  if (!data) {
+    return <div className="flex items-center justify-center py-8"><Loader2 className="w-5 h-5 animate-spin text-gray-500" /></div>;
+  }
+
+  const runningHere = running?.taskId === task.id;
+  const estimate = data.estimatedMinutes;
+  const ratio = estimate ? Math.min(100, Math.round((data.loggedMinutes / estimate) * 100)) : 0;
+  const overEstimate = !!estimate && data.loggedMinutes > estimate;
+
+  return (
+    <div className="space-y-3">
+      {/* Estimate vs. actual */}
+      <div className="bg-white/5 rounded-xl p-3 space-y-2">
+        <div className="flex items-center justify-between text-sm">
+          <span className="text-gray-400">الوقت المسجل</span>
+          <span className={cn('font-medium', overEstimate ? 'text-red-400' : 'text-white')}>
+            {formatMinutes(data.loggedMinutes)}
+            <span className="text-gray-500"> / {estimate ? formatMinutes(estimate) : 'بدون تقدير'}</span>
+          </span>
+        </div>
+        {!!estimate && (
+          <div className="h-1.5 rounded-full bg-white/10 overflow-hidden">
+            <div className={cn('h-full', overEstimate ? 'bg-red-500' : 'bg-brand-500')} style={{ width: `${ratio}%` }} />
+          </div>
+        )}
+        {overEstimate && <p className="text-[11px] text-red-400">تجاوز الوقت المسجل التقدير بمقدار {formatMinutes(data.loggedMinutes - estimate!)}</p>}
+        {data.byUser.length > 0 && (
+          <div className="flex flex-wrap gap-2 pt-1">
+            {data.byUser.map((row) => (
+              <span key={row.user.id} className="rounded-lg bg-white/5 px-2 py-0.5 text-[11px] text-gray-300">
+                {row.user.nameAr || row.user.name}: {formatMinutes(row.minutes)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Timer */}
+      <div className="bg-white/5 rounded-xl p-3 flex items-center justify-between gap-3">
+        {runningHere ? (
+          <>
+            <span className="text-sm text-gray-300">المؤقت يعمل <ElapsedTime startedAt={running!.startedAt} className="text-brand-300 mr-1" /></span>
+            <button onClick={handleStop} disabled={busy}
+              className="flex items-center gap-1.5 rounded-lg bg-red-500/20 px-3 py-1.5 text-xs font-medium text-red-300 hover:bg-red-500/30 transition-colors disabled:opacity-50">
+              <Square className="h-3.5 w-3.5" />إيقاف
+            </button>
+          </>
+        ) : (
+          <>
+            <span className="text-xs text-gray-400">
+              {running ? `المؤقت يعمل على «${running.task.titleAr || running.task.title}» وسيتوقف عند البدء هنا` : 'سجّل وقت عملك على المهمة بالمؤقت'}
+            </span>
+            <button onClick={handleStart} disabled={busy}
+              className="flex items-center gap-1.5 rounded-lg bg-emerald-500/20 px-3 py-1.5 text-xs font-medium text-emerald-300 hover:bg-emerald-500/30 transition-colors disabled:opacity-50 shrink-0">
+              <Play className="h-3.5 w-3.5" />بدء المؤقت
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Manual entry */}
+      <div className="bg-white/5 rounded-xl p-3 space-y-2">
+        <div className="flex gap-2">
+          <input type="date" value={date} max={todayInRiyadh()} onChange={(e) => setDate(e.target.value)} className="input-field flex-1 text-sm" />
+          <input type="number" min={0} max={24} value={hours} onChange={(e) => setHours(e.target.value)} placeholder="ساعات" className="input-field w-20 text-sm" />
+          <input type="number" min={0} max={59} value={minutes} onChange={(e) => setMinutes(e.target.value)} placeholder="دقائق" className="input-field w-20 text-sm" />
+        </div>
+        <div className="flex gap-2">
+          <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="ملاحظة (اختياري)..." className="input-field flex-1 text-sm"
+            onKeyDown={(e) => e.key === 'Enter' && handleLog()} />
+          <button onClick={handleLog} disabled={busy || !(Number(hours) || Number(minutes))}
+            className="rounded-xl bg-brand-500/20 px-3 py-2 text-brand-300 hover:bg-brand-500/30 disabled:opacity-50 transition-colors">
+            {busy ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+          </button>
+        </div>
+      </div>
+
+      {/* Entries */}
+      {data.entries.length === 0 ? (
+        <p className="text-center text-sm text-gray-500 py-6">لم يُسجل وقت على هذه المهمة بعد</p>
+      ) : (
+        <div className="space-y-1.5">
+          {data.entries.map((entry) => (
+            <div key={entry.id} className="bg-white/5 rounded-xl px-3 py-2 flex items-center justify-between gap-2">
+              <div className="min-w-0">
+                <div className="flex items-center gap-2 text-sm">
+                  <span className="text-white">{entry.minutes !== null ? formatMinutes(entry.minutes) : <ElapsedTime startedAt={entry.startedAt} className="text-brand-300" />}</span>
+                  <span className="text-xs text-gray-400">{entry.user.nameAr || entry.user.name}</span>
+                  <span className="text-[11px] text-gray-500">{formatDate(entry.startedAt)}{entry.isManual ? ' · يدوي' : ''}</span>
+                </div>
+                {entry.note && <p className="text-xs text-gray-400 truncate">{entry.note}</p>}
+              </div>
+              {entry.userId === user?.id && entry.endedAt && (
+                <button onClick={() => handleDelete(entry.id)} disabled={busy}
+                  className="p-1.5 rounded-lg text-gray-500 hover:text-red-400 hover:bg-red-500/10 transition-colors disabled:opacity-50" title="حذف">
+                  <Trash2 className="h-3.5 w-3.5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import toast from 'react-hot-toast';
+import { ArrowLeft, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import { tracksApi } from '@/lib/api';
+import { cn, ROLE_LABELS, TASK_STATUS_LABELS, TASK_STATUS_COLORS, WORKFLOW_FIELD_LABELS } from '@/lib/utils';
+
+const ANY_STATUS = '*';
+const WORKFLOW_ROLES = ['pm', 'track_lead', 'employee', 'hr'];
+
+interface Transition {
+  from: string;
+  to: string;
+  roles: string[];
+  requiredFields: string[];
+  progress: number | null;
+}
+
+interface Props {
+  trackId: string;
+  canEdit: boolean;
+}
+
+const statusLabel = (status: string) => (status === ANY_STATUS ? 'أي حالة' : TASK_STATUS_LABELS[status] || status);
+
+/** Per-track task workflow: allowed status transitions, who may perform them and what they require. */
+export default function WorkflowEditor({ trackId, canEdit }: Props) {
+  const [transitions, setTransitions] = useState<Transition[]>([]);
+  const [isDefault, setIsDefault] = useState(true);
+  const [loading, setLoading] = useState(true);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const load = () =>
+    tracksApi.getTaskWorkflow(trackId)
+      .then(({ data }) => {
+        setTransitions(data.workflow.transitions);
+        setIsDefault(data.isDefault);
+        setDirty(false);
+      })
+      .catch(() => toast.error('فشل تحميل سير العمل'))
+      .finally(() => setLoading(false));
+
+  useEffect(() => {
+    load();
+  }, [trackId]);
+
+  const change = (index: number, patch: Partial<Transition>) => {
+    setTransitions((list) => list.map((t, i) => (i === index ? { ...t, ...patch } : t)));
+    setDirty(true);
+  };
+
+  const toggle = (list: string[], value: string) =>
+    list.includes(value) ? list.filter((v) => v !== value) : [...list, value];
+
+  const addTransition = () => {
+    setTransitions((list) => [...list, { from: 'pending', to: 'in_progress', roles: ['track_lead'], requiredFields: [], progress: null }]);
+    setDirty(true);
+  };
+
+  const save = async (reset = false) => {
+    if (reset && !window.confirm('إعادة سير العمل الافتراضي لهذا المسار؟')) return;
+    setSaving(true);
+    try {
+      await tracksApi.setTaskWorkflow(trackId, reset ? null : transitions);
+      toast.success(reset ? 'تمت إعادة سير العمل الافتراضي' : 'تم حفظ سير العمل');
+      load();
+    } catch (err: any) {
+      const message = err?.response?.data?.message;
+      toast.error(Array.isArray(message) ? message[0] : message || 'فشل حفظ سير العمل');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return <div className="h-16 flex items-center justify-center text-sm text-gray-500">جاري التحميل...</div>;
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        {isDefault ? 'يستخدم هذا المسار سير العمل الافتراضي.' : 'سير عمل مخصص لهذا المسار.'}
+        {' '}مدير النظام يستطيع تنفيذ أي انتقال معرّف هنا.
+      </p>
+
+      <div className="space-y-2">
+        {transitions.map((t, i) => (
+          <div key={i} className="rounded-xl border border-white/10 bg-white/[0.03] p-3 space-y-3">
+            <div className="flex items-center gap-2 flex-wrap">
+              {canEdit ? (
+                <select value={t.from} onChange={(e) => change(i, { from: e.target.value })} className="input-field w-auto py-1.5 text-xs">
+                  <option value={ANY_STATUS}>{statusLabel(ANY_STATUS)}</option>
+                  {Object.entries(TASK_STATUS_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+              ) : (
+                <span className={cn('badge', TASK_STATUS_COLORS[t.from] || 'bg-white/10 text-gray-300')}>{statusLabel(t.from)}</span>
+              )}
+              <ArrowLeft className="w-4 h-4 text-gray-500" />
+              {canEdit ? (
+                <select value={t.to} onChange={(e) => change(i, { to: e.target.value })} className="input-field w-auto py-1.5 text-xs">
+                  {Object.entries(TASK_STATUS_LABELS).map(([key, label]) => <option key={key} value={key}>{label}</option>)}
+                </select>
+              ) : (
+                <span className={cn('badge', TASK_STATUS_COLORS[t.to])}>{statusLabel(t.to)}</span>
+              )}
+              <div className="flex items-center gap-1.5 text-xs text-gray-400 mr-auto">
+                <span>التقدم:</span>
+                {canEdit ? (
+                  <input type="number" min={0} max={100} value={t.progress ?? ''} placeholder="دون تغيير"
+                    onChange={(e) => change(i, { progress: e.target.value === '' ? null : Math.min(100, Math.max(0, Number(e.target.value))) })}
+                    className="input-field w-24 py-1.5 text-xs" />
+                ) : (
+                  <span className="text-gray-300">{t.progress === null ? 'دون تغيير' : `${t.progress}%`}</span>
+                )}
+              </div>
+              {canEdit && (
+                <button onClick={() => { setTransitions((list) => list.filter((_, j) => j !== i)); setDirty(true); }}
+                  className="p-1.5 rounded-lg text-gray-500 hover:bg-red-500/10 hover:text-red-400" title="حذف الانتقال">
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              )}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+              <span className="text-gray-500">الأدوار:</span>
+              {WORKFLOW_ROLES.map((role) => (
+                <label key={role} className="flex items-center gap-1.5 text-gray-300">
+                  <input type="checkbox" checked={t.roles.includes(role)} disabled={!canEdit}
+                    onChange={() => change(i, { roles: toggle(t.roles, role) })} className="accent-brand-500" />
+                  {ROLE_LABELS[role] || role}
+                </label>
+              ))}
+            </div>
+
+            <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs">
+              <span className="text-gray-500">يتطلب:</span>
+              {Object.entries(WORKFLOW_FIELD_LABELS).map(([field, label]) => (
+                <label key={field} className="flex items-center gap-1.5 text-gray-300">
+                  <input type="checkbox" checked={t.requiredFields.includes(field)} disabled={!canEdit}
+                    onChange={() => change(i, { requiredFields: toggle(t.requiredFields, field) })} className="accent-brand-500" />
+                  {label}
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+        {transitions.length === 0 && (
+          <p className="text-sm text-gray-500 text-center py-4">لا توجد انتقالات؛ لن يمكن تغيير حالة مهام هذا المسار</p>
+        )}
+      </div>
+
+      {canEdit && (
+        <div className="flex items-center gap-2 flex-wrap">
+          <button onClick={addTransition} className="btn-secondary text-sm flex items-center gap-2">
+            <Plus className="w-4 h-4" />
+            إضافة انتقال
+          </button>
+          {!isDefault && (
+            <button onClick={() => save(true)} disabled={saving} className="btn-secondary text-sm flex items-center gap-2 disabled:opacity-50">
+              <RotateCcw className="w-4 h-4" />
+              استعادة الافتراضي
+            </button>
+          )}
+          <button onClick={() => save()} disabled={saving || !dirty} className="btn-primary text-sm mr-auto disabled:opacity-50">
+            {saving ? 'جاري الحفظ...' : 'حفظ سير العمل'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { getSocket, joinPresence, leavePresence, PresenceEntity, PresenceViewer } from '@/lib/socket';
+
+/** Users currently viewing the given track or task, kept live over the socket. */
+export function usePresence(entityType: PresenceEntity, entityId: string | null | undefined): PresenceViewer[] {
+  const [viewers, setViewers] = useState<PresenceViewer[]>([]);
+
+  useEffect(() => {
+    if (!entityId) return;
+    const socket = getSocket();
+
+    const join = () => joinPresence(entityType, entityId, setViewers);
+    const onUpdated = (data: { entityType: PresenceEntity; entityId: string; viewers: PresenceViewer[] }) => {
+      if (data.entityType === entityType && data.entityId === entityId) setViewers(data.viewers);
+    };
+
+    socket.on('presence.updated', onUpdated);
+    // Rooms are lost on reconnect, so join again each time
+    socket.on('connect', join);
+    if (socket.connected) join();
+
+    return () => {
+      socket.off('presence.updated', onUpdated);
+      socket.off('connect', join);
+      leavePresence(entityType, entityId);
+      setViewers([]);
+    };
+  }, [entityType, entityId]);
+
+  return viewers;
+}
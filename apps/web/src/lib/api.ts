@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { refreshSocketAuth } from './socket';
 
 const API_URL = process.env.NEXT_PUBLIC_API_BASE_URL || '';
 
@@ -19,47 +20,43 @@ api.interceptors.request.use((config) => {
 });
 
 // Auto-refresh on 401
-let isRefreshing = false;
-let failedQueue: Array<{ resolve: Function; reject: Function }> = [];
-
-const processQueue = (error: any, token: string | null = null) => {
-  failedQueue.forEach((prom) => {
-    if (error) prom.reject(error);
-    else prom.resolve(token);
-  });
-  failedQueue = [];
-};
+let refreshPromise: Promise<string> | null = null;
+
+/**
+ * Exchanges the refresh cookie for a new access token and hands it to the
+ * live socket. Refresh tokens rotate, so concurrent callers share one request.
+ */
+export function refreshAccessToken(): Promise<string> {
+  if (!refreshPromise) {
+    refreshPromise = api
+      .post('/auth/refresh', {})
+      .then(({ data }) => {
+        localStorage.setItem('access_token', data.accessToken);
+        refreshSocketAuth(data.accessToken);
+        return data.accessToken as string;
+      })
+      .finally(() => {
+        refreshPromise = null;
+      });
+  }
+  return refreshPromise;
+}
 
 api.interceptors.response.use(
   (res) => res,
   async (error) => {
     const originalRequest = error.config;
-    if (error.response?.status === 401 && !originalRequest._retry) {
-      if (isRefreshing) {
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        }).then((token) => {
-          originalRequest.headers.Authorization = `Bearer ${token}`;
-          return api(originalRequest);
-        });
-      }
-
+    if (error.response?.status === 401 && !originalRequest._retry && originalRequest.url !== '/auth/refresh') {
       originalRequest._retry = true;
-      isRefreshing = true;
 
       try {
-        const { data } = await api.post('/auth/refresh', {});
-        localStorage.setItem('access_token', data.accessToken);
-        processQueue(null, data.accessToken);
-        originalRequest.headers.Authorization = `Bearer ${data.accessToken}`;
+        const token = await refreshAccessToken();
+        originalRequest.headers.Authorization = `Bearer ${token}`;
         return api(originalRequest);
       } catch (refreshError) {
-        processQueue(refreshError, null);
         localStorage.removeItem('access_token');
         if (typeof window !== 'undefined') window.location.href = '/login';
         return Promise.reject(refreshError);
-      } finally {
-        isRefreshing = false;
       }
     }
     return Promise.reject(error);
@@ -101,6 +98,11 @@ export const tracksApi = {
   create: (data: any) => api.post('/tracks', data),
   update: (id: string, data: any) => api.patch(`/tracks/${id}`, data),
   delete: (id: string) => api.delete(`/tracks/${id}`),
+  getTaskWorkflow: (id: string) => api.get(`/tracks/${id}/task-workflow`),
+  setTaskWorkflow: (id: string, transitions: any[] | null) => api.put(`/tracks/${id}/task-workflow`, { transitions }),
+  getDeadlinePolicy: (id: string) => api.get(`/tracks/${id}/deadline-policy`),
+  setDeadlinePolicy: (id: string, policy: { default: any; priorities?: Record<string, any> } | { default: null }) =>
+    api.put(`/tracks/${id}/deadline-policy`, policy),
 };
 
 // ─── Progress & Achievements ───
@@ -215,11 +217,34 @@ export const filesApi = {
     if (analysisType) form.append('analysisType', analysisType);
     return api.post('/files/analyze', form, { headers: { 'Content-Type': 'multipart/form-data' } });
   },
-  download: (id: string) => api.get(`/files/${id}/download`, { responseType: 'blob' }),
   updateStatus: (id: string, status: string) => api.patch(`/files/${id}/status`, { status }),
   delete: (id: string) => api.delete(`/files/${id}`),
 };
 
+// ─── Attachments ───
+export type AttachmentOwner = 'comment' | 'task_update';
+
+export const attachmentsApi = {
+  download: (id: string) => api.get(`/attachments/${id}/download`, { responseType: 'blob' }),
+  upload: (owner: AttachmentOwner, ownerId: string, files: File[]) => {
+    const form = new FormData();
+    files.forEach((f) => form.append('files', f));
+    return api.post(`/attachments/${owner}/${ownerId}`, form, { headers: { 'Content-Type': 'multipart/form-data' } });
+  },
+  delete: (id: string) => api.delete(`/attachments/${id}`),
+};
+
+/** Downloads any attachment (track file, task file, update or comment attachment) by id. */
+export async function downloadAttachment(id: string, fileName: string) {
+  const { data } = await attachmentsApi.download(id);
+  const url = window.URL.createObjectURL(data);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  window.URL.revokeObjectURL(url);
+}
+
 // ─── AI Insights ───
 export const insightsApi = {
   executive: () => api.get('/insights/executive'),
@@ -254,8 +279,6 @@ export const dailyUpdatesApi = {
     return api.post(`/daily-updates/${updateId}/attachments`, form, { headers: { 'Content-Type': 'multipart/form-data' } });
   },
   deleteAttachment: (attachmentId: string) => api.delete(`/daily-updates/attachments/${attachmentId}`),
-  downloadAttachment: (attachmentId: string) =>
-    api.get(`/daily-updates/attachments/${attachmentId}/download`, { responseType: 'blob' }),
 };
 
 // ─── Audit ───
@@ -274,6 +297,73 @@ export const commentsApi = {
   delete: (id: string) => api.delete(`/comments/${id}`),
 };
 
+// ─── Task Templates ───
+export const taskTemplatesApi = {
+  list: (params?: { trackId?: string }) => api.get('/task-templates', { params }),
+  get: (id: string) => api.get(`/task-templates/${id}`),
+  create: (data: any) => api.post('/task-templates', data),
+  update: (id: string, data: any) => api.patch(`/task-templates/${id}`, data),
+  delete: (id: string) => api.delete(`/task-templates/${id}`),
+  apply: (id: string, data: any) => api.post(`/task-templates/${id}/apply`, data),
+};
+
+export const taskViewsApi = {
+  list: () => api.get('/task-views'),
+  getDefault: () => api.get('/task-views/default'),
+  get: (id: string) => api.get(`/task-views/${id}`),
+  create: (data: any) => api.post('/task-views', data),
+  update: (id: string, data: any) => api.patch(`/task-views/${id}`, data),
+  delete: (id: string) => api.delete(`/task-views/${id}`),
+};
+
+export const calendarApi = {
+  events: (params: { from: string; to: string; trackId?: string; assigneeId?: string }) =>
+    api.get('/calendar', { params }),
+  getFeed: () => api.get('/calendar/feed'),
+  rotateFeed: () => api.post('/calendar/feed'),
+  revokeFeed: () => api.delete('/calendar/feed'),
+};
+
+/** Public URL of an iCalendar feed, for subscribing from Outlook or Google Calendar. */
+export const calendarFeedUrl = (token: string) =>
+  `${API_URL || (typeof window !== 'undefined' ? window.location.origin : '')}/api/calendar-feed/${token}.ics`;
+
+export const timeEntriesApi = {
+  running: () => api.get('/time-entries/running'),
+  forTask: (taskId: string) => api.get(`/time-entries/task/${taskId}`),
+  start: (taskId: string, note?: string) => api.post('/time-entries/start', { taskId, note }),
+  stop: () => api.post('/time-entries/stop'),
+  log: (data: { taskId: string; date: string; minutes: number; note?: string }) => api.post('/time-entries', data),
+  update: (id: string, data: { minutes?: number; note?: string }) => api.patch(`/time-entries/${id}`, data),
+  delete: (id: string) => api.delete(`/time-entries/${id}`),
+};
+
+export const timesheetsApi = {
+  myWeek: (week?: string) => api.get('/timesheets/me', { params: { week } }),
+  history: () => api.get('/timesheets/me/history'),
+  get: (id: string) => api.get(`/timesheets/${id}`),
+  submit: (week?: string) => api.post('/timesheets/submit', { week }),
+  reviewQueue: () => api.get('/timesheets/review-queue'),
+  review: (id: string, decision: 'approve' | 'reject', comment?: string) =>
+    api.post(`/timesheets/${id}/review`, { decision, comment }),
+  exportExcel: (params: { week?: string; trackId?: string }) =>
+    api.get('/timesheets/export', { params, responseType: 'blob' }),
+};
+
+export const workloadApi = {
+  get: (params?: { from?: string; weeks?: number; trackId?: string }) => api.get('/workload', { params }),
+  check: (data: {
+    userIds: string[];
+    taskId?: string;
+    startDate?: string;
+    dueDate?: string;
+    estimatedMinutes?: number;
+    weight?: number;
+  }) => api.post('/workload/check', data),
+  updateCapacity: (userId: string, weeklyCapacityMinutes: number) =>
+    api.patch(`/workload/users/${userId}/capacity`, { weeklyCapacityMinutes }),
+};
+
 // ─── Notifications ───
 export const notificationsApi = {
   list: (params?: any) => api.get('/notifications', { params }),
@@ -293,9 +383,21 @@ export const tasksApi = {
   stats: (params?: any) => api.get('/tasks/stats', { params }),
   executiveStats: () => api.get('/tasks/executive/stats'),
   get: (id: string) => api.get(`/tasks/${id}`),
+  // One change on many tasks: { taskIds, action, ...fields of the action }
+  bulk: (data: any) => api.post('/tasks/bulk', data),
   create: (data: any) => api.post('/tasks', data),
   update: (id: string, data: any) => api.patch(`/tasks/${id}`, data),
-  updateStatus: (id: string, status: string) => api.patch(`/tasks/${id}/status`, { status }),
+  updateStatus: (id: string, status: string, force?: boolean, comment?: string) =>
+    api.patch(`/tasks/${id}/status`, { status, ...(force ? { force } : {}), ...(comment ? { comment } : {}) }),
+  transitions: (id: string) => api.get(`/tasks/${id}/transitions`),
+  getReview: (id: string) => api.get(`/tasks/${id}/review`),
+  review: (id: string, data: { decision: 'approve' | 'request_changes'; comment?: string }) =>
+    api.post(`/tasks/${id}/review`, data),
+  reviewQueue: () => api.get('/tasks/review-queue'),
+  deadlineNotices: (id: string) => api.get(`/tasks/${id}/deadline-notices`),
+  setRecurrence: (id: string, recurrence: any) => api.put(`/tasks/${id}/recurrence`, recurrence),
+  stopRecurrence: (id: string) => api.delete(`/tasks/${id}/recurrence`),
+  subtasks: (id: string) => api.get(`/tasks/${id}/subtasks`),
   assign: (id: string, userIds: string[]) => api.post(`/tasks/${id}/assign`, { userIds }),
   delete: (id: string) => api.delete(`/tasks/${id}`),
   auditLog: (id: string, params?: any) => api.get(`/tasks/${id}/audit`, { params }),
@@ -322,7 +424,15 @@ export const tasksApi = {
     return api.post(`/tasks/${id}/files`, formData, { headers: { 'Content-Type': 'multipart/form-data' } });
   },
   deleteTaskFile: (id: string, fileId: string) => api.delete(`/tasks/${id}/files/${fileId}`),
+  // Dependencies
+  getDependencies: (id: string) => api.get(`/tasks/${id}/dependencies`),
+  addDependency: (id: string, data: { predecessorId: string; type?: string; lagDays?: number }) =>
+    api.post(`/tasks/${id}/dependencies`, data),
+  removeDependency: (id: string, dependencyId: string) => api.delete(`/tasks/${id}/dependencies/${dependencyId}`),
   trackProgress: (trackId: string) => api.get(`/tasks/track/${trackId}/progress`),
+  criticalPath: (trackId: string) => api.get(`/tasks/track/${trackId}/critical-path`),
+  timeline: (params?: { trackId?: string }) => api.get('/tasks/timeline', { params }),
+  board: (params?: { trackId?: string }) => api.get('/tasks/board', { params }),
 };
 
 // ─── AI ───
@@ -337,6 +447,7 @@ export const aiApi = {
   analyzeKPIs: () => api.get('/ai/analysis/kpis'),
   indexAll: () => api.post('/ai/embeddings/index-all'),
   embeddingStats: () => api.get('/ai/embeddings/stats'),
+  embeddingStatus: () => api.get('/ai/embeddings/status'),
 };
 
 // ─── Imports ───
@@ -3,24 +3,54 @@ import { io, Socket } from 'socket.io-client';
 const SOCKET_URL = process.env.NEXT_PUBLIC_SOCKET_URL || (typeof window !== 'undefined' ? window.location.origin : 'http://localhost:4000');
 
 let socket: Socket | null = null;
+let tokenExpired = false;
+
+export type PresenceEntity = 'track' | 'task';
+
+export interface PresenceViewer {
+  id: string;
+  name: string;
+  nameAr: string;
+}
 
 export function getSocket(): Socket {
   if (!socket) {
-    const token = typeof window !== 'undefined' ? localStorage.getItem('access_token') : null;
     socket = io(SOCKET_URL, {
-      auth: { token },
+      // Read on every (re)connect so reconnects carry the latest access token
+      auth: (cb) => cb({ token: typeof window !== 'undefined' ? localStorage.getItem('access_token') : null }),
       transports: ['websocket', 'polling'],
       autoConnect: false,
     });
+
+    // The server warns before dropping a socket whose access token expired
+    socket.on('auth.expired', async () => {
+      tokenExpired = true;
+      try {
+        const { refreshAccessToken } = await import('./api');
+        await refreshAccessToken();
+      } catch {}
+    });
+
+    socket.on('connect', () => {
+      tokenExpired = false;
+    });
+
+    // Server-side disconnects are not retried automatically; retry the ones caused by expiry
+    socket.on('disconnect', async (reason) => {
+      if (reason !== 'io server disconnect' || !tokenExpired) return;
+      try {
+        const { refreshAccessToken } = await import('./api');
+        await refreshAccessToken();
+        socket?.connect();
+      } catch {}
+    });
   }
   return socket;
 }
 
 export function connectSocket() {
   const s = getSocket();
-  const token = localStorage.getItem('access_token');
-  if (token) {
-    s.auth = { token };
+  if (localStorage.getItem('access_token')) {
     s.connect();
   }
 }
@@ -32,6 +62,15 @@ export function disconnectSocket() {
   }
 }
 
+/** Re-authenticates the live socket after the access token was refreshed. */
+export function refreshSocketAuth(token: string) {
+  if (socket?.connected) {
+    socket.emit('auth.refresh', { token }, (res: { ok: boolean }) => {
+      if (res?.ok) tokenExpired = false;
+    });
+  }
+}
+
 export function joinTrack(trackId: string) {
   getSocket().emit('track.join', { trackId });
 }
@@ -39,3 +78,17 @@ export function joinTrack(trackId: string) {
 export function leaveTrack(trackId: string) {
   getSocket().emit('track.leave', { trackId });
 }
+
+export function joinPresence(
+  entityType: PresenceEntity,
+  entityId: string,
+  onJoined?: (viewers: PresenceViewer[]) => void,
+) {
+  getSocket().emit('presence.join', { entityType, entityId }, (res: { joined: boolean; viewers: PresenceViewer[] }) => {
+    if (res?.joined) onJoined?.(res.viewers);
+  });
+}
+
+export function leavePresence(entityType: PresenceEntity, entityId: string) {
+  getSocket().emit('presence.leave', { entityType, entityId });
+}
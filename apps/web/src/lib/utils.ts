@@ -79,6 +79,43 @@ export const TASK_STATUS_COLORS: Record<string, string> = {
   cancelled: 'bg-zinc-500/20 text-zinc-400',
 };
 
+export const WORKFLOW_FIELD_LABELS: Record<string, string> = {
+  comment: 'تعليق يوضح سبب التغيير',
+  notes: 'ملاحظات المهمة',
+  startDate: 'تاريخ البدء',
+  dueDate: 'تاريخ الاستحقاق',
+  attachment: 'مرفق واحد على الأقل',
+};
+
+// RRULE weekday codes, Sunday first like the Saudi week
+export const WEEKDAY_LABELS: Record<string, string> = {
+  SU: 'الأحد',
+  MO: 'الاثنين',
+  TU: 'الثلاثاء',
+  WE: 'الأربعاء',
+  TH: 'الخميس',
+  FR: 'الجمعة',
+  SA: 'السبت',
+};
+
+/** Arabic summary of a recurring task's rule, e.g. "كل أسبوعين (الأحد، الأربعاء)". */
+export function describeRecurrence(rrule: string) {
+  const parts = Object.fromEntries(rrule.split(';').map((p) => p.split('=')));
+  const interval = Number(parts.INTERVAL || 1);
+  let text = '';
+  if (parts.FREQ === 'DAILY') text = interval > 1 ? `كل ${interval} أيام` : 'يومياً';
+  if (parts.FREQ === 'WEEKLY') text = interval > 1 ? `كل ${interval} أسابيع` : 'أسبوعياً';
+  if (parts.FREQ === 'MONTHLY') text = interval > 1 ? `كل ${interval} أشهر` : 'شهرياً';
+  if (parts.BYDAY) text += ` (${parts.BYDAY.split(',').map((d: string) => WEEKDAY_LABELS[d] || d).join('، ')})`;
+  if (parts.BYMONTHDAY) text += parts.BYMONTHDAY === '-1' ? ' (آخر يوم من الشهر)' : ` (يوم ${parts.BYMONTHDAY})`;
+  if (parts.COUNT) text += ` لـ ${parts.COUNT} مرات`;
+  if (parts.UNTIL) {
+    const u = parts.UNTIL;
+    text += ` حتى ${formatDate(`${u.slice(0, 4)}-${u.slice(4, 6)}-${u.slice(6, 8)}`)}`;
+  }
+  return text || rrule;
+}
+
 export const ASSIGNEE_TYPE_LABELS: Record<string, string> = {
   TRACK: 'مسار',
   USER: 'موظف',
@@ -144,6 +181,28 @@ export const CHECKLIST_STATUS_COLORS: Record<string, string> = {
   needs_revision: 'bg-amber-500/20 text-amber-300',
 };
 
+export const TIMESHEET_STATUS_LABELS: Record<string, string> = {
+  draft: 'مسودة',
+  submitted: 'بانتظار الاعتماد',
+  approved: 'معتمد',
+  rejected: 'مرفوض',
+};
+
+export const TIMESHEET_STATUS_COLORS: Record<string, string> = {
+  draft: 'bg-gray-500/20 text-gray-300',
+  submitted: 'bg-amber-500/20 text-amber-300',
+  approved: 'bg-emerald-500/20 text-emerald-300',
+  rejected: 'bg-red-500/20 text-red-300',
+};
+
+/** Minutes as hours and minutes, e.g. "3س 20د". */
+export function formatMinutes(minutes: number) {
+  const h = Math.floor(minutes / 60);
+  const m = Math.round(minutes % 60);
+  if (h === 0) return `${m}د`;
+  return m === 0 ? `${h}س` : `${h}س ${m}د`;
+}
+
 export function formatNumber(n: number) {
   return new Intl.NumberFormat('ar-SA').format(n);
 }
@@ -13,6 +13,7 @@ export interface Task {
   priority: string;
   trackId?: string;
   scopeBlockId?: string;
+  startDate?: string;
   dueDate?: string;
   progress: number;
   weight?: number;
@@ -23,6 +24,20 @@ export interface Task {
   updatedAt: string;
   isDeleted?: boolean;
 
+  // Recurring series this task is an occurrence of
+  recurrenceId?: string | null;
+  occurrenceDate?: string | null;
+  recurrence?: { id: string; rrule: string; startsAt: string; nextOccurrenceAt: string | null; isActive: boolean } | null;
+
+  // Subtask hierarchy; a parent's progress is rolled up from its subtasks
+  parentId?: string | null;
+  parent?: { id: string; title: string; titleAr: string; status: string } | null;
+  completeWithSubtasks?: boolean;
+
+  // Effort in minutes: the estimate and the time logged on the task
+  estimatedMinutes?: number | null;
+  loggedMinutes?: number;
+
   // Polymorphic assignment
   assigneeType: 'TRACK' | 'USER' | 'HR' | 'GLOBAL';
   assigneeTrackId?: string;
@@ -38,6 +53,11 @@ export interface Task {
     userId: string;
     user: { id: string; name: string; nameAr: string };
   }>;
+  reviewers?: Array<{
+    id: string;
+    userId: string;
+    user: { id: string; name: string; nameAr: string };
+  }>;
   files?: Array<{
     id: string;
     fileName: string;
@@ -91,6 +111,7 @@ export interface Task {
     adminNotes?: number;
     taskUpdates?: number;
     files?: number;
+    subtasks?: number;
   };
 }
 